@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // The extension's tsconfig leaves out test globals, which would clash with @types/mocha
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { types: ['node', 'jest'] } }]
+  }
+};
@@ -9,8 +9,15 @@ import { SidebarProvider } from './lib/sidebarProvider';
 import { AuthService } from './lib/authService';
 import { ProjectLoader } from './lib/projectLoader';
 import { SyncService } from './lib/syncService';
+import { SyncConflictResolver } from './lib/syncConflictResolver';
 import { ProjectStateUpdater } from './lib/projectStateUpdater';
 import { TaskDocumentProvider } from './lib/taskDocumentProvider';
+import { TaskMarkdownFeatures } from './lib/taskMarkdownFeatures';
+import { TaskSessionService } from './lib/taskSessionService';
+import { CompletionSuggestions } from './lib/completionSuggestions';
+import { SuggestedCompletionsView } from './lib/suggestedCompletionsView';
+import { ProjectChatParticipant } from './lib/chatParticipant';
+import { ProjectLanguageModelTools } from './lib/languageModelTools';
 import { VSCodeExtension } from './types';
 
 // Add fetch type for Node.js
@@ -182,8 +189,21 @@ export async function activate(context: vscode.ExtensionContext) {
         // Initialize error handling
         setupGlobalErrorHandling();
         
-        // Initialize auth service
+        // Initialize auth service: loads the token from secret storage and handles the browser sign-in callback
         const authService = AuthService.getInstance();
+        await authService.initialize(context);
+        context.subscriptions.push(vscode.window.registerUriHandler(authService));
+
+        // Replays document changes queued while offline, including from earlier sessions.
+        // The conflict resolver has to listen before the first replay.
+        context.subscriptions.push(SyncConflictResolver.register(context));
+        SyncService.getInstance().initialize(context);
+
+        // Time tracking for the active task; focus time is saved when the window loses focus or the extension stops
+        TaskSessionService.getInstance().initialize(context);
+
+        // Completion suggestions from file and commit analysis wait in workspace state for review
+        CompletionSuggestions.getInstance().initialize(context);
     } catch (error) {
         console.error('Error during extension initialization:', error);
     }
@@ -211,9 +231,21 @@ export async function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true
     });
 
+    // Tasks inferred as complete, reviewed in bulk instead of through one-off notifications
+    const suggestedCompletionsRegistration = SuggestedCompletionsView.register(progressTracker);
+
     // Register custom editor provider for tasks.md
     const taskDocumentProvider = new TaskDocumentProvider(context);
     const taskDocumentProviderRegistration = TaskDocumentProvider.register(context);
+
+    // CodeLens, gutter status, requirement hovers and go-to-definition for tasks.md opened as markdown
+    const taskMarkdownFeaturesRegistration = TaskMarkdownFeatures.register(context);
+
+    // Register the @roki chat participant
+    const chatParticipantRegistration = ProjectChatParticipant.register(contextInjector);
+
+    // Register language-model tools for agent mode
+    const languageModelToolsRegistration = ProjectLanguageModelTools.register(contextInjector);
     
     // Try to make the view visible
     try {
@@ -728,11 +760,21 @@ export async function activate(context: vscode.ExtensionContext) {
             if (syncStatus) {
                         const statusText = syncStatus.status === 'synced' ? 'Synced' :
                           syncStatus.status === 'syncing' ? 'Syncing' :
+                          syncStatus.status === 'pending' ? `${syncStatus.pendingChanges} change(s) queued` :
                           syncStatus.status === 'error' ? 'Error' : 'Conflict';
                 
-                vscode.window.showInformationMessage(
-                    `${statusText}\nLast sync: ${syncStatus.lastSync?.toLocaleString() || 'Never'}\n${syncStatus.message || ''}`
+                const action = syncStatus.status === 'conflict' ? 'Resolve Conflicts' :
+                               syncStatus.status === 'pending' ? 'Retry Now' : undefined;
+                const choice = await vscode.window.showInformationMessage(
+                    `${statusText}\nLast sync: ${syncStatus.lastSync?.toLocaleString() || 'Never'}\n${syncStatus.message || ''}`,
+                    ...(action ? [action] : [])
                 );
+
+                if (choice === 'Resolve Conflicts') {
+                    await syncService.reviewConflicts(projectId);
+                } else if (choice === 'Retry Now') {
+                    await syncService.flushQueue(projectId);
+                }
             } else {
                 vscode.window.showInformationMessage('No sync status available for this project');
             }
@@ -793,8 +835,6 @@ export async function activate(context: vscode.ExtensionContext) {
 
     const enterTokenCommand = vscode.commands.registerCommand('aiProjectManager.enterToken', async () => {
         try {
-            const config = vscode.workspace.getConfiguration('aiProjectManager');
-            
             // Prompt user to paste token
             const token = await vscode.window.showInputBox({
                 prompt: 'Paste your authentication token from the browser',
@@ -813,18 +853,14 @@ export async function activate(context: vscode.ExtensionContext) {
             });
             
             if (token) {
-                // Save token to settings
-                await config.update('authToken', token, vscode.ConfigurationTarget.Global);
+                // Verify and save token to secret storage
+                const user = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: "🔍 Verifying token...",
+                    cancellable: false
+                }, () => AuthService.getInstance().setToken(token.trim()));
                 
-                // Show success message
-                vscode.window.showInformationMessage(
-                    'Token saved! Click "Confirm Token" to verify it.',
-                    'Confirm Now'
-                ).then(choice => {
-                    if (choice === 'Confirm Now') {
-                        vscode.commands.executeCommand('aiProjectManager.checkToken');
-                    }
-                });
+                vscode.window.showInformationMessage(`✅ Successfully logged in as ${user.name}`);
                 
                 // Refresh sidebar to show updated state
                 sidebarProvider.refresh();
@@ -836,108 +872,61 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Check token command
     const checkTokenCommand = vscode.commands.registerCommand('aiProjectManager.checkToken', async () => {
+        const authService = AuthService.getInstance();
+        const showVerificationFailed = (message: string) => {
+            vscode.window.showErrorMessage(
+                `❌ ${message}`,
+                'Try Again',
+                'Clear Token'
+            ).then(choice => {
+                if (choice === 'Try Again') {
+                    vscode.commands.executeCommand('aiProjectManager.checkToken');
+                } else if (choice === 'Clear Token') {
+                    authService.clearUserSettings().then(() => sidebarProvider.refresh());
+                }
+            });
+        };
+
         try {
-            const authService = AuthService.getInstance();
-            const config = vscode.workspace.getConfiguration('aiProjectManager');
-            const token = config.get('authToken', '');
-            
-            if (!token) {
+            if (!authService.isAuthenticated()) {
                 const choice = await vscode.window.showWarningMessage(
-                    'No authentication token found. Would you like to set one up?',
-                    'Set Up Token',
+                    'No valid authentication token found. Would you like to sign in?',
+                    'Sign In',
                     'Cancel'
                 );
                 
-                if (choice === 'Set Up Token') {
-                    await vscode.commands.executeCommand('aiProjectManager.openAuthSettings');
+                if (choice === 'Sign In') {
+                    await vscode.commands.executeCommand('aiProjectManager.login');
                 }
                 return;
             }
 
-            // Show progress
-            await vscode.window.withProgress({
+            // Verifies the stored token, refreshing it first if it is about to expire
+            const user = await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: "🔍 Verifying token...",
                 cancellable: false
-            }, async (progress) => {
-                progress.report({ increment: 0 });
-                
-                // Verify the token
-                const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
-                const response = await fetch(`${dashboardUrl}/api/auth/verify-token`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${token}`
-                    }
-                });
-
-                progress.report({ increment: 50 });
+            }, () => authService.refreshUserDetails());
 
-                if (response.ok) {
-                    const userData = await response.json();
-                    const user = {
-                        id: userData.userId,
-                        email: userData.email,
-                        name: userData.name,
-                        accessToken: token
-                    };
-                    
-                    // Update user settings and ensure they're saved
-                    await authService.updateUserSettings(user);
-                    progress.report({ increment: 100 });
-                    
-                    // Force a configuration update to trigger sidebar refresh
-                    await config.update('authToken', token, vscode.ConfigurationTarget.Global);
-                    
-                    vscode.window.showInformationMessage(
-                        `Welcome, ${user.name}! Your projects are now available.`,
-                        'View Projects'
-                    ).then(choice => {
-                        if (choice === 'View Projects') {
-                            sidebarProvider.refresh();
-                        }
-                    });
-                    
-                    // Force immediate sidebar refresh
-                    setTimeout(() => {
+            if (user) {
+                vscode.window.showInformationMessage(
+                    `Welcome, ${user.name}! Your projects are now available.`,
+                    'View Projects'
+                ).then(choice => {
+                    if (choice === 'View Projects') {
                         sidebarProvider.refresh();
-                    }, 100);
-                } else {
-                    const errorData = await response.text();
-                    console.error('Token verification failed:', response.status, errorData);
-                    
-                    vscode.window.showErrorMessage(
-                        '❌ Token verification failed. The token may be expired or invalid.',
-                        'Try Again',
-                        'Clear Token'
-                    ).then(choice => {
-                        if (choice === 'Try Again') {
-                            vscode.commands.executeCommand('aiProjectManager.checkToken');
-                        } else if (choice === 'Clear Token') {
-                            config.update('authToken', '', vscode.ConfigurationTarget.Global);
-                            authService.clearUserSettings();
-                            sidebarProvider.refresh();
-                        }
-                    });
-                }
-            });
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Token verification failed';
-            vscode.window.showErrorMessage(
-                `❌ ${errorMessage}`,
-                'Try Again',
-                'Clear Token'
-            ).then(choice => {
-                if (choice === 'Try Again') {
-                    vscode.commands.executeCommand('aiProjectManager.checkToken');
-                } else if (choice === 'Clear Token') {
-                    const config = vscode.workspace.getConfiguration('aiProjectManager');
-                    config.update('authToken', '', vscode.ConfigurationTarget.Global);
-                    AuthService.getInstance().clearUserSettings();
+                    }
+                });
+                
+                // Force immediate sidebar refresh
+                setTimeout(() => {
                     sidebarProvider.refresh();
-                }
-            });
+                }, 100);
+            } else {
+                showVerificationFailed('Token verification failed. The token may be expired or invalid.');
+            }
+        } catch (error) {
+            showVerificationFailed(error instanceof Error ? error.message : 'Token verification failed');
         }
     });
 
@@ -996,6 +985,34 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const installCommitMsgHookCommand = vscode.commands.registerCommand('aiProjectManager.installCommitMsgHook', async () => {
+        try {
+            const hookPath = await progressTracker.installCommitMsgHook();
+            vscode.window.showInformationMessage(`✅ Installed commit-msg hook at ${hookPath}. Commits naming tasks that are not in tasks.md will be rejected.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to install commit-msg hook: ${errorMessage}`);
+        }
+    });
+
+    const rebuildCompletionHistoryCommand = vscode.commands.registerCommand('aiProjectManager.rebuildCompletionHistory', async () => {
+        try {
+            const { referenced, completed } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Rebuilding completion history from git...'
+            }, () => progressTracker.rebuildCompletionHistory());
+
+            vscode.commands.executeCommand('aiProjectManager.refreshSidebar');
+            await progressTracker.syncWithDashboard();
+            vscode.window.showInformationMessage(referenced > 0
+                ? `✅ Found ${referenced} tasks referenced in git history; ${completed} newly checked off`
+                : 'No commits reference tasks in tasks.md');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to rebuild completion history: ${errorMessage}`);
+        }
+    });
+
     const refreshUserDetailsCommand = vscode.commands.registerCommand('aiProjectManager.refreshUserDetails', async () => {
         try {
             vscode.window.showInformationMessage('Refreshing user details...');
@@ -1088,6 +1105,27 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
     
+    const copyMcpServerConfigCommand = vscode.commands.registerCommand('aiProjectManager.copyMcpServerConfig', async () => {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showWarningMessage('No workspace folder found. Open the project folder first.');
+            return;
+        }
+
+        // Standard mcpServers entry for clients that launch stdio servers (Claude Desktop, Cursor, etc.)
+        const config = {
+            mcpServers: {
+                roki: {
+                    command: 'node',
+                    args: [path.join(context.extensionPath, 'out', 'mcpServer.js'), '--root', workspaceFolder.uri.fsPath]
+                }
+            }
+        };
+
+        await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+        vscode.window.showInformationMessage('MCP server configuration copied to clipboard. Add it to your MCP client settings.');
+    });
+    
     context.subscriptions.push(
         injectContextCommand, 
         detectProjectCommand, 
@@ -1122,8 +1160,15 @@ export async function activate(context: vscode.ExtensionContext) {
         refreshCloudProgressCommand,
         refreshUserDetailsCommand,
         openTaskEditorCommand,
+        copyMcpServerConfigCommand,
+        installCommitMsgHookCommand,
+        rebuildCompletionHistoryCommand,
         treeDataProvider,
-        taskDocumentProviderRegistration
+        taskDocumentProviderRegistration,
+        taskMarkdownFeaturesRegistration,
+        suggestedCompletionsRegistration,
+        chatParticipantRegistration,
+        languageModelToolsRegistration
     );
     
     // Start file watching and auto progress tracking if project is detected
@@ -1160,47 +1205,18 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }, 15000); // Every 15 seconds
 
-    // Listen for auth token changes in settings
+    // Verify the stored token on startup, refreshing it if it is close to expiry
     const authService = AuthService.getInstance();
     const config = vscode.workspace.getConfiguration('aiProjectManager');
     
-    // Check if there's a token in settings on startup
-    const existingToken = config.get('authToken', '');
-    if (existingToken && !authService.isAuthenticated()) {
-        // Try to verify the existing token
-        try {
-            const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
-            const response = await fetch(`${dashboardUrl}/api/auth/verify-token`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${existingToken}`
-                }
-            });
-
-            if (response.ok) {
-                const userData = await response.json();
-                const user = {
-                    id: userData.userId,
-                    email: userData.email,
-                    name: userData.name,
-                    accessToken: existingToken
-                };
-                
-                await authService.updateUserSettings(user);
-                vscode.window.showInformationMessage(`Welcome back, ${user.name}!`);
-                sidebarProvider.refresh();
-            } else {
-                // Token is invalid, clear it
-                await config.update('authToken', '', vscode.ConfigurationTarget.Global);
-                await authService.clearUserSettings();
-            }
-        } catch (error) {
-            console.error('Failed to verify existing token:', error);
-            // Clear invalid token
-            await config.update('authToken', '', vscode.ConfigurationTarget.Global);
-            await authService.clearUserSettings();
+    if (authService.isAuthenticated() && !config.get('userId', '')) {
+        const user = await authService.refreshUserDetails();
+        if (user) {
+            vscode.window.showInformationMessage(`Welcome back, ${user.name}!`);
+            sidebarProvider.refresh();
         }
+    } else if (authService.isAuthenticated()) {
+        authService.refreshTokenIfNeeded();
     }
 
     context.subscriptions.push({ dispose: () => clearInterval(heartbeatInterval) });
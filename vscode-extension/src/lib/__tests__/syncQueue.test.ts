@@ -0,0 +1,113 @@
+import type * as vscode from 'vscode';
+import { hashContent, SyncQueue } from '../syncQueue';
+
+// Global state as VS Code keeps it: values survive as long as the memento does
+class MemoryMemento implements vscode.Memento {
+  private readonly values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string): T | undefined;
+  get<T>(key: string, defaultValue: T): T;
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    // Stored as JSON, like VS Code, so callers can't mutate state without update()
+    return this.values.has(key) ? JSON.parse(JSON.stringify(this.values.get(key))) : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+describe('SyncQueue', () => {
+  let state: MemoryMemento;
+  let queue: SyncQueue;
+
+  beforeEach(() => {
+    state = new MemoryMemento();
+    queue = new SyncQueue(state);
+  });
+
+  it('keeps changes in the order they were queued', async () => {
+    await queue.enqueueEdit('p1', '/work', 'design', 'design v1');
+    await queue.enqueueTaskCompletion('p1', '/work', '2.1');
+    await queue.enqueueEdit('p2', '/other', 'requirements', 'requirements v1');
+
+    expect(queue.getChanges().map(change => [change.projectId, change.kind, change.document])).toEqual([
+      ['p1', 'edit', 'design'],
+      ['p1', 'task-completion', 'tasks'],
+      ['p2', 'edit', 'requirements']
+    ]);
+    expect(queue.getChanges('p1')).toHaveLength(2);
+    expect(queue.hasChanges('p2', 'requirements')).toBe(true);
+    expect(queue.hasChanges('p2', 'design')).toBe(false);
+  });
+
+  it('collapses repeated edits to a document into one change on the same base', async () => {
+    await queue.setBase('p1', 'design', 'synced design');
+    const first = await queue.enqueueEdit('p1', '/work', 'design', 'design v1');
+    await queue.update({ ...first, attempts: 3, lastError: 'fetch failed' });
+    await queue.setBase('p1', 'design', 'newer cloud design');
+
+    const second = await queue.enqueueEdit('p1', '/work', 'design', 'design v2');
+
+    expect(queue.getChanges()).toHaveLength(1);
+    expect(second).toMatchObject({
+      id: first.id,
+      content: 'design v2',
+      baseVersion: hashContent('synced design'),
+      attempts: 0,
+      lastError: undefined
+    });
+  });
+
+  it('queues each task completion once', async () => {
+    const first = await queue.enqueueTaskCompletion('p1', '/work', '3');
+    const again = await queue.enqueueTaskCompletion('p1', '/work', '3');
+    await queue.enqueueTaskCompletion('p1', '/work', '4');
+
+    expect(again.id).toBe(first.id);
+    expect(queue.getChanges().map(change => change.taskId)).toEqual(['3', '4']);
+  });
+
+  it('records the last synced version as the base of new changes', async () => {
+    const unsynced = await queue.enqueueEdit('p1', '/work', 'tasks', 'tasks v1');
+    await queue.setBase('p1', 'requirements', 'synced requirements', 'cloud-version-7');
+    const synced = await queue.enqueueEdit('p1', '/work', 'requirements', 'requirements v1');
+
+    expect(unsynced.baseVersion).toBeNull();
+    expect(synced.baseVersion).toBe('cloud-version-7');
+  });
+
+  it('returns base content only for the version it was synced at', async () => {
+    await queue.setBase('p1', 'design', 'synced design', 'v1');
+
+    expect(queue.getBaseContent('p1', 'design', 'v1')).toBe('synced design');
+    expect(queue.getBaseContent('p1', 'design', 'v0')).toBeNull();
+    expect(queue.getBaseContent('p1', 'tasks', 'v1')).toBeNull();
+  });
+
+  it('updates and removes changes by id', async () => {
+    const change = await queue.enqueueEdit('p1', '/work', 'design', 'design v1');
+    await queue.enqueueEdit('p1', '/work', 'tasks', 'tasks v1');
+
+    await queue.update({ ...change, status: 'conflict' });
+    expect(queue.getChanges()[0].status).toBe('conflict');
+
+    await queue.remove(change.id);
+    expect(queue.getChanges().map(remaining => remaining.document)).toEqual(['tasks']);
+  });
+
+  it('survives a restart', async () => {
+    await queue.setBase('p1', 'design', 'synced design');
+    await queue.enqueueEdit('p1', '/work', 'design', 'design v1');
+    await queue.enqueueTaskCompletion('p1', '/work', '2');
+
+    const restarted = new SyncQueue(state);
+
+    expect(restarted.getChanges()).toEqual(queue.getChanges());
+    expect(restarted.getBaseVersion('p1', 'design')).toBe(hashContent('synced design'));
+  });
+});
@@ -0,0 +1,356 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { hashContent, QueuedChange } from '../syncQueue';
+import { SyncConflict, SyncService } from '../syncService';
+
+jest.mock('vscode', () => ({
+  EventEmitter: class<T> {
+    private listeners: ((value: T) => void)[] = [];
+    event = (listener: (value: T) => void) => {
+      this.listeners.push(listener);
+      return { dispose: () => undefined };
+    };
+    fire(value: T) {
+      this.listeners.forEach(listener => listener(value));
+    }
+  },
+  workspace: {
+    getConfiguration: () => ({ get: (_key: string, defaultValue: unknown) => defaultValue })
+  },
+  window: {
+    showWarningMessage: jest.fn()
+  }
+}), { virtual: true });
+
+// The dashboard's document endpoints, keyed by `${projectId}/${document}`
+const mockDashboard = {
+  documents: new Map<string, string>(),
+  requests: [] as string[],
+  offline: false,
+  failures: [] as number[] // Statuses returned instead of handling the next requests
+};
+
+jest.mock('../authService', () => ({
+  AuthService: {
+    getInstance: () => ({
+      isAuthenticated: () => true,
+      makeAuthenticatedRequest: async (url: string, options: { method?: string; body?: string } = {}) => {
+        const method = options.method ?? 'GET';
+        const [, projectId, document] = url.match(/\/api\/vscode\/projects\/([^/]+)\/documents(?:\/(\w+))?$/)!;
+        mockDashboard.requests.push(`${method} ${document ?? 'documents'}`);
+
+        const respond = (status: number, body: unknown = {}) => ({
+          ok: status < 400,
+          status,
+          statusText: `Status ${status}`,
+          json: async () => body,
+          text: async () => JSON.stringify(body)
+        });
+
+        if (mockDashboard.offline) {
+          throw new TypeError('fetch failed');
+        }
+        const failure = mockDashboard.failures.shift();
+        if (failure) {
+          return respond(failure);
+        }
+
+        const key = `${projectId}/${document}`;
+        const current = mockDashboard.documents.get(key);
+        if (!document) {
+          const entries = ['requirements', 'design', 'tasks'].map(name => {
+            const content = mockDashboard.documents.get(`${projectId}/${name}`);
+            return [name, content === undefined ? null : { content, version: hashContent(content) }];
+          });
+          return respond(200, Object.fromEntries(entries));
+        }
+        if (method === 'GET') {
+          return current === undefined ? respond(404) : respond(200, { content: current, version: hashContent(current) });
+        }
+
+        const { content, baseVersion } = JSON.parse(options.body!);
+        if (current !== undefined && baseVersion !== hashContent(current)) {
+          return respond(409, { description: 'Changed on the dashboard', remoteContent: current, remoteVersion: hashContent(current) });
+        }
+        mockDashboard.documents.set(key, content);
+        return respond(200, { version: hashContent(content) });
+      }
+    })
+  }
+}));
+
+class MemoryMemento implements vscode.Memento {
+  private readonly values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string): T | undefined;
+  get<T>(key: string, defaultValue: T): T;
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? JSON.parse(JSON.stringify(this.values.get(key))) : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+describe('SyncService', () => {
+  let workspace: string;
+  let globalState: MemoryMemento;
+  let service: SyncService;
+
+  const specPath = (document: string) => path.join(workspace, '.kiro', 'specs', 'ai-project-manager', `${document}.md`);
+  const writeLocal = (document: string, content: string) => {
+    fs.mkdirSync(path.dirname(specPath(document)), { recursive: true });
+    fs.writeFileSync(specPath(document), content);
+  };
+  const readLocal = (document: string) => fs.readFileSync(specPath(document), 'utf-8');
+  const queued = () => globalState.get<QueuedChange[]>('aiProjectManager.syncQueue', []);
+
+  const start = async () => {
+    const started = new SyncService();
+    started.initialize({ globalState } as unknown as vscode.ExtensionContext);
+    await started.flushQueue();
+    return started;
+  };
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-service-'));
+    globalState = new MemoryMemento();
+    mockDashboard.documents.clear();
+    mockDashboard.requests = [];
+    mockDashboard.offline = false;
+    mockDashboard.failures = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = await start();
+  });
+
+  afterEach(() => {
+    service.dispose();
+    jest.restoreAllMocks();
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('replaying the queue', () => {
+    it('sends queued changes in the order they were made once the dashboard is back', async () => {
+      mockDashboard.documents.set('p1/tasks', '- [ ] 1. Build it\n');
+      mockDashboard.offline = true;
+      writeLocal('design', 'design v1');
+      await service.uploadLocalDocuments('p1', workspace);
+      await service.queueTaskCompletion('p1', workspace, '1');
+      expect(queued().map(change => change.kind)).toEqual(['edit', 'task-completion']);
+
+      mockDashboard.offline = false;
+      mockDashboard.requests = [];
+
+      expect(await service.flushQueue('p1')).toBe(true);
+      expect(mockDashboard.requests).toEqual(['PUT design', 'GET tasks', 'PUT tasks']);
+      expect(mockDashboard.documents.get('p1/design')).toBe('design v1');
+      expect(mockDashboard.documents.get('p1/tasks')).toBe('- [x] 1. Build it\n');
+      expect(service.getSyncStatus('p1').status).toBe('synced');
+    });
+
+    it('stops at the first network failure and keeps the changes for later', async () => {
+      mockDashboard.offline = true;
+      writeLocal('requirements', 'requirements v1');
+      writeLocal('design', 'design v1');
+
+      expect(await service.uploadLocalDocuments('p1', workspace)).toBe(false);
+
+      expect(mockDashboard.requests).toEqual(['PUT requirements']);
+      expect(queued()).toEqual([
+        expect.objectContaining({ document: 'requirements', attempts: 1, lastError: 'fetch failed' }),
+        expect.objectContaining({ document: 'design', attempts: 0 })
+      ]);
+      expect(service.getSyncStatus('p1')).toMatchObject({ status: 'pending', pendingChanges: 2 });
+    });
+
+    it('retries changes after server errors', async () => {
+      mockDashboard.failures = [503];
+      writeLocal('design', 'design v1');
+
+      expect(await service.uploadLocalDocuments('p1', workspace)).toBe(false);
+      expect(queued()).toEqual([expect.objectContaining({ attempts: 1, lastError: '503 Status 503' })]);
+
+      expect(await service.flushQueue('p1')).toBe(true);
+      expect(mockDashboard.documents.get('p1/design')).toBe('design v1');
+    });
+
+    it('drops changes the dashboard rejects for good and warns about them', async () => {
+      const { window } = await import('vscode');
+      mockDashboard.failures = [400];
+      writeLocal('design', 'design v1');
+
+      expect(await service.uploadLocalDocuments('p1', workspace)).toBe(true);
+
+      expect(queued()).toEqual([]);
+      expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('design.md change the dashboard rejected: 400'));
+    });
+
+    it('sends only the latest content of a document edited several times offline', async () => {
+      mockDashboard.offline = true;
+      writeLocal('design', 'design v1');
+      await service.uploadLocalDocuments('p1', workspace);
+      writeLocal('design', 'design v2');
+      await service.uploadLocalDocuments('p1', workspace);
+
+      mockDashboard.offline = false;
+      mockDashboard.requests = [];
+      await service.flushQueue();
+
+      expect(mockDashboard.requests).toEqual(['PUT design']);
+      expect(mockDashboard.documents.get('p1/design')).toBe('design v2');
+    });
+
+    it('replays changes queued before a restart', async () => {
+      mockDashboard.offline = true;
+      writeLocal('design', 'design v1');
+      await service.uploadLocalDocuments('p1', workspace);
+      service.dispose();
+
+      mockDashboard.offline = false;
+      service = await start();
+
+      expect(queued()).toEqual([]);
+      expect(mockDashboard.documents.get('p1/design')).toBe('design v1');
+    });
+
+    it('applies a queued task completion to the current cloud copy', async () => {
+      mockDashboard.documents.set('p1/tasks', '- [ ] 1. Build it\n- [ ] 2. Ship it\n');
+      mockDashboard.offline = true;
+      await service.queueTaskCompletion('p1', workspace, '2');
+
+      // Edited on the dashboard while the completion waited
+      mockDashboard.documents.set('p1/tasks', '- [ ] 1. Build it\n- [ ] 2. Ship it\n- [ ] 3. Celebrate\n');
+      mockDashboard.offline = false;
+
+      expect(await service.flushQueue()).toBe(true);
+      expect(mockDashboard.documents.get('p1/tasks')).toBe('- [ ] 1. Build it\n- [x] 2. Ship it\n- [ ] 3. Celebrate\n');
+    });
+  });
+
+  describe('conflicts', () => {
+    let conflicts: SyncConflict[];
+
+    // Local and cloud copies both start from the synced design
+    beforeEach(async () => {
+      conflicts = [];
+      service.onDidDetectConflict(conflict => conflicts.push(conflict));
+      mockDashboard.documents.set('p1/design', 'synced design');
+      await service.downloadCloudDocuments('p1', workspace);
+    });
+
+    it('raises an upload the dashboard refuses with 409 as a conflict against the last synced version', async () => {
+      mockDashboard.documents.set('p1/design', 'cloud design');
+      writeLocal('design', 'local design');
+
+      expect(await service.uploadLocalDocuments('p1', workspace)).toBe(false);
+
+      expect(conflicts).toEqual([expect.objectContaining({
+        baseContent: 'synced design',
+        remoteContent: 'cloud design',
+        remoteVersion: hashContent('cloud design'),
+        change: expect.objectContaining({ document: 'design', status: 'conflict', lastError: 'Changed on the dashboard' })
+      })]);
+      expect(mockDashboard.documents.get('p1/design')).toBe('cloud design');
+      expect(service.getSyncStatus('p1').status).toBe('conflict');
+    });
+
+    it('does not replay a conflicting change until it is resolved', async () => {
+      mockDashboard.documents.set('p1/design', 'cloud design');
+      writeLocal('design', 'local design');
+      await service.uploadLocalDocuments('p1', workspace);
+      mockDashboard.requests = [];
+
+      expect(await service.flushQueue('p1')).toBe(false);
+      expect(mockDashboard.requests).toEqual([]);
+    });
+
+    it('raises a download as a conflict when both copies changed since the last sync', async () => {
+      mockDashboard.documents.set('p1/design', 'cloud design');
+      writeLocal('design', 'local design');
+
+      await service.downloadCloudDocuments('p1', workspace);
+
+      expect(readLocal('design')).toBe('local design');
+      expect(conflicts).toEqual([expect.objectContaining({ baseContent: 'synced design', remoteContent: 'cloud design' })]);
+      expect(queued()).toEqual([expect.objectContaining({ document: 'design', status: 'conflict' })]);
+    });
+
+    it('downloads documents only changed in the cloud and keeps ones only changed locally', async () => {
+      mockDashboard.documents.set('p1/design', 'cloud design');
+      mockDashboard.documents.set('p1/tasks', 'synced tasks');
+      await service.downloadCloudDocuments('p1', workspace);
+      writeLocal('tasks', 'local tasks');
+
+      await service.downloadCloudDocuments('p1', workspace);
+
+      expect(readLocal('design')).toBe('cloud design');
+      expect(readLocal('tasks')).toBe('local tasks');
+      expect(conflicts).toEqual([]);
+    });
+
+    it('leaves documents with queued local changes to the upload', async () => {
+      mockDashboard.offline = true;
+      writeLocal('design', 'local design');
+      await service.uploadLocalDocuments('p1', workspace);
+      mockDashboard.offline = false;
+      mockDashboard.documents.set('p1/design', 'cloud design');
+
+      await service.downloadCloudDocuments('p1', workspace);
+
+      expect(readLocal('design')).toBe('local design');
+      expect(conflicts).toEqual([]);
+    });
+
+    describe('resolveConflict', () => {
+      beforeEach(async () => {
+        mockDashboard.documents.set('p1/design', 'cloud design');
+        writeLocal('design', 'local design');
+        await service.uploadLocalDocuments('p1', workspace);
+      });
+
+      it('takes the cloud copy and drops the local edit for "remote"', async () => {
+        expect(await service.resolveConflict(conflicts[0], 'remote')).toBe(true);
+
+        expect(readLocal('design')).toBe('cloud design');
+        expect(queued()).toEqual([]);
+        expect(fs.readdirSync(path.join(path.dirname(specPath('design')), 'backup'))).toEqual(
+          expect.arrayContaining([expect.stringMatching(/^design\.md\.backup\./)])
+        );
+        expect(service.getSyncStatus('p1').status).toBe('synced');
+      });
+
+      it('uploads the local copy on top of the cloud version for "local"', async () => {
+        expect(await service.resolveConflict(conflicts[0], 'local')).toBe(true);
+
+        expect(mockDashboard.documents.get('p1/design')).toBe('local design');
+        expect(queued()).toEqual([]);
+      });
+
+      it('uploads and writes the merged content for "merge"', async () => {
+        expect(await service.resolveConflict(conflicts[0], 'merge', 'merged design')).toBe(true);
+
+        expect(mockDashboard.documents.get('p1/design')).toBe('merged design');
+        expect(readLocal('design')).toBe('merged design');
+        expect(queued()).toEqual([]);
+      });
+
+      it('keeps the resolution queued while the dashboard is unreachable', async () => {
+        mockDashboard.offline = true;
+
+        expect(await service.resolveConflict(conflicts[0], 'merge', 'merged design')).toBe(false);
+        expect(queued()).toEqual([expect.objectContaining({ status: 'pending', content: 'merged design', baseVersion: hashContent('cloud design') })]);
+
+        mockDashboard.offline = false;
+        expect(await service.flushQueue('p1')).toBe(true);
+        expect(mockDashboard.documents.get('p1/design')).toBe('merged design');
+      });
+    });
+  });
+});
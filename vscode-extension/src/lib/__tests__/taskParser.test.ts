@@ -0,0 +1,60 @@
+import { parseTasksMarkdown } from '../taskParser';
+import { parseTaskReferences } from '../taskReferences';
+
+describe('parseTasksMarkdown', () => {
+  const tasksMarkdown = [
+    '# Implementation Plan',
+    '',
+    '- [ ] 1. Set up project',
+    '  - Create the repository',
+    '  - _Requirements: 1.1, 2.3_',
+    '- [x] 2 Build the API',
+    '  - [ ] 2.1 Add routes',
+    '    - [ ] 1.2.3 Validate input',
+    '- [ ] Write the docs'
+  ].join('\n');
+
+  it('reads "1. Title" as task 1', () => {
+    const [task] = parseTasksMarkdown(tasksMarkdown);
+
+    expect(task.id).toBe('1');
+    expect(task.number).toBe('1');
+    expect(task.title).toBe('Set up project');
+    expect(task.requirements).toEqual(['1.1', '2.3']);
+    expect(task.details).toEqual(['Create the repository']);
+  });
+
+  it('reads "1.2.3 Title" as task 1.2.3', () => {
+    const task = parseTasksMarkdown(tasksMarkdown).find(candidate => candidate.title === 'Validate input');
+
+    expect(task?.number).toBe('1.2.3');
+    expect(task?.isSubtask).toBe(true);
+  });
+
+  it('reads "2 Title" and "2.1 Title" as before', () => {
+    const tasks = parseTasksMarkdown(tasksMarkdown);
+
+    expect(tasks[1]).toMatchObject({ number: '2', title: 'Build the API', isCompleted: true });
+    expect(tasks[2]).toMatchObject({ number: '2.1', title: 'Add routes', isSubtask: true });
+  });
+
+  it('gives tasks without a number no task number', () => {
+    const task = parseTasksMarkdown(tasksMarkdown).find(candidate => candidate.title === 'Write the docs');
+
+    expect(task?.number).toBeNull();
+  });
+
+  it('matches the task IDs commit messages reference', () => {
+    const numbers = parseTasksMarkdown(tasksMarkdown).map(task => task.number);
+    const references = parseTaskReferences('Set up project\n\n[task 1.2.3]\n\nCloses-Task: 1').map(reference => reference.taskId);
+
+    expect(references).toEqual(['1', '1.2.3']);
+    references.forEach(taskId => expect(numbers).toContain(taskId));
+  });
+
+  it('reads trailer IDs written with a trailing dot', () => {
+    const references = parseTaskReferences('Set up project\n\nCloses-Task: 1., 2.1.').map(reference => reference.taskId);
+
+    expect(references).toEqual(['1', '2.1']);
+  });
+});
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 
 export interface AuthUser {
   id: string;
@@ -7,9 +8,27 @@ export interface AuthUser {
   accessToken: string;
 }
 
-export class AuthService {
+interface PendingLogin {
+  state: string;
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+}
+
+export class AuthService implements vscode.UriHandler {
   private static instance: AuthService;
 
+  private static readonly TOKEN_SECRET_KEY = 'aiProjectManager.authToken';
+  private static readonly CALLBACK_PATH = '/auth-callback';
+  private static readonly LOGIN_TIMEOUT = 5 * 60 * 1000; // 5 minutes to finish signing in
+  private static readonly REFRESH_WINDOW = 7 * 24 * 60 * 60 * 1000; // refresh a week before expiry
+
+  private context?: vscode.ExtensionContext;
+  private token = '';
+  private pendingLogin?: PendingLogin;
+  private pendingRefresh?: Promise<void>;
+  private readonly _onDidChangeAuth = new vscode.EventEmitter<void>();
+  readonly onDidChangeAuth = this._onDidChangeAuth.event;
+
   static getInstance(): AuthService {
     if (!AuthService.instance) {
       AuthService.instance = new AuthService();
@@ -17,14 +36,62 @@ export class AuthService {
     return AuthService.instance;
   }
 
-  constructor() {
-    // No initialization needed - settings are accessed on demand
+  /**
+   * Loads the token from SecretStorage, moving any token still kept in settings.json there first.
+   * Must run before anything checks isAuthenticated().
+   */
+  async initialize(context: vscode.ExtensionContext): Promise<void> {
+    this.context = context;
+
+    await this.migrateSettingsToken();
+    this.token = (await context.secrets.get(AuthService.TOKEN_SECRET_KEY)) || '';
+
+    // Pick up sign-in and sign-out from other windows
+    context.subscriptions.push(
+      context.secrets.onDidChange(async event => {
+        if (event.key !== AuthService.TOKEN_SECRET_KEY) {
+          return;
+        }
+        const token = (await context.secrets.get(AuthService.TOKEN_SECRET_KEY)) || '';
+        if (token !== this.token) {
+          this.token = token;
+          this._onDidChangeAuth.fire();
+        }
+      }),
+      this._onDidChangeAuth
+    );
   }
 
   private getConfig() {
     return vscode.workspace.getConfiguration('aiProjectManager');
   }
 
+  private getSecrets(): vscode.SecretStorage {
+    if (!this.context) {
+      throw new Error('AuthService used before initialize()');
+    }
+    return this.context.secrets;
+  }
+
+  /**
+   * Earlier versions stored the token in the authToken setting, where it was visible in
+   * settings.json and synced by Settings Sync
+   */
+  private async migrateSettingsToken(): Promise<void> {
+    const config = this.getConfig();
+    const legacyToken = config.get('authToken', '');
+    if (!legacyToken) {
+      return;
+    }
+
+    const secrets = this.getSecrets();
+    if (!(await secrets.get(AuthService.TOKEN_SECRET_KEY))) {
+      await secrets.store(AuthService.TOKEN_SECRET_KEY, legacyToken);
+    }
+    await config.update('authToken', undefined, vscode.ConfigurationTarget.Global);
+    console.log('Moved authentication token from settings to secret storage');
+  }
+
   async updateUserSettings(user: AuthUser): Promise<void> {
     const config = this.getConfig();
     await config.update('userId', user.id, vscode.ConfigurationTarget.Global);
@@ -37,82 +104,127 @@ export class AuthService {
     await config.update('userId', '', vscode.ConfigurationTarget.Global);
     await config.update('userEmail', '', vscode.ConfigurationTarget.Global);
     await config.update('userName', '', vscode.ConfigurationTarget.Global);
-    await config.update('authToken', '', vscode.ConfigurationTarget.Global);
+    await this.storeToken('');
   }
 
+  /**
+   * Opens the dashboard sign-in page and waits for it to call back into the editor with a token
+   */
   async login(): Promise<boolean> {
+    const state = crypto.randomBytes(16).toString('hex');
+
     try {
       const config = this.getConfig();
       const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
 
-      // Show input box for the user to paste the auth token
-      const authToken = await vscode.window.showInputBox({
-        prompt: '🔑 Authentication Token Required',
-        placeHolder: 'Paste the token from the browser here...',
-        password: true,
-        ignoreFocusOut: true,
-        validateInput: (value) => {
-          if (!value || value.trim().length === 0) {
-            return 'Please paste a valid authentication token';
-          }
-          return null;
-        }
+      const callbackUri = await vscode.env.asExternalUri(
+        vscode.Uri.parse(`${vscode.env.uriScheme}://${this.context!.extension.id}${AuthService.CALLBACK_PATH}`)
+      );
+      const loginUrl = `${dashboardUrl}/auth/vscode-login?redirect_uri=${encodeURIComponent(callbackUri.toString(true))}&state=${state}`;
+
+      this.pendingLogin?.reject(new Error('Sign-in restarted'));
+      const tokenPromise = new Promise<string>((resolve, reject) => {
+        this.pendingLogin = { state, resolve, reject };
       });
 
-      if (!authToken) {
-        return false;
-      }
+      await vscode.env.openExternal(vscode.Uri.parse(loginUrl));
 
-      // Show loading message
-      vscode.window.showInformationMessage('🔍 Verifying token...');
+      const authToken = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: '🌐 Waiting for sign-in in the browser...',
+        cancellable: true
+      }, (_progress, cancellation) => new Promise<string | undefined>((resolve, reject) => {
+        const timeout = setTimeout(() => resolve(undefined), AuthService.LOGIN_TIMEOUT);
+        cancellation.onCancellationRequested(() => resolve(undefined));
+        tokenPromise.then(resolve, reject).finally(() => clearTimeout(timeout));
+      }));
 
-      // Verify the token with the dashboard
-      const response = await fetch(`${dashboardUrl}/api/auth/verify-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${authToken}`
-        }
-      });
+      this.clearPendingLogin(state);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Token verification failed: ${response.status} ${response.statusText}`);
+      if (!authToken) {
+        vscode.window.showInformationMessage(
+          'Sign-in was not completed. You can paste the token from the browser instead.',
+          'Paste Token'
+        ).then(choice => {
+          if (choice === 'Paste Token') {
+            vscode.commands.executeCommand('aiProjectManager.enterToken');
+          }
+        });
+        return false;
       }
 
-      const userData = await response.json();
-      
-      const user: AuthUser = {
-        id: userData.userId,
-        email: userData.email,
-        name: userData.name,
-        accessToken: authToken
-      };
-
-      // Save token and user info to settings
-      await config.update('authToken', authToken, vscode.ConfigurationTarget.Global);
-      await this.updateUserSettings(user);
-      
+      const user = await this.setToken(authToken);
       vscode.window.showInformationMessage(`✅ Successfully logged in as ${user.name}`);
       return true;
 
     } catch (error) {
+      this.clearPendingLogin(state);
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       vscode.window.showErrorMessage(`Login failed: ${errorMessage}`);
       return false;
     }
   }
 
+  // A newer login() may have replaced this one's pending callback
+  private clearPendingLogin(state: string): void {
+    if (this.pendingLogin?.state === state) {
+      this.pendingLogin = undefined;
+    }
+  }
+
+  /**
+   * Receives vscode://<extension-id>/auth-callback?token=...&state=... from the dashboard
+   */
+  handleUri(uri: vscode.Uri): void {
+    if (uri.path !== AuthService.CALLBACK_PATH) {
+      return;
+    }
+
+    const params = new URLSearchParams(uri.query);
+    const token = params.get('token');
+
+    // Only accept tokens for a sign-in this window started
+    if (!this.pendingLogin || params.get('state') !== this.pendingLogin.state) {
+      vscode.window.showWarningMessage('Ignored a sign-in link that was not started from this window. Run "Login" again.');
+      return;
+    }
+
+    if (!token) {
+      this.pendingLogin.reject(new Error(params.get('error') || 'No token received from the dashboard'));
+    } else {
+      this.pendingLogin.resolve(token);
+    }
+  }
+
+  /**
+   * Verifies a token with the dashboard and stores it with the user's details
+   */
+  async setToken(token: string): Promise<AuthUser> {
+    const userData = await this.verifyToken(token);
+    const user: AuthUser = {
+      id: userData.userId,
+      email: userData.email,
+      name: userData.name,
+      accessToken: token
+    };
+
+    await this.storeToken(token);
+    await this.updateUserSettings(user);
+    return user;
+  }
+
   async logout(): Promise<void> {
     await this.clearUserSettings();
     vscode.window.showInformationMessage('Successfully logged out');
   }
 
   isAuthenticated(): boolean {
-    const config = this.getConfig();
-    const token = config.get('authToken', '');
-    // Only check for token - userId might not be set immediately
-    return token.length > 0;
+    if (!this.token) {
+      return false;
+    }
+    // Only check the token - userId might not be set immediately
+    const expiresAt = this.getTokenExpiry(this.token);
+    return !expiresAt || expiresAt > Date.now();
   }
 
   getCurrentUser(): AuthUser | null {
@@ -125,7 +237,7 @@ export class AuthService {
       id: config.get('userId', ''),
       email: config.get('userEmail', ''),
       name: config.get('userName', ''),
-      accessToken: config.get('authToken', '')
+      accessToken: this.token
     };
   }
 
@@ -135,35 +247,19 @@ export class AuthService {
         return null;
       }
 
-      const config = this.getConfig();
-      const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
-      const token = config.get('authToken', '');
-
-      // Fetch current user details from the dashboard
-      const response = await fetch(`${dashboardUrl}/api/auth/verify-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch user details: ${response.status} ${response.statusText}`);
-      }
+      await this.refreshTokenIfNeeded();
+      const userData = await this.verifyToken(this.token);
 
-      const userData = await response.json();
-      
       const user: AuthUser = {
         id: userData.userId,
         email: userData.email,
         name: userData.name,
-        accessToken: token
+        accessToken: this.token
       };
 
       // Update local settings with fresh user data
       await this.updateUserSettings(user);
-      
+
       return user;
     } catch (error) {
       console.error('Failed to refresh user details:', error);
@@ -171,16 +267,58 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchanges the token for a fresh one when it is close to expiring.
+   * Concurrent callers share one refresh request.
+   */
+  async refreshTokenIfNeeded(): Promise<void> {
+    const expiresAt = this.getTokenExpiry(this.token);
+    if (!this.token || !expiresAt || expiresAt - Date.now() > AuthService.REFRESH_WINDOW) {
+      return;
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshToken().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async refreshToken(): Promise<void> {
+    const dashboardUrl = this.getConfig().get('dashboardUrl', 'http://localhost:3000');
+
+    try {
+      const response = await fetch(`${dashboardUrl}/api/auth/generate-vscode-token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token refresh failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (data.token) {
+        await this.storeToken(data.token);
+        console.log('Authentication token refreshed');
+      }
+    } catch (error) {
+      // Keep using the current token until it actually expires
+      console.warn('Failed to refresh authentication token:', error);
+    }
+  }
+
   getAuthHeaders(): Record<string, string> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated');
     }
 
-    const config = this.getConfig();
-    const token = config.get('authToken', '');
-    
     return {
-      'Authorization': `Bearer ${token}`,
+      'Authorization': `Bearer ${this.token}`,
       'Content-Type': 'application/json'
     };
   }
@@ -190,6 +328,8 @@ export class AuthService {
       throw new Error('Not authenticated');
     }
 
+    await this.refreshTokenIfNeeded();
+
     const headers = {
       ...this.getAuthHeaders(),
       ...options.headers
@@ -200,4 +340,47 @@ export class AuthService {
       headers
     });
   }
-}
\ No newline at end of file
+
+  private async verifyToken(token: string): Promise<{ userId: string; email: string; name: string }> {
+    const dashboardUrl = this.getConfig().get('dashboardUrl', 'http://localhost:3000');
+    const response = await fetch(`${dashboardUrl}/api/auth/verify-token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token verification failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  private async storeToken(token: string): Promise<void> {
+    const secrets = this.getSecrets();
+    if (token) {
+      await secrets.store(AuthService.TOKEN_SECRET_KEY, token);
+    } else {
+      await secrets.delete(AuthService.TOKEN_SECRET_KEY);
+    }
+
+    if (this.token !== token) {
+      this.token = token;
+      this._onDidChangeAuth.fire();
+    }
+  }
+
+  /**
+   * Reads the exp claim (milliseconds) from a JWT without verifying it; null if there is none
+   */
+  private getTokenExpiry(token: string): number | null {
+    try {
+      const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString('utf-8'));
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContextInjectorImpl } from './contextInjector';
+import { ProjectDetectorImpl } from './projectDetector';
+import { TaskInteractionService } from './taskInteractionService';
+
+type ChatCommand = 'task' | 'requirements' | 'design' | 'progress';
+
+interface ChatContextResult {
+    context: string;
+    references: vscode.Uri[];
+}
+
+// Asked on the user's behalf when a command is sent without a question
+const DEFAULT_PROMPTS: Record<ChatCommand | 'default', string> = {
+    task: 'Help me implement the current task. Break it down into steps and point out anything the requirements or design say about it.',
+    requirements: 'Summarize the requirements and call out anything that looks ambiguous or untestable.',
+    design: 'Summarize the design and the main components I should know about.',
+    progress: 'Summarize where the project stands and what I should work on next.',
+    default: 'Give me a short overview of this project and what to work on next.'
+};
+
+const COMMAND_INSTRUCTIONS: Record<ChatCommand | 'default', string> = {
+    task: 'The user is working on the current task from tasks.md shown below. Keep answers focused on that task.',
+    requirements: 'Answer using the project requirements below. Refer to requirements by their numbers.',
+    design: 'Answer using the project design document below. Stay consistent with the documented architecture.',
+    progress: 'Answer using the task list and progress data below. Refer to tasks by their numbers.',
+    default: 'Answer using the project context below.'
+};
+
+/**
+ * Chat participant (@roki) that answers with project context attached, so the
+ * specs and current task reach the assistant directly instead of via the clipboard
+ */
+export class ProjectChatParticipant {
+    public static readonly participantId = 'aiProjectManager.roki';
+
+    private projectDetector = new ProjectDetectorImpl();
+    private taskInteractionService = new TaskInteractionService();
+
+    public static register(contextInjector: ContextInjectorImpl): vscode.Disposable {
+        const handler = new ProjectChatParticipant(contextInjector);
+        const participant = vscode.chat.createChatParticipant(
+            ProjectChatParticipant.participantId,
+            (request, chatContext, stream, token) => handler.handleRequest(request, chatContext, stream, token)
+        );
+
+        participant.iconPath = new vscode.ThemeIcon('robot');
+        participant.followupProvider = {
+            provideFollowups: (result) => handler.provideFollowups(result)
+        };
+
+        return participant;
+    }
+
+    constructor(private readonly contextInjector: ContextInjectorImpl) {}
+
+    private async handleRequest(
+        request: vscode.ChatRequest,
+        chatContext: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        const command = this.toCommand(request.command);
+
+        if (!this.projectDetector.detectAiProject()) {
+            stream.markdown('No AI project found in this workspace. Run **AI Project Manager: Create New Project** or load a project from the cloud first.');
+            return { metadata: { command } };
+        }
+
+        stream.progress('Gathering project context...');
+
+        let projectContext: ChatContextResult;
+        try {
+            projectContext = await this.buildContext(command);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            stream.markdown(`❌ Failed to load project context: ${errorMessage}`);
+            return { errorDetails: { message: errorMessage }, metadata: { command } };
+        }
+
+        for (const reference of projectContext.references) {
+            stream.reference(reference);
+        }
+
+        const messages = [
+            vscode.LanguageModelChatMessage.User(
+                `You are ROKI, an assistant for a software project managed with requirements.md, design.md and tasks.md. ` +
+                `${COMMAND_INSTRUCTIONS[command ?? 'default']}\n\n${projectContext.context}`
+            ),
+            ...this.getHistory(chatContext),
+            vscode.LanguageModelChatMessage.User(request.prompt.trim() || DEFAULT_PROMPTS[command ?? 'default'])
+        ];
+
+        try {
+            const response = await request.model.sendRequest(messages, {}, token);
+            for await (const fragment of response.text) {
+                stream.markdown(fragment);
+            }
+        } catch (error) {
+            if (error instanceof vscode.LanguageModelError) {
+                console.error('Chat model request failed:', error.code, error.message);
+                stream.markdown(`⚠️ The language model could not answer: ${error.message}`);
+                return { errorDetails: { message: error.message }, metadata: { command } };
+            }
+            throw error;
+        }
+
+        return { metadata: { command } };
+    }
+
+    /**
+     * Collects the context a command needs and the files it came from
+     */
+    private async buildContext(command: ChatCommand | undefined): Promise<ChatContextResult> {
+        const structure = this.projectDetector.getProjectStructure();
+
+        switch (command) {
+            case 'task':
+                return this.buildTaskContext(structure.tasksPath);
+            case 'requirements':
+                return this.buildDocumentContext('Requirements', structure.requirementsPath);
+            case 'design':
+                return this.buildDocumentContext('Design', structure.designPath);
+            case 'progress':
+                return this.buildProgressContext(structure.tasksPath, structure.progressPath);
+            default:
+                return {
+                    context: await this.contextInjector.formatContextForAI(),
+                    references: [structure.requirementsPath, structure.designPath, structure.tasksPath]
+                        .filter(filePath => fs.existsSync(filePath))
+                        .map(filePath => vscode.Uri.file(filePath))
+                };
+        }
+    }
+
+    private async buildTaskContext(tasksPath: string): Promise<ChatContextResult> {
+        const currentTask = this.contextInjector.getCurrentTask();
+        if (!currentTask) {
+            return {
+                context: '# Current Task\n\nAll tasks in tasks.md are complete.',
+                references: [vscode.Uri.file(tasksPath)]
+            };
+        }
+
+        let context = `# Current Task\n\n${this.getTaskBlock(tasksPath, currentTask) || currentTask}\n\n`;
+        const references = [vscode.Uri.file(tasksPath)];
+
+        const activeEditor = vscode.window.activeTextEditor;
+        const currentFile = activeEditor ? vscode.workspace.asRelativePath(activeEditor.document.uri) : '';
+        const relevantDocs = await this.contextInjector.selectRelevantDocs(currentFile);
+
+        if (relevantDocs.length > 0) {
+            context += '# Relevant Context Documents\n\n';
+            for (const doc of relevantDocs) {
+                context += `## ${doc.title}\n${doc.content}\n\n`;
+            }
+
+            const contextDir = this.projectDetector.getProjectStructure().contextDir;
+            relevantDocs
+                .map(doc => path.join(contextDir, doc.filename))
+                .filter(filePath => fs.existsSync(filePath))
+                .forEach(filePath => references.push(vscode.Uri.file(filePath)));
+        }
+
+        return { context: this.trimToMaxSize(context), references };
+    }
+
+    private buildDocumentContext(title: string, filePath: string): ChatContextResult {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`${path.basename(filePath)} not found`);
+        }
+
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return {
+            context: this.trimToMaxSize(`# ${title}\n\n${content}`),
+            references: [vscode.Uri.file(filePath)]
+        };
+    }
+
+    private buildProgressContext(tasksPath: string, progressPath: string): ChatContextResult {
+        const { progressSummary } = this.contextInjector.getCurrentContext();
+        const references: vscode.Uri[] = [];
+        let context = `# Progress\n\n${progressSummary}\n\n`;
+
+        if (fs.existsSync(tasksPath)) {
+            const tasks = this.taskInteractionService.flattenTasks(this.taskInteractionService.parseTasksFromContent(fs.readFileSync(tasksPath, 'utf-8')));
+            const done = tasks.filter(task => task.status === 'done');
+            const remaining = tasks.filter(task => task.status !== 'done');
+
+            context += `## Remaining Tasks (${remaining.length})\n`;
+            context += remaining.map(task => `${'  '.repeat(task.indentLevel)}- [ ] ${task.title}`).join('\n') + '\n\n';
+            context += `## Completed Tasks (${done.length})\n`;
+            context += done.map(task => `${'  '.repeat(task.indentLevel)}- [x] ${task.title}`).join('\n') + '\n';
+            references.push(vscode.Uri.file(tasksPath));
+        }
+
+        if (fs.existsSync(progressPath)) {
+            references.push(vscode.Uri.file(progressPath));
+        }
+
+        return { context: this.trimToMaxSize(context), references };
+    }
+
+    /**
+     * The current task's line plus its details, requirements and subtasks
+     */
+    private getTaskBlock(tasksPath: string, taskTitle: string): string | null {
+        try {
+            const content = fs.readFileSync(tasksPath, 'utf-8');
+            const lineIndex = content.split('\n').findIndex(line => /^\s*-\s*\[\s\]/.test(line) && line.includes(taskTitle));
+            return lineIndex === -1 ? null : this.taskInteractionService.getTaskBlock(content, lineIndex + 1);
+        } catch (error) {
+            console.warn('Failed to read current task details:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Previous turns with this participant, so follow-up questions keep their context
+     */
+    private getHistory(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+        const messages: vscode.LanguageModelChatMessage[] = [];
+
+        for (const turn of chatContext.history) {
+            if (turn.participant !== ProjectChatParticipant.participantId) {
+                continue;
+            }
+
+            if (turn instanceof vscode.ChatRequestTurn) {
+                messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+            } else if (turn instanceof vscode.ChatResponseTurn) {
+                const text = turn.response
+                    .map(part => (part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : ''))
+                    .join('');
+                if (text) {
+                    messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+                }
+            }
+        }
+
+        return messages;
+    }
+
+    private provideFollowups(result: vscode.ChatResult): vscode.ChatFollowup[] {
+        const command = result.metadata?.command as ChatCommand | undefined;
+        const followups: vscode.ChatFollowup[] = [];
+
+        if (command !== 'task') {
+            followups.push({ prompt: 'What should I do next on this task?', command: 'task', label: 'Work on the current task' });
+        }
+        if (command !== 'progress') {
+            followups.push({ prompt: 'How far along is the project?', command: 'progress', label: 'Show progress' });
+        }
+        if (command === 'task') {
+            followups.push({ prompt: 'Which requirements does this task cover?', command: 'requirements', label: 'Check the requirements' });
+        }
+
+        return followups;
+    }
+
+    private toCommand(command: string | undefined): ChatCommand | undefined {
+        return command === 'task' || command === 'requirements' || command === 'design' || command === 'progress'
+            ? command
+            : undefined;
+    }
+
+    private trimToMaxSize(context: string): string {
+        const maxContextSize = vscode.workspace.getConfiguration('aiProjectManager').get('maxContextSize', 8000);
+        if (context.length <= maxContextSize) {
+            return context;
+        }
+        return context.substring(0, maxContextSize - 50) + '\n\n[Context truncated to fit size limit]';
+    }
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+
+export interface CompletionEvidence {
+    files: string[]; // Workspace-relative paths
+    commits: string[]; // Full commit hashes
+    keywords: string[]; // Task keywords or commit phrases that tied the evidence to the task
+}
+
+export interface CompletionSuggestion {
+    taskId: string;
+    title: string;
+    confidence: number; // 0-1, highest score seen for any of the evidence
+    evidence: CompletionEvidence;
+    suggestedAt: string;
+}
+
+/**
+ * Tasks the progress tracker thinks are done, waiting for the user to accept or reject them.
+ * Suggestions for the same task are merged, so a task appears once with all of its evidence.
+ * Rejected evidence is remembered per task: the same files and commits never suggest that
+ * task again, but new ones will.
+ */
+export class CompletionSuggestions {
+    private static instance: CompletionSuggestions;
+    private static readonly SUGGESTIONS_KEY = 'aiProjectManager.completionSuggestions';
+    private static readonly REJECTED_KEY = 'aiProjectManager.rejectedCompletionEvidence';
+
+    private context?: vscode.ExtensionContext;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    static getInstance(): CompletionSuggestions {
+        if (!CompletionSuggestions.instance) {
+            CompletionSuggestions.instance = new CompletionSuggestions();
+        }
+        return CompletionSuggestions.instance;
+    }
+
+    initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    getSuggestions(): CompletionSuggestion[] {
+        return this.context?.workspaceState.get<CompletionSuggestion[]>(CompletionSuggestions.SUGGESTIONS_KEY, []) ?? [];
+    }
+
+    /**
+     * Adds evidence that a task is complete. Returns false when all of it was already
+     * suggested or rejected for that task.
+     */
+    async suggest(taskId: string, title: string, confidence: number, evidence: CompletionEvidence): Promise<boolean> {
+        if (!this.context) {
+            return false;
+        }
+
+        const rejected = new Set(this.getRejected()[taskId] ?? []);
+        const suggestions = this.getSuggestions();
+        const existing = suggestions.find(suggestion => suggestion.taskId === taskId);
+        const known = new Set(existing ? evidenceKeys(existing.evidence) : []);
+
+        const files = evidence.files.filter(file => !rejected.has(`file:${file}`) && !known.has(`file:${file}`));
+        const commits = evidence.commits.filter(hash => !rejected.has(`commit:${hash}`) && !known.has(`commit:${hash}`));
+        if (files.length === 0 && commits.length === 0) {
+            return false;
+        }
+
+        if (existing) {
+            existing.title = title;
+            existing.confidence = Math.max(existing.confidence, confidence);
+            existing.evidence = {
+                files: [...existing.evidence.files, ...files],
+                commits: [...existing.evidence.commits, ...commits],
+                keywords: unique([...existing.evidence.keywords, ...evidence.keywords])
+            };
+            existing.suggestedAt = new Date().toISOString();
+        } else {
+            suggestions.push({
+                taskId,
+                title,
+                confidence,
+                evidence: { files, commits, keywords: unique(evidence.keywords) },
+                suggestedAt: new Date().toISOString()
+            });
+        }
+
+        await this.save(suggestions);
+        return true;
+    }
+
+    /**
+     * Drops suggestions without remembering their evidence, e.g. once the task is completed
+     */
+    async remove(taskIds: string[]): Promise<void> {
+        await this.save(this.getSuggestions().filter(suggestion => !taskIds.includes(suggestion.taskId)));
+    }
+
+    /**
+     * Drops suggestions and remembers their evidence so it does not suggest the same tasks again
+     */
+    async reject(taskIds: string[]): Promise<void> {
+        const rejected = this.getRejected();
+        for (const suggestion of this.getSuggestions().filter(suggestion => taskIds.includes(suggestion.taskId))) {
+            rejected[suggestion.taskId] = unique([...(rejected[suggestion.taskId] ?? []), ...evidenceKeys(suggestion.evidence)]);
+        }
+
+        await this.context?.workspaceState.update(CompletionSuggestions.REJECTED_KEY, rejected);
+        await this.remove(taskIds);
+    }
+
+    private getRejected(): Record<string, string[]> {
+        return this.context?.workspaceState.get<Record<string, string[]>>(CompletionSuggestions.REJECTED_KEY, {}) ?? {};
+    }
+
+    private async save(suggestions: CompletionSuggestion[]): Promise<void> {
+        await this.context?.workspaceState.update(CompletionSuggestions.SUGGESTIONS_KEY, suggestions);
+        this._onDidChange.fire();
+    }
+}
+
+function evidenceKeys(evidence: CompletionEvidence): string[] {
+    return [
+        ...evidence.files.map(file => `file:${file}`),
+        ...evidence.commits.map(hash => `commit:${hash}`)
+    ];
+}
+
+function unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+}
@@ -159,6 +159,41 @@ export class ContextInjectorImpl implements ContextInjector {
             .slice(0, 5);
     }
     
+    /**
+     * Finds context documents matching a free-text query, best matches first
+     */
+    searchContextDocuments(query: string, limit: number = 5): ContextDocument[] {
+        if (!this.projectDetector.detectAiProject()) {
+            return [];
+        }
+
+        const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+        if (terms.length === 0) {
+            return [];
+        }
+
+        const structure = this.projectDetector.getProjectStructure();
+
+        return this.loadContextDocuments(structure.contextDir)
+            .map(doc => {
+                const title = doc.title.toLowerCase();
+                const content = doc.content.toLowerCase();
+                let score = 0;
+
+                for (const term of terms) {
+                    // Title and tag matches count more than mentions in the body
+                    if (title.includes(term)) score += 5;
+                    if (doc.tags.some(tag => tag.toLowerCase().includes(term))) score += 3;
+                    score += Math.min(content.split(term).length - 1, 10);
+                }
+
+                return { ...doc, relevanceScore: score };
+            })
+            .filter(doc => doc.relevanceScore > 0)
+            .sort((a, b) => b.relevanceScore - a.relevanceScore)
+            .slice(0, limit);
+    }
+
     private getRequirementsSummaryFromMultipleSources(projectPath: string): string {
         // Try .kiro/specs/ai-project-manager first
         const kiroRequirementsPath = path.join(projectPath, '.kiro', 'specs', 'ai-project-manager', 'requirements.md');
@@ -759,7 +794,7 @@ export class ContextInjectorImpl implements ContextInjector {
     /**
      * Gets current task from tasks.md
      */
-    private getCurrentTask(): string | undefined {
+    getCurrentTask(): string | undefined {
         try {
             const structure = this.projectDetector.getProjectStructure();
             const tasksContent = fs.readFileSync(structure.tasksPath, 'utf-8');
@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContextInjectorImpl } from './contextInjector';
+import { ProjectDetectorImpl } from './projectDetector';
+import { TaskInteractionService, TaskItem } from './taskInteractionService';
+import { SyncService } from './syncService';
+import { AuthService } from './authService';
+import { findRequirement, LocalProject, TASK_NUMBER_PATTERN } from './localProject';
+
+interface ListOpenTasksInput {
+    limit?: number;
+}
+
+interface MarkTaskCompleteInput {
+    taskId: string;
+}
+
+interface SearchContextDocumentsInput {
+    query: string;
+    limit?: number;
+}
+
+interface ReadRequirementInput {
+    id: string;
+}
+
+/**
+ * Shared project access for the tools. Each tool throws when the workspace has no
+ * project; the error text is what the calling agent sees.
+ */
+class ProjectToolContext {
+    readonly projectDetector = new ProjectDetectorImpl();
+    readonly taskInteractionService = new TaskInteractionService();
+
+    constructor(readonly contextInjector: ContextInjectorImpl) {}
+
+    getStructure() {
+        if (!this.projectDetector.detectAiProject()) {
+            throw new Error('No AI project found in this workspace');
+        }
+        return this.projectDetector.getProjectStructure();
+    }
+
+    readTasks(): { content: string; tasks: TaskItem[] } {
+        const { tasksPath } = this.getStructure();
+        if (!fs.existsSync(tasksPath)) {
+            throw new Error('tasks.md not found');
+        }
+        const content = fs.readFileSync(tasksPath, 'utf-8');
+        return {
+            content,
+            tasks: this.taskInteractionService.flattenTasks(this.taskInteractionService.parseTasksFromContent(content))
+        };
+    }
+
+    findTask(tasks: TaskItem[], taskId: string): TaskItem | undefined {
+        const wanted = taskId.trim().replace(/\.$/, '');
+        return tasks.find(task => task.title.match(TASK_NUMBER_PATTERN)?.[1] === wanted);
+    }
+}
+
+function textResult(text: string): vscode.LanguageModelToolResult {
+    return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+}
+
+class GetCurrentTaskTool implements vscode.LanguageModelTool<Record<string, never>> {
+    constructor(private readonly project: ProjectToolContext) {}
+
+    async invoke(): Promise<vscode.LanguageModelToolResult> {
+        const { content, tasks } = this.project.readTasks();
+        const current = tasks.find(task => task.status !== 'done');
+        if (!current) {
+            return textResult('All tasks in tasks.md are complete.');
+        }
+        return textResult(this.project.taskInteractionService.getTaskBlock(content, current.lineNumber));
+    }
+}
+
+class ListOpenTasksTool implements vscode.LanguageModelTool<ListOpenTasksInput> {
+    constructor(private readonly project: ProjectToolContext) {}
+
+    async invoke(options: vscode.LanguageModelToolInvocationOptions<ListOpenTasksInput>): Promise<vscode.LanguageModelToolResult> {
+        const { tasks } = this.project.readTasks();
+        const open = tasks.filter(task => task.status !== 'done');
+        if (open.length === 0) {
+            return textResult('There are no open tasks.');
+        }
+
+        const limit = Math.max(1, options.input.limit ?? 50);
+        const lines = open
+            .slice(0, limit)
+            .map(task => `${'  '.repeat(task.indentLevel)}- [ ] ${task.title}`);
+        const more = open.length > limit ? `\n\n${open.length - limit} more open tasks not shown.` : '';
+
+        return textResult(`${open.length} open tasks of ${tasks.length}:\n\n${lines.join('\n')}${more}`);
+    }
+}
+
+class MarkTaskCompleteTool implements vscode.LanguageModelTool<MarkTaskCompleteInput> {
+    constructor(private readonly project: ProjectToolContext) {}
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<MarkTaskCompleteInput>
+    ): Promise<vscode.PreparedToolInvocation> {
+        const { tasks } = this.project.readTasks();
+        const task = this.project.findTask(tasks, options.input.taskId);
+        const label = task ? task.title : `task ${options.input.taskId}`;
+
+        return {
+            invocationMessage: `Marking ${label} complete`,
+            confirmationMessages: {
+                title: 'Mark task complete?',
+                message: new vscode.MarkdownString(`Check off **${label}** in tasks.md and record it in progress.json.`)
+            }
+        };
+    }
+
+    async invoke(options: vscode.LanguageModelToolInvocationOptions<MarkTaskCompleteInput>): Promise<vscode.LanguageModelToolResult> {
+        const { tasks } = this.project.readTasks();
+        const task = this.project.findTask(tasks, options.input.taskId);
+        if (!task) {
+            throw new Error(`No task numbered ${options.input.taskId} in tasks.md`);
+        }
+        if (task.status === 'done') {
+            return textResult(`Task ${options.input.taskId} was already complete.`);
+        }
+
+        const taskNumber = task.title.match(TASK_NUMBER_PATTERN)![1];
+        const title = task.title.match(TASK_NUMBER_PATTERN)![2];
+
+        // The user confirmed this, so it is recorded as a manual completion, as the MCP server does
+        const structure = this.project.getStructure();
+        const localProject = new LocalProject(path.dirname(structure.tasksPath), structure);
+        const localTask = localProject.findTask(localProject.readTasks().tasks, taskNumber);
+        if (!localTask || !localProject.completeTask(localTask, 'manual')) {
+            throw new Error(`Failed to update task ${taskNumber} in tasks.md`);
+        }
+
+        vscode.commands.executeCommand('aiProjectManager.refreshSidebar');
+        const synced = await this.syncToCloud(taskNumber);
+
+        return textResult(`Marked task ${taskNumber} "${title}" complete.${synced ? ' The change was synced to the dashboard.' : ''}`);
+    }
+
+    /**
+     * Queue the completion for the dashboard when the project is linked and the user is signed in.
+     * Returns false while it is still queued, e.g. when offline.
+     */
+    private async syncToCloud(taskNumber: string): Promise<boolean> {
+        const structure = this.project.getStructure();
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !AuthService.getInstance().isAuthenticated()) {
+            return false;
+        }
+
+        // SyncService uploads from .kiro/specs, so other layouts stay local
+        const kiroTasksPath = path.join(workspaceFolder.uri.fsPath, '.kiro', 'specs', 'ai-project-manager', 'tasks.md');
+        if (path.resolve(structure.tasksPath) !== path.resolve(kiroTasksPath)) {
+            return false;
+        }
+
+        try {
+            const config = JSON.parse(fs.readFileSync(structure.configPath, 'utf-8'));
+            if (!config.projectId) {
+                return false;
+            }
+            return await SyncService.getInstance().queueTaskCompletion(config.projectId, workspaceFolder.uri.fsPath, taskNumber);
+        } catch (error) {
+            console.warn('Failed to sync completed task to dashboard:', error);
+            return false;
+        }
+    }
+}
+
+class SearchContextDocumentsTool implements vscode.LanguageModelTool<SearchContextDocumentsInput> {
+    constructor(private readonly project: ProjectToolContext) {}
+
+    async invoke(options: vscode.LanguageModelToolInvocationOptions<SearchContextDocumentsInput>): Promise<vscode.LanguageModelToolResult> {
+        this.project.getStructure();
+        const documents = this.project.contextInjector.searchContextDocuments(options.input.query, options.input.limit ?? 3);
+        if (documents.length === 0) {
+            return textResult(`No context documents match "${options.input.query}".`);
+        }
+
+        const maxContextSize = vscode.workspace.getConfiguration('aiProjectManager').get('maxContextSize', 8000);
+        const perDocument = Math.floor(maxContextSize / documents.length);
+
+        return textResult(documents
+            .map(doc => {
+                const content = doc.content.length > perDocument
+                    ? `${doc.content.substring(0, perDocument)}\n[truncated]`
+                    : doc.content;
+                return `# ${doc.title} (context/${doc.filename})\n\n${content}`;
+            })
+            .join('\n\n---\n\n'));
+    }
+}
+
+class ReadRequirementTool implements vscode.LanguageModelTool<ReadRequirementInput> {
+    constructor(private readonly project: ProjectToolContext) {}
+
+    async invoke(options: vscode.LanguageModelToolInvocationOptions<ReadRequirementInput>): Promise<vscode.LanguageModelToolResult> {
+        const { requirementsPath } = this.project.getStructure();
+        if (!fs.existsSync(requirementsPath)) {
+            throw new Error('requirements.md not found');
+        }
+
+        const id = options.input.id.trim().replace(/^requirement\s+/i, '');
+        const requirement = findRequirement(fs.readFileSync(requirementsPath, 'utf-8'), id);
+        if (!requirement) {
+            throw new Error(`Requirement ${options.input.id} not found in requirements.md`);
+        }
+
+        if (requirement.criterion) {
+            return textResult(`${requirement.lines[0].trim()}\n\nAcceptance criterion ${id}:\n${requirement.criterion.text}`);
+        }
+        return textResult(requirement.lines.join('\n').trim());
+    }
+}
+
+/**
+ * Language-model tools that let agent-mode assistants read and update project state.
+ * Tool names and input schemas are declared under languageModelTools in package.json.
+ */
+export class ProjectLanguageModelTools {
+    public static register(contextInjector: ContextInjectorImpl): vscode.Disposable {
+        const project = new ProjectToolContext(contextInjector);
+
+        return vscode.Disposable.from(
+            vscode.lm.registerTool('roki_getCurrentTask', new GetCurrentTaskTool(project)),
+            vscode.lm.registerTool('roki_listOpenTasks', new ListOpenTasksTool(project)),
+            vscode.lm.registerTool('roki_markTaskComplete', new MarkTaskCompleteTool(project)),
+            vscode.lm.registerTool('roki_searchContextDocuments', new SearchContextDocumentsTool(project)),
+            vscode.lm.registerTool('roki_readRequirement', new ReadRequirementTool(project))
+        );
+    }
+}
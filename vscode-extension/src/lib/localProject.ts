@@ -0,0 +1,327 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ActivityItem, ContextDocument, ProgressData, ProjectStructure } from '../types';
+
+// Everything in this module must run without the vscode API, so the MCP server can use it
+
+export class LocalProjectError extends Error {
+    constructor(message: string, public code: string) {
+        super(message);
+        this.name = 'LocalProjectError';
+    }
+}
+
+export interface LocalTask {
+    number: string | null; // "2.1", or null for tasks written without a number
+    title: string;
+    isCompleted: boolean;
+    indentLevel: number;
+    lineNumber: number; // 1-based line in tasks.md
+}
+
+// Matches "2.1 Title" and "1. Title"
+export const TASK_NUMBER_PATTERN = /^(\d+(?:\.\d+)*)\.?\s+(.+)$/;
+const TASK_LINE_PATTERN = /^(\s*)-\s*\[([ xX])\]\s*(.+)$/;
+const MAX_SCAN_DEPTH = 3;
+
+/**
+ * Check or uncheck the task with the given number, leaving every other line untouched
+ */
+export function setTaskCompletion(content: string, taskNumber: string, isCompleted: boolean): string {
+    return content
+        .split('\n')
+        .map(line => {
+            const taskMatch = line.match(TASK_LINE_PATTERN);
+            if (!taskMatch || taskMatch[3].match(TASK_NUMBER_PATTERN)?.[1] !== taskNumber) {
+                return line;
+            }
+            return `${taskMatch[1]}- [${isCompleted ? 'x' : ' '}] ${taskMatch[3]}`;
+        })
+        .join('\n');
+}
+
+export interface RequirementMatch {
+    lines: string[]; // The requirement's section, from its heading to the next requirement
+    startLine: number; // 0-based line of the heading
+    criterion?: { text: string; line: number }; // Set when the ID names an acceptance criterion
+}
+
+/**
+ * Finds a requirement in requirements.md by ID. "1.2" is acceptance criterion 2 of
+ * requirement 1, unless a requirement is numbered 1.2.
+ */
+export function findRequirement(content: string, id: string): RequirementMatch | null {
+    const lines = content.split('\n');
+    const requirementId = id.trim().replace(/^requirement\s+/i, '');
+
+    const section = findRequirementSection(lines, requirementId);
+    if (section) {
+        return section;
+    }
+
+    const criterionMatch = requirementId.match(/^(.+)\.(\d+)$/);
+    const parent = criterionMatch ? findRequirementSection(lines, criterionMatch[1]) : null;
+    if (!parent) {
+        return null;
+    }
+
+    const criterionPattern = new RegExp(`^\\s*${criterionMatch![2]}\\.\\s+`);
+    const offset = parent.lines.findIndex(line => criterionPattern.test(line));
+    if (offset === -1) {
+        return null;
+    }
+
+    return {
+        ...parent,
+        criterion: { text: parent.lines[offset].trim(), line: parent.startLine + offset }
+    };
+}
+
+/**
+ * Lines from a "### Requirement N" or "**Requirement N: ...**" heading up to the next requirement or section
+ */
+function findRequirementSection(lines: string[], id: string): RequirementMatch | null {
+    const escaped = id.replace(/\./g, '\\.');
+    const heading = new RegExp(`^(#{2,4}\\s+|\\s*[-*]?\\s*\\*\\*)Requirement\\s+${escaped}(?![\\d.])`, 'i');
+    const start = lines.findIndex(line => heading.test(line));
+    if (start === -1) {
+        return null;
+    }
+
+    let end = start + 1;
+    while (end < lines.length && !/^#{1,3}\s/.test(lines[end]) && !/^\s*[-*]?\s*\*\*Requirement\s+\d/i.test(lines[end])) {
+        end++;
+    }
+    return { lines: lines.slice(start, end), startLine: start };
+}
+
+/**
+ * File access to a project's spec folder, resolved the same way as
+ * ProjectDetector.getProjectStructure but from a plain directory instead of the workspace
+ */
+export class LocalProject {
+    constructor(public readonly rootDir: string, public readonly structure: ProjectStructure) {}
+
+    /**
+     * Finds .kiro/specs/ai-project-manager under rootDir, falling back to the first
+     * .ai-project directory with a config.json
+     */
+    static find(rootDir: string): LocalProject {
+        const root = path.resolve(rootDir);
+
+        const kiroSpecsPath = path.join(root, '.kiro', 'specs', 'ai-project-manager');
+        if (fs.existsSync(path.join(kiroSpecsPath, 'config.json'))) {
+            return new LocalProject(root, LocalProject.structureFor(kiroSpecsPath));
+        }
+
+        const aiProjectDir = LocalProject.findAiProject(root, 0);
+        if (!aiProjectDir) {
+            throw new LocalProjectError(`No .ai-project or .kiro project found in ${root}`, 'NO_PROJECT_FOUND');
+        }
+        return new LocalProject(root, LocalProject.structureFor(aiProjectDir));
+    }
+
+    readDocument(filePath: string): string {
+        if (!fs.existsSync(filePath)) {
+            throw new LocalProjectError(`${path.basename(filePath)} not found`, 'FILE_NOT_FOUND');
+        }
+        return fs.readFileSync(filePath, 'utf-8');
+    }
+
+    readTasks(): { content: string; tasks: LocalTask[] } {
+        const content = this.readDocument(this.structure.tasksPath);
+        const tasks: LocalTask[] = [];
+
+        content.split('\n').forEach((line, index) => {
+            const taskMatch = line.match(TASK_LINE_PATTERN);
+            if (!taskMatch) {
+                return;
+            }
+            tasks.push({
+                number: taskMatch[3].match(TASK_NUMBER_PATTERN)?.[1] ?? null,
+                title: taskMatch[3].trim(),
+                isCompleted: taskMatch[2].toLowerCase() === 'x',
+                indentLevel: Math.floor(taskMatch[1].replace(/\t/g, '  ').length / 2),
+                lineNumber: index + 1
+            });
+        });
+
+        return { content, tasks };
+    }
+
+    findTask(tasks: LocalTask[], taskNumber: string): LocalTask | undefined {
+        const wanted = taskNumber.trim().replace(/^task\s+/i, '').replace(/\.$/, '');
+        return tasks.find(task => task.number === wanted);
+    }
+
+    /**
+     * The task line plus its indented details, requirements and subtasks
+     */
+    getTaskBlock(content: string, task: LocalTask): string {
+        const lines = content.split('\n');
+        const start = task.lineNumber - 1;
+        const indent = lines[start].length - lines[start].trimStart().length;
+
+        let end = start + 1;
+        while (end < lines.length) {
+            const line = lines[end];
+            const lineIndent = line.length - line.trimStart().length;
+            if (line.trim() && (lineIndent <= indent || line.startsWith('#'))) {
+                break;
+            }
+            end++;
+        }
+
+        return lines.slice(start, end).join('\n').trimEnd();
+    }
+
+    /**
+     * Checks the task off in tasks.md and records it in progress.json as completed by
+     * completedBy. Returns false when the task was already complete.
+     */
+    completeTask(task: LocalTask, completedBy: 'manual' | 'auto-detection' = 'manual'): boolean {
+        if (!task.number) {
+            throw new LocalProjectError('Only numbered tasks can be completed', 'INVALID_TASK');
+        }
+        if (task.isCompleted) {
+            return false;
+        }
+
+        const content = this.readDocument(this.structure.tasksPath);
+        const updatedContent = setTaskCompletion(content, task.number, true);
+        if (updatedContent === content) {
+            return false;
+        }
+        fs.writeFileSync(this.structure.tasksPath, updatedContent);
+
+        const { tasks } = this.readTasks();
+        const completedTasks = tasks.filter(t => t.isCompleted).length;
+        const previous = this.readProgress();
+
+        const activity: ActivityItem = {
+            taskId: task.number,
+            title: task.title.match(TASK_NUMBER_PATTERN)?.[2] ?? task.title,
+            completedAt: new Date(),
+            completedBy
+        };
+
+        const progress: ProgressData = {
+            totalTasks: tasks.length,
+            completedTasks,
+            percentage: tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0,
+            lastUpdated: new Date(),
+            recentActivity: [
+                activity,
+                ...(previous?.recentActivity || []).filter(item => item.taskId !== task.number)
+            ].slice(0, 10),
+            milestones: previous?.milestones || [],
+            taskTime: previous?.taskTime
+        };
+
+        fs.writeFileSync(this.structure.progressPath, JSON.stringify(progress, null, 2));
+        return true;
+    }
+
+    readProgress(): ProgressData | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(this.structure.progressPath, 'utf-8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    listContextDocuments(): ContextDocument[] {
+        const { contextDir } = this.structure;
+        if (!fs.existsSync(contextDir)) {
+            return [];
+        }
+
+        return fs.readdirSync(contextDir)
+            .filter(file => file.endsWith('.md'))
+            .map(file => {
+                const filePath = path.join(contextDir, file);
+                const content = fs.readFileSync(filePath, 'utf-8');
+                const tagMatch = content.match(/tags:\s*\[(.*?)\]/i);
+
+                return {
+                    id: file,
+                    filename: file,
+                    title: content.match(/^#\s+(.+)$/m)?.[1] || file,
+                    content,
+                    tags: tagMatch ? tagMatch[1].split(',').map(tag => tag.trim().replace(/['"]/g, '')) : [],
+                    category: 'other' as const,
+                    lastModified: fs.statSync(filePath).mtime
+                };
+            });
+    }
+
+    /**
+     * Context documents matching a free-text query, best matches first.
+     * Scored like ContextInjector.searchContextDocuments.
+     */
+    searchContextDocuments(query: string, limit: number = 5): ContextDocument[] {
+        const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+        if (terms.length === 0) {
+            return [];
+        }
+
+        return this.listContextDocuments()
+            .map(doc => {
+                const title = doc.title.toLowerCase();
+                const content = doc.content.toLowerCase();
+                let score = 0;
+
+                for (const term of terms) {
+                    if (title.includes(term)) score += 5;
+                    if (doc.tags.some(tag => tag.toLowerCase().includes(term))) score += 3;
+                    score += Math.min(content.split(term).length - 1, 10);
+                }
+
+                return { ...doc, relevanceScore: score };
+            })
+            .filter(doc => doc.relevanceScore > 0)
+            .sort((a, b) => b.relevanceScore - a.relevanceScore)
+            .slice(0, limit);
+    }
+
+    private static structureFor(projectDir: string): ProjectStructure {
+        const structure = {
+            configPath: path.join(projectDir, 'config.json'),
+            requirementsPath: path.join(projectDir, 'requirements.md'),
+            designPath: path.join(projectDir, 'design.md'),
+            tasksPath: path.join(projectDir, 'tasks.md'),
+            progressPath: path.join(projectDir, 'progress.json'),
+            contextDir: path.join(projectDir, 'context')
+        };
+        const isValid = [structure.configPath, structure.requirementsPath, structure.designPath, structure.tasksPath, structure.progressPath]
+            .every(filePath => fs.existsSync(filePath)) && fs.existsSync(structure.contextDir);
+
+        return { ...structure, isValid };
+    }
+
+    private static findAiProject(dirPath: string, depth: number): string | null {
+        if (depth > MAX_SCAN_DEPTH) {
+            return null;
+        }
+
+        try {
+            const aiProjectPath = path.join(dirPath, '.ai-project');
+            if (fs.existsSync(path.join(aiProjectPath, 'config.json'))) {
+                return aiProjectPath;
+            }
+
+            for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+                if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                    const found = LocalProject.findAiProject(path.join(dirPath, entry.name), depth + 1);
+                    if (found) {
+                        return found;
+                    }
+                }
+            }
+        } catch {
+            // Ignore permission errors and continue scanning
+        }
+
+        return null;
+    }
+}
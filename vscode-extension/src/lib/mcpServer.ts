@@ -0,0 +1,297 @@
+import * as path from 'path';
+import * as readline from 'readline';
+import { LocalProject } from './localProject';
+
+// Minimal Model Context Protocol server over stdio: newline-delimited JSON-RPC 2.0.
+// Must not import vscode - it runs as a plain Node process started by the MCP client.
+
+interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method: string;
+    params?: any;
+}
+
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+interface McpResource {
+    uri: string;
+    name: string;
+    description: string;
+    mimeType: string;
+    filePath: string;
+}
+
+interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    handler: (args: any) => string;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+class McpError extends Error {
+    constructor(public code: number, message: string) {
+        super(message);
+        this.name = 'McpError';
+    }
+}
+
+/**
+ * Serves a local project's specs as MCP resources and its task list as tools.
+ * Everything is read from disk on each request, so edits made in the editor or by
+ * another tool are picked up without restarting.
+ */
+export class McpServer {
+    private readonly tools: McpTool[];
+
+    constructor(private readonly project: LocalProject, private readonly version: string) {
+        this.tools = [
+            {
+                name: 'get_current_task',
+                description: 'Get the first unchecked task in tasks.md with its details, requirement references and subtasks.',
+                inputSchema: { type: 'object', properties: {} },
+                handler: () => this.getCurrentTask()
+            },
+            {
+                name: 'list_open_tasks',
+                description: 'List unchecked tasks in tasks.md with their numbers, in document order.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        limit: { type: 'number', description: 'Maximum number of tasks to return. Defaults to 50.' }
+                    }
+                },
+                handler: args => this.listOpenTasks(args.limit)
+            },
+            {
+                name: 'complete_task',
+                description: 'Check off a task in tasks.md by its number (e.g. "2.1") and record the completion in progress.json. Only call this once the task is actually implemented.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        taskId: { type: 'string', description: 'The task number as written in tasks.md, e.g. "3" or "2.1".' }
+                    },
+                    required: ['taskId']
+                },
+                handler: args => this.completeTask(args.taskId)
+            },
+            {
+                name: 'search_context',
+                description: 'Search the project context documents (API notes, research, design references) by keyword and return the best matches.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Keywords to search for.' },
+                        limit: { type: 'number', description: 'Maximum number of documents to return. Defaults to 3.' }
+                    },
+                    required: ['query']
+                },
+                handler: args => this.searchContext(args.query, args.limit)
+            }
+        ];
+    }
+
+    /**
+     * Reads requests from input and writes responses to output until input closes
+     */
+    listen(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<void> {
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+        lines.on('line', line => {
+            if (!line.trim()) {
+                return;
+            }
+            const response = this.handleLine(line);
+            if (response) {
+                output.write(JSON.stringify(response) + '\n');
+            }
+        });
+
+        return new Promise(resolve => lines.on('close', () => resolve()));
+    }
+
+    handleLine(line: string): JsonRpcResponse | null {
+        let request: JsonRpcRequest;
+        try {
+            request = JSON.parse(line);
+        } catch {
+            return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+        }
+
+        if (!request || typeof request.method !== 'string') {
+            return { jsonrpc: '2.0', id: request?.id ?? null, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+        }
+
+        // Notifications (no id) never get a response
+        const isNotification = request.id === undefined;
+
+        try {
+            const result = this.handleRequest(request.method, request.params || {});
+            return isNotification ? null : { jsonrpc: '2.0', id: request.id!, result };
+        } catch (error) {
+            if (isNotification) {
+                return null;
+            }
+            const code = error instanceof McpError ? error.code : INTERNAL_ERROR;
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return { jsonrpc: '2.0', id: request.id!, error: { code, message } };
+        }
+    }
+
+    private handleRequest(method: string, params: any): unknown {
+        switch (method) {
+            case 'initialize':
+                return {
+                    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+                        ? params.protocolVersion
+                        : SUPPORTED_PROTOCOL_VERSIONS[0],
+                    capabilities: { resources: {}, tools: {} },
+                    serverInfo: { name: 'roki', version: this.version },
+                    instructions: 'Project specs (requirements, design, tasks, progress and context documents) are available as resources. ' +
+                        'Use get_current_task to see what to work on and complete_task once it is done.'
+                };
+            case 'notifications/initialized':
+            case 'notifications/cancelled':
+            case 'ping':
+                return {};
+            case 'resources/list':
+                return {
+                    resources: this.listResources().map(({ filePath, ...resource }) => resource)
+                };
+            case 'resources/templates/list':
+                return { resourceTemplates: [] };
+            case 'resources/read':
+                return this.readResource(params.uri);
+            case 'tools/list':
+                return {
+                    tools: this.tools.map(({ handler, ...tool }) => tool)
+                };
+            case 'tools/call':
+                return this.callTool(params.name, params.arguments || {});
+            default:
+                throw new McpError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+        }
+    }
+
+    private listResources(): McpResource[] {
+        const { structure } = this.project;
+        const documents: McpResource[] = [
+            { uri: 'roki://project/requirements.md', name: 'Requirements', description: 'User stories and numbered acceptance criteria', mimeType: 'text/markdown', filePath: structure.requirementsPath },
+            { uri: 'roki://project/design.md', name: 'Design', description: 'Architecture and component design', mimeType: 'text/markdown', filePath: structure.designPath },
+            { uri: 'roki://project/tasks.md', name: 'Tasks', description: 'Implementation checklist with requirement references', mimeType: 'text/markdown', filePath: structure.tasksPath },
+            { uri: 'roki://project/progress.json', name: 'Progress', description: 'Completion counts and recently completed tasks', mimeType: 'application/json', filePath: structure.progressPath }
+        ];
+
+        const contextDocuments = this.project.listContextDocuments().map(doc => ({
+            uri: `roki://project/context/${encodeURIComponent(doc.filename)}`,
+            name: doc.title,
+            description: `Context document ${doc.filename}`,
+            mimeType: 'text/markdown',
+            filePath: path.join(structure.contextDir, doc.filename)
+        }));
+
+        return [...documents, ...contextDocuments].filter(resource => {
+            try {
+                this.project.readDocument(resource.filePath);
+                return true;
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    private readResource(uri: unknown): unknown {
+        if (typeof uri !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'uri is required');
+        }
+
+        const resource = this.listResources().find(candidate => candidate.uri === uri);
+        if (!resource) {
+            throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+        }
+
+        return {
+            contents: [{ uri, mimeType: resource.mimeType, text: this.project.readDocument(resource.filePath) }]
+        };
+    }
+
+    private callTool(name: unknown, args: any): unknown {
+        const tool = this.tools.find(candidate => candidate.name === name);
+        if (!tool) {
+            throw new McpError(INVALID_PARAMS, `Unknown tool: ${name}`);
+        }
+
+        // Tool failures are results the model can read, not protocol errors
+        try {
+            return { content: [{ type: 'text', text: tool.handler(args) }] };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return { content: [{ type: 'text', text: message }], isError: true };
+        }
+    }
+
+    private getCurrentTask(): string {
+        const { content, tasks } = this.project.readTasks();
+        const current = tasks.find(task => !task.isCompleted);
+        return current ? this.project.getTaskBlock(content, current) : 'All tasks in tasks.md are complete.';
+    }
+
+    private listOpenTasks(limit: unknown): string {
+        const { tasks } = this.project.readTasks();
+        const open = tasks.filter(task => !task.isCompleted);
+        if (open.length === 0) {
+            return 'There are no open tasks.';
+        }
+
+        const max = typeof limit === 'number' && limit > 0 ? Math.floor(limit) : 50;
+        const lines = open.slice(0, max).map(task => `${'  '.repeat(task.indentLevel)}- [ ] ${task.title}`);
+        const more = open.length > max ? `\n\n${open.length - max} more open tasks not shown.` : '';
+
+        return `${open.length} open tasks of ${tasks.length}:\n\n${lines.join('\n')}${more}`;
+    }
+
+    private completeTask(taskId: unknown): string {
+        if (typeof taskId !== 'string' || !taskId.trim()) {
+            throw new Error('taskId is required');
+        }
+
+        const { tasks } = this.project.readTasks();
+        const task = this.project.findTask(tasks, taskId);
+        if (!task) {
+            throw new Error(`No task numbered ${taskId} in tasks.md`);
+        }
+
+        return this.project.completeTask(task)
+            ? `Marked task ${task.title} complete.`
+            : `Task ${task.number} was already complete.`;
+    }
+
+    private searchContext(query: unknown, limit: unknown): string {
+        if (typeof query !== 'string' || !query.trim()) {
+            throw new Error('query is required');
+        }
+
+        const documents = this.project.searchContextDocuments(query, typeof limit === 'number' && limit > 0 ? limit : 3);
+        if (documents.length === 0) {
+            return `No context documents match "${query}".`;
+        }
+
+        return documents
+            .map(doc => `# ${doc.title} (roki://project/context/${encodeURIComponent(doc.filename)})\n\n${doc.content}`)
+            .join('\n\n---\n\n');
+    }
+}
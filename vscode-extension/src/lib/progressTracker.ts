@@ -3,6 +3,11 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { ProgressTracker, ProgressData, ActivityItem } from '../types';
 import { ProjectDetectorImpl } from './projectDetector';
+import { setTaskCompletion } from './localProject';
+import { ParsedTask, parseTasksMarkdown } from './taskParser';
+import { COMMIT_MSG_HOOK_MARKER, TaskReference, commitMsgHookScript, parseTaskReferences } from './taskReferences';
+import { AuthService } from './authService';
+import { CompletionEvidence, CompletionSuggestions } from './completionSuggestions';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -11,17 +16,6 @@ declare global {
     function fetch(input: string, init?: any): Promise<any>;
 }
 
-interface ParsedTask {
-  id: string;
-  title: string;
-  level: number;
-  isCompleted: boolean;
-  isSubtask: boolean;
-  parentId?: string;
-  requirements?: string[];
-  details?: string[];
-}
-
 interface GitCommit {
   hash: string;
   message: string;
@@ -70,6 +64,16 @@ export class ProgressTrackerImpl implements ProgressTracker {
         }
     ];
     
+    // Commit message phrases that name a task as done
+    private readonly commitCompletionPatterns: RegExp[] = [
+        /complete[ds]?\s+task\s+(\d+(?:\.\d+)?)/i,
+        /finish[es]?\s+task\s+(\d+(?:\.\d+)?)/i,
+        /implement[s]?\s+task\s+(\d+(?:\.\d+)?)/i,
+        /closes?\s+#(\d+(?:\.\d+)?)/i,
+        /fixes?\s+#(\d+(?:\.\d+)?)/i,
+        /resolves?\s+#(\d+(?:\.\d+)?)/i
+    ];
+    
     updateProgress(): void {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) return;
@@ -239,7 +243,11 @@ export class ProgressTrackerImpl implements ProgressTracker {
                         const confidence = await this.calculateCompletionConfidence(task, filePath, changeType);
                         
                         if (confidence > 0.7) {
-                            await this.proposeTaskCompletion(task, filePath, confidence);
+                            await this.proposeTaskCompletion(task, {
+                                files: [relativePath],
+                                commits: [],
+                                keywords: this.getRelevantKeywords(task, pattern.taskKeywords, filePath)
+                            }, confidence);
                         }
                     }
                 }
@@ -276,66 +284,53 @@ export class ProgressTrackerImpl implements ProgressTracker {
      */
     private async getRecentCommits(projectPath: string): Promise<GitCommit[]> {
         try {
-            const { stdout } = await this.execAsync(
-                'git log --oneline --since="7 days ago" --name-only --pretty=format:"%H|%s|%ad" --date=iso',
-                { cwd: projectPath }
-            );
-            
-            const commits: GitCommit[] = [];
-            const lines = stdout.split('\n').filter(line => line.trim());
-            
-            let currentCommit: Partial<GitCommit> | null = null;
-            
-            for (const line of lines) {
-                if (line.includes('|')) {
-                    // New commit line
-                    if (currentCommit) {
-                        commits.push(currentCommit as GitCommit);
-                    }
-                    
-                    const [hash, message, dateStr] = line.split('|');
-                    currentCommit = {
-                        hash,
-                        message,
-                        date: new Date(dateStr),
-                        files: []
-                    };
-                } else if (currentCommit && line.trim()) {
-                    // File line
-                    currentCommit.files = currentCommit.files || [];
-                    currentCommit.files.push(line.trim());
-                }
-            }
-            
-            if (currentCommit) {
-                commits.push(currentCommit as GitCommit);
-            }
-            
-            return commits.slice(0, 20); // Last 20 commits
+            return await this.getCommits(projectPath, '--since="7 days ago" --max-count=20 --name-only');
         } catch (error) {
             console.warn('Git not available or no commits found:', error);
             return [];
         }
     }
     
+    /**
+     * Reads commits newest first, with full messages so trailers are included. Files are
+     * only listed when the options include --name-only.
+     */
+    private async getCommits(projectPath: string, options: string = ''): Promise<GitCommit[]> {
+        // Records start with \x1e and fields end with \x1f; the file list follows the last field
+        const { stdout } = await this.execAsync(
+            `git log ${options} --pretty=format:%x1e%H%x1f%aI%x1f%B%x1f`,
+            { cwd: projectPath, maxBuffer: 64 * 1024 * 1024 }
+        );
+        
+        return stdout.split('\x1e')
+            .filter(record => record.trim())
+            .map(record => {
+                const [hash, dateStr, message, fileList = ''] = record.split('\x1f');
+                return {
+                    hash,
+                    message: message.trim(),
+                    date: new Date(dateStr),
+                    files: fileList.split('\n').map(line => line.trim()).filter(line => line)
+                };
+            });
+    }
+    
     /**
      * Finds tasks relevant to specific keywords and file path
      */
     private findRelevantTasks(tasks: ParsedTask[], keywords: string[], filePath: string): ParsedTask[] {
-        return tasks.filter(task => {
-            const taskText = `${task.title} ${task.details?.join(' ') || ''}`.toLowerCase();
-            const fileName = path.basename(filePath).toLowerCase();
-            
-            // Check if task mentions any of the keywords
-            const hasKeywordMatch = keywords.some(keyword => 
-                taskText.includes(keyword.toLowerCase())
-            );
-            
-            // Check if filename relates to task
-            const hasFileMatch = taskText.includes(fileName.replace(/\.[^.]+$/, ''));
-            
-            return hasKeywordMatch || hasFileMatch;
-        });
+        return tasks.filter(task => this.getRelevantKeywords(task, keywords, filePath).length > 0);
+    }
+    
+    /**
+     * Keywords and the file name (without extension) that the task mentions
+     */
+    private getRelevantKeywords(task: ParsedTask, keywords: string[], filePath: string): string[] {
+        const taskText = `${task.title} ${task.details?.join(' ') || ''}`.toLowerCase();
+        const fileName = path.basename(filePath).toLowerCase().replace(/\.[^.]+$/, '');
+        
+        return [...keywords.map(keyword => keyword.toLowerCase()), fileName]
+            .filter(keyword => taskText.includes(keyword));
     }
     
     /**
@@ -432,35 +427,35 @@ export class ProgressTrackerImpl implements ProgressTracker {
     }
     
     /**
-     * Proposes task completion to user and auto-completes if confidence is high
+     * Auto-completes the task if confidence is high, otherwise adds it to the Suggested
+     * Completions view for the user to accept or reject
      */
-    private async proposeTaskCompletion(task: ParsedTask, source: string, confidence: number): Promise<void> {
-        const message = `Task "${task.title}" appears to be completed (confidence: ${Math.round(confidence * 100)}%)\nSource: ${source}`;
+    private async proposeTaskCompletion(task: ParsedTask, evidence: CompletionEvidence, confidence: number): Promise<void> {
+        // Tasks are checked off in tasks.md by number, so a task without one can't be completed from here
+        if (!task.number) {
+            return;
+        }
+
+        const suggestions = CompletionSuggestions.getInstance();
         
         if (confidence >= 0.9) {
             // Auto-complete with high confidence
-            this.completeTaskWithAutoDetection(task.id, task.title);
-            vscode.window.showInformationMessage(`✅ Auto-completed task: ${task.title}`);
-        } else {
-            // Ask user for confirmation
-            const choice = await vscode.window.showInformationMessage(
-                message,
-                'Mark Complete',
-                'Ignore'
-            );
-            
-            if (choice === 'Mark Complete') {
-                this.completeTaskWithAutoDetection(task.id, task.title);
+            if (this.completeTaskWithAutoDetection(task.number, task.title)) {
+                await suggestions.remove([task.number]);
+                vscode.window.showInformationMessage(`✅ Auto-completed task: ${task.title}`);
             }
+        } else {
+            await suggestions.suggest(task.number, task.title, confidence, evidence);
         }
     }
     
     /**
-     * Marks a task as completed with auto-detection tracking
+     * Marks a task as completed with auto-detection tracking. Returns false when
+     * no open task with that number was found.
      */
-    completeTaskWithAutoDetection(taskId: string, taskTitle: string): void {
+    completeTaskWithAutoDetection(taskId: string, taskTitle: string, completedAt: Date = new Date()): boolean {
         if (!this.projectDetector.detectAiProject()) {
-            return;
+            return false;
         }
         
         const structure = this.projectDetector.getProjectStructure();
@@ -469,6 +464,9 @@ export class ProgressTrackerImpl implements ProgressTracker {
             // Update tasks.md
             const tasksContent = fs.readFileSync(structure.tasksPath, 'utf-8');
             const updatedContent = this.updateTaskCompletion(tasksContent, taskId, true);
+            if (updatedContent === tasksContent) {
+                return false;
+            }
             fs.writeFileSync(structure.tasksPath, updatedContent);
             
             // Update progress with auto-detection marker
@@ -477,116 +475,130 @@ export class ProgressTrackerImpl implements ProgressTracker {
                 currentProgress,
                 taskId,
                 taskTitle,
-                'auto-detection'
+                'auto-detection',
+                completedAt
             );
             
             fs.writeFileSync(structure.progressPath, JSON.stringify(updatedProgress, null, 2));
+            return true;
         } catch (error) {
             console.error('Failed to complete task with auto-detection:', error);
+            return false;
         }
     }
     
-    private parseTasksFromFile(tasksPath: string): ParsedTask[] {
+    /**
+     * Replays the whole git history: every task a commit references by trailer, tag or
+     * completion phrase is checked off, and progress.json records it as completed at the
+     * latest such commit. Other activity is kept.
+     */
+    async rebuildCompletionHistory(): Promise<{ referenced: number; completed: number }> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !this.projectDetector.detectAiProject()) {
+            throw new Error('No AI project detected in current workspace');
+        }
+        
+        const structure = this.projectDetector.getProjectStructure();
+        const tasks = this.parseTasksFromFile(structure.tasksPath);
+        const commits = await this.getCommits(workspaceFolder.uri.fsPath);
+        
+        // Commits are newest first, so the first reference to a task is its latest completion
+        const completions = new Map<string, { task: ParsedTask; commit: GitCommit }>();
+        for (const commit of commits) {
+            const references = [...parseTaskReferences(commit.message), ...this.findPatternReferences(commit.message)];
+            for (const reference of references) {
+                const task = tasks.find(t => t.number === reference.taskId);
+                if (task && !completions.has(task.id)) {
+                    completions.set(task.id, { task, commit });
+                }
+            }
+        }
+        
+        if (completions.size === 0) {
+            return { referenced: 0, completed: 0 };
+        }
+        
+        const tasksContent = fs.readFileSync(structure.tasksPath, 'utf-8');
+        let updatedContent = tasksContent;
+        for (const taskId of completions.keys()) {
+            updatedContent = this.updateTaskCompletion(updatedContent, taskId, true);
+        }
+        if (updatedContent !== tasksContent) {
+            fs.writeFileSync(structure.tasksPath, updatedContent);
+        }
+        
+        const updatedTasks = parseTasksMarkdown(updatedContent);
+        const currentProgress = this.readProgressData(structure.progressPath);
+        const commitActivity: ActivityItem[] = Array.from(completions.values()).map(({ task, commit }) => ({
+            taskId: task.id,
+            title: task.title,
+            completedAt: commit.date,
+            completedBy: 'auto-detection'
+        }));
+        const otherActivity = (currentProgress?.recentActivity || []).filter(activity => !completions.has(activity.taskId));
+        const completedTasks = updatedTasks.filter(task => task.isCompleted).length;
+        
+        const updatedProgress: ProgressData = {
+            totalTasks: updatedTasks.length,
+            completedTasks,
+            percentage: updatedTasks.length > 0 ? Math.round((completedTasks / updatedTasks.length) * 100) : 0,
+            lastUpdated: new Date(),
+            recentActivity: [...commitActivity, ...otherActivity]
+                .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
+                .slice(0, 10),
+            milestones: currentProgress?.milestones || [],
+            taskTime: currentProgress?.taskTime
+        };
+        fs.writeFileSync(structure.progressPath, JSON.stringify(updatedProgress, null, 2));
+        await CompletionSuggestions.getInstance().remove(Array.from(completions.keys()));
+        
+        return {
+            referenced: completions.size,
+            completed: completedTasks - tasks.filter(task => task.isCompleted).length
+        };
+    }
+    
+    /**
+     * Installs a commit-msg hook that rejects task references not found in tasks.md. An
+     * existing hook is only replaced if this extension installed it. Returns the hook path.
+     */
+    async installCommitMsgHook(): Promise<string> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !this.projectDetector.detectAiProject()) {
+            throw new Error('No AI project detected in current workspace');
+        }
+        
+        const cwd = workspaceFolder.uri.fsPath;
+        let repositoryRoot: string;
+        let hooksDir: string;
         try {
-            const content = fs.readFileSync(tasksPath, 'utf-8');
-            return this.parseTasksMarkdown(content);
+            repositoryRoot = (await this.execAsync('git rev-parse --show-toplevel', { cwd })).stdout.trim();
+            hooksDir = path.resolve(cwd, (await this.execAsync('git rev-parse --git-path hooks', { cwd })).stdout.trim());
         } catch {
-            return [];
+            throw new Error('The workspace is not a git repository');
         }
+        
+        const hookPath = path.join(hooksDir, 'commit-msg');
+        if (fs.existsSync(hookPath) && !fs.readFileSync(hookPath, 'utf-8').includes(COMMIT_MSG_HOOK_MARKER)) {
+            throw new Error(`${hookPath} already exists. Remove it or add the task check to it yourself.`);
+        }
+        
+        const structure = this.projectDetector.getProjectStructure();
+        const tasksFile = path.relative(repositoryRoot, structure.tasksPath).split(path.sep).join('/');
+        fs.mkdirSync(hooksDir, { recursive: true });
+        fs.writeFileSync(hookPath, commitMsgHookScript(tasksFile), { mode: 0o755 });
+        fs.chmodSync(hookPath, 0o755);
+        
+        return hookPath;
     }
     
-    private parseTasksMarkdown(content: string): ParsedTask[] {
-        const tasks: ParsedTask[] = [];
-        const lines = content.split('\n');
-        let currentParentId: string | undefined;
-        let taskCounter = 0;
-        
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            
-            // Skip empty lines and headers
-            if (!line.trim() || line.startsWith('#')) {
-                continue;
-            }
-
-            // Check if this is a task line using the same regex as web dashboard
-            const taskMatch = line.match(/^[\s]*-[\s]*\[([x\s])\]/);
-            if (taskMatch) {
-                const status = taskMatch[1];
-                const isCompleted = status.toLowerCase() === 'x';
-                
-                // Calculate indentation level (count leading spaces/tabs)
-                const leadingWhitespace = line.match(/^(\s*)/)?.[1] || '';
-                const level = leadingWhitespace.length;
-                
-                // Extract task text after the checkbox
-                const taskText = line.replace(/^[\s]*-[\s]*\[[x\s]\][\s]*/, '').trim();
-                
-                // Extract task ID and title from the task text
-                const taskIdMatch = taskText.match(/^(\d+(?:\.\d+)?)\s+(.+)$/);
-                const taskId = taskIdMatch ? taskIdMatch[1] : `task-${taskCounter + 1}`;
-                const title = taskIdMatch ? taskIdMatch[2] : taskText;
-                
-                taskCounter++;
-
-                const trimmedTaskId = taskId.trim();
-                const trimmedTitle = title.trim();
-                
-
-                // Determine if this is a subtask
-                const isSubtask = level > 0 || trimmedTaskId.includes('.');
-                
-                // Set parent ID for subtasks
-                if (isSubtask && level === 1) {
-                    for (let j = tasks.length - 1; j >= 0; j--) {
-                        if (!tasks[j].isSubtask) {
-                            currentParentId = tasks[j].id;
-                            break;
-                        }
-                    }
-                } else if (!isSubtask) {
-                    currentParentId = undefined;
-                }
-
-                // Extract requirements and details
-                const requirements: string[] = [];
-                const details: string[] = [];
-                
-                for (let j = i + 1; j < lines.length; j++) {
-                    const nextLine = lines[j];
-                    
-                    if (nextLine.match(/^(\s*)-\s*\[([ x])\]/)) {
-                        break;
-                    }
-                    
-                    const reqMatch = nextLine.match(/_Requirements:\s*([^_]+)_/);
-                    if (reqMatch) {
-                        requirements.push(...reqMatch[1].split(',').map(r => r.trim()));
-                    }
-                    
-                    const detailMatch = nextLine.match(/^\s*-\s+(.+)$/);
-                    if (detailMatch && !nextLine.includes('_Requirements:')) {
-                        details.push(detailMatch[1]);
-                    }
-                }
-
-                const task: ParsedTask = {
-                    id: trimmedTaskId,
-                    title: trimmedTitle,
-                    level,
-                    isCompleted,
-                    isSubtask,
-                    parentId: currentParentId,
-                    requirements: requirements.length > 0 ? requirements : undefined,
-                    details: details.length > 0 ? details : undefined
-                };
-
-                tasks.push(task);
-            }
+    private parseTasksFromFile(tasksPath: string): ParsedTask[] {
+        try {
+            const content = fs.readFileSync(tasksPath, 'utf-8');
+            return parseTasksMarkdown(content);
+        } catch {
+            return [];
         }
-
-        return tasks;
     }
     
     private calculateProgress(tasks: ParsedTask[], previousProgress?: ProgressData): ProgressData {
@@ -632,7 +644,8 @@ export class ProgressTrackerImpl implements ProgressTracker {
             percentage,
             lastUpdated: new Date(),
             recentActivity: recentActivity.slice(0, 10),
-            milestones: previousProgress?.milestones || []
+            milestones: previousProgress?.milestones || [],
+            taskTime: previousProgress?.taskTime
         };
     }
     
@@ -651,19 +664,25 @@ export class ProgressTrackerImpl implements ProgressTracker {
     }
     
     /**
-     * Sends progress data to dashboard via API
+     * Sends recent activity to the dashboard, with the focus time tracked for each task
      */
     private async sendProgressToDashboard(projectId: string, progressData: ProgressData): Promise<void> {
         try {
+            const authService = AuthService.getInstance();
+            if (!authService.isAuthenticated()) {
+                return;
+            }
+
             const dashboardUrl = vscode.workspace.getConfiguration('aiProjectManager').get('dashboardUrl', 'http://localhost:3000');
-            
-            const response = await fetch(`${dashboardUrl}/api/projects/${projectId}/progress`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
+            const recentActivity = progressData.recentActivity.map(activity => ({
+                ...activity,
+                timeSpent: activity.timeSpent ?? progressData.taskTime?.[activity.taskId]?.focusTime
+            }));
+
+            const response = await authService.makeAuthenticatedRequest(`${dashboardUrl}/api/vscode/projects/${projectId}/progress`, {
+                method: 'PUT',
                 body: JSON.stringify({
-                    ...progressData,
+                    recentActivity,
                     source: 'vscode-extension',
                     timestamp: new Date().toISOString()
                 })
@@ -671,7 +690,6 @@ export class ProgressTrackerImpl implements ProgressTracker {
             
             if (!response.ok) {
                 console.warn('Failed to sync progress with dashboard:', response.statusText);
-            } else {
             }
         } catch (error) {
             console.warn('Error syncing progress with dashboard:', error);
@@ -686,25 +704,27 @@ export class ProgressTrackerImpl implements ProgressTracker {
             const structure = this.projectDetector.getProjectStructure();
             const tasks = this.parseTasksFromFile(structure.tasksPath);
             
-            // Analyze commit message for task completion patterns
-            const completionPatterns = [
-                /complete[ds]?\s+task\s+(\d+(?:\.\d+)?)/i,
-                /finish[es]?\s+task\s+(\d+(?:\.\d+)?)/i,
-                /implement[s]?\s+task\s+(\d+(?:\.\d+)?)/i,
-                /closes?\s+#(\d+(?:\.\d+)?)/i,
-                /fixes?\s+#(\d+(?:\.\d+)?)/i,
-                /resolves?\s+#(\d+(?:\.\d+)?)/i
-            ];
+            // Closes-Task trailers and [task N] tags complete tasks without a confidence check
+            for (const reference of parseTaskReferences(commit.message)) {
+                const task = tasks.find(t => t.number === reference.taskId);
+                
+                if (task && !task.isCompleted && this.completeTaskWithAutoDetection(task.id, task.title, commit.date)) {
+                    task.isCompleted = true;
+                    await CompletionSuggestions.getInstance().remove([task.id]);
+                    vscode.window.showInformationMessage(`✅ Completed task ${task.id} "${task.title}" (${reference.text} in ${commit.hash.slice(0, 7)})`);
+                }
+            }
             
-            for (const pattern of completionPatterns) {
-                const match = commit.message.match(pattern);
-                if (match) {
-                    const taskId = match[1];
-                    const task = tasks.find(t => t.id === taskId);
-                    
-                    if (task && !task.isCompleted) {
-                        await this.proposeTaskCompletion(task, `git:${commit.hash}`, 0.95);
-                    }
+            // Analyze commit message for task completion patterns
+            for (const reference of this.findPatternReferences(commit.message)) {
+                const task = tasks.find(t => t.number === reference.taskId);
+                
+                if (task && !task.isCompleted) {
+                    await this.proposeTaskCompletion(task, {
+                        files: [],
+                        commits: [commit.hash],
+                        keywords: [reference.text]
+                    }, 0.95);
                 }
             }
             
@@ -715,6 +735,16 @@ export class ProgressTrackerImpl implements ProgressTracker {
         }
     }
     
+    /**
+     * Task IDs named by the commit completion phrases, e.g. "completes task 2.3" or "closes #2"
+     */
+    private findPatternReferences(message: string): TaskReference[] {
+        return this.commitCompletionPatterns
+            .map(pattern => message.match(pattern))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({ taskId: match[1], text: match[0] }));
+    }
+    
     /**
      * Analyzes files in a commit to infer task completion
      */
@@ -737,7 +767,11 @@ export class ProgressTrackerImpl implements ProgressTracker {
                 if (!task.isCompleted) {
                     const combinedConfidence = Math.min(confidence + 0.2, 1.0);
                     if (combinedConfidence > 0.7) {
-                        await this.proposeTaskCompletion(task, `git:${commit.hash}:${file}`, combinedConfidence);
+                        await this.proposeTaskCompletion(task, {
+                            files: [file],
+                            commits: [commit.hash],
+                            keywords: this.getFileKeywords(task, file)
+                        }, combinedConfidence);
                     }
                 }
             }
@@ -791,33 +825,36 @@ export class ProgressTrackerImpl implements ProgressTracker {
      * Finds tasks related to a specific file
      */
     private findTasksRelatedToFile(tasks: ParsedTask[], filePath: string): ParsedTask[] {
+        return tasks.filter(task => this.getFileKeywords(task, filePath).length > 0);
+    }
+    
+    /**
+     * Parts of a file's name, directories and technology that the task mentions
+     */
+    private getFileKeywords(task: ParsedTask, filePath: string): string[] {
         const fileName = path.basename(filePath, path.extname(filePath)).toLowerCase();
         const fileDir = path.dirname(filePath).toLowerCase();
+        const taskText = `${task.title} ${task.details?.join(' ') || ''}`.toLowerCase();
+        const keywords: string[] = [];
         
-        return tasks.filter(task => {
-            const taskText = `${task.title} ${task.details?.join(' ') || ''}`.toLowerCase();
-            
-            // Direct filename match
-            if (taskText.includes(fileName)) {
-                return true;
-            }
-            
-            // Directory/module match
-            const dirParts = fileDir.split('/');
-            if (dirParts.some(part => part.length > 2 && taskText.includes(part))) {
-                return true;
-            }
-            
-            // Technology/framework match
-            const techKeywords = ['react', 'vue', 'angular', 'node', 'express', 'api', 'component', 'service'];
-            for (const keyword of techKeywords) {
-                if (taskText.includes(keyword) && (filePath.includes(keyword) || fileName.includes(keyword))) {
-                    return true;
-                }
+        // Direct filename match
+        if (taskText.includes(fileName)) {
+            keywords.push(fileName);
+        }
+        
+        // Directory/module match
+        const dirParts = fileDir.split('/');
+        keywords.push(...dirParts.filter(part => part.length > 2 && taskText.includes(part)));
+        
+        // Technology/framework match
+        const techKeywords = ['react', 'vue', 'angular', 'node', 'express', 'api', 'component', 'service'];
+        for (const keyword of techKeywords) {
+            if (taskText.includes(keyword) && (filePath.includes(keyword) || fileName.includes(keyword))) {
+                keywords.push(keyword);
             }
-            
-            return false;
-        });
+        }
+        
+        return Array.from(new Set(keywords));
     }
     
     /**
@@ -958,40 +995,20 @@ export class ProgressTrackerImpl implements ProgressTracker {
     }
     
     private updateTaskCompletion(content: string, taskId: string, isCompleted: boolean): string {
-        const lines = content.split('\n');
-        const updatedLines: string[] = [];
-
-        for (const line of lines) {
-            const taskMatch = line.match(/^(\s*)-\s*\[([ x])\]\s*(.+)$/);
-            if (taskMatch) {
-                const [, indent, , taskText] = taskMatch;
-                const taskNumberMatch = taskText.match(/^(\d+(?:\.\d+)?)\s+(.+)$/);
-                const currentTaskId = taskNumberMatch ? taskNumberMatch[1] : null;
-                
-                if (currentTaskId === taskId) {
-                    const status = isCompleted ? 'x' : ' ';
-                    updatedLines.push(`${indent}- [${status}] ${taskText}`);
-                } else {
-                    updatedLines.push(line);
-                }
-            } else {
-                updatedLines.push(line);
-            }
-        }
-
-        return updatedLines.join('\n');
+        return setTaskCompletion(content, taskId, isCompleted);
     }
     
     private updateProgressWithHistory(
         currentProgress: ProgressData | undefined,
         taskId: string,
         taskTitle: string,
-        completedBy: 'manual' | 'auto-detection' = 'auto-detection'
+        completedBy: 'manual' | 'auto-detection' = 'auto-detection',
+        completedAt: Date = new Date()
     ): ProgressData {
         const newActivity: ActivityItem = {
             taskId,
             title: taskTitle,
-            completedAt: new Date(),
+            completedAt,
             completedBy
         };
 
@@ -1000,7 +1017,10 @@ export class ProgressTrackerImpl implements ProgressTracker {
             activity => activity.taskId !== taskId
         );
         
-        const updatedActivity = [newActivity, ...filteredActivity].slice(0, 10);
+        // Completions taken from older commits go after more recent activity
+        const updatedActivity = [newActivity, ...filteredActivity]
+            .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
+            .slice(0, 10);
 
         return {
             totalTasks: currentProgress?.totalTasks || 0,
@@ -1008,7 +1028,8 @@ export class ProgressTrackerImpl implements ProgressTracker {
             percentage: currentProgress?.percentage || 0,
             lastUpdated: new Date(),
             recentActivity: updatedActivity,
-            milestones: currentProgress?.milestones || []
+            milestones: currentProgress?.milestones || [],
+            taskTime: currentProgress?.taskTime
         };
     }
     
@@ -53,10 +53,10 @@ export class SidebarProvider implements vscode.TreeDataProvider<SidebarItem> {
         // Load user projects on initialization
         this.loadUserProjects();
         
-        // Listen for configuration changes to refresh immediately
+        // Refresh immediately on sign-in/sign-out (including from other windows) and user changes
+        this.authService.onDidChangeAuth(() => this.smartRefresh());
         vscode.workspace.onDidChangeConfiguration((event) => {
-            if (event.affectsConfiguration('aiProjectManager.authToken') || 
-                event.affectsConfiguration('aiProjectManager.userId') ||
+            if (event.affectsConfiguration('aiProjectManager.userId') ||
                 event.affectsConfiguration('aiProjectManager.userEmail')) {
                 this.smartRefresh();
             }
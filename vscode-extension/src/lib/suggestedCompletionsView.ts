@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { CompletionSuggestion, CompletionSuggestions } from './completionSuggestions';
+import { LocalProject } from './localProject';
+import { ProgressTrackerImpl } from './progressTracker';
+
+type SuggestedCompletionItem = SuggestionItem | EvidenceItem;
+
+class SuggestionItem extends vscode.TreeItem {
+    constructor(public readonly suggestion: CompletionSuggestion) {
+        super(`${suggestion.taskId} ${suggestion.title}`, vscode.TreeItemCollapsibleState.Collapsed);
+
+        const { files, commits, keywords } = suggestion.evidence;
+        this.description = `${Math.round(suggestion.confidence * 100)}%`;
+        this.iconPath = new vscode.ThemeIcon('lightbulb');
+        this.contextValue = 'completionSuggestion';
+        this.tooltip = new vscode.MarkdownString([
+            `**${suggestion.title}** looks complete (${this.description} confidence)`,
+            files.length > 0 ? `Files: ${files.map(file => `\`${file}\``).join(', ')}` : '',
+            commits.length > 0 ? `Commits: ${commits.map(hash => `\`${hash.slice(0, 7)}\``).join(', ')}` : '',
+            keywords.length > 0 ? `Matched: ${keywords.join(', ')}` : ''
+        ].filter(Boolean).join('\n\n'));
+    }
+}
+
+class EvidenceItem extends vscode.TreeItem {
+    constructor(label: string, icon: string, resourceUri?: vscode.Uri) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon(icon);
+        this.contextValue = 'completionEvidence';
+        if (resourceUri) {
+            this.resourceUri = resourceUri;
+            this.command = { command: 'vscode.open', title: 'Open File', arguments: [resourceUri] };
+        }
+    }
+}
+
+/**
+ * The "Suggested Completions" view: tasks the progress tracker inferred as done from file
+ * changes and commits, with the evidence behind each and its confidence. Suggestions can be
+ * accepted or rejected one at a time, as a selection, or all at once.
+ */
+export class SuggestedCompletionsView implements vscode.TreeDataProvider<SuggestedCompletionItem> {
+    private readonly suggestions = CompletionSuggestions.getInstance();
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    public static register(progressTracker: ProgressTrackerImpl): vscode.Disposable {
+        const view = new SuggestedCompletionsView(progressTracker);
+        const treeView = vscode.window.createTreeView('aiProjectManagerSuggestions', {
+            treeDataProvider: view,
+            canSelectMany: true
+        });
+        const updateBadge = () => {
+            const count = view.suggestions.getSuggestions().length;
+            treeView.badge = count > 0 ? { value: count, tooltip: `${count} suggested task completion${count === 1 ? '' : 's'}` } : undefined;
+        };
+        updateBadge();
+
+        return vscode.Disposable.from(
+            treeView,
+            view.suggestions.onDidChange(() => {
+                view._onDidChangeTreeData.fire();
+                updateBadge();
+            }),
+            // Commands from an item's context menu get the clicked item plus the current selection
+            vscode.commands.registerCommand('aiProjectManager.acceptSuggestedCompletion', (item?: SuggestionItem, selected?: SuggestedCompletionItem[]) =>
+                view.accept(view.selectedSuggestions(treeView, item, selected))
+            ),
+            vscode.commands.registerCommand('aiProjectManager.rejectSuggestedCompletion', (item?: SuggestionItem, selected?: SuggestedCompletionItem[]) =>
+                view.reject(view.selectedSuggestions(treeView, item, selected))
+            ),
+            vscode.commands.registerCommand('aiProjectManager.acceptAllSuggestedCompletions', () =>
+                view.accept(view.suggestions.getSuggestions())
+            ),
+            vscode.commands.registerCommand('aiProjectManager.rejectAllSuggestedCompletions', () =>
+                view.reject(view.suggestions.getSuggestions())
+            )
+        );
+    }
+
+    private constructor(private readonly progressTracker: ProgressTrackerImpl) {}
+
+    getTreeItem(element: SuggestedCompletionItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: SuggestedCompletionItem): Promise<SuggestedCompletionItem[]> {
+        if (!element) {
+            await this.removeCompletedTasks();
+            return this.suggestions.getSuggestions()
+                .sort((a, b) => b.confidence - a.confidence)
+                .map(suggestion => new SuggestionItem(suggestion));
+        }
+
+        if (!(element instanceof SuggestionItem)) {
+            return [];
+        }
+
+        const { files, commits, keywords } = element.suggestion.evidence;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return [
+            ...files.map(file => new EvidenceItem(
+                file,
+                'file',
+                workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, file) : undefined
+            )),
+            ...commits.map(hash => new EvidenceItem(hash.slice(0, 7), 'git-commit')),
+            ...(keywords.length > 0 ? [new EvidenceItem(`Matched: ${keywords.join(', ')}`, 'symbol-keyword')] : [])
+        ];
+    }
+
+    private selectedSuggestions(
+        treeView: vscode.TreeView<SuggestedCompletionItem>,
+        item?: SuggestionItem,
+        selected?: SuggestedCompletionItem[]
+    ): CompletionSuggestion[] {
+        const items = selected && selected.length > 0 ? selected : item ? [item] : treeView.selection;
+        return items
+            .filter((selection): selection is SuggestionItem => selection instanceof SuggestionItem)
+            .map(selection => selection.suggestion);
+    }
+
+    private async accept(suggestions: CompletionSuggestion[]): Promise<void> {
+        if (suggestions.length === 0) {
+            return;
+        }
+
+        const failed = suggestions.filter(suggestion =>
+            !this.progressTracker.completeTaskWithAutoDetection(suggestion.taskId, suggestion.title)
+        );
+        await this.suggestions.remove(suggestions.map(suggestion => suggestion.taskId));
+
+        vscode.commands.executeCommand('aiProjectManager.refreshSidebar');
+        await this.progressTracker.syncWithDashboard();
+
+        const completed = suggestions.length - failed.length;
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(
+                `Completed ${completed} of ${suggestions.length} tasks. Not found as open tasks in tasks.md: ${failed.map(suggestion => suggestion.taskId).join(', ')}`
+            );
+        } else {
+            vscode.window.showInformationMessage(`✅ Completed ${completed} task${completed === 1 ? '' : 's'}`);
+        }
+    }
+
+    private async reject(suggestions: CompletionSuggestion[]): Promise<void> {
+        if (suggestions.length === 0) {
+            return;
+        }
+
+        await this.suggestions.reject(suggestions.map(suggestion => suggestion.taskId));
+    }
+
+    /**
+     * Tasks checked off some other way no longer need a suggestion, and neither do tasks
+     * that are no longer in tasks.md
+     */
+    private async removeCompletedTasks(): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const suggestions = this.suggestions.getSuggestions();
+        if (!workspaceFolder || suggestions.length === 0) {
+            return;
+        }
+
+        try {
+            const { tasks } = LocalProject.find(workspaceFolder.uri.fsPath).readTasks();
+            const settled = suggestions
+                .filter(suggestion => !tasks.some(task => task.number === suggestion.taskId && !task.isCompleted))
+                .map(suggestion => suggestion.taskId);
+            if (settled.length > 0) {
+                await this.suggestions.remove(settled);
+            }
+        } catch {
+            // No local project to check against
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncConflict, SyncConflictResolution, SyncService } from './syncService';
+
+interface MergeSession {
+  conflict: SyncConflict;
+  resolution: Extract<SyncConflictResolution, 'merge' | 'manual'>;
+}
+
+const CONFLICT_MARKER_PATTERN = /^(<{7}|>{7})( |$)/m;
+
+/**
+ * Lets the user settle documents that changed both locally and on the dashboard. Merges
+ * happen in VS Code's merge editor, with the last synced version as the common base; saving
+ * the merged file uploads it.
+ */
+export class SyncConflictResolver implements vscode.Disposable {
+  private readonly sessions = new Map<string, MergeSession>(); // Keyed by local file path
+  private readonly disposables: vscode.Disposable[] = [];
+
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    return new SyncConflictResolver(context.globalStorageUri, SyncService.getInstance());
+  }
+
+  private constructor(
+    private readonly storageUri: vscode.Uri,
+    private readonly syncService: SyncService
+  ) {
+    this.disposables.push(
+      syncService.onDidDetectConflict(conflict => this.promptResolution(conflict)),
+      vscode.workspace.onDidSaveTextDocument(document => this.onDidSaveDocument(document))
+    );
+  }
+
+  private async promptResolution(conflict: SyncConflict): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `☁️ ${conflict.change.document}.md was changed both locally and on the dashboard since the last sync.`,
+      'Merge',
+      'Keep Local',
+      'Use Cloud'
+    );
+
+    try {
+      if (choice === 'Merge') {
+        await this.openMergeEditor(conflict);
+      } else if (choice === 'Keep Local') {
+        await this.syncService.resolveConflict(conflict, 'local');
+      } else if (choice === 'Use Cloud') {
+        await this.syncService.resolveConflict(conflict, 'remote');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to resolve sync conflict: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Opens base / local / cloud in the merge editor with the local document as the result
+   */
+  private async openMergeEditor(conflict: SyncConflict): Promise<void> {
+    const { change } = conflict;
+    const filename = `${change.document}.md`;
+    const localUri = vscode.Uri.file(path.join(change.localPath, '.kiro', 'specs', 'ai-project-manager', filename));
+    const localContent = fs.existsSync(localUri.fsPath) ? fs.readFileSync(localUri.fsPath, 'utf-8') : change.content ?? '';
+
+    // The merge editor needs files for its inputs; keep snapshots outside the workspace
+    const mergeDir = vscode.Uri.joinPath(this.storageUri, 'merge', change.projectId);
+    await vscode.workspace.fs.createDirectory(mergeDir);
+    const baseUri = await this.writeSnapshot(mergeDir, `${change.document}.base.md`, conflict.baseContent ?? '');
+    const localCopyUri = await this.writeSnapshot(mergeDir, `${change.document}.local.md`, localContent);
+    const cloudUri = await this.writeSnapshot(mergeDir, `${change.document}.cloud.md`, conflict.remoteContent);
+
+    try {
+      this.sessions.set(localUri.fsPath, { conflict, resolution: 'merge' });
+      await vscode.commands.executeCommand('_open.mergeEditor', {
+        base: baseUri,
+        input1: { uri: localCopyUri, title: 'Local', description: 'Your changes' },
+        input2: { uri: cloudUri, title: 'Cloud', description: 'Dashboard changes' },
+        output: localUri
+      });
+    } catch (error) {
+      // The merge editor command is internal to VS Code; fall back to editing against a diff
+      console.warn('Merge editor unavailable, opening a diff instead:', error);
+      this.sessions.set(localUri.fsPath, { conflict, resolution: 'manual' });
+      await vscode.commands.executeCommand('vscode.diff', cloudUri, localUri, `${filename}: Cloud ↔ Local`);
+    }
+
+    vscode.window.showInformationMessage(`Save ${filename} when you have finished merging to upload it to the dashboard.`);
+  }
+
+  private async writeSnapshot(dir: vscode.Uri, name: string, content: string): Promise<vscode.Uri> {
+    const uri = vscode.Uri.joinPath(dir, name);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    return uri;
+  }
+
+  private async onDidSaveDocument(document: vscode.TextDocument): Promise<void> {
+    const session = this.sessions.get(document.uri.fsPath);
+    if (!session) {
+      return;
+    }
+
+    const filename = path.basename(document.uri.fsPath);
+    const content = document.getText();
+    if (CONFLICT_MARKER_PATTERN.test(content)) {
+      vscode.window.showWarningMessage(`${filename} still contains conflict markers. Resolve them and save again to upload it.`);
+      return;
+    }
+
+    this.sessions.delete(document.uri.fsPath);
+
+    try {
+      const uploaded = await this.syncService.resolveConflict(session.conflict, session.resolution, content);
+      vscode.window.showInformationMessage(uploaded
+        ? `✅ Merged ${filename} uploaded to the dashboard`
+        : `Merged ${filename} is queued and will upload when the dashboard is reachable`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to upload merged ${filename}: ${errorMessage}`);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.sessions.clear();
+  }
+}
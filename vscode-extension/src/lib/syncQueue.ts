@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+export type SyncDocumentType = 'requirements' | 'design' | 'tasks';
+
+export interface QueuedChange {
+  id: string;
+  projectId: string;
+  localPath: string; // Workspace folder the change was made in
+  document: SyncDocumentType;
+  kind: 'edit' | 'task-completion';
+  content?: string; // edit: the full local document
+  taskId?: string; // task-completion: task number to check off in the cloud copy
+  baseVersion: string | null; // Cloud version the edit was made on
+  message?: string; // Recorded in the dashboard's document history
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  status: 'pending' | 'conflict';
+}
+
+/**
+ * Same content hash the dashboard uses as a document version
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+interface SyncBase {
+  version: string;
+  content: string;
+}
+
+/**
+ * Outbound document changes waiting for the dashboard, persisted in global state so they
+ * survive restarts. Also remembers the cloud version each local document was last synced
+ * with: its hash is the base version sent with every upload, and its content is the common
+ * ancestor when local and cloud edits have to be merged.
+ */
+export class SyncQueue {
+  private static readonly QUEUE_KEY = 'aiProjectManager.syncQueue';
+  private static readonly BASES_KEY = 'aiProjectManager.syncBases';
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  getChanges(projectId?: string): QueuedChange[] {
+    const changes = this.state.get<QueuedChange[]>(SyncQueue.QUEUE_KEY, []);
+    return projectId ? changes.filter(change => change.projectId === projectId) : changes;
+  }
+
+  hasChanges(projectId: string, document: SyncDocumentType): boolean {
+    return this.getChanges(projectId).some(change => change.document === document);
+  }
+
+  /**
+   * Queues a local edit. Edits to a document that is already queued replace the queued
+   * content but keep its base version, since they build on the same cloud version.
+   */
+  async enqueueEdit(projectId: string, localPath: string, document: SyncDocumentType, content: string): Promise<QueuedChange> {
+    const changes = this.getChanges();
+    const existing = changes.find(change =>
+      change.projectId === projectId && change.document === document && change.kind === 'edit'
+    );
+
+    if (existing) {
+      existing.content = content;
+      existing.queuedAt = new Date().toISOString();
+      existing.attempts = 0;
+      existing.lastError = undefined;
+      await this.save(changes);
+      return existing;
+    }
+
+    const change = this.createChange(projectId, localPath, document, 'edit');
+    change.content = content;
+    await this.save([...changes, change]);
+    return change;
+  }
+
+  async enqueueTaskCompletion(projectId: string, localPath: string, taskId: string): Promise<QueuedChange> {
+    const changes = this.getChanges();
+    const existing = changes.find(change =>
+      change.projectId === projectId && change.kind === 'task-completion' && change.taskId === taskId
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const change = this.createChange(projectId, localPath, 'tasks', 'task-completion');
+    change.taskId = taskId;
+    await this.save([...changes, change]);
+    return change;
+  }
+
+  async update(change: QueuedChange): Promise<void> {
+    await this.save(this.getChanges().map(existing => (existing.id === change.id ? change : existing)));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.save(this.getChanges().filter(change => change.id !== id));
+  }
+
+  getBaseVersion(projectId: string, document: SyncDocumentType): string | null {
+    return this.getBases()[`${projectId}:${document}`]?.version ?? null;
+  }
+
+  /**
+   * Content of the given base version, or null if a different version has been synced since
+   */
+  getBaseContent(projectId: string, document: SyncDocumentType, version: string | null): string | null {
+    const base = this.getBases()[`${projectId}:${document}`];
+    return base && base.version === version ? base.content : null;
+  }
+
+  async setBase(projectId: string, document: SyncDocumentType, content: string, version: string = hashContent(content)): Promise<void> {
+    await this.state.update(SyncQueue.BASES_KEY, { ...this.getBases(), [`${projectId}:${document}`]: { version, content } });
+  }
+
+  private getBases(): Record<string, SyncBase> {
+    return this.state.get<Record<string, SyncBase>>(SyncQueue.BASES_KEY, {});
+  }
+
+  private createChange(projectId: string, localPath: string, document: SyncDocumentType, kind: QueuedChange['kind']): QueuedChange {
+    return {
+      id: crypto.randomBytes(8).toString('hex'),
+      projectId,
+      localPath,
+      document,
+      kind,
+      baseVersion: this.getBaseVersion(projectId, document),
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending'
+    };
+  }
+
+  private async save(changes: QueuedChange[]): Promise<void> {
+    await this.state.update(SyncQueue.QUEUE_KEY, changes);
+  }
+}
@@ -2,18 +2,53 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { AuthService } from './authService';
+import { QueuedChange, SyncDocumentType, SyncQueue, hashContent } from './syncQueue';
+import { setTaskCompletion } from './localProject';
 
 export interface SyncStatus {
-  status: 'synced' | 'syncing' | 'error' | 'conflict' | 'unknown';
+  status: 'synced' | 'syncing' | 'pending' | 'error' | 'conflict' | 'unknown';
   lastSync: Date | null;
   message?: string;
+  pendingChanges?: number;
 }
 
+// Same values as the dashboard's ConflictResolution.resolution
+export type SyncConflictResolution = 'local' | 'remote' | 'merge' | 'manual';
+
+export interface SyncConflict {
+  change: QueuedChange; // Queued local edit, marked as conflicting
+  baseContent: string | null; // Last synced version, null if it is not known
+  remoteContent: string;
+  remoteVersion: string;
+}
+
+type ReplayOutcome = 'done' | 'conflict' | 'retry' | 'offline';
+
+// The dashboard answered with an error status, as opposed to not being reachable at all
+class DashboardResponseError extends Error {
+  constructor(message: string, public status: number, public statusText: string) {
+    super(message);
+    this.name = 'DashboardResponseError';
+  }
+}
+
+const DOCUMENT_FILES: { key: SyncDocumentType; filename: string }[] = [
+  { key: 'requirements', filename: 'requirements.md' },
+  { key: 'design', filename: 'design.md' },
+  { key: 'tasks', filename: 'tasks.md' }
+];
+
 export class SyncService {
   private static instance: SyncService;
+  private static readonly RETRY_INTERVAL = 60 * 1000; // Replay queued changes every minute while any are pending
   private syncStatus: Map<string, SyncStatus> = new Map();
   private fileWatchers: Map<string, vscode.FileSystemWatcher> = new Map();
   private authService: AuthService;
+  private queue?: SyncQueue;
+  private retryTimer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+  private readonly _onDidDetectConflict = new vscode.EventEmitter<SyncConflict>();
+  readonly onDidDetectConflict = this._onDidDetectConflict.event;
 
   static getInstance(): SyncService {
     if (!SyncService.instance) {
@@ -27,35 +62,35 @@ export class SyncService {
   }
 
   /**
-   * Download cloud documents to local folder
+   * Loads the persisted change queue and starts replaying it. Changes queued while the
+   * dashboard was unreachable, including in earlier sessions, are sent once it responds.
    */
-  async downloadCloudDocuments(projectId: string, localPath: string): Promise<void> {
-    try {
-      
-      const config = vscode.workspace.getConfiguration('aiProjectManager');
-      const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+  initialize(context: vscode.ExtensionContext): void {
+    this.queue = new SyncQueue(context.globalState);
 
-      // Fetch documents from cloud using VS Code-specific endpoint
-      const response = await this.authService.makeAuthenticatedRequest(
-        `${dashboardUrl}/api/vscode/projects/${projectId}/documents`
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`API Error Response: ${errorText}`);
-        throw new Error(`Failed to fetch cloud documents: ${response.status} ${response.statusText}. Response: ${errorText}`);
+    this.retryTimer = setInterval(() => {
+      if (this.getQueue().getChanges().some(change => change.status === 'pending')) {
+        this.flushQueue().catch(error => console.error('Error replaying sync queue:', error));
       }
+    }, SyncService.RETRY_INTERVAL);
 
-      const responseText = await response.text();
+    this.flushQueue().catch(error => console.error('Error replaying sync queue:', error));
+  }
 
-      let documents: any;
-      try {
-        documents = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error('JSON Parse Error:', parseError);
-        console.error('Response was not valid JSON:', responseText);
-        throw new Error(`Invalid JSON response from server: ${responseText.substring(0, 200)}...`);
-      }
+  private getQueue(): SyncQueue {
+    if (!this.queue) {
+      throw new Error('SyncService used before initialize()');
+    }
+    return this.queue;
+  }
+
+  /**
+   * Download cloud documents to local folder. Documents edited both locally and in the
+   * cloud since the last sync are reported as conflicts instead of being overwritten.
+   */
+  async downloadCloudDocuments(projectId: string, localPath: string): Promise<void> {
+    try {
+      const documents = await this.fetchDocuments(projectId);
 
       // Create local directory structure
       const kiroSpecsPath = path.join(localPath, '.kiro', 'specs', 'ai-project-manager');
@@ -68,19 +103,22 @@ export class SyncService {
       await this.createBackup(kiroSpecsPath);
 
       // Write documents to local files
-      const documentFiles = [
-        { key: 'requirements', filename: 'requirements.md' },
-        { key: 'design', filename: 'design.md' },
-        { key: 'tasks', filename: 'tasks.md' }
-      ];
-
-      for (const doc of documentFiles) {
+      let conflicts = 0;
+      for (const doc of DOCUMENT_FILES) {
         if (documents[doc.key] && documents[doc.key].content) {
-          const filePath = path.join(kiroSpecsPath, doc.filename);
-          fs.writeFileSync(filePath, documents[doc.key].content);
+          const remoteContent: string = documents[doc.key].content;
+          const remoteVersion: string = documents[doc.key].version || hashContent(remoteContent);
+          if (!await this.applyCloudDocument(projectId, localPath, doc.key, remoteContent, remoteVersion)) {
+            conflicts++;
+          }
         }
       }
 
+      if (conflicts > 0) {
+        this.updateQueueStatus(projectId);
+        return;
+      }
+
       // Update sync status
       this.syncStatus.set(projectId, {
         lastSync: new Date(),
@@ -99,59 +137,106 @@ export class SyncService {
     }
   }
 
+  private async fetchDocuments(projectId: string): Promise<any> {
+    const config = vscode.workspace.getConfiguration('aiProjectManager');
+    const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+
+    // Fetch documents from cloud using VS Code-specific endpoint
+    const response = await this.authService.makeAuthenticatedRequest(
+      `${dashboardUrl}/api/vscode/projects/${projectId}/documents`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`API Error Response: ${errorText}`);
+      throw new Error(`Failed to fetch cloud documents: ${response.status} ${response.statusText}. Response: ${errorText}`);
+    }
+
+    const responseText = await response.text();
+
+    try {
+      return JSON.parse(responseText);
+    } catch (parseError) {
+      console.error('JSON Parse Error:', parseError);
+      console.error('Response was not valid JSON:', responseText);
+      throw new Error(`Invalid JSON response from server: ${responseText.substring(0, 200)}...`);
+    }
+  }
+
   /**
-   * Upload local documents to cloud
+   * Writes a cloud document locally unless the local copy has diverged from the last
+   * synced version as well. Returns false when that divergence was raised as a conflict.
    */
-  async uploadLocalDocuments(projectId: string, localPath: string): Promise<void> {
-    try {
-      
-      const config = vscode.workspace.getConfiguration('aiProjectManager');
-      const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+  private async applyCloudDocument(
+    projectId: string,
+    localPath: string,
+    document: SyncDocumentType,
+    remoteContent: string,
+    remoteVersion: string
+  ): Promise<boolean> {
+    const queue = this.getQueue();
+    const filePath = path.join(localPath, '.kiro', 'specs', 'ai-project-manager', `${document}.md`);
+
+    // Local edits still waiting to upload win here; replaying them surfaces any cloud change as a conflict
+    if (queue.hasChanges(projectId, document)) {
+      console.log(`Skipping download of ${document}.md: local changes are queued`);
+      return true;
+    }
 
-      // Read local documents
-      const kiroSpecsPath = path.join(localPath, '.kiro', 'specs', 'ai-project-manager');
-      const documents: any = {};
+    const localContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+    const localVersion = localContent === null ? null : hashContent(localContent);
+    const baseVersion = queue.getBaseVersion(projectId, document);
+
+    if (localVersion === remoteVersion) {
+      await queue.setBase(projectId, document, remoteContent, remoteVersion);
+      return true;
+    }
+
+    // Without a base version (first sync) the cloud copy wins, as the backup keeps the local one
+    if (localContent === null || baseVersion === null || localVersion === baseVersion) {
+      await queue.setBase(projectId, document, remoteContent, remoteVersion);
+      fs.writeFileSync(filePath, remoteContent);
+      return true;
+    }
+
+    // Only the local copy changed; uploading it is the file watcher's job
+    if (remoteVersion === baseVersion) {
+      return true;
+    }
 
-      const documentFiles = [
-        { key: 'requirements', filename: 'requirements.md' },
-        { key: 'design', filename: 'design.md' },
-        { key: 'tasks', filename: 'tasks.md' }
-      ];
+    const change = await queue.enqueueEdit(projectId, localPath, document, localContent);
+    change.status = 'conflict';
+    change.lastError = 'Changed locally and on the dashboard since the last sync';
+    await queue.update(change);
+    this.fireConflict(change, remoteContent, remoteVersion);
+    return false;
+  }
 
-      for (const doc of documentFiles) {
+  /**
+   * Queue local document edits for upload and send them. Returns false when changes
+   * are left in the queue, e.g. because the dashboard is unreachable or changed too.
+   */
+  async uploadLocalDocuments(projectId: string, localPath: string): Promise<boolean> {
+    try {
+      const queue = this.getQueue();
+      const kiroSpecsPath = path.join(localPath, '.kiro', 'specs', 'ai-project-manager');
+
+      for (const doc of DOCUMENT_FILES) {
         const filePath = path.join(kiroSpecsPath, doc.filename);
-        if (fs.existsSync(filePath)) {
-          documents[doc.key] = {
-            content: fs.readFileSync(filePath, 'utf-8'),
-            lastModified: fs.statSync(filePath).mtime.toISOString()
-          };
+        if (!fs.existsSync(filePath)) {
+          continue;
         }
-      }
-
-      // Upload each document to cloud using VS Code-specific endpoint
-      for (const [docType, docData] of Object.entries(documents)) {
-        const response = await this.authService.makeAuthenticatedRequest(
-          `${dashboardUrl}/api/vscode/projects/${projectId}/documents/${docType}`,
-          {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(docData)
-          }
-        );
 
-        if (!response.ok) {
-          throw new Error(`Failed to upload ${docType}: ${response.status} ${response.statusText}`);
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const unchanged = hashContent(content) === queue.getBaseVersion(projectId, doc.key);
+        if (unchanged && !queue.hasChanges(projectId, doc.key)) {
+          continue;
         }
+
+        await queue.enqueueEdit(projectId, localPath, doc.key, content);
       }
 
-      // Update sync status
-      this.syncStatus.set(projectId, {
-        lastSync: new Date(),
-        status: 'synced',
-        message: 'Documents uploaded successfully'
-      });
+      return await this.flushQueue(projectId);
 
     } catch (error) {
       console.error('Error uploading local documents:', error);
@@ -164,6 +249,281 @@ export class SyncService {
     }
   }
 
+  /**
+   * Queue a task completion. It is replayed against the current cloud tasks.md, so it
+   * applies cleanly even when the document changed on the dashboard in the meantime.
+   */
+  async queueTaskCompletion(projectId: string, localPath: string, taskId: string): Promise<boolean> {
+    await this.getQueue().enqueueTaskCompletion(projectId, localPath, taskId);
+    return this.flushQueue(projectId);
+  }
+
+  /**
+   * Send queued changes in order. Returns true when nothing is left queued for the project.
+   */
+  async flushQueue(projectId?: string): Promise<boolean> {
+    // Wait for a replay in progress, then run again to pick up changes queued meanwhile
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    this.flushing = this.replayQueue().finally(() => {
+      this.flushing = undefined;
+    });
+    await this.flushing;
+
+    return this.getQueue().getChanges(projectId).length === 0;
+  }
+
+  private async replayQueue(): Promise<void> {
+    if (!this.authService.isAuthenticated()) {
+      return;
+    }
+
+    const queue = this.getQueue();
+    const replayed = new Set<string>();
+    const projectIds = new Set<string>();
+    let change: QueuedChange | undefined;
+
+    while ((change = queue.getChanges().find(candidate => candidate.status === 'pending' && !replayed.has(candidate.id)))) {
+      replayed.add(change.id);
+      projectIds.add(change.projectId);
+
+      // Stop at the first network failure; the rest would fail the same way
+      if (await this.replayChange(change) === 'offline') {
+        break;
+      }
+    }
+
+    for (const id of projectIds) {
+      this.updateQueueStatus(id);
+    }
+  }
+
+  private async replayChange(change: QueuedChange): Promise<ReplayOutcome> {
+    const queue = this.getQueue();
+    const config = vscode.workspace.getConfiguration('aiProjectManager');
+    const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+
+    let content = change.content ?? '';
+    let baseVersion = change.baseVersion;
+
+    try {
+      if (change.kind === 'task-completion') {
+        const remote = await this.fetchDocument(change.projectId, change.document);
+        content = setTaskCompletion(remote.content, change.taskId!, true);
+        if (content === remote.content) {
+          await queue.remove(change.id);
+          return 'done';
+        }
+        baseVersion = remote.version;
+      }
+
+      const response = await this.authService.makeAuthenticatedRequest(
+        `${dashboardUrl}/api/vscode/projects/${change.projectId}/documents/${change.document}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ content, baseVersion, message: change.message })
+        }
+      );
+
+      if (response.status === 409) {
+        // A task completion re-reads the cloud copy on the next replay
+        if (change.kind === 'task-completion') {
+          return 'retry';
+        }
+
+        const conflict = await response.json();
+        change.status = 'conflict';
+        change.lastError = conflict.description || 'Document changed in the cloud';
+        await queue.update(change);
+        this.fireConflict(change, conflict.remoteContent ?? '', conflict.remoteVersion);
+        return 'conflict';
+      }
+
+      if (!response.ok) {
+        return await this.handleRejectedChange(change, response.status, response.statusText);
+      }
+
+      const result = await response.json();
+      await this.completeChange(change, content, baseVersion, result.version || hashContent(content));
+      return 'done';
+
+    } catch (error) {
+      // Reading the cloud copy for a task completion can be rejected too
+      if (error instanceof DashboardResponseError) {
+        return await this.handleRejectedChange(change, error.status, error.statusText);
+      }
+
+      // fetch throws when the dashboard can't be reached
+      change.attempts++;
+      change.lastError = error instanceof Error ? error.message : 'Network error';
+      await queue.update(change);
+      return 'offline';
+    }
+  }
+
+  /**
+   * Server errors and expired sessions can succeed later; other rejections never will, so
+   * the change is dropped rather than retried forever
+   */
+  private async handleRejectedChange(change: QueuedChange, status: number, statusText: string): Promise<ReplayOutcome> {
+    const queue = this.getQueue();
+    if (status >= 500 || status === 401) {
+      change.attempts++;
+      change.lastError = `${status} ${statusText}`;
+      await queue.update(change);
+      return 'retry';
+    }
+
+    await queue.remove(change.id);
+    const description = change.kind === 'task-completion'
+      ? `completion of task ${change.taskId}`
+      : `${change.document}.md change`;
+    vscode.window.showWarningMessage(
+      `⚠️ Dropped a queued ${description} the dashboard rejected: ${status} ${statusText}`
+    );
+    return 'done';
+  }
+
+  /**
+   * Records the new cloud version and removes the change, unless it was edited again while uploading
+   */
+  private async completeChange(change: QueuedChange, uploadedContent: string, baseVersion: string | null, version: string): Promise<void> {
+    const queue = this.getQueue();
+
+    if (change.kind === 'task-completion') {
+      // Only move the base forward if the local copy was in sync with the cloud before the completion
+      if (queue.getBaseVersion(change.projectId, change.document) === baseVersion) {
+        await queue.setBase(change.projectId, change.document, uploadedContent, version);
+      }
+      await queue.remove(change.id);
+      return;
+    }
+
+    await queue.setBase(change.projectId, change.document, uploadedContent, version);
+
+    const current = queue.getChanges(change.projectId).find(candidate => candidate.id === change.id);
+    if (current && current.content !== uploadedContent) {
+      await queue.update({ ...current, baseVersion: version, attempts: 0, lastError: undefined });
+    } else {
+      await queue.remove(change.id);
+    }
+  }
+
+  private async fetchDocument(projectId: string, document: SyncDocumentType): Promise<{ content: string; version: string }> {
+    const config = vscode.workspace.getConfiguration('aiProjectManager');
+    const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+
+    const response = await this.authService.makeAuthenticatedRequest(
+      `${dashboardUrl}/api/vscode/projects/${projectId}/documents/${document}`
+    );
+    if (!response.ok) {
+      throw new DashboardResponseError(
+        `Failed to fetch ${document}: ${response.status} ${response.statusText}`,
+        response.status,
+        response.statusText
+      );
+    }
+
+    const data = await response.json();
+    const content = data.content || '';
+    return { content, version: data.version || hashContent(content) };
+  }
+
+  private updateQueueStatus(projectId: string): void {
+    const changes = this.getQueue().getChanges(projectId);
+    const conflicts = changes.filter(change => change.status === 'conflict');
+
+    if (conflicts.length > 0) {
+      this.syncStatus.set(projectId, {
+        lastSync: this.syncStatus.get(projectId)?.lastSync ?? null,
+        status: 'conflict',
+        message: `${conflicts.map(change => `${change.document}.md`).join(', ')} changed in the cloud since your edit`,
+        pendingChanges: changes.length
+      });
+    } else if (changes.length > 0) {
+      this.syncStatus.set(projectId, {
+        lastSync: this.syncStatus.get(projectId)?.lastSync ?? null,
+        status: 'pending',
+        message: `${changes.length} change(s) waiting to sync${changes[0].lastError ? `: ${changes[0].lastError}` : ''}`,
+        pendingChanges: changes.length
+      });
+    } else {
+      this.syncStatus.set(projectId, {
+        lastSync: new Date(),
+        status: 'synced',
+        message: 'Documents uploaded successfully',
+        pendingChanges: 0
+      });
+    }
+  }
+
+  /**
+   * Asks again about conflicts that were dismissed earlier
+   */
+  async reviewConflicts(projectId: string): Promise<void> {
+    for (const change of this.getQueue().getChanges(projectId).filter(candidate => candidate.status === 'conflict')) {
+      const remote = await this.fetchDocument(change.projectId, change.document);
+      this.fireConflict(change, remote.content, remote.version);
+    }
+  }
+
+  private fireConflict(change: QueuedChange, remoteContent: string, remoteVersion: string): void {
+    this._onDidDetectConflict.fire({
+      change,
+      baseContent: this.getQueue().getBaseContent(change.projectId, change.document, change.baseVersion),
+      remoteContent,
+      remoteVersion
+    });
+  }
+
+  /**
+   * Settle a conflicting document. 'remote' discards the local edit and takes the cloud
+   * version; the others upload resolvedContent (the local file by default) on top of it.
+   * Returns false while the upload is still queued.
+   */
+  async resolveConflict(conflict: SyncConflict, resolution: SyncConflictResolution, resolvedContent?: string): Promise<boolean> {
+    const queue = this.getQueue();
+    const { change } = conflict;
+    const filePath = path.join(change.localPath, '.kiro', 'specs', 'ai-project-manager', `${change.document}.md`);
+    const localContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+    // The cloud version becomes the base either way, so the file watcher sees the result as a local edit on top of it
+    await queue.setBase(change.projectId, change.document, conflict.remoteContent, conflict.remoteVersion);
+    console.log(`Resolved ${change.document}.md sync conflict: ${resolution}`);
+
+    if (resolution === 'remote') {
+      await this.createBackup(path.dirname(filePath));
+      await queue.remove(change.id);
+      fs.writeFileSync(filePath, conflict.remoteContent);
+      this.updateQueueStatus(change.projectId);
+      return true;
+    }
+
+    const content = resolvedContent ?? localContent ?? change.content ?? '';
+    const current = queue.getChanges(change.projectId).find(candidate => candidate.id === change.id)
+      ?? await queue.enqueueEdit(change.projectId, change.localPath, change.document, content);
+    await queue.update({
+      ...current,
+      content,
+      baseVersion: conflict.remoteVersion,
+      status: 'pending',
+      attempts: 0,
+      lastError: undefined,
+      message: `Resolved sync conflict in VS Code (${resolution})`
+    });
+
+    if (localContent !== content) {
+      fs.writeFileSync(filePath, content);
+    }
+
+    return this.flushQueue(change.projectId);
+  }
+
   /**
    * Start file watching for automatic sync
    */
@@ -205,27 +565,16 @@ export class SyncService {
   }
 
   /**
-   * Check for cloud changes
+   * Check for cloud changes and download them
    */
   async checkCloudChanges(projectId: string, localPath: string): Promise<boolean> {
     try {
-      const config = vscode.workspace.getConfiguration('aiProjectManager');
-      const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
-
-      const response = await this.authService.makeAuthenticatedRequest(
-        `${dashboardUrl}/api/vscode/projects/${projectId}/sync/status`
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to check cloud changes: ${response.status} ${response.statusText}`);
+      if (!await this.hasCloudChanges(projectId)) {
+        return false;
       }
 
-      const status = await response.json();
-      if (status.hasChanges) {
-        await this.downloadCloudDocuments(projectId, localPath);
-        return true;
-      }
-      return false;
+      await this.downloadCloudDocuments(projectId, localPath);
+      return true;
     } catch (error) {
       console.error('Error checking cloud changes:', error);
       return false;
@@ -281,23 +630,20 @@ export class SyncService {
   }
 
   /**
-   * Check if there are cloud changes
+   * Check if any cloud document differs from the version last synced
    */
   async hasCloudChanges(projectId: string): Promise<boolean> {
     try {
-      const config = vscode.workspace.getConfiguration('aiProjectManager');
-      const dashboardUrl = config.get('dashboardUrl', 'http://localhost:3000');
+      const queue = this.getQueue();
+      const documents = await this.fetchDocuments(projectId);
 
-      const response = await this.authService.makeAuthenticatedRequest(
-        `${dashboardUrl}/api/vscode/projects/${projectId}/sync/status`
-      );
-
-      if (!response.ok) {
-        return false;
-      }
-
-      const status = await response.json();
-      return status.hasChanges || false;
+      return DOCUMENT_FILES.some(doc => {
+        const remote = documents[doc.key];
+        if (!remote || !remote.content || queue.hasChanges(projectId, doc.key)) {
+          return false;
+        }
+        return (remote.version || hashContent(remote.content)) !== queue.getBaseVersion(projectId, doc.key);
+      });
     } catch (error) {
       console.error('Error checking cloud changes:', error);
       return false;
@@ -308,6 +654,11 @@ export class SyncService {
    * Dispose all resources
    */
   dispose(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
     // Stop all file watchers
     for (const [projectId, watcher] of this.fileWatchers) {
       watcher.dispose();
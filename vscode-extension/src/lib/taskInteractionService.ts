@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { TaskSessionService } from './taskSessionService';
 
 export interface TaskItem {
     id: string;
@@ -21,10 +22,13 @@ export interface TaskUpdate {
 export class TaskInteractionService {
     /**
      * Starts a task by copying it to the active chat/editor
-     * This works like the "Add to Chat" feature
+     * This works like the "Add to Chat" feature. The task also becomes the active one
+     * for time tracking, optionally on its own git branch.
      */
     async startTask(taskTitle: string): Promise<boolean> {
         try {
+            await TaskSessionService.getInstance().startTask(taskTitle);
+
             // Format the task for AI chat
             const formattedTask = this.formatTaskForChat(taskTitle);
             
@@ -150,10 +154,13 @@ I'm working on this as part of my project development. Please provide check rele
     }
 
     /**
-     * Completes a task by copying completion message to chat
+     * Completes a task by copying completion message to chat, then stops its time
+     * tracking and suggests a commit message and PR description
      */
     async completeTask(taskTitle: string): Promise<boolean> {
         try {
+            await TaskSessionService.getInstance().completeTask(taskTitle);
+
             const completionMessage = this.formatTaskCompletion(taskTitle);
             
             // Copy to clipboard
@@ -197,6 +204,8 @@ This task has been successfully completed. I'm ready to move on to the next item
      */
     async resetTask(taskTitle: string): Promise<boolean> {
         try {
+            await TaskSessionService.getInstance().resetTask(taskTitle);
+
             const resetMessage = this.formatTaskReset(taskTitle);
             
             // Copy to clipboard
@@ -319,6 +328,38 @@ Ready to begin this task again with a fresh perspective.`;
         }
     }
 
+    /**
+     * Returns the task line at lineNumber (1-based) plus its details, requirements
+     * and subtasks - everything indented under it
+     */
+    getTaskBlock(content: string, lineNumber: number): string {
+        const lines = content.split('\n');
+        const start = lineNumber - 1;
+        if (start < 0 || start >= lines.length) {
+            return '';
+        }
+
+        const indent = lines[start].length - lines[start].trimStart().length;
+        let end = start + 1;
+        while (end < lines.length) {
+            const line = lines[end];
+            const lineIndent = line.length - line.trimStart().length;
+            if (line.trim() && (lineIndent <= indent || line.startsWith('#'))) {
+                break;
+            }
+            end++;
+        }
+
+        return lines.slice(start, end).join('\n').trimEnd();
+    }
+
+    /**
+     * Flattens the task tree into document order
+     */
+    flattenTasks(tasks: TaskItem[]): TaskItem[] {
+        return tasks.flatMap(task => [task, ...this.flattenTasks(task.children)]);
+    }
+
     /**
      * Generates a unique ID for a task based on title and line number
      */
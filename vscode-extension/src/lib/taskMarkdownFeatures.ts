@@ -0,0 +1,322 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskInteractionService, TaskItem } from './taskInteractionService';
+import { findRequirement } from './localProject';
+import { TaskSessionService } from './taskSessionService';
+
+type TaskLineStatus = TaskItem['status'];
+
+// Same files the custom task editor opens
+const TASKS_SELECTOR: vscode.DocumentSelector = [
+    { language: 'markdown', pattern: '**/tasks.md' },
+    { language: 'markdown', pattern: '**/*tasks*.md' }
+];
+
+const REQUIREMENTS_PATTERN = /_Requirements:\s*([^_]+)_/;
+const TASK_LINE_PATTERN = /^\s*- \[[ xX]\]/;
+const REQUIREMENT_ID_PATTERN = /\d+(?:\.\d+)*/;
+
+function gutterIcon(color: string, filled: boolean): vscode.Uri {
+    const fill = filled ? color : 'none';
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="4.5" fill="${fill}" stroke="${color}" stroke-width="1.5"/></svg>`;
+    return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+/**
+ * Editing support for tasks.md opened as plain markdown rather than in the custom task
+ * editor: CodeLens actions and a status gutter on every task, hover cards for the requirements
+ * a task lists in its `_Requirements:_` line, and go-to-definition from those IDs into
+ * requirements.md.
+ */
+export class TaskMarkdownFeatures implements vscode.CodeLensProvider, vscode.HoverProvider, vscode.DefinitionProvider {
+    private static readonly STARTED_TASKS_KEY = 'aiProjectManager.startedTasks';
+
+    private readonly taskInteractionService = new TaskInteractionService();
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private readonly decorationTypes: Record<TaskLineStatus, vscode.TextEditorDecorationType> = {
+        'todo': vscode.window.createTextEditorDecorationType({
+            gutterIconPath: gutterIcon('#8b949e', false),
+            gutterIconSize: 'contain'
+        }),
+        'in-progress': vscode.window.createTextEditorDecorationType({
+            gutterIconPath: gutterIcon('#d29922', true),
+            gutterIconSize: 'contain',
+            overviewRulerColor: '#d29922',
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        }),
+        'done': vscode.window.createTextEditorDecorationType({
+            gutterIconPath: gutterIcon('#3fb950', true),
+            gutterIconSize: 'contain'
+        })
+    };
+
+    public static register(context: vscode.ExtensionContext): vscode.Disposable {
+        const features = new TaskMarkdownFeatures(context);
+
+        return vscode.Disposable.from(
+            vscode.languages.registerCodeLensProvider(TASKS_SELECTOR, features),
+            vscode.languages.registerHoverProvider(TASKS_SELECTOR, features),
+            vscode.languages.registerDefinitionProvider(TASKS_SELECTOR, features),
+            vscode.commands.registerCommand('aiProjectManager.startTaskAtLine', (uri: vscode.Uri, lineNumber: number) =>
+                features.startTask(uri, lineNumber)),
+            vscode.commands.registerCommand('aiProjectManager.completeTaskAtLine', (uri: vscode.Uri, lineNumber: number) =>
+                features.setTaskStatus(uri, lineNumber, 'done')),
+            vscode.commands.registerCommand('aiProjectManager.resetTaskAtLine', (uri: vscode.Uri, lineNumber: number) =>
+                features.setTaskStatus(uri, lineNumber, 'todo')),
+            vscode.commands.registerCommand('aiProjectManager.copyTaskContext', (uri: vscode.Uri, lineNumber: number) =>
+                features.copyTaskContext(uri, lineNumber)),
+            vscode.window.onDidChangeVisibleTextEditors(() => features.updateDecorations()),
+            vscode.workspace.onDidChangeTextDocument(event => features.updateDecorations(event.document)),
+            features
+        );
+    }
+
+    private constructor(private readonly context: vscode.ExtensionContext) {
+        this.updateDecorations();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return this.getTasks(document).flatMap(task => {
+            const range = document.lineAt(task.lineNumber - 1).range;
+            const args = [document.uri, task.lineNumber];
+            const status = this.getStatus(task);
+
+            const lenses = [
+                status === 'todo' && new vscode.CodeLens(range, { title: '$(play) Start', command: 'aiProjectManager.startTaskAtLine', arguments: args }),
+                status !== 'done' && new vscode.CodeLens(range, { title: '$(check) Complete', command: 'aiProjectManager.completeTaskAtLine', arguments: args }),
+                status !== 'todo' && new vscode.CodeLens(range, { title: '$(discard) Reset', command: 'aiProjectManager.resetTaskAtLine', arguments: args }),
+                new vscode.CodeLens(range, { title: '$(copy) Copy context', command: 'aiProjectManager.copyTaskContext', arguments: args })
+            ];
+            return lenses.filter((lens): lens is vscode.CodeLens => !!lens);
+        });
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const task = this.findTaskForLine(document, position.line);
+        if (!task) {
+            return undefined;
+        }
+
+        // Only on the task line and its _Requirements:_ line, not on every detail line
+        const requirementsLine = this.findRequirementsLine(document, task);
+        if (position.line !== task.lineNumber - 1 && position.line !== requirementsLine) {
+            return undefined;
+        }
+
+        const requirementIds = requirementsLine === undefined ? [] : this.parseRequirementIds(document.lineAt(requirementsLine).text);
+        if (requirementIds.length === 0) {
+            return undefined;
+        }
+
+        const requirementsContent = this.readRequirements(document);
+        const markdown = new vscode.MarkdownString('**Linked requirements**\n\n');
+        for (const id of requirementIds) {
+            const requirement = requirementsContent === null ? null : findRequirement(requirementsContent, id);
+            if (!requirement) {
+                markdown.appendMarkdown(`- **${id}**: not found in requirements.md\n`);
+                continue;
+            }
+
+            const heading = requirement.lines[0].replace(/^[\s#*-]+|\*+$/g, '').trim();
+            const detail = requirement.criterion ? `\n  ${requirement.criterion.text}` : '';
+            markdown.appendMarkdown(`- **${id}**: ${heading}${detail}\n`);
+        }
+
+        return new vscode.Hover(markdown);
+    }
+
+    provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location | undefined {
+        const line = document.lineAt(position.line).text;
+        const requirementsMatch = line.match(REQUIREMENTS_PATTERN);
+        const idRange = document.getWordRangeAtPosition(position, REQUIREMENT_ID_PATTERN);
+        if (!requirementsMatch || !idRange) {
+            return undefined;
+        }
+
+        // The ID has to be inside the _Requirements: ..._ span
+        const listStart = requirementsMatch.index! + requirementsMatch[0].indexOf(requirementsMatch[1]);
+        if (idRange.start.character < listStart || idRange.end.character > listStart + requirementsMatch[1].length) {
+            return undefined;
+        }
+
+        const requirementsContent = this.readRequirements(document);
+        const requirement = requirementsContent === null ? null : findRequirement(requirementsContent, document.getText(idRange));
+        if (!requirement) {
+            return undefined;
+        }
+
+        const targetLine = requirement.criterion?.line ?? requirement.startLine;
+        return new vscode.Location(vscode.Uri.file(this.getRequirementsPath(document)), new vscode.Position(targetLine, 0));
+    }
+
+    private async startTask(uri: vscode.Uri, lineNumber: number): Promise<void> {
+        const task = await this.findTaskAtLine(uri, lineNumber);
+        if (!task) {
+            return;
+        }
+
+        await this.setStarted(task, true);
+        await this.taskInteractionService.startTask(task.title);
+    }
+
+    /**
+     * Checks or unchecks the task's box in the editor buffer, so the change can be undone and is saved with the file
+     */
+    private async setTaskStatus(uri: vscode.Uri, lineNumber: number, status: 'todo' | 'done'): Promise<void> {
+        const task = await this.findTaskAtLine(uri, lineNumber);
+        if (!task) {
+            return;
+        }
+
+        await this.setStarted(task, false);
+        if (task.status !== status) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const line = document.lineAt(lineNumber - 1);
+            const checkbox = line.text.indexOf('- [') + 3;
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(uri, new vscode.Range(line.lineNumber, checkbox, line.lineNumber, checkbox + 1), status === 'done' ? 'x' : ' ');
+            await vscode.workspace.applyEdit(edit);
+        }
+
+        if (status === 'done') {
+            await TaskSessionService.getInstance().completeTask(task.title);
+        } else {
+            await TaskSessionService.getInstance().resetTask(task.title);
+        }
+
+        this._onDidChangeCodeLenses.fire();
+        this.updateDecorations();
+    }
+
+    private async copyTaskContext(uri: vscode.Uri, lineNumber: number): Promise<void> {
+        const task = await this.findTaskAtLine(uri, lineNumber);
+        if (!task) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.env.clipboard.writeText(this.taskInteractionService.getTaskBlock(document.getText(), lineNumber));
+        vscode.window.showInformationMessage(`Copied context for "${task.title}"`);
+    }
+
+    private updateDecorations(changedDocument?: vscode.TextDocument): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (changedDocument && editor.document !== changedDocument) {
+                continue;
+            }
+            if (!vscode.languages.match(TASKS_SELECTOR, editor.document)) {
+                continue;
+            }
+
+            const tasks = this.getTasks(editor.document);
+            for (const status of Object.keys(this.decorationTypes) as TaskLineStatus[]) {
+                const ranges = tasks
+                    .filter(task => this.getStatus(task) === status)
+                    .map(task => new vscode.Range(task.lineNumber - 1, 0, task.lineNumber - 1, 0));
+                editor.setDecorations(this.decorationTypes[status], ranges);
+            }
+        }
+    }
+
+    private getTasks(document: vscode.TextDocument): TaskItem[] {
+        return this.taskInteractionService.flattenTasks(
+            this.taskInteractionService.parseTasksFromContent(document.getText())
+        );
+    }
+
+    /**
+     * Markdown only records done or not; tasks started from a CodeLens are remembered per workspace
+     */
+    private getStatus(task: TaskItem): TaskLineStatus {
+        if (task.status === 'done') {
+            return 'done';
+        }
+        return this.getStartedTasks().includes(task.title) ? 'in-progress' : 'todo';
+    }
+
+    private getStartedTasks(): string[] {
+        return this.context.workspaceState.get<string[]>(TaskMarkdownFeatures.STARTED_TASKS_KEY, []);
+    }
+
+    private async setStarted(task: TaskItem, started: boolean): Promise<void> {
+        const others = this.getStartedTasks().filter(title => title !== task.title);
+        await this.context.workspaceState.update(TaskMarkdownFeatures.STARTED_TASKS_KEY, started ? [...others, task.title] : others);
+        this._onDidChangeCodeLenses.fire();
+        this.updateDecorations();
+    }
+
+    private async findTaskAtLine(uri: vscode.Uri, lineNumber: number): Promise<TaskItem | undefined> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const task = this.getTasks(document).find(candidate => candidate.lineNumber === lineNumber);
+        if (!task) {
+            vscode.window.showWarningMessage(`No task found on line ${lineNumber}. The file may have changed.`);
+        }
+        return task;
+    }
+
+    /**
+     * The task whose line or details (the indented lines below it, before the next task) contain line
+     */
+    private findTaskForLine(document: vscode.TextDocument, line: number): TaskItem | undefined {
+        const task = this.getTasks(document)
+            .filter(candidate => candidate.lineNumber - 1 <= line)
+            .pop();
+        if (!task) {
+            return undefined;
+        }
+
+        for (let current = task.lineNumber; current <= line; current++) {
+            const text = document.lineAt(current).text;
+            if (TASK_LINE_PATTERN.test(text) || /^#/.test(text)) {
+                return undefined;
+            }
+        }
+        return task;
+    }
+
+    private findRequirementsLine(document: vscode.TextDocument, task: TaskItem): number | undefined {
+        for (let line = task.lineNumber; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text;
+            if (TASK_LINE_PATTERN.test(text) || /^#/.test(text)) {
+                return undefined;
+            }
+            if (REQUIREMENTS_PATTERN.test(text)) {
+                return line;
+            }
+        }
+        return undefined;
+    }
+
+    private parseRequirementIds(line: string): string[] {
+        const match = line.match(REQUIREMENTS_PATTERN);
+        if (!match) {
+            return [];
+        }
+        return match[1].split(',').map(id => id.trim()).filter(id => id.length > 0);
+    }
+
+    private getRequirementsPath(tasksDocument: vscode.TextDocument): string {
+        return path.join(path.dirname(tasksDocument.uri.fsPath), 'requirements.md');
+    }
+
+    /**
+     * requirements.md next to the tasks file, including unsaved edits when it is open
+     */
+    private readRequirements(tasksDocument: vscode.TextDocument): string | null {
+        const requirementsPath = this.getRequirementsPath(tasksDocument);
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === requirementsPath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        return fs.existsSync(requirementsPath) ? fs.readFileSync(requirementsPath, 'utf-8') : null;
+    }
+
+    dispose(): void {
+        Object.values(this.decorationTypes).forEach(decorationType => decorationType.dispose());
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
@@ -0,0 +1,115 @@
+// Everything in this module must run without the vscode API, so it can be tested on its own
+
+import { TASK_NUMBER_PATTERN } from './localProject';
+
+export interface ParsedTask {
+    id: string;
+    number: string | null; // "2.1" as written in tasks.md, null for tasks without a number
+    title: string;
+    level: number;
+    isCompleted: boolean;
+    isSubtask: boolean;
+    parentId?: string;
+    requirements?: string[];
+    details?: string[];
+}
+
+/**
+ * Tasks in tasks.md with their requirements and details. Numbers are read the same way
+ * as LocalProject and parseTaskReferences read them, so "1. Title" is task 1 and
+ * "1.2.3 Title" is task 1.2.3.
+ */
+export function parseTasksMarkdown(content: string): ParsedTask[] {
+    const tasks: ParsedTask[] = [];
+    const lines = content.split('\n');
+    let currentParentId: string | undefined;
+    let taskCounter = 0;
+    
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        
+        // Skip empty lines and headers
+        if (!line.trim() || line.startsWith('#')) {
+            continue;
+        }
+
+        // Check if this is a task line using the same regex as web dashboard
+        const taskMatch = line.match(/^[\s]*-[\s]*\[([x\s])\]/);
+        if (taskMatch) {
+            const status = taskMatch[1];
+            const isCompleted = status.toLowerCase() === 'x';
+            
+            // Calculate indentation level (count leading spaces/tabs)
+            const leadingWhitespace = line.match(/^(\s*)/)?.[1] || '';
+            const level = leadingWhitespace.length;
+            
+            // Extract task text after the checkbox
+            const taskText = line.replace(/^[\s]*-[\s]*\[[x\s]\][\s]*/, '').trim();
+            
+            // Extract task ID and title from the task text
+            const taskIdMatch = taskText.match(TASK_NUMBER_PATTERN);
+            const taskId = taskIdMatch ? taskIdMatch[1] : `task-${taskCounter + 1}`;
+            const title = taskIdMatch ? taskIdMatch[2] : taskText;
+            
+            taskCounter++;
+
+            const trimmedTaskId = taskId.trim();
+            const trimmedTitle = title.trim();
+            
+
+            // Determine if this is a subtask
+            const isSubtask = level > 0 || trimmedTaskId.includes('.');
+            
+            // Set parent ID for subtasks
+            if (isSubtask && level === 1) {
+                for (let j = tasks.length - 1; j >= 0; j--) {
+                    if (!tasks[j].isSubtask) {
+                        currentParentId = tasks[j].id;
+                        break;
+                    }
+                }
+            } else if (!isSubtask) {
+                currentParentId = undefined;
+            }
+
+            // Extract requirements and details
+            const requirements: string[] = [];
+            const details: string[] = [];
+            
+            for (let j = i + 1; j < lines.length; j++) {
+                const nextLine = lines[j];
+                
+                if (nextLine.match(/^(\s*)-\s*\[([ x])\]/)) {
+                    break;
+                }
+                
+                const reqMatch = nextLine.match(/_Requirements:\s*([^_]+)_/);
+                if (reqMatch) {
+                    requirements.push(...reqMatch[1].split(',').map(r => r.trim()));
+                }
+                
+                const detailMatch = nextLine.match(/^\s*-\s+(.+)$/);
+                if (detailMatch && !nextLine.includes('_Requirements:')) {
+                    details.push(detailMatch[1]);
+                }
+            }
+
+            const task: ParsedTask = {
+                id: trimmedTaskId,
+                number: taskIdMatch ? trimmedTaskId : null,
+                title: trimmedTitle,
+                level,
+                isCompleted,
+                isSubtask,
+                parentId: currentParentId,
+                requirements: requirements.length > 0 ? requirements : undefined,
+                details: details.length > 0 ? details : undefined
+            };
+
+            tasks.push(task);
+        }
+    }
+
+    return tasks;
+}
@@ -0,0 +1,72 @@
+// Everything in this module must run without the vscode API, so the MCP server can use it
+
+export interface TaskReference {
+    taskId: string;
+    text: string; // The trailer line or tag as written in the message
+}
+
+// "Closes-Task: 2.3" trailers, several IDs separated by commas or spaces
+const TRAILER_PATTERN = /^closes-task:[ \t]*(.*)$/gim;
+// "[task 2.3]" tags anywhere in the message
+const TAG_PATTERN = /\[task\s+(\d+(?:\.\d+)*)\]/gi;
+const TASK_ID_PATTERN = /^\d+(?:\.\d+)*$/;
+
+export const COMMIT_MSG_HOOK_MARKER = 'ai-project-manager commit-msg hook';
+
+/**
+ * Task IDs a commit message explicitly marks as done, in order of appearance
+ */
+export function parseTaskReferences(message: string): TaskReference[] {
+    const references: TaskReference[] = [];
+    const add = (taskId: string, text: string) => {
+        if (!references.some(reference => reference.taskId === taskId)) {
+            references.push({ taskId, text });
+        }
+    };
+
+    for (const match of message.matchAll(TRAILER_PATTERN)) {
+        // "1." is task 1, as task lines write it and the commit-msg hook accepts it
+        match[1].split(/[\s,]+/)
+            .map(taskId => taskId.replace(/\.$/, ''))
+            .filter(taskId => TASK_ID_PATTERN.test(taskId))
+            .forEach(taskId => add(taskId, match[0].trim()));
+    }
+    for (const match of message.matchAll(TAG_PATTERN)) {
+        add(match[1], match[0]);
+    }
+
+    return references;
+}
+
+/**
+ * A POSIX shell commit-msg hook that rejects messages referencing task IDs missing from
+ * tasksFile (relative to the repository root). It reads the same conventions as
+ * parseTaskReferences, and also flags trailer values that are not task IDs.
+ */
+export function commitMsgHookScript(tasksFile: string): string {
+    const quotedTasksFile = `'${tasksFile.replace(/'/g, `'\\''`)}'`;
+
+    return String.raw`#!/bin/sh
+# ${COMMIT_MSG_HOOK_MARKER}
+# Rejects commits whose "Closes-Task:" trailers or "[task N]" tags name tasks that are not
+# in tasks.md. Delete this file to turn the check off.
+TASKS_FILE=${quotedTasksFile}
+[ -f "$TASKS_FILE" ] || exit 0
+
+message=$(grep -v '^#' "$1")
+ids=$( {
+  printf '%s\n' "$message" | sed -n 's/^[Cc][Ll][Oo][Ss][Ee][Ss]-[Tt][Aa][Ss][Kk]:[[:space:]]*//p' | tr -s ', \t\r' '\n\n\n\n'
+  printf '%s\n' "$message" | grep -oiE '\[task[[:space:]]+[0-9]+(\.[0-9]+)*\]' | grep -oE '[0-9]+(\.[0-9]+)*'
+} | grep -v '^$')
+
+status=0
+for id in $ids; do
+  escaped=$(printf '%s' "$id" | sed 's/\./\\./g')
+  if ! grep -qE "^[[:space:]]*-[[:space:]]*\[[ xX]\][[:space:]]*$escaped\.?([[:space:]]|$)" "$TASKS_FILE"; then
+    echo "commit-msg: there is no task $id in $TASKS_FILE" >&2
+    status=1
+  fi
+done
+exit $status
+`;
+}
@@ -0,0 +1,401 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ProgressData, TaskTimeRecord } from '../types';
+import { ProjectDetectorImpl } from './projectDetector';
+import { LocalProject, TASK_NUMBER_PATTERN, findRequirement } from './localProject';
+
+const REQUIREMENTS_PATTERN = /_Requirements:\s*([^_]+)_/;
+
+interface ActiveTask {
+    key: string; // Key of the task's entry in progress.json taskTime
+    title: string;
+}
+
+interface TaskSummary {
+    number: string | null;
+    title: string;
+    details: string[];
+    requirements: string[]; // "1.2: WHEN ... THEN ..." lines, or the bare ID when not found
+}
+
+/**
+ * Formats seconds as "1h 25m", "12m" or "<1m"
+ */
+export function formatDuration(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 1) {
+        return '<1m';
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Follows the task being worked on: optionally moves it onto its own git branch, records
+ * work sessions and focus time in progress.json, and drafts a commit message and pull
+ * request description when it is completed. One task is active at a time.
+ */
+export class TaskSessionService implements vscode.Disposable {
+    private static instance: TaskSessionService;
+    private static readonly ACTIVE_TASK_KEY = 'aiProjectManager.activeTask';
+
+    private readonly projectDetector = new ProjectDetectorImpl();
+    private readonly execFileAsync = promisify(execFile);
+    private context?: vscode.ExtensionContext;
+    private focusedSince: number | null = null; // Start of the current focused stretch on the active task
+
+    static getInstance(): TaskSessionService {
+        if (!TaskSessionService.instance) {
+            TaskSessionService.instance = new TaskSessionService();
+        }
+        return TaskSessionService.instance;
+    }
+
+    initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+
+        // A task left active in an earlier session keeps counting from now
+        if (this.getActiveTask() && vscode.window.state.focused) {
+            this.focusedSince = Date.now();
+        }
+
+        context.subscriptions.push(
+            vscode.window.onDidChangeWindowState(state => {
+                if (!this.getActiveTask()) {
+                    return;
+                }
+                if (state.focused) {
+                    this.focusedSince = Date.now();
+                } else {
+                    this.recordFocusTime();
+                }
+            }),
+            this
+        );
+    }
+
+    getActiveTask(): ActiveTask | undefined {
+        return this.context?.workspaceState.get<ActiveTask>(TaskSessionService.ACTIVE_TASK_KEY);
+    }
+
+    /**
+     * Makes the task active, stopping any other one, and offers to switch to its branch
+     */
+    async startTask(taskTitle: string): Promise<void> {
+        const { key, number, title } = this.parseTaskTitle(taskTitle);
+        const active = this.getActiveTask();
+        if (active?.key === key) {
+            return;
+        }
+        if (active) {
+            await this.stopTask();
+        }
+
+        const branch = await this.switchToTaskBranch(number, title);
+        this.updateTaskTime(key, title, record => {
+            record.sessions.push({ startedAt: new Date().toISOString() });
+            if (branch) {
+                record.branch = branch;
+            }
+        });
+
+        await this.context?.workspaceState.update(TaskSessionService.ACTIVE_TASK_KEY, { key, title: taskTitle });
+        this.focusedSince = vscode.window.state.focused ? Date.now() : null;
+    }
+
+    /**
+     * Ends the active task's work session. Returns its updated time record.
+     */
+    async stopTask(): Promise<TaskTimeRecord | undefined> {
+        const active = this.getActiveTask();
+        if (!active) {
+            return undefined;
+        }
+
+        const focused = this.takeFocusedSeconds();
+        const record = this.updateTaskTime(active.key, this.parseTaskTitle(active.title).title, entry => {
+            entry.focusTime += focused;
+            const openSession = entry.sessions.find(session => !session.stoppedAt);
+            if (openSession) {
+                openSession.stoppedAt = new Date().toISOString();
+            }
+        });
+
+        await this.context?.workspaceState.update(TaskSessionService.ACTIVE_TASK_KEY, undefined);
+        return record;
+    }
+
+    /**
+     * Stops the task if it is the active one, without completing it
+     */
+    async resetTask(taskTitle: string): Promise<void> {
+        if (this.getActiveTask()?.key === this.parseTaskTitle(taskTitle).key) {
+            await this.stopTask();
+        }
+    }
+
+    /**
+     * Stops tracking the task and suggests a commit message and PR description for it
+     */
+    async completeTask(taskTitle: string): Promise<void> {
+        const { key, title } = this.parseTaskTitle(taskTitle);
+        const record = this.getActiveTask()?.key === key
+            ? await this.stopTask()
+            : this.readProgress()?.taskTime?.[key];
+
+        const summary = this.summarizeTask(taskTitle);
+        const commitMessage = this.buildCommitMessage(summary);
+        const pullRequestDescription = this.buildPullRequestDescription(summary, record);
+
+        // Not awaited: the suggestion stays up without holding the caller
+        const timeSpent = record && record.focusTime > 0 ? ` after ${formatDuration(record.focusTime)} of focused work` : '';
+        vscode.window.showInformationMessage(
+            `✅ Completed "${title}"${timeSpent}.`,
+            'Use as Commit Message',
+            'Copy PR Description'
+        ).then(async choice => {
+            if (choice === 'Use as Commit Message') {
+                await this.setCommitMessage(commitMessage);
+            } else if (choice === 'Copy PR Description') {
+                await vscode.env.clipboard.writeText(pullRequestDescription);
+                vscode.window.showInformationMessage('PR description copied to clipboard');
+            }
+        });
+    }
+
+    private parseTaskTitle(taskTitle: string): { key: string; number: string | null; title: string } {
+        const match = taskTitle.trim().match(TASK_NUMBER_PATTERN);
+        return match
+            ? { key: match[1], number: match[1], title: match[2].trim() }
+            : { key: taskTitle.trim(), number: null, title: taskTitle.trim() };
+    }
+
+    private getWorkspaceRoot(): string | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
+    /**
+     * Checks out the task's branch, creating it from the current HEAD if needed. Controlled by
+     * the taskBranches setting; returns the branch name when the task is on it.
+     */
+    private async switchToTaskBranch(number: string | null, title: string): Promise<string | undefined> {
+        const config = vscode.workspace.getConfiguration('aiProjectManager');
+        const mode = config.get<'ask' | 'always' | 'never'>('taskBranches', 'ask');
+        const cwd = this.getWorkspaceRoot();
+        if (mode === 'never' || !cwd) {
+            return undefined;
+        }
+
+        const git = (...args: string[]) => this.execFileAsync('git', args, { cwd });
+
+        let currentBranch: string;
+        try {
+            currentBranch = (await git('rev-parse', '--abbrev-ref', 'HEAD')).stdout.trim();
+        } catch {
+            return undefined; // Not a git repository
+        }
+
+        const branch = this.getBranchName(number, title);
+        if (currentBranch === branch) {
+            return branch;
+        }
+
+        if (mode === 'ask') {
+            const choice = await vscode.window.showInformationMessage(
+                `Switch to branch "${branch}" for this task?`,
+                'Switch Branch',
+                'Always',
+                'Not Now'
+            );
+            if (choice === 'Always') {
+                await config.update('taskBranches', 'always', vscode.ConfigurationTarget.Workspace);
+            } else if (choice !== 'Switch Branch') {
+                return undefined;
+            }
+        }
+
+        try {
+            const exists = await git('rev-parse', '--verify', '--quiet', `refs/heads/${branch}`).then(() => true, () => false);
+            await git(...(exists ? ['checkout', branch] : ['checkout', '-b', branch]));
+            vscode.window.showInformationMessage(`Switched to ${exists ? '' : 'new '}branch ${branch}`);
+            return branch;
+        } catch (error) {
+            const stderr = (error as { stderr?: string }).stderr?.trim();
+            vscode.window.showWarningMessage(`Could not switch to branch ${branch}: ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * "task/2.1-implement-user-authentication" with the default prefix
+     */
+    private getBranchName(number: string | null, title: string): string {
+        const prefix = vscode.workspace.getConfiguration('aiProjectManager').get('taskBranchPrefix', 'task/');
+        const slug = title
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 48)
+            .replace(/-+$/, '');
+        return `${prefix}${number ? `${number}-` : ''}${slug || 'task'}`;
+    }
+
+    private recordFocusTime(): void {
+        const active = this.getActiveTask();
+        const focused = this.takeFocusedSeconds();
+        if (active && focused > 0) {
+            this.updateTaskTime(active.key, this.parseTaskTitle(active.title).title, record => {
+                record.focusTime += focused;
+            });
+        }
+    }
+
+    private takeFocusedSeconds(): number {
+        if (this.focusedSince === null) {
+            return 0;
+        }
+        const seconds = Math.round((Date.now() - this.focusedSince) / 1000);
+        this.focusedSince = vscode.window.state.focused ? Date.now() : null;
+        return seconds;
+    }
+
+    private readProgress(): ProgressData | undefined {
+        if (!this.projectDetector.detectAiProject()) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(fs.readFileSync(this.projectDetector.getProjectStructure().progressPath, 'utf-8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Applies update to the task's time record in progress.json and returns the record
+     */
+    private updateTaskTime(key: string, title: string, update: (record: TaskTimeRecord) => void): TaskTimeRecord | undefined {
+        if (!this.projectDetector.detectAiProject()) {
+            return undefined;
+        }
+
+        const { progressPath } = this.projectDetector.getProjectStructure();
+        const progress: ProgressData = this.readProgress() ?? {
+            totalTasks: 0,
+            completedTasks: 0,
+            percentage: 0,
+            lastUpdated: new Date(),
+            recentActivity: []
+        };
+
+        const taskTime = progress.taskTime ?? {};
+        const record = taskTime[key] ?? { title, sessions: [], focusTime: 0 };
+        update(record);
+
+        try {
+            fs.writeFileSync(progressPath, JSON.stringify({ ...progress, taskTime: { ...taskTime, [key]: record } }, null, 2));
+        } catch (error) {
+            console.error('Failed to record task time:', error);
+        }
+        return record;
+    }
+
+    /**
+     * The task's detail lines and linked requirements, read from tasks.md and requirements.md
+     */
+    private summarizeTask(taskTitle: string): TaskSummary {
+        const { number, title } = this.parseTaskTitle(taskTitle);
+        const summary: TaskSummary = { number, title, details: [], requirements: [] };
+
+        const root = this.getWorkspaceRoot();
+        if (!root || !this.projectDetector.detectAiProject()) {
+            return summary;
+        }
+
+        try {
+            const project = new LocalProject(root, this.projectDetector.getProjectStructure());
+            const { content, tasks } = project.readTasks();
+            const task = number ? project.findTask(tasks, number) : tasks.find(candidate => candidate.title === title);
+            if (!task) {
+                return summary;
+            }
+
+            // The task's own lines, up to its first subtask
+            const blockLines = project.getTaskBlock(content, task).split('\n').slice(1);
+            const firstSubtask = blockLines.findIndex(line => /^\s*- \[[ xX]\]/.test(line));
+            const ownLines = firstSubtask === -1 ? blockLines : blockLines.slice(0, firstSubtask);
+
+            const requirementsContent = fs.existsSync(project.structure.requirementsPath)
+                ? fs.readFileSync(project.structure.requirementsPath, 'utf-8')
+                : '';
+
+            for (const line of ownLines) {
+                const requirementsMatch = line.match(REQUIREMENTS_PATTERN);
+                if (requirementsMatch) {
+                    summary.requirements = requirementsMatch[1].split(',').map(id => id.trim()).filter(id => id).map(id => {
+                        const requirement = findRequirement(requirementsContent, id);
+                        const text = requirement?.criterion?.text ?? requirement?.lines[0].replace(/^[\s#*-]+|\*+$/g, '').trim();
+                        return text ? `${id}: ${text}` : id;
+                    });
+                } else if (line.trim()) {
+                    summary.details.push(line.trim().replace(/^[-*]\s*/, ''));
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to read task details:', error);
+        }
+
+        return summary;
+    }
+
+    // The Closes-Task trailer is what parseTaskReferences reads to check the task off from the commit
+    private buildCommitMessage(summary: TaskSummary): string {
+        const body = summary.details.map(detail => `- ${detail}`);
+        const trailers = [
+            ...(summary.requirements.length > 0
+                ? [`Requirements: ${summary.requirements.map(requirement => requirement.split(':')[0]).join(', ')}`]
+                : []),
+            ...(summary.number ? [`Closes-Task: ${summary.number}`] : [])
+        ];
+
+        return [summary.title, ...(body.length > 0 ? ['', ...body] : []), ...(trailers.length > 0 ? ['', ...trailers] : [])].join('\n');
+    }
+
+    private buildPullRequestDescription(summary: TaskSummary, record: TaskTimeRecord | undefined): string {
+        const sections = [`## ${summary.number ? `Task ${summary.number}: ` : ''}${summary.title}`];
+
+        if (summary.details.length > 0) {
+            sections.push(summary.details.map(detail => `- ${detail}`).join('\n'));
+        }
+        if (summary.requirements.length > 0) {
+            sections.push(`### Requirements\n\n${summary.requirements.map(requirement => `- ${requirement}`).join('\n')}`);
+        }
+        if (record && record.focusTime > 0) {
+            const sessions = record.sessions.length;
+            sections.push(`### Time spent\n\n${formatDuration(record.focusTime)} of focused work over ${sessions} session${sessions === 1 ? '' : 's'}`);
+        }
+
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Puts the message in the Source Control input box, or on the clipboard without the git extension
+     */
+    private async setCommitMessage(message: string): Promise<void> {
+        const gitExtension = vscode.extensions.getExtension<{ getAPI(version: 1): { repositories: { inputBox: { value: string } }[] } }>('vscode.git');
+        const repository = gitExtension?.isActive ? gitExtension.exports.getAPI(1).repositories[0] : undefined;
+
+        if (repository) {
+            repository.inputBox.value = message;
+            await vscode.commands.executeCommand('workbench.view.scm');
+        } else {
+            await vscode.env.clipboard.writeText(message);
+            vscode.window.showInformationMessage('Commit message copied to clipboard');
+        }
+    }
+
+    dispose(): void {
+        this.recordFocusTime();
+    }
+}
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+// Standalone entry point for the MCP server: `node out/mcpServer.js [--root <dir>]`.
+// Serves the project found in --root (default: the working directory) over stdio.
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalProject } from './lib/localProject';
+import { McpServer } from './lib/mcpServer';
+
+function getRootDir(args: string[]): string {
+    const rootIndex = args.indexOf('--root');
+    if (rootIndex !== -1 && args[rootIndex + 1]) {
+        return args[rootIndex + 1];
+    }
+    return process.cwd();
+}
+
+function getVersion(): string {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version;
+    } catch {
+        return '0.0.0';
+    }
+}
+
+async function main(): Promise<void> {
+    let project: LocalProject;
+    try {
+        project = LocalProject.find(getRootDir(process.argv.slice(2)));
+    } catch (error) {
+        // stdout carries the protocol, so diagnostics go to stderr
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+
+    console.error(`✅ Serving ${path.dirname(project.structure.configPath)} over MCP`);
+    await new McpServer(project, getVersion()).listen(process.stdin, process.stdout);
+}
+
+main();
@@ -11,6 +11,7 @@ export interface ActivityItem {
   title: string;
   completedAt: Date;
   completedBy: 'manual' | 'auto-detection';
+  timeSpent?: number; // Seconds of focused work tracked in VS Code
 }
 
 export interface Milestone {
@@ -26,6 +27,19 @@ export interface ProgressData {
   lastUpdated: Date;
   recentActivity: ActivityItem[];
   milestones?: Milestone[];
+  taskTime?: Record<string, TaskTimeRecord>; // Keyed by task number, or title for unnumbered tasks
+}
+
+export interface TaskTimeSession {
+  startedAt: string;
+  stoppedAt?: string; // Unset while the task is being worked on
+}
+
+export interface TaskTimeRecord {
+  title: string;
+  branch?: string;
+  sessions: TaskTimeSession[];
+  focusTime: number; // Seconds the VS Code window was focused while the task was active
 }
 
 export interface ContextDocument {
@@ -0,0 +1,15 @@
+import nextJest from 'next/jest.js';
+
+// next/jest compiles tests with the same SWC setup and .env loading as the app
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
+
+export default createJestConfig(config);
@@ -4,7 +4,7 @@ const nextConfig: NextConfig = {
   /* config options here */
   
   // Increase timeout for API routes to handle long-running AI analysis
-  serverExternalPackages: ['@pinecone-database/pinecone'],
+  serverExternalPackages: ['@pinecone-database/pinecone', '@huggingface/transformers'],
   
   // Configure API routes timeout
   async headers() {
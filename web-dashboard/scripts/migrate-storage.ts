@@ -0,0 +1,22 @@
+// Copies the migrated Pinecone namespaces into the configured storage backend.
+// Usage: npm run migrate:storage [-- --overwrite]
+import { loadEnvConfig } from '@next/env';
+
+async function main() {
+  // Load .env files the way Next does before any module reads its configuration
+  loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+  const { migrateNamespacesToStorage } = await import('../src/lib/storageMigration');
+  const { StorageService } = await import('../src/lib/storage');
+
+  const overwrite = process.argv.includes('--overwrite');
+  const results = await migrateNamespacesToStorage({ overwrite });
+  const migrated = results.reduce((sum, result) => sum + result.migrated, 0);
+
+  console.log(`✅ Migrated ${migrated} records to ${StorageService.getInstance().backend.name} storage${overwrite ? ' (overwriting existing records)' : ''}`);
+}
+
+main().catch(error => {
+  console.error('❌ Storage migration failed:', error);
+  process.exit(1);
+});
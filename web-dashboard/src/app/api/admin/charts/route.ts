@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -123,11 +124,7 @@ async function getTimeSeriesData(timeRange: string) {
   });
 
   // Get all user API configs
-  const userConfigsResponse = await index.namespace('user-api-configs').query({
-    vector: new Array(1024).fill(0.1),
-    topK: 1000,
-    includeMetadata: true
-  });
+  const userConfigs = await StorageService.getInstance().userApiConfigs.list();
 
   // Calculate costs using Google's actual pricing
   const calculateCost = (inputTokens: number, outputTokens: number): number => {
@@ -207,15 +204,11 @@ async function getTimeSeriesData(timeRange: string) {
   });
 
   // Process user registrations (from user configs)
-  userConfigsResponse.matches?.forEach((match: any) => {
-    const metadata = match.metadata;
-    if (metadata?.timestamp) {
-      const date = new Date(metadata.timestamp);
-      const dateKey = date.toISOString().split('T')[0];
-      
-      if (dailyData[dateKey] && metadata.userId) {
-        dailyData[dateKey].users.add(metadata.userId);
-      }
+  userConfigs.forEach(config => {
+    const dateKey = new Date(config.updatedAt).toISOString().split('T')[0];
+
+    if (dailyData[dateKey]) {
+      dailyData[dateKey].users.add(config.userId);
     }
   });
 
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminAccess } from '@/lib/adminCheck';
+import { embeddingService } from '@/lib/embeddingService';
+import { PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
+import { pineconeOperationsService } from '@/lib/pineconeOperationsService';
+
+// Namespaces the sync and analysis services write embeddings to
+const DEFAULT_NAMESPACES = ['', PINECONE_NAMESPACE_PROJECTS];
+
+async function requireAdmin(): Promise<NextResponse | null> {
+  const adminCheck = await checkAdminAccess();
+
+  if (!adminCheck.userId) {
+    return NextResponse.json(
+      { success: false, error: adminCheck.error || 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!adminCheck.isAdmin) {
+    return NextResponse.json(
+      { success: false, error: adminCheck.error || 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// POST /api/admin/embeddings/reembed - Re-embed vectors written by another embedding model (admin only)
+// Pass ?namespace=<name> to limit it to one namespace; an empty name is the default namespace
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const namespace = request.nextUrl.searchParams.get('namespace');
+    const namespaces = namespace === null ? DEFAULT_NAMESPACES : [namespace];
+
+    const results = [];
+    for (const name of namespaces) {
+      results.push({ namespace: name, ...(await pineconeOperationsService.reembedStaleVectors(name || undefined)) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      model: embeddingService.modelId,
+      results
+    });
+  } catch (error) {
+    console.error('Error re-embedding vectors:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to re-embed vectors' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/admin/embeddings/reembed - The embedding model new vectors are written with
+export async function GET() {
+  const denied = await requireAdmin();
+  if (denied) {
+    return denied;
+  }
+
+  return NextResponse.json({
+    success: true,
+    model: embeddingService.modelId,
+    dimensions: embeddingService.dimensions
+  });
+}
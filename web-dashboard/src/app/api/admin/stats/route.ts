@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { TokenTrackingService } from '@/lib/tokenTrackingService';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -150,11 +151,7 @@ async function getAdminStats(timeRange: string = '30d') {
   });
 
   // Get all user API configs to count users
-  const userConfigsResponse = await index.namespace('user-api-configs').query({
-    vector: new Array(1024).fill(0.1),
-    topK: 1000,
-    includeMetadata: true
-  });
+  const userConfigs = await StorageService.getInstance().userApiConfigs.list();
 
   // Get user details from Clerk API
   const userDetails: Record<string, { email: string; name: string; createdAt: string }> = {};
@@ -238,7 +235,7 @@ async function getAdminStats(timeRange: string = '30d') {
     tokenUsage: tokenUsageResponse.matches?.length || 0,
     tokenAlerts: tokenAlertsResponse.matches?.length || 0,
     analyses: analysesResponse.matches?.length || 0,
-    userConfigs: userConfigsResponse.matches?.length || 0
+    userConfigs: userConfigs.length
   });
 
   // Process projects data
@@ -372,26 +369,19 @@ async function getAdminStats(timeRange: string = '30d') {
   }
 
   // Get user names from user configs as fallback and ensure all users have details
-  userConfigsResponse.matches?.forEach((match: any) => {
-    const metadata = match.metadata;
-    if (metadata?.userId) {
-      // If we don't have user details from Clerk, try to get them from user configs
-      if (!userDetails[metadata.userId]) {
-        const email = metadata.email || metadata.userEmail || 'No email';
-        const name = metadata.userName || metadata.name || `User ${metadata.userId.slice(-6)}`;
-        const createdAt = metadata.createdAt || metadata.created_at || 'Unknown';
-        
-        userDetails[metadata.userId] = {
-          email,
-          name,
-          createdAt
-        };
-      }
-      
-      // Also populate userNames for consistency
-      if (!userNames[metadata.userId]) {
-        userNames[metadata.userId] = userDetails[metadata.userId]?.name || `User ${metadata.userId.slice(-6)}`;
-      }
+  userConfigs.forEach(config => {
+    // If we don't have user details from Clerk, fall back to placeholders
+    if (!userDetails[config.userId]) {
+      userDetails[config.userId] = {
+        email: 'No email',
+        name: `User ${config.userId.slice(-6)}`,
+        createdAt: 'Unknown'
+      };
+    }
+
+    // Also populate userNames for consistency
+    if (!userNames[config.userId]) {
+      userNames[config.userId] = userDetails[config.userId]?.name || `User ${config.userId.slice(-6)}`;
     }
   });
   
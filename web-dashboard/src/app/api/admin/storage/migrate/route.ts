@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminAccess } from '@/lib/adminCheck';
+import { COLLECTION_NAMES, StorageService } from '@/lib/storage';
+import { migrateNamespacesToStorage } from '@/lib/storageMigration';
+
+async function requireAdmin(): Promise<NextResponse | null> {
+  const adminCheck = await checkAdminAccess();
+
+  if (!adminCheck.userId) {
+    return NextResponse.json(
+      { success: false, error: adminCheck.error || 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!adminCheck.isAdmin) {
+    return NextResponse.json(
+      { success: false, error: adminCheck.error || 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// POST /api/admin/storage/migrate - Copy records from Pinecone namespaces into storage (admin only)
+// Pass ?overwrite=true to replace records that are already in storage
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const overwrite = request.nextUrl.searchParams.get('overwrite') === 'true';
+    const results = await migrateNamespacesToStorage({ overwrite });
+    const migrated = results.reduce((sum, result) => sum + result.migrated, 0);
+
+    return NextResponse.json({
+      success: true,
+      message: `Migrated ${migrated} records to ${StorageService.getInstance().backend.name} storage`,
+      results
+    });
+  } catch (error) {
+    console.error('Error migrating records to storage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to migrate records to storage' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/admin/storage/migrate - Storage backend and record counts per collection
+export async function GET() {
+  try {
+    const denied = await requireAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const storage = StorageService.getInstance();
+    const counts: Record<string, number> = {};
+    for (const collection of COLLECTION_NAMES) {
+      counts[collection] = (await storage.repository(collection).list()).length;
+    }
+
+    return NextResponse.json({
+      success: true,
+      backend: storage.backend.name,
+      counts
+    });
+  } catch (error) {
+    console.error('Error checking storage status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check storage status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { ApplicationQuestion } from '@/types/applications';
 
-function getPineconeIndex() {
-  const pinecone = getPineconeClient();
-  return pinecone.index(PINECONE_INDEX_NAME);
-}
-
 // PUT /api/applications/[id]/questions/[questionId] - Update question or response
 export async function PUT(
   request: NextRequest,
@@ -28,13 +23,12 @@ export async function PUT(
 
     console.log(`📝 Updating question response ${questionId}`);
 
-    const index = getPineconeIndex();
+    const storage = StorageService.getInstance();
 
     // First verify the user owns the application
-    const appFetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const appRecord = appFetchResponse.records?.[`application-${applicationId}`];
+    const application = await storage.applications.get(applicationId);
 
-    if (!appRecord?.metadata || appRecord.metadata.userId !== userId) {
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
@@ -42,27 +36,15 @@ export async function PUT(
     }
 
     // Fetch the current question
-    const fetchResponse = await index.namespace('application-questions').fetch([`question-${questionId}`]);
-    const record = fetchResponse.records?.[`question-${questionId}`];
+    const currentQuestion = await storage.applicationQuestions.get(questionId);
 
-    if (!record?.metadata) {
+    if (!currentQuestion || currentQuestion.applicationId !== applicationId) {
       return NextResponse.json(
         { error: 'Question not found' },
         { status: 404 }
       );
     }
 
-    let currentQuestion: ApplicationQuestion;
-    try {
-      currentQuestion = JSON.parse(record.metadata.questionData as string);
-    } catch (error) {
-      console.error('Failed to parse question data:', error);
-      return NextResponse.json(
-        { error: 'Question data corrupted' },
-        { status: 500 }
-      );
-    }
-
     // Update the question
     const updatedQuestion: ApplicationQuestion = {
       ...currentQuestion,
@@ -76,19 +58,7 @@ export async function PUT(
       updatedAt: new Date().toISOString()
     };
 
-    // Update the vector in Pinecone
-    await index.namespace('application-questions').upsert([
-      {
-        id: `question-${questionId}`,
-        values: record.values || new Array(1024).fill(0), // Keep existing vector
-        metadata: {
-          ...record.metadata,
-          questionData: JSON.stringify(updatedQuestion),
-          question: updatedQuestion.question.substring(0, 1000), // Update metadata question text
-          updatedAt: updatedQuestion.updatedAt
-        },
-      },
-    ]);
+    await storage.applicationQuestions.put(updatedQuestion);
 
     console.log(`✅ Question response updated: ${questionId}`);
 
@@ -123,13 +93,12 @@ export async function DELETE(
     const { id: applicationId, questionId } = await params;
     console.log(`🗑️ Deleting question ${questionId}`);
 
-    const index = getPineconeIndex();
+    const storage = StorageService.getInstance();
 
     // First verify the user owns the application
-    const appFetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const appRecord = appFetchResponse.records?.[`application-${applicationId}`];
+    const application = await storage.applications.get(applicationId);
 
-    if (!appRecord?.metadata || appRecord.metadata.userId !== userId) {
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
@@ -137,10 +106,9 @@ export async function DELETE(
     }
 
     // Fetch the question to verify it exists
-    const fetchResponse = await index.namespace('application-questions').fetch([`question-${questionId}`]);
-    const record = fetchResponse.records?.[`question-${questionId}`];
+    const existingQuestion = await storage.applicationQuestions.get(questionId);
 
-    if (!record?.metadata) {
+    if (!existingQuestion || existingQuestion.applicationId !== applicationId) {
       return NextResponse.json(
         { error: 'Question not found' },
         { status: 404 }
@@ -148,7 +116,7 @@ export async function DELETE(
     }
 
     // Delete the question
-    await index.namespace('application-questions').deleteOne(`question-${questionId}`);
+    await storage.applicationQuestions.delete(questionId);
 
     console.log(`✅ Question deleted: ${questionId}`);
 
@@ -1,14 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { ApplicationQuestion } from '@/types/applications';
 import { v4 as uuidv4 } from 'uuid';
-import { embeddingService } from '@/lib/embeddingService';
-
-function getPineconeIndex() {
-  const pinecone = getPineconeClient();
-  return pinecone.index(PINECONE_INDEX_NAME);
-}
 
 // GET /api/applications/[id]/questions - Get application questions
 export async function GET(
@@ -27,46 +21,19 @@ export async function GET(
     const { id: applicationId } = await params;
     console.log(`❓ Loading questions for application ${applicationId}`);
 
-    const index = getPineconeIndex();
+    const storage = StorageService.getInstance();
 
     // First verify the user owns the application
-    const appFetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const appRecord = appFetchResponse.records?.[`application-${applicationId}`];
+    const application = await storage.applications.get(applicationId);
 
-    if (!appRecord?.metadata || appRecord.metadata.userId !== userId) {
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
       );
     }
 
-    // Query for application questions
-    const queryResponse = await index.namespace('application-questions').query({
-      vector: new Array(1024).fill(0), // Dummy vector for metadata-only query
-      filter: {
-        applicationId: applicationId,
-        documentType: 'application-question'
-      },
-      topK: 100,
-      includeMetadata: true,
-    });
-
-    const questions: ApplicationQuestion[] = [];
-    
-    if (queryResponse.matches) {
-      for (const match of queryResponse.matches) {
-        if (match.metadata) {
-          try {
-            const questionData = typeof match.metadata.questionData === 'string' 
-              ? JSON.parse(match.metadata.questionData) 
-              : match.metadata.questionData;
-            questions.push(questionData);
-          } catch (e) {
-            console.error(`Failed to parse question data for ${match.id}:`, e);
-          }
-        }
-      }
-    }
+    const questions = await storage.applicationQuestions.list({ applicationId });
 
     // Sort by creation date (newest first)
     questions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -114,13 +81,12 @@ export async function POST(
 
     console.log(`❓ Creating question for application ${applicationId}`);
 
-    const index = getPineconeIndex();
+    const storage = StorageService.getInstance();
 
     // First verify the user owns the application
-    const appFetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const appRecord = appFetchResponse.records?.[`application-${applicationId}`];
+    const application = await storage.applications.get(applicationId);
 
-    if (!appRecord?.metadata || appRecord.metadata.userId !== userId) {
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
@@ -128,17 +94,9 @@ export async function POST(
     }
 
     // Get current question count to determine order
-    const existingQuestionsQuery = await index.namespace('application-questions').query({
-      vector: new Array(1024).fill(0),
-      filter: {
-        applicationId: applicationId,
-        documentType: 'application-question'
-      },
-      topK: 100,
-      includeMetadata: true,
-    });
+    const existingQuestions = await storage.applicationQuestions.list({ applicationId });
 
-    const order = (existingQuestionsQuery.matches?.length || 0) + 1;
+    const order = existingQuestions.length + 1;
 
     const questionId = uuidv4();
     const now = new Date().toISOString();
@@ -154,36 +112,7 @@ export async function POST(
       updatedAt: now
     };
 
-    // Generate proper embedding for the question
-    let vector: number[];
-    
-    try {
-      const contentForEmbedding = question.trim();
-      console.log(`🔄 Generating embedding for question: "${contentForEmbedding.substring(0, 100)}..."`);
-      vector = await embeddingService.generateEmbeddingWithFallback(contentForEmbedding);
-      console.log(`✅ Generated embedding with ${vector.length} dimensions for question`);
-    } catch (error) {
-      console.error('❌ Failed to generate question embedding:', error);
-      vector = embeddingService.generateFallbackEmbedding(`question-${Date.now()}`);
-    }
-
-    // Upsert the question to Pinecone
-    await index.namespace('application-questions').upsert([
-      {
-        id: `question-${questionId}`,
-        values: vector,
-        metadata: {
-          userId,
-          applicationId,
-          questionId,
-          documentType: 'application-question',
-          questionData: JSON.stringify(applicationQuestion),
-          question: question.trim().substring(0, 1000), // Limit for metadata
-          order,
-          createdAt: now
-        },
-      },
-    ]);
+    await storage.applicationQuestions.put(applicationQuestion);
 
     console.log(`✅ Question created for application ${applicationId}`);
 
@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { Application } from '@/types/applications';
 
-function getPineconeIndex() {
-  const pinecone = getPineconeClient();
-  return pinecone.index(PINECONE_INDEX_NAME);
-}
-
 // GET /api/applications/[id] - Get specific application
 export async function GET(
   request: NextRequest,
@@ -25,38 +20,16 @@ export async function GET(
     const { id: applicationId } = await params;
     console.log(`📋 Loading application ${applicationId}`);
 
-    const index = getPineconeIndex();
-
-    // Fetch the application
-    const fetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const record = fetchResponse.records?.[`application-${applicationId}`];
-
-    if (!record?.metadata) {
-      return NextResponse.json(
-        { error: 'Application not found' },
-        { status: 404 }
-      );
-    }
+    const application = await StorageService.getInstance().applications.get(applicationId);
 
-    // Check if user owns this application
-    if (record.metadata.userId !== userId) {
+    // Applications belonging to other users are reported as missing
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
       );
     }
 
-    let application: Application;
-    try {
-      application = JSON.parse(record.metadata.applicationData as string);
-    } catch (error) {
-      console.error('Failed to parse application data:', error);
-      return NextResponse.json(
-        { error: 'Application data corrupted' },
-        { status: 500 }
-      );
-    }
-
     console.log(`✅ Loaded application: ${application.name}`);
     
     return NextResponse.json({
@@ -92,38 +65,16 @@ export async function PUT(
 
     console.log(`📝 Updating application ${applicationId}`);
 
-    const index = getPineconeIndex();
-
-    // Fetch the current application
-    const fetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const record = fetchResponse.records?.[`application-${applicationId}`];
+    const applications = StorageService.getInstance().applications;
+    const currentApplication = await applications.get(applicationId);
 
-    if (!record?.metadata) {
+    if (!currentApplication || currentApplication.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
       );
     }
 
-    // Check if user owns this application
-    if (record.metadata.userId !== userId) {
-      return NextResponse.json(
-        { error: 'Application not found' },
-        { status: 404 }
-      );
-    }
-
-    let currentApplication: Application;
-    try {
-      currentApplication = JSON.parse(record.metadata.applicationData as string);
-    } catch (error) {
-      console.error('Failed to parse application data:', error);
-      return NextResponse.json(
-        { error: 'Application data corrupted' },
-        { status: 500 }
-      );
-    }
-
     // Update the application
     const updatedApplication: Application = {
       ...currentApplication,
@@ -138,23 +89,7 @@ export async function PUT(
       updatedApplication.submittedAt = new Date().toISOString();
     }
 
-    // Update the vector in Pinecone
-    await index.namespace('applications').upsert([
-      {
-        id: `application-${applicationId}`,
-        values: record.values || new Array(1024).fill(0), // Keep existing vector
-        metadata: {
-          ...record.metadata,
-          applicationData: JSON.stringify(updatedApplication),
-          name: updatedApplication.name,
-          status: updatedApplication.status,
-          deadline: updatedApplication.deadline,
-          prizeType: updatedApplication.prizeType,
-          organizationName: updatedApplication.organizationName || '',
-          updatedAt: updatedApplication.updatedAt
-        },
-      },
-    ]);
+    await applications.put(updatedApplication);
 
     console.log(`✅ Application updated: ${updatedApplication.name}`);
 
@@ -189,21 +124,12 @@ export async function DELETE(
     const { id: applicationId } = await params;
     console.log(`🗑️ Deleting application ${applicationId}`);
 
-    const index = getPineconeIndex();
+    const storage = StorageService.getInstance();
 
     // Fetch the application to verify ownership
-    const fetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-    const record = fetchResponse.records?.[`application-${applicationId}`];
+    const application = await storage.applications.get(applicationId);
 
-    if (!record?.metadata) {
-      return NextResponse.json(
-        { error: 'Application not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if user owns this application
-    if (record.metadata.userId !== userId) {
+    if (!application || application.userId !== userId) {
       return NextResponse.json(
         { error: 'Application not found' },
         { status: 404 }
@@ -211,23 +137,14 @@ export async function DELETE(
     }
 
     // Delete the application
-    await index.namespace('applications').deleteOne(`application-${applicationId}`);
+    await storage.applications.delete(applicationId);
 
     // Also delete any associated questions
-    const questionsQuery = await index.namespace('application-questions').query({
-      vector: new Array(1024).fill(0),
-      filter: {
-        applicationId: applicationId,
-        documentType: 'application-question'
-      },
-      topK: 100,
-      includeMetadata: true,
-    });
+    const questions = await storage.applicationQuestions.list({ applicationId });
 
-    if (questionsQuery.matches && questionsQuery.matches.length > 0) {
-      const questionIds = questionsQuery.matches.map(match => match.id);
-      await index.namespace('application-questions').deleteMany(questionIds);
-      console.log(`🗑️ Deleted ${questionIds.length} associated questions`);
+    if (questions.length > 0) {
+      await Promise.all(questions.map(question => storage.applicationQuestions.delete(question.id)));
+      console.log(`🗑️ Deleted ${questions.length} associated questions`);
     }
 
     console.log(`✅ Application deleted: ${applicationId}`);
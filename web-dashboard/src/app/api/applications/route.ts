@@ -1,14 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { Application } from '@/types/applications';
 import { v4 as uuidv4 } from 'uuid';
-import { embeddingService } from '@/lib/embeddingService';
-
-function getPineconeIndex() {
-  const pinecone = getPineconeClient();
-  return pinecone.index(PINECONE_INDEX_NAME);
-}
 
 // GET /api/applications - Get user's applications
 export async function GET(request: NextRequest) {
@@ -23,35 +17,7 @@ export async function GET(request: NextRequest) {
 
     console.log(`📋 Loading applications for user ${userId}`);
 
-    const index = getPineconeIndex();
-
-    // Query for user's applications
-    const queryResponse = await index.namespace('applications').query({
-      vector: new Array(1024).fill(0), // Dummy vector for metadata-only query
-      filter: {
-        userId: userId,
-        documentType: 'application'
-      },
-      topK: 100,
-      includeMetadata: true,
-    });
-
-    const applications: Application[] = [];
-    
-    if (queryResponse.matches) {
-      for (const match of queryResponse.matches) {
-        if (match.metadata) {
-          try {
-            const applicationData = typeof match.metadata.applicationData === 'string' 
-              ? JSON.parse(match.metadata.applicationData) 
-              : match.metadata.applicationData;
-            applications.push(applicationData);
-          } catch (e) {
-            console.error(`Failed to parse application data for ${match.id}:`, e);
-          }
-        }
-      }
-    }
+    const applications = await StorageService.getInstance().applications.list({ userId });
 
     // Sort by deadline (soonest first)
     applications.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
@@ -127,50 +93,7 @@ export async function POST(request: NextRequest) {
 
     console.log(`📝 Creating application: ${name} for project ${projectId}`);
 
-    const index = getPineconeIndex();
-
-    // Create a vector based on application content
-    // Generate proper embedding for the application
-    let vector: number[];
-    
-    try {
-      const contentForEmbedding = [
-        name,
-        description,
-        prizeDetails,
-        organizationName || '',
-        requirements || '',
-        prizeType
-      ].filter(text => text && text.length > 0).join(' ');
-
-      console.log(`🔄 Generating embedding for application: ${name}`);
-      vector = await embeddingService.generateEmbeddingWithFallback(contentForEmbedding);
-      console.log(`✅ Generated embedding with ${vector.length} dimensions for application: ${name}`);
-    } catch (error) {
-      console.error('❌ Failed to generate application embedding:', error);
-      vector = embeddingService.generateFallbackEmbedding(`application-${name}-${Date.now()}`);
-    }
-
-    // Upsert the application to Pinecone
-    await index.namespace('applications').upsert([
-      {
-        id: `application-${applicationId}`,
-        values: vector,
-        metadata: {
-          userId,
-          applicationId,
-          projectId,
-          documentType: 'application',
-          applicationData: JSON.stringify(application),
-          name,
-          status: application.status,
-          deadline,
-          prizeType,
-          organizationName: organizationName || '',
-          createdAt: now
-        },
-      },
-    ]);
+    await StorageService.getInstance().applications.put(application);
 
     console.log(`✅ Application created: ${name}`);
 
@@ -1,54 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verify } from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+import { getBearerToken, verifyVSCodeToken } from '@/lib/vscodeToken';
 
 export async function POST(request: NextRequest) {
     try {
-        const authHeader = request.headers.get('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        const token = getBearerToken(request.headers.get('authorization'));
+        if (!token) {
             return NextResponse.json(
                 { error: 'Missing or invalid authorization header' },
                 { status: 401 }
             );
         }
 
-        const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-        try {
-            // Verify the JWT token
-            const decoded = verify(token, JWT_SECRET) as any;
-            
-            // Check if it's a VSCode token
-            if (decoded.type !== 'vscode') {
-                return NextResponse.json(
-                    { error: 'Invalid token type' },
-                    { status: 401 }
-                );
-            }
-
-            // Check if token is expired
-            if (decoded.exp && decoded.exp < Math.floor(Date.now() / 1000)) {
-                return NextResponse.json(
-                    { error: 'Token expired' },
-                    { status: 401 }
-                );
-            }
-
-            return NextResponse.json({
-                userId: decoded.userId,
-                email: decoded.email,
-                name: decoded.name
-            });
-
-        } catch (error) {
-            console.error('Token verification failed:', error);
+        const claims = verifyVSCodeToken(token);
+        if (!claims) {
             return NextResponse.json(
-                { error: 'Invalid token' },
+                { error: 'Invalid or expired token' },
                 { status: 401 }
             );
         }
 
+        return NextResponse.json({
+            userId: claims.userId,
+            email: claims.email,
+            name: claims.name,
+            expiresAt: new Date(claims.exp * 1000).toISOString()
+        });
+
     } catch (error) {
         console.error('Auth verification error:', error);
         return NextResponse.json(
@@ -56,4 +33,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 export async function GET(
   request: NextRequest,
@@ -9,51 +9,19 @@ export async function GET(
   try {
     const { id } = await params;
     
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const blogPosts = StorageService.getInstance().blogPosts;
+    const post = await blogPosts.get(id);
 
-    // Get specific blog post from Pinecone using fetch
-    const response = await index.namespace('blog-posts').fetch([id]);
-
-    if (!response.records || !response.records[id]) {
+    if (!post) {
       return NextResponse.json(
         { success: false, error: 'Blog post not found' },
         { status: 404 }
       );
     }
 
-    const match = response.records[id];
-    const post = {
-      id: match.id,
-      title: match.metadata?.title || '',
-      content: match.metadata?.content || '',
-      excerpt: match.metadata?.excerpt || '',
-      authorId: match.metadata?.authorId || '',
-      authorName: match.metadata?.authorName || '',
-      projectId: match.metadata?.projectId || '',
-      projectName: match.metadata?.projectName || '',
-      tags: match.metadata?.tags ? JSON.parse(String(match.metadata.tags)) : [],
-      fundingStatus: match.metadata?.fundingStatus || 'N/A',
-      resourceNeeded: match.metadata?.resourceNeeded || 'N/A',
-      publishedAt: match.metadata?.publishedAt || '',
-      createdAt: match.metadata?.createdAt || '',
-      updatedAt: match.metadata?.updatedAt || '',
-      readTime: match.metadata?.readTime || 0,
-      views: parseInt(String(match.metadata?.views || '0'))
-    };
-
     // Increment view count
     try {
-      await index.namespace('blog-posts').upsert([
-        {
-          id: match.id,
-          values: match.values,
-          metadata: {
-            ...match.metadata,
-            views: (parseInt(String(match.metadata?.views || '0')) + 1).toString()
-          }
-        }
-      ]);
+      await blogPosts.put({ ...post, views: post.views + 1 });
     } catch (error) {
       console.warn('Failed to increment view count:', error);
     }
@@ -97,23 +65,20 @@ export async function PUT(
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const blogPosts = StorageService.getInstance().blogPosts;
 
     // First, get the existing post to check ownership
-    const existingResponse = await index.namespace('blog-posts').fetch([id]);
+    const existingPost = await blogPosts.get(id);
 
-    if (!existingResponse.records || !existingResponse.records[id]) {
+    if (!existingPost) {
       return NextResponse.json(
         { success: false, error: 'Blog post not found' },
         { status: 404 }
       );
     }
-
-    const existingPost = existingResponse.records[id];
     
     // Check if user owns the post
-    if (existingPost.metadata?.authorId !== userId) {
+    if (existingPost.authorId !== userId) {
       return NextResponse.json(
         { success: false, error: 'You can only edit your own posts' },
         { status: 403 }
@@ -129,43 +94,17 @@ export async function PUT(
 
     const now = new Date().toISOString();
 
-    // Update blog post in Pinecone
-    await index.namespace('blog-posts').upsert([
-      {
-        id: existingPost.id,
-        values: existingPost.values,
-        metadata: {
-          ...existingPost.metadata,
-          title: title.substring(0, 200),
-          content: content.substring(0, 40000), // Pinecone metadata limit
-          excerpt: excerpt.substring(0, 500),
-          tags: JSON.stringify(tags),
-          fundingStatus: fundingStatus,
-          resourceNeeded: resourceNeeded,
-          updatedAt: now,
-          readTime
-        }
-      }
-    ]);
-
-    const updatedPost = {
-      id: existingPost.id,
+    const updatedPost = await blogPosts.put({
+      ...existingPost,
       title,
       content,
       excerpt,
-      authorId: existingPost.metadata?.authorId || '',
-      authorName: existingPost.metadata?.authorName || '',
-      projectId: existingPost.metadata?.projectId || '',
-      projectName: existingPost.metadata?.projectName || '',
       tags,
       fundingStatus,
       resourceNeeded,
-      publishedAt: existingPost.metadata?.publishedAt || '',
-      createdAt: existingPost.metadata?.createdAt || '',
       updatedAt: now,
-      readTime,
-      views: parseInt(String(existingPost.metadata?.views || '0'))
-    };
+      readTime
+    });
 
     console.log('✅ Blog post updated successfully');
     return NextResponse.json({ 
@@ -203,31 +142,27 @@ export async function DELETE(
     }
 
     const { id } = await params;
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const blogPosts = StorageService.getInstance().blogPosts;
 
     // First, get the existing post to check ownership
-    const existingResponse = await index.namespace('blog-posts').fetch([id]);
+    const existingPost = await blogPosts.get(id);
 
-    if (!existingResponse.records || !existingResponse.records[id]) {
+    if (!existingPost) {
       return NextResponse.json(
         { success: false, error: 'Blog post not found' },
         { status: 404 }
       );
     }
-
-    const existingPost = existingResponse.records[id];
     
     // Check if user owns the post
-    if (existingPost.metadata?.authorId !== userId) {
+    if (existingPost.authorId !== userId) {
       return NextResponse.json(
         { success: false, error: 'You can only delete your own posts' },
         { status: 403 }
       );
     }
 
-    // Delete blog post from Pinecone
-    await index.namespace('blog-posts').deleteOne(id);
+    await blogPosts.delete(id);
 
     console.log('✅ Blog post deleted successfully');
     return NextResponse.json({ 
@@ -1,47 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
+import { BlogPostRecord, StorageService } from '@/lib/storage';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
     console.log('📝 Fetching all blog posts...');
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Get all blog posts from Pinecone
-    const response = await index.namespace('blog-posts').query({
-      vector: new Array(1024).fill(0.1),
-      topK: 100,
-      includeMetadata: true,
-      filter: {
-        documentType: { $eq: 'blog-post' }
-      }
-    });
-
-    const posts = response.matches?.map(match => ({
-      id: match.id,
-      title: match.metadata?.title || '',
-      content: match.metadata?.content || '',
-      excerpt: match.metadata?.excerpt || '',
-      authorId: match.metadata?.authorId || '',
-      authorName: match.metadata?.authorName || '',
-      projectId: match.metadata?.projectId || '',
-      projectName: match.metadata?.projectName || '',
-      tags: match.metadata?.tags ? JSON.parse(match.metadata.tags as string) : [],
-      fundingStatus: match.metadata?.fundingStatus || 'N/A',
-      resourceNeeded: match.metadata?.resourceNeeded || 'N/A',
-      publishedAt: match.metadata?.publishedAt || '',
-      createdAt: match.metadata?.createdAt || '',
-      updatedAt: match.metadata?.updatedAt || '',
-      readTime: match.metadata?.readTime || 0,
-      views: parseInt(String(match.metadata?.views || '0'))
-    })) || [];
+    const posts = await StorageService.getInstance().blogPosts.list();
     
     console.log(`📝 Found ${posts.length} blog posts`);
     console.log(`📝 Post IDs:`, posts.map(p => p.id));
 
     // Sort by published date (newest first)
-    posts.sort((a, b) => new Date(String(b.publishedAt)).getTime() - new Date(String(a.publishedAt)).getTime());
+    posts.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
 
     return NextResponse.json({
       success: true,
@@ -78,9 +49,6 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Generate post ID
     const postId = `blog-post-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -95,18 +63,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     let projectName = '';
     if (projectId) {
       try {
-        const projectResponse = await index.namespace('projects').query({
-          vector: new Array(1024).fill(0.1),
-          filter: {
-            projectId: { $eq: projectId }
-          },
-          topK: 1,
-          includeMetadata: true
-        });
-        
-        if (projectResponse.matches?.[0]?.metadata?.name) {
-          projectName = String(projectResponse.matches[0].metadata.name);
-        }
+        projectName = (await ProjectService.getInstance().findProject(projectId))?.name || '';
       } catch (error) {
         console.warn('Could not fetch project name:', error);
       }
@@ -137,33 +94,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     const now = new Date().toISOString();
 
-    // Save blog post to Pinecone
-    await index.namespace('blog-posts').upsert([
-      {
-        id: postId,
-        values: new Array(1024).fill(0.1), // Placeholder vector
-        metadata: {
-          title: title.substring(0, 200),
-          content: content.substring(0, 40000), // Pinecone metadata limit
-          excerpt: excerpt.substring(0, 500),
-          authorId: userId,
-          authorName: authorName.substring(0, 100),
-          projectId: projectId || '',
-          projectName: projectName.substring(0, 100),
-          tags: JSON.stringify(tags),
-          fundingStatus: fundingStatus,
-          resourceNeeded: resourceNeeded,
-          publishedAt: now,
-          createdAt: now,
-          updatedAt: now,
-          readTime,
-          views: 0,
-          documentType: 'blog-post'
-        },
-      },
-    ]);
-
-    const newPost = {
+    const newPost: BlogPostRecord = {
       id: postId,
       title,
       content,
@@ -182,6 +113,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       views: 0
     };
 
+    await StorageService.getInstance().blogPosts.put(newPost);
+
     console.log('✅ Blog post created successfully');
     return NextResponse.json({ 
       success: true, 
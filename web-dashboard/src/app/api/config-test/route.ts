@@ -126,13 +126,13 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     if (testResult) {
-      const sourceDescription = config.source === 'user' ? 'personal API key' : 'environment variables';
+      const sourceDescription = config.source === 'user' ? 'personal API key' : config.source === 'global' ? 'global settings' : 'environment variables';
       return NextResponse.json({ 
         success: true, 
         message: `API connection successful using ${sourceDescription} (${config.provider} - ${config.model})` 
       });
     } else {
-      const sourceDescription = config.source === 'user' ? 'personal API key' : 'environment variables';
+      const sourceDescription = config.source === 'user' ? 'personal API key' : config.source === 'global' ? 'global settings' : 'environment variables';
       return NextResponse.json(
         { error: `API connection failed using ${sourceDescription}. ${errorMessage || 'Please check your configuration.'}` },
         { status: 400 }
@@ -1,6 +1,7 @@
 // API endpoints for individual conflict operations
 import { NextRequest, NextResponse } from 'next/server';
-import { globalConflictResolver } from '@/lib/conflictResolution';
+import { globalConflictResolver, MergeMode } from '@/lib/conflictResolution';
+import { ConflictMarkerStyle } from '@/lib/diff3';
 
 // GET /api/conflicts/[id] - Get a specific conflict
 export async function GET(
@@ -29,6 +30,7 @@ export async function GET(
 }
 
 // POST /api/conflicts/[id]/merge - Perform automatic merge for a conflict
+// Optional body: { markers: 'git' | 'diff3' | 'none', mode: 'auto' | 'textual' | 'tasks' }
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -44,14 +46,24 @@ export async function POST(
       );
     }
 
+    const body = await request.json().catch(() => ({}));
+    const markers: ConflictMarkerStyle | undefined = ['git', 'diff3', 'none'].includes(body?.markers)
+      ? body.markers
+      : undefined;
+    const mode: MergeMode | undefined = ['auto', 'textual', 'tasks'].includes(body?.mode)
+      ? body.mode
+      : undefined;
+
     // Perform three-way merge
-    const mergeResult = await globalConflictResolver.performThreeWayMerge(conflict);
+    const mergeResult = await globalConflictResolver.performThreeWayMerge(conflict, { markers, mode });
 
     return NextResponse.json({
       success: mergeResult.success,
       mergedContent: mergeResult.mergedContent,
       conflicts: mergeResult.conflicts,
-      warnings: mergeResult.warnings
+      warnings: mergeResult.warnings,
+      mode: mergeResult.mode,
+      taskConflicts: mergeResult.taskConflicts
     });
   } catch (error) {
     console.error('Failed to perform merge:', error);
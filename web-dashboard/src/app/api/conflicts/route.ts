@@ -1,6 +1,8 @@
 // API endpoints for conflict resolution
 import { NextRequest, NextResponse } from 'next/server';
-import { globalConflictResolver } from '@/lib/conflictResolution';
+import { globalConflictResolver, MergeMode } from '@/lib/conflictResolution';
+
+const MERGE_MODES: string[] = ['auto', 'textual', 'tasks'];
 
 // GET /api/conflicts - Get all active conflicts
 export async function GET() {
@@ -17,13 +19,15 @@ export async function GET() {
 }
 
 // POST /api/conflicts/resolve - Resolve a conflict
+// `mergeMode` ('auto' | 'textual' | 'tasks') selects how the 'merge' resolution combines the files
 export async function POST(request: NextRequest) {
   try {
     const { 
       conflictId, 
       resolution, 
       manualContent, 
-      resolvedBy = 'user' 
+      resolvedBy = 'user',
+      mergeMode = 'auto'
     } = await request.json();
 
     // Validate required fields
@@ -50,11 +54,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!MERGE_MODES.includes(mergeMode)) {
+      return NextResponse.json(
+        { error: 'Invalid merge mode' },
+        { status: 400 }
+      );
+    }
+
     const conflictResolution = await globalConflictResolver.resolveConflict(
       conflictId,
       resolution,
       manualContent,
-      resolvedBy
+      resolvedBy,
+      { mode: mergeMode as MergeMode }
     );
 
     return NextResponse.json({
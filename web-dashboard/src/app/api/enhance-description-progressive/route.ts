@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getGoogleAIConfig } from '@/lib/secureConfig';
+import { llmClient } from '@/lib/llmClient';
 
 interface EnhanceRequest {
   stage: 'comprehensive' | 'optimized' | 'basic' | 'detailed' | 'validation';
@@ -16,36 +16,6 @@ interface EnhanceRequest {
   previousResults?: any; // For sequential stages
 }
 
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-}
-
-async function callGoogleAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 4000,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Google AI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.candidates[0].content.parts[0].text,
-    tokenUsage: data.usageMetadata || {}
-  };
-}
-
 function getExpertRole(industry: string): string {
   const roles: Record<string, string> = {
     'fintech': 'senior fintech product strategist and financial services architect with expertise in payment systems, regulatory compliance, and digital banking',
@@ -487,9 +457,6 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // Define business model inference need at top level
     const needsBusinessModelInference = requestData.projectProfile?.businessModel?.includes('unknown') || false;
 
-    // Get API configuration
-    const apiConfig = getGoogleAIConfig();
-    
     // Generate enhancement prompt
     const prompt = generateEnhancementPrompt(requestData);
     
@@ -504,7 +471,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
     
     // Call AI
-    const aiResponse = await callGoogleAI(apiConfig, prompt);
+    const aiResponse = await llmClient.generate(
+      { prompt, maxTokens: 4000, temperature: 0.3 },
+      { tracking: { projectId: 'project-creation', analysisType: `description-enhancement-${requestData.stage}`, userId } }
+    );
     
     // Debug logging
     console.log('API - AI Response Length:', aiResponse.content.length);
@@ -697,25 +667,6 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }
     }
 
-    // Track token usage
-    try {
-      const { TokenTrackingService } = await import('@/lib/tokenTrackingService');
-      const tokenTrackingService = TokenTrackingService.getInstance();
-      
-      const inputTokens = aiResponse.tokenUsage?.promptTokenCount || 0;
-      const outputTokens = aiResponse.tokenUsage?.candidatesTokenCount || 0;
-      
-      await tokenTrackingService.trackTokenUsage(
-        'project-creation', 
-        inputTokens, 
-        outputTokens, 
-        `description-enhancement-${requestData.stage}`,
-        userId
-      );
-    } catch (error) {
-      console.warn('Failed to track token usage:', error);
-    }
-
     // Ensure business model suggestions are always included when needed
     if (needsBusinessModelInference && !result.businessModelSuggestions) {
       console.log('Final check: Adding business model suggestions to response');
@@ -732,7 +683,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       success: true,
       ...result,
       stage: requestData.stage,
-      tokenUsage: aiResponse.tokenUsage
+      tokenUsage: aiResponse.usage
     });
 
   } catch (error) {
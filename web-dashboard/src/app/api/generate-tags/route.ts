@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { llmClient } from '@/lib/llmClient';
 
 interface TagGenerationRequest {
   content: string;
@@ -7,13 +8,6 @@ interface TagGenerationRequest {
   url?: string;
 }
 
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const { content, title, category, url }: TagGenerationRequest = await request.json();
@@ -57,17 +51,6 @@ export async function POST(request: NextRequest) {
 }
 
 async function generateAITags(content: string, title?: string, category?: string): Promise<string[]> {
-  // Get API configuration from environment or global settings
-  const apiConfig: ApiConfiguration = {
-    provider: 'google', // Default to Google Gemini
-    apiKey: process.env.GOOGLE_AI_API_KEY || '',
-    model: 'gemini-1.5-flash',
-  };
-
-  if (!apiConfig.apiKey) {
-    throw new Error('No AI API key configured');
-  }
-
   // Prepare content for analysis (limit length for API)
   const analysisContent = content.substring(0, 3000);
   
@@ -96,30 +79,11 @@ Tags should be:
 - No duplicates`;
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 500,
-        }
-      })
+    const { content: aiResponse } = await llmClient.generate({
+      prompt,
+      maxTokens: 500,
+      temperature: 0.3
     });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const aiResponse = data.candidates[0]?.content?.parts[0]?.text;
     
     if (!aiResponse) {
       throw new Error('No response from AI');
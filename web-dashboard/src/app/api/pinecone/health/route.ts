@@ -19,6 +19,7 @@ export async function GET(request: NextRequest) {
       healthy: healthResult.healthy,
       latency: healthResult.latency,
       error: healthResult.error,
+      vectorStore: metrics.vectorStore,
       metrics: {
         pinecone: metrics.pinecone,
         embedding: metrics.embedding
@@ -1,24 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { getGoogleAIConfig, getGoogleAIConfigWithFallback, validateSecureConfig, decryptApiKey } from '@/lib/secureConfig';
-import { getApiConfiguration } from '@/lib/apiConfig';
+import { getApiConfiguration, ApiConfiguration } from '@/lib/apiConfig';
 import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
 import { analysisVectorService } from '@/lib/analysisVectorService';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
 import { validateAndTruncateContext } from '@/lib/contextValidation';
-
-const tokenTrackingService = new TokenTrackingService();
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-  source: 'user' | 'environment' | 'none';
-}
+import { llmClient } from '@/lib/llmClient';
+import { createEventStreamResponse, wantsEventStream } from '@/lib/eventStream';
 
 function getGlobalConfigPath(): string {
   return path.join(process.cwd(), '.ai-project', 'global-api-config.json');
@@ -414,7 +405,7 @@ export async function POST(
     }
 
     // Get the API configuration (user personal key > environment variables)
-    let apiConfig: ApiConfiguration | undefined;
+    let apiConfig: ApiConfiguration;
     
     try {
       apiConfig = await getApiConfiguration();
@@ -583,391 +574,298 @@ Be brutally honest and critical - don't sugarcoat anything. Use the analysis res
 Focus on providing actionable social media strategies that align with the project's goals and target audience. Include specific examples of content types, posting strategies, and engagement tactics.`;
     }
 
-    // Call AI service
-    let analysisResult: any;
-    try {
-      if (apiConfig.provider === 'google') {
-        // Validate and truncate context using centralized utility
-        const contextValidation = validateAndTruncateContext(analysisContext, 'google');
-        const truncatedContext = contextValidation.isValid ? analysisContext : contextValidation.truncatedContent!;
-
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: `${prompt}\n\n${truncatedContext}`
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: maxTokens,
-            temperature: 0.3,
+    // Call AI service, forwarding output deltas when the client is streaming
+    const runAnalysis = async (onDelta?: (text: string) => void, signal?: AbortSignal) => {
+      // Validate and truncate context using centralized utility
+      const contextValidation = validateAndTruncateContext(analysisContext, apiConfig.provider);
+      const truncatedContext = contextValidation.isValid ? analysisContext : contextValidation.truncatedContent!;
+
+      console.log(`🤖 Sending request to ${apiConfig.provider} with ${truncatedContext.length} characters of context`);
+
+      const llmRequest = {
+        prompt: `${prompt}\n\n${truncatedContext}`,
+        maxTokens,
+        temperature: 0.3
+      };
+      const llmOptions = {
+        config: apiConfig,
+        tracking: { projectId: id, analysisType: `${analysisType}-analysis`, userId }
+      };
+      const llmResponse = onDelta
+        ? await llmClient.stream(llmRequest, { ...llmOptions, onDelta, signal })
+        : await llmClient.generate(llmRequest, llmOptions);
+      const content = llmResponse.content;
+
+      // Parse the response to extract structured data
+      const sections = content.split(/\*\*\d+\.\s*[^*]*\*\*/);
+      const summary = sections[0]?.trim() || content.substring(0, 200) + '...';
+
+      const insights: any[] = [];
+      const recommendations: any[] = [];
+      const risks: any[] = [];
+      const nextSteps: any[] = [];
+      let marketAnalysis: any = null;
+      let differentiationAnalysis: any = null;
+      let financialProjections: any = null;
+      let businessModelCanvas: any = null;
+
+      // Find all section headers and their content
+      const sectionMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
+
+      if (sectionMatches) {
+        sectionMatches.forEach((match: any) => {
+          const headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
+          if (headerMatch) {
+            const title = headerMatch[1].trim();
+            const content = match.replace(/\*\*\d+\.\s*[^*]*\*\*/, '').trim();
+
+            if (title.toLowerCase().includes('insight')) {
+              insights.push({ title, content });
+            } else if (title.toLowerCase().includes('recommendation') || title.toLowerCase().includes('suggestion')) {
+              recommendations.push({ title, content });
+            } else if (title.toLowerCase().includes('risk')) {
+              risks.push({ title, content });
+            } else if (title.toLowerCase().includes('next step')) {
+              nextSteps.push({ title, content });
+            } else if (title.toLowerCase().includes('market') || title.toLowerCase().includes('market analysis')) {
+              marketAnalysis = { title, content };
+            } else if (title.toLowerCase().includes('differentiation') || title.toLowerCase().includes('competitive')) {
+              differentiationAnalysis = { title, content };
+            } else if (title.toLowerCase().includes('financial') || title.toLowerCase().includes('cost') || title.toLowerCase().includes('revenue')) {
+              financialProjections = { title, content };
+            }
           }
-        };
-
-        console.log(`🤖 Sending request to Gemini API with ${truncatedContext.length} characters of context`);
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
         });
+      }
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
+      // Special handling for BMC analysis
+      if (analysisType === 'bmc') {
+        const bmcSections = {
+          keyPartnerships: '',
+          keyActivities: '',
+          keyResources: '',
+          valueProposition: '',
+          customerRelationships: '',
+          channels: '',
+          customerSegments: '',
+          costStructure: '',
+          revenueStreams: ''
+        };
 
-        const result = await response.json();
-        const content = result.candidates[0].content.parts[0].text;
+        // Extract BMC sections from content - try multiple patterns
+        console.log('🔍 Parsing BMC content...');
+        console.log('📝 Raw content preview:', content.substring(0, 500));
 
-        // Parse the response to extract structured data
-        const sections = content.split(/\*\*\d+\.\s*[^*]*\*\*/);
-        const summary = sections[0]?.trim() || content.substring(0, 200) + '...';
+        // Try different regex patterns for BMC sections
+        let bmcMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
 
-        const insights: any[] = [];
-        const recommendations: any[] = [];
-        const risks: any[] = [];
-        const nextSteps: any[] = [];
-        let marketAnalysis: any = null;
-        let differentiationAnalysis: any = null;
-        let financialProjections: any = null;
-        let businessModelCanvas: any = null;
+        if (!bmcMatches) {
+          // Try alternative pattern without numbered sections
+          bmcMatches = content.match(/\*\*([^*]*)\*\*([\s\S]*?)(?=\*\*[^*]*\*\*|$)/g);
+        }
 
-        // Find all section headers and their content
-        const sectionMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
+        if (bmcMatches) {
+          console.log(`📊 Found ${bmcMatches.length} BMC sections`);
+          bmcMatches.forEach((match: any, index: number) => {
+            // Try both patterns for header extraction
+            let headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
+            if (!headerMatch) {
+              headerMatch = match.match(/\*\*([^*]*)\*\*/);
+            }
 
-        if (sectionMatches) {
-          sectionMatches.forEach((match: any) => {
-            const headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
             if (headerMatch) {
-              const title = headerMatch[1].trim();
-              const content = match.replace(/\*\*\d+\.\s*[^*]*\*\*/, '').trim();
-
-              if (title.toLowerCase().includes('insight')) {
-                insights.push({ title, content });
-              } else if (title.toLowerCase().includes('recommendation') || title.toLowerCase().includes('suggestion')) {
-                recommendations.push({ title, content });
-              } else if (title.toLowerCase().includes('risk')) {
-                risks.push({ title, content });
-              } else if (title.toLowerCase().includes('next step')) {
-                nextSteps.push({ title, content });
-              } else if (title.toLowerCase().includes('market') || title.toLowerCase().includes('market analysis')) {
-                marketAnalysis = { title, content };
-              } else if (title.toLowerCase().includes('differentiation') || title.toLowerCase().includes('competitive')) {
-                differentiationAnalysis = { title, content };
-              } else if (title.toLowerCase().includes('financial') || title.toLowerCase().includes('cost') || title.toLowerCase().includes('revenue')) {
-                financialProjections = { title, content };
+              const title = headerMatch[1].trim().toLowerCase();
+              const sectionContent = match.replace(/\*\*[^*]*\*\*/, '').trim();
+              console.log(`  ${index + 1}. "${title}" -> ${sectionContent.substring(0, 100)}...`);
+
+              if (title.includes('key partnerships') || title.includes('partnerships')) {
+                bmcSections.keyPartnerships = sectionContent;
+              } else if (title.includes('key activities') || title.includes('activities')) {
+                bmcSections.keyActivities = sectionContent;
+              } else if (title.includes('key resources') || title.includes('resources')) {
+                bmcSections.keyResources = sectionContent;
+              } else if (title.includes('value proposition') || title.includes('value')) {
+                bmcSections.valueProposition = sectionContent;
+              } else if (title.includes('customer relationships') || title.includes('relationships')) {
+                bmcSections.customerRelationships = sectionContent;
+              } else if (title.includes('channels')) {
+                bmcSections.channels = sectionContent;
+              } else if (title.includes('customer segments') || title.includes('segments')) {
+                bmcSections.customerSegments = sectionContent;
+              } else if (title.includes('cost structure') || title.includes('costs')) {
+                bmcSections.costStructure = sectionContent;
+              } else if (title.includes('revenue streams') || title.includes('revenue')) {
+                bmcSections.revenueStreams = sectionContent;
+              }
+            }
+          });
+        } else {
+          console.warn('⚠️ No BMC sections found in content, trying fallback parsing...');
+          // Fallback: try to extract content by looking for common BMC keywords
+          const fallbackSections = [
+            { key: 'keyPartnerships', patterns: ['key partnerships', 'partnerships'] },
+            { key: 'keyActivities', patterns: ['key activities', 'activities'] },
+            { key: 'keyResources', patterns: ['key resources', 'resources'] },
+            { key: 'valueProposition', patterns: ['value proposition', 'value'] },
+            { key: 'customerRelationships', patterns: ['customer relationships', 'relationships'] },
+            { key: 'channels', patterns: ['channels'] },
+            { key: 'customerSegments', patterns: ['customer segments', 'segments'] },
+            { key: 'costStructure', patterns: ['cost structure', 'costs'] },
+            { key: 'revenueStreams', patterns: ['revenue streams', 'revenue'] }
+          ];
+
+          fallbackSections.forEach(section => {
+            for (const pattern of section.patterns) {
+              const regex = new RegExp(`${pattern}[:\\s]*([\\s\\S]*?)(?=(?:key partnerships|key activities|key resources|value proposition|customer relationships|channels|customer segments|cost structure|revenue streams)|$)`, 'i');
+              const match = content.match(regex);
+              if (match && match[1]) {
+                bmcSections[section.key as keyof typeof bmcSections] = match[1].trim();
+                console.log(`✅ Found ${pattern}: ${match[1].substring(0, 50)}...`);
+                break;
               }
             }
           });
         }
 
-        // Special handling for BMC analysis
-        if (analysisType === 'bmc') {
-          const bmcSections = {
-            keyPartnerships: '',
-            keyActivities: '',
-            keyResources: '',
-            valueProposition: '',
-            customerRelationships: '',
-            channels: '',
-            customerSegments: '',
-            costStructure: '',
-            revenueStreams: ''
-          };
-
-          // Extract BMC sections from content - try multiple patterns
-          console.log('🔍 Parsing BMC content...');
-          console.log('📝 Raw content preview:', content.substring(0, 500));
-
-          // Try different regex patterns for BMC sections
-          let bmcMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
-
-          if (!bmcMatches) {
-            // Try alternative pattern without numbered sections
-            bmcMatches = content.match(/\*\*([^*]*)\*\*([\s\S]*?)(?=\*\*[^*]*\*\*|$)/g);
-          }
+        console.log('📊 Final BMC sections:', Object.keys(bmcSections).map(key => `${key}: ${bmcSections[key as keyof typeof bmcSections] ? 'Yes' : 'No'}`));
+        businessModelCanvas = bmcSections;
+      }
 
-          if (bmcMatches) {
-            console.log(`📊 Found ${bmcMatches.length} BMC sections`);
-            bmcMatches.forEach((match: any, index: number) => {
-              // Try both patterns for header extraction
-              let headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
-              if (!headerMatch) {
-                headerMatch = match.match(/\*\*([^*]*)\*\*/);
-              }
 
-              if (headerMatch) {
-                const title = headerMatch[1].trim().toLowerCase();
-                const sectionContent = match.replace(/\*\*[^*]*\*\*/, '').trim();
-                console.log(`  ${index + 1}. "${title}" -> ${sectionContent.substring(0, 100)}...`);
-
-                if (title.includes('key partnerships') || title.includes('partnerships')) {
-                  bmcSections.keyPartnerships = sectionContent;
-                } else if (title.includes('key activities') || title.includes('activities')) {
-                  bmcSections.keyActivities = sectionContent;
-                } else if (title.includes('key resources') || title.includes('resources')) {
-                  bmcSections.keyResources = sectionContent;
-                } else if (title.includes('value proposition') || title.includes('value')) {
-                  bmcSections.valueProposition = sectionContent;
-                } else if (title.includes('customer relationships') || title.includes('relationships')) {
-                  bmcSections.customerRelationships = sectionContent;
-                } else if (title.includes('channels')) {
-                  bmcSections.channels = sectionContent;
-                } else if (title.includes('customer segments') || title.includes('segments')) {
-                  bmcSections.customerSegments = sectionContent;
-                } else if (title.includes('cost structure') || title.includes('costs')) {
-                  bmcSections.costStructure = sectionContent;
-                } else if (title.includes('revenue streams') || title.includes('revenue')) {
-                  bmcSections.revenueStreams = sectionContent;
-                }
-              }
-            });
-          } else {
-            console.warn('⚠️ No BMC sections found in content, trying fallback parsing...');
-            // Fallback: try to extract content by looking for common BMC keywords
-            const fallbackSections = [
-              { key: 'keyPartnerships', patterns: ['key partnerships', 'partnerships'] },
-              { key: 'keyActivities', patterns: ['key activities', 'activities'] },
-              { key: 'keyResources', patterns: ['key resources', 'resources'] },
-              { key: 'valueProposition', patterns: ['value proposition', 'value'] },
-              { key: 'customerRelationships', patterns: ['customer relationships', 'relationships'] },
-              { key: 'channels', patterns: ['channels'] },
-              { key: 'customerSegments', patterns: ['customer segments', 'segments'] },
-              { key: 'costStructure', patterns: ['cost structure', 'costs'] },
-              { key: 'revenueStreams', patterns: ['revenue streams', 'revenue'] }
-            ];
-
-            fallbackSections.forEach(section => {
-              for (const pattern of section.patterns) {
-                const regex = new RegExp(`${pattern}[:\\s]*([\\s\\S]*?)(?=(?:key partnerships|key activities|key resources|value proposition|customer relationships|channels|customer segments|cost structure|revenue streams)|$)`, 'i');
-                const match = content.match(regex);
-                if (match && match[1]) {
-                  bmcSections[section.key as keyof typeof bmcSections] = match[1].trim();
-                  console.log(`✅ Found ${pattern}: ${match[1].substring(0, 50)}...`);
-                  break;
-                }
-              }
-            });
-          }
 
-          console.log('📊 Final BMC sections:', Object.keys(bmcSections).map(key => `${key}: ${bmcSections[key as keyof typeof bmcSections] ? 'Yes' : 'No'}`));
-          businessModelCanvas = bmcSections;
+      const { inputTokens, outputTokens } = llmResponse.usage;
+
+      const analysisResult: Record<string, unknown> = {
+        summary,
+        insights: insights.length > 0 ? insights : [{ title: 'Key Insights', content: 'Analysis completed successfully' }],
+        recommendations: recommendations.length > 0 ? recommendations : [{ title: 'Recommendations', content: 'Consider the insights provided above' }],
+        risks: risks.length > 0 ? risks : [],
+        nextSteps: nextSteps.length > 0 ? nextSteps : [],
+        marketAnalysis,
+        differentiationAnalysis,
+        financialProjections,
+        businessModelCanvas,
+        rawContent: content,
+        timestamp: new Date().toISOString(),
+        tokenUsage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+          cost: (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375
         }
-
-
-
-        // Calculate token usage
-        const inputTokens = Math.ceil((analysisContext.length + prompt.length) / 4); // Rough estimation: 1 token ≈ 4 characters
-        const outputTokens = Math.ceil(content.length / 4);
-
-        // Track token usage
-        await tokenTrackingService.trackTokenUsage(id, inputTokens, outputTokens, `${analysisType}-analysis`, userId);
-
-        analysisResult = {
-          summary,
-          insights: insights.length > 0 ? insights : [{ title: 'Key Insights', content: 'Analysis completed successfully' }],
-          recommendations: recommendations.length > 0 ? recommendations : [{ title: 'Recommendations', content: 'Consider the insights provided above' }],
-          risks: risks.length > 0 ? risks : [],
-          nextSteps: nextSteps.length > 0 ? nextSteps : [],
-          marketAnalysis,
-          differentiationAnalysis,
-          financialProjections,
-          businessModelCanvas,
-          rawContent: content,
-          timestamp: new Date().toISOString(),
-          tokenUsage: {
-            inputTokens,
-            outputTokens,
-            totalTokens: inputTokens + outputTokens,
-            cost: (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375
-          }
+      };
+
+      // Special handling for Roast analysis
+      if (analysisType === 'roast') {
+        console.log('🔥 Parsing roast analysis content...');
+        console.log('📝 Raw content preview:', content.substring(0, 500));
+
+        const roastSections = {
+          summary: '',
+          brutallyCritical: [] as string[],
+          realityCheck: [] as string[],
+          improvements: [] as string[],
+          marketReality: [] as string[],
+          honestAdvice: [] as string[]
         };
 
-        // Special handling for Roast analysis
-        if (analysisType === 'roast') {
-          console.log('🔥 Parsing roast analysis content...');
-          console.log('📝 Raw content preview:', content.substring(0, 500));
-
-          const roastSections = {
-            summary: '',
-            brutallyCritical: [] as string[],
-            realityCheck: [] as string[],
-            improvements: [] as string[],
-            marketReality: [] as string[],
-            honestAdvice: [] as string[]
-          };
-
-          // Extract roast sections from content
-          let roastMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
-
-          if (!roastMatches) {
-            // Try alternative pattern without numbered sections
-            roastMatches = content.match(/\*\*([^*]*)\*\*([\s\S]*?)(?=\*\*[^*]*\*\*|$)/g);
-          }
+        // Extract roast sections from content
+        let roastMatches = content.match(/\*\*\d+\.\s*([^*]*)\*\*([\s\S]*?)(?=\*\*\d+\.|$)/g);
 
-          if (roastMatches) {
-            console.log(`🔥 Found ${roastMatches.length} roast sections`);
-            roastMatches.forEach((match: any, index: number) => {
-              // Try both patterns for header extraction
-              let headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
-              if (!headerMatch) {
-                headerMatch = match.match(/\*\*([^*]*)\*\*/);
-              }
+        if (!roastMatches) {
+          // Try alternative pattern without numbered sections
+          roastMatches = content.match(/\*\*([^*]*)\*\*([\s\S]*?)(?=\*\*[^*]*\*\*|$)/g);
+        }
 
-              if (headerMatch) {
-                const title = headerMatch[1].trim().toLowerCase();
-                const sectionContent = match.replace(/\*\*[^*]*\*\*/, '').trim();
-                console.log(`  ${index + 1}. "${title}" -> ${sectionContent.substring(0, 100)}...`);
+        if (roastMatches) {
+          console.log(`🔥 Found ${roastMatches.length} roast sections`);
+          roastMatches.forEach((match: any, index: number) => {
+            // Try both patterns for header extraction
+            let headerMatch = match.match(/\*\*\d+\.\s*([^*]*)\*\*/);
+            if (!headerMatch) {
+              headerMatch = match.match(/\*\*([^*]*)\*\*/);
+            }
 
-                // Split content into bullet points or lines
-                const items = sectionContent.split(/\n\s*[-•*]\s*/).filter((item: string) => item.trim().length > 0);
-                
-                if (title.includes('brutal critique') || title.includes('criticism')) {
-                  roastSections.brutallyCritical = items.length > 0 ? items : [sectionContent];
-                } else if (title.includes('reality check')) {
-                  roastSections.realityCheck = items.length > 0 ? items : [sectionContent];
-                } else if (title.includes('improvements') || title.includes('improvement')) {
-                  roastSections.improvements = items.length > 0 ? items : [sectionContent];
-                } else if (title.includes('market reality')) {
-                  roastSections.marketReality = items.length > 0 ? items : [sectionContent];
-                } else if (title.includes('honest advice')) {
-                  roastSections.honestAdvice = items.length > 0 ? items : [sectionContent];
+            if (headerMatch) {
+              const title = headerMatch[1].trim().toLowerCase();
+              const sectionContent = match.replace(/\*\*[^*]*\*\*/, '').trim();
+              console.log(`  ${index + 1}. "${title}" -> ${sectionContent.substring(0, 100)}...`);
+
+              // Split content into bullet points or lines
+              const items = sectionContent.split(/\n\s*[-•*]\s*/).filter((item: string) => item.trim().length > 0);
+              
+              if (title.includes('brutal critique') || title.includes('criticism')) {
+                roastSections.brutallyCritical = items.length > 0 ? items : [sectionContent];
+              } else if (title.includes('reality check')) {
+                roastSections.realityCheck = items.length > 0 ? items : [sectionContent];
+              } else if (title.includes('improvements') || title.includes('improvement')) {
+                roastSections.improvements = items.length > 0 ? items : [sectionContent];
+              } else if (title.includes('market reality')) {
+                roastSections.marketReality = items.length > 0 ? items : [sectionContent];
+              } else if (title.includes('honest advice')) {
+                roastSections.honestAdvice = items.length > 0 ? items : [sectionContent];
+              } else {
+                // If no specific section matches, add to summary or brutallyCritical
+                if (roastSections.summary === '') {
+                  roastSections.summary = sectionContent;
                 } else {
-                  // If no specific section matches, add to summary or brutallyCritical
-                  if (roastSections.summary === '') {
-                    roastSections.summary = sectionContent;
-                  } else {
-                    roastSections.brutallyCritical.push(sectionContent);
-                  }
+                  roastSections.brutallyCritical.push(sectionContent);
                 }
               }
-            });
-          } else {
-            console.warn('⚠️ No roast sections found in content, using fallback parsing...');
-            // Fallback: split content into sections based on common patterns
-            const lines = content.split('\n').filter((line: string) => line.trim().length > 0);
-            roastSections.summary = lines[0] || 'Brutal analysis completed';
-            roastSections.brutallyCritical = lines.slice(1, 4).filter((line: string) => line.trim().length > 0);
-          }
-
-          console.log('🔥 Final roast sections:', {
-            summary: roastSections.summary ? 'Yes' : 'No',
-            brutallyCritical: roastSections.brutallyCritical.length,
-            realityCheck: roastSections.realityCheck.length,
-            improvements: roastSections.improvements.length,
-            marketReality: roastSections.marketReality.length,
-            honestAdvice: roastSections.honestAdvice.length
-          });
-
-          // Add roastIdea to the analysis result
-          analysisResult.roastIdea = roastSections;
-        }
-
-        // Save the analysis result to the analyses API for future reference
-        try {
-          await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/projects/${id}/analyses`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              analysisType,
-              analysisData: analysisResult
-            }),
+            }
           });
-          console.log(`💾 ${analysisType} analysis saved to analyses API`);
-        } catch (error) {
-          console.warn(`⚠️ Failed to save ${analysisType} analysis to analyses API:`, error);
+        } else {
+          console.warn('⚠️ No roast sections found in content, using fallback parsing...');
+          // Fallback: split content into sections based on common patterns
+          const lines = content.split('\n').filter((line: string) => line.trim().length > 0);
+          roastSections.summary = lines[0] || 'Brutal analysis completed';
+          roastSections.brutallyCritical = lines.slice(1, 4).filter((line: string) => line.trim().length > 0);
         }
 
-      } else if (apiConfig.provider === 'openai') {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiConfig.apiKey}`
-          },
-          body: JSON.stringify({
-            model: apiConfig.model,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert project analyst providing detailed technical analysis.'
-              },
-              {
-                role: 'user',
-                content: `${prompt}\n\n${analysisContext}`
-              }
-            ],
-            max_tokens: maxTokens,
-            temperature: 0.3
-          })
+        console.log('🔥 Final roast sections:', {
+          summary: roastSections.summary ? 'Yes' : 'No',
+          brutallyCritical: roastSections.brutallyCritical.length,
+          realityCheck: roastSections.realityCheck.length,
+          improvements: roastSections.improvements.length,
+          marketReality: roastSections.marketReality.length,
+          honestAdvice: roastSections.honestAdvice.length
         });
 
-        if (!response.ok) {
-          throw new Error(`OpenAI API error: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const content = result.choices[0].message.content;
-
-        analysisResult = {
-          summary: content.substring(0, 200) + '...',
-          insights: [{ title: 'Technical Analysis', content }],
-          recommendations: [{ title: 'Technical Recommendations', content: 'Review the technical analysis above for specific recommendations.' }],
-          rawContent: content,
-          timestamp: new Date().toISOString()
-        };
+        // Add roastIdea to the analysis result
+        analysisResult.roastIdea = roastSections;
+      }
 
-      } else if (apiConfig.provider === 'anthropic') {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
+      // Save the analysis result to the analyses API for future reference
+      try {
+        await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/projects/${id}/analyses`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'x-api-key': apiConfig.apiKey,
-            'anthropic-version': '2023-06-01'
           },
           body: JSON.stringify({
-            model: apiConfig.model,
-            max_tokens: maxTokens,
-            messages: [
-              {
-                role: 'user',
-                content: `${prompt}\n\n${analysisContext}`
-              }
-            ]
-          })
+            analysisType,
+            analysisData: analysisResult
+          }),
         });
-
-        if (!response.ok) {
-          throw new Error(`Anthropic API error: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const content = result.content[0].text;
-
-        analysisResult = {
-          summary: content.substring(0, 200) + '...',
-          insights: [{ title: 'Business Analysis', content }],
-          recommendations: [{ title: 'Business Recommendations', content: 'Review the business analysis above for strategic recommendations.' }],
-          rawContent: content,
-          timestamp: new Date().toISOString()
-        };
-
-        // Track token usage with proper estimation
-        const inputTokens = Math.ceil((analysisContext.length + prompt.length) / 4); // Rough estimation: 1 token ≈ 4 characters
-        const outputTokens = Math.ceil(content.length / 4);
-        await tokenTrackingService.trackTokenUsage(id, inputTokens, outputTokens, `${analysisType}-analysis`);
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
+        console.log(`💾 ${analysisType} analysis saved to analyses API`);
+      } catch (error) {
+        console.warn(`⚠️ Failed to save ${analysisType} analysis to analyses API:`, error);
       }
 
       console.log('✅ Analysis completed successfully');
-      return NextResponse.json(analysisResult);
+      return analysisResult;
+    };
 
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(request, async (send, signal) => {
+        const analysisResult = await runAnalysis(text => send('delta', { text }), signal);
+        send('done', analysisResult);
+      });
+    }
+
+    try {
+      const analysisResult = await runAnalysis();
+      return NextResponse.json(analysisResult);
     } catch (error) {
       console.error('❌ AI analysis failed:', error);
       return NextResponse.json(
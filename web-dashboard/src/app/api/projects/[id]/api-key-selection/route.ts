@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 interface ApiKeySelection {
   usePersonalApiKey: boolean;
@@ -24,33 +24,18 @@ export async function GET(
     const { id: projectId } = await params;
     
     try {
-      // Get user's API configuration from Pinecone
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(process.env.PINECONE_INDEX_NAME!);
-      
-      // Query user's API configuration
-      const queryResponse = await index.namespace('user-api-configs').fetch([`user-config-${userId}`]);
-      const matches = queryResponse as unknown as { 
-        [key: string]: { 
-          metadata: { 
-            provider: string;
-            model: string;
-            encryptedApiKey: string;
-          } 
-        } 
-      };
-      
-      const userConfig = matches[`user-config-${userId}`];
+      // Get user's API configuration
+      const userConfig = await StorageService.getInstance().userApiConfigs.get(`user-config-${userId}`);
       
       // If user has configured their API key, use it
-      const hasPersonalApiKey = userConfig?.metadata?.encryptedApiKey ? true : false;
+      const hasPersonalApiKey = userConfig?.encryptedApiKey ? true : false;
 
       return NextResponse.json({
         usePersonalApiKey: hasPersonalApiKey,
         lastUpdated: new Date().toISOString()
       });
     } catch (error) {
-      console.error('Failed to get API key selection from Pinecone:', error);
+      console.error('Failed to get API key selection:', error);
       // Default to app API key on error
       return NextResponse.json({
         usePersonalApiKey: false,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
 
 export async function PATCH(
   request: NextRequest,
@@ -28,27 +29,11 @@ export async function PATCH(
     }
 
     // Check if user owns the project
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-    
-    const projectQuery = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    if (projectQuery.matches.length === 0) {
+    const project = await ProjectService.getInstance().findProject(projectId);
+    if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
-
-    const projectMetadata = projectQuery.matches[0].metadata;
-    if (!projectMetadata) {
-      return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
-    }
-    const projectOwnerId = projectMetadata.userId;
+    const projectOwnerId = project.userId;
     const isOwner = projectOwnerId === userId;
 
     // Only project owners can update application status
@@ -56,6 +41,9 @@ export async function PATCH(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    const pinecone = getPineconeClient();
+    const index = pinecone.index(PINECONE_INDEX_NAME);
+
     // Check if application exists and belongs to this project
     const applicationQuery = await index.namespace('project-applications').query({
       vector: new Array(1024).fill(0.1),
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
 import { v4 as uuidv4 } from 'uuid';
 
 export async function GET(
@@ -17,27 +18,14 @@ export async function GET(
     const { id: projectId } = await params;
 
     // Check if user owns the project
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-    
-    const projectQuery = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    if (projectQuery.matches.length === 0) {
+    const project = await ProjectService.getInstance().findProject(projectId);
+    if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
+    const projectOwnerId = project.userId;
 
-    const projectMetadata = projectQuery.matches[0].metadata;
-    if (!projectMetadata) {
-      return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
-    }
-    const projectOwnerId = projectMetadata.userId;
+    const pinecone = getPineconeClient();
+    const index = pinecone.index(PINECONE_INDEX_NAME);
     const isOwner = projectOwnerId === userId;
 
     // Only project owners can view applications
@@ -131,26 +119,13 @@ export async function POST(
     }
 
     // Check if project exists
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-    
-    const projectQuery = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    if (projectQuery.matches.length === 0) {
+    const project = await ProjectService.getInstance().findProject(projectId);
+    if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    const projectMetadata = projectQuery.matches[0].metadata;
-    if (!projectMetadata) {
-      return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
-    }
+    const pinecone = getPineconeClient();
+    const index = pinecone.index(PINECONE_INDEX_NAME);
     
     const applicationId = uuidv4();
     const now = new Date().toISOString();
@@ -167,7 +142,7 @@ export async function POST(
         metadata: {
           applicationId,
           projectId,
-          projectName: projectMetadata.name,
+          projectName: project.name,
           requirementType,
           name,
           email,
@@ -3,184 +3,7 @@ import { auth } from '@clerk/nextjs/server';
 import { ProjectService } from '@/lib/projectService';
 import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
 import { getPineconeClient } from '@/lib/pinecone';
-
-interface ApiConfiguration {
-  provider: 'openai' | 'anthropic' | 'google' | 'custom';
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-  customHeaders?: Record<string, string>;
-}
-
-async function callGoogleAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  console.log('Making Google AI API call with model:', config.model);
-  
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 4000,
-      },
-    }),
-  });
-
-  console.log('Google AI API response status:', response.status);
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('Google AI API error response:', errorData);
-    throw new Error(`Google AI API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  console.log('Google AI API response data keys:', Object.keys(data));
-  
-  if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts && data.candidates[0].content.parts[0]) {
-    const content = data.candidates[0].content.parts[0].text;
-    console.log('Generated content length:', content.length);
-    return {
-      content: content,
-      tokenUsage: data.usageMetadata || { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 }
-    };
-  } else {
-    console.error('Invalid response structure from Google AI API:', data);
-    throw new Error('Invalid response structure from Google AI API');
-  }
-}
-
-async function callOpenAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.3,
-      max_tokens: 4000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    tokenUsage: data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
-  };
-}
-
-async function callAnthropic(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: config.model,
-      max_tokens: 4000,
-      temperature: 0.3,
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.content[0].text,
-    tokenUsage: data.usage || { input_tokens: 0, output_tokens: 0 }
-  };
-}
-
-async function callCustomProvider(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${config.apiKey}`,
-    ...config.customHeaders,
-  };
-
-  const response = await fetch(config.baseUrl || '', {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.3,
-      max_tokens: 4000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Custom provider API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices?.[0]?.message?.content || data.content || 'No response generated',
-    tokenUsage: data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
-  };
-}
-
-async function trackTokenUsage(projectId: string, tokenUsage: any, operation: string = 'improve_document') {
-  try {
-    const { userId } = await auth();
-    const { TokenTrackingService } = await import('@/lib/tokenTrackingService');
-    const tokenTrackingService = TokenTrackingService.getInstance();
-    
-    // Normalize token usage format for different providers
-    let inputTokens = 0;
-    let outputTokens = 0;
-    
-    if (tokenUsage.promptTokenCount !== undefined) {
-      // Google AI format
-      inputTokens = tokenUsage.promptTokenCount || 0;
-      outputTokens = tokenUsage.candidatesTokenCount || 0;
-    } else if (tokenUsage.input_tokens !== undefined) {
-      // Anthropic format
-      inputTokens = tokenUsage.input_tokens || 0;
-      outputTokens = tokenUsage.output_tokens || 0;
-    } else {
-      // OpenAI/Custom format
-      inputTokens = tokenUsage.prompt_tokens || 0;
-      outputTokens = tokenUsage.completion_tokens || 0;
-    }
-
-    await tokenTrackingService.trackTokenUsage(projectId, inputTokens, outputTokens, operation, userId || undefined);
-  } catch (error) {
-    console.error('Failed to track token usage:', error);
-  }
-}
+import { llmClient, LlmConfigurationError } from '@/lib/llmClient';
 
 async function gatherProjectContextFromPinecone(projectId: string) {
   const context = {
@@ -366,64 +189,34 @@ export async function POST(
       content: content
     };
 
-    // Load API configuration from user's settings
     try {
-      const configResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/user-api-config`, {
-        headers: {
-          'Authorization': request.headers.get('Authorization') || '',
-          'Cookie': request.headers.get('Cookie') || ''
-        }
-      });
-
-      if (!configResponse.ok) {
-        return NextResponse.json(
-          { error: 'API configuration not found. Please configure an AI provider first.' },
-          { status: 400 }
-        );
-      }
-
-      const apiConfig: ApiConfiguration = await configResponse.json();
-
       // Gather project context from Pinecone
       const projectContext = await gatherProjectContextFromPinecone(projectId);
       
       // Generate improvement prompt with context
       const prompt = generateImprovementPrompt(documentMetadata, project, projectContext);
       
-      // Call the appropriate AI provider
-      let aiResponse: { content: string; tokenUsage: any };
-      switch (apiConfig.provider) {
-        case 'openai':
-          aiResponse = await callOpenAI(apiConfig, prompt);
-          break;
-        case 'anthropic':
-          aiResponse = await callAnthropic(apiConfig, prompt);
-          break;
-        case 'google':
-          aiResponse = await callGoogleAI(apiConfig, prompt);
-          break;
-        case 'custom':
-          aiResponse = await callCustomProvider(apiConfig, prompt);
-          break;
-        default:
-          return NextResponse.json(
-            { error: 'Unsupported AI provider' },
-            { status: 400 }
-          );
-      }
-
-      // Track token usage
-      await trackTokenUsage(projectId, aiResponse.tokenUsage, 'improve_document');
+      // Call the user's configured AI provider
+      const aiResponse = await llmClient.generate(
+        { prompt, maxTokens: 4000, temperature: 0.3 },
+        { tracking: { projectId, analysisType: 'improve_document', userId } }
+      );
       
       return NextResponse.json({
         success: true,
         improvedContent: aiResponse.content,
-        tokenUsage: aiResponse.tokenUsage,
+        tokenUsage: aiResponse.usage,
         message: 'Document improved successfully using project context from Pinecone'
       });
 
     } catch (error) {
       console.error('Error with API configuration or AI call:', error);
+      if (error instanceof LlmConfigurationError) {
+        return NextResponse.json(
+          { error: 'API configuration not found. Please configure an AI provider first.' },
+          { status: 400 }
+        );
+      }
       return NextResponse.json(
         { error: 'Failed to load API configuration or call AI provider' },
         { status: 500 }
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
 import { ProjectService } from '@/lib/projectService';
 import { getPineconeClient } from '@/lib/pinecone';
 import { PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
 import { createVectorId } from '@/lib/projectService';
+import { DocumentHistoryService, DocumentVersionSource } from '@/lib/documentHistory';
+import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
+
+// Sources a client may attribute a save to; AI generation is only recorded server-side
+const CLIENT_SAVE_SOURCES: DocumentVersionSource[] = ['dashboard', 'vscode', 'restore'];
 
 // Helper function to parse tasks from markdown content
 function parseTasksFromMarkdown(content: string): { totalTasks: number; completedTasks: number; percentage: number } {
@@ -131,7 +136,7 @@ export async function PUT(
     }
 
     const { id: projectId, type } = await params;
-    const { content, lastKnownTimestamp } = await request.json();
+    const { content, lastKnownTimestamp, source = 'dashboard', message } = await request.json();
 
     // Validate document type
     if (!['requirements', 'design', 'tasks'].includes(type)) {
@@ -149,6 +154,13 @@ export async function PUT(
       );
     }
 
+    if (!CLIENT_SAVE_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: 'Invalid save source' },
+        { status: 400 }
+      );
+    }
+
     // Get project from Pinecone and verify ownership
     const projectService = ProjectService.getInstance();
     
@@ -205,6 +217,30 @@ export async function PUT(
       }, { status: 409 }); // HTTP 409 Conflict
     }
 
+    // Every successful save becomes a version in the document's history
+    const previousContent = getCurrentContent(project, type);
+    const recordHistory = async () => {
+      const user = await currentUser();
+      await DocumentHistoryService.getInstance().recordSnapshot({
+        projectId,
+        document: type,
+        content,
+        author: userId,
+        authorName: user?.fullName || user?.emailAddresses[0]?.emailAddress,
+        source,
+        message: typeof message === 'string' ? message : undefined,
+        previousContent: previousContent.startsWith('[CHUNKED:') ? undefined : previousContent
+      });
+    };
+
+    // Keeps search up to date; only the chunks this save changed are re-embedded
+    const embedDocument = async () => {
+      const result = await PineconeSyncServiceInstance.embedSingleMainDocument(projectId, type, content);
+      if (!result.success) {
+        console.warn(`⚠️ ${result.message}`);
+      }
+    };
+
     // No conflict - update the project in Pinecone
     const updateData: any = {
       lastModified: new Date().toISOString()
@@ -355,6 +391,8 @@ export async function PUT(
            const success = await projectService.updateProject(userId, projectId, minimalUpdate);
            if (success) {
              console.log('✅ Document saved successfully (minimal update)');
+             await recordHistory();
+             await embedDocument();
              
              // If this was a tasks document, try to update progress separately
              if (type === 'tasks') {
@@ -394,6 +432,9 @@ export async function PUT(
       );
     }
 
+    await recordHistory();
+    await embedDocument();
+
     return NextResponse.json({ 
       success: true, 
       savedAt: new Date().toISOString(),
@@ -27,22 +27,8 @@ export async function GET(
       // Try to get project data from ProjectService first
       const projectService = ProjectService.getInstance();
       
-      // We need to get the userId - let's try to find it from the project metadata
-      const projectQuery = await pineconeOperationsService.query(
-        new Array(1024).fill(0),
-        {
-          filter: { projectId: projectId },
-          topK: 1,
-          includeMetadata: true,
-          namespace: 'projects'
-        }
-      );
-
-      let userId: string | null = null;
-      if (projectQuery.matches && projectQuery.matches.length > 0) {
-        const metadata = projectQuery.matches[0].metadata;
-        userId = typeof metadata?.userId === 'string' ? metadata.userId : null;
-      }
+      // We need the owner's userId to load the project
+      const userId = (await projectService.findProject(projectId))?.userId || null;
 
       if (!userId) {
         console.log('❌ No project found in Pinecone, returning empty embeddings');
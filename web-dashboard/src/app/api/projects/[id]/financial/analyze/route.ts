@@ -3,6 +3,8 @@ import { auth } from '@clerk/nextjs/server';
 import { analysisVectorService } from '@/lib/analysisVectorService';
 import { getApiConfiguration } from '@/lib/apiConfig';
 import { validateSecureConfig } from '@/lib/secureConfig';
+import { validateAndTruncateContext } from '@/lib/contextValidation';
+import { llmClient } from '@/lib/llmClient';
 
 export async function POST(
   request: NextRequest,
@@ -148,49 +150,18 @@ Please provide specific numbers, calculations, and actionable insights based on
     // Call AI service directly
     let analysisContent = '';
     try {
-      if (apiConfig.provider === 'google') {
-        // Check if context is too long for Gemini (limit is ~30k characters)
-        const maxContextLength = 25000;
-        let truncatedContext = `${analysisPrompt}\n\n${context}${contextSection}`;
-        if (truncatedContext.length > maxContextLength) {
-          console.warn(`⚠️ Context too long (${truncatedContext.length} chars), truncating to ${maxContextLength} chars`);
-          truncatedContext = truncatedContext.substring(0, maxContextLength) + '\n\n[Content truncated due to length limits]';
-        }
-
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: truncatedContext
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 8000,
-            temperature: 0.3,
-          }
-        };
-
-        console.log(`🤖 Sending request to Gemini API with ${truncatedContext.length} characters of context`);
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        analysisContent = result.candidates[0].content.parts[0].text;
-        console.log('✅ Gemini API response received, length:', analysisContent.length);
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
-      }
+      const fullPrompt = `${analysisPrompt}\n\n${context}${contextSection}`;
+      const contextValidation = validateAndTruncateContext(fullPrompt, apiConfig.provider);
+      const truncatedContext = contextValidation.isValid ? fullPrompt : contextValidation.truncatedContent!;
+
+      console.log(`🤖 Sending request to ${apiConfig.provider} with ${truncatedContext.length} characters of context`);
+
+      const llmResponse = await llmClient.generate(
+        { prompt: truncatedContext, maxTokens: 8000, temperature: 0.3 },
+        { config: apiConfig, tracking: { projectId, analysisType: 'financial-analysis', userId } }
+      );
+      analysisContent = llmResponse.content;
+      console.log('✅ AI response received, length:', analysisContent.length);
     } catch (error) {
       console.error('❌ AI analysis failed:', error);
       throw new Error(`AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
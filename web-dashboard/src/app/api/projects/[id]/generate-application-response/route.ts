@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getGoogleAIConfig } from '@/lib/secureConfig';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
 import { getPineconeClient, PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
 import { createVectorId } from '@/lib/projectService';
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
+import { StorageService } from '@/lib/storage';
+import type { Application } from '@/types/applications';
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
 
 interface ApplicationResponseRequest {
   question: string;
@@ -83,7 +78,7 @@ export async function POST(
     let progress: any = null;
     let config: any = null;
     let analysisResults: Record<string, any> = {};
-    let applicationData: any = null;
+    let applicationData: Application | null = null;
 
     try {
       // Get project data from Pinecone
@@ -144,12 +139,11 @@ export async function POST(
       // Load application data if applicationId is provided
       if (applicationId) {
         try {
-          const appFetchResponse = await index.namespace('applications').fetch([`application-${applicationId}`]);
-          const appRecord = appFetchResponse.records?.[`application-${applicationId}`];
+          const application = await StorageService.getInstance().applications.get(applicationId);
 
-          if (appRecord?.metadata && appRecord.metadata.userId === userId) {
-            applicationData = JSON.parse(appRecord.metadata.applicationData as string);
-            console.log(`📋 Loaded application data: ${applicationData.name}`);
+          if (application && application.userId === userId) {
+            applicationData = application;
+            console.log(`📋 Loaded application data: ${application.name}`);
           }
         } catch (error) {
           console.warn('⚠️ Failed to load application data:', error);
@@ -170,14 +164,13 @@ export async function POST(
       );
     }
 
-    // Get AI configuration
+    // Resolve the AI configuration (personal key > environment > global settings)
     let apiConfig: ApiConfiguration;
     try {
-      apiConfig = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
+      apiConfig = await llmClient.resolveConfiguration();
     } catch (error) {
       return NextResponse.json(
-        { error: 'No AI configuration found. Please configure an AI provider.' },
+        { error: error instanceof Error ? error.message : 'No AI configuration found' },
         { status: 400 }
       );
     }
@@ -192,9 +185,6 @@ export async function POST(
 
     console.log(`🤖 Using AI provider: ${apiConfig.provider} with model: ${apiConfig.model}`);
 
-    // Initialize token tracking
-    const tokenTracker = new TokenTrackingService();
-
     // Prepare context for AI
     const projectContext = `
 PROJECT INFORMATION:
@@ -288,43 +278,12 @@ CRITICAL: Base your response entirely on the provided project context. Do not in
     let outputTokens: number;
 
     try {
-      if (apiConfig.provider === 'google') {
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 3000,
-            temperature: 0.7,
-          }
-        };
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        generatedText = result.candidates[0].content.parts[0].text;
-
-        // Calculate token usage (approximate)
-        inputTokens = Math.ceil(prompt.length / 4);
-        outputTokens = Math.ceil(generatedText.length / 4);
-
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
-      }
+      const llmResponse = await llmClient.generate(
+        { prompt, maxTokens: 3000, temperature: 0.7 },
+        { config: apiConfig, tracking: { projectId, analysisType: 'application-response-generation', userId } }
+      );
+      generatedText = llmResponse.content;
+      ({ inputTokens, outputTokens } = llmResponse.usage);
     } catch (error) {
       console.error('❌ AI API error:', error);
       return NextResponse.json(
@@ -358,9 +317,6 @@ CRITICAL: Base your response entirely on the provided project context. Do not in
     const totalTokens = inputTokens + outputTokens;
     const cost = (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375; // Gemini pricing
 
-    // Track token usage
-    await tokenTracker.trackTokenUsage(projectId, inputTokens, outputTokens, 'application-response-generation');
-
     const result: ApplicationResponseResult = {
       response: parsedResult.response || generatedText,
       keyPoints: parsedResult.keyPoints || [],
@@ -1,34 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
+import { createEventStreamResponse, wantsEventStream } from '@/lib/eventStream';
 import { getPineconeClient, PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
 import { createVectorId } from '@/lib/projectService';
 import { analysisVectorService } from '@/lib/analysisVectorService';
-import fs from 'fs/promises';
-import path from 'path';
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
-// Helper function to check if file exists
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Helper function to get global config path
-function getGlobalConfigPath(): string {
-  return path.join(process.cwd(), '.ai-project', 'global-api-config.json');
-}
 
 // Helper function to get preset-specific instructions
 function getPresetInstructions(preset: string): string {
@@ -254,107 +232,19 @@ export async function POST(
       );
     }
 
-    // Get the appropriate API configuration for this project (respects user/app key selection)
-    let apiConfig: ApiConfiguration | undefined;
-    
-    // Always check user API key preference first, regardless of environment variables
-    let usePersonalApiKey = false;
-    
+    // Resolve the AI configuration (personal key > environment > global settings)
+    let apiConfig: ApiConfiguration;
     try {
-      // Check if user prefers personal API key
-      const apiKeySelectionPath = path.join(process.cwd(), '.ai-project', 'projects', projectId, 'api-key-selection.json');
-      if (await fileExists(apiKeySelectionPath)) {
-        const selectionData = await fs.readFile(apiKeySelectionPath, 'utf8');
-        const selection = JSON.parse(selectionData);
-        usePersonalApiKey = selection.usePersonalApiKey || false;
-        console.log(`🔑 API Key Preference: ${usePersonalApiKey ? 'PERSONAL' : 'SHARED/ENVIRONMENT'}`);
-      }
-      
-      // First try to get Google AI configuration from environment
-      apiConfig = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
-      console.log(`🔑 CONFIG SOURCE: ENVIRONMENT VARIABLE (GOOGLE_AI_API_KEY)`);
+      apiConfig = await llmClient.resolveConfiguration();
     } catch (error) {
-      console.warn('⚠️ Failed to get Google AI config from environment, checking project API configuration...');
-      
-      // If user prefers personal API key or environment config is not available, load user config
-      if (usePersonalApiKey || !process.env.GOOGLE_AI_API_KEY) {
-        const userConfigPath = path.join(process.cwd(), '.ai-project', 'user-api-config.json');
-        if (await fileExists(userConfigPath)) {
-          try {
-            const userConfigData = await fs.readFile(userConfigPath, 'utf8');
-            const userConfig = JSON.parse(userConfigData);
-            
-            let decryptedApiKey = userConfig.apiKey;
-            if (userConfig.encrypted && userConfig.iv) {
-              // For now, we'll assume the key is not encrypted in user config
-              // In live environment, you'd decrypt it here
-              decryptedApiKey = userConfig.apiKey;
-            }
-            
-            apiConfig = {
-              provider: userConfig.provider,
-              apiKey: decryptedApiKey,
-              model: userConfig.model,
-              baseUrl: userConfig.baseUrl
-            };
-            console.log('✅ Using user API configuration');
-            console.log(`🔑 CONFIG SOURCE: USER-CONFIGURED API KEY`);
-            console.log(`🤖 Provider: ${userConfig.provider}, Model: ${userConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load user API config, checking project config...');
-          }
-        }
-      }
-      
-      // If we still don't have a config, try project-specific config
-      if (!apiConfig) {
-        const projectConfigPath = path.join(process.cwd(), '.ai-project', 'projects', projectId, 'api-config.json');
-        if (await fileExists(projectConfigPath)) {
-          try {
-            const projectConfigData = await fs.readFile(projectConfigPath, 'utf8');
-            const parsedConfig = JSON.parse(projectConfigData);
-            apiConfig = parsedConfig;
-            console.log('✅ Using project-specific API configuration');
-            console.log(`🔑 CONFIG SOURCE: PROJECT-SPECIFIC API KEY`);
-            console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load project API config, falling back to global config');
-          }
-        }
-      }
-      
-      // Finally, fallback to global configuration file
-      if (!apiConfig) {
-        const globalConfigPath = getGlobalConfigPath();
-        if (!await fileExists(globalConfigPath)) {
-          return NextResponse.json(
-            { error: 'No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure an AI provider in the global settings.' },
-            { status: 400 }
-          );
-        }
-
-        const globalConfigData = await fs.readFile(globalConfigPath, 'utf8');
-        const parsedConfig = JSON.parse(globalConfigData);
-        apiConfig = parsedConfig;
-        console.log('✅ Using global API configuration');
-        console.log(`🔑 CONFIG SOURCE: GLOBAL/APP DEFAULT API KEY`);
-        console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-      }
-    }
-
-    // Ensure we have a valid API configuration
-    if (!apiConfig) {
       return NextResponse.json(
-        { error: 'No valid AI configuration found. Please configure an AI provider in the project settings or global settings.' },
+        { error: error instanceof Error ? error.message : 'No AI configuration found' },
         { status: 400 }
       );
     }
 
     console.log(`🤖 Using AI provider: ${apiConfig.provider} with model: ${apiConfig.model}`);
 
-    // Initialize token tracking
-    const tokenTracker = new TokenTrackingService();
     const sessionId = `blog-post-${Date.now()}`;
 
     // Validate that we have sufficient project data
@@ -558,51 +448,97 @@ IMPORTANT:
 
     console.log('🤖 Sending blog post generation request to AI...');
 
-    // Call AI service
-    let generatedText: string;
-    let inputTokens: number;
-    let outputTokens: number;
-
-    try {
-      if (apiConfig.provider === 'google') {
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 4000,
-            temperature: 0.7,
-          }
-        };
-
-        console.log('🤖 Sending blog post generation request to Gemini API...');
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
+    // Call AI service and parse the post, forwarding output deltas when the client is streaming
+    const buildBlogPost = async (onDelta?: (text: string) => void, signal?: AbortSignal): Promise<BlogPostResult> => {
+      const llmRequest = { prompt, maxTokens: 4000, temperature: 0.7 };
+      const llmOptions = { config: apiConfig, tracking: { projectId, analysisType: 'blog-post-generation', userId } };
+      const llmResponse = onDelta
+        ? await llmClient.stream(llmRequest, { ...llmOptions, onDelta, signal })
+        : await llmClient.generate(llmRequest, llmOptions);
+      const generatedText = llmResponse.content;
+      const { inputTokens, outputTokens } = llmResponse.usage;
+      
+      // Parse the JSON response
+      let parsedResult;
+      try {
+        // Extract JSON from the response (in case there's extra text)
+        const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+          throw new Error('No JSON found in AI response');
+        }
+        
+        // Clean the JSON string to handle control characters
+        let jsonString = jsonMatch[0];
+        
+        // Remove or escape problematic control characters
+        jsonString = jsonString
+          .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
+          .replace(/\n/g, '\\n') // Escape newlines
+          .replace(/\r/g, '\\r') // Escape carriage returns
+          .replace(/\t/g, '\\t'); // Escape tabs
+        
+        parsedResult = JSON.parse(jsonString);
+      } catch (parseError) {
+        console.error('Failed to parse AI response:', parseError);
+        console.error('Raw response:', generatedText);
+        
+        // Fallback: try to extract content manually if JSON parsing fails
+        try {
+          const titleMatch = generatedText.match(/"title":\s*"([^"]+)"/);
+          const contentMatch = generatedText.match(/"content":\s*"([^"]+)"/);
+          const excerptMatch = generatedText.match(/"excerpt":\s*"([^"]+)"/);
+          const tagsMatch = generatedText.match(/"tags":\s*\[([^\]]+)\]/);
+          
+          parsedResult = {
+            title: titleMatch ? titleMatch[1] : 'Generated Blog Post',
+            content: contentMatch ? contentMatch[1] : generatedText,
+            excerpt: excerptMatch ? excerptMatch[1] : 'A blog post about this project.',
+            tags: tagsMatch ? tagsMatch[1].split(',').map(tag => tag.trim().replace(/"/g, '')) : []
+          };
+        } catch (fallbackError) {
+          console.error('Fallback parsing also failed:', fallbackError);
+          // Last resort: use the raw text
+          parsedResult = {
+            title: 'Generated Blog Post',
+            content: generatedText,
+            excerpt: 'A blog post about this project.',
+            tags: []
+          };
+        }
+      }
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+      const totalTokens = inputTokens + outputTokens;
+      const cost = (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375; // Gemini pricing
+
+      const result: BlogPostResult = {
+        title: parsedResult.title || 'Generated Blog Post',
+        content: parsedResult.content || generatedText,
+        excerpt: parsedResult.excerpt || 'A blog post about this project.',
+        tags: parsedResult.tags || tags,
+        tokenUsage: {
+          inputTokens,
+          outputTokens,
+          totalTokens,
+          cost
         }
+      };
 
-        const result = await response.json();
-        generatedText = result.candidates[0].content.parts[0].text;
+      console.log('✅ Blog post generated successfully');
+      console.log(`📊 Token usage: ${totalTokens} tokens, Cost: $${cost.toFixed(4)}`);
 
-        // Calculate token usage (approximate)
-        inputTokens = Math.ceil(prompt.length / 4);
-        outputTokens = Math.ceil(generatedText.length / 4);
+      return result;
+    };
 
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
-      }
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(request, async (send, signal) => {
+        const result = await buildBlogPost(text => send('delta', { text }), signal);
+        send('done', result);
+      });
+    }
+
+    let result: BlogPostResult;
+    try {
+      result = await buildBlogPost();
     } catch (error) {
       console.error('❌ AI API error:', error);
       return NextResponse.json(
@@ -610,77 +546,6 @@ IMPORTANT:
         { status: 500 }
       );
     }
-    
-    // Parse the JSON response
-    let parsedResult;
-    try {
-      // Extract JSON from the response (in case there's extra text)
-      const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-      
-      // Clean the JSON string to handle control characters
-      let jsonString = jsonMatch[0];
-      
-      // Remove or escape problematic control characters
-      jsonString = jsonString
-        .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-        .replace(/\n/g, '\\n') // Escape newlines
-        .replace(/\r/g, '\\r') // Escape carriage returns
-        .replace(/\t/g, '\\t'); // Escape tabs
-      
-      parsedResult = JSON.parse(jsonString);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      console.error('Raw response:', generatedText);
-      
-      // Fallback: try to extract content manually if JSON parsing fails
-      try {
-        const titleMatch = generatedText.match(/"title":\s*"([^"]+)"/);
-        const contentMatch = generatedText.match(/"content":\s*"([^"]+)"/);
-        const excerptMatch = generatedText.match(/"excerpt":\s*"([^"]+)"/);
-        const tagsMatch = generatedText.match(/"tags":\s*\[([^\]]+)\]/);
-        
-        parsedResult = {
-          title: titleMatch ? titleMatch[1] : 'Generated Blog Post',
-          content: contentMatch ? contentMatch[1] : generatedText,
-          excerpt: excerptMatch ? excerptMatch[1] : 'A blog post about this project.',
-          tags: tagsMatch ? tagsMatch[1].split(',').map(tag => tag.trim().replace(/"/g, '')) : []
-        };
-      } catch (fallbackError) {
-        console.error('Fallback parsing also failed:', fallbackError);
-        // Last resort: use the raw text
-        parsedResult = {
-          title: 'Generated Blog Post',
-          content: generatedText,
-          excerpt: 'A blog post about this project.',
-          tags: []
-        };
-      }
-    }
-
-    const totalTokens = inputTokens + outputTokens;
-    const cost = (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375; // Gemini pricing
-
-    // Track token usage
-    await tokenTracker.trackTokenUsage(projectId, inputTokens, outputTokens, 'blog-post-generation');
-
-    const result: BlogPostResult = {
-      title: parsedResult.title || 'Generated Blog Post',
-      content: parsedResult.content || generatedText,
-      excerpt: parsedResult.excerpt || 'A blog post about this project.',
-      tags: parsedResult.tags || tags,
-      tokenUsage: {
-        inputTokens,
-        outputTokens,
-        totalTokens,
-        cost
-      }
-    };
-
-    console.log('✅ Blog post generated successfully');
-    console.log(`📊 Token usage: ${totalTokens} tokens, Cost: $${cost.toFixed(4)}`);
 
     return NextResponse.json(result);
 
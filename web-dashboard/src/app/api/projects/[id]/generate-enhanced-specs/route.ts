@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { ProjectService } from '@/lib/projectService';
-import { getGoogleAIConfig } from '@/lib/secureConfig';
+import { DocumentHistoryService } from '@/lib/documentHistory';
+import { llmClient, LlmCancelledError, LlmProviderError, LlmResponse } from '@/lib/llmClient';
+import { createEventStreamResponse, wantsEventStream } from '@/lib/eventStream';
 
 interface EnhancedSpecsRequest {
   enhancementData: {
@@ -21,42 +23,34 @@ interface EnhancedSpecsRequest {
   };
 }
 
-async function callGoogleAI(config: any, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  // Create an AbortController for timeout handling
+async function callAI(
+  prompt: string,
+  projectId: string,
+  userId: string,
+  onDelta?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<LlmResponse> {
+  // Create an AbortController for timeout handling that also follows client cancellation
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+  signal?.addEventListener('abort', () => controller.abort());
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 8000,
-        },
-      }),
+    const llmRequest = { prompt, maxTokens: 8000, temperature: 0.2 };
+    const llmOptions = {
+      tracking: { projectId, analysisType: 'enhanced-specs-generation', userId },
       signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      throw new Error(`Google AI API error (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-    return {
-      content: data.candidates[0].content.parts[0].text,
-      tokenUsage: data.usageMetadata || {}
     };
+    return onDelta
+      ? await llmClient.stream(llmRequest, { ...llmOptions, onDelta })
+      : await llmClient.generate(llmRequest, llmOptions);
   } catch (error) {
-    clearTimeout(timeoutId);
-    
+    if (signal?.aborted) {
+      throw error;
+    }
+
     if (error instanceof Error) {
-      if (error.name === 'AbortError') {
+      if (error.name === 'AbortError' || error instanceof LlmCancelledError) {
         throw new Error('Request timed out after 120 seconds. The AI response is taking longer than expected. Please try again.');
       }
       
@@ -66,6 +60,8 @@ async function callGoogleAI(config: any, prompt: string): Promise<{ content: str
     }
     
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
@@ -421,7 +417,7 @@ IMPORTANT:
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse> {
+): Promise<Response> {
   try {
     const { userId } = await auth();
     if (!userId) {
@@ -448,129 +444,123 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Get API configuration
-    const apiConfig = getGoogleAIConfig();
-    
     // Generate enhanced specs prompt
     const prompt = generateEnhancedSpecsPrompt(project, requestData.enhancementData, requestData.projectProfile);
     
-    // Call AI with retry logic
-    let aiResponse: { content: string; tokenUsage: any } | undefined;
-    let retryCount = 0;
-    const maxRetries = 2;
+    // Generate and save the specs, forwarding output deltas when the client is streaming
+    const buildSpecs = async (onDelta?: (text: string) => void, signal?: AbortSignal) => {
+      // Call AI with retry logic (a streamed attempt can't be retried without replaying its output)
+      let aiResponse: LlmResponse | undefined;
+      let retryCount = 0;
+      const maxRetries = onDelta ? 0 : 2;
     
-    while (retryCount <= maxRetries) {
-      try {
-        aiResponse = await callGoogleAI(apiConfig, prompt);
-        break; // Success, exit retry loop
-      } catch (error) {
-        retryCount++;
-        console.log(`AI call attempt ${retryCount} failed:`, error instanceof Error ? error.message : 'Unknown error');
+      while (retryCount <= maxRetries) {
+        try {
+          aiResponse = await callAI(prompt, projectId, userId, onDelta, signal);
+          break; // Success, exit retry loop
+        } catch (error) {
+          retryCount++;
+          console.log(`AI call attempt ${retryCount} failed:`, error instanceof Error ? error.message : 'Unknown error');
         
-        if (retryCount > maxRetries) {
-          // All retries exhausted, throw the error
-          throw error;
-        }
+          if (retryCount > maxRetries) {
+            // All retries exhausted, throw the error
+            throw error;
+          }
         
-        // Wait before retrying (exponential backoff)
-        const delay = Math.pow(2, retryCount) * 1000; // 2s, 4s, 8s
-        console.log(`Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+          // Wait before retrying (exponential backoff)
+          const delay = Math.pow(2, retryCount) * 1000; // 2s, 4s, 8s
+          console.log(`Retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
       }
-    }
     
-    // Ensure aiResponse is defined
-    if (!aiResponse) {
-      throw new Error('Failed to get AI response after all retry attempts');
-    }
+      // Ensure aiResponse is defined
+      if (!aiResponse) {
+        throw new Error('Failed to get AI response after all retry attempts');
+      }
     
-    // Parse Markdown response
-    let specsData;
-    try {
-      const markdownContent = aiResponse.content.trim();
+      // Parse Markdown response
+      let specsData;
+      try {
+        const markdownContent = aiResponse.content.trim();
       
-      // Extract sections using the clear headers
-      const requirementsMatch = markdownContent.match(/## REQUIREMENTS\s*\n([\s\S]*?)(?=## DESIGN|$)/);
-      const designMatch = markdownContent.match(/## DESIGN\s*\n([\s\S]*?)(?=## TASKS|$)/);
-      const tasksMatch = markdownContent.match(/## TASKS\s*\n([\s\S]*?)$/);
+        // Extract sections using the clear headers
+        const requirementsMatch = markdownContent.match(/## REQUIREMENTS\s*\n([\s\S]*?)(?=## DESIGN|$)/);
+        const designMatch = markdownContent.match(/## DESIGN\s*\n([\s\S]*?)(?=## TASKS|$)/);
+        const tasksMatch = markdownContent.match(/## TASKS\s*\n([\s\S]*?)$/);
       
-      if (!requirementsMatch || !designMatch || !tasksMatch) {
-        throw new Error('Could not find all required sections (REQUIREMENTS, DESIGN, TASKS) in AI response');
-      }
+        if (!requirementsMatch || !designMatch || !tasksMatch) {
+          throw new Error('Could not find all required sections (REQUIREMENTS, DESIGN, TASKS) in AI response');
+        }
       
-      specsData = {
-        requirements: requirementsMatch[1].trim(),
-        design: designMatch[1].trim(),
-        tasks: tasksMatch[1].trim()
-      };
+        specsData = {
+          requirements: requirementsMatch[1].trim(),
+          design: designMatch[1].trim(),
+          tasks: tasksMatch[1].trim()
+        };
       
-      // Validate that we have the required fields
-      if (!specsData.requirements || !specsData.design || !specsData.tasks) {
-        throw new Error('AI response missing required fields: requirements, design, or tasks');
-      }
+        // Validate that we have the required fields
+        if (!specsData.requirements || !specsData.design || !specsData.tasks) {
+          throw new Error('AI response missing required fields: requirements, design, or tasks');
+        }
       
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      console.error('Raw AI response:', aiResponse.content);
+      } catch (parseError) {
+        console.error('Failed to parse AI response:', parseError);
+        console.error('Raw AI response:', aiResponse.content);
       
-      // Return a more helpful error message
-      const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown parsing error';
-      return NextResponse.json({ 
-        error: `Failed to parse AI-generated specifications: ${errorMessage}. The AI response may be malformed or missing required sections.` 
-      }, { status: 500 });
-    }
+        // Surface a more helpful error message
+        const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown parsing error';
+        throw new Error(`Failed to parse AI-generated specifications: ${errorMessage}. The AI response may be malformed or missing required sections.`);
+      }
 
-    // Update project with enhanced specs
-    const updatedProject = {
-      ...project,
-      requirements: specsData.requirements,
-      design: specsData.design,
-      tasks: specsData.tasks,
-      enhancementData: requestData.enhancementData,
-      lastModified: new Date().toISOString()
-    };
+      // Update project with enhanced specs
+      const updatedProject = {
+        ...project,
+        requirements: specsData.requirements,
+        design: specsData.design,
+        tasks: specsData.tasks,
+        enhancementData: requestData.enhancementData,
+        lastModified: new Date().toISOString()
+      };
 
-    const success = await projectService.updateProject(userId, projectId, updatedProject);
+      const success = await projectService.updateProject(userId, projectId, updatedProject);
     
-    if (!success) {
-      return NextResponse.json({ error: 'Failed to save enhanced specifications' }, { status: 500 });
-    }
-
-    // Generate embeddings after specs are saved to Supabase
-    try {
-      console.log('🔄 Generating embeddings for project with complete specs...');
-      await projectService.generateProjectEmbeddings(projectId);
-      console.log('✅ Embeddings generated successfully');
-    } catch (embeddingError) {
-      console.warn('⚠️ Failed to generate embeddings, but specs were saved:', embeddingError);
-      // Don't fail the entire request if embedding generation fails
-    }
+      if (!success) {
+        throw new Error('Failed to save enhanced specifications');
+      }
 
-    // Track token usage
-    try {
-      const { TokenTrackingService } = await import('@/lib/tokenTrackingService');
-      const tokenTrackingService = TokenTrackingService.getInstance();
-      
-      const inputTokens = aiResponse.tokenUsage?.promptTokenCount || 0;
-      const outputTokens = aiResponse.tokenUsage?.candidatesTokenCount || 0;
-      
-      await tokenTrackingService.trackTokenUsage(
-        projectId, 
-        inputTokens, 
-        outputTokens, 
-        'enhanced-specs-generation',
-        userId
+      await DocumentHistoryService.getInstance().recordSpecs(
+        projectId,
+        specsData,
+        { author: userId, source: 'ai-generation', message: 'Generated enhanced specifications' },
+        project
       );
-    } catch (error) {
-      console.warn('Failed to track token usage:', error);
+
+      // Generate embeddings after specs are saved to Supabase
+      try {
+        console.log('🔄 Generating embeddings for project with complete specs...');
+        await projectService.generateProjectEmbeddings(projectId);
+        console.log('✅ Embeddings generated successfully');
+      } catch (embeddingError) {
+        console.warn('⚠️ Failed to generate embeddings, but specs were saved:', embeddingError);
+        // Don't fail the entire request if embedding generation fails
+      }
+
+      return {
+        success: true,
+        message: 'Enhanced specifications generated successfully',
+        specs: specsData,
+        tokenUsage: aiResponse.usage
+      };
+    };
+
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(request, async (send, signal) => {
+        send('done', await buildSpecs(text => send('delta', { text }), signal));
+      });
     }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Enhanced specifications generated successfully',
-      specs: specsData,
-      tokenUsage: aiResponse.tokenUsage
-    });
+    return NextResponse.json(await buildSpecs());
 
   } catch (error) {
     console.error('Failed to generate enhanced specifications:', error);
@@ -586,7 +576,7 @@ export async function POST(
       } else if (error.message.includes('Network connection failed')) {
         errorMessage = 'Network connection failed. Please check your internet connection and try again.';
         statusCode = 503;
-      } else if (error.message.includes('Google AI API error')) {
+      } else if (error instanceof LlmProviderError) {
         errorMessage = `AI service error: ${error.message}`;
         statusCode = 502;
       } else {
@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
-import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
-import fs from 'fs';
-import path from 'path';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { llmClient, LlmConfigurationError } from '@/lib/llmClient';
 
 interface MitigationRequest {
   context: string;
@@ -12,17 +10,6 @@ interface MitigationRequest {
   projectTemplate: string;
 }
 
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
-function getApiConfigPath(projectId: string): string {
-  return path.join(process.cwd(), '.ai-project', 'projects', projectId, 'api-config.json');
-}
-
 function generateMitigationPrompt(context: string, criticism: string, criticismType: string, projectTemplate: string): string {
   const isBusinessProject = projectTemplate === 'business';
   
@@ -56,154 +43,6 @@ The mitigation should be:
 - Specific rather than generic advice`;
 }
 
-async function callOpenAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: config.model || 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    tokenUsage: {
-      inputTokens: data.usage.prompt_tokens,
-      outputTokens: data.usage.completion_tokens,
-      totalTokens: data.usage.total_tokens,
-      cost: (data.usage.prompt_tokens * 0.000125 / 1000) + (data.usage.completion_tokens * 0.000375 / 1000)
-    }
-  };
-}
-
-async function callAnthropic(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': config.apiKey!,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: config.model || 'claude-3-sonnet-20240229',
-      max_tokens: 4000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.content[0].text,
-    tokenUsage: {
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens,
-      totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-      cost: (data.usage.input_tokens * 0.003 / 1000) + (data.usage.output_tokens * 0.015 / 1000)
-    }
-  };
-}
-
-async function callGoogleAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model || 'gemini-1.5-pro'}:generateContent?key=${config.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ Google AI API error ${response.status}:`, errorText);
-      throw new Error(`Google AI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    return {
-      content: data.candidates[0].content.parts[0].text,
-      tokenUsage: {
-        inputTokens: data.usageMetadata?.promptTokenCount || 0,
-        outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
-        totalTokens: data.usageMetadata?.totalTokenCount || 0,
-        cost: ((data.usageMetadata?.promptTokenCount || 0) / 1000) * 0.000125 + ((data.usageMetadata?.candidatesTokenCount || 0) / 1000) * 0.000375
-      }
-    };
-  } catch (error) {
-    console.error('❌ Google AI API call failed:', error);
-    throw error;
-  }
-}
-
-async function callCustomProvider(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  const response = await fetch(`${config.baseUrl}/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: config.model || 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Custom API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    tokenUsage: {
-      inputTokens: data.usage?.prompt_tokens || 0,
-      outputTokens: data.usage?.completion_tokens || 0,
-      totalTokens: data.usage?.total_tokens || 0,
-      cost: 0 // Custom provider pricing varies
-    }
-  };
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -237,139 +76,24 @@ export async function POST(
       );
     }
 
-    // Get the appropriate API configuration for this project (respects user/app key selection)
-    let config: ApiConfiguration | undefined;
-    
-    // Always check user API key preference first, regardless of environment variables
-    let usePersonalApiKey = false;
-    
-    try {
-      const selection = await PineconeSyncServiceInstance.getApiKeySelection(projectId, userId);
-      usePersonalApiKey = selection?.usePersonalApiKey || false;
-      console.log(`🔑 API key selection: ${usePersonalApiKey ? 'personal' : 'app default'}`);
-      console.log(`🔑 API Source: ${usePersonalApiKey ? 'USER PERSONAL API KEY' : 'APP DEFAULT API KEY'}`);
-      console.log(`👤 User ID: ${userId}`);
-      console.log(`📁 Project ID: ${projectId}`);
-    } catch (error) {
-      console.warn('⚠️ Failed to read API key selection from Pinecone, defaulting to global config');
-      console.log(`🔑 API Source: APP DEFAULT API KEY (fallback)`);
-      console.log(`👤 User ID: ${userId}`);
-      console.log(`📁 Project ID: ${projectId}`);
-    }
-    
-    try {
-      // If user wants to use personal API key, skip environment variables
-      if (usePersonalApiKey) {
-        console.log('🔑 User selected personal API key, skipping environment variables');
-        throw new Error('User selected personal API key');
-      }
-      
-      // First try to get Google AI configuration from environment
-      config = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
-      console.log(`🔑 CONFIG SOURCE: ENVIRONMENT VARIABLE (GOOGLE_AI_API_KEY)`);
-    } catch (error) {
-      console.warn('⚠️ Failed to get Google AI config from environment, checking project API configuration...');
-      
-      if (usePersonalApiKey) {
-        // Try to get user's personal API config
-        const userConfigPath = path.join(process.cwd(), '.ai-project', 'user-configs', `${userId}-api-config.json`);
-        if (fs.existsSync(userConfigPath)) {
-          try {
-            const userConfigData = fs.readFileSync(userConfigPath, 'utf8');
-            const userConfig = JSON.parse(userConfigData);
-            
-            // Decrypt API key if it's encrypted
-            let decryptedApiKey = '';
-            if (userConfig.encryptedApiKey) {
-              // Note: You'll need to import the decryptApiKey function
-              // decryptedApiKey = decryptApiKey(userConfig.encryptedApiKey);
-              decryptedApiKey = userConfig.encryptedApiKey; // For now, assume it's not encrypted
-            } else if (userConfig.apiKey) {
-              decryptedApiKey = userConfig.apiKey;
-            }
-            
-            config = {
-              provider: userConfig.provider,
-              apiKey: decryptedApiKey,
-              model: userConfig.model,
-              baseUrl: userConfig.baseUrl
-            };
-            console.log('✅ Using user personal API configuration');
-            console.log(`🔑 CONFIG SOURCE: USER PERSONAL API KEY`);
-            console.log(`🤖 Provider: ${userConfig.provider}, Model: ${userConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load user API config, falling back to global config');
-          }
-        }
-      }
-      
-      // If we still don't have a config, try project-specific config
-      if (!config) {
-        const configPath = getApiConfigPath(projectId);
-        if (fs.existsSync(configPath)) {
-          try {
-            const configData = fs.readFileSync(configPath, 'utf8');
-            const parsedConfig = JSON.parse(configData);
-            config = parsedConfig;
-            console.log('✅ Using project-specific API configuration');
-            console.log(`🔑 CONFIG SOURCE: PROJECT-SPECIFIC API KEY`);
-            console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load project API config, falling back to global config');
-          }
-        }
-      }
-      
-      // Finally, fallback to global configuration file
-      if (!config) {
-        const globalConfigPath = path.join(process.cwd(), '.ai-project', 'global-api-config.json');
-        if (fs.existsSync(globalConfigPath)) {
-          try {
-            const globalConfigData = fs.readFileSync(globalConfigPath, 'utf8');
-            const parsedConfig = JSON.parse(globalConfigData);
-            config = parsedConfig;
-            console.log('✅ Using global API configuration');
-            console.log(`🔑 CONFIG SOURCE: GLOBAL/APP DEFAULT API KEY`);
-            console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load global API config');
-          }
-        }
-      }
-    }
-
-    // Ensure we have a valid API configuration
-    if (!config) {
-      return NextResponse.json(
-        { error: 'No valid AI configuration found. Please configure an AI provider in the project settings or global settings.' },
-        { status: 400 }
-      );
-    }
-
     // Generate mitigation prompt
     const prompt = generateMitigationPrompt(context, criticism, criticismType, projectTemplate);
 
-    // Call the appropriate AI provider
-    let aiResponse: { content: string; tokenUsage: any };
-    switch (config.provider) {
-      case 'openai':
-        aiResponse = await callOpenAI(config, prompt);
-        break;
-      case 'anthropic':
-        aiResponse = await callAnthropic(config, prompt);
-        break;
-      case 'google':
-        aiResponse = await callGoogleAI(config, prompt);
-        break;
-      case 'custom':
-        aiResponse = await callCustomProvider(config, prompt);
-        break;
-      default:
+    // Call the user's configured AI provider
+    let aiResponse;
+    try {
+      aiResponse = await llmClient.generate(
+        { prompt, maxTokens: 2000, temperature: 0.7 },
+        { tracking: { projectId, analysisType: 'mitigation-generation', userId } }
+      );
+    } catch (error) {
+      if (error instanceof LlmConfigurationError) {
         return NextResponse.json(
-          { error: 'Unsupported AI provider' },
+          { error: error.message },
           { status: 400 }
         );
+      }
+      throw error;
     }
 
     // Parse the AI response
@@ -390,7 +114,7 @@ export async function POST(
 
     const result = {
       mitigation: mitigationData.mitigation || 'Unable to generate mitigation strategy.',
-      tokenUsage: aiResponse.tokenUsage,
+      tokenUsage: aiResponse.usage,
       timestamp: new Date().toISOString()
     };
 
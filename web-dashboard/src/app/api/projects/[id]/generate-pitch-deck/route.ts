@@ -1,20 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs/promises';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
+import { createEventStreamResponse, wantsEventStream } from '@/lib/eventStream';
 import { auth } from '@clerk/nextjs/server';
 import pptxgen from 'pptxgenjs';
 
-const tokenTrackingService = new TokenTrackingService();
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
 interface PitchDeckRequest {
   audience?: 'investor' | 'customer' | 'partner' | 'technical';
   slideCount?: number;
@@ -51,19 +44,6 @@ interface PitchDeckResult {
   pptxFileName?: string;
 }
 
-function getGlobalConfigPath(): string {
-  return path.join(process.cwd(), '.ai-project', 'global-api-config.json');
-}
-
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 async function generatePowerPointPresentation(
   slides: Slide[], 
   projectName: string, 
@@ -401,25 +381,15 @@ export async function POST(
       );
     }
 
-    // Try to get Google AI configuration from environment
+    // Resolve the AI configuration (personal key > environment > global settings)
     let apiConfig: ApiConfiguration;
     try {
-      apiConfig = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
+      apiConfig = await llmClient.resolveConfiguration();
     } catch (error) {
-      console.warn('⚠️ Failed to get Google AI config from environment, falling back to global config file');
-      
-      // Fallback to global configuration file
-      const globalConfigPath = getGlobalConfigPath();
-      if (!await fileExists(globalConfigPath)) {
-        return NextResponse.json(
-          { error: 'No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure an AI provider in the global settings.' },
-          { status: 400 }
-        );
-      }
-
-      const globalConfigData = await fs.readFile(globalConfigPath, 'utf8');
-      apiConfig = JSON.parse(globalConfigData);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'No AI configuration found' },
+        { status: 400 }
+      );
     }
 
     console.log(`🤖 Using AI provider: ${apiConfig.provider} with model: ${apiConfig.model}`);
@@ -692,150 +662,122 @@ IMPORTANT: Use ALL available information from:
 If project data is limited, focus on potential and vision while being honest about current status. If extensive data is available, leverage it to create a data-driven, compelling pitch.
 `;
 
-    // Call AI service
-    let pitchDeckContent: string;
-    let inputTokens: number;
-    let outputTokens: number;
+    // Call AI service and build the deck, forwarding output deltas when the client is streaming
+    const buildPitchDeck = async (onDelta?: (text: string) => void, signal?: AbortSignal): Promise<PitchDeckResult> => {
+      console.log(`🤖 Sending pitch deck generation request to ${apiConfig.provider}...`);
 
-    try {
-      if (apiConfig.provider === 'google') {
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 6000,
-            temperature: 0.4,
-          }
-        };
+      const llmRequest = { prompt, maxTokens: 6000, temperature: 0.4 };
+      const llmOptions = { config: apiConfig, tracking: { projectId, analysisType: 'pitch-deck-generation', userId } };
+      const llmResponse = onDelta
+        ? await llmClient.stream(llmRequest, { ...llmOptions, onDelta, signal })
+        : await llmClient.generate(llmRequest, llmOptions);
+      const pitchDeckContent = llmResponse.content;
+      const { inputTokens, outputTokens } = llmResponse.usage;
 
-        console.log('🤖 Sending pitch deck generation request to Gemini API...');
+      const totalTokens = inputTokens + outputTokens;
+      const cost = (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375; // Gemini pricing
 
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+      // Parse the JSON response
+      let pitchDeckResult: any;
+      try {
+        // Extract JSON from the response (in case there's extra text)
+        const jsonMatch = pitchDeckContent.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+          pitchDeckResult = JSON.parse(jsonMatch[0]);
+        } else {
+          throw new Error('No valid JSON found in response');
         }
-
-        const result = await response.json();
-        pitchDeckContent = result.candidates[0].content.parts[0].text;
-
-        // Calculate token usage (approximate)
-        inputTokens = Math.ceil(prompt.length / 4);
-        outputTokens = Math.ceil(pitchDeckContent.length / 4);
-
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
+      } catch (parseError) {
+        console.error('❌ Failed to parse AI response as JSON:', parseError);
+        console.log('Raw response:', pitchDeckContent);
+        
+        // Fallback: create a basic pitch deck structure
+        pitchDeckResult = {
+          slides: [
+            {
+              title: config?.name || 'Project Pitch',
+              type: 'title',
+              content: {
+                bulletPoints: ['Project Overview', 'Key Features', 'Market Opportunity'],
+                speakerNotes: 'Introduction to the project and its key value propositions.'
+              },
+              layout: 'title',
+              order: 1
+            }
+          ],
+          summary: 'Pitch deck generated with fallback structure due to parsing error.'
+        };
       }
-    } catch (error) {
-      console.error('❌ AI API error:', error);
-      return NextResponse.json(
-        { error: 'Failed to generate pitch deck using AI service' },
-        { status: 500 }
-      );
-    }
 
-    const totalTokens = inputTokens + outputTokens;
-    const cost = (inputTokens / 1000) * 0.000125 + (outputTokens / 1000) * 0.000375; // Gemini pricing
+      // Validate and clean the slides
+      const validatedSlides: Slide[] = (pitchDeckResult.slides || []).map((slide: any, index: number) => ({
+        title: slide.title || `Slide ${index + 1}`,
+        type: slide.type || 'content',
+        content: {
+          bulletPoints: Array.isArray(slide.content?.bulletPoints) ? slide.content.bulletPoints : ['Content not available'],
+          speakerNotes: slide.content?.speakerNotes || 'Speaker notes not available'
+        },
+        layout: slide.layout || 'content',
+        order: slide.order || index + 1
+      }));
 
-    // Parse the JSON response
-    let pitchDeckResult: any;
-    try {
-      // Extract JSON from the response (in case there's extra text)
-      const jsonMatch = pitchDeckContent.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        pitchDeckResult = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error('No valid JSON found in response');
-      }
-    } catch (parseError) {
-      console.error('❌ Failed to parse AI response as JSON:', parseError);
-      console.log('Raw response:', pitchDeckContent);
+      // Generate PowerPoint presentation
+      let pptxBuffer: Buffer | undefined;
+      let pptxFileName: string | undefined;
       
-      // Fallback: create a basic pitch deck structure
-      pitchDeckResult = {
-        slides: [
-          {
-            title: config?.name || 'Project Pitch',
-            type: 'title',
-            content: {
-              bulletPoints: ['Project Overview', 'Key Features', 'Market Opportunity'],
-              speakerNotes: 'Introduction to the project and its key value propositions.'
-            },
-            layout: 'title',
-            order: 1
-          }
-        ],
-        summary: 'Pitch deck generated with fallback structure due to parsing error.'
+      try {
+        console.log('📊 Generating PowerPoint presentation...');
+        const pptxResult = await generatePowerPointPresentation(
+          validatedSlides, 
+          config?.name || 'Project', 
+          audience,
+          { metadata: projectMetadata, analyses: analysisResults, contextDocuments }
+        );
+        pptxBuffer = pptxResult.buffer;
+        pptxFileName = pptxResult.fileName;
+        console.log('✅ PowerPoint presentation generated successfully');
+      } catch (error) {
+        console.warn('⚠️ Failed to generate PowerPoint presentation:', error);
+      }
+
+      const result: PitchDeckResult = {
+        slides: validatedSlides,
+        metadata: {
+          generationTime: Date.now() - startTime,
+          model: apiConfig.model,
+          tokenUsage: totalTokens,
+          cost
+        },
+        summary: pitchDeckResult.summary || 'Pitch deck generated successfully',
+        pptxBuffer,
+        pptxFileName
       };
-    }
 
-    // Validate and clean the slides
-    const validatedSlides: Slide[] = (pitchDeckResult.slides || []).map((slide: any, index: number) => ({
-      title: slide.title || `Slide ${index + 1}`,
-      type: slide.type || 'content',
-      content: {
-        bulletPoints: Array.isArray(slide.content?.bulletPoints) ? slide.content.bulletPoints : ['Content not available'],
-        speakerNotes: slide.content?.speakerNotes || 'Speaker notes not available'
-      },
-      layout: slide.layout || 'content',
-      order: slide.order || index + 1
-    }));
+      console.log('✅ Pitch deck generated successfully');
+      console.log(`📊 Token usage: ${totalTokens} tokens, $${cost.toFixed(4)} cost`);
+      console.log(`📈 Generated ${validatedSlides.length} slides`);
 
-    // Generate PowerPoint presentation
-    let pptxBuffer: Buffer | undefined;
-    let pptxFileName: string | undefined;
-    
-    try {
-      console.log('📊 Generating PowerPoint presentation...');
-      const pptxResult = await generatePowerPointPresentation(
-        validatedSlides, 
-        config?.name || 'Project', 
-        audience,
-        { metadata: projectMetadata, analyses: analysisResults, contextDocuments }
-      );
-      pptxBuffer = pptxResult.buffer;
-      pptxFileName = pptxResult.fileName;
-      console.log('✅ PowerPoint presentation generated successfully');
-    } catch (error) {
-      console.warn('⚠️ Failed to generate PowerPoint presentation:', error);
-    }
-
-    const result: PitchDeckResult = {
-      slides: validatedSlides,
-      metadata: {
-        generationTime: Date.now() - startTime,
-        model: apiConfig.model,
-        tokenUsage: totalTokens,
-        cost
-      },
-      summary: pitchDeckResult.summary || 'Pitch deck generated successfully',
-      pptxBuffer,
-      pptxFileName
+      return result;
     };
 
-    // Track token usage
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(request, async (send, signal) => {
+        const result = await buildPitchDeck(text => send('delta', { text }), signal);
+        send('done', result);
+      });
+    }
+
+    let result: PitchDeckResult;
     try {
-      await tokenTrackingService.trackTokenUsage(projectId, inputTokens, outputTokens, 'pitch-deck-generation', userId);
+      result = await buildPitchDeck();
     } catch (error) {
-      console.warn('⚠️ Failed to track token usage (Pinecone may be unavailable):', error);
-      console.log('🔄 Continuing without token tracking...');
+      console.error('❌ AI API error:', error);
+      return NextResponse.json(
+        { error: 'Failed to generate pitch deck using AI service' },
+        { status: 500 }
+      );
     }
 
-    console.log('✅ Pitch deck generated successfully');
-    console.log(`📊 Token usage: ${totalTokens} tokens, $${cost.toFixed(4)} cost`);
-    console.log(`📈 Generated ${validatedSlides.length} slides`);
-
     return NextResponse.json(result);
 
   } catch (error) {
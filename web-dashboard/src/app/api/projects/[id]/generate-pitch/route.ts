@@ -1,37 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs/promises';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
+import { validateSecureConfig } from '@/lib/secureConfig';
 import { auth } from '@clerk/nextjs/server';
-
-const tokenTrackingService = new TokenTrackingService();
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
 
 interface PitchGenerationRequest {
   format?: 'markdown' | 'plain' | 'structured';
   sections?: string[];
 }
 
-function getGlobalConfigPath(): string {
-  return path.join(process.cwd(), '.ai-project', 'global-api-config.json');
-}
-
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 interface PitchResult {
   pitch: string;
   sections: {
@@ -170,25 +149,15 @@ export async function POST(
       );
     }
 
-    // Try to get Google AI configuration from environment
+    // Resolve the AI configuration (personal key > environment > global settings)
     let apiConfig: ApiConfiguration;
     try {
-      apiConfig = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
+      apiConfig = await llmClient.resolveConfiguration();
     } catch (error) {
-      console.warn('⚠️ Failed to get Google AI config from environment, falling back to global config file');
-      
-      // Fallback to global configuration file
-      const globalConfigPath = getGlobalConfigPath();
-      if (!await fileExists(globalConfigPath)) {
-        return NextResponse.json(
-          { error: 'No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure an AI provider in the global settings.' },
-          { status: 400 }
-        );
-      }
-
-      const globalConfigData = await fs.readFile(globalConfigPath, 'utf8');
-      apiConfig = JSON.parse(globalConfigData);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'No AI configuration found' },
+        { status: 400 }
+      );
     }
 
     console.log(`🤖 Using AI provider: ${apiConfig.provider} with model: ${apiConfig.model}`);
@@ -265,45 +234,12 @@ If project data is limited, focus on potential and vision while being honest abo
     let outputTokens: number;
 
     try {
-      if (apiConfig.provider === 'google') {
-        const requestBody = {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 4000,
-            temperature: 0.3,
-          }
-        };
-
-        console.log('🤖 Sending pitch generation request to Gemini API...');
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`❌ Gemini API error ${response.status}:`, errorText);
-          throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        pitchContent = result.candidates[0].content.parts[0].text;
-
-        // Calculate token usage (approximate)
-        inputTokens = Math.ceil(prompt.length / 4);
-        outputTokens = Math.ceil(pitchContent.length / 4);
-
-      } else {
-        throw new Error(`Unsupported AI provider: ${apiConfig.provider}`);
-      }
+      const llmResponse = await llmClient.generate(
+        { prompt, maxTokens: 4000, temperature: 0.3 },
+        { config: apiConfig, tracking: { projectId, analysisType: 'pitch-generation', userId } }
+      );
+      pitchContent = llmResponse.content;
+      ({ inputTokens, outputTokens } = llmResponse.usage);
     } catch (error) {
       console.error('❌ AI API error:', error);
       return NextResponse.json(
@@ -322,9 +258,6 @@ If project data is limited, focus on potential and vision while being honest abo
       cost
     };
 
-    // Track token usage
-    await tokenTrackingService.trackTokenUsage(projectId, inputTokens, outputTokens, 'pitch-generation', userId);
-
     // Parse sections from the generated content
     const parsedSections = {
       overview: extractSection(pitchContent, 'PROJECT OVERVIEW', 'KEY FEATURES') || extractSection(pitchContent, 'OVERVIEW', 'FEATURES') || '',
@@ -1,63 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { ProjectService } from '@/lib/projectService';
+import { DocumentHistoryService } from '@/lib/documentHistory';
 import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
-async function callGoogleAI(config: ApiConfiguration, prompt: string): Promise<{ content: string; tokenUsage: any }> {
-  console.log('Calling Google AI API with model:', config.model);
-  
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 4000,
-      },
-    }),
-  });
-
-  console.log('Google AI API response status:', response.status);
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('Google AI API error response:', errorData);
-    throw new Error(`Google AI API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  console.log('Google AI API response data keys:', Object.keys(data));
-  
-  if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts && data.candidates[0].content.parts[0]) {
-    const content = data.candidates[0].content.parts[0].text;
-    console.log('Generated content length:', content.length);
-    return {
-      content: content,
-      tokenUsage: data.usageMetadata || { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 }
-    };
-  } else {
-    console.error('Invalid response structure from Google AI API:', data);
-    throw new Error('Invalid response structure from Google AI API');
-  }
-}
+import { llmClient, LlmConfigurationError } from '@/lib/llmClient';
 
 function generateSpecsPrompt(projectData: any): string {
   const { name, description, template, technologyStack, regulatoryCompliance } = projectData;
@@ -124,6 +70,7 @@ Please generate three separate markdown documents following these EXACT formats:
    - Hierarchical task structure with sub-tasks (2.1, 2.2, etc.)
    - Each task includes implementation details and requirements references
    - _Requirements: X.Y, Z.A_ at the end of tasks
+   - _Depends: X.Y_ on tasks that cannot start until other tasks are done
 
 CRITICAL: Match the exact formatting, section headers, and structure from the examples. Use proper markdown formatting with TypeScript code blocks, mermaid diagrams, and consistent numbering.
 
@@ -205,45 +152,24 @@ export async function POST(
       hasDescription: !!project.description
     });
 
-    // Load API configuration from environment variable
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure an AI provider in the global settings.' },
-        { status: 400 }
-      );
-    }
-
-    const apiConfig: ApiConfiguration = {
-      provider: 'google',
-      apiKey: apiKey,
-      model: 'gemini-1.5-flash'
-    };
-
     // Generate specs prompt
     const prompt = generateSpecsPrompt(project);
     console.log('Generated prompt for specs, length:', prompt.length);
 
-    // Call Google AI to generate specs
-    console.log('🤖 Calling Google AI with config:', { provider: apiConfig.provider, model: apiConfig.model });
-    const aiResponse = await callGoogleAI(apiConfig, prompt);
-    console.log('✅ AI Response received, content length:', aiResponse.content?.length || 0);
-
-    // Track token usage (don't let this break the specs generation)
+    // Call the configured AI provider to generate specs
+    let aiResponse;
     try {
-      const { TokenTrackingService } = await import('@/lib/tokenTrackingService');
-      const tokenTrackingService = TokenTrackingService.getInstance();
-      
-      const inputTokens = aiResponse.tokenUsage?.promptTokenCount || aiResponse.tokenUsage?.prompt_tokens || 0;
-      const outputTokens = aiResponse.tokenUsage?.candidatesTokenCount || aiResponse.tokenUsage?.completion_tokens || 0;
-      
-      await tokenTrackingService.trackTokenUsage(projectId, inputTokens, outputTokens, 'project-specs-generation', userId);
-      console.log('✅ Token usage tracked:', { inputTokens, outputTokens });
+      aiResponse = await llmClient.generate(
+        { prompt, maxTokens: 4000, temperature: 0.3 },
+        { tracking: { projectId, analysisType: 'project-specs-generation', userId } }
+      );
     } catch (error) {
-      console.warn('⚠️ Failed to track token usage for spec generation (continuing anyway):', error);
-      // Don't let token tracking failure break the specs generation
+      if (error instanceof LlmConfigurationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
+    console.log('✅ AI Response received, content length:', aiResponse.content?.length || 0);
 
     // Parse the AI response
     let specsData: any;
@@ -346,6 +272,13 @@ export async function POST(
 
     console.log('✅ Successfully updated project with specs in Pinecone');
 
+    await DocumentHistoryService.getInstance().recordSpecs(
+      projectId,
+      specsData,
+      { author: userId, source: 'ai-generation', message: 'Generated project specifications' },
+      project
+    );
+
     // Sync the updated project to create embeddings for visualization
     try {
       console.log('🔄 Syncing project to create embeddings for visualization...');
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { DocumentHistoryService } from '@/lib/documentHistory';
+
+// GET /api/projects/[id]/history/[versionId] - A saved version including its content
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId, versionId } = await params;
+
+    if (!/^[0-9a-f-]{36}$/i.test(versionId)) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = await DocumentHistoryService.getInstance().getSnapshot(projectId, versionId);
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, version: snapshot });
+  } catch (error) {
+    console.error('❌ Failed to load document version:', error);
+    return NextResponse.json(
+      { error: 'Failed to load document version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { DocumentHistoryService } from '@/lib/documentHistory';
+
+const DOCUMENT_PATTERN = /^(requirements|design|tasks|context\/[^/\\]+)$/;
+
+// GET /api/projects/[id]/history - Saved versions of the project's documents, newest first
+// Optional ?document=tasks (or context/<file>) to filter and ?limit= (default 50, max 200)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const { searchParams } = new URL(request.url);
+    const document = searchParams.get('document') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    if (document && !DOCUMENT_PATTERN.test(document)) {
+      return NextResponse.json(
+        { error: 'Invalid document' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await DocumentHistoryService.getInstance().getHistory(projectId, document, limit);
+
+    return NextResponse.json({
+      success: true,
+      versions,
+      canRestore: access.canWrite
+    });
+  } catch (error) {
+    console.error('❌ Failed to load document history:', error);
+    return NextResponse.json(
+      { error: 'Failed to load document history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,34 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
-import { TokenTrackingService } from '@/lib/tokenTrackingService';
+import { validateSecureConfig } from '@/lib/secureConfig';
 import { ProjectService } from '@/lib/projectService';
 import { analysisVectorService } from '@/lib/analysisVectorService';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-}
-
-// Helper function to check if file exists
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Helper function to get global config path
-function getGlobalConfigPath(): string {
-  return path.join(process.cwd(), '.ai-project', 'global-api-config.json');
-}
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
 
 interface ImproveAnalysisRequest {
   analysisType: string;
@@ -115,111 +92,13 @@ export async function POST(
       );
     }
 
-    // Get the appropriate API configuration for this project (respects user/app key selection)
-    let apiConfig: ApiConfiguration | undefined;
-    
-    // Always check user API key preference first, regardless of environment variables
-    let usePersonalApiKey = false;
-    
+    // Resolve the AI configuration (personal key > environment > global settings)
+    let apiConfig: ApiConfiguration;
     try {
-      const selection = await PineconeSyncServiceInstance.getApiKeySelection(projectId, userId);
-      usePersonalApiKey = selection?.usePersonalApiKey || false;
-      console.log(`🔑 API key selection: ${usePersonalApiKey ? 'personal' : 'app default'}`);
-      console.log(`🔑 API Source: ${usePersonalApiKey ? 'USER PERSONAL API KEY' : 'APP DEFAULT API KEY'}`);
-      console.log(`👤 User ID: ${userId}`);
-      console.log(`📁 Project ID: ${projectId}`);
+      apiConfig = await llmClient.resolveConfiguration();
     } catch (error) {
-      console.warn('⚠️ Failed to read API key selection from Pinecone, defaulting to global config');
-      console.log(`🔑 API Source: APP DEFAULT API KEY (fallback)`);
-      console.log(`👤 User ID: ${userId}`);
-      console.log(`📁 Project ID: ${projectId}`);
-    }
-    
-    try {
-      // If user wants to use personal API key, skip environment variables
-      if (usePersonalApiKey) {
-        console.log('🔑 User selected personal API key, skipping environment variables');
-        throw new Error('User selected personal API key');
-      }
-      
-      // First try to get Google AI configuration from environment
-      apiConfig = getGoogleAIConfig();
-      console.log('✅ Using secure Google AI configuration from environment');
-      console.log(`🔑 CONFIG SOURCE: ENVIRONMENT VARIABLE (GOOGLE_AI_API_KEY)`);
-    } catch (error) {
-      console.warn('⚠️ Failed to get Google AI config from environment, checking project API configuration...');
-      
-      if (usePersonalApiKey) {
-        // Try to get user's personal API config
-        const userConfigPath = path.join(process.cwd(), '.ai-project', 'user-configs', `${userId}-api-config.json`);
-        if (await fileExists(userConfigPath)) {
-          try {
-            const userConfigData = await fs.readFile(userConfigPath, 'utf8');
-            const userConfig = JSON.parse(userConfigData);
-            
-            // Decrypt API key if it's encrypted
-            let decryptedApiKey = '';
-            if (userConfig.encryptedApiKey) {
-              decryptedApiKey = userConfig.encryptedApiKey; // For now, assume it's not encrypted
-            } else if (userConfig.apiKey) {
-              decryptedApiKey = userConfig.apiKey;
-            }
-            
-            apiConfig = {
-              provider: userConfig.provider,
-              apiKey: decryptedApiKey,
-              model: userConfig.model,
-              baseUrl: userConfig.baseUrl
-            };
-            console.log('✅ Using user personal API configuration');
-            console.log(`🔑 CONFIG SOURCE: USER PERSONAL API KEY`);
-            console.log(`🤖 Provider: ${userConfig.provider}, Model: ${userConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load user API config, falling back to global config');
-          }
-        }
-      }
-      
-      // If we still don't have a config, try project-specific config
-      if (!apiConfig) {
-        const projectConfigPath = path.join(process.cwd(), '.ai-project', 'projects', projectId, 'api-config.json');
-        if (await fileExists(projectConfigPath)) {
-          try {
-            const projectConfigData = await fs.readFile(projectConfigPath, 'utf8');
-            const parsedConfig = JSON.parse(projectConfigData);
-            apiConfig = parsedConfig;
-            console.log('✅ Using project-specific API configuration');
-            console.log(`🔑 CONFIG SOURCE: PROJECT-SPECIFIC API KEY`);
-            console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-          } catch (error) {
-            console.warn('⚠️ Failed to load project API config, falling back to global config');
-          }
-        }
-      }
-      
-      // Finally, fallback to global configuration file
-      if (!apiConfig) {
-        const globalConfigPath = getGlobalConfigPath();
-        if (!await fileExists(globalConfigPath)) {
-          return NextResponse.json(
-            { success: false, error: 'No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure an AI provider in the global settings.' },
-            { status: 400 }
-          );
-        }
-
-        const globalConfigData = await fs.readFile(globalConfigPath, 'utf8');
-        const parsedConfig = JSON.parse(globalConfigData);
-        apiConfig = parsedConfig;
-        console.log('✅ Using global API configuration');
-        console.log(`🔑 CONFIG SOURCE: GLOBAL/APP DEFAULT API KEY`);
-        console.log(`🤖 Provider: ${parsedConfig.provider}, Model: ${parsedConfig.model}`);
-      }
-    }
-
-    // Ensure we have a valid API configuration
-    if (!apiConfig) {
       return NextResponse.json(
-        { success: false, error: 'No valid AI configuration found. Please configure an AI provider in the project settings or global settings.' },
+        { success: false, error: error instanceof Error ? error.message : 'No AI configuration found' },
         { status: 400 }
       );
     }
@@ -296,58 +175,29 @@ Improved analysis:`;
     let improvedAnalysis = '';
     let tokenUsage = { totalTokens: 0, cost: 0 };
 
-    if (apiConfig.provider === 'gemini' || apiConfig.provider === 'google') {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(apiConfig.apiKey);
-      const model = genAI.getGenerativeModel({ model: apiConfig.model || 'gemini-1.5-flash' });
+    console.log('🤖 Calling AI provider for analysis improvement...');
+    console.log('🔍 DEBUG - Prompt length:', prompt.length);
 
-      console.log('🤖 Calling Gemini API for analysis improvement...');
-      console.log('🔍 DEBUG - Prompt length:', prompt.length);
-      
-      try {
-        const result = await model.generateContent(prompt);
-        const response = result.response;
-        improvedAnalysis = response.text();
-        console.log('✅ Gemini API call successful, response length:', improvedAnalysis.length);
-      } catch (geminiError) {
-        console.error('❌ Gemini API error:', geminiError);
-        return NextResponse.json(
-          { success: false, error: `Gemini API error: ${geminiError instanceof Error ? geminiError.message : 'Unknown error'}` },
-          { status: 500 }
-        );
-      }
-
-      // Calculate token usage for Gemini
-      const inputTokens = Math.ceil(prompt.length / 4);
-      const outputTokens = Math.ceil(improvedAnalysis.length / 4);
-      const totalTokens = inputTokens + outputTokens;
-      
+    try {
+      const llmResponse = await llmClient.generate(
+        { prompt, maxTokens: 8000, temperature: 0.3 },
+        { config: apiConfig, tracking: { projectId, analysisType: `${analysisType}-analysis-improvement`, userId } }
+      );
+      improvedAnalysis = llmResponse.content;
       tokenUsage = {
-        totalTokens,
-        cost: totalTokens * 0.00015 / 1000 // Rough cost estimate
+        totalTokens: llmResponse.usage.totalTokens,
+        cost: llmResponse.usage.totalTokens * 0.00015 / 1000 // Rough cost estimate
       };
-
-      console.log(`✅ Gemini analysis improvement completed. Tokens: ${tokenUsage.totalTokens}, Cost: ${tokenUsage.cost.toFixed(4)}`);
-    } else {
+      console.log('✅ AI call successful, response length:', improvedAnalysis.length);
+    } catch (aiError) {
+      console.error('❌ AI provider error:', aiError);
       return NextResponse.json(
-        { success: false, error: `Unsupported AI provider: ${apiConfig.provider}` },
-        { status: 400 }
+        { success: false, error: `AI provider error: ${aiError instanceof Error ? aiError.message : 'Unknown error'}` },
+        { status: 500 }
       );
     }
 
-    // Track token usage
-    try {
-      const tokenTrackingService = new TokenTrackingService();
-      await tokenTrackingService.trackTokenUsage(
-        projectId,
-        Math.ceil(tokenUsage.totalTokens * 0.7), // Rough estimate for input tokens
-        Math.ceil(tokenUsage.totalTokens * 0.3), // Rough estimate for output tokens
-        `${analysisType}-analysis-improvement`
-      );
-      console.log('📊 Token usage tracked successfully');
-    } catch (error) {
-      console.warn('⚠️ Failed to track token usage:', error);
-    }
+    console.log(`✅ Analysis improvement completed. Tokens: ${tokenUsage.totalTokens}, Cost: ${tokenUsage.cost.toFixed(4)}`);
 
     const result: ImproveAnalysisResult = {
       success: true,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { analysisVectorService } from '@/lib/analysisVectorService';
+import { llmClient } from '@/lib/llmClient';
 
 export async function POST(
   request: NextRequest,
@@ -116,26 +117,10 @@ Provide specific, actionable insights with data-driven recommendations. Include
 Focus on providing detailed analysis that helps understand market opportunities, competitive positioning, and customer needs.`;
 
     // Call AI service to generate the analysis
-    const aiResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/ai/analyze`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.INTERNAL_API_KEY || 'internal-key'}`
-      },
-      body: JSON.stringify({
-        prompt: analysisPrompt,
-        analysisType: 'market',
-        projectId: projectId,
-        userId: userId
-      })
-    });
-
-    if (!aiResponse.ok) {
-      throw new Error('AI analysis failed');
-    }
-
-    const aiData = await aiResponse.json();
-    const analysisContent = aiData.analysis || aiData.content || '';
+    const { content: analysisContent } = await llmClient.generate(
+      { prompt: analysisPrompt, maxTokens: 8000, temperature: 0.3 },
+      { tracking: { projectId, analysisType: 'market-analysis', userId } }
+    );
 
     // Parse the analysis into structured sections
     const sections = parseAnalysisSections(analysisContent);
@@ -62,12 +62,15 @@ export async function GET(
     const tasksContent = project.tasks || '';
     const taskStats = parseTasksFromMarkdown(tasksContent);
     
+    // Task activity reported by the VS Code extension, including time spent per task
+    const storedActivity = project.progress?.recentActivity ?? [];
+
     const progressData = {
       totalTasks: taskStats.totalTasks,
       completedTasks: taskStats.completedTasks,
       percentage: taskStats.percentage,
       lastUpdated: new Date(project.lastModified || new Date()),
-      recentActivity: [
+      recentActivity: storedActivity.length > 0 ? storedActivity : [
         {
           id: '1',
           timestamp: new Date(project.lastModified || new Date()),
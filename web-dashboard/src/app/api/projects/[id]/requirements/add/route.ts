@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { llmClient } from '@/lib/llmClient';
 import { ProjectService } from '@/lib/projectService';
+import { DocumentHistoryService } from '@/lib/documentHistory';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { auth } from '@clerk/nextjs/server';
@@ -80,13 +82,12 @@ interface GeneratedRequirement {
     acceptanceCriteria: string[];
 }
 
-async function generateRequirementWithAI(description: string, existingRequirements: string, projectContext: string): Promise<GeneratedRequirement> {
+async function generateRequirementWithAI(description: string, existingRequirements: string, projectContext: string, projectId: string): Promise<GeneratedRequirement> {
     const configValidation = validateSecureConfig();
     if (!configValidation.isValid) {
         throw new Error(`Configuration error: ${configValidation.errors.join(', ')}`);
     }
 
-    const config = getGoogleAIConfig();
 
     const prompt = `You are an expert business analyst and product manager. Based on the user's requirement description and the existing project context, generate a detailed, well-structured requirement following the established format.
 
@@ -128,31 +129,10 @@ Respond in JSON format:
 }`;
 
     try {
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                contents: [{
-                    parts: [{
-                        text: prompt
-                    }]
-                }],
-                generationConfig: {
-                    maxOutputTokens: 1200,
-                    temperature: 0.3,
-                }
-            })
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`AI API error: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        const content = result.candidates[0].content.parts[0].text;
+        const { content } = await llmClient.generate(
+            { prompt, maxTokens: 1200, temperature: 0.3 },
+            { tracking: { projectId, analysisType: 'requirement-generation' } }
+        );
 
         const jsonMatch = content.match(/\{[\s\S]*\}/);
         if (!jsonMatch) {
@@ -228,7 +208,7 @@ export async function POST(
         }
 
         // Generate requirement with AI
-        const generatedRequirement = await generateRequirementWithAI(description.trim(), requirementsContent, projectContext);
+        const generatedRequirement = await generateRequirementWithAI(description.trim(), requirementsContent, projectContext, id);
 
         // Parse the content to find the next requirement number
         const nextRequirementNumber = getNextRequirementNumber(requirementsContent);
@@ -261,6 +241,16 @@ export async function POST(
             );
         }
 
+        await DocumentHistoryService.getInstance().recordSnapshot({
+            projectId: id,
+            document: 'requirements',
+            content: updatedContent,
+            author: userId,
+            source: 'ai-generation',
+            message: `Added requirement ${nextRequirementNumber}`,
+            previousContent: project.requirements
+        });
+
         return NextResponse.json({
             success: true,
             requirementNumber: nextRequirementNumber,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { llmClient } from '@/lib/llmClient';
 import { ProjectService } from '@/lib/projectService';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -82,13 +83,12 @@ interface GeneratedTask {
   parentTaskNumber?: string;
 }
 
-async function generateTaskFromRequirement(requirement: string, existingTasks: string, projectContext: string): Promise<GeneratedTask> {
+async function generateTaskFromRequirement(requirement: string, existingTasks: string, projectContext: string, projectId: string): Promise<GeneratedTask> {
   const configValidation = validateSecureConfig();
   if (!configValidation.isValid) {
     throw new Error(`Configuration error: ${configValidation.errors.join(', ')}`);
   }
 
-  const config = getGoogleAIConfig();
 
   const prompt = `You are an expert project manager and software architect. Based on the provided requirement and existing project context, generate a detailed implementation task.
 
@@ -131,31 +131,10 @@ Respond in JSON format:
 }`;
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          maxOutputTokens: 1000,
-          temperature: 0.3,
-        }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`AI API error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    const content = result.candidates[0].content.parts[0].text;
+    const { content } = await llmClient.generate(
+      { prompt, maxTokens: 1000, temperature: 0.3 },
+      { tracking: { projectId, analysisType: 'requirement-transition' } }
+    );
 
     const jsonMatch = content.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -372,7 +351,7 @@ export async function POST(
     }
 
     // Generate task from requirement using AI
-    const generatedTask = await generateTaskFromRequirement(selectedRequirement, tasksContent, projectContext);
+    const generatedTask = await generateTaskFromRequirement(selectedRequirement, tasksContent, projectContext, id);
     
     // Parse the content to find the next task number
     const lines = tasksContent.split('\n');
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { analysisVectorService } from '@/lib/analysisVectorService';
-import { getApiConfiguration } from '@/lib/apiConfig';
+import { ApiConfiguration } from '@/lib/apiConfig';
 import { validateSecureConfig } from '@/lib/secureConfig';
 import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { llmClient } from '@/lib/llmClient';
 
 export async function POST(
   request: NextRequest,
@@ -112,11 +112,13 @@ export async function POST(
       );
     }
 
-    const apiConfig = getApiConfiguration();
-    if (!apiConfig) {
+    let apiConfig: ApiConfiguration;
+    try {
+      apiConfig = await llmClient.resolveConfiguration();
+    } catch (error) {
       return NextResponse.json(
-        { error: 'API configuration not found' },
-        { status: 500 }
+        { error: error instanceof Error ? error.message : 'API configuration not found' },
+        { status: 400 }
       );
     }
 
@@ -246,13 +248,11 @@ Maintain a professional tone while being thorough in your analysis. Focus on ide
 Use clear, professional language that demonstrates expertise and genuine concern for project success.`;
 
       try {
-        // Call Google AI directly for this section
-        const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
-        const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-        const result = await model.generateContent(sectionPrompt);
-        const response = await result.response;
-        const sectionContent = response.text();
+        // Call the configured AI provider for this section
+        const { content: sectionContent } = await llmClient.generate(
+          { prompt: sectionPrompt, maxTokens: 4000, temperature: 0.3 },
+          { config: apiConfig, tracking: { projectId, analysisType: 'roast-auto-analysis', userId } }
+        );
         
         roastData[section.id] = sectionContent;
         console.log(`✅ Completed roast section: ${section.title}`);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 
 export async function GET(
   request: Request,
@@ -24,30 +25,11 @@ export async function GET(
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Get all sharing records for this project
-    const sharingResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    const shares = await StorageService.getInstance().projectShares.list({ projectId });
 
     // Get project details to check ownership
-    const projectResponse = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const project = projectResponse.matches?.[0]?.metadata;
+    const project = await ProjectService.getInstance().findProject(projectId);
     if (!project) {
       return NextResponse.json(
         { success: false, error: 'Project not found' },
@@ -55,38 +37,25 @@ export async function GET(
       );
     }
 
-    const isOwner = String(project.userId) === userId;
+    const isOwner = project.userId === userId;
 
-    // If not owner, only show records where user is shared with
-    const sharedWithArray = Array.isArray(project.sharedWith) ? project.sharedWith : [];
-    const userEmail = sharedWithArray.find((email: string) => email === userId) || '';
-    
-    let filteredSharingRecords = sharingResponse.matches || [];
-    
-    if (!isOwner) {
-      // For non-owners, only show records where they are the shared user
-      filteredSharingRecords = filteredSharingRecords.filter(match => {
-        const record = match.metadata;
-        return record && record.sharedWithEmail === userEmail;
-      });
-    }
+    // For non-owners, only show records where they are the shared user
+    const userEmail = isOwner ? '' : (await currentUser())?.emailAddresses[0]?.emailAddress;
+    const filteredSharingRecords = isOwner
+      ? shares
+      : shares.filter(record => userEmail && record.sharedWithEmail === userEmail);
 
     // Format the sharing records
-    const sharingRecords = filteredSharingRecords.map(match => {
-      const record = match.metadata;
-      if (!record) return null;
-
-      return {
-        id: record.id || match.id,
-        projectId: record.projectId,
-        sharedWithEmail: record.sharedWithEmail,
-        role: record.role,
-        sharedAt: record.sharedAt,
-        status: record.status,
-        respondedAt: record.respondedAt,
-        sharedBy: record.sharedBy
-      };
-    }).filter(Boolean); // Remove null entries
+    const sharingRecords = filteredSharingRecords.map(record => ({
+      id: record.id,
+      projectId: record.projectId,
+      sharedWithEmail: record.sharedWithEmail,
+      role: record.role,
+      sharedAt: record.sharedAt,
+      status: record.status,
+      respondedAt: record.respondedAt,
+      sharedBy: record.sharedBy
+    }));
 
     return NextResponse.json({
       success: true,
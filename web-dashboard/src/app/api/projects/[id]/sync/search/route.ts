@@ -1,17 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { HybridSearchService } from '@/lib/hybridSearch';
 
+// POST /api/projects/[id]/sync/search - Keyword + vector search over the project's documents
+// Body: { query, topK = 10 }; results carry the source document, heading path and a highlighted snippet
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { id: projectId } = await params;
-    const { query, topK = 5 } = await request.json();
-    
-    const results = await PineconeSyncServiceInstance.searchContextDocuments(projectId, query, topK);
-    
-    return NextResponse.json(results);
+    const { query, topK = 10 } = await request.json();
+
+    if (typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'query is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const results = await HybridSearchService.getInstance().search(
+      projectId,
+      access.ownerId,
+      query,
+      Math.min(Math.max(Number(topK) || 10, 1), 50)
+    );
+
+    return NextResponse.json({ success: true, results });
   } catch (error) {
     console.error('Failed to search documents:', error);
     return NextResponse.json(
@@ -1,17 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { HybridSearchService } from '@/lib/hybridSearch';
 
+// POST /api/projects/[id]/sync/similar - Sections of the project's documents related to a piece of content
+// Body: { content, topK = 5 }; same result shape as sync/search
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { id: projectId } = await params;
     const { content, topK = 5 } = await request.json();
-    
-    const results = await PineconeSyncServiceInstance.getSimilarDocuments(projectId, content, topK);
-    
-    return NextResponse.json(results);
+
+    if (typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'content is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const results = await HybridSearchService.getInstance().search(
+      projectId,
+      access.ownerId,
+      content,
+      Math.min(Math.max(Number(topK) || 5, 1), 50)
+    );
+
+    return NextResponse.json({ success: true, results });
   } catch (error) {
     console.error('Failed to get similar documents:', error);
     return NextResponse.json(
@@ -1,15 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
 import { PineconeSyncServiceInstance } from '@/lib/pineconeSyncService';
+import { DocumentHistoryService, contextDocumentKey } from '@/lib/documentHistory';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+
+interface UploadedContextDocument {
+  id?: string;
+  fileName?: string;
+  title?: string;
+  content?: unknown;
+}
+
+// The parts of the uploaded project the history is recorded from; the rest goes to the sync as is
+interface UploadedProjectData {
+  requirements?: string;
+  design?: string;
+  tasks?: string;
+  contextDocuments?: UploadedContextDocument[];
+  [key: string]: unknown;
+}
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { id: projectId } = await params;
-    const localData = await request.json();
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canWrite) {
+      return NextResponse.json(
+        { error: 'You do not have permission to update this project' },
+        { status: 403 }
+      );
+    }
+
+    const localData: UploadedProjectData = await request.json();
     
-    const result = await PineconeSyncServiceInstance.syncProject(projectId, localData);
+    // The synced project metadata names its owner; never take that from the request body
+    const result = await PineconeSyncServiceInstance.syncProject(projectId, { ...localData, userId: access.ownerId });
+
+    if (result.success) {
+      await recordUploadedHistory(projectId, localData, {
+        author: userId,
+        authorName: user?.fullName || user?.emailAddresses[0]?.emailAddress
+      });
+    }
     
     return NextResponse.json(result);
   } catch (error) {
@@ -20,3 +72,38 @@ export async function POST(
     );
   }
 }
+
+// The route takes a dashboard session only (SyncStatus uploads through it), so each changed
+// document is a 'dashboard' version
+async function recordUploadedHistory(
+  projectId: string,
+  localData: UploadedProjectData,
+  uploader: { author: string; authorName?: string }
+): Promise<void> {
+  const history = DocumentHistoryService.getInstance();
+  const meta = {
+    ...uploader,
+    source: 'dashboard' as const,
+    message: 'Synced from the dashboard'
+  };
+
+  await history.recordSpecs(projectId, {
+    requirements: localData.requirements || undefined,
+    design: localData.design || undefined,
+    tasks: localData.tasks || undefined
+  }, meta);
+
+  if (Array.isArray(localData.contextDocuments)) {
+    for (const doc of localData.contextDocuments) {
+      const name = doc.fileName || doc.title || doc.id;
+      if (typeof doc.content === 'string' && doc.content.trim() && name) {
+        await history.recordSnapshot({
+          projectId,
+          document: contextDocumentKey(String(name)),
+          content: doc.content,
+          ...meta
+        });
+      }
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGoogleAIConfig, validateSecureConfig } from '@/lib/secureConfig';
+import { validateSecureConfig } from '@/lib/secureConfig';
+import { llmClient } from '@/lib/llmClient';
 import { ProjectService } from '@/lib/projectService';
+import { FileSystemManager } from '@/lib/fileSystem';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { auth } from '@clerk/nextjs/server';
@@ -90,16 +92,13 @@ interface GeneratedTask {
   parentTaskNumber?: string;
 }
 
-async function generateTaskWithAI(description: string, existingTasks: string, projectContext: string): Promise<GeneratedTask> {
+async function generateTaskWithAI(description: string, existingTasks: string, projectContext: string, projectId: string): Promise<GeneratedTask> {
   // Validate secure configuration
   const configValidation = validateSecureConfig();
   if (!configValidation.isValid) {
     throw new Error(`Configuration error: ${configValidation.errors.join(', ')}`);
   }
 
-  // Get Google AI configuration
-  const config = getGoogleAIConfig();
-
   const prompt = `You are an expert project manager and software architect. Based on the user's task description and the existing project context, generate a detailed, actionable task.
 
 PROJECT CONTEXT:
@@ -140,31 +139,10 @@ Respond in JSON format:
 }`;
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          maxOutputTokens: 1000,
-          temperature: 0.3,
-        }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`AI API error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    const content = result.candidates[0].content.parts[0].text;
+    const { content } = await llmClient.generate(
+      { prompt, maxTokens: 1000, temperature: 0.3 },
+      { tracking: { projectId, analysisType: 'task-generation' } }
+    );
 
     // Extract JSON from the response
     const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -287,7 +265,7 @@ export async function POST(
     }
 
     // Generate task with AI
-    const generatedTask = await generateTaskWithAI(description.trim(), tasksContent, projectContext);
+    const generatedTask = await generateTaskWithAI(description.trim(), tasksContent, projectContext, id);
     
     // Parse the content to find the next task number
     const lines = tasksContent.split('\n');
@@ -307,9 +285,13 @@ export async function POST(
     // Insert the new task
     lines.splice(insertionIndex, 0, ...newTask.split('\n'));
     
-    // Write back to file
+    // Write back to file, keeping the previous version in the project's history
     const updatedContent = lines.join('\n');
-    await fs.writeFile(tasksFilePath, updatedContent, 'utf-8');
+    await FileSystemManager.writeMarkdownFile(tasksFilePath, updatedContent, true, {
+      source: 'ai-generation',
+      author: userId,
+      message: `Added task ${nextTaskNumber}`
+    });
 
     return NextResponse.json({
       success: true,
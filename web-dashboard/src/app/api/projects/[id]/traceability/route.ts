@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { ProjectService } from '@/lib/projectService';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { buildTraceabilityMatrix } from '@/lib/traceability';
+
+// GET /api/projects/[id]/traceability - Requirements-to-tasks traceability matrix
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    // Documents live in the owner's copy of the project, whoever is reading them
+    const projectService = ProjectService.getInstance();
+    const project = await projectService.getProject(access.ownerId, projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const [requirements, tasks] = await Promise.all([
+      projectService.resolveDocumentContent(project.requirements || ''),
+      projectService.resolveDocumentContent(project.tasks || '')
+    ]);
+
+    const matrix = buildTraceabilityMatrix(requirements, tasks);
+    console.log(`📊 Traced ${matrix.requirements.length} requirements against ${matrix.tasks.length} tasks for project ${projectId}`);
+
+    return NextResponse.json(matrix);
+  } catch (error) {
+    console.error('Failed to build traceability matrix:', error);
+    return NextResponse.json(
+      { error: 'Failed to build traceability matrix' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getApiConfiguration } from '@/lib/apiConfig';
+import { llmClient } from '@/lib/llmClient';
 import { validateSecureConfig } from '@/lib/secureConfig';
 import { analysisVectorService } from '@/lib/analysisVectorService';
 
@@ -57,7 +58,7 @@ export async function POST(
       );
     }
 
-    console.log('🚀 Calling real Gemini API for workflow analysis...');
+    console.log('🚀 Calling AI provider for workflow analysis...');
     
     // Get relevant context using vector search
     console.log(`🔍 Getting vector search context for workflow analysis`);
@@ -84,34 +85,13 @@ export async function POST(
     const prompt = createBusinessAnalysisPrompt(nodes, edges, vectorContext);
     console.log('📝 Prompt length:', prompt.length);
     
-    // Call Gemini API
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiConfig.model}:generateContent?key=${apiConfig.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 2048,
-        }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const responseText = data.candidates[0].content.parts[0].text;
-    console.log('✅ Gemini API response received, length:', responseText.length);
+    // Call the configured AI provider
+    const llmResponse = await llmClient.generate(
+      { prompt, maxTokens: 2048, temperature: 0.7 },
+      { config: apiConfig, tracking: { projectId, analysisType: 'workflow-analysis', userId } }
+    );
+    const responseText = llmResponse.content;
+    console.log('✅ AI response received, length:', responseText.length);
     
     // Parse the response
     const analysisResult = parseGeminiResponse(responseText);
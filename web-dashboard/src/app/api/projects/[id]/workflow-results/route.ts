@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { SupabaseService } from '@/lib/supabase';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+
+// GET /api/projects/[id]/workflow-results - Most recent execution results (?limit=, default 20)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const results = await SupabaseService.getInstance().getWorkflowResults(projectId, limit);
+
+    return NextResponse.json({
+      success: true,
+      results
+    });
+
+  } catch (error) {
+    console.error('❌ Workflow results loading failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to load workflow results' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/workflow-results - Store the results of a workflow execution
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const { workflowResults, workflowVersion } = await request.json();
+
+    if (!workflowResults || typeof workflowResults !== 'object') {
+      return NextResponse.json(
+        { error: 'Workflow results are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canWrite) {
+      return NextResponse.json(
+        { error: 'You do not have permission to save results for this project' },
+        { status: 403 }
+      );
+    }
+
+    const executionId = String(workflowResults.executionId || `exec-${Date.now()}`);
+    console.log(`💾 Saving workflow results ${executionId} for project ${projectId}`);
+
+    const result = await SupabaseService.getInstance().saveWorkflowResult({
+      project_id: projectId,
+      execution_id: executionId,
+      workflow_version: Number.isInteger(workflowVersion) ? workflowVersion : null,
+      results: workflowResults,
+      created_by: userId
+    });
+
+    console.log('✅ Workflow results saved');
+
+    return NextResponse.json({
+      success: true,
+      result
+    });
+
+  } catch (error) {
+    console.error('❌ Workflow results saving failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to save workflow results' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { SupabaseService } from '@/lib/supabase';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+
+// GET /api/projects/[id]/workflow - Latest workflow, a specific ?version=, or ?history=true for the version list
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const supabaseService = SupabaseService.getInstance();
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('history') === 'true') {
+      const versions = await supabaseService.getWorkflowVersions(projectId);
+      return NextResponse.json({
+        success: true,
+        versions,
+        canEdit: access.canWrite
+      });
+    }
+
+    const versionParam = searchParams.get('version');
+    const version = versionParam ? parseInt(versionParam, 10) : undefined;
+    if (versionParam && (!Number.isInteger(version) || version! < 1)) {
+      return NextResponse.json(
+        { error: 'Version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📊 Loading workflow${version ? ` v${version}` : ''} for project ${projectId}`);
+
+    const workflow = await supabaseService.getWorkflow(projectId, version);
+
+    if (!workflow) {
+      if (version) {
+        return NextResponse.json(
+          { error: `Workflow version ${version} not found` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: false,
+        message: 'No workflow found',
+        canEdit: access.canWrite
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflow,
+      canEdit: access.canWrite
+    });
+
+  } catch (error) {
+    console.error('❌ Workflow loading failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to load workflow' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/workflow - Save the diagram as a new version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const { nodes, edges, message } = await request.json();
+
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+      return NextResponse.json(
+        { error: 'Workflow nodes and edges are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canWrite) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit this workflow' },
+        { status: 403 }
+      );
+    }
+
+    console.log(`💾 Saving workflow for project ${projectId} (${nodes.length} nodes, ${edges.length} edges)`);
+
+    const workflow = await SupabaseService.getInstance().saveWorkflowVersion({
+      project_id: projectId,
+      nodes,
+      edges,
+      message: typeof message === 'string' && message.trim() ? message.trim() : null,
+      created_by: userId
+    });
+
+    console.log(`✅ Workflow saved as version ${workflow.version}`);
+
+    return NextResponse.json({
+      success: true,
+      workflow
+    });
+
+  } catch (error) {
+    console.error('❌ Workflow saving failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to save workflow' },
+      { status: 500 }
+    );
+  }
+}
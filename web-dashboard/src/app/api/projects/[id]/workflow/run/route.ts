@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { resolveProjectAccess } from '@/lib/projectAccess';
+import { createEventStreamResponse, wantsEventStream } from '@/lib/eventStream';
+import { runWorkflow, validateWorkflow } from '@/lib/workflowEngine';
+
+// Code nodes run in worker threads, which the edge runtime does not provide
+export const runtime = 'nodejs';
+
+// POST /api/projects/[id]/workflow/run - Execute a workflow graph
+// Streams `node` events ({ nodeId, status, output?, error? }) followed by `done` when the
+// client accepts text/event-stream; otherwise returns the full run result as JSON.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const { nodes, edges, input } = await request.json();
+
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+      return NextResponse.json(
+        { error: 'Workflow nodes and edges are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await currentUser();
+    const access = await resolveProjectAccess(projectId, userId, user?.emailAddresses[0]?.emailAddress);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    // Running a workflow executes user code, so it needs the same rights as editing it
+    if (!access.canWrite) {
+      return NextResponse.json(
+        { error: 'You do not have permission to run this workflow' },
+        { status: 403 }
+      );
+    }
+
+    const issues = validateWorkflow(nodes, edges);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'Workflow is not valid', issues },
+        { status: 422 }
+      );
+    }
+
+    console.log(`▶️ Running workflow for project ${projectId} (${nodes.length} nodes)`);
+
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(request, async (send, signal) => {
+        const result = await runWorkflow(nodes, edges, {
+          projectId,
+          input,
+          signal,
+          onNodeEvent: (event) => send('node', event)
+        });
+        console.log(`✅ Workflow run ${result.executionId} finished: ${result.status}`);
+        send('done', result);
+      });
+    }
+
+    const result = await runWorkflow(nodes, edges, { projectId, input, signal: request.signal });
+    console.log(`✅ Workflow run ${result.executionId} finished: ${result.status}`);
+
+    return NextResponse.json({
+      success: result.status === 'completed',
+      result
+    });
+
+  } catch (error) {
+    console.error('❌ Workflow run failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to run workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 import { ProjectSharing, TeamRole } from '@/types/shared';
 import { NotificationService } from '@/lib/notificationService';
 
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
-
 // Share a project with a user by email
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
@@ -38,16 +36,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check if user owns the project or has admin access
-    const projectResponse = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const project = projectResponse.matches?.[0]?.metadata;
+    const project = await ProjectService.getInstance().findProject(projectId);
     if (!project) {
       return NextResponse.json(
         { success: false, error: 'Project not found' },
@@ -64,18 +53,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check if project is already shared with this email
-    const existingShareResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId },
-        sharedWithEmail: { $eq: email },
-        status: { $eq: 'active' }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const storage = StorageService.getInstance();
+    const existingShare = await storage.projectShares.findOne({ projectId, sharedWithEmail: email, status: 'active' });
 
-    if (existingShareResponse.matches && existingShareResponse.matches.length > 0) {
+    if (existingShare) {
       return NextResponse.json(
         { success: false, error: 'Project is already shared with this email' },
         { status: 409 }
@@ -97,69 +78,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       status: 'pending'
     };
 
-    // Store project sharing in Pinecone with timeout and retry logic
-    const upsertWithTimeout = async () => {
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Pinecone operation timed out')), 30000); // 30 second timeout
-      });
-
-      const upsertPromise = index.namespace('project_sharing').upsert([{
-        id: sharingId,
-        values: new Array(1024).fill(0.1),
-        metadata: {
-          ...projectSharing,
-          sharedAt: projectSharing.sharedAt.toISOString(),
-          expiresAt: expiresAt.toISOString()
-        }
-      }]);
-
-      return Promise.race([upsertPromise, timeoutPromise]);
-    };
-
-    // Retry logic for Pinecone operations
-    let retryCount = 0;
-    const maxRetries = 3;
-    let lastError: Error | undefined;
-
-    while (retryCount < maxRetries) {
-      try {
-        await upsertWithTimeout();
-        break; // Success, exit retry loop
-      } catch (error) {
-        lastError = error as Error;
-        retryCount++;
-        console.warn(`Pinecone upsert attempt ${retryCount} failed:`, error);
-        
-        if (retryCount < maxRetries) {
-          // Exponential backoff: wait 1s, 2s, 4s
-          const delay = Math.pow(2, retryCount - 1) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    if (retryCount === maxRetries && lastError) {
-      throw new Error(`Failed to save project sharing after ${maxRetries} attempts: ${lastError.message}`);
-    }
+    // The owner's email lets teams created from this share list the owner
+    const user = await currentUser();
 
-    // Don't update project's sharedWith array until invitation is accepted
-    // const currentSharedWith = Array.isArray(project.sharedWith) ? project.sharedWith : [];
-    // if (!currentSharedWith.includes(email)) {
-    //   const updatedSharedWith = [...currentSharedWith, email];
-      
-    //   await index.namespace('projects').upsert([{
-    //     id: String(project.projectId),
-    //     values: new Array(1024).fill(0.1),
-    //     metadata: {
-    //       ...project,
-    //       sharedWith: updatedSharedWith
-    //     }
-    //   });
-    // }
+    await storage.projectShares.put({
+      ...projectSharing,
+      sharedAt: projectSharing.sharedAt.toISOString(),
+      sharedByEmail: user?.emailAddresses?.[0]?.emailAddress,
+      expiresAt: expiresAt.toISOString()
+    });
 
     // Create notification for project sharing
     try {
-      const projectName = String(project.name || 'Unknown Project');
+      const projectName = project.name || 'Unknown Project';
       await NotificationService.notifyProjectInvitation(userId, projectId, projectName, email, role);
     } catch (notificationError) {
       console.error('Failed to create project sharing notification:', notificationError);
@@ -208,24 +139,16 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     if (projectId) {
       // Get sharing details for a specific project
-      const response = await index.namespace('project_sharing').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          projectId: { $eq: projectId },
-          status: { $eq: 'active' }
-        },
-        topK: 100,
-        includeMetadata: true
-      });
+      const shares = await StorageService.getInstance().projectShares.list({ projectId, status: 'active' });
 
-      const sharing = response.matches?.map(match => ({
-        id: match.metadata?.id || match.id,
-        projectId: match.metadata?.projectId || '',
-        email: match.metadata?.sharedWithEmail || '',
-        role: match.metadata?.role || 'viewer',
-        sharedAt: match.metadata?.sharedAt || '',
-        sharedBy: match.metadata?.sharedBy || ''
-      })) || [];
+      const sharing = shares.map(share => ({
+        id: share.id,
+        projectId: share.projectId,
+        email: share.sharedWithEmail,
+        role: share.role,
+        sharedAt: share.sharedAt,
+        sharedBy: share.sharedBy
+      }));
 
       return NextResponse.json({
         success: true,
@@ -271,16 +194,8 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
     }
 
     // Get sharing details
-    const sharingResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        id: { $eq: sharingId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const sharing = sharingResponse.matches?.[0]?.metadata;
+    const storage = StorageService.getInstance();
+    const sharing = await storage.projectShares.get(sharingId);
     if (!sharing) {
       return NextResponse.json(
         { success: false, error: 'Sharing record not found' },
@@ -291,16 +206,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
     // Check if user can revoke (must be project owner or the one who shared)
     if (sharing.sharedBy !== userId) {
       // Check if user is project owner
-      const projectResponse = await index.namespace('projects').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          projectId: { $eq: sharing.projectId }
-        },
-        topK: 1,
-        includeMetadata: true
-      });
-
-      const project = projectResponse.matches?.[0]?.metadata;
+      const project = await ProjectService.getInstance().findProject(sharing.projectId);
       if (!project || project.userId !== userId) {
         return NextResponse.json(
           { success: false, error: 'Insufficient permissions to revoke sharing' },
@@ -309,40 +215,12 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       }
     }
 
-    // Update sharing status to revoked
-    await index.namespace('project_sharing').upsert([{
-      id: sharingId,
-      values: new Array(1024).fill(0.1),
-      metadata: {
-        ...sharing,
-        status: 'revoked'
-      }
-    }]);
-
-    // Remove from project's sharedWith array
-    const projectResponse = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: sharing.projectId }
-      },
-      topK: 1,
-      includeMetadata: true
+    // The sharing record is what grants access, so revoking it is all there is to do
+    await storage.projectShares.put({
+      ...sharing,
+      status: 'revoked'
     });
 
-    const project = projectResponse.matches?.[0]?.metadata;
-    if (project && Array.isArray(project.sharedWith)) {
-      const updatedSharedWith = project.sharedWith.filter((email: string) => email !== sharing.sharedWithEmail);
-      
-      await index.namespace('projects').upsert([{
-        id: String(project.projectId),
-        values: new Array(1024).fill(0.1),
-        metadata: {
-          ...project,
-          sharedWith: updatedSharedWith
-        }
-      }]);
-    }
-
     return NextResponse.json({
       success: true,
       message: 'Project sharing revoked successfully'
@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 import { TeamProject, TeamRole } from '@/types/shared';
 
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
-
 // Add a project to a team
 export async function POST(
   request: NextRequest,
@@ -31,18 +29,9 @@ export async function POST(
     }
 
     // Check if user is a member of this team with owner or admin role
-    const userMembershipResponse = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        userId: { $eq: userId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const userMembership = userMembershipResponse.matches?.[0]?.metadata;
-    if (!userMembership || !['owner', 'admin'].includes(String(userMembership.role))) {
+    const storage = StorageService.getInstance();
+    const userMembership = await storage.teamMembers.findOne({ teamId, userId });
+    if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to add projects to team' },
         { status: 403 }
@@ -50,17 +39,7 @@ export async function POST(
     }
 
     // Check if project exists and user owns it
-    const projectResponse = await index.namespace(PINECONE_NAMESPACE_PROJECTS).query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId },
-        type: { $eq: 'user-project' }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const project = projectResponse.matches?.[0]?.metadata;
+    const project = await ProjectService.getInstance().findProject(projectId);
     if (!project) {
       return NextResponse.json(
         { success: false, error: 'Project not found' },
@@ -76,17 +55,9 @@ export async function POST(
     }
 
     // Check if project is already in this team
-    const existingTeamProjectResponse = await index.namespace('team_projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const existingTeamProject = await storage.teamProjects.findOne({ teamId, projectId });
 
-    if (existingTeamProjectResponse.matches?.length > 0) {
+    if (existingTeamProject) {
       return NextResponse.json(
         { success: false, error: 'Project is already in this team' },
         { status: 400 }
@@ -103,21 +74,10 @@ export async function POST(
       projectRole: projectRole as TeamRole
     };
 
-    await index.namespace('team_projects').upsert([{
-      id: teamProject.id,
-      values: new Array(1024).fill(0.1),
-      metadata: teamProject as Record<string, any>
-    }]);
-
-    // Update project with teamId
-    await index.namespace(PINECONE_NAMESPACE_PROJECTS).upsert([{
-      id: projectId,
-      values: new Array(1024).fill(0.1),
-      metadata: {
-        ...project,
-        teamId
-      }
-    }]);
+    await storage.teamProjects.put({
+      ...teamProject,
+      addedAt: teamProject.addedAt.toISOString()
+    });
 
     return NextResponse.json({
       success: true,
@@ -150,17 +110,10 @@ export async function GET(
     const { teamId } = await params;
 
     // Check if user is a member of this team
-    const userMembershipResponse = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        userId: { $eq: userId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const storage = StorageService.getInstance();
+    const userMembership = await storage.teamMembers.findOne({ teamId, userId });
 
-    if (!userMembershipResponse.matches?.length) {
+    if (!userMembership) {
       return NextResponse.json(
         { success: false, error: 'You are not a member of this team' },
         { status: 403 }
@@ -168,36 +121,25 @@ export async function GET(
     }
 
     // Get all team projects
-    const teamProjectsResponse = await index.namespace('team_projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
-
-    const teamProjects = teamProjectsResponse.matches || [];
+    const teamProjects = await storage.teamProjects.list({ teamId });
 
     // Get project details for each team project
+    const details = await ProjectService.getInstance().findProjects(teamProjects.map(teamProject => teamProject.projectId));
     const projects = [];
     for (const teamProject of teamProjects) {
-      if (!teamProject.metadata) continue;
-      
-      const projectResponse = await index.namespace(PINECONE_NAMESPACE_PROJECTS).query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          projectId: { $eq: teamProject.metadata.projectId }
-        },
-        topK: 1,
-        includeMetadata: true
-      });
-
-      if (projectResponse.matches?.[0]?.metadata) {
+      const project = details.find(project => project.projectId === teamProject.projectId);
+      if (project) {
         projects.push({
-          ...projectResponse.matches[0].metadata,
-          teamRole: teamProject.metadata.projectRole,
-          addedAt: teamProject.metadata.addedAt
+          projectId: project.projectId,
+          userId: project.userId,
+          name: project.name,
+          description: project.description,
+          template: project.template,
+          isPublic: project.isPublic || false,
+          createdAt: project.createdAt,
+          lastModified: project.lastModified,
+          teamRole: teamProject.projectRole,
+          addedAt: teamProject.addedAt
         });
       }
     }
@@ -1,11 +1,9 @@
 import { NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 import { Team, TeamMember, TeamRole } from '@/types/shared';
 
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
-
 // Auto-create teams from shared projects or connect existing shared projects to teams
 export async function POST(): Promise<NextResponse> {
   try {
@@ -20,72 +18,29 @@ export async function POST(): Promise<NextResponse> {
     const user = await currentUser();
     const userEmail = user?.emailAddresses?.[0]?.emailAddress || '';
 
-    // Get all projects that are shared with the current user
-    const sharedProjectsResponse = await index.namespace('projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        sharedWith: { $in: [userEmail] }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    // Get all projects that are shared with the current user (accepted invitations)
+    const storage = StorageService.getInstance();
+    const acceptedShares = await storage.projectShares.list({ sharedWithEmail: userEmail, status: 'accepted' });
 
-    console.log(`Found ${sharedProjectsResponse.matches?.length || 0} projects in projects namespace with sharedWith: ${userEmail}`);
-
-    // Also check project_sharing namespace for accepted invitations
-    const acceptedSharingResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        sharedWithEmail: { $eq: userEmail },
-        status: { $eq: 'accepted' }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
-
-    console.log(`Found ${acceptedSharingResponse.matches?.length || 0} accepted project sharing records for email: ${userEmail}`);
+    console.log(`Found ${acceptedShares.length} accepted project sharing records for email: ${userEmail}`);
 
     // Get projects that the current user owns and has shared with others
-    const ownedAndSharedResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        sharedBy: { $eq: userId },
-        status: { $in: ['pending', 'accepted', 'active'] }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    const ownedAndShared = (await storage.projectShares.list({ sharedBy: userId }))
+      .filter(share => ['pending', 'accepted', 'active'].includes(share.status));
 
-    console.log(`Found ${ownedAndSharedResponse.matches?.length || 0} projects owned by current user and shared with others`);
+    console.log(`Found ${ownedAndShared.length} projects owned by current user and shared with others`);
 
     // Combine all sources of projects that should have teams
     const sharedProjectIds = new Set<string>();
     
-    // Add projects from projects namespace (projects shared with current user)
-    if (sharedProjectsResponse.matches) {
-      for (const match of sharedProjectsResponse.matches) {
-        if (match.metadata?.projectId) {
-          sharedProjectIds.add(String(match.metadata.projectId));
-        }
-      }
-    }
-    
-    // Add projects from project_sharing namespace (projects shared with current user)
-    if (acceptedSharingResponse.matches) {
-      for (const match of acceptedSharingResponse.matches) {
-        if (match.metadata?.projectId) {
-          sharedProjectIds.add(String(match.metadata.projectId));
-        }
-      }
+    // Add projects from project shares (projects shared with current user)
+    for (const share of acceptedShares) {
+      sharedProjectIds.add(share.projectId);
     }
 
     // Add projects that current user owns and has shared
-    if (ownedAndSharedResponse.matches) {
-      for (const match of ownedAndSharedResponse.matches) {
-        if (match.metadata?.projectId) {
-          sharedProjectIds.add(String(match.metadata.projectId));
-        }
-      }
+    for (const share of ownedAndShared) {
+      sharedProjectIds.add(share.projectId);
     }
 
     if (sharedProjectIds.size === 0) {
@@ -105,32 +60,14 @@ export async function POST(): Promise<NextResponse> {
     // Process each shared project
     for (const projectId of sharedProjectIds) {
       // Get project details
-      const projectResponse = await index.namespace('projects').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          projectId: { $eq: projectId }
-        },
-        topK: 1,
-        includeMetadata: true
-      });
-
-      const project = projectResponse.matches?.[0]?.metadata;
+      const project = await ProjectService.getInstance().findProject(projectId);
       if (!project) continue;
 
-      const projectName = String(project.name || 'Untitled Project');
-      const projectOwnerId = String(project.userId);
+      const projectName = project.name || 'Untitled Project';
+      const projectOwnerId = project.userId;
 
       // Check if this project is already part of a team
-      const existingTeamProjectResponse = await index.namespace('team_projects').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          projectId: { $eq: projectId }
-        },
-        topK: 1,
-        includeMetadata: true
-      });
-
-      if (existingTeamProjectResponse.matches?.length > 0) {
+      if (await storage.teamProjects.findOne({ projectId })) {
         // Project is already part of a team, skip
         continue;
       }
@@ -139,43 +76,21 @@ export async function POST(): Promise<NextResponse> {
       let teamId: string;
       let team: Team | null = null;
 
-      const existingTeamResponse = await index.namespace('teams').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          ownerId: { $eq: projectOwnerId }
-        },
-        topK: 1,
-        includeMetadata: true
-      });
+      const existingTeam = await storage.teams.findOne({ ownerId: projectOwnerId });
 
-      if (existingTeamResponse.matches?.length > 0) {
+      if (existingTeam) {
         // Use existing team
-        const existingTeam = existingTeamResponse.matches[0].metadata;
-        if (!existingTeam) continue;
-        
-        teamId = String(existingTeam.teamId || existingTeam.id);
+        teamId = existingTeam.id;
         team = {
-          id: teamId,
-          name: String(existingTeam.name || 'Team'),
-          description: String(existingTeam.description || ''),
-          createdAt: new Date(String(existingTeam.createdAt)),
-          updatedAt: new Date(String(existingTeam.updatedAt)),
-          ownerId: String(existingTeam.ownerId),
-          isActive: Boolean(existingTeam.isActive)
+          ...existingTeam,
+          name: existingTeam.name || 'Team',
+          description: existingTeam.description || '',
+          createdAt: new Date(existingTeam.createdAt),
+          updatedAt: new Date(existingTeam.updatedAt)
         };
 
         // Check if the project is already in this team
-        const existingTeamProjectResponse = await index.namespace('team_projects').query({
-          vector: new Array(1024).fill(0.1),
-          filter: {
-            teamId: { $eq: teamId },
-            projectId: { $eq: projectId }
-          },
-          topK: 1,
-          includeMetadata: true
-        });
-
-        if (existingTeamProjectResponse.matches?.length > 0) {
+        if (await storage.teamProjects.findOne({ teamId, projectId })) {
           // Project is already in this team, skip adding it again
           console.log(`Project ${projectId} is already in team ${teamId}`);
           continue;
@@ -195,16 +110,11 @@ export async function POST(): Promise<NextResponse> {
           isActive: true
         };
 
-        // Store team in Pinecone
-        await index.namespace('teams').upsert([{
-          id: teamId,
-          values: new Array(1024).fill(0.1),
-          metadata: {
-            ...team,
-            createdAt: team.createdAt.toISOString(),
-            updatedAt: team.updatedAt.toISOString()
-          }
-        }]);
+        await storage.teams.put({
+          ...team,
+          createdAt: team.createdAt.toISOString(),
+          updatedAt: team.updatedAt.toISOString()
+        });
 
         // Create team member record for the owner
         const ownerMember: TeamMember = {
@@ -222,32 +132,22 @@ export async function POST(): Promise<NextResponse> {
         // Try to get the owner's email from project sharing records
         if (projectOwnerId !== userId) {
           // Look for any project sharing record by this owner to get their email
-          const ownerSharingResponse = await index.namespace('project_sharing').query({
-            vector: new Array(1024).fill(0.1),
-            filter: {
-              sharedBy: { $eq: projectOwnerId }
-            },
-            topK: 1,
-            includeMetadata: true
-          });
-
-          if (ownerSharingResponse.matches?.[0]?.metadata?.sharedByEmail) {
-            ownerMember.email = String(ownerSharingResponse.matches[0].metadata.sharedByEmail);
+          const ownerShare = (await storage.projectShares.list({ sharedBy: projectOwnerId }))
+            .find(share => share.sharedByEmail);
+
+          if (ownerShare?.sharedByEmail) {
+            ownerMember.email = ownerShare.sharedByEmail;
           }
         } else {
           // Current user is the owner, use their email
           ownerMember.email = userEmail;
         }
 
-        await index.namespace('team_members').upsert([{
-          id: ownerMember.id,
-          values: new Array(1024).fill(0.1),
-          metadata: {
-            ...ownerMember,
-            joinedAt: ownerMember.joinedAt.toISOString(),
-            invitedAt: ownerMember.invitedAt.toISOString()
-          }
-        }]);
+        await storage.teamMembers.put({
+          ...ownerMember,
+          joinedAt: ownerMember.joinedAt.toISOString(),
+          invitedAt: ownerMember.invitedAt.toISOString()
+        });
 
         teamsCreated++;
         createdTeams.push(team);
@@ -263,27 +163,13 @@ export async function POST(): Promise<NextResponse> {
         projectRole: 'viewer' as TeamRole
       };
 
-      await index.namespace('team_projects').upsert([{
-        id: teamProject.id,
-        values: new Array(1024).fill(0.1),
-        metadata: {
-          ...teamProject,
-          addedAt: teamProject.addedAt.toISOString()
-        }
-      }]);
-
-      // Add current user as team member if not already added
-      const currentUserMembershipResponse = await index.namespace('team_members').query({
-        vector: new Array(1024).fill(0.1),
-        filter: {
-          teamId: { $eq: teamId },
-          userId: { $eq: userId }
-        },
-        topK: 1,
-        includeMetadata: true
+      await storage.teamProjects.put({
+        ...teamProject,
+        addedAt: teamProject.addedAt.toISOString()
       });
 
-      if (!currentUserMembershipResponse.matches?.length) {
+      // Add current user as team member if not already added
+      if (!await storage.teamMembers.findOne({ teamId, userId })) {
         // Determine the user's role based on whether they own the project or are shared with it
         let userRole: TeamRole = 'viewer';
         
@@ -292,18 +178,9 @@ export async function POST(): Promise<NextResponse> {
           userRole = 'owner';
         } else {
           // Current user is shared with this project, get their role from project sharing
-          const sharingResponse = await index.namespace('project_sharing').query({
-            vector: new Array(1024).fill(0.1),
-            filter: {
-              projectId: { $eq: projectId },
-              sharedWithEmail: { $eq: userEmail },
-              status: { $eq: 'accepted' }
-            },
-            topK: 1,
-            includeMetadata: true
-          });
-
-          userRole = (sharingResponse.matches?.[0]?.metadata?.role as TeamRole) || 'viewer';
+          const share = await storage.projectShares.findOne({ projectId, sharedWithEmail: userEmail, status: 'accepted' });
+
+          userRole = share?.role || 'viewer';
         }
 
         const currentUserMember: TeamMember = {
@@ -318,46 +195,25 @@ export async function POST(): Promise<NextResponse> {
           invitedBy: projectOwnerId
         };
 
-        await index.namespace('team_members').upsert([{
-          id: currentUserMember.id,
-          values: new Array(1024).fill(0.1),
-          metadata: {
-            ...currentUserMember,
-            joinedAt: currentUserMember.joinedAt.toISOString(),
-            invitedAt: currentUserMember.invitedAt.toISOString()
-          }
-        }]);
+        await storage.teamMembers.put({
+          ...currentUserMember,
+          joinedAt: currentUserMember.joinedAt.toISOString(),
+          invitedAt: currentUserMember.invitedAt.toISOString()
+        });
       }
 
       // Add other users who are shared with this project to the team
       if (projectOwnerId === userId) {
         // Current user owns this project, add other shared users
-        const otherSharedUsersResponse = await index.namespace('project_sharing').query({
-          vector: new Array(1024).fill(0.1),
-          filter: {
-            projectId: { $eq: projectId },
-            status: { $in: ['accepted', 'active'] }
-          },
-          topK: 100,
-          includeMetadata: true
-        });
+        const otherShares = (await storage.projectShares.list({ projectId }))
+          .filter(share => share.status === 'accepted' || share.status === 'active');
 
-        for (const sharing of otherSharedUsersResponse.matches || []) {
-          const sharedUserEmail = String(sharing.metadata?.sharedWithEmail);
+        for (const sharing of otherShares) {
+          const sharedUserEmail = sharing.sharedWithEmail;
           if (sharedUserEmail && sharedUserEmail !== userEmail) {
             // Check if this user is already a team member
-            const existingMemberResponse = await index.namespace('team_members').query({
-              vector: new Array(1024).fill(0.1),
-              filter: {
-                teamId: { $eq: teamId },
-                email: { $eq: sharedUserEmail }
-              },
-              topK: 1,
-              includeMetadata: true
-            });
-
-            if (!existingMemberResponse.matches?.length) {
-              const sharedUserRole = (sharing.metadata?.role as TeamRole) || 'viewer';
+            if (!await storage.teamMembers.findOne({ teamId, email: sharedUserEmail })) {
+              const sharedUserRole = sharing.role || 'viewer';
               
               const sharedUserMember: TeamMember = {
                 id: `member_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -371,15 +227,11 @@ export async function POST(): Promise<NextResponse> {
                 invitedBy: userId
               };
 
-              await index.namespace('team_members').upsert([{
-                id: sharedUserMember.id,
-                values: new Array(1024).fill(0.1),
-                metadata: {
-                  ...sharedUserMember,
-                  joinedAt: sharedUserMember.joinedAt.toISOString(),
-                  invitedAt: sharedUserMember.invitedAt.toISOString()
-                }
-              }]);
+              await storage.teamMembers.put({
+                ...sharedUserMember,
+                joinedAt: sharedUserMember.joinedAt.toISOString(),
+                invitedAt: sharedUserMember.invitedAt.toISOString()
+              });
             }
           }
         }
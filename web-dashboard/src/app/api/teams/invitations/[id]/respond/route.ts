@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
-import { TeamMember, TeamRole } from '@/types/shared';
-
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
+import { StorageService } from '@/lib/storage';
+import { TeamMember } from '@/types/shared';
 
 export async function POST(
   request: NextRequest,
@@ -41,16 +38,8 @@ export async function POST(
     }
 
     // Get the team invitation
-    const invitationResponse = await index.namespace('team_invitations').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        id: { $eq: invitationId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const invitation = invitationResponse.matches?.[0]?.metadata;
+    const storage = StorageService.getInstance();
+    const invitation = await storage.teamInvitations.get(invitationId);
     if (!invitation) {
       return NextResponse.json(
         { success: false, error: 'Team invitation not found' },
@@ -59,7 +48,7 @@ export async function POST(
     }
 
     // Verify the invitation is for the current user
-    if (String(invitation.email) !== userEmail) {
+    if (invitation.email !== userEmail) {
       return NextResponse.json(
         { success: false, error: 'This invitation is not for you' },
         { status: 403 }
@@ -67,7 +56,7 @@ export async function POST(
     }
 
     // Check if invitation is still pending
-    if (String(invitation.status) !== 'pending') {
+    if (invitation.status !== 'pending') {
       return NextResponse.json(
         { success: false, error: 'Invitation has already been responded to' },
         { status: 400 }
@@ -75,134 +64,46 @@ export async function POST(
     }
 
     // Check if invitation has expired
-    if (invitation.expiresAt) {
-      const expiresAt = typeof invitation.expiresAt === 'string' ? invitation.expiresAt : String(invitation.expiresAt);
-      if (new Date(expiresAt) < new Date()) {
-        return NextResponse.json(
-          { success: false, error: 'Invitation has expired' },
-          { status: 400 }
-        );
-      }
+    if (invitation.expiresAt && new Date(invitation.expiresAt) < new Date()) {
+      return NextResponse.json(
+        { success: false, error: 'Invitation has expired' },
+        { status: 400 }
+      );
     }
 
-    // Update invitation status with timeout and retry logic
     const newStatus = action === 'accept' ? 'accepted' : 'declined';
-    
-    const updateInvitationWithTimeout = async () => {
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Pinecone operation timed out')), 30000); // 30 second timeout
-      });
-
-      const upsertPromise = index.namespace('team_invitations').upsert([{
-        id: invitationId,
-        values: new Array(1024).fill(0.1),
-        metadata: {
-          ...invitation,
-          status: newStatus,
-          respondedAt: new Date().toISOString()
-        }
-      }]);
-
-      return Promise.race([upsertPromise, timeoutPromise]);
-    };
-
-    // Retry logic for updating invitation
-    let retryCount = 0;
-    const maxRetries = 3;
-    let lastError: Error | undefined;
-
-    while (retryCount < maxRetries) {
-      try {
-        await updateInvitationWithTimeout();
-        break; // Success, exit retry loop
-      } catch (error) {
-        lastError = error as Error;
-        retryCount++;
-        console.warn(`Pinecone invitation update attempt ${retryCount} failed:`, error);
-        
-        if (retryCount < maxRetries) {
-          // Exponential backoff: wait 1s, 2s, 4s
-          const delay = Math.pow(2, retryCount - 1) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    if (retryCount === maxRetries && lastError) {
-      throw new Error(`Failed to update invitation after ${maxRetries} attempts: ${lastError.message}`);
-    }
+    let teamMemberId: string | undefined;
 
     if (action === 'accept') {
-      // Add user to team members with timeout and retry logic
+      // Add user to team members
       const teamMember: TeamMember = {
         id: `member_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        teamId: String(invitation.teamId),
+        teamId: invitation.teamId,
         userId,
         email: userEmail,
-        role: String(invitation.role) as TeamRole,
+        role: invitation.role,
         joinedAt: new Date(),
-        invitedAt: new Date(String(invitation.invitedAt)),
+        invitedAt: new Date(invitation.invitedAt),
         status: 'active',
-        invitedBy: String(invitation.invitedBy)
-      };
-
-      const addMemberWithTimeout = async () => {
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Pinecone operation timed out')), 30000); // 30 second timeout
-        });
-
-        const upsertPromise = index.namespace('team_members').upsert([{
-          id: teamMember.id,
-          values: new Array(1024).fill(0.1),
-          metadata: {
-            ...teamMember,
-            joinedAt: teamMember.joinedAt.toISOString(),
-            invitedAt: teamMember.invitedAt.toISOString()
-          }
-        }]);
-
-        return Promise.race([upsertPromise, timeoutPromise]);
+        invitedBy: invitation.invitedBy
       };
 
-      // Retry logic for adding team member
-      let retryCount = 0;
-      const maxRetries = 3;
-      let lastError: Error | undefined;
-
-      while (retryCount < maxRetries) {
-        try {
-          await addMemberWithTimeout();
-          break; // Success, exit retry loop
-        } catch (error) {
-          lastError = error as Error;
-          retryCount++;
-          console.warn(`Pinecone team member creation attempt ${retryCount} failed:`, error);
-          
-          if (retryCount < maxRetries) {
-            // Exponential backoff: wait 1s, 2s, 4s
-            const delay = Math.pow(2, retryCount - 1) * 1000;
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-      }
-
-      if (retryCount === maxRetries && lastError) {
-        throw new Error(`Failed to add team member after ${maxRetries} attempts: ${lastError.message}`);
-      }
-
-      // Update the invitation record to link to the team member
-      await index.namespace('team_invitations').upsert([{
-        id: invitationId,
-        values: new Array(1024).fill(0.1),
-        metadata: {
-          ...invitation,
-          status: newStatus,
-          respondedAt: new Date().toISOString(),
-          teamMemberId: teamMember.id
-        }
-      }]);
+      await storage.teamMembers.put({
+        ...teamMember,
+        joinedAt: teamMember.joinedAt.toISOString(),
+        invitedAt: teamMember.invitedAt.toISOString()
+      });
+      teamMemberId = teamMember.id;
     }
 
+    // Update the invitation, linking it to the team member when accepted
+    await storage.teamInvitations.put({
+      ...invitation,
+      status: newStatus,
+      respondedAt: new Date().toISOString(),
+      teamMemberId
+    });
+
     return NextResponse.json({
       success: true,
       message: `Team invitation ${action}ed successfully`,
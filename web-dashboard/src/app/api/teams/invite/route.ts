@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { TeamInvitation, TeamRole } from '@/types/shared';
 import { NotificationService } from '@/lib/notificationService';
 
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
-
 // Invite a user to a team
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
@@ -38,18 +35,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check if user has permission to invite (must be owner or admin)
-    const userMembershipResponse = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        userId: { $eq: userId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const userMembership = userMembershipResponse.matches?.[0]?.metadata;
-    if (!userMembership || !['owner', 'admin'].includes(String(userMembership.role))) {
+    const storage = StorageService.getInstance();
+    const userMembership = await storage.teamMembers.findOne({ teamId, userId });
+    if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to invite users' },
         { status: 403 }
@@ -57,17 +45,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check if user is already a member
-    const existingMemberResponse = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        email: { $eq: email }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const existingMember = await storage.teamMembers.findOne({ teamId, email });
 
-    if (existingMemberResponse.matches && existingMemberResponse.matches.length > 0) {
+    if (existingMember) {
       return NextResponse.json(
         { success: false, error: 'User is already a member of this team' },
         { status: 409 }
@@ -91,30 +71,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       token: Math.random().toString(36).substr(2, 15)
     };
 
-    // Store invitation in Pinecone
-    await index.namespace('team_invitations').upsert([{
-      id: invitationId,
-      values: new Array(1024).fill(0.1),
-      metadata: {
-        ...invitation,
-        invitedAt: invitation.invitedAt.toISOString(),
-        expiresAt: invitation.expiresAt.toISOString()
-      }
-    }]);
+    await storage.teamInvitations.put({
+      ...invitation,
+      invitedAt: invitation.invitedAt.toISOString(),
+      expiresAt: invitation.expiresAt.toISOString()
+    });
 
     // Get team name for notification
-    const teamResponse = await index.namespace('teams').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const team = await storage.teams.get(teamId);
 
     // Create notification for team member invitation
     try {
-      const teamName = String(teamResponse.matches?.[0]?.metadata?.name || 'Unknown Team');
+      const teamName = team?.name || 'Unknown Team';
       await NotificationService.notifyTeamMemberAdded(userId, teamId, teamName, email);
     } catch (notificationError) {
       console.error('Failed to create team invitation notification:', notificationError);
@@ -166,18 +134,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Check if user has permission to view invitations
-    const userMembershipResponse = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        userId: { $eq: userId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const userMembership = userMembershipResponse.matches?.[0]?.metadata;
-    if (!userMembership || !['owner', 'admin'].includes(String(userMembership.role))) {
+    const storage = StorageService.getInstance();
+    const userMembership = await storage.teamMembers.findOne({ teamId, userId });
+    if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to view invitations' },
         { status: 403 }
@@ -185,24 +144,16 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Get pending invitations
-    const response = await index.namespace('team_invitations').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamId },
-        status: { $eq: 'pending' }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
-
-    const invitations = response.matches?.map(match => ({
-      id: match.metadata?.id || match.id,
-      email: match.metadata?.email || '',
-      role: match.metadata?.role || 'viewer',
-      invitedAt: match.metadata?.invitedAt || '',
-      expiresAt: match.metadata?.expiresAt || '',
-      status: match.metadata?.status || 'pending'
-    })) || [];
+    const pending = await storage.teamInvitations.list({ teamId, status: 'pending' });
+
+    const invitations = pending.map(invitation => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      invitedAt: invitation.invitedAt,
+      expiresAt: invitation.expiresAt,
+      status: invitation.status
+    }));
 
     return NextResponse.json({
       success: true,
@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
-
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
+import { StorageService } from '@/lib/storage';
 
 // Look up which team a project belongs to
 export async function POST(request: NextRequest): Promise<NextResponse> {
@@ -24,24 +21,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Check if project is part of a team by looking in team_projects
-    const teamProjectsResponse = await index.namespace('team_projects').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        projectId: { $eq: projectId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    if (!teamProjectsResponse.matches?.length) {
-      return NextResponse.json({
-        success: true,
-        team: null
-      });
-    }
-
-    const teamProject = teamProjectsResponse.matches[0].metadata;
+    // Check if project is part of a team
+    const storage = StorageService.getInstance();
+    const teamProject = await storage.teamProjects.findOne({ projectId });
     if (!teamProject) {
       return NextResponse.json({
         success: true,
@@ -50,16 +32,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Get team details
-    const teamResponse = await index.namespace('teams').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        teamId: { $eq: teamProject.teamId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
-
-    const team = teamResponse.matches?.[0]?.metadata;
+    const team = await storage.teams.get(teamProject.teamId);
     if (!team) {
       return NextResponse.json({
         success: true,
@@ -70,7 +43,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json({
       success: true,
       team: {
-        id: team.teamId,
+        id: team.id,
         name: team.name,
         description: team.description,
         createdAt: team.createdAt,
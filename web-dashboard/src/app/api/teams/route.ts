@@ -1,11 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { Team, TeamMember } from '@/types/shared';
 
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
-
 // Create a new team
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
@@ -44,16 +41,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       isActive: true
     };
 
-    // Store team in Pinecone
-    await index.namespace('teams').upsert([{
-      id: teamId,
-      values: new Array(1024).fill(0.1), // Placeholder vector
-      metadata: {
-        ...team,
-        createdAt: team.createdAt.toISOString(),
-        updatedAt: team.updatedAt.toISOString()
-      }
-    }]);
+    const storage = StorageService.getInstance();
+    await storage.teams.put({
+      ...team,
+      createdAt: team.createdAt.toISOString(),
+      updatedAt: team.updatedAt.toISOString()
+    });
 
     // Create team member record for the owner
     const ownerMember: TeamMember = {
@@ -68,15 +61,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       invitedBy: userId
     };
 
-    await index.namespace('team_members').upsert([{
-      id: ownerMember.id,
-      values: new Array(1024).fill(0.1),
-      metadata: {
-        ...ownerMember,
-        joinedAt: ownerMember.joinedAt.toISOString(),
-        invitedAt: ownerMember.invitedAt.toISOString()
-      }
-    }]);
+    await storage.teamMembers.put({
+      ...ownerMember,
+      joinedAt: ownerMember.joinedAt.toISOString(),
+      invitedAt: ownerMember.invitedAt.toISOString()
+    });
 
     return NextResponse.json({
       success: true,
@@ -105,43 +94,17 @@ export async function GET(): Promise<NextResponse> {
     }
 
     // Get teams where user is a member
-    const response = await index.namespace('team_members').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    const storage = StorageService.getInstance();
+    const memberships = await storage.teamMembers.list({ userId });
+    const teamIds = [...new Set(memberships.map(member => member.teamId))];
 
-    const teamIds = response.matches?.map(match => match.metadata?.teamId) || [];
-    
-    if (teamIds.length === 0) {
-      return NextResponse.json({
-        success: true,
-        teams: []
-      });
-    }
-
-    // Get team details
-    const teamsResponse = await index.namespace('teams').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        id: { $in: teamIds }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
-
-    const teams = teamsResponse.matches?.map(match => ({
-      id: match.metadata?.id || match.id,
-      name: match.metadata?.name || 'Untitled Team',
-      description: match.metadata?.description || '',
-      createdAt: match.metadata?.createdAt || '',
-      updatedAt: match.metadata?.updatedAt || '',
-      ownerId: match.metadata?.ownerId || '',
-      isActive: match.metadata?.isActive || false
-    })) || [];
+    const teams = (await Promise.all(teamIds.map(teamId => storage.teams.get(teamId))))
+      .filter(team => team !== null)
+      .map(team => ({
+        ...team,
+        name: team.name || 'Untitled Team',
+        description: team.description || ''
+      }));
 
     return NextResponse.json({
       success: true,
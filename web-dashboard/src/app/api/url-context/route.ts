@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiConfiguration } from '@/lib/apiConfig';
+import { llmClient, LlmUsage } from '@/lib/llmClient';
 
 interface UrlContextRequest {
   url: string;
@@ -7,68 +9,12 @@ interface UrlContextRequest {
   analysisType?: 'summary' | 'insights' | 'extraction' | 'custom';
 }
 
-interface ApiConfiguration {
-  provider: string;
-  apiKey: string;
-  model: string;
-  baseUrl?: string;
-  customHeaders?: Record<string, string>;
-}
-
-async function getApiConfiguration(): Promise<ApiConfiguration> {
-  // Try to get user-specific API configuration first
-  try {
-    const configResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/user-api-config`, {
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    });
-
-    if (configResponse.ok) {
-      const config = await configResponse.json();
-      if (config.provider === 'google' && config.apiKey) {
-        return config;
-      }
-    }
-  } catch (error) {
-    console.warn('Failed to get user API config, falling back to global config');
-  }
-
-  // Fallback to global configuration
-  try {
-    const globalConfigResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/global-api-config`);
-    
-    if (globalConfigResponse.ok) {
-      const globalConfig = await globalConfigResponse.json();
-      if (globalConfig.provider === 'google' && globalConfig.apiKey) {
-        return globalConfig;
-      }
-    }
-  } catch (error) {
-    console.warn('Failed to get global API config');
-  }
-
-  // Final fallback to environment variables
-  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY || '';
-  
-  if (!apiKey) {
-    throw new Error('No Google AI API key found in configuration or environment variables');
-  }
-
-  return {
-    provider: 'google',
-    apiKey: apiKey,
-    model: 'gemini-1.5-flash',
-    baseUrl: 'https://generativelanguage.googleapis.com'
-  };
-}
-
-async function callGeminiWithUrlContext(
+async function callWithUrlContext(
   config: ApiConfiguration, 
   url: string, 
   prompt: string
-): Promise<{ content: string; tokenUsage: any; metadata?: any }> {
-  console.log(`🤖 Calling Gemini with URL context for: ${url}`);
+): Promise<{ content: string; tokenUsage: LlmUsage; metadata?: any }> {
+  console.log(`🤖 Calling ${config.provider} with URL context for: ${url}`);
   
   // First, try to extract content using traditional web scraping
   let extractedContent = '';
@@ -92,62 +38,26 @@ async function callGeminiWithUrlContext(
     console.warn('⚠️ Failed to extract content from URL:', error);
   }
 
-  // Now use Gemini to analyze the extracted content
+  // Now use the configured AI provider to analyze the extracted content
   const enhancedPrompt = extractedContent 
     ? `${prompt}\n\nURL: ${url}\n\nExtracted Content:\n${extractedContent}`
     : `${prompt}\n\nURL: ${url}\n\nNote: Unable to extract content from this URL. Please provide analysis based on the URL and any available information.`;
 
-  const requestBody = {
-    contents: [{
-      parts: [{
-        text: enhancedPrompt
-      }]
-    }],
-    generationConfig: {
-      temperature: 0.3,
-      maxOutputTokens: 4000,
-    },
-  };
-
-  const response = await fetch(
-    `${config.baseUrl || 'https://generativelanguage.googleapis.com'}/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...config.customHeaders
-      },
-      body: JSON.stringify(requestBody)
-    }
+  const result = await llmClient.generate(
+    { prompt: enhancedPrompt, maxTokens: 4000, temperature: 0.3 },
+    { config }
   );
+  console.log('Generated content length:', result.content.length);
 
-  console.log('Gemini API response status:', response.status);
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('Gemini API error response:', errorData);
-    throw new Error(`Gemini API error: ${response.status} - ${errorData}`);
-  }
-
-  const data = await response.json();
-  console.log('Gemini API response data keys:', Object.keys(data));
-  
-  if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts && data.candidates[0].content.parts[0]) {
-    const content = data.candidates[0].content.parts[0].text;
-    console.log('Generated content length:', content.length);
-    return {
-      content: content,
-      tokenUsage: data.usageMetadata || { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
-      metadata: {
-        extractedContentLength: extractedContent.length,
-        url: url,
-        method: 'web-scraping-plus-ai'
-      }
-    };
-  } else {
-    console.error('Invalid response structure from Gemini API:', data);
-    throw new Error('Invalid response structure from Gemini API');
-  }
+  return {
+    content: result.content,
+    tokenUsage: result.usage,
+    metadata: {
+      extractedContentLength: extractedContent.length,
+      url: url,
+      method: 'web-scraping-plus-ai'
+    }
+  };
 }
 
 function generatePrompt(url: string, analysisType: string, customPrompt?: string): string {
@@ -235,26 +145,12 @@ export async function POST(request: NextRequest) {
     // Get API configuration
     let apiConfig: ApiConfiguration;
     try {
-      apiConfig = await getApiConfiguration();
+      apiConfig = await llmClient.resolveConfiguration();
       console.log('✅ API configuration loaded:', { provider: apiConfig.provider, model: apiConfig.model });
     } catch (error) {
       console.error('❌ Failed to get API configuration:', error);
       return NextResponse.json(
-        { error: 'Google AI API key not configured. Please configure an AI provider first.' },
-        { status: 400 }
-      );
-    }
-    
-    if (!apiConfig.apiKey) {
-      return NextResponse.json(
-        { error: 'Google AI API key not configured. Please configure an AI provider first.' },
-        { status: 400 }
-      );
-    }
-
-    if (apiConfig.provider !== 'google') {
-      return NextResponse.json(
-        { error: 'URL context feature requires Google Gemini API. Please configure Google AI provider.' },
+        { error: 'AI API key not configured. Please configure an AI provider first.' },
         { status: 400 }
       );
     }
@@ -262,8 +158,8 @@ export async function POST(request: NextRequest) {
     // Generate appropriate prompt
     const analysisPrompt = generatePrompt(url, analysisType, prompt);
 
-    // Call Gemini with URL context
-    const result = await callGeminiWithUrlContext(apiConfig, url, analysisPrompt);
+    // Call the AI provider with URL context
+    const result = await callWithUrlContext(apiConfig, url, analysisPrompt);
 
     // Format response
     const response = {
@@ -281,7 +177,7 @@ export async function POST(request: NextRequest) {
     };
 
     console.log(`✅ Successfully processed URL context for: ${url}`);
-    console.log(`📊 Token usage: ${result.tokenUsage.totalTokenCount || 'unknown'}`);
+    console.log(`📊 Token usage: ${result.tokenUsage.totalTokens}`);
 
     return NextResponse.json(response);
 
@@ -292,7 +188,7 @@ export async function POST(request: NextRequest) {
     let errorMessage = 'Failed to process URL context';
     if (error instanceof Error) {
       if (error.message.includes('API key')) {
-        errorMessage = 'Invalid or missing API key. Please check your Google AI configuration.';
+        errorMessage = 'Invalid or missing API key. Please check your AI provider configuration.';
       } else if (error.message.includes('quota')) {
         errorMessage = 'API quota exceeded. Please try again later or check your usage limits.';
       } else if (error.message.includes('invalid URL')) {
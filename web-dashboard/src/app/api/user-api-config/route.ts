@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
 import { encryptApiKey, decryptApiKey } from '@/lib/secureConfig';
+import { StorageService } from '@/lib/storage';
 
 interface UserApiConfiguration {
   provider: string;
   apiKey: string;
   model: string;
   baseUrl?: string;
-  encryptedApiKey?: string;
 }
 
 // GET /api/user-api-config - Get user's API configuration
@@ -26,47 +25,27 @@ export async function GET(): Promise<NextResponse> {
     console.log('GET /api/user-api-config: Loading config for user:', userId);
     
     try {
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(PINECONE_INDEX_NAME);
-      
-      // Try to fetch existing configuration from Pinecone
-      const queryResponse = await index.namespace('user-api-configs').query({
-        vector: new Array(1024).fill(0.1), // Vector with non-zero values for metadata-only query
-        topK: 1,
-        filter: { userId: { $eq: userId } },
-        includeMetadata: true
-      });
-
-      if (queryResponse.matches && queryResponse.matches.length > 0) {
-        const metadata = queryResponse.matches[0].metadata;
-        if (metadata) {
-          const configData = metadata as unknown as UserApiConfiguration;
-          
-          // Decrypt API key if it's encrypted
-          let decryptedApiKey = '';
-          try {
-            if (configData.encryptedApiKey) {
-              decryptedApiKey = decryptApiKey(configData.encryptedApiKey);
-            } else if (configData.apiKey) {
-              // Legacy support for unencrypted keys
-              decryptedApiKey = configData.apiKey;
-            }
-          } catch (error) {
-            console.error('GET /api/user-api-config: Failed to decrypt user API key:', error);
-            return NextResponse.json(
-              { error: 'Failed to decrypt API key. Please re-enter your API key.' },
-              { status: 500 }
-            );
-          }
+      const configData = await StorageService.getInstance().userApiConfigs.findOne({ userId });
 
-          console.log('GET /api/user-api-config: Successfully loaded config for user:', userId);
-          return NextResponse.json({
-            provider: configData.provider,
-            apiKey: decryptedApiKey,
-            model: configData.model,
-            baseUrl: configData.baseUrl
-          });
+      if (configData) {
+        let decryptedApiKey = '';
+        try {
+          decryptedApiKey = decryptApiKey(configData.encryptedApiKey);
+        } catch (error) {
+          console.error('GET /api/user-api-config: Failed to decrypt user API key:', error);
+          return NextResponse.json(
+            { error: 'Failed to decrypt API key. Please re-enter your API key.' },
+            { status: 500 }
+          );
         }
+
+        console.log('GET /api/user-api-config: Successfully loaded config for user:', userId);
+        return NextResponse.json({
+          provider: configData.provider,
+          apiKey: decryptedApiKey,
+          model: configData.model,
+          baseUrl: configData.baseUrl
+        });
       }
       
       console.log('GET /api/user-api-config: No existing config found, returning empty config');
@@ -77,8 +56,8 @@ export async function GET(): Promise<NextResponse> {
         baseUrl: ''
       });
     } catch (error) {
-      console.error('GET /api/user-api-config: Pinecone error:', error);
-      // Fallback to empty config if Pinecone is not available
+      console.error('GET /api/user-api-config: Storage error:', error);
+      // Fallback to empty config if storage is not available
       return NextResponse.json({
         provider: '',
         apiKey: '',
@@ -149,42 +128,24 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }
     }
 
-    const configToSave: UserApiConfiguration = {
-      provider: config.provider,
-      apiKey: '', // Don't store plaintext
-      encryptedApiKey,
-      model: config.model,
-      baseUrl: config.baseUrl
-    };
-
     try {
-      // Save to Pinecone
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(PINECONE_INDEX_NAME);
-      
-      // Create a vector with at least one non-zero value (Pinecone requirement)
-      const vector = new Array(1024).fill(0.1);
-      vector[0] = 1.0; // Ensure first element is non-zero
-      
-      await index.namespace('user-api-configs').upsert([
-        {
-          id: `user-config-${userId}`,
-          values: vector,
-          metadata: {
-            userId,
-            ...configToSave,
-            timestamp: new Date().toISOString()
-          }
-        }
-      ]);
+      await StorageService.getInstance().userApiConfigs.put({
+        id: `user-config-${userId}`,
+        userId,
+        provider: config.provider,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        encryptedApiKey,
+        updatedAt: new Date().toISOString()
+      });
 
-      console.log('POST /api/user-api-config: Successfully saved config to Pinecone for user:', userId);
+      console.log('POST /api/user-api-config: Successfully saved config for user:', userId);
       return NextResponse.json({ 
         success: true, 
         message: 'User API configuration saved successfully' 
       });
     } catch (error) {
-      console.error('POST /api/user-api-config: Failed to save to Pinecone:', error);
+      console.error('POST /api/user-api-config: Failed to save to storage:', error);
       return NextResponse.json(
         { error: 'Failed to save user API configuration to database' },
         { status: 500 }
@@ -214,15 +175,11 @@ export async function DELETE(): Promise<NextResponse> {
     console.log('DELETE /api/user-api-config: Deleting config for user:', userId);
     
     try {
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(PINECONE_INDEX_NAME);
-      
-      // Delete the configuration from Pinecone
-      await index.namespace('user-api-configs').deleteOne(`user-config-${userId}`);
+      await StorageService.getInstance().userApiConfigs.delete(`user-config-${userId}`);
       
       console.log('DELETE /api/user-api-config: Successfully deleted config for user:', userId);
     } catch (error) {
-      console.error('DELETE /api/user-api-config: Failed to delete from Pinecone:', error);
+      console.error('DELETE /api/user-api-config: Failed to delete from storage:', error);
       // Continue even if deletion fails (config might not exist)
     }
 
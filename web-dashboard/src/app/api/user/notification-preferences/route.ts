@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { UserNotificationPreferences } from '@/types';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -14,32 +14,20 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Get user's notification preferences from Pinecone
-    const preferencesResponse = await index.namespace('user_notification_preferences').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const stored = await StorageService.getInstance().notificationPreferences.get(`preferences_${userId}`);
 
     let preferences: UserNotificationPreferences | null = null;
 
-    if (preferencesResponse.matches?.[0]?.metadata) {
-      const metadata = preferencesResponse.matches[0].metadata;
+    if (stored) {
       preferences = {
-        userId: metadata.userId as string,
-        emailNotifications: metadata.emailNotifications as boolean,
-        projectUpdates: metadata.projectUpdates as boolean,
-        taskCompletions: metadata.taskCompletions as boolean,
-        teamChanges: metadata.teamChanges as boolean,
-        projectSharing: metadata.projectSharing as boolean,
-        digestFrequency: metadata.digestFrequency as 'immediate' | 'daily' | 'weekly',
-        lastDigestSent: metadata.lastDigestSent ? new Date(metadata.lastDigestSent as string) : undefined
+        userId: stored.userId,
+        emailNotifications: stored.emailNotifications,
+        projectUpdates: stored.projectUpdates,
+        taskCompletions: stored.taskCompletions,
+        teamChanges: stored.teamChanges,
+        projectSharing: stored.projectSharing,
+        digestFrequency: stored.digestFrequency,
+        lastDigestSent: stored.lastDigestSent ? new Date(stored.lastDigestSent) : undefined
       };
     } else {
       // Create default preferences if none exist
@@ -89,13 +77,8 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    const preferencesId = `preferences_${userId}`;
-    
-    // Upsert notification preferences in Pinecone
-    const metadata: Record<string, any> = {
+    await StorageService.getInstance().notificationPreferences.put({
+      id: `preferences_${userId}`,
       userId: preferences.userId,
       emailNotifications: preferences.emailNotifications,
       projectUpdates: preferences.projectUpdates,
@@ -103,18 +86,10 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       teamChanges: preferences.teamChanges,
       projectSharing: preferences.projectSharing,
       digestFrequency: preferences.digestFrequency,
+      // Arrives as a JSON string
+      lastDigestSent: preferences.lastDigestSent ? new Date(preferences.lastDigestSent).toISOString() : undefined,
       updatedAt: new Date().toISOString()
-    };
-
-    if (preferences.lastDigestSent) {
-      metadata.lastDigestSent = preferences.lastDigestSent.toISOString();
-    }
-
-    await index.namespace('user_notification_preferences').upsert([{
-      id: preferencesId,
-      values: new Array(1024).fill(0.1),
-      metadata
-    }]);
+    });
 
     return NextResponse.json({
       success: true,
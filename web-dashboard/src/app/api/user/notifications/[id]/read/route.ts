@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 export async function POST(
   request: NextRequest,
@@ -17,39 +17,23 @@ export async function POST(
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Get the notification to verify ownership
-    const notificationResponse = await index.namespace('user_notifications').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId },
-        id: { $eq: notificationId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const notifications = StorageService.getInstance().notifications;
+    const notification = await notifications.get(notificationId);
 
-    if (!notificationResponse.matches?.[0]) {
+    if (!notification || notification.userId !== userId) {
       return NextResponse.json(
         { success: false, error: 'Notification not found' },
         { status: 404 }
       );
     }
 
-    const notification = notificationResponse.matches[0];
-    
     // Update the notification to mark it as read
-    await index.namespace('user_notifications').upsert([{
-      id: notificationId,
-      values: notification.values,
-      metadata: {
-        ...notification.metadata,
-        isRead: true,
-        readAt: new Date().toISOString()
-      }
-    }]);
+    await notifications.put({
+      ...notification,
+      isRead: true,
+      readAt: new Date().toISOString()
+    });
 
     return NextResponse.json({
       success: true,
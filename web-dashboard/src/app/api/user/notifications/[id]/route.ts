@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 export async function DELETE(
   request: NextRequest,
@@ -17,21 +17,11 @@ export async function DELETE(
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Get the notification to verify ownership
-    const notificationResponse = await index.namespace('user_notifications').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId },
-        id: { $eq: notificationId }
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    const notifications = StorageService.getInstance().notifications;
+    const notification = await notifications.get(notificationId);
 
-    if (!notificationResponse.matches?.[0]) {
+    if (!notification || notification.userId !== userId) {
       return NextResponse.json(
         { success: false, error: 'Notification not found' },
         { status: 404 }
@@ -39,7 +29,7 @@ export async function DELETE(
     }
 
     // Delete the notification
-    await index.namespace('user_notifications').deleteOne(notificationId);
+    await notifications.delete(notificationId);
 
     return NextResponse.json({
       success: true,
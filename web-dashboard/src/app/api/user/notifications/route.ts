@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 import { ProjectNotification } from '@/types';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -14,35 +14,18 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const records = await StorageService.getInstance().notifications.list({ userId });
 
-    // Get user's notifications from Pinecone
-    const notificationsResponse = await index.namespace('user_notifications').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
-
-    const notifications: ProjectNotification[] = (notificationsResponse.matches || [])
-      .map(match => {
-        if (!match.metadata) return null;
-        
-        return {
-          id: match.id,
-          projectId: match.metadata.projectId as string,
-          projectName: match.metadata.projectName as string,
-          type: match.metadata.type as ProjectNotification['type'],
-          message: match.metadata.message as string,
-          timestamp: new Date(match.metadata.timestamp as string),
-          isRead: match.metadata.isRead as boolean,
-          metadata: match.metadata.metadata ? JSON.parse(match.metadata.metadata as string) : undefined
-        };
-      })
-      .filter(Boolean) as ProjectNotification[];
+    const notifications: ProjectNotification[] = records.map(record => ({
+      id: record.id,
+      projectId: record.projectId,
+      projectName: record.projectName,
+      type: record.type,
+      message: record.message,
+      timestamp: new Date(record.timestamp),
+      isRead: record.isRead,
+      metadata: record.metadata
+    }));
 
     // Sort by timestamp (newest first)
     notifications.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
@@ -82,31 +65,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     const notificationId = `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Create notification record in Pinecone
-    const notificationMetadata: Record<string, any> = {
+
+    await StorageService.getInstance().notifications.put({
+      id: notificationId,
       userId,
       projectId,
       projectName,
       type,
       message,
       timestamp: new Date().toISOString(),
-      isRead: false
-    };
-
-    if (metadata) {
-      notificationMetadata.metadata = JSON.stringify(metadata);
-    }
-
-    await index.namespace('user_notifications').upsert([{
-      id: notificationId,
-      values: new Array(1024).fill(0.1),
-      metadata: notificationMetadata
-    }]);
+      isRead: false,
+      metadata: metadata || undefined
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from '@/lib/pinecone';
-
-const pinecone = getPineconeClient();
-const index = pinecone.index(PINECONE_INDEX_NAME);
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 
 // Get projects owned by the current user
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -16,43 +14,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Get all projects owned by the user
-    const projectsResponse = await index.namespace(PINECONE_NAMESPACE_PROJECTS).query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        userId: { $eq: userId },
-        type: { $eq: 'user-project' }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    // Get all projects owned by the user, with the teams each one is in
+    const storage = StorageService.getInstance();
+    const owned = await ProjectService.getInstance().getOwnedProjects(userId);
 
-    const projects = projectsResponse.matches?.map(match => {
-      const metadata = match.metadata;
-      if (!metadata) return null;
-      
-      // Parse the projectData JSON string to get the full project configuration
-      let projectData = null;
-      try {
-        if (typeof metadata.projectData === 'string') {
-          projectData = JSON.parse(metadata.projectData);
-        }
-      } catch (e) {
-        console.error('Error parsing projectData:', e);
-        return null;
-      }
-      
-      return {
-        ...projectData,
-        projectId: metadata.projectId,
-        name: metadata.name,
-        description: metadata.description,
-        template: metadata.template,
-        createdAt: metadata.createdAt,
-        lastModified: metadata.lastModified,
-        isPublic: metadata.isPublic
-      };
-    }).filter(Boolean) || [];
+    const projects = await Promise.all(owned.map(async project => ({
+      ...project,
+      teamIds: (await storage.teamProjects.list({ projectId: project.projectId })).map(teamProject => teamProject.teamId)
+    })));
 
     return NextResponse.json({
       success: true,
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { ProjectService } from '@/lib/projectService';
+import { StorageService } from '@/lib/storage';
 
 export async function GET(): Promise<NextResponse> {
   try {
@@ -22,68 +23,45 @@ export async function GET(): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Get pending invitations for the current user's email
-    const invitationsResponse = await index.namespace('project_sharing').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        sharedWithEmail: { $eq: userEmail },
-        status: { $eq: 'pending' }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    const invitations = await StorageService.getInstance().projectShares.list({ sharedWithEmail: userEmail, status: 'pending' });
 
     // Get project details for each invitation
+    const projects = await ProjectService.getInstance().findProjects(invitations.map(invitation => invitation.projectId));
     const userInvitations = [];
     
-    for (const match of invitationsResponse.matches || []) {
-      const invitation = match.metadata;
-      if (invitation) {
-        // Get project details
-        const projectResponse = await index.namespace('projects').query({
-          vector: new Array(1024).fill(0.1),
-          filter: {
-            projectId: { $eq: invitation.projectId }
-          },
-          topK: 1,
-          includeMetadata: true
-        });
-
-        const project = projectResponse.matches?.[0]?.metadata;
-        if (project) {
-          // Get sharer's name from Clerk or fallback
-          let sharerName = 'Unknown User';
-          try {
-            // Try to get sharer info from Clerk (this would need proper implementation)
-            // For now, we'll use a fallback
-            if (invitation.sharedBy === userId) {
-              sharerName = user.firstName && user.lastName 
-                ? `${user.firstName} ${user.lastName}` 
-                : user.username || 'You';
-            }
-          } catch (error) {
-            console.error('Error getting sharer info:', error);
+    for (const invitation of invitations) {
+      const project = projects.find(project => project.projectId === invitation.projectId);
+      if (project) {
+        // Get sharer's name from Clerk or fallback
+        let sharerName = 'Unknown User';
+        try {
+          // Try to get sharer info from Clerk (this would need proper implementation)
+          // For now, we'll use a fallback
+          if (invitation.sharedBy === userId) {
+            sharerName = user.firstName && user.lastName 
+              ? `${user.firstName} ${user.lastName}` 
+              : user.username || 'You';
           }
-
-          userInvitations.push({
-            id: invitation.id || match.id,
-            projectId: invitation.projectId,
-            projectName: project.name || 'Unknown Project',
-            // Only return a brief preview for pending invitations - not the full description
-            projectPreview: project.description 
-              ? `${String(project.description).substring(0, 150)}${String(project.description).length > 150 ? '...' : ''}`
-              : 'No description available',
-            sharedWithEmail: invitation.sharedWithEmail,
-            role: invitation.role,
-            sharedAt: invitation.sharedAt,
-            sharedBy: invitation.sharedBy,
-            sharedByName: sharerName,
-            expiresAt: invitation.expiresAt
-          });
+        } catch (error) {
+          console.error('Error getting sharer info:', error);
         }
+
+        userInvitations.push({
+          id: invitation.id,
+          projectId: invitation.projectId,
+          projectName: project.name || 'Unknown Project',
+          // Only return a brief preview for pending invitations - not the full description
+          projectPreview: project.description 
+            ? `${project.description.substring(0, 150)}${project.description.length > 150 ? '...' : ''}`
+            : 'No description available',
+          sharedWithEmail: invitation.sharedWithEmail,
+          role: invitation.role,
+          sharedAt: invitation.sharedAt,
+          sharedBy: invitation.sharedBy,
+          sharedByName: sharerName,
+          expiresAt: invitation.expiresAt
+        });
       }
     }
 
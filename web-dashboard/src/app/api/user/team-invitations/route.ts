@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { StorageService } from '@/lib/storage';
 
 export async function GET(): Promise<NextResponse> {
   try {
@@ -22,66 +22,44 @@ export async function GET(): Promise<NextResponse> {
       );
     }
 
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
     // Get pending team invitations for the current user's email
-    const invitationsResponse = await index.namespace('team_invitations').query({
-      vector: new Array(1024).fill(0.1),
-      filter: {
-        email: { $eq: userEmail },
-        status: { $eq: 'pending' }
-      },
-      topK: 100,
-      includeMetadata: true
-    });
+    const storage = StorageService.getInstance();
+    const invitations = await storage.teamInvitations.list({ email: userEmail, status: 'pending' });
 
     // Get team details for each invitation
     const userTeamInvitations = [];
     
-    for (const match of invitationsResponse.matches || []) {
-      const invitation = match.metadata;
-      if (invitation) {
-        // Get team details
-        const teamResponse = await index.namespace('teams').query({
-          vector: new Array(1024).fill(0.1),
-          filter: {
-            teamId: { $eq: invitation.teamId }
-          },
-          topK: 1,
-          includeMetadata: true
-        });
-
-        const team = teamResponse.matches?.[0]?.metadata;
-        if (team) {
-          // Get inviter's info
-          let inviterName = 'Unknown User';
-          try {
-            // Try to get inviter info from Clerk (this would need proper implementation)
-            // For now, we'll use a fallback
-            if (invitation.invitedBy === userId) {
-              inviterName = user.firstName && user.lastName 
-                ? `${user.firstName} ${user.lastName}` 
-                : user.username || 'You';
-            }
-          } catch (error) {
-            console.error('Error getting inviter info:', error);
+    for (const invitation of invitations) {
+      // Get team details
+      const team = await storage.teams.get(invitation.teamId);
+      if (team) {
+        // Get inviter's info
+        let inviterName = 'Unknown User';
+        try {
+          // Try to get inviter info from Clerk (this would need proper implementation)
+          // For now, we'll use a fallback
+          if (invitation.invitedBy === userId) {
+            inviterName = user.firstName && user.lastName 
+              ? `${user.firstName} ${user.lastName}` 
+              : user.username || 'You';
           }
-
-          userTeamInvitations.push({
-            id: invitation.id || match.id,
-            teamId: invitation.teamId,
-            teamName: team.name || 'Unknown Team',
-            teamDescription: team.description || '',
-            email: invitation.email,
-            role: invitation.role,
-            invitedAt: invitation.invitedAt,
-            invitedBy: invitation.invitedBy,
-            invitedByName: inviterName,
-            expiresAt: invitation.expiresAt,
-            status: invitation.status
-          });
+        } catch (error) {
+          console.error('Error getting inviter info:', error);
         }
+
+        userTeamInvitations.push({
+          id: invitation.id,
+          teamId: invitation.teamId,
+          teamName: team.name || 'Unknown Team',
+          teamDescription: team.description || '',
+          email: invitation.email,
+          role: invitation.role,
+          invitedAt: invitation.invitedAt,
+          invitedBy: invitation.invitedBy,
+          invitedByName: inviterName,
+          expiresAt: invitation.expiresAt,
+          status: invitation.status
+        });
       }
     }
 
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verify } from 'jsonwebtoken';
-import { ProjectService } from '@/lib/projectService';
+import { ProjectService, UserProject } from '@/lib/projectService';
+import { TaskParser } from '@/lib/taskParser';
+import { DocumentHistoryService, hashContent } from '@/lib/documentHistory';
+import { getBearerToken, verifyVSCodeToken } from '@/lib/vscodeToken';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
+const DOCUMENT_TYPES = ['requirements', 'design', 'tasks'] as const;
+type DocumentType = typeof DOCUMENT_TYPES[number];
+
+function getDocumentContent(project: UserProject, type: DocumentType): string {
+  return project[type] || '';
+}
 
 // GET /api/vscode/projects/[id]/documents/[type] - Get specific document for VS Code extension
 export async function GET(
@@ -10,87 +17,51 @@ export async function GET(
   { params }: { params: Promise<{ id: string; type: string }> }
 ) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const token = getBearerToken(request.headers.get('authorization'));
+    if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
         { status: 401 }
       );
     }
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-    // Verify the JWT token
-    try {
-      const decoded = verify(token, JWT_SECRET) as any;
-      
-      // Check if it's a VSCode token
-      if (decoded.type !== 'vscode') {
-        return NextResponse.json(
-          { error: 'Invalid token type' },
-          { status: 401 }
-        );
-      }
-
-      // Check if token is expired
-      if (decoded.exp && decoded.exp < Math.floor(Date.now() / 1000)) {
-        return NextResponse.json(
-          { error: 'Token expired' },
-          { status: 401 }
-        );
-      }
-
-      const userId = decoded.userId;
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Invalid token' },
-          { status: 401 }
-        );
-      }
-
-      const { id: projectId, type } = await params;
-      
-      // Validate document type
-      if (!['requirements', 'design', 'tasks'].includes(type)) {
-        return NextResponse.json(
-          { error: 'Invalid document type' },
-          { status: 400 }
-        );
-      }
-
-      // Get project from Pinecone using ProjectService
-      const projectService = ProjectService.getInstance();
-      const project = await projectService.getProject(userId, projectId);
-      
-      if (!project) {
-        return NextResponse.json(
-          { error: 'Project not found' },
-          { status: 404 }
-        );
-      }
-
-      // Get the requested document content from the project
-      let content = '';
-      switch (type) {
-        case 'requirements':
-          content = project.requirements || '';
-          break;
-        case 'design':
-          content = project.design || '';
-          break;
-        case 'tasks':
-          content = project.tasks || '';
-          break;
-      }
-
-      return NextResponse.json({ content });
-    } catch (error) {
-      console.error('Token verification failed:', error);
+    const claims = verifyVSCodeToken(token);
+    if (!claims?.userId) {
       return NextResponse.json(
-        { error: 'Invalid token' },
+        { error: 'Invalid or expired token' },
         { status: 401 }
       );
     }
+
+    const { id: projectId, type } = await params;
+
+    // Validate document type
+    if (!DOCUMENT_TYPES.includes(type as DocumentType)) {
+      return NextResponse.json(
+        { error: 'Invalid document type' },
+        { status: 400 }
+      );
+    }
+
+    // Get project using ProjectService
+    const projectService = ProjectService.getInstance();
+    const project = await projectService.getProject(claims.userId, projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const content = await projectService.resolveDocumentContent(getDocumentContent(project, type as DocumentType));
+
+    // version is the content hash the extension sends back as baseVersion when it saves
+    return NextResponse.json({
+      content,
+      version: hashContent(content),
+      lastModified: project.lastModified
+    });
   } catch (error) {
     console.error('Failed to get document for VS Code:', error);
     return NextResponse.json(
@@ -100,15 +71,121 @@ export async function GET(
   }
 }
 
+// PUT /api/vscode/projects/[id]/documents/[type] - Save a document edited in VS Code
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; type: string }> }
+) {
+  try {
+    const token = getBearerToken(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const claims = verifyVSCodeToken(token);
+    if (!claims?.userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId, type } = await params;
+    const { content, baseVersion, message } = await request.json();
 
+    if (!DOCUMENT_TYPES.includes(type as DocumentType)) {
+      return NextResponse.json(
+        { error: 'Invalid document type' },
+        { status: 400 }
+      );
+    }
 
+    if (typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'Content must be a string' },
+        { status: 400 }
+      );
+    }
 
+    const projectService = ProjectService.getInstance();
+    const project = await projectService.getProject(claims.userId, projectId);
 
+    if (!project || project.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
 
+    const previousContent = await projectService.resolveDocumentContent(getDocumentContent(project, type as DocumentType));
+    const currentVersion = hashContent(previousContent);
+    const version = hashContent(content);
 
+    // Already up to date, e.g. a queued edit replayed twice
+    if (version === currentVersion) {
+      return NextResponse.json({ success: true, version, unchanged: true });
+    }
 
+    // The edit was made on an older version, or on an unknown one while the document already
+    // has content: let the extension resolve the conflict rather than overwrite it
+    const hasBaseVersion = typeof baseVersion === 'string';
+    if (hasBaseVersion ? baseVersion !== currentVersion : previousContent.length > 0) {
+      return NextResponse.json({
+        conflict: true,
+        description: hasBaseVersion
+          ? 'Document was changed on the dashboard since it was last synced'
+          : 'Document already exists on the dashboard and this edit was not based on it',
+        baseVersion: hasBaseVersion ? baseVersion : null,
+        remoteVersion: currentVersion,
+        remoteContent: previousContent,
+        lastModified: project.lastModified
+      }, { status: 409 });
+    }
 
+    const updates: Partial<UserProject> = { [type]: content };
+    if (type === 'tasks') {
+      const { totalTasks, completedTasks, percentage } = TaskParser.parseTasksMarkdown(content);
+      updates.progress = {
+        recentActivity: [],
+        milestones: [],
+        ...project.progress,
+        totalTasks,
+        completedTasks,
+        percentage,
+        lastUpdated: new Date()
+      };
+    }
 
+    const success = await projectService.updateProject(claims.userId, projectId, updates);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to save document' },
+        { status: 500 }
+      );
+    }
 
+    await DocumentHistoryService.getInstance().recordSnapshot({
+      projectId,
+      document: type,
+      content,
+      author: claims.userId,
+      authorName: claims.name || claims.email,
+      source: 'vscode',
+      message: typeof message === 'string' ? message : undefined,
+      previousContent
+    });
 
+    console.log(`✅ Saved ${type} from VS Code for project ${projectId}`);
 
+    return NextResponse.json({ success: true, version, savedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Failed to save document from VS Code:', error);
+    return NextResponse.json(
+      { error: 'Failed to save document' },
+      { status: 500 }
+    );
+  }
+}
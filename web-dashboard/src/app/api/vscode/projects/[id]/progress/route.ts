@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProjectService } from '@/lib/projectService';
+import { TaskParser } from '@/lib/taskParser';
+import { getBearerToken, verifyVSCodeToken } from '@/lib/vscodeToken';
+import { ActivityItem } from '@/types/shared';
+
+const MAX_ACTIVITY_ITEMS = 20;
+
+function toActivityItem(value: unknown): ActivityItem | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const item = value as Record<string, unknown>;
+  const completedAt = new Date(item.completedAt as string);
+  if (typeof item.taskId !== 'string' || typeof item.title !== 'string' || isNaN(completedAt.getTime())) {
+    return null;
+  }
+
+  return {
+    taskId: item.taskId,
+    title: item.title,
+    completedAt,
+    completedBy: item.completedBy === 'manual' ? 'manual' : 'auto-detection',
+    timeSpent: typeof item.timeSpent === 'number' && item.timeSpent >= 0 ? Math.round(item.timeSpent) : undefined
+  };
+}
+
+// PUT /api/vscode/projects/[id]/progress - Store recent task activity reported by VS Code
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const token = getBearerToken(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const claims = verifyVSCodeToken(token);
+    if (!claims?.userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const { recentActivity } = await request.json();
+
+    if (!Array.isArray(recentActivity)) {
+      return NextResponse.json(
+        { error: 'recentActivity must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const projectService = ProjectService.getInstance();
+    const project = await projectService.getProject(claims.userId, projectId);
+
+    if (!project || project.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const activities = recentActivity
+      .map(toActivityItem)
+      .filter((item): item is ActivityItem => item !== null)
+      .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())
+      .slice(0, MAX_ACTIVITY_ITEMS);
+
+    // Counts come from the stored tasks document, which the extension syncs separately
+    const tasksContent = await projectService.resolveDocumentContent(project.tasks || '');
+    const { totalTasks, completedTasks, percentage } = TaskParser.parseTasksMarkdown(tasksContent);
+
+    const success = await projectService.updateProject(claims.userId, projectId, {
+      progress: {
+        milestones: [],
+        ...project.progress,
+        totalTasks,
+        completedTasks,
+        percentage,
+        recentActivity: activities,
+        lastUpdated: new Date()
+      }
+    });
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to save progress' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`📊 Stored ${activities.length} activity items from VS Code for project ${projectId}`);
+
+    return NextResponse.json({ success: true, recentActivity: activities.length });
+  } catch (error) {
+    console.error('Failed to save progress from VS Code:', error);
+    return NextResponse.json(
+      { error: 'Failed to save progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verify } from 'jsonwebtoken';
 import { ProjectService } from '@/lib/projectService';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+import { getBearerToken, verifyVSCodeToken } from '@/lib/vscodeToken';
 
 // GET /api/vscode/projects - List user's projects for VS Code extension
 export async function GET(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const token = getBearerToken(request.headers.get('authorization'));
+    if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
         { status: 401 }
       );
     }
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-    // Verify the JWT token
-    try {
-      const decoded = verify(token, JWT_SECRET) as any;
-      
-      // Check if it's a VSCode token
-      if (decoded.type !== 'vscode') {
-        return NextResponse.json(
-          { error: 'Invalid token type' },
-          { status: 401 }
-        );
-      }
-
-      // Check if token is expired
-      if (decoded.exp && decoded.exp < Math.floor(Date.now() / 1000)) {
-        return NextResponse.json(
-          { error: 'Token expired' },
-          { status: 401 }
-        );
-      }
-
-      const userId = decoded.userId;
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Invalid token' },
-          { status: 401 }
-        );
-      }
-
-      const projectService = ProjectService.getInstance();
-      const projects = await projectService.getUserProjects(userId);
-
-      return NextResponse.json(projects);
-    } catch (error) {
-      console.error('Token verification failed:', error);
+    const claims = verifyVSCodeToken(token);
+    if (!claims?.userId) {
       return NextResponse.json(
-        { error: 'Invalid token' },
+        { error: 'Invalid or expired token' },
         { status: 401 }
       );
     }
+
+    const projectService = ProjectService.getInstance();
+    const projects = await projectService.getUserProjects(claims.userId);
+
+    return NextResponse.json(projects);
   } catch (error) {
     console.error('Failed to list projects for VS Code:', error);
     return NextResponse.json(
@@ -64,4 +33,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -1,34 +1,26 @@
 'use server';
 
-import { sign } from 'jsonwebtoken';
+import { currentUser } from '@clerk/nextjs/server';
+import { signVSCodeToken, vscodeTokenUser } from '@/lib/vscodeToken';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-
-export async function generateVSCodeToken(userId: string, email: string, name: string) {
+// Issues a token for the signed-in user only; the identity never comes from the client
+export async function generateVSCodeToken() {
   try {
-    if (!userId || !email) {
-      throw new Error('Missing user information');
+    const user = await currentUser();
+    if (!user) {
+      throw new Error('Not signed in');
     }
-    
-    // Create a long-lived token (30 days) for VSCode
-    const tokenPayload = {
-      userId,
-      email,
-      name: name || 'User',
-      type: 'vscode',
-      exp: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // 30 days
-      iat: Math.floor(Date.now() / 1000)
-    };
 
-    const token = sign(tokenPayload, JWT_SECRET);
+    const issued = signVSCodeToken(vscodeTokenUser(user));
 
     return {
       success: true,
-      token,
-      expiresIn: '30 days',
-      userId,
-      email,
-      name: name || 'User'
+      token: issued.token,
+      expiresIn: issued.expiresIn,
+      expiresAt: issued.expiresAt,
+      userId: issued.userId,
+      email: issued.email,
+      name: issued.name
     };
 
   } catch (error) {
@@ -39,4 +31,3 @@ export async function generateVSCodeToken(userId: string, email: string, name: s
     };
   }
 }
-
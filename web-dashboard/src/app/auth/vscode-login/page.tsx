@@ -5,12 +5,40 @@ import { useEffect, useState } from 'react';
 import { generateVSCodeToken } from './actions';
 import Link from 'next/link';
 
+// The extension's own sign-in callback, under any of the editor URI schemes it can run in
+// (vscode.env.uriScheme). Any other URI handler must never be sent a token.
+const EDITOR_CALLBACK_PATTERN =
+  /^(vscode|vscode-insiders|vscodium|cursor|windsurf):\/\/ai-project-manager\.ai-project-manager\/auth-callback$/i;
+
+interface EditorCallback {
+  redirectUri: string;
+  state: string;
+}
+
+function getEditorCallback(): EditorCallback | null {
+  const params = new URLSearchParams(window.location.search);
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+  if (!redirectUri || !state || !EDITOR_CALLBACK_PATTERN.test(redirectUri)) {
+    return null;
+  }
+  return { redirectUri, state };
+}
+
 export default function VSCodeLoginPage() {
   const { isSignedIn, userId } = useAuth();
   const { user } = useUser();
   const [token, setToken] = useState<string>('');
   const [copied, setCopied] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [callbackUrl, setCallbackUrl] = useState<string | null>(null);
+  const [signInHref, setSignInHref] = useState('/sign-in?redirect_url=/auth/vscode-login');
+
+  useEffect(() => {
+    // Keep the editor callback through the sign-in redirect
+    const returnTo = `/auth/vscode-login${window.location.search}`;
+    setSignInHref(`/sign-in?redirect_url=${encodeURIComponent(returnTo)}`);
+  }, []);
 
   useEffect(() => {
     console.log('useEffect triggered:', { isSignedIn, userId, user });
@@ -29,19 +57,22 @@ export default function VSCodeLoginPage() {
     setLoading(true);
     try {
       console.log('Generating VSCode token...');
-      
-      const userEmail = user.emailAddresses[0]?.emailAddress || '';
-      const userName = user.firstName && user.lastName
-        ? `${user.firstName} ${user.lastName}`
-        : user.username || 'User';
-      
-      const result = await generateVSCodeToken(user.id || '', userEmail, userName);
+
+      const result = await generateVSCodeToken();
       
       console.log('Token generation result:', result);
       
       if (result.success && result.token) {
         console.log('Token generated successfully:', result);
         setToken(result.token);
+
+        // Opened from the extension: hand the token straight back to the editor
+        const callback = getEditorCallback();
+        if (callback) {
+          const url = `${callback.redirectUri}?token=${encodeURIComponent(result.token)}&state=${encodeURIComponent(callback.state)}`;
+          setCallbackUrl(url);
+          window.location.href = url;
+        }
       } else {
         console.error('Failed to generate token:', result.error);
       }
@@ -81,7 +112,7 @@ export default function VSCodeLoginPage() {
                 You need to be signed in to use the VSCode extension.
               </p>
               <Link
-                href="/sign-in?redirect_url=/auth/vscode-login"
+                href={signInHref}
                 className="w-full flex justify-center py-2 px-4 border border-transparent rounded-none shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 Sign In
@@ -109,6 +140,18 @@ export default function VSCodeLoginPage() {
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-none sm:px-10">
           <div className="space-y-6">
+            {callbackUrl && (
+              <div className="bg-green-50 border border-green-200 p-3 text-sm text-green-800">
+                <p>Returning you to VS Code. Approve the prompt to open the editor.</p>
+                <a href={callbackUrl} className="font-medium underline">
+                  Open VS Code
+                </a>
+                <p className="mt-1 text-xs text-green-700">
+                  If nothing happens, copy the token below and paste it into the extension instead.
+                </p>
+              </div>
+            )}
+
             <div>
               <label htmlFor="token" className="block text-sm font-medium text-gray-700">
                 Authentication Token
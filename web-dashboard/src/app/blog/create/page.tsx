@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
@@ -20,8 +20,10 @@ import {
   Edit3,
   Sparkles,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Square
 } from 'lucide-react';
+import { readEventStream } from '@/lib/eventStream';
 
 interface UserProject {
   id: string;
@@ -50,6 +52,19 @@ interface BlogPostResult {
   };
 }
 
+// Read a (possibly unterminated) string field out of streamed JSON so the post
+// can be previewed while it is still being written
+function readPartialJsonString(partialJson: string, field: string): string {
+  const match = partialJson.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+  if (!match) return '';
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    // A multi-character escape (e.g. \u00e9) may still be arriving
+    return match[1];
+  }
+}
+
 export default function CreateBlogPostPage() {
   const { user, isSignedIn } = useUser();
   const router = useRouter();
@@ -80,6 +95,8 @@ export default function CreateBlogPostPage() {
 
   // Generated content
   const [generatedPost, setGeneratedPost] = useState<BlogPostResult | null>(null);
+  const [streamingPost, setStreamingPost] = useState<{ title: string; content: string } | null>(null);
+  const generationAbortRef = useRef<{ controller: AbortController; cancelled: boolean } | null>(null);
   const [improvedContent, setImprovedContent] = useState<string>('');
   const [improveDetails, setImproveDetails] = useState<string>('');
 
@@ -189,18 +206,27 @@ export default function CreateBlogPostPage() {
       return;
     }
 
+    // Abort if the stream goes quiet for 2 minutes
+    const controller = new AbortController();
+    const abortState = { controller, cancelled: false };
+    generationAbortRef.current = abortState;
+    let timeoutId = setTimeout(() => controller.abort(), 120000);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), 120000);
+    };
+
     try {
       setIsGenerating(true);
       setError(null);
       setGeneratedPost(null);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minutes timeout
+      setStreamingPost({ title: '', content: '' });
 
       const response = await fetch(`/api/projects/${formData.projectId}/generate-blog-post`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           description: formData.description,
@@ -213,36 +239,73 @@ export default function CreateBlogPostPage() {
         signal: controller.signal
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        const errorData = await response.json();
+        const errorData = await response.json().catch(() => ({}));
         throw new Error(errorData.error || 'Failed to generate blog post');
       }
 
-      const result = await response.json();
-      setGeneratedPost(result);
+      let result: BlogPostResult | null = null;
+      let streamError: string | null = null;
+      let partialJson = '';
+      await readEventStream<BlogPostResult>(response, (event, data) => {
+        resetTimeout();
+        if (event === 'delta') {
+          partialJson += data.text;
+          setStreamingPost({
+            title: readPartialJsonString(partialJson, 'title'),
+            content: readPartialJsonString(partialJson, 'content')
+          });
+        } else if (event === 'done') {
+          result = data;
+        } else if (event === 'error') {
+          streamError = data.error;
+        }
+      });
+
+      if (!result) {
+        throw new Error(streamError || 'Failed to generate blog post');
+      }
+
+      const post: BlogPostResult = result;
+      setGeneratedPost(post);
       setFormData(prev => ({
         ...prev,
-        title: result.title,
-        content: result.content
+        title: post.title,
+        content: post.content
       }));
       setSuccessMessage('Blog post generated successfully!');
       setTimeout(() => setSuccessMessage(null), 5000);
       
     } catch (error: any) {
       console.error('Blog post generation error:', error);
-      if (error.name === 'AbortError') {
+      if (error.name === 'AbortError' && abortState.cancelled) {
+        setSuccessMessage('Blog post generation cancelled');
+        setTimeout(() => setSuccessMessage(null), 5000);
+      } else if (error.name === 'AbortError') {
         setError('Blog post generation timed out. Please try again.');
+        setTimeout(() => setError(null), 10000);
       } else {
         setError(error.message || 'Failed to generate blog post');
+        setTimeout(() => setError(null), 10000);
       }
-      setTimeout(() => setError(null), 10000);
     } finally {
+      clearTimeout(timeoutId);
+      if (generationAbortRef.current === abortState) {
+        generationAbortRef.current = null;
+      }
+      setStreamingPost(null);
       setIsGenerating(false);
     }
   };
 
+  // Stop the in-flight generation; the server stops generating and bills only what was produced
+  const handleCancelGeneration = () => {
+    if (generationAbortRef.current) {
+      generationAbortRef.current.cancelled = true;
+      generationAbortRef.current.controller.abort();
+    }
+  };
+
   const handleImprovePost = async () => {
     if (!formData.projectId || !generatedPost) {
       setError('No post to improve');
@@ -552,6 +615,34 @@ export default function CreateBlogPostPage() {
           </CardContent>
         </Card>
 
+        {/* Streaming Preview */}
+        {isGenerating && streamingPost && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  Writing Blog Post...
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={handleCancelGeneration}>
+                  <Square className="h-3 w-3 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {streamingPost.title ? (
+                <h3 className="text-lg font-semibold">{streamingPost.title}</h3>
+              ) : (
+                <p className="text-sm text-muted-foreground">Waiting for the AI to start writing...</p>
+              )}
+              {streamingPost.content && (
+                <div className="text-sm whitespace-pre-wrap text-muted-foreground">{streamingPost.content}</div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Generated Content */}
         {generatedPost && (
           <Card>
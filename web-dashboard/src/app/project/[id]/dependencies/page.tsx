@@ -0,0 +1,13 @@
+import { ProjectDashboardLayout } from '@/components/ProjectDashboardLayout';
+
+interface DependenciesPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function DependenciesPage({ params }: DependenciesPageProps) {
+  const { id: projectId } = await params;
+
+  return (
+    <ProjectDashboardLayout projectId={projectId} activeTab="dependencies" />
+  );
+}
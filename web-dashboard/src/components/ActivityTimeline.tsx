@@ -35,6 +35,15 @@ export function ActivityTimeline({ activities, maxItems = 10 }: ActivityTimeline
     }
   };
 
+  const formatTimeSpent = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 1) {
+      return '<1m';
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
   const getCompletionIcon = (completedBy: 'manual' | 'auto-detection') => {
     if (completedBy === 'auto-detection') {
       return (
@@ -98,6 +107,11 @@ export function ActivityTimeline({ activities, maxItems = 10 }: ActivityTimeline
                           Manual completion
                         </span>
                       )}
+                      {activity.timeSpent !== undefined && activity.timeSpent > 0 && (
+                        <span className="ml-2" title="Focused time tracked in VS Code">
+                          · {formatTimeSpent(activity.timeSpent)} spent
+                        </span>
+                      )}
                     </p>
                   </div>
                   <div className="text-right text-xs text-gray-500 whitespace-nowrap">
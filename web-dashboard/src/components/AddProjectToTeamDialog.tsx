@@ -59,8 +59,8 @@ export function AddProjectToTeamDialog({
       
       if (result.success) {
         // Filter out projects that are already in this team
-        const availableProjects = result.data.filter((project: ProjectConfiguration) => 
-          !project.teamId || project.teamId !== teamId
+        const availableProjects = result.data.filter((project: ProjectConfiguration & { teamIds: string[] }) =>
+          !project.teamIds.includes(teamId)
         );
         setProjects(availableProjects);
       } else {
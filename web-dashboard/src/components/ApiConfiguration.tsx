@@ -22,7 +22,7 @@ interface ApiConfiguration {
   apiKey: string;
   model: string;
   baseUrl?: string;
-  source: 'user' | 'environment' | 'none';
+  source: 'user' | 'environment' | 'global' | 'none';
 }
 
 interface ApiConfigurationProps {
@@ -131,6 +131,13 @@ export function ApiConfiguration({ projectId }: ApiConfigurationProps) {
             Environment Variable
           </Badge>
         );
+      case 'global':
+        return (
+          <Badge variant="secondary" className="flex items-center">
+            <Settings className="w-4 h-4 mr-1" />
+            Global Settings
+          </Badge>
+        );
       default:
         return (
           <Badge variant="destructive" className="flex items-center">
@@ -216,7 +223,7 @@ export function ApiConfiguration({ projectId }: ApiConfigurationProps) {
                 )}
 
                 {/* Test Connection Button */}
-                {(config.source === 'user' || config.source === 'environment') && (
+                {config.source !== 'none' && (
                   <div className="pt-4">
                     <Button
                       onClick={handleTest}
@@ -1,85 +1,143 @@
-// Backup management component
+// Version history browser for a project document
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { DocumentDiffViewer } from './DocumentDiffViewer';
 
-interface BackupInfo {
-  filePath: string;
-  backupPath: string;
-  timestamp: Date;
-  checksum: string;
+interface DocumentVersion {
+  id: string;
+  document: string;
+  content_hash: string;
+  parent_hash?: string | null;
+  author: string;
+  author_name?: string | null;
+  source: 'dashboard' | 'vscode' | 'ai-generation' | 'restore' | 'import';
+  message?: string | null;
   size: number;
+  created_at: string;
 }
 
 interface BackupManagerProps {
-  filePath: string;
-  onRestore?: (backupPath: string) => void;
+  projectId: string;
+  document: string; // 'requirements', 'design', 'tasks' or 'context/<file>'
+  currentContent: string;
+  refreshKey?: number | string; // Change to reload the list, e.g. after a save
+  onRestore?: (content: string, version: DocumentVersion) => Promise<void> | void;
   className?: string;
 }
 
-export function BackupManager({ filePath, onRestore, className = '' }: BackupManagerProps) {
-  const [backups, setBackups] = useState<BackupInfo[]>([]);
+type CompareTarget = 'previous' | 'current';
+
+const SOURCE_LABELS: Record<DocumentVersion['source'], { label: string; className: string }> = {
+  dashboard: { label: 'Dashboard', className: 'bg-blue-100 text-blue-800' },
+  vscode: { label: 'VS Code', className: 'bg-purple-100 text-purple-800' },
+  'ai-generation': { label: 'AI', className: 'bg-amber-100 text-amber-800' },
+  restore: { label: 'Restore', className: 'bg-green-100 text-green-800' },
+  import: { label: 'Initial', className: 'bg-gray-100 text-gray-700' }
+};
+
+export function BackupManager({
+  projectId,
+  document,
+  currentContent,
+  refreshKey,
+  onRestore,
+  className = ''
+}: BackupManagerProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [canRestore, setCanRestore] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>('previous');
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [isRestoring, setIsRestoring] = useState(false);
 
-  // Load backups for the file
-  const loadBackups = async () => {
+  // Load the version list for the document
+  const loadVersions = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
-      
-      const response = await fetch(`/api/backups?filePath=${encodeURIComponent(filePath)}`);
-      
+
+      const response = await fetch(
+        `/api/projects/${projectId}/history?document=${encodeURIComponent(document)}`
+      );
+
       if (!response.ok) {
-        throw new Error('Failed to load backups');
+        throw new Error('Failed to load version history');
       }
-      
+
       const data = await response.json();
-      setBackups(data.backups.map((backup: any) => ({
-        ...backup,
-        timestamp: new Date(backup.timestamp)
-      })));
+      setVersions(data.versions || []);
+      setCanRestore(Boolean(data.canRestore));
     } catch (error) {
-      console.error('Failed to load backups:', error);
-      setError(error instanceof Error ? error.message : 'Failed to load backups');
+      console.error('Failed to load version history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load version history');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [projectId, document]);
 
-  // Restore from backup
-  const handleRestore = async (backupPath: string) => {
-    try {
-      const confirmed = confirm(
-        'Are you sure you want to restore from this backup? This will overwrite the current file content.'
-      );
-      
-      if (!confirmed) return;
-
-      setIsLoading(true);
-      
-      const response = await fetch('/api/backups/restore', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ backupPath, targetPath: filePath })
-      });
+  // Snapshot content is immutable, so each version only needs fetching once
+  const loadContent = useCallback(async (versionId: string): Promise<string | null> => {
+    if (contents[versionId] !== undefined) {
+      return contents[versionId];
+    }
 
+    try {
+      const response = await fetch(`/api/projects/${projectId}/history/${versionId}`);
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || 'Failed to restore backup');
+        throw new Error('Failed to load version');
       }
+      const data = await response.json();
+      setContents(prev => ({ ...prev, [versionId]: data.version.content }));
+      return data.version.content;
+    } catch (error) {
+      console.error('Failed to load version content:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load version');
+      return null;
+    }
+  }, [projectId, contents]);
 
-      alert('File restored successfully from backup!');
-      
-      if (onRestore) {
-        onRestore(backupPath);
-      }
+  useEffect(() => {
+    if (isExpanded) {
+      loadVersions();
+    }
+  }, [isExpanded, loadVersions, refreshKey]);
+
+  const selectedIndex = versions.findIndex(version => version.id === selectedId);
+  const selectedVersion = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previousVersion = selectedIndex >= 0 ? versions[selectedIndex + 1] : undefined;
+
+  // Fetch what the diff needs whenever the selection or comparison changes
+  useEffect(() => {
+    if (!selectedVersion) return;
+    loadContent(selectedVersion.id);
+    if (compareTarget === 'previous' && previousVersion) {
+      loadContent(previousVersion.id);
+    }
+  }, [selectedVersion, previousVersion, compareTarget, loadContent]);
+
+  const handleRestore = async (version: DocumentVersion) => {
+    const content = await loadContent(version.id);
+    if (content === null || !onRestore) return;
+
+    const confirmed = confirm(
+      `Restore the version from ${new Date(version.created_at).toLocaleString()}? ` +
+      'The current content stays in history and can be restored later.'
+    );
+    if (!confirmed) return;
+
+    try {
+      setIsRestoring(true);
+      await onRestore(content, version);
+      await loadVersions();
     } catch (error) {
-      console.error('Failed to restore backup:', error);
-      alert(`Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to restore version:', error);
+      alert(`Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      setIsLoading(false);
+      setIsRestoring(false);
     }
   };
 
@@ -107,42 +165,56 @@ export function BackupManager({ filePath, onRestore, className = '' }: BackupMan
     return date.toLocaleDateString();
   };
 
-  // Load backups when component mounts or filePath changes
-  useEffect(() => {
-    if (filePath && isExpanded) {
-      loadBackups();
+  const renderDiff = () => {
+    if (!selectedVersion) return null;
+
+    const selectedContent = contents[selectedVersion.id];
+    const baseContent = compareTarget === 'current'
+      ? currentContent
+      : previousVersion ? contents[previousVersion.id] : '';
+
+    if (selectedContent === undefined || baseContent === undefined) {
+      return <div className="py-4 text-center text-sm text-gray-500">Loading version...</div>;
     }
-  }, [filePath, isExpanded]);
 
-  if (!filePath) {
-    return null;
-  }
+    // "current" shows what restoring would change, "previous" what this save changed
+    return compareTarget === 'current' ? (
+      <DocumentDiffViewer
+        oldContent={currentContent}
+        newContent={selectedContent}
+        oldLabel="Current document"
+        newLabel="This version"
+      />
+    ) : (
+      <DocumentDiffViewer
+        oldContent={baseContent}
+        newContent={selectedContent}
+        oldLabel={previousVersion ? 'Previous version' : 'Empty document'}
+        newLabel="This version"
+      />
+    );
+  };
 
   return (
     <div className={`bg-white border border-gray-200 rounded-lg ${className}`}>
       <div className="p-4">
         <button
-          onClick={() => {
-            setIsExpanded(!isExpanded);
-            if (!isExpanded && backups.length === 0) {
-              loadBackups();
-            }
-          }}
+          onClick={() => setIsExpanded(!isExpanded)}
           className="flex items-center justify-between w-full text-left"
         >
           <div className="flex items-center space-x-2">
             <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3-3m0 0l-3 3m3-3v12" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            <span className="font-medium text-gray-900">File Backups</span>
-            {backups.length > 0 && (
-              <span className="text-sm text-gray-500">({backups.length})</span>
+            <span className="font-medium text-gray-900">Version History</span>
+            {versions.length > 0 && (
+              <span className="text-sm text-gray-500">({versions.length})</span>
             )}
           </div>
-          <svg 
-            className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} 
-            fill="none" 
-            stroke="currentColor" 
+          <svg
+            className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
             viewBox="0 0 24 24"
           >
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -151,87 +223,103 @@ export function BackupManager({ filePath, onRestore, className = '' }: BackupMan
 
         {isExpanded && (
           <div className="mt-4">
-            {isLoading && (
+            {isLoading && versions.length === 0 && (
               <div className="flex items-center justify-center py-4">
                 <div className="animate-spin rounded-none h-6 w-6 border-b-2 border-blue-600"></div>
-                <span className="ml-2 text-sm text-gray-600">Loading backups...</span>
+                <span className="ml-2 text-sm text-gray-600">Loading history...</span>
               </div>
             )}
 
             {error && (
               <div className="bg-red-50 border border-red-200 rounded p-3 mb-4">
-                <div className="flex items-center">
-                  <svg className="w-4 h-4 text-red-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                  </svg>
-                  <span className="text-sm text-red-800">{error}</span>
-                </div>
+                <span className="text-sm text-red-800">{error}</span>
                 <button
-                  onClick={loadBackups}
-                  className="mt-2 text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
+                  onClick={loadVersions}
+                  className="ml-2 text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
                 >
                   Retry
                 </button>
               </div>
             )}
 
-            {!isLoading && !error && backups.length === 0 && (
+            {!isLoading && !error && versions.length === 0 && (
               <div className="text-center py-4">
-                <svg className="w-8 h-8 text-gray-300 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3-3m0 0l-3 3m3-3v12" />
-                </svg>
-                <p className="text-sm text-gray-500">No backups available</p>
-                <p className="text-xs text-gray-400 mt-1">Backups are created automatically when files are modified</p>
+                <p className="text-sm text-gray-500">No saved versions yet</p>
+                <p className="text-xs text-gray-400 mt-1">Every save from the dashboard, VS Code or AI generation is recorded here</p>
               </div>
             )}
 
-            {!isLoading && !error && backups.length > 0 && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between text-xs text-gray-500 border-b border-gray-200 pb-2">
-                  <span>Backup Time</span>
-                  <span>Size</span>
-                  <span>Actions</span>
-                </div>
-                
-                {backups.map((backup, index) => (
-                  <div key={backup.backupPath} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0">
-                    <div className="flex-1">
-                      <div className="text-sm font-medium text-gray-900">
-                        {formatRelativeTime(backup.timestamp)}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {backup.timestamp.toLocaleString()}
-                      </div>
-                      <div className="text-xs text-gray-400 font-mono">
-                        {backup.checksum.substring(0, 8)}...
-                      </div>
-                    </div>
-                    
-                    <div className="text-sm text-gray-600 px-4">
-                      {formatFileSize(backup.size)}
-                    </div>
-                    
-                    <div className="flex space-x-2">
+            {versions.length > 0 && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="space-y-1 max-h-96 overflow-y-auto">
+                  {versions.map((version, index) => {
+                    const source = SOURCE_LABELS[version.source] || SOURCE_LABELS.dashboard;
+                    const createdAt = new Date(version.created_at);
+                    return (
                       <button
-                        onClick={() => handleRestore(backup.backupPath)}
-                        disabled={isLoading}
-                        className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
-                        title="Restore this backup"
+                        key={version.id}
+                        onClick={() => setSelectedId(version.id === selectedId ? null : version.id)}
+                        className={`w-full text-left p-2 rounded border ${
+                          version.id === selectedId ? 'border-blue-400 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+                        }`}
                       >
-                        Restore
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-900" title={createdAt.toLocaleString()}>
+                            {formatRelativeTime(createdAt)}
+                          </span>
+                          <span className={`px-1.5 py-0.5 text-xs rounded ${source.className}`}>{source.label}</span>
+                        </div>
+                        {version.message && (
+                          <div className="text-xs text-gray-700 truncate">{version.message}</div>
+                        )}
+                        <div className="flex items-center justify-between text-xs text-gray-400">
+                          <span className="truncate">{version.author_name || version.author}</span>
+                          <span className="font-mono">{version.content_hash.substring(0, 8)}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-gray-400">
+                          <span>{formatFileSize(version.size)}</span>
+                          {index === 0 && (
+                            <span className="px-1.5 py-0.5 bg-green-100 text-green-800 rounded">Latest</span>
+                          )}
+                        </div>
                       </button>
-                      
-                      {index === 0 && (
-                        <span className="px-2 py-1 text-xs bg-green-100 text-green-800 rounded">
-                          Latest
-                        </span>
-                      )}
+                    );
+                  })}
+                </div>
+
+                <div className="lg:col-span-2">
+                  {selectedVersion ? (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex text-xs border border-gray-200 rounded overflow-hidden">
+                          {(['previous', 'current'] as CompareTarget[]).map(target => (
+                            <button
+                              key={target}
+                              onClick={() => setCompareTarget(target)}
+                              className={`px-2 py-1 ${compareTarget === target ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                            >
+                              {target === 'previous' ? 'Changes in this version' : 'Compare with current'}
+                            </button>
+                          ))}
+                        </div>
+                        {canRestore && onRestore && (
+                          <button
+                            onClick={() => handleRestore(selectedVersion)}
+                            disabled={isRestoring || contents[selectedVersion.id] === currentContent}
+                            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                            title="Make this version the current document"
+                          >
+                            {isRestoring ? 'Restoring...' : 'Restore'}
+                          </button>
+                        )}
+                      </div>
+                      {renderDiff()}
                     </div>
-                  </div>
-                ))}
-                
-                <div className="pt-2 text-xs text-gray-500">
-                  <p>💡 Tip: Backups are automatically created before each save operation</p>
+                  ) : (
+                    <div className="h-full flex items-center justify-center text-sm text-gray-500 py-8">
+                      Select a version to see what changed
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -240,4 +328,4 @@ export function BackupManager({ filePath, onRestore, className = '' }: BackupMan
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,7 +2,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useSyncConflicts } from '../hooks/useRealtimeSync';
+import { useSyncConflicts, MergeMode } from '../hooks/useRealtimeSync';
 
 interface ConflictResolutionDialogProps {
   conflictId: string;
@@ -21,6 +21,15 @@ interface MergeResult {
     baseContent?: string;
   }>;
   warnings: string[];
+  mode?: 'semantic' | 'textual';
+  taskConflicts?: Array<{
+    taskId: string;
+    title: string;
+    fields: string[];
+    lineNumber: number;
+    localContent: string;
+    remoteContent: string;
+  }>;
 }
 
 export function ConflictResolutionDialog({
@@ -33,10 +42,12 @@ export function ConflictResolutionDialog({
   const [selectedResolution, setSelectedResolution] = useState<'local' | 'remote' | 'merge' | 'manual'>('local');
   const [manualContent, setManualContent] = useState('');
   const [mergePreview, setMergePreview] = useState<MergeResult | null>(null);
+  const [mergeMode, setMergeMode] = useState<MergeMode>('auto');
   const [showPreview, setShowPreview] = useState(false);
   const [resolving, setResolving] = useState(false);
 
   const conflict = conflicts.find(c => c.id === conflictId);
+  const isTasksFile = conflict?.relativePath.split(/[\\/]/).pop() === 'tasks.md';
 
   useEffect(() => {
     if (conflict && selectedResolution === 'manual') {
@@ -48,7 +59,7 @@ export function ConflictResolutionDialog({
     if (!conflict) return;
     
     try {
-      const preview = await getMergePreview(conflictId);
+      const preview = await getMergePreview(conflictId, mergeMode);
       setMergePreview(preview);
       setShowPreview(true);
       
@@ -68,7 +79,8 @@ export function ConflictResolutionDialog({
       await resolveConflict(
         conflictId,
         selectedResolution,
-        selectedResolution === 'manual' ? manualContent : undefined
+        selectedResolution === 'manual' ? manualContent : undefined,
+        mergeMode
       );
       onResolved();
     } catch (error) {
@@ -167,6 +179,19 @@ export function ConflictResolutionDialog({
               <div>
                 <div className="font-medium">Automatic Merge</div>
                 <div className="text-sm text-gray-600">Attempt to merge changes automatically</div>
+                {isTasksFile && (
+                  <select
+                    value={mergeMode}
+                    onChange={(e) => {
+                      setMergeMode(e.target.value as MergeMode);
+                      setShowPreview(false);
+                    }}
+                    className="mt-2 block text-xs border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="auto">Merge by task (completions combined)</option>
+                    <option value="textual">Merge line by line</option>
+                  </select>
+                )}
                 <button
                   onClick={handleGetMergePreview}
                   className="text-xs text-blue-600 hover:text-blue-800 mt-1"
@@ -244,7 +269,12 @@ export function ConflictResolutionDialog({
             <h3 className="font-medium mb-3">Merge Preview</h3>
             {mergePreview.success ? (
               <div className="bg-green-50 border border-green-200 rounded p-3">
-                <div className="text-sm text-green-800 mb-2">✅ Automatic merge successful</div>
+                <div className="text-sm text-green-800 mb-2">
+                  ✅ Automatic merge successful{mergePreview.mode === 'semantic' ? ' (merged by task)' : ''}
+                </div>
+                {mergePreview.warnings.map((warning, index) => (
+                  <div key={index} className="text-xs text-green-700 mb-1">• {warning}</div>
+                ))}
                 <div className="bg-white border border-green-300 rounded p-3 max-h-40 overflow-y-auto">
                   <pre className="text-xs whitespace-pre-wrap">{mergePreview.mergedContent}</pre>
                 </div>
@@ -255,15 +285,32 @@ export function ConflictResolutionDialog({
                 {mergePreview.warnings.map((warning, index) => (
                   <div key={index} className="text-xs text-red-700 mb-1">• {warning}</div>
                 ))}
-                {mergePreview.conflicts.length > 0 && (
+                {mergePreview.taskConflicts && mergePreview.taskConflicts.length > 0 && (
+                  <div className="mt-3">
+                    <div className="text-sm font-medium text-red-800 mb-2">Tasks edited on both sides:</div>
+                    {mergePreview.taskConflicts.map((taskConflict) => (
+                      <div key={taskConflict.taskId} className="bg-white border border-red-300 rounded p-2 mb-2 text-xs">
+                        <div className="font-medium">
+                          Task {taskConflict.taskId}: {taskConflict.title}
+                          <span className="ml-2 font-normal text-red-600">({taskConflict.fields.join(', ')} changed)</span>
+                        </div>
+                        <div className="mt-1 grid grid-cols-2 gap-2">
+                          <pre className="text-blue-700 whitespace-pre-wrap">{taskConflict.localContent}</pre>
+                          <pre className="text-green-700 whitespace-pre-wrap">{taskConflict.remoteContent}</pre>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {!mergePreview.taskConflicts?.length && mergePreview.conflicts.length > 0 && (
                   <div className="mt-3">
                     <div className="text-sm font-medium text-red-800 mb-2">Conflicts found:</div>
                     {mergePreview.conflicts.map((conflict, index) => (
                       <div key={index} className="bg-white border border-red-300 rounded p-2 mb-2 text-xs">
                         <div className="font-medium">Line {conflict.lineNumber}:</div>
                         <div className="mt-1">
-                          <div className="text-blue-700">Local: {conflict.localContent}</div>
-                          <div className="text-green-700">Remote: {conflict.remoteContent}</div>
+                          <pre className="text-blue-700 whitespace-pre-wrap">Local: {conflict.localContent}</pre>
+                          <pre className="text-green-700 whitespace-pre-wrap">Remote: {conflict.remoteContent}</pre>
                         </div>
                       </div>
                     ))}
@@ -1361,7 +1361,7 @@ ${analysisContent}`;
                         {previewData.useUrlContext && previewData.tokenUsage && (
                           <>
                             <span>•</span>
-                            <span>🧠 {previewData.tokenUsage.totalTokenCount || 0} tokens</span>
+                            <span>🧠 {previewData.tokenUsage.totalTokens || 0} tokens</span>
                           </>
                         )}
                       </div>
@@ -0,0 +1,125 @@
+// Line diff between two versions of a document
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { diffLines, DiffLine } from '@/lib/diff3';
+
+interface DocumentDiffViewerProps {
+  oldContent: string;
+  newContent: string;
+  oldLabel?: string;
+  newLabel?: string;
+  contextLines?: number;
+  className?: string;
+}
+
+type DiffRow =
+  | { kind: 'line'; line: DiffLine }
+  | { kind: 'collapsed'; id: number; lines: DiffLine[] };
+
+export function DocumentDiffViewer({
+  oldContent,
+  newContent,
+  oldLabel = 'Before',
+  newLabel = 'After',
+  contextLines = 3,
+  className = ''
+}: DocumentDiffViewerProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { rows, added, removed } = useMemo(() => {
+    const lines = diffLines(oldContent, newContent);
+    const result: DiffRow[] = [];
+
+    // Collapse unchanged runs that are further than contextLines from any change
+    let index = 0;
+    while (index < lines.length) {
+      if (lines[index].type !== 'equal') {
+        result.push({ kind: 'line', line: lines[index] });
+        index++;
+        continue;
+      }
+
+      let end = index;
+      while (end < lines.length && lines[end].type === 'equal') {
+        end++;
+      }
+
+      const keepBefore = index === 0 ? 0 : contextLines;
+      const keepAfter = end === lines.length ? 0 : contextLines;
+      const run = lines.slice(index, end);
+
+      if (run.length > keepBefore + keepAfter + 1) {
+        run.slice(0, keepBefore).forEach(line => result.push({ kind: 'line', line }));
+        result.push({ kind: 'collapsed', id: index, lines: run.slice(keepBefore, run.length - keepAfter) });
+        run.slice(run.length - keepAfter).forEach(line => result.push({ kind: 'line', line }));
+      } else {
+        run.forEach(line => result.push({ kind: 'line', line }));
+      }
+
+      index = end;
+    }
+
+    return {
+      rows: result,
+      added: lines.filter(line => line.type === 'insert').length,
+      removed: lines.filter(line => line.type === 'delete').length
+    };
+  }, [oldContent, newContent, contextLines]);
+
+  const renderLine = (line: DiffLine, key: string) => {
+    const styles = {
+      equal: 'text-gray-700',
+      insert: 'bg-green-50 text-green-800',
+      delete: 'bg-red-50 text-red-800'
+    };
+    const marker = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+
+    return (
+      <div key={key} className={`flex ${styles[line.type]}`}>
+        <span className="w-10 shrink-0 text-right pr-2 text-gray-400 select-none">{line.oldLineNumber ?? ''}</span>
+        <span className="w-10 shrink-0 text-right pr-2 text-gray-400 select-none">{line.newLineNumber ?? ''}</span>
+        <span className="w-4 shrink-0 select-none">{marker}</span>
+        <span className="whitespace-pre-wrap break-all">{line.line || ' '}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`border border-gray-200 rounded ${className}`}>
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs">
+        <span className="text-gray-600">
+          {oldLabel} → {newLabel}
+        </span>
+        <span>
+          <span className="text-green-700 mr-2">+{added}</span>
+          <span className="text-red-700">-{removed}</span>
+        </span>
+      </div>
+
+      {added === 0 && removed === 0 ? (
+        <div className="p-4 text-center text-sm text-gray-500">No differences</div>
+      ) : (
+        <div className="font-mono text-xs max-h-96 overflow-auto py-1">
+          {rows.map((row, rowIndex) => {
+            if (row.kind === 'line') {
+              return renderLine(row.line, `line-${rowIndex}`);
+            }
+            if (expanded.has(row.id)) {
+              return row.lines.map((line, lineIndex) => renderLine(line, `expanded-${row.id}-${lineIndex}`));
+            }
+            return (
+              <button
+                key={`collapsed-${row.id}`}
+                onClick={() => setExpanded(prev => new Set(prev).add(row.id))}
+                className="w-full text-left px-3 py-1 my-1 bg-blue-50 text-blue-700 hover:bg-blue-100"
+              >
+                ⋯ {row.lines.length} unchanged lines
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
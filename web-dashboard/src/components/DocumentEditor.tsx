@@ -5,6 +5,7 @@ import { MarkdownEditor } from './MarkdownEditor';
 import { useRealtimeSync, useDocumentSync } from '../hooks/useRealtimeSync';
 import { RealtimeSyncStatus, DocumentSyncIndicator, UnsavedChangesIndicator } from './RealtimeSyncStatus';
 import { BackupManager } from './BackupManager';
+import { DocumentDiffViewer } from './DocumentDiffViewer';
 import AddTaskDialog from './AddTaskDialog';
 import AddRequirementDialog from './AddRequirementDialog';
 import TransitionRequirementDialog from './TransitionRequirementDialog';
@@ -30,6 +31,10 @@ export function DocumentEditor({
 }: DocumentEditorProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
+  // Last content known to be on the server, for reviewing unsaved changes
+  const [savedContent, setSavedContent] = useState('');
+  const [showChanges, setShowChanges] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   // Real-time sync hooks
   const { syncStatus, startSync } = useRealtimeSync(projectPath);
@@ -60,6 +65,7 @@ export function DocumentEditor({
       
       const data = await response.json();
       updateLocalContent(data.content || '');
+      setSavedContent(data.content || '');
     } catch (error) {
       console.error(`Failed to load ${documentType}:`, error);
       setLoadError(error instanceof Error ? error.message : 'Failed to load document');
@@ -69,7 +75,10 @@ export function DocumentEditor({
   };
 
   // Save document content with conflict detection
-  const saveDocument = useCallback(async (contentToSave: string) => {
+  const saveDocument = useCallback(async (
+    contentToSave: string,
+    history: { source: 'dashboard' | 'restore'; message?: string } = { source: 'dashboard' }
+  ) => {
     const response = await fetch(`/api/projects/${projectId}/documents/${documentType}`, {
       method: 'PUT',
       headers: {
@@ -77,7 +86,9 @@ export function DocumentEditor({
       },
       body: JSON.stringify({ 
         content: contentToSave,
-        lastKnownTimestamp: documentState.lastSynced?.toISOString()
+        lastKnownTimestamp: documentState.lastSynced?.toISOString(),
+        source: history.source,
+        message: history.message
       }),
     });
 
@@ -111,6 +122,8 @@ export function DocumentEditor({
 
     // Mark as saved in sync state
     markAsSaved();
+    setSavedContent(contentToSave);
+    setHistoryRefreshKey(key => key + 1);
     
     // Call the callback if provided (useful for refreshing project data)
     if (onDocumentSaved) {
@@ -120,6 +133,15 @@ export function DocumentEditor({
     return response.json();
   }, [projectId, documentType, markAsSaved, documentState.lastSynced, loadDocument, onDocumentSaved]);
 
+  // Restore a version from history; it is saved as a new version so nothing is lost
+  const restoreVersion = useCallback(async (content: string, version: { content_hash: string; created_at: string }) => {
+    await saveDocument(content, {
+      source: 'restore',
+      message: `Restored version ${version.content_hash.substring(0, 8)} from ${new Date(version.created_at).toLocaleString()}`
+    });
+    updateLocalContent(content);
+  }, [saveDocument, updateLocalContent]);
+
   // Handle content changes
   const handleContentChange = useCallback((newContent: string) => {
     updateLocalContent(newContent);
@@ -199,6 +221,15 @@ export function DocumentEditor({
           
           {/* Document Actions */}
           <div className="flex items-center space-x-2">
+            {documentState.hasUnsavedChanges && (
+              <button
+                onClick={() => setShowChanges(!showChanges)}
+                className="text-xs px-2 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                title="Compare unsaved edits with the saved document"
+              >
+                {showChanges ? 'Hide changes' : 'Review changes'}
+              </button>
+            )}
             <button
               onClick={loadDocument}
               className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -211,6 +242,16 @@ export function DocumentEditor({
           </div>
         </div>
 
+        {showChanges && documentState.hasUnsavedChanges && (
+          <DocumentDiffViewer
+            oldContent={savedContent}
+            newContent={documentState.content}
+            oldLabel="Saved"
+            newLabel="Unsaved edits"
+            className="mt-4"
+          />
+        )}
+
         {/* Sync Error Display */}
         {documentState.error && (
           <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -235,8 +276,11 @@ export function DocumentEditor({
       <div className="px-6 py-2 bg-gray-50 border-b border-gray-200 space-y-4">
         <RealtimeSyncStatus projectPath={projectPath} />
         <BackupManager 
-          filePath={`${projectPath}/.ai-project/${documentType}.md`}
-          onRestore={() => loadDocument()}
+          projectId={projectId}
+          document={documentType}
+          currentContent={savedContent}
+          refreshKey={historyRefreshKey}
+          onRestore={isOwned ? restoreVersion : undefined}
         />
       </div>
 
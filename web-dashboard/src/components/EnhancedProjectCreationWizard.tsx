@@ -3,6 +3,7 @@
 
 import { useState } from 'react';
 import { ProjectListItem } from '@/types';
+import { generateEnhancedSpecs } from '@/lib/enhancedSpecsClient';
 
 interface ProjectProfile {
   name: string;
@@ -593,17 +594,15 @@ export function EnhancedProjectCreationWizard({ onClose, onProjectCreated }: Enh
       const newProject = await response.json();
       
       // Generate enhanced specifications
-      const specsResponse = await fetch(`/api/projects/${newProject.id}/generate-enhanced-specs`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      try {
+        await generateEnhancedSpecs(newProject.id, {
           enhancementData: enhancementStage,
           projectProfile
-        })
-      });
-
-      if (specsResponse.ok) {
+        }, section => console.log(`📝 Writing ${section}...`));
         console.log('✅ Enhanced specifications generated successfully');
+      } catch (specsError) {
+        // The project exists either way; specs can be regenerated from the dashboard
+        console.error('Failed to generate enhanced specifications:', specsError);
       }
 
       onProjectCreated(newProject);
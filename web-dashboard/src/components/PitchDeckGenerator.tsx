@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,7 +9,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
-import { AlertCircle, Presentation, Download, Copy, Save, Loader2, Eye, Edit3, Play, FileText } from 'lucide-react';
+import { AlertCircle, Presentation, Download, Copy, Save, Loader2, Eye, Edit3, Play, FileText, Square } from 'lucide-react';
+import { readEventStream } from '@/lib/eventStream';
 
 interface PitchDeckGeneratorProps {
   projectId: string;
@@ -38,6 +39,52 @@ interface PitchDeckResult {
   summary: string;
 }
 
+// Pull every fully-received slide object out of a partially streamed
+// `{ "slides": [ ... ] }` JSON response
+function extractCompletedSlides(partialJson: string): Slide[] {
+  const arrayStart = partialJson.indexOf('[', partialJson.indexOf('"slides"'));
+  if (partialJson.indexOf('"slides"') === -1 || arrayStart === -1) {
+    return [];
+  }
+
+  const slides: Slide[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = arrayStart + 1; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        try {
+          slides.push(JSON.parse(partialJson.slice(objectStart, i + 1)));
+        } catch {
+          // Skip malformed slides; the server-side parse has the final say
+        }
+        objectStart = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return slides;
+}
+
 export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGeneratorProps) {
   const { user } = useUser();
   const [isGenerating, setIsGenerating] = useState(false);
@@ -51,6 +98,8 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isEditing, setIsEditing] = useState(false);
   const [editedSlides, setEditedSlides] = useState<Slide[]>([]);
+  const [streamedSlides, setStreamedSlides] = useState<Slide[]>([]);
+  const generationAbortRef = useRef<{ controller: AbortController; cancelled: boolean } | null>(null);
 
   // Configuration state
   const [audience, setAudience] = useState<'investor' | 'customer' | 'partner' | 'technical'>('investor');
@@ -161,24 +210,30 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
   };
 
   const handleGeneratePitchDeck = async () => {
+    // Abort if the stream goes quiet for 2 minutes
+    const controller = new AbortController();
+    const abortState = { controller, cancelled: false };
+    generationAbortRef.current = abortState;
+    let timeoutId = setTimeout(() => controller.abort(), 120000);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), 120000);
+    };
+
     try {
       setIsGenerating(true);
       setError(null);
       setPitchDeckResult(null);
+      setStreamedSlides([]);
 
       console.log('🎯 Generating pitch deck...');
       console.log(`👥 Audience: ${audience}, 📊 Slides: ${slideCount}, 🎭 Tone: ${tone}`);
 
-      // Create AbortController with timeout for pitch deck generation
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, 120000); // 2 minutes timeout for pitch deck generation
-
       const response = await fetch(`/api/projects/${projectId}/generate-pitch-deck`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           audience,
@@ -190,15 +245,35 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      if (!response.ok) {
+        const errorResult = await response.json().catch(() => ({}));
+        console.error('❌ Pitch deck generation failed:', errorResult.error);
+        setError(errorResult.error || 'Failed to generate pitch deck');
+        return;
+      }
 
-      const result = await response.json();
+      let result: PitchDeckResult | null = null;
+      let streamError: string | null = null;
+      let partialJson = '';
+      await readEventStream<PitchDeckResult>(response, (event, data) => {
+        resetTimeout();
+        if (event === 'delta') {
+          partialJson += data.text;
+          const completed = extractCompletedSlides(partialJson);
+          setStreamedSlides(prev => completed.length !== prev.length ? completed : prev);
+        } else if (event === 'done') {
+          result = data;
+        } else if (event === 'error') {
+          streamError = data.error;
+        }
+      });
 
-      if (response.ok) {
+      if (result) {
+        const finalResult: PitchDeckResult = result;
         console.log('✅ Pitch deck generated successfully');
-        console.log(`📊 Token usage: ${result.metadata.tokenUsage} tokens`);
-        setPitchDeckResult(result);
-        setEditedSlides(result.slides);
+        console.log(`📊 Token usage: ${finalResult.metadata.tokenUsage} tokens`);
+        setPitchDeckResult(finalResult);
+        setEditedSlides(finalResult.slides);
         setPitchTimestamp(new Date().toISOString());
         setCurrentSlide(0);
         
@@ -210,13 +285,16 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
         setSuccessMessage('Pitch deck generated successfully!');
         setTimeout(() => setSuccessMessage(null), 3000);
       } else {
-        console.error('❌ Pitch deck generation failed:', result.error);
-        setError(result.error || 'Failed to generate pitch deck');
+        console.error('❌ Pitch deck generation failed:', streamError);
+        setError(streamError || 'Failed to generate pitch deck');
       }
     } catch (error) {
       console.error('❌ Pitch deck generation error:', error);
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
+        if (error.name === 'AbortError' && abortState.cancelled) {
+          setSuccessMessage('Pitch deck generation cancelled');
+          setTimeout(() => setSuccessMessage(null), 3000);
+        } else if (error.name === 'AbortError') {
           setError('Pitch deck generation timed out. Please try again.');
         } else {
           setError(error.message);
@@ -225,10 +303,23 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
         setError('An unexpected error occurred');
       }
     } finally {
+      clearTimeout(timeoutId);
+      if (generationAbortRef.current === abortState) {
+        generationAbortRef.current = null;
+      }
+      setStreamedSlides([]);
       setIsGenerating(false);
     }
   };
 
+  // Stop the in-flight generation; the server stops generating and bills only what was produced
+  const handleCancelGeneration = () => {
+    if (generationAbortRef.current) {
+      generationAbortRef.current.cancelled = true;
+      generationAbortRef.current.controller.abort();
+    }
+  };
+
   const handleSavePitchDeck = async () => {
     if (!pitchDeckResult) return;
 
@@ -562,6 +653,35 @@ export function PitchDeckGenerator({ projectId, isOwned = true }: PitchDeckGener
                 </>
               )}
             </Button>
+
+            {isGenerating && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    {streamedSlides.length > 0
+                      ? `${streamedSlides.length} slide${streamedSlides.length === 1 ? '' : 's'} drafted so far...`
+                      : 'Waiting for the first slide...'}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={handleCancelGeneration}>
+                    <Square className="w-3 h-3 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+                {streamedSlides.map((slide, index) => (
+                  <div key={index} className="border rounded-lg p-3">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="text-xs text-gray-500">{index + 1}</span>
+                      <span className="font-medium text-sm">{slide.title}</span>
+                    </div>
+                    <ul className="list-disc list-inside text-xs text-gray-600 space-y-0.5">
+                      {(slide.content?.bulletPoints || []).map((point, pointIndex) => (
+                        <li key={pointIndex}>{point}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,6 +16,7 @@ import { FinancialAnalysis } from './FinancialAnalysis';
 import { MarketAnalysis } from './MarketAnalysis';
 import { RoastAnalysis } from './RoastAnalysis';
 import { WorkflowBuilderWrapper } from './WorkflowBuilder';
+import { readEventStream } from '@/lib/eventStream';
 import {
   Dialog,
   DialogContent,
@@ -49,7 +50,8 @@ import {
   ChevronRight,
   ChevronLeft,
   Sparkles,
-  Workflow
+  Workflow,
+  Square
 } from 'lucide-react';
 import { JSX } from 'react/jsx-runtime';
 
@@ -119,6 +121,27 @@ interface AnalysisResult {
   timestamp: string;
 }
 
+// Split streamed analysis markdown on its numbered "**1. Title**" headings so
+// sections can be rendered as soon as they start arriving
+function splitStreamedSections(text: string): Array<{ title: string; content: string }> {
+  const headingPattern = /\*\*\d+\.\s*([^*]+)\*\*:?/g;
+  const sections: Array<{ title: string; content: string }> = [];
+  const matches = [...text.matchAll(headingPattern)];
+
+  const preamble = (matches.length > 0 ? text.slice(0, matches[0].index) : text).trim();
+  if (preamble) {
+    sections.push({ title: 'Overview', content: preamble });
+  }
+
+  matches.forEach((match, index) => {
+    const start = match.index! + match[0].length;
+    const end = index + 1 < matches.length ? matches[index + 1].index : text.length;
+    sections.push({ title: match[1].trim(), content: text.slice(start, end).trim() });
+  });
+
+  return sections;
+}
+
 interface ProjectAnalysisProps {
   projectId: string;
   isOwned?: boolean;
@@ -146,6 +169,8 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
   const [isAnalysisOptionsCollapsed, setIsAnalysisOptionsCollapsed] = useState(false);
   const [isProjectContextCollapsed, setIsProjectContextCollapsed] = useState(false);
   const [isAnalysisTypeSidebarCollapsed, setIsAnalysisTypeSidebarCollapsed] = useState(false);
+  const [streamingAnalysis, setStreamingAnalysis] = useState<{ type: string; content: string } | null>(null);
+  const analysisAbortRef = useRef<{ controller: AbortController; cancelled: boolean } | null>(null);
 
   // Improve analysis state
   const [improvingAnalyses, setImprovingAnalyses] = useState<Record<string, boolean>>({});
@@ -519,24 +544,30 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
   };
 
   const handleAnalyze = async (analysisType: string) => {
+    // Abort if the stream goes quiet for 2 minutes
+    const controller = new AbortController();
+    const abortState = { controller, cancelled: false };
+    analysisAbortRef.current = abortState;
+    let timeoutId = setTimeout(() => controller.abort(), 120000);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), 120000);
+    };
+
     try {
       setIsAnalyzing(true);
       setError(null);
+      setStreamingAnalysis({ type: analysisType, content: '' });
 
       console.log(`🔍 Starting ${analysisType.charAt(0).toUpperCase() + analysisType.slice(1)} Analysis`);
       console.log('📚 Analysis will fetch documents from Pinecone cloud storage');
-      console.log('🚀 Sending analysis request...');
-
-      // Create AbortController with longer timeout for analysis operations
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, 120000); // 2 minutes timeout for analysis
+      console.log('🚀 Sending streaming analysis request...');
 
       const response = await fetch(`/api/projects/${projectId}/analyze`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           analysisType
@@ -544,37 +575,57 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      if (!response.ok) {
+        const errorResult = await response.json().catch(() => ({}));
+        console.error(`❌ ${analysisType} analysis failed:`, errorResult.error);
+        setError(errorResult.error || 'Analysis failed');
+        return;
+      }
 
-      const result = await response.json();
+      let result: AnalysisResult | null = null;
+      let streamError: string | null = null;
+      await readEventStream<AnalysisResult>(response, (event, data) => {
+        resetTimeout();
+        if (event === 'delta') {
+          setStreamingAnalysis(prev => prev ? { ...prev, content: prev.content + data.text } : prev);
+        } else if (event === 'done') {
+          result = data;
+        } else if (event === 'error') {
+          streamError = data.error;
+        }
+      });
 
-      if (response.ok) {
+      if (result) {
+        const analysis: AnalysisResult = result;
         console.log(`✅ ${analysisType.charAt(0).toUpperCase() + analysisType.slice(1)} analysis completed successfully`);
-        console.log(`📈 Analysis summary: ${result.summary?.substring(0, 100)}...`);
-        console.log(`💡 Insights generated: ${result.insights?.length || 0}`);
-        console.log(`🎯 Recommendations: ${result.recommendations?.length || 0}`);
+        console.log(`📈 Analysis summary: ${analysis.summary?.substring(0, 100)}...`);
+        console.log(`💡 Insights generated: ${analysis.insights?.length || 0}`);
+        console.log(`🎯 Recommendations: ${analysis.recommendations?.length || 0}`);
 
         // Store the result for this specific analysis type
         setAnalysisResults(prev => ({
           ...prev,
-          [analysisType]: result
+          [analysisType]: analysis
         }));
 
         // Auto-save the analysis immediately
-        await autoSaveAnalysis(analysisType, result);
+        await autoSaveAnalysis(analysisType, analysis);
 
         // Switch to the appropriate tab
         setActiveAnalysisTab(analysisType);
       } else {
-        console.error(`❌ ${analysisType} analysis failed:`, result.error);
-        setError(result.error || 'Analysis failed');
+        console.error(`❌ ${analysisType} analysis failed:`, streamError);
+        setError(streamError || 'Analysis failed');
       }
     } catch (error) {
       console.error(`❌ ${analysisType} analysis error:`, error);
       
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          setError(`${analysisType.charAt(0).toUpperCase() + analysisType.slice(1)} analysis timed out after 2 minutes. Please try again or check your internet connection.`);
+        if (error.name === 'AbortError' && abortState.cancelled) {
+          setSuccessMessage(`${getAnalysisTypeLabel(analysisType)} cancelled`);
+          setTimeout(() => setSuccessMessage(null), 3000);
+        } else if (error.name === 'AbortError') {
+          setError(`${analysisType.charAt(0).toUpperCase() + analysisType.slice(1)} analysis timed out after 2 minutes without progress. Please try again or check your internet connection.`);
         } else {
           setError(`Error performing ${analysisType} analysis: ${error.message}`);
         }
@@ -582,10 +633,23 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
         setError(`Error performing ${analysisType} analysis`);
       }
     } finally {
+      clearTimeout(timeoutId);
+      if (analysisAbortRef.current === abortState) {
+        analysisAbortRef.current = null;
+      }
+      setStreamingAnalysis(null);
       setIsAnalyzing(false);
     }
   };
 
+  // Stop the in-flight analysis; the server stops generating and bills only what was produced
+  const handleCancelAnalysis = () => {
+    if (analysisAbortRef.current) {
+      analysisAbortRef.current.cancelled = true;
+      analysisAbortRef.current.controller.abort();
+    }
+  };
+
   // Remove handleQuickAnalysis as it's now handled by handleAnalyze
 
   const handleGenerateMitigation = async (criticism: string, criticismType: string) => {
@@ -1116,13 +1180,13 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
               </Alert>
             )}
 
-            {isAnalyzing && (
+            {isAnalyzing && !streamingAnalysis?.content && (
               <div className="flex items-center justify-center py-12">
                 <div className="text-center">
                   <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4" />
                   <p className="text-muted-foreground">Analyzing your project with AI...</p>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Processing project data and generating insights. This may take 30 seconds to 2 minutes.
+                    Processing project data. Sections will appear here as soon as the AI starts writing.
                   </p>
                   <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg max-w-md mx-auto">
                     <p className="text-xs text-gray-600">
@@ -1131,10 +1195,39 @@ export function ProjectAnalysis({ projectId, isOwned = true }: ProjectAnalysisPr
                       💡 <strong>Tip:</strong> Larger projects may take longer
                     </p>
                   </div>
+                  <Button variant="outline" size="sm" className="mt-4" onClick={handleCancelAnalysis}>
+                    <Square className="w-3 h-3 mr-2" />
+                    Cancel
+                  </Button>
                 </div>
               </div>
             )}
 
+            {isAnalyzing && streamingAnalysis?.content && (
+              <Card className="mb-4">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base flex items-center">
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {getAnalysisTypeLabel(streamingAnalysis.type)} in progress
+                    </CardTitle>
+                    <Button variant="outline" size="sm" onClick={handleCancelAnalysis}>
+                      <Square className="w-3 h-3 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {splitStreamedSections(streamingAnalysis.content).map((section, index) => (
+                    <div key={index} className="border-l-2 border-primary/20 pl-3">
+                      <h4 className="text-sm font-semibold mb-1">{section.title}</h4>
+                      {renderMarkdown(section.content)}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {(Object.keys(analysisResults).length > 0 || true) && (
               <Tabs value={activeAnalysisTab} onValueChange={setActiveAnalysisTab} className="w-full h-full">
                 <div className="overflow-x-auto">
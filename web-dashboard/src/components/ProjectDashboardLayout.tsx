@@ -22,12 +22,15 @@ import ProjectTeamTab from './ProjectTeamTab';
 
 import SyncStatus from './SyncStatus';
 import { EmbeddingsVisualization } from './EmbeddingsVisualization';
+import { TaskDependencyGraph } from './TaskDependencyGraph';
+import { TraceabilityMatrix } from './TraceabilityMatrix';
+import { ProjectSearch } from './ProjectSearch';
 import { Card, CardContent } from '@/components/ui/card';
 
 
 interface ProjectDashboardLayoutProps {
   projectId: string;
-  activeTab?: 'overview' | 'requirements' | 'design' | 'tasks' | 'context' | 'api' | 'analysis' | 'enhanced-analysis' | 'progress' | 'visualization' | 'social' | 'prompts' | 'applications' | 'team';
+  activeTab?: 'overview' | 'requirements' | 'design' | 'tasks' | 'context' | 'api' | 'analysis' | 'enhanced-analysis' | 'progress' | 'visualization' | 'dependencies' | 'social' | 'prompts' | 'applications' | 'team';
 }
 
 export function ProjectDashboardLayout({ 
@@ -39,6 +42,7 @@ export function ProjectDashboardLayout({
   const [error, setError] = useState<string | null>(null);
   const [currentTab, setCurrentTab] = useState(activeTab);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  const [traceabilityKey, setTraceabilityKey] = useState(0);
 
   useEffect(() => {
     loadProject();
@@ -197,6 +201,12 @@ export function ProjectDashboardLayout({
 
             {/* Main Content */}
             <div className="flex-1 w-full">
+              <ProjectSearch
+                projectId={projectId}
+                onNavigate={handleTabChange}
+                className="mb-2 sm:mb-4"
+              />
+
               <Card className="min-h-[400px] sm:min-h-[600px] rounded-none w-full">
                 <CardContent className="p-0 w-full">
                   {currentTab === 'overview' && (
@@ -207,14 +217,20 @@ export function ProjectDashboardLayout({
                   )}
                   
                   {currentTab === 'requirements' && (
-                    <DocumentEditor 
-                      projectId={projectId}
-                      projectPath={project.projectPath}
-                      documentType="requirements"
-                      title="Requirements"
-                      description="Define project requirements and user stories"
-                      isOwned={project.isOwned}
-                    />
+                    <>
+                      <DocumentEditor 
+                        projectId={projectId}
+                        projectPath={project.projectPath}
+                        documentType="requirements"
+                        title="Requirements"
+                        description="Define project requirements and user stories"
+                        isOwned={project.isOwned}
+                        onDocumentSaved={() => setTraceabilityKey(key => key + 1)}
+                      />
+                      <div className="px-6 pb-6">
+                        <TraceabilityMatrix projectId={projectId} refreshKey={traceabilityKey} />
+                      </div>
+                    </>
                   )}
                   
                   {currentTab === 'design' && (
@@ -275,6 +291,21 @@ export function ProjectDashboardLayout({
                     </div>
                   )}
                 
+                  {currentTab === 'dependencies' && (
+                    <div className="p-6">
+                      <div className="space-y-6">
+                        <div>
+                          <h1 className="text-2xl font-bold">Task Dependencies</h1>
+                          <p className="text-gray-600">
+                            See which tasks block each other, the longest chain of remaining work, and what can be started now.
+                          </p>
+                        </div>
+                        
+                        <TaskDependencyGraph projectId={projectId} />
+                      </div>
+                    </div>
+                  )}
+                
                   {currentTab === 'social' && (
                     <div className="p-6">
                       <div className="space-y-6">
@@ -18,7 +18,8 @@ import {
   Share2,
   Code2,
   Users,
-  Target
+  Target,
+  GitBranch
 } from 'lucide-react';
 
 interface ProjectNavigationProps {
@@ -86,6 +87,12 @@ export function ProjectNavigation({ projectId, activeTab, progress, onNavigate,
       description: '3D document visualization and insights',
       icon: <Network className="w-5 h-4" />
     },
+    {
+      id: 'dependencies',
+      name: 'Dependencies',
+      description: 'Task dependency graph and critical path',
+      icon: <GitBranch className="w-5 h-4" />
+    },
     {
       id: 'social',
       name: 'Social Posts',
@@ -119,7 +126,7 @@ export function ProjectNavigation({ projectId, activeTab, progress, onNavigate,
     
     // For non-owners, show read-only tabs plus analysis, social, and team
     if (!isOwned) {
-      return ['requirements', 'design', 'tasks', 'context', 'visualization', 'analysis', 'social', 'team'].includes(item.id);
+      return ['requirements', 'design', 'tasks', 'context', 'visualization', 'dependencies', 'analysis', 'social', 'team'].includes(item.id);
     }
     
     // For owners, show all tabs except applications if they don't own the project
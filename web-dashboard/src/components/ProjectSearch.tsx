@@ -0,0 +1,182 @@
+// Search box over the project's requirements, design, tasks and context documents
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, Loader2, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { pineconeClient, SearchResult } from '@/lib/pineconeClient';
+
+interface ProjectSearchProps {
+  projectId: string;
+  onNavigate: (tab: string) => void;
+  className?: string;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Context documents are all edited on the one Context tab
+function tabForDocument(document: string): string {
+  return document.startsWith('context/') ? 'context' : document;
+}
+
+function HighlightedSnippet({ text, highlights }: { text: string; highlights: Array<[number, number]> }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(([start, end], i) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(<mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export function ProjectSearch({ projectId, onNavigate, className = '' }: ProjectSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      // Responses can arrive out of order; only the newest query's results are shown
+      const request = ++latestRequest.current;
+      const found = await pineconeClient.searchContextDocuments(projectId, text, 10);
+      if (request === latestRequest.current) {
+        setResults(found);
+        setActiveIndex(0);
+        setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, projectId]);
+
+  // Ctrl+K / Cmd+K focuses the search box from anywhere on the dashboard
+  useEffect(() => {
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        inputRef.current?.focus();
+        setIsOpen(true);
+      }
+    };
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('keydown', handleShortcut);
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('keydown', handleShortcut);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const openResult = (result: SearchResult) => {
+    onNavigate(tabForDocument(result.document));
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const showDropdown = isOpen && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={event => {
+            setQuery(event.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search requirements, design, tasks and context (Ctrl+K)"
+          className="pl-9 pr-9 rounded-none"
+          aria-label="Search project documents"
+        />
+        {isSearching ? (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 animate-spin" />
+        ) : query && (
+          <button
+            onClick={() => {
+              setQuery('');
+              inputRef.current?.focus();
+            }}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+            title="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {showDropdown && (
+        <div className="absolute z-50 mt-1 w-full max-h-[28rem] overflow-y-auto bg-white border border-gray-200 shadow-lg">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              {isSearching ? 'Searching...' : 'No matches in this project\'s documents'}
+            </p>
+          ) : (
+            <ul>
+              {results.map((result, i) => (
+                <li key={result.id}>
+                  <button
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setActiveIndex(i)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 last:border-b-0 ${i === activeIndex ? 'bg-gray-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-1 text-xs text-gray-500 mb-1 truncate">
+                      <span className="font-medium text-gray-700">{result.documentTitle}</span>
+                      {result.headings.length > 0 && (
+                        <span className="truncate">› {result.headings.join(' › ')}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-800 leading-snug">
+                      <HighlightedSnippet text={result.snippet} highlights={result.highlights} />
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+// Dependency DAG for tasks.md with the critical path and unblocked tasks
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { ReactFlow, Node, Edge, Controls, Background, BackgroundVariant, MarkerType } from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { analyzeTaskDependencies, TaskGraphNode } from '@/lib/taskDependencies';
+
+interface TaskDependencyGraphProps {
+  projectId: string;
+  className?: string;
+}
+
+const COLUMN_WIDTH = 260;
+const ROW_HEIGHT = 90;
+
+const STATUS_STYLES: Record<TaskGraphNode['status'], { label: string; background: string; border: string; badge: string }> = {
+  completed: { label: 'Done', background: '#f0fdf4', border: '#86efac', badge: 'bg-green-100 text-green-800' },
+  unblocked: { label: 'Ready', background: '#eff6ff', border: '#60a5fa', badge: 'bg-blue-100 text-blue-800' },
+  blocked: { label: 'Blocked', background: '#f9fafb', border: '#d1d5db', badge: 'bg-gray-100 text-gray-700' }
+};
+
+export function TaskDependencyGraph({ projectId, className = '' }: TaskDependencyGraphProps) {
+  const [content, setContent] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showIndependent, setShowIndependent] = useState(false);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/documents/tasks`);
+      if (!response.ok) {
+        throw new Error('Failed to load tasks');
+      }
+
+      const data = await response.json();
+      setContent(data.content || '');
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load tasks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  const graph = useMemo(() => (content !== null ? analyzeTaskDependencies(content) : null), [content]);
+
+  const { nodes, edges } = useMemo(() => {
+    if (!graph) return { nodes: [] as Node[], edges: [] as Edge[] };
+
+    // Tasks outside any dependency only add noise to the graph unless asked for
+    const visible = graph.nodes.filter(node =>
+      showIndependent || node.dependencies.length > 0 || node.dependents.length > 0
+    );
+
+    // Layered layout: one column per dependency depth, rows in document order
+    const rowsPerColumn = new Map<number, number>();
+    const flowNodes: Node[] = visible.map(node => {
+      const row = rowsPerColumn.get(node.depth) ?? 0;
+      rowsPerColumn.set(node.depth, row + 1);
+      const style = STATUS_STYLES[node.status];
+
+      return {
+        id: node.id,
+        position: { x: node.depth * COLUMN_WIDTH, y: row * ROW_HEIGHT },
+        data: {
+          label: (
+            <div className="text-left">
+              <div className="text-xs font-semibold text-gray-900">{node.id}</div>
+              <div className="text-xs text-gray-700 line-clamp-2">{node.title}</div>
+            </div>
+          )
+        },
+        style: {
+          width: COLUMN_WIDTH - 60,
+          background: style.background,
+          border: `${node.onCriticalPath ? 2 : 1}px solid ${node.inCycle ? '#f87171' : node.onCriticalPath ? '#ef4444' : style.border}`,
+          borderRadius: 4
+        },
+        draggable: true,
+        connectable: false
+      };
+    });
+
+    const visibleIds = new Set(visible.map(node => node.id));
+    const flowEdges: Edge[] = graph.edges
+      .filter(edge => visibleIds.has(edge.from) && visibleIds.has(edge.to))
+      .map(edge => ({
+        id: `${edge.from}->${edge.to}`,
+        source: edge.from,
+        target: edge.to,
+        animated: edge.critical,
+        markerEnd: { type: MarkerType.ArrowClosed },
+        style: edge.critical ? { stroke: '#ef4444', strokeWidth: 2 } : { stroke: '#9ca3af' }
+      }));
+
+    return { nodes: flowNodes, edges: flowEdges };
+  }, [graph, showIndependent]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-none h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Loading tasks...</span>
+      </div>
+    );
+  }
+
+  if (error || !graph) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded p-4">
+        <span className="text-sm text-red-800">{error || 'Failed to load tasks'}</span>
+        <button
+          onClick={loadTasks}
+          className="ml-2 text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const titleOf = (id: string) => graph.nodes.find(node => node.id === id)?.title || '';
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="border border-gray-200 rounded p-3">
+          <div className="text-2xl font-bold text-gray-900">{graph.nodes.length}</div>
+          <div className="text-xs text-gray-500">Tasks</div>
+        </div>
+        <div className="border border-gray-200 rounded p-3">
+          <div className="text-2xl font-bold text-gray-900">{graph.edges.length}</div>
+          <div className="text-xs text-gray-500">Dependencies</div>
+        </div>
+        <div className="border border-gray-200 rounded p-3">
+          <div className="text-2xl font-bold text-blue-700">{graph.unblocked.length}</div>
+          <div className="text-xs text-gray-500">Ready to start</div>
+        </div>
+        <div className="border border-gray-200 rounded p-3">
+          <div className="text-2xl font-bold text-red-600">{graph.criticalPath.length}</div>
+          <div className="text-xs text-gray-500">Tasks on the critical path</div>
+        </div>
+      </div>
+
+      {graph.issues.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded p-4">
+          <h3 className="text-sm font-medium text-red-900 mb-2">
+            {graph.issues.length} dependency problem{graph.issues.length > 1 ? 's' : ''} in tasks.md
+          </h3>
+          <ul className="space-y-1">
+            {graph.issues.map((issue, index) => (
+              <li key={`${issue.type}-${issue.taskId}-${index}`} className="text-sm text-red-800">
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {graph.edges.length === 0 ? (
+        <div className="border border-dashed border-gray-300 rounded p-8 text-center">
+          <p className="text-sm text-gray-700">No task dependencies declared yet</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Add a line such as <code className="bg-gray-100 px-1">_Depends: 2.1, 3_</code> under a task in tasks.md
+          </p>
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-3 text-xs">
+              {(Object.keys(STATUS_STYLES) as TaskGraphNode['status'][]).map(status => (
+                <span key={status} className={`px-2 py-0.5 rounded ${STATUS_STYLES[status].badge}`}>
+                  {STATUS_STYLES[status].label}
+                </span>
+              ))}
+              <span className="px-2 py-0.5 rounded border-2 border-red-500 text-red-700">Critical path</span>
+            </div>
+            <label className="flex items-center space-x-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={showIndependent}
+                onChange={(e) => setShowIndependent(e.target.checked)}
+              />
+              <span>Show tasks without dependencies</span>
+            </label>
+          </div>
+          <div className="h-[500px] border border-gray-200 rounded">
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              fitView
+              nodesConnectable={false}
+              proOptions={{ hideAttribution: true }}
+            >
+              <Controls showInteractive={false} />
+              <Background variant={BackgroundVariant.Dots} gap={16} size={1} />
+            </ReactFlow>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Critical path</h3>
+          {graph.criticalPath.length === 0 ? (
+            <p className="text-sm text-gray-500">No remaining work</p>
+          ) : (
+            <ol className="space-y-1">
+              {graph.criticalPath.map((id, index) => (
+                <li key={id} className="flex items-start text-sm">
+                  <span className="w-6 shrink-0 text-gray-400">{index + 1}.</span>
+                  <span className="font-mono text-gray-900 mr-2">{id}</span>
+                  <span className="text-gray-700">{titleOf(id)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Ready to start</h3>
+          {graph.unblocked.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing can be started until blocking tasks are done</p>
+          ) : (
+            <ul className="space-y-1">
+              {graph.unblocked.map(id => (
+                <li key={id} className="flex items-start text-sm">
+                  <span className="font-mono text-blue-700 mr-2">{id}</span>
+                  <span className="text-gray-700">{titleOf(id)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
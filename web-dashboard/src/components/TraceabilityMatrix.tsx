@@ -0,0 +1,328 @@
+// Requirements-to-tasks traceability matrix
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+
+interface AcceptanceCriterion {
+  id: string;
+  text: string;
+  line: number;
+}
+
+interface RequirementTrace {
+  requirement: {
+    id: string;
+    title?: string;
+    userStory?: string;
+    criteria: AcceptanceCriterion[];
+    line: number;
+  };
+  taskIds: string[];
+  criteria: { criterion: AcceptanceCriterion; taskIds: string[] }[];
+  status: 'untraced' | 'not-started' | 'in-progress' | 'complete';
+}
+
+interface TraceabilityData {
+  requirements: RequirementTrace[];
+  tasks: { id: string; title: string; isCompleted: boolean }[];
+  untraced: string[];
+  complete: string[];
+  unknownReferences: { taskId: string; taskTitle: string; reference: string }[];
+  coverage: number;
+}
+
+interface TraceabilityMatrixProps {
+  projectId: string;
+  refreshKey?: number | string; // Change to reload, e.g. after requirements are saved
+  className?: string;
+}
+
+type StatusFilter = 'all' | RequirementTrace['status'];
+type ViewMode = 'list' | 'grid';
+
+const STATUS_LABELS: Record<RequirementTrace['status'], { label: string; className: string }> = {
+  untraced: { label: 'No tasks', className: 'bg-red-100 text-red-800' },
+  'not-started': { label: 'Not started', className: 'bg-gray-100 text-gray-700' },
+  'in-progress': { label: 'In progress', className: 'bg-blue-100 text-blue-800' },
+  complete: { label: 'Complete', className: 'bg-green-100 text-green-800' }
+};
+
+export function TraceabilityMatrix({ projectId, refreshKey, className = '' }: TraceabilityMatrixProps) {
+  const [data, setData] = useState<TraceabilityData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [openRequirement, setOpenRequirement] = useState<string | null>(null);
+
+  const loadMatrix = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/traceability`);
+      if (!response.ok) {
+        throw new Error('Failed to load traceability');
+      }
+
+      setData(await response.json());
+    } catch (error) {
+      console.error('Failed to load traceability:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load traceability');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isExpanded) {
+      loadMatrix();
+    }
+  }, [isExpanded, loadMatrix, refreshKey]);
+
+  const tasksById = new Map((data?.tasks || []).map(task => [task.id, task]));
+  const rows = (data?.requirements || []).filter(trace => filter === 'all' || trace.status === filter);
+
+  // Grid columns: only tasks that trace to at least one requirement
+  const tracedTaskIds = Array.from(new Set((data?.requirements || []).flatMap(trace => trace.taskIds)))
+    .filter(id => tasksById.has(id));
+
+  const renderTaskChip = (taskId: string) => {
+    const task = tasksById.get(taskId);
+    return (
+      <span
+        key={taskId}
+        title={task?.title}
+        className={`inline-block px-1.5 py-0.5 mr-1 mb-1 text-xs font-mono rounded ${
+          task?.isCompleted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+        }`}
+      >
+        {task?.isCompleted ? '✓ ' : ''}{taskId}
+      </span>
+    );
+  };
+
+  const renderList = () => (
+    <div className="divide-y divide-gray-100 border border-gray-200 rounded">
+      {rows.map(trace => {
+        const { requirement } = trace;
+        const status = STATUS_LABELS[trace.status];
+        const coveredCriteria = trace.criteria.filter(criterion => criterion.taskIds.length > 0).length;
+        const isOpen = openRequirement === requirement.id;
+
+        return (
+          <div key={requirement.id} className="p-3">
+            <button
+              onClick={() => setOpenRequirement(isOpen ? null : requirement.id)}
+              className="w-full text-left"
+            >
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <span className="font-medium text-gray-900">Requirement {requirement.id}</span>
+                  {requirement.title && <span className="text-gray-700">: {requirement.title}</span>}
+                  {requirement.userStory && (
+                    <p className="text-xs text-gray-500 truncate">{requirement.userStory}</p>
+                  )}
+                </div>
+                <span className={`ml-2 shrink-0 px-2 py-0.5 text-xs rounded ${status.className}`}>{status.label}</span>
+              </div>
+              <div className="mt-1 flex items-center justify-between">
+                <div>{trace.taskIds.map(renderTaskChip)}</div>
+                {trace.criteria.length > 0 && (
+                  <span className="text-xs text-gray-500 shrink-0">
+                    {coveredCriteria}/{trace.criteria.length} criteria referenced
+                  </span>
+                )}
+              </div>
+            </button>
+
+            {isOpen && trace.criteria.length > 0 && (
+              <ul className="mt-2 space-y-1 pl-3 border-l-2 border-gray-200">
+                {trace.criteria.map(({ criterion, taskIds }) => (
+                  <li key={criterion.id} className="text-xs">
+                    <div className="flex items-start justify-between">
+                      <span className="text-gray-700">
+                        <span className="font-mono text-gray-500 mr-1">{criterion.id}</span>
+                        {criterion.text}
+                      </span>
+                      <span className="ml-2 shrink-0">
+                        {taskIds.length > 0 ? taskIds.map(renderTaskChip) : <span className="text-gray-400">No tasks</span>}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderGrid = () => (
+    <div className="overflow-auto border border-gray-200 rounded max-h-96">
+      <table className="text-xs">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            <th className="px-2 py-1 text-left font-medium text-gray-700">Requirement</th>
+            {tracedTaskIds.map(taskId => (
+              <th
+                key={taskId}
+                title={tasksById.get(taskId)?.title}
+                className="px-2 py-1 font-mono font-medium text-gray-700"
+              >
+                {taskId}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(trace => (
+            <tr key={trace.requirement.id} className="border-t border-gray-100">
+              <td className="px-2 py-1 whitespace-nowrap">
+                <span className={`inline-block w-2 h-2 mr-1 rounded-full ${STATUS_LABELS[trace.status].className}`} />
+                {trace.requirement.id}
+                {trace.requirement.title && <span className="text-gray-500"> {trace.requirement.title}</span>}
+              </td>
+              {tracedTaskIds.map(taskId => {
+                const linked = trace.taskIds.includes(taskId);
+                return (
+                  <td key={taskId} className="px-2 py-1 text-center">
+                    {linked ? (tasksById.get(taskId)?.isCompleted ? '✅' : '●') : ''}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-lg ${className}`}>
+      <div className="p-4">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <div className="flex items-center space-x-2">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M14 3v18" />
+            </svg>
+            <span className="font-medium text-gray-900">Traceability</span>
+            {data && (
+              <span className="text-sm text-gray-500">({data.coverage}% of requirements have tasks)</span>
+            )}
+          </div>
+          <svg
+            className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+
+        {isExpanded && (
+          <div className="mt-4 space-y-4">
+            {isLoading && !data && (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-none h-6 w-6 border-b-2 border-blue-600"></div>
+                <span className="ml-2 text-sm text-gray-600">Tracing requirements...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded p-3">
+                <span className="text-sm text-red-800">{error}</span>
+                <button
+                  onClick={loadMatrix}
+                  className="ml-2 text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+
+            {data && data.requirements.length === 0 && (
+              <div className="text-center py-4">
+                <p className="text-sm text-gray-500">No requirements found</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Requirements are read from &quot;### Requirement N&quot; headings with numbered acceptance criteria
+                </p>
+              </div>
+            )}
+
+            {data && data.requirements.length > 0 && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-xl font-bold text-gray-900">{data.coverage}%</div>
+                    <div className="text-xs text-gray-500">Requirements with tasks</div>
+                  </div>
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-xl font-bold text-red-600">{data.untraced.length}</div>
+                    <div className="text-xs text-gray-500">Without tasks</div>
+                  </div>
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-xl font-bold text-green-700">{data.complete.length}</div>
+                    <div className="text-xs text-gray-500">Fully implemented</div>
+                  </div>
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-xl font-bold text-amber-600">{data.unknownReferences.length}</div>
+                    <div className="text-xs text-gray-500">Broken task references</div>
+                  </div>
+                </div>
+
+                {data.unknownReferences.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded p-3">
+                    <h4 className="text-sm font-medium text-amber-900 mb-1">Tasks referencing requirements that don&apos;t exist</h4>
+                    <ul className="space-y-0.5">
+                      {data.unknownReferences.map(({ taskId, taskTitle, reference }) => (
+                        <li key={`${taskId}-${reference}`} className="text-xs text-amber-800">
+                          Task <span className="font-mono">{taskId}</span> {taskTitle} → <span className="font-mono">{reference}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div className="flex text-xs border border-gray-200 rounded overflow-hidden">
+                    {(['all', 'untraced', 'not-started', 'in-progress', 'complete'] as StatusFilter[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setFilter(option)}
+                        className={`px-2 py-1 ${filter === option ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {option === 'all' ? 'All' : STATUS_LABELS[option].label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex text-xs border border-gray-200 rounded overflow-hidden">
+                    {(['list', 'grid'] as ViewMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-2 py-1 ${viewMode === mode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {mode === 'list' ? 'List' : 'Matrix'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {rows.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">No requirements match this filter</p>
+                ) : viewMode === 'list' ? renderList() : renderGrid()}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -49,9 +49,20 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Save, Play, Trash2, Download, Upload, Workflow, Sparkles, RefreshCw, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Save, Play, Trash2, Download, Upload, Workflow, Sparkles, RefreshCw, CheckCircle, AlertCircle, RotateCcw, History, FileJson, FileCode, FileText, FileUp, Copy } from 'lucide-react';
 import { WorkflowAnalysisService, BusinessAnalysisResult } from '@/lib/workflowAnalysisService';
 import { BusinessAnalysis } from './BusinessAnalysis';
+import { readEventStream } from '@/lib/eventStream';
+import type { WorkflowNodeEvent, WorkflowRunResult, WorkflowValidationIssue } from '@/lib/workflowEngine';
+import type { NodeExecutionState } from './workflow/NodeExecutionStatus';
+import { exportToBpmn, exportToMermaid, importFromBpmn } from '@/lib/workflowInterchange';
 
 // Define node types
 const nodeTypes: NodeTypes = {
@@ -76,6 +87,30 @@ const edgeTypes: EdgeTypes = {
 const initialNodes: Node[] = [];
 const initialEdges: Edge[] = [];
 
+interface SavedWorkflow {
+  nodes: Node[];
+  edges: Edge[];
+  version: number | null;
+}
+
+// Strip per-run status from node data so it is not persisted with the diagram
+function withoutExecutionState(nodes: Node[]): Node[] {
+  return nodes.map(node => {
+    if (!('executionStatus' in node.data)) return node;
+    const data = { ...node.data };
+    delete data.executionStatus;
+    delete data.executionMessage;
+    return { ...node, data };
+  });
+}
+
+interface WorkflowVersionSummary {
+  version: number;
+  message?: string | null;
+  created_by: string;
+  created_at: string;
+}
+
 interface WorkflowBuilderProps {
   projectId: string;
   analysisData?: any;
@@ -87,11 +122,19 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [workflowResults, setWorkflowResults] = useState<any>(null);
   const [showResultsModal, setShowResultsModal] = useState(false);
   const [isSavingResults, setIsSavingResults] = useState(false);
   const [businessAnalysis, setBusinessAnalysis] = useState<BusinessAnalysisResult | null>(null);
+  const [workflowVersion, setWorkflowVersion] = useState<number | null>(null);
+  const [canEdit, setCanEdit] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [initialLoad, setInitialLoad] = useState<'pending' | 'loaded' | 'empty'>('pending');
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [workflowVersions, setWorkflowVersions] = useState<WorkflowVersionSummary[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   // Handle node selection
@@ -161,9 +204,120 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     [reactFlowInstance, setNodes]
   );
 
-  // Execute workflow
+  // Mark nodes with their latest run or validation state
+  const setNodeExecutionState = useCallback((updates: Record<string, { status: NodeExecutionState; message?: string }>) => {
+    setNodes((nds) => nds.map((node) => {
+      const update = updates[node.id];
+      if (!update) return node;
+      return { ...node, data: { ...node.data, executionStatus: update.status, executionMessage: update.message } };
+    }));
+  }, [setNodes]);
+
+  // Execute workflow on the server, streaming per-node status onto the canvas
   const executeWorkflow = useCallback(async () => {
-    console.log('Starting fresh workflow execution...', { 
+    if (nodes.length === 0) {
+      toast({
+        title: "No Workflow",
+        description: "Please create a workflow before executing",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const graphNodes = withoutExecutionState(nodes);
+    setNodes(graphNodes);
+    setWorkflowResults(null);
+    setIsExecuting(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow/run`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({
+          nodes: graphNodes.map(({ id, type, data }) => ({ id, type, data })),
+          edges: edges.map(({ id, source, target, sourceHandle }) => ({ id, source, target, sourceHandle })),
+        }),
+      });
+
+      if (response.status === 422) {
+        const { issues } = await response.json() as { issues: WorkflowValidationIssue[] };
+        const updates: Record<string, { status: NodeExecutionState; message?: string }> = {};
+        for (const issue of issues) {
+          for (const nodeId of issue.nodeIds) {
+            updates[nodeId] = { status: 'invalid', message: issue.message };
+          }
+        }
+        setNodeExecutionState(updates);
+        toast({
+          title: "Workflow Not Valid",
+          description: issues.map(issue => issue.message).join('\n'),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to run workflow');
+      }
+
+      let runResult: WorkflowRunResult | null = null;
+      await readEventStream<WorkflowRunResult, ['node', WorkflowNodeEvent]>(response, (event, data) => {
+        if (event === 'node') {
+          if (data.status === 'pending') return;
+          setNodeExecutionState({
+            [data.nodeId]: {
+              status: data.status,
+              message: data.error || (data.branch ? `Took ${data.branch} branch` : undefined),
+            },
+          });
+        } else if (event === 'done') {
+          runResult = data;
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Workflow run failed');
+        }
+      });
+
+      if (!runResult) {
+        throw new Error('Workflow run ended without a result');
+      }
+
+      const result: WorkflowRunResult = runResult;
+      setWorkflowResults({
+        executionId: result.executionId,
+        timestamp: result.finishedAt,
+        status: result.status,
+        duration: `${(result.durationMs / 1000).toFixed(1)}s`,
+        nodesAnalyzed: Object.values(result.nodeResults).filter(nodeResult => nodeResult.status === 'completed').length,
+        execution: result,
+      });
+      setShowResultsModal(true);
+
+      toast({
+        title: result.status === 'completed' ? "Workflow Completed" : "Workflow Failed",
+        description: result.status === 'completed'
+          ? `Ran ${nodes.length} nodes in ${(result.durationMs / 1000).toFixed(1)}s`
+          : Object.values(result.nodeResults).find(nodeResult => nodeResult.error)?.error || 'A node failed during execution',
+        variant: result.status === 'completed' ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error('Workflow execution failed:', error);
+      toast({
+        title: "Execution Failed",
+        description: error instanceof Error ? error.message : 'Unable to run the workflow',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExecuting(false);
+    }
+  }, [nodes, edges, projectId, setNodes, setNodeExecutionState, toast]);
+
+  // Run an AI business analysis of the workflow
+  const analyzeWorkflow = useCallback(async () => {
+    console.log('Starting fresh workflow analysis...', { 
       nodes: nodes.length, 
       edges: edges.length,
       timestamp: new Date().toISOString()
@@ -172,7 +326,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     if (nodes.length === 0) {
       toast({
         title: "No Workflow",
-        description: "Please create a workflow before executing",
+        description: "Please create a workflow before analyzing",
         variant: "destructive",
       });
       return;
@@ -181,7 +335,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     // Clear any previous results to ensure fresh analysis
     setWorkflowResults(null);
     setBusinessAnalysis(null);
-    setIsExecuting(true);
+    setIsAnalyzing(true);
     
     // Show that fresh analysis is starting
     toast({
@@ -240,7 +394,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
         variant: "destructive",
       });
     } finally {
-      setIsExecuting(false);
+      setIsAnalyzing(false);
     }
   }, [toast, nodes, edges, setWorkflowResults, setBusinessAnalysis]);
 
@@ -351,23 +505,106 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     });
   }, [setNodes, setEdges, reactFlowInstance, toast]);
 
-  // Save workflow
-  const saveWorkflow = useCallback(() => {
+  // Save workflow as a new server-side version, keeping a local copy as an offline fallback
+  const saveWorkflow = useCallback(async () => {
+    const savedNodes = withoutExecutionState(nodes);
     const workflowData = {
-      nodes,
+      nodes: savedNodes,
       edges,
       projectId,
       timestamp: new Date().toISOString(),
     };
-    
+
     localStorage.setItem(`workflow-${projectId}`, JSON.stringify(workflowData));
-    
-    toast({
-      title: "Workflow Saved",
-      description: "Your workflow has been saved successfully!",
-    });
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ nodes: savedNodes, edges }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save workflow');
+      }
+
+      setWorkflowVersion(data.workflow.version);
+      toast({
+        title: "Workflow Saved",
+        description: `Saved as version ${data.workflow.version}`,
+      });
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+      toast({
+        title: "Workflow Saved Locally",
+        description: error instanceof Error ? error.message : "Could not reach the server, saved to this browser only",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   }, [nodes, edges, projectId, toast]);
 
+  // Fetch the saved workflow (latest unless a version is given), falling back to the local copy
+  const fetchSavedWorkflow = useCallback(async (version?: number): Promise<SavedWorkflow | null> => {
+    try {
+      const query = version ? `?version=${version}` : '';
+      const response = await fetch(`/api/projects/${projectId}/workflow${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load workflow');
+      }
+
+      setCanEdit(data.canEdit !== false);
+      if (data.success && data.workflow) {
+        return { nodes: data.workflow.nodes, edges: data.workflow.edges, version: data.workflow.version };
+      }
+    } catch (error) {
+      console.error('Error loading workflow from server:', error);
+      if (version) {
+        return null;
+      }
+    }
+
+    // Nothing on the server yet: pick up a diagram saved by an older version of the builder
+    const savedWorkflow = localStorage.getItem(`workflow-${projectId}`);
+    if (!version && savedWorkflow) {
+      const workflowData = JSON.parse(savedWorkflow);
+      return { nodes: workflowData.nodes || initialNodes, edges: workflowData.edges || initialEdges, version: null };
+    }
+
+    return null;
+  }, [projectId]);
+
+  // Load the list of saved versions for the history dialog
+  const openVersionHistory = useCallback(async () => {
+    setShowHistoryModal(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow?history=true`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load workflow history');
+      }
+
+      setWorkflowVersions(data.versions || []);
+    } catch (error) {
+      console.error('Error loading workflow history:', error);
+      setWorkflowVersions([]);
+      toast({
+        title: "History Unavailable",
+        description: "Could not load saved workflow versions",
+        variant: "destructive",
+      });
+    }
+  }, [projectId, toast]);
+
   // Ensure executive nodes are present in workflow
   const ensureExecutiveNodes = useCallback((nodes: Node[], edges: Edge[]) => {
     const hasExecutiveNodes = nodes.some(node => node.type === 'team');
@@ -431,21 +668,24 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
   }, []);
 
   // Load workflow
-  const loadWorkflow = useCallback(() => {
-    const savedWorkflow = localStorage.getItem(`workflow-${projectId}`);
-    if (savedWorkflow) {
-      const workflowData = JSON.parse(savedWorkflow);
+  const loadWorkflow = useCallback(async (version?: number) => {
+    const workflowData = await fetchSavedWorkflow(version);
+    if (workflowData) {
       const { nodes: updatedNodes, edges: updatedEdges } = ensureExecutiveNodes(
-        workflowData.nodes || initialNodes,
-        workflowData.edges || initialEdges
+        workflowData.nodes,
+        workflowData.edges
       );
       
       setNodes(updatedNodes);
       setEdges(updatedEdges);
+      setWorkflowVersion(workflowData.version);
+      setShowHistoryModal(false);
       
       toast({
         title: "Workflow Loaded",
-        description: "Your workflow has been loaded successfully!",
+        description: workflowData.version
+          ? `Loaded version ${workflowData.version}`
+          : "Your workflow has been loaded successfully!",
       });
     } else {
       toast({
@@ -454,7 +694,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
         variant: "destructive",
       });
     }
-  }, [projectId, setNodes, setEdges, toast, ensureExecutiveNodes]);
+  }, [fetchSavedWorkflow, setNodes, setEdges, toast, ensureExecutiveNodes]);
 
   // Clear workflow
   const clearWorkflow = useCallback(() => {
@@ -480,19 +720,35 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     });
   }, [setNodes, setEdges, toast]);
 
-  // Export workflow
-  const exportWorkflow = useCallback(() => {
-    const workflowData = {
-      nodes,
-      edges,
-      projectId,
-      timestamp: new Date().toISOString(),
-    };
-    
-    const dataStr = JSON.stringify(workflowData, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    
-    const exportFileDefaultName = `workflow-${projectId}-${new Date().toISOString().split('T')[0]}.json`;
+  // Export workflow as our own JSON, BPMN 2.0 XML or a Mermaid flowchart
+  const exportWorkflow = useCallback((format: 'json' | 'bpmn' | 'mermaid') => {
+    const exportNodes = withoutExecutionState(nodes);
+    const date = new Date().toISOString().split('T')[0];
+    let content: string;
+    let mimeType: string;
+    let extension: string;
+
+    if (format === 'bpmn') {
+      content = exportToBpmn(exportNodes, edges, `Workflow ${projectId}`);
+      mimeType = 'application/xml';
+      extension = 'bpmn';
+    } else if (format === 'mermaid') {
+      content = exportToMermaid(exportNodes, edges);
+      mimeType = 'text/plain';
+      extension = 'mmd';
+    } else {
+      content = JSON.stringify({
+        nodes: exportNodes,
+        edges,
+        projectId,
+        timestamp: new Date().toISOString(),
+      }, null, 2);
+      mimeType = 'application/json';
+      extension = 'json';
+    }
+
+    const dataUri = `data:${mimeType};charset=utf-8,` + encodeURIComponent(content);
+    const exportFileDefaultName = `workflow-${projectId}-${date}.${extension}`;
     
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
@@ -501,10 +757,75 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     
     toast({
       title: "Workflow Exported",
-      description: "Your workflow has been exported successfully!",
+      description: `Your workflow has been exported as ${format === 'bpmn' ? 'BPMN 2.0' : format === 'mermaid' ? 'Mermaid' : 'JSON'}`,
     });
   }, [nodes, edges, projectId, toast]);
 
+  // Copy a Mermaid block ready to paste into design.md
+  const copyMermaid = useCallback(async () => {
+    const mermaid = exportToMermaid(withoutExecutionState(nodes), edges);
+    try {
+      await navigator.clipboard.writeText('```mermaid\n' + mermaid + '```\n');
+      toast({
+        title: "Mermaid Copied",
+        description: "Paste it into design.md to embed the diagram",
+      });
+    } catch (error) {
+      console.error('Failed to copy Mermaid diagram:', error);
+      toast({
+        title: "Copy Failed",
+        description: "Your browser blocked clipboard access, use Export as Mermaid instead",
+        variant: "destructive",
+      });
+    }
+  }, [nodes, edges, toast]);
+
+  // Import a workflow from a BPMN 2.0 or exported JSON file
+  const importWorkflow = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (nodes.length > 0 && !window.confirm('Importing replaces the current workflow. Unsaved changes will be lost. Continue?')) {
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      let imported: { nodes: Node[]; edges: Edge[] };
+
+      if (file.name.toLowerCase().endsWith('.json')) {
+        const workflowData = JSON.parse(text);
+        if (!Array.isArray(workflowData.nodes) || !Array.isArray(workflowData.edges)) {
+          throw new Error('The JSON file does not contain a workflow');
+        }
+        imported = { nodes: workflowData.nodes, edges: workflowData.edges };
+      } else {
+        imported = importFromBpmn(text);
+      }
+
+      setNodes(imported.nodes);
+      setEdges(imported.edges);
+      setSelectedNode(null);
+
+      setTimeout(() => {
+        reactFlowInstance?.fitView({ padding: 0.1 });
+      }, 100);
+
+      toast({
+        title: "Workflow Imported",
+        description: `Imported ${imported.nodes.length} nodes and ${imported.edges.length} connections from ${file.name}`,
+      });
+    } catch (error) {
+      console.error('Failed to import workflow:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'Could not read the workflow file',
+        variant: "destructive",
+      });
+    }
+  }, [nodes.length, setNodes, setEdges, reactFlowInstance, toast]);
+
   // Generate stakeholder nodes from BMC data
   const generateStakeholderNodesFromBMC = useCallback((bmcData: any, centerX: number, startY: number, startNodeId: number) => {
     const nodes: Node[] = [];
@@ -1016,6 +1337,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
         },
         body: JSON.stringify({
           workflowResults,
+          workflowVersion,
           projectId,
           timestamp: new Date().toISOString(),
         }),
@@ -1044,26 +1366,37 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
     } finally {
       setIsSavingResults(false);
     }
-  }, [workflowResults, projectId, toast]);
+  }, [workflowResults, workflowVersion, projectId, toast]);
 
   // Load workflow on component mount
   useEffect(() => {
-    const savedWorkflow = localStorage.getItem(`workflow-${projectId}`);
-    if (savedWorkflow) {
-      const workflowData = JSON.parse(savedWorkflow);
-      const { nodes: updatedNodes, edges: updatedEdges } = ensureExecutiveNodes(
-        workflowData.nodes || initialNodes,
-        workflowData.edges || initialEdges
-      );
-      setNodes(updatedNodes);
-      setEdges(updatedEdges);
-    }
-  }, [projectId, setNodes, setEdges, ensureExecutiveNodes]);
+    let cancelled = false;
+    setInitialLoad('pending');
+
+    fetchSavedWorkflow().then((workflowData) => {
+      if (cancelled) return;
+      if (workflowData) {
+        const { nodes: updatedNodes, edges: updatedEdges } = ensureExecutiveNodes(
+          workflowData.nodes,
+          workflowData.edges
+        );
+        setNodes(updatedNodes);
+        setEdges(updatedEdges);
+        setWorkflowVersion(workflowData.version);
+        setInitialLoad('loaded');
+      } else {
+        setInitialLoad('empty');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchSavedWorkflow, setNodes, setEdges, ensureExecutiveNodes]);
 
   // Auto-generate workflow if no saved workflow exists
   useEffect(() => {
-    const savedWorkflow = localStorage.getItem(`workflow-${projectId}`);
-    if (!savedWorkflow) {
+    if (initialLoad === 'empty') {
       if (analysisData && Object.keys(analysisData).length > 0) {
         // Generate full workflow with analysis data
         generateWorkflowFromAnalysis();
@@ -1072,7 +1405,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
         generateBasicWorkflow();
       }
     }
-  }, [projectId, analysisData, generateWorkflowFromAnalysis, generateBasicWorkflow]);
+  }, [initialLoad, analysisData, generateWorkflowFromAnalysis, generateBasicWorkflow]);
 
   return (
     <div className="h-full flex flex-col">
@@ -1104,6 +1437,11 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
               <div className="w-2 h-2 bg-blue-500 rounded-full mr-1 sm:mr-2" />
               {nodes.length} nodes, {edges.length} connections
             </Badge>
+            {workflowVersion && (
+              <Badge variant="outline" className="text-xs">
+                v{workflowVersion}{!canEdit && ' · read only'}
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -1122,17 +1460,28 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
               <span className="hidden sm:inline">{isExecuting ? 'Executing...' : 'Execute Workflow'}</span>
               <span className="sm:hidden">{isExecuting ? 'Executing...' : 'Execute'}</span>
             </Button>
+            <Button
+              onClick={analyzeWorkflow}
+              disabled={isAnalyzing}
+              variant="outline"
+              className="flex items-center text-xs sm:text-sm"
+              size="sm"
+            >
+              <Sparkles className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+            </Button>
             <Button
               onClick={saveWorkflow}
+              disabled={isSaving || !canEdit}
               variant="outline"
               className="flex items-center text-xs sm:text-sm"
               size="sm"
             >
               <Save className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-              Save
+              {isSaving ? 'Saving...' : 'Save'}
             </Button>
             <Button
-              onClick={loadWorkflow}
+              onClick={() => loadWorkflow()}
               variant="outline"
               className="flex items-center text-xs sm:text-sm"
               size="sm"
@@ -1141,14 +1490,61 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
               Load
             </Button>
             <Button
-              onClick={exportWorkflow}
+              onClick={openVersionHistory}
               variant="outline"
               className="flex items-center text-xs sm:text-sm"
               size="sm"
             >
-              <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-              Export
+              <History className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              History
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="flex items-center text-xs sm:text-sm"
+                  size="sm"
+                >
+                  <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => exportWorkflow('json')}>
+                  <FileJson className="w-4 h-4 mr-2" />
+                  JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportWorkflow('bpmn')}>
+                  <FileCode className="w-4 h-4 mr-2" />
+                  BPMN 2.0 XML
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportWorkflow('mermaid')}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Mermaid flowchart
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={copyMermaid}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy Mermaid for design.md
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              onClick={() => importInputRef.current?.click()}
+              variant="outline"
+              className="flex items-center text-xs sm:text-sm"
+              size="sm"
+            >
+              <FileUp className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".bpmn,.xml,.json"
+              className="hidden"
+              onChange={importWorkflow}
+            />
             <Button
               onClick={clearWorkflow}
               variant="outline"
@@ -1247,10 +1643,10 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
           <DialogHeader>
             <DialogTitle className="flex items-center text-lg sm:text-xl">
               <CheckCircle className="w-5 h-5 sm:w-6 sm:h-6 text-green-600 mr-2 flex-shrink-0" />
-              Business Analysis Results
+              {workflowResults?.execution ? 'Workflow Run Results' : 'Business Analysis Results'}
             </DialogTitle>
             <DialogDescription className="text-sm">
-              Business analysis completed successfully on {workflowResults?.timestamp ? new Date(workflowResults.timestamp).toLocaleString() : 'Unknown time'}
+              {workflowResults?.execution ? `Workflow run ${workflowResults.status}` : 'Business analysis completed successfully'} on {workflowResults?.timestamp ? new Date(workflowResults.timestamp).toLocaleString() : 'Unknown time'}
             </DialogDescription>
           </DialogHeader>
 
@@ -1259,7 +1655,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
               {/* Execution Summary */}
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">Analysis Summary</CardTitle>
+                  <CardTitle className="text-lg">{workflowResults.execution ? 'Run Summary' : 'Analysis Summary'}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -1269,7 +1665,7 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
                     </div>
                     <div className="text-center p-3 bg-purple-50 rounded-lg">
                       <div className="text-2xl font-bold text-purple-600">{workflowResults.nodesAnalyzed}</div>
-                      <div className="text-sm text-purple-700">Nodes Analyzed</div>
+                      <div className="text-sm text-purple-700">{workflowResults.execution ? 'Nodes Completed' : 'Nodes Analyzed'}</div>
                     </div>
                     {workflowResults.businessAnalysis && (
                       <div className="text-center p-3 bg-emerald-50 rounded-lg">
@@ -1281,6 +1677,51 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
                 </CardContent>
               </Card>
 
+              {/* Node Results */}
+              {workflowResults.execution && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Node Results</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {Object.values(workflowResults.execution.nodeResults as Record<string, WorkflowNodeEvent>).map((nodeResult) => {
+                      const node = nodes.find(n => n.id === nodeResult.nodeId);
+                      return (
+                        <div key={nodeResult.nodeId} className="p-3 border rounded-lg">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-sm">{(node?.data.label as string) || nodeResult.nodeId}</span>
+                            <div className="flex items-center gap-2">
+                              {nodeResult.durationMs !== undefined && (
+                                <span className="text-xs text-muted-foreground">{nodeResult.durationMs}ms</span>
+                              )}
+                              <Badge
+                                variant={nodeResult.status === 'failed' ? 'destructive' : nodeResult.status === 'completed' ? 'default' : 'outline'}
+                                className="text-xs"
+                              >
+                                {nodeResult.status}{nodeResult.branch ? ` (${nodeResult.branch})` : ''}
+                              </Badge>
+                            </div>
+                          </div>
+                          {nodeResult.error && (
+                            <p className="text-xs text-red-600 mt-1">{nodeResult.error}</p>
+                          )}
+                          {nodeResult.status === 'completed' && nodeResult.output !== null && nodeResult.output !== undefined && (
+                            <pre className="text-xs bg-gray-50 rounded p-2 mt-2 max-h-32 overflow-auto">
+                              {JSON.stringify(nodeResult.output, null, 2)}
+                            </pre>
+                          )}
+                          {nodeResult.logs && nodeResult.logs.length > 0 && (
+                            <pre className="text-xs bg-gray-900 text-gray-100 rounded p-2 mt-2 max-h-24 overflow-auto">
+                              {nodeResult.logs.join('\n')}
+                            </pre>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Business Analysis */}
               {workflowResults.businessAnalysis && (
                 <BusinessAnalysis analysis={workflowResults.businessAnalysis} />
@@ -1317,6 +1758,53 @@ export function WorkflowBuilder({ projectId, analysisData }: WorkflowBuilderProp
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Version History Modal */}
+      <Dialog open={showHistoryModal} onOpenChange={setShowHistoryModal}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto w-[95vw] sm:w-full">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <History className="w-5 h-5 mr-2 text-blue-600" />
+              Workflow History
+            </DialogTitle>
+            <DialogDescription>
+              Every save creates a new version. Loading an older version does not change history until you save again.
+            </DialogDescription>
+          </DialogHeader>
+          {workflowVersions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No saved versions yet</p>
+          ) : (
+            <div className="space-y-2">
+              {workflowVersions.map((entry) => (
+                <div
+                  key={entry.version}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {entry.version}</span>
+                      {entry.version === workflowVersion && (
+                        <Badge variant="secondary" className="text-xs">Current</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {new Date(entry.created_at).toLocaleString()}
+                      {entry.message ? ` · ${entry.message}` : ''}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => loadWorkflow(entry.version)}
+                  >
+                    Load
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
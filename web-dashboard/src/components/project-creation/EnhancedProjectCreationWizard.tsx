@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { ProjectListItem } from './types';
+import { generateEnhancedSpecs } from '@/lib/enhancedSpecsClient';
 import { ProjectAnalysisStep } from './ProjectAnalysisStep';
 import { TemplateSelectionStep } from './TemplateSelectionStep';
 import { ProjectProfileStep } from './ProjectProfileStep';
@@ -79,27 +80,18 @@ export function EnhancedProjectCreationWizard({ onClose, onProjectCreated }: Enh
         // Type assertion to help TypeScript understand the type
         const safeProfileData = profileData as any;
         
-        const specsResponse = await fetch(`/api/projects/${createdProject.id}/generate-enhanced-specs`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            enhancementData: wizardData.analysis,
-            projectProfile: {
-              name: safeProfileData.name,
-              industry: safeProfileData.industry,
-              businessModel: Array.isArray(safeProfileData.businessModel) 
-                ? safeProfileData.businessModel.join(', ') 
-                : safeProfileData.businessModel,
-              targetMarket: (wizardData.analysis as any)?.targetSegments?.primary || 'General market',
-              problemStatement: (wizardData.analysis as any)?.description || safeProfileData.name
-            }
-          })
-        });
-
-        if (!specsResponse.ok) {
-          const errorData = await specsResponse.json().catch(() => ({ error: 'Unknown error occurred' }));
-          throw new Error(errorData.error || `HTTP ${specsResponse.status}: Failed to generate enhanced specifications`);
-        }
+        await generateEnhancedSpecs(createdProject.id, {
+          enhancementData: wizardData.analysis,
+          projectProfile: {
+            name: safeProfileData.name,
+            industry: safeProfileData.industry,
+            businessModel: Array.isArray(safeProfileData.businessModel) 
+              ? safeProfileData.businessModel.join(', ') 
+              : safeProfileData.businessModel,
+            targetMarket: (wizardData.analysis as any)?.targetSegments?.primary || 'General market',
+            problemStatement: (wizardData.analysis as any)?.description || safeProfileData.name
+          }
+        }, section => setCreationStage(`Writing ${section}...`));
 
         setCreationStage('Saving specifications to database...');
         await new Promise(resolve => setTimeout(resolve, 1000));
@@ -167,27 +159,18 @@ export function EnhancedProjectCreationWizard({ onClose, onProjectCreated }: Enh
         try {
           setCreationStage('Generating enhanced specifications...');
           
-          const specsResponse = await fetch(`/api/projects/${newProject.id}/generate-enhanced-specs`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              enhancementData: wizardData.analysis,
-              projectProfile: {
-                name: profileData.name,
-                industry: profileData.industry,
-                businessModel: Array.isArray(profileData.businessModel) 
-                  ? profileData.businessModel.join(', ') 
-                  : profileData.businessModel,
-                targetMarket: (wizardData.analysis as any)?.targetSegments?.primary || 'General market',
-                problemStatement: (wizardData.analysis as any)?.description || profileData.name
-              }
-            })
-          });
-
-          if (!specsResponse.ok) {
-            const errorData = await specsResponse.json().catch(() => ({ error: 'Unknown error occurred' }));
-            throw new Error(errorData.error || `HTTP ${specsResponse.status}: Failed to generate enhanced specifications`);
-          }
+          await generateEnhancedSpecs(newProject.id, {
+            enhancementData: wizardData.analysis,
+            projectProfile: {
+              name: profileData.name,
+              industry: profileData.industry,
+              businessModel: Array.isArray(profileData.businessModel) 
+                ? profileData.businessModel.join(', ') 
+                : profileData.businessModel,
+              targetMarket: (wizardData.analysis as any)?.targetSegments?.primary || 'General market',
+              problemStatement: (wizardData.analysis as any)?.description || profileData.name
+            }
+          }, section => setCreationStage(`Writing ${section}...`));
 
           setCreationStage('Saving specifications to database...');
           
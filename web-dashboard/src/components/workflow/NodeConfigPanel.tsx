@@ -291,6 +291,10 @@ return processData(input);"
                     <li><code>context</code> - Workflow context</li>
                     <li><code>params</code> - Node parameters</li>
                   </ul>
+                  <p className="mt-2">
+                    The returned value becomes this node&apos;s output. Code runs in an isolated sandbox
+                    limited to 2 seconds and 64MB, without network or file access.
+                  </p>
                 </div>
               </div>
             </div>
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle, Loader2, MinusCircle, XCircle, AlertTriangle } from 'lucide-react';
+
+// Set on node data by WorkflowBuilder while a run is in progress or after validation
+export type NodeExecutionState = 'running' | 'completed' | 'skipped' | 'failed' | 'invalid';
+
+interface NodeExecutionStatusProps {
+  data: Record<string, unknown>;
+}
+
+export function NodeExecutionStatus({ data }: NodeExecutionStatusProps) {
+  const status = data.executionStatus as NodeExecutionState | undefined;
+  const message = data.executionMessage as string | undefined;
+
+  if (!status) {
+    return null;
+  }
+
+  const styles: Record<NodeExecutionState, { className: string; icon: React.ReactNode; label: string }> = {
+    running: { className: 'bg-blue-50 text-blue-700', icon: <Loader2 className="w-3 h-3 animate-spin" />, label: 'Running' },
+    completed: { className: 'bg-green-50 text-green-700', icon: <CheckCircle className="w-3 h-3" />, label: 'Done' },
+    skipped: { className: 'bg-gray-50 text-gray-500', icon: <MinusCircle className="w-3 h-3" />, label: 'Skipped' },
+    failed: { className: 'bg-red-50 text-red-700', icon: <XCircle className="w-3 h-3" />, label: 'Failed' },
+    invalid: { className: 'bg-amber-50 text-amber-700', icon: <AlertTriangle className="w-3 h-3" />, label: 'Invalid' },
+  };
+  const style = styles[status];
+
+  return (
+    <div className={`mt-2 flex items-start space-x-1 text-xs rounded px-2 py-1 ${style.className}`} title={message}>
+      <span className="mt-0.5">{style.icon}</span>
+      <span className="min-w-0">
+        {style.label}
+        {message && <span className="block truncate max-w-[180px] opacity-80">{message}</span>}
+      </span>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
 import { Code, FileCode, Terminal } from 'lucide-react';
+import { NodeExecutionStatus } from '../NodeExecutionStatus';
 
 export function CodeNode({ data, selected }: NodeProps) {
   const getIcon = () => {
@@ -55,6 +56,8 @@ export function CodeNode({ data, selected }: NodeProps) {
         </div>
       )}
 
+      <NodeExecutionStatus data={data} />
+
       <Handle
         type="target"
         position={Position.Left}
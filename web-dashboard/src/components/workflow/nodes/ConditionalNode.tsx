@@ -3,6 +3,7 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
 import { GitBranch, CheckCircle, XCircle } from 'lucide-react';
+import { NodeExecutionStatus } from '../NodeExecutionStatus';
 
 export function ConditionalNode({ data, selected }: NodeProps) {
   return (
@@ -43,6 +44,8 @@ export function ConditionalNode({ data, selected }: NodeProps) {
         </div>
       </div>
 
+      <NodeExecutionStatus data={data} />
+
       <Handle
         type="target"
         position={Position.Left}
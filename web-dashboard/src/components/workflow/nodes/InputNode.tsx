@@ -3,6 +3,7 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
 import { Database, FileInput, Globe } from 'lucide-react';
+import { NodeExecutionStatus } from '../NodeExecutionStatus';
 
 export function InputNode({ data, selected, isConnectable }: NodeProps) {
   const getIcon = () => {
@@ -55,6 +56,8 @@ export function InputNode({ data, selected, isConnectable }: NodeProps) {
         </div>
       )}
 
+      <NodeExecutionStatus data={data} />
+
       {/* Top handles */}
       <Handle type="source" position={Position.Top} isConnectable={isConnectable} className="w-3 h-3 bg-blue-500" id="top-center" />
       <Handle type="source" position={Position.Top} isConnectable={isConnectable} className="w-2 h-2 bg-blue-400" style={{ left: '25%' }} id="top-left" />
@@ -3,6 +3,7 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
 import { FileOutput, Mail, Users, Download } from 'lucide-react';
+import { NodeExecutionStatus } from '../NodeExecutionStatus';
 
 export function OutputNode({ data, selected, isConnectable }: NodeProps) {
   const getIcon = () => {
@@ -57,6 +58,8 @@ export function OutputNode({ data, selected, isConnectable }: NodeProps) {
         </div>
       )}
 
+      <NodeExecutionStatus data={data} />
+
       {/* Top handles */}
       <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="w-3 h-3 bg-red-500" id="top-center" />
       <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="w-2 h-2 bg-red-400" style={{ left: '25%' }} id="top-left" />
@@ -3,6 +3,7 @@
 import { memo } from "react"
 import { Handle, Position, type NodeProps } from "@xyflow/react"
 import { Settings } from "lucide-react"
+import { NodeExecutionStatus } from "../NodeExecutionStatus"
 
 export const ProcessNode = memo(({ data, isConnectable }: NodeProps) => {
   return (
@@ -19,6 +20,8 @@ export const ProcessNode = memo(({ data, isConnectable }: NodeProps) => {
 
       {(data.processType as string) && <div className="mt-2 text-xs bg-gray-100 p-1 rounded">Process: {data.processType as string}</div>}
 
+      <NodeExecutionStatus data={data} />
+
       {/* Top handles */}
       <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="w-3 h-3 bg-purple-500" id="top-center" />
       <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="w-2 h-2 bg-purple-400" style={{ left: '25%' }} id="top-left" />
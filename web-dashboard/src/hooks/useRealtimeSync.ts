@@ -437,8 +437,20 @@ interface MergeResult {
     baseContent?: string;
   }>;
   warnings: string[];
+  mode?: 'semantic' | 'textual';
+  taskConflicts?: Array<{
+    taskId: string;
+    title: string;
+    fields: string[];
+    lineNumber: number;
+    localContent: string;
+    remoteContent: string;
+    baseContent?: string;
+  }>;
 }
 
+export type MergeMode = 'auto' | 'textual' | 'tasks';
+
 export function useSyncConflicts(projectPath: string) {
   const [conflicts, setConflicts] = useState<Conflict[]>([]);
   const [integrityWarnings, setIntegrityWarnings] = useState<IntegrityWarning[]>([]);
@@ -467,18 +479,20 @@ export function useSyncConflicts(projectPath: string) {
   const resolveConflict = useCallback(async (
     conflictId: string, 
     resolution: 'local' | 'remote' | 'merge' | 'manual',
-    manualContent?: string
+    manualContent?: string,
+    mergeMode: MergeMode = 'auto'
   ) => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/conflicts/resolve', {
+      const response = await fetch('/api/conflicts', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           conflictId,
           resolution,
           manualContent,
-          resolvedBy: 'user'
+          resolvedBy: 'user',
+          mergeMode
         })
       });
 
@@ -499,10 +513,15 @@ export function useSyncConflicts(projectPath: string) {
   }, []);
 
   // Get merge preview for a conflict
-  const getMergePreview = useCallback(async (conflictId: string): Promise<MergeResult | null> => {
+  const getMergePreview = useCallback(async (
+    conflictId: string,
+    mergeMode: MergeMode = 'auto'
+  ): Promise<MergeResult | null> => {
     try {
-      const response = await fetch(`/api/conflicts/${conflictId}/merge`, {
-        method: 'POST'
+      const response = await fetch(`/api/conflicts/${conflictId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: mergeMode })
       });
 
       if (response.ok) {
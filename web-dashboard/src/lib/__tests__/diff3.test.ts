@@ -0,0 +1,161 @@
+import { diffHunks, diffLines, merge2, merge3 } from '../diff3';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('diffHunks', () => {
+  it('should report nothing for identical input', () => {
+    expect(diffHunks(['a', 'b'], ['a', 'b'])).toEqual([]);
+  });
+
+  it('should find separate insertions, deletions and replacements', () => {
+    expect(diffHunks(['a', 'b', 'c', 'd', 'e'], ['a', 'x', 'c', 'e', 'f'])).toEqual([
+      { oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 2 },
+      { oldStart: 3, oldEnd: 4, newStart: 3, newEnd: 3 },
+      { oldStart: 5, oldEnd: 5, newStart: 4, newEnd: 5 }
+    ]);
+  });
+});
+
+describe('diffLines', () => {
+  it('should number lines on each side', () => {
+    expect(diffLines(lines('a', 'b', 'c'), lines('a', 'c', 'd'))).toEqual([
+      { type: 'equal', line: 'a', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'delete', line: 'b', oldLineNumber: 2 },
+      { type: 'equal', line: 'c', oldLineNumber: 3, newLineNumber: 2 },
+      { type: 'insert', line: 'd', newLineNumber: 3 }
+    ]);
+  });
+
+  it('should treat CRLF and LF line endings alike', () => {
+    expect(diffLines('a\r\nb', 'a\nb').every(line => line.type === 'equal')).toBe(true);
+  });
+});
+
+describe('merge3', () => {
+  const base = lines('# Title', 'intro', 'middle', 'outro');
+
+  it('should combine changes to different parts of the document', () => {
+    const outcome = merge3(
+      lines('# Title', 'intro (local)', 'middle', 'outro'),
+      base,
+      lines('# Title', 'intro', 'middle', 'outro (remote)', 'appendix')
+    );
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.mergedContent).toBe(lines('# Title', 'intro (local)', 'middle', 'outro (remote)', 'appendix'));
+    expect(outcome.conflicts).toEqual([]);
+  });
+
+  it('should accept the same change made on both sides', () => {
+    const changed = lines('# Title', 'intro', 'middle (both)', 'outro');
+
+    expect(merge3(changed, base, changed)).toMatchObject({ success: true, mergedContent: changed });
+  });
+
+  it('should mark conflicting hunks with git markers', () => {
+    const outcome = merge3(
+      lines('# Title', 'intro', 'middle (local)', 'outro'),
+      base,
+      lines('# Title', 'intro', 'middle (remote)', 'outro')
+    );
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.mergedLines).toEqual([
+      '# Title', 'intro',
+      '<<<<<<< LOCAL', 'middle (local)', '=======', 'middle (remote)', '>>>>>>> REMOTE',
+      'outro'
+    ]);
+    expect(outcome.conflicts).toEqual([
+      { lineNumber: 3, baseLineNumber: 3, local: ['middle (local)'], base: ['middle'], remote: ['middle (remote)'] }
+    ]);
+  });
+
+  it('should include the base section and custom labels in diff3 style', () => {
+    const outcome = merge3(
+      lines('# Title', 'intro', 'middle (local)', 'outro'),
+      base,
+      lines('# Title', 'intro', 'middle (remote)', 'outro'),
+      { markers: 'diff3', labels: { local: 'VS Code', remote: 'Dashboard' } }
+    );
+
+    expect(outcome.mergedLines.slice(2, 9)).toEqual([
+      '<<<<<<< VS Code', 'middle (local)', '||||||| BASE', 'middle', '=======', 'middle (remote)', '>>>>>>> Dashboard'
+    ]);
+  });
+
+  it('should keep the local side of conflicts without markers', () => {
+    const outcome = merge3(
+      lines('# Title', 'intro', 'middle (local)', 'outro'),
+      base,
+      lines('# Title', 'intro', 'middle (remote)', 'outro'),
+      { markers: 'none' }
+    );
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.mergedContent).toBe(lines('# Title', 'intro', 'middle (local)', 'outro'));
+  });
+
+  it('should treat insertions at the same place on both sides as a conflict', () => {
+    const outcome = merge3(
+      lines('# Title', 'intro', 'local note', 'middle', 'outro'),
+      base,
+      lines('# Title', 'intro', 'remote note', 'middle', 'outro')
+    );
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.conflicts[0]).toMatchObject({ local: ['local note'], remote: ['remote note'] });
+  });
+
+  describe('task-aware', () => {
+    const taskBase = lines('- [ ] 1. Set up the project', '- [ ] 2. Build the API');
+
+    it('should merge a checkbox change on one side with a text edit on the other', () => {
+      const outcome = merge3(
+        lines('- [x] 1. Set up the project', '- [ ] 2. Build the API'),
+        taskBase,
+        lines('- [ ] 1. Set up the repository', '- [ ] 2. Build the API'),
+        { taskAware: true }
+      );
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.mergedContent).toBe(lines('- [x] 1. Set up the repository', '- [ ] 2. Build the API'));
+      expect(outcome.autoMergedTaskLines).toBe(1);
+    });
+
+    it('should still conflict when both sides rewrite the same task text', () => {
+      const outcome = merge3(
+        lines('- [ ] 1. Set up the monorepo', '- [ ] 2. Build the API'),
+        taskBase,
+        lines('- [ ] 1. Set up the repository', '- [ ] 2. Build the API'),
+        { taskAware: true }
+      );
+
+      expect(outcome.success).toBe(false);
+    });
+
+    it('should not merge checkbox changes unless asked to', () => {
+      const outcome = merge3(
+        lines('- [x] 1. Set up the project', '- [ ] 2. Build the API'),
+        taskBase,
+        lines('- [ ] 1. Set up the repository', '- [ ] 2. Build the API')
+      );
+
+      expect(outcome.success).toBe(false);
+    });
+  });
+});
+
+describe('merge2', () => {
+  it('should conflict on every differing hunk without a base', () => {
+    const outcome = merge2(lines('a', 'local', 'c'), lines('a', 'remote', 'c'));
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.conflicts).toEqual([{ lineNumber: 2, baseLineNumber: undefined, local: ['local'], base: undefined, remote: ['remote'] }]);
+  });
+
+  it('should let a checked box win when merging task lines without a base', () => {
+    const outcome = merge2('- [ ] 1. Write docs', '- [x] 1. Write docs', { taskAware: true });
+
+    expect(outcome).toMatchObject({ success: true, mergedContent: '- [x] 1. Write docs' });
+  });
+});
@@ -0,0 +1,33 @@
+import { chunkDocument } from '../documentChunker';
+
+describe('chunkDocument', () => {
+  const tasks = [
+    '# Implementation Plan',
+    '- [ ] 1. Set up the project',
+    '  - [ ] 1.1 Create the repository',
+    '- [ ] 2. Build the API',
+    '## Release',
+    '- [ ] 3. Ship it'
+  ].join('\n');
+
+  it('should chunk by heading and top-level task', () => {
+    const chunks = chunkDocument('tasks', 'Tasks', tasks);
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      '- [ ] 1. Set up the project\n  - [ ] 1.1 Create the repository',
+      '- [ ] 2. Build the API',
+      '- [ ] 3. Ship it'
+    ]);
+    expect(chunks[2].headings).toEqual(['Implementation Plan', 'Release']);
+    expect(chunks[1].overlap).toContain('1.1 Create the repository');
+  });
+
+  it('should only change the ids of the edited chunk and the one overlapping it', () => {
+    const before = chunkDocument('tasks', 'Tasks', tasks).map(chunk => chunk.id);
+    const after = chunkDocument('tasks', 'Tasks', tasks.replace('Create the repository', 'Create the monorepo')).map(chunk => chunk.id);
+
+    expect(after[0]).not.toBe(before[0]);
+    expect(after[1]).not.toBe(before[1]);
+    expect(after[2]).toBe(before[2]);
+  });
+});
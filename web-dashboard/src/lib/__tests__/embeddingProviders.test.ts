@@ -0,0 +1,29 @@
+import { fitDimensions, HashingEmbeddingProvider } from '../embeddingProviders';
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider(256);
+  const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+  it('should embed the same text to the same unit vector', async () => {
+    const [first, second] = await provider.embed(['User authentication with OAuth', 'User authentication with OAuth']);
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(256);
+    expect(similarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('should place texts sharing words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'database caching layer',
+      'add a caching layer in front of the database',
+      'marketing plan for the product launch'
+    ]);
+
+    expect(similarity(query, related)).toBeGreaterThan(similarity(query, unrelated));
+  });
+
+  it('should fit vectors to the configured dimension', () => {
+    expect(fitDimensions([1, 2], 4)).toEqual([1, 2, 0, 0]);
+    expect(fitDimensions([1, 2, 3, 4], 2)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,123 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HnswVectorStore } from '../hnswVectorStore';
+import type { MetadataFilter, VectorRecord } from '../vectorStore';
+
+describe('HnswVectorStore', () => {
+  const records: VectorRecord[] = [
+    { id: 'requirements:p1', values: [1, 0, 0], metadata: { projectId: 'p1', type: 'requirements', tags: ['api', 'auth'] } },
+    { id: 'design:p1', values: [0.9, 0.1, 0], metadata: { projectId: 'p1', type: 'design', tags: ['api'] } },
+    { id: 'context:p1:1', values: [0, 1, 0], metadata: { projectId: 'p1', type: 'context', version: 2 } },
+    { id: 'context:p2:1', values: [1, 0, 0], metadata: { projectId: 'p2', type: 'context', version: 1 } }
+  ];
+
+  let store: HnswVectorStore;
+
+  beforeEach(async () => {
+    store = new HnswVectorStore();
+    await store.upsert(records);
+  });
+
+  it('should rank matches by cosine similarity', async () => {
+    const { matches } = await store.query({ vector: [1, 0, 0], topK: 2, filter: { projectId: { $eq: 'p1' } } });
+
+    expect(matches.map(match => match.id)).toEqual(['requirements:p1', 'design:p1']);
+    expect(matches[0].score).toBeCloseTo(1);
+  });
+
+  it('should apply metadata filters the way Pinecone does', async () => {
+    const ids = async (filter: MetadataFilter) =>
+      (await store.query({ vector: [0, 0, 0], topK: 10, filter })).matches.map(match => match.id).sort();
+
+    expect(await ids({ type: { $in: ['requirements', 'design'] } })).toEqual(['design:p1', 'requirements:p1']);
+    expect(await ids({ tags: 'auth' })).toEqual(['requirements:p1']);
+    expect(await ids({ projectId: { $ne: 'p1' } })).toEqual(['context:p2:1']);
+    expect(await ids({ version: { $gte: 2 } })).toEqual(['context:p1:1']);
+    expect(await ids({ $or: [{ type: 'design' }, { version: { $lt: 2 } }] })).toEqual(['context:p2:1', 'design:p1']);
+  });
+
+  it('should keep namespaces separate', async () => {
+    await store.upsert([{ id: 'project:p1', values: [1, 0, 0], metadata: { projectId: 'p1', type: 'project' } }], 'projects');
+
+    const { matches } = await store.query({ vector: [0, 0, 0], topK: 10, namespace: 'projects' });
+    const { records: fetched } = await store.fetch(['project:p1', 'design:p1'], 'projects');
+
+    expect(matches.map(match => match.id)).toEqual(['project:p1']);
+    expect(Object.keys(fetched)).toEqual(['project:p1']);
+  });
+
+  it('should replace and delete records', async () => {
+    await store.upsert([{ id: 'design:p1', values: [0, 0, 1], metadata: { projectId: 'p1', type: 'design' } }]);
+    await store.deleteByFilter({ projectId: { $eq: 'p1' }, type: { $eq: 'context' } });
+    await store.deleteMany(['context:p2:1']);
+
+    const { matches } = await store.query({ vector: [0, 0, 1], topK: 10 });
+
+    expect(matches.map(match => match.id)).toEqual(['design:p1', 'requirements:p1']);
+  });
+});
+
+describe('HnswVectorStore persistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    directory = mkdtempSync(path.join(os.tmpdir(), 'hnsw-test-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const ids = async (store: HnswVectorStore, namespace?: string) =>
+    (await store.query({ vector: [0, 0, 0], topK: 10, namespace })).matches.map(match => match.id).sort();
+
+  it('should write changes together once the save delay has passed', async () => {
+    const store = new HnswVectorStore(directory);
+    await store.upsert([{ id: 'a', values: [1, 0, 0] }]);
+    await store.upsert([{ id: 'b', values: [0, 1, 0] }]);
+    await store.deleteMany(['a']);
+    await store.upsert([{ id: 'project:p1', values: [1, 0, 0] }], 'projects');
+
+    expect(readdirSync(directory)).toEqual([]);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(readdirSync(directory).sort()).toEqual(['default.json', 'namespace-projects.json']);
+    const reloaded = new HnswVectorStore(directory);
+    expect(await ids(reloaded)).toEqual(['b']);
+    expect(await ids(reloaded, 'projects')).toEqual(['project:p1']);
+  });
+
+  it('should write pending changes on flush', async () => {
+    const store = new HnswVectorStore(directory);
+    await store.upsert([{ id: 'a', values: [1, 0, 0], metadata: { projectId: 'p1' } }]);
+
+    store.flush();
+
+    expect(existsSync(path.join(directory, 'default.json'))).toBe(true);
+    const { records } = await new HnswVectorStore(directory).fetch(['a']);
+    expect(records.a.metadata).toEqual({ projectId: 'p1' });
+  });
+
+  it('should not write anything for deletes that removed nothing', async () => {
+    const store = new HnswVectorStore(directory);
+    await store.deleteMany(['missing']);
+
+    store.flush();
+
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  it('should keep an in-memory store off disk', async () => {
+    const store = new HnswVectorStore();
+    await store.upsert([{ id: 'a', values: [1, 0, 0] }]);
+
+    store.flush();
+    jest.advanceTimersByTime(1000);
+
+    expect(await ids(store)).toEqual(['a']);
+  });
+});
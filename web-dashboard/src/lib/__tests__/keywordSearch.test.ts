@@ -0,0 +1,30 @@
+import { Bm25Index, buildSnippet, reciprocalRankFusion } from '../keywordSearch';
+
+describe('Keyword search', () => {
+  const index = new Bm25Index([
+    { id: 'req-1', text: 'Requirement 1.2\nThe API returns ERR_TIMEOUT when the upstream call is slow' },
+    { id: 'req-2', text: 'Requirement 2\nUsers can reset their password by email' },
+    { id: 'design-1', text: 'Timeouts\ngetUserById retries twice before giving up' }
+  ]);
+
+  it('should match exact identifiers and their parts', () => {
+    expect(index.search('ERR_TIMEOUT', 5).map(match => match.id)).toEqual(['req-1']);
+    expect(index.search('getUserById', 5).map(match => match.id)).toEqual(['design-1']);
+    expect(index.search('password reset', 5)[0].id).toBe('req-2');
+  });
+
+  it('should fuse rankings so ids found by both retrievers come first', () => {
+    const fused = reciprocalRankFusion([
+      new Map([['a', 1], ['b', 2]]),
+      new Map([['b', 1], ['c', 2]])
+    ]);
+
+    expect(fused.map(match => match.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should highlight query terms in the snippet', () => {
+    const snippet = buildSnippet('See REQ-1.2 for the timeout rules', 'req-1.2 timeout');
+
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['REQ-1.2', 'timeout']);
+  });
+});
@@ -0,0 +1,99 @@
+import { filterToSql, PgVectorStore } from '../pgVectorStore';
+
+describe('filterToSql', () => {
+  const translate = (filter: Record<string, unknown>) => {
+    const params: unknown[] = ['namespace'];
+    return { sql: filterToSql(filter, params), params };
+  };
+
+  it('should bind field names and values as parameters', () => {
+    const { sql, params } = translate({ projectId: 'p1' });
+
+    expect(sql).toBe('COALESCE(metadata -> $2::text @> $3::jsonb, FALSE)');
+    expect(params).toEqual(['namespace', 'projectId', '"p1"']);
+  });
+
+  it('should never splice a field name into the SQL', () => {
+    const { sql, params } = translate({ "type') OR TRUE --": { $eq: 'x' } });
+
+    expect(sql).not.toContain('OR TRUE');
+    expect(params).toContain("type') OR TRUE --");
+  });
+
+  it('should translate $eq, $ne, $in and $nin to jsonb containment', () => {
+    expect(translate({ type: { $eq: 'design' } }).sql).toBe('COALESCE(metadata -> $2::text @> $3::jsonb, FALSE)');
+    expect(translate({ type: { $ne: 'design' } }).sql).toBe('NOT COALESCE(metadata -> $2::text @> $3::jsonb, FALSE)');
+    expect(translate({ type: { $in: ['a', 'b'] } }).sql).toBe(
+      '(COALESCE(metadata -> $2::text @> $3::jsonb, FALSE) OR COALESCE(metadata -> $2::text @> $4::jsonb, FALSE))'
+    );
+    expect(translate({ type: { $nin: ['a'] } }).sql).toBe('NOT (COALESCE(metadata -> $2::text @> $3::jsonb, FALSE))');
+  });
+
+  it('should match nothing for an empty $in and everything for an empty $nin', () => {
+    expect(translate({ type: { $in: [] } }).sql).toBe('(FALSE)');
+    expect(translate({ type: { $nin: [] } }).sql).toBe('NOT (FALSE)');
+  });
+
+  it('should translate $exists', () => {
+    expect(translate({ title: { $exists: true } }).sql).toBe('(metadata -> $2::text IS NOT NULL)');
+    expect(translate({ title: { $exists: false } }).sql).toBe('(metadata -> $2::text IS NULL)');
+  });
+
+  it('should compare numbers only when the field holds a number', () => {
+    const { sql, params } = translate({ version: { $gte: 2, $lt: 5 } });
+
+    expect(sql).toBe(
+      "(CASE WHEN jsonb_typeof(metadata -> $2::text) = 'number' THEN (metadata -> $2::text)::numeric END) >= $3" +
+      " AND (CASE WHEN jsonb_typeof(metadata -> $2::text) = 'number' THEN (metadata -> $2::text)::numeric END) < $4"
+    );
+    expect(params).toEqual(['namespace', 'version', 2, 5]);
+  });
+
+  it('should nest $and and $or', () => {
+    const { sql } = translate({
+      projectId: 'p1',
+      $or: [{ type: 'design' }, { $and: [{ type: 'context' }, { version: { $gt: 1 } }] }]
+    });
+
+    expect(sql).toBe(
+      'COALESCE(metadata -> $2::text @> $3::jsonb, FALSE) AND (COALESCE(metadata -> $4::text @> $5::jsonb, FALSE)' +
+      " OR (COALESCE(metadata -> $6::text @> $7::jsonb, FALSE) AND (CASE WHEN jsonb_typeof(metadata -> $8::text) = 'number'" +
+      ' THEN (metadata -> $8::text)::numeric END) > $9))'
+    );
+  });
+
+  it('should match everything for an empty filter', () => {
+    expect(translate({}).sql).toBe('TRUE');
+    expect(translate({ $or: [] }).sql).toBe('TRUE');
+  });
+
+  it('should reject unsupported operators', () => {
+    expect(() => translate({ title: { $regex: 'api' } })).toThrow('Unsupported filter operator: $regex');
+  });
+});
+
+describe('PgVectorStore.query', () => {
+  const queryWith = async (filter?: Record<string, unknown>, vector = [1, 0, 0]) => {
+    const store = new PgVectorStore('postgres://localhost/unused');
+    const query = jest.fn().mockResolvedValue({ rows: [] });
+    (store as unknown as { pool: { query: jest.Mock } }).pool = { query } as never;
+
+    await store.query({ vector, topK: 50, filter });
+    return query.mock.calls[0][0] as string;
+  };
+
+  it('should let the HNSW index order an unfiltered search', async () => {
+    expect(await queryWith()).toContain('ORDER BY embedding <=> $3::vector');
+  });
+
+  it('should sort filtered searches exactly instead of through the index', async () => {
+    expect(await queryWith({ projectId: { $eq: 'p1' } })).toContain('ORDER BY (embedding <=> $5::vector) + 0');
+  });
+
+  it('should list by metadata without ordering by distance for a zero vector', async () => {
+    const sql = await queryWith({ projectId: { $eq: 'p1' } }, [0, 0, 0]);
+
+    expect(sql).toContain('ORDER BY created_at');
+    expect(sql).not.toContain('<=>');
+  });
+});
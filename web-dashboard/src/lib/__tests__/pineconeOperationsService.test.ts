@@ -0,0 +1,37 @@
+import { embeddingService } from '../embeddingService';
+import { HnswVectorStore } from '../hnswVectorStore';
+import { pineconeOperationsService } from '../pineconeOperationsService';
+import { setVectorStore } from '../vectorStore';
+
+jest.mock('../embeddingService');
+
+describe('Re-embedding stale vectors', () => {
+  beforeEach(() => {
+    Object.defineProperty(embeddingService, 'modelId', { value: 'model-b', configurable: true });
+    Object.defineProperty(embeddingService, 'dimensions', { value: 3, configurable: true });
+    (embeddingService.modelOf as jest.Mock).mockReturnValue('model-b');
+    (embeddingService.generateEmbeddingsBatch as jest.Mock).mockImplementation(
+      async (texts: string[]) => texts.map(() => [0, 0, 1])
+    );
+  });
+
+  it('should get past more than a page of vectors without text', async () => {
+    const store = new HnswVectorStore();
+    setVectorStore(store);
+    await store.upsert([
+      ...Array.from({ length: 1200 }, (_, i) => ({ id: `empty:${i}`, values: [1, 0, 0], metadata: { embeddingModel: 'model-a' } })),
+      { id: 'design:p1', values: [0, 1, 0], metadata: { embeddingModel: 'model-a', title: 'Design', content: 'API gateway' } },
+      { id: 'tasks:p1', values: [0, 1, 0], metadata: { title: 'Tasks', content: 'Build the API' } }
+    ]);
+
+    expect(await pineconeOperationsService.reembedStaleVectors()).toEqual({ reembedded: 2, skipped: 1200 });
+
+    const { records: fetched } = await store.fetch(['design:p1', 'empty:0']);
+    expect(fetched['design:p1'].metadata?.embeddingModel).toBe('model-b');
+    expect(fetched['empty:0'].values).toEqual([1, 0, 0]);
+    expect(fetched['empty:0'].metadata?.embeddingModel).toBe('model-a');
+
+    // Skipped vectors aren't picked up again until the model changes
+    expect(await pineconeOperationsService.reembedStaleVectors()).toEqual({ reembedded: 0, skipped: 0 });
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Repository, SqliteStorageBackend, TeamMemberRecord, TeamRecord } from '../storage';
+
+describe('SqliteStorageBackend', () => {
+  let directory: string;
+  let backend: SqliteStorageBackend;
+  let teams: Repository<TeamRecord>;
+  let members: Repository<TeamMemberRecord>;
+
+  const team = (id: string, overrides: Partial<TeamRecord> = {}): TeamRecord => ({
+    id,
+    name: `Team ${id}`,
+    ownerId: 'user-1',
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  const member = (id: string, overrides: Partial<TeamMemberRecord> = {}): TeamMemberRecord => ({
+    id,
+    teamId: 'team-1',
+    userId: `user-${id}`,
+    email: `${id}@example.com`,
+    role: 'viewer',
+    status: 'active',
+    invitedBy: 'user-1',
+    invitedAt: '2025-01-01T00:00:00.000Z',
+    joinedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    backend = new SqliteStorageBackend(path.join(directory, 'nested', 'storage.db'));
+    teams = new Repository<TeamRecord>(backend, 'teams');
+    members = new Repository<TeamMemberRecord>(backend, 'teamMembers');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store and read back a record', async () => {
+    await teams.put(team('team-1', { description: 'Core team' }));
+
+    expect(await teams.get('team-1')).toEqual(team('team-1', { description: 'Core team' }));
+    expect(await teams.get('missing')).toBeNull();
+  });
+
+  it('should replace a record put again under the same id', async () => {
+    await teams.put(team('team-1'));
+    await teams.put(team('team-1', { name: 'Renamed' }));
+
+    expect((await teams.get('team-1'))?.name).toBe('Renamed');
+    expect(await teams.list()).toHaveLength(1);
+  });
+
+  it('should keep collections apart', async () => {
+    await teams.put(team('shared-id'));
+
+    expect(await members.get('shared-id')).toBeNull();
+    expect(await members.list()).toEqual([]);
+  });
+
+  it('should list every record matching all filter fields in insertion order', async () => {
+    await members.put(member('a', { role: 'admin' }));
+    await members.put(member('b'));
+    await members.put(member('c', { teamId: 'team-2' }));
+    await members.put(member('d', { status: 'pending' }));
+
+    expect((await members.list()).map(record => record.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect((await members.list({ teamId: 'team-1' })).map(record => record.id)).toEqual(['a', 'b', 'd']);
+    expect((await members.list({ teamId: 'team-1', status: 'active' })).map(record => record.id)).toEqual(['a', 'b']);
+    expect(await members.list({ email: 'nobody@example.com' })).toEqual([]);
+  });
+
+  it('should filter on boolean fields', async () => {
+    await teams.put(team('active'));
+    await teams.put(team('archived', { isActive: false }));
+
+    expect((await teams.list({ isActive: true })).map(record => record.id)).toEqual(['active']);
+    expect((await teams.list({ isActive: false })).map(record => record.id)).toEqual(['archived']);
+  });
+
+  it('should reject filter fields that are not plain identifiers', async () => {
+    await expect(backend.list('teams', { "name') OR 1=1 --": 'x' })).rejects.toThrow('Invalid filter field');
+  });
+
+  it('should find the first matching record or null', async () => {
+    await members.put(member('a', { email: 'same@example.com' }));
+    await members.put(member('b', { email: 'same@example.com' }));
+
+    expect((await members.findOne({ email: 'same@example.com' }))?.id).toBe('a');
+    expect(await members.findOne({ email: 'other@example.com' })).toBeNull();
+  });
+
+  it('should report whether a delete removed anything', async () => {
+    await teams.put(team('team-1'));
+
+    expect(await teams.delete('team-1')).toBe(true);
+    expect(await teams.delete('team-1')).toBe(false);
+    expect(await teams.get('team-1')).toBeNull();
+  });
+
+  it('should keep records across reopening the file', async () => {
+    await teams.put(team('team-1'));
+
+    const reopened = new Repository<TeamRecord>(new SqliteStorageBackend(path.join(directory, 'nested', 'storage.db')), 'teams');
+    expect(await reopened.get('team-1')).toEqual(team('team-1'));
+  });
+});
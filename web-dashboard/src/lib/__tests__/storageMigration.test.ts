@@ -0,0 +1,180 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+type Metadata = Record<string, unknown>;
+
+// Pinecone namespaces by name, each mapping vector ids to metadata
+const mockNamespaces: Record<string, Record<string, Metadata>> = {};
+
+jest.mock('../pinecone', () => ({
+  PINECONE_INDEX_NAME: 'test-index',
+  getPineconeClient: () => ({
+    index: () => ({
+      namespace: (name: string) => {
+        const records = () => mockNamespaces[name] || {};
+        return {
+          listPaginated: async ({ limit, paginationToken }: { limit: number; paginationToken?: string }) => {
+            const ids = Object.keys(records());
+            const start = Number(paginationToken || 0);
+            const next = start + limit < ids.length ? String(start + limit) : undefined;
+            return { vectors: ids.slice(start, start + limit).map(id => ({ id })), pagination: next ? { next } : undefined };
+          },
+          fetch: async (ids: string[]) => ({
+            records: Object.fromEntries(
+              ids.filter(id => records()[id]).map(id => [id, { id, values: [], metadata: records()[id] }])
+            )
+          })
+        };
+      }
+    })
+  })
+}));
+
+jest.mock('../secureConfig', () => ({
+  encryptApiKey: (apiKey: string) => `encrypted:${apiKey}`
+}));
+
+describe('Storage migration', () => {
+  let directory: string;
+  let migration: typeof import('../storageMigration');
+  let storage: import('../storage').StorageService;
+
+  const toRecord = (namespace: string, id: string, metadata: Metadata) =>
+    migration.NAMESPACE_MIGRATIONS.find(entry => entry.namespace === namespace)!.toRecord(id, metadata);
+
+  beforeEach(async () => {
+    for (const name of Object.keys(mockNamespaces)) {
+      delete mockNamespaces[name];
+    }
+
+    directory = mkdtempSync(path.join(os.tmpdir(), 'storage-migration-test-'));
+    process.env.STORAGE_BACKEND = 'sqlite';
+    process.env.STORAGE_SQLITE_PATH = path.join(directory, 'storage.db');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    // A fresh StorageService singleton per test, on this test's database file
+    jest.resetModules();
+    migration = await import('../storageMigration');
+    storage = (await import('../storage')).StorageService.getInstance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.STORAGE_BACKEND;
+    delete process.env.STORAGE_SQLITE_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('user API configs', () => {
+    it('should encrypt legacy plain-text API keys', () => {
+      expect(toRecord('user-api-configs', 'user-config-u1', {
+        userId: 'u1',
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey: 'sk-plain',
+        timestamp: '2025-01-01T00:00:00.000Z'
+      })).toEqual({
+        id: 'user-config-u1',
+        userId: 'u1',
+        provider: 'openai',
+        model: 'gpt-4o',
+        baseUrl: undefined,
+        encryptedApiKey: 'encrypted:sk-plain',
+        updatedAt: '2025-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should keep keys that are already encrypted as they are', () => {
+      const record = toRecord('user-api-configs', 'user-config-u1', { userId: 'u1', encryptedApiKey: 'abc:def', apiKey: 'sk-plain' });
+
+      expect(record).toMatchObject({ encryptedApiKey: 'abc:def' });
+    });
+
+    it('should skip configs without a key, subscriptions and other ids', () => {
+      expect(toRecord('user-api-configs', 'user-config-u1', { userId: 'u1' })).toBeNull();
+      expect(toRecord('user-api-configs', 'user-config-u1', { userId: 'u1', type: 'user_subscription', apiKey: 'x' })).toBeNull();
+      expect(toRecord('user-api-configs', 'subscription-u1', { userId: 'u1', apiKey: 'x' })).toBeNull();
+      expect(toRecord('user-api-configs', 'user-config-u1', { apiKey: 'x' })).toBeNull();
+    });
+  });
+
+  describe('malformed JSON', () => {
+    it('should skip applications and questions whose JSON does not parse', () => {
+      expect(toRecord('applications', 'application-a1', { applicationData: '{"id": ' })).toBeNull();
+      expect(toRecord('applications', 'application-a1', { applicationData: '{"status":"pending"}' })).toBeNull();
+      expect(toRecord('application-questions', 'q1', { questionData: 'not json' })).toBeNull();
+    });
+
+    it('should keep applications whose JSON parses', () => {
+      expect(toRecord('applications', 'application-a1', { applicationData: '{"id":"a1","status":"pending"}' }))
+        .toEqual({ id: 'a1', status: 'pending' });
+    });
+
+    it('should drop malformed blog post tags and notification metadata but keep the record', () => {
+      expect(toRecord('blog-posts', 'post-1', { title: 'Hello', tags: '[broken' })).toMatchObject({ id: 'post-1', title: 'Hello', tags: [] });
+      expect(toRecord('user_notifications', 'n1', { userId: 'u1', message: 'Hi', metadata: '{oops' }))
+        .toMatchObject({ id: 'n1', userId: 'u1', message: 'Hi', metadata: undefined });
+    });
+  });
+
+  describe('migrateNamespacesToStorage', () => {
+    it('should count migrated, existing and skipped records', async () => {
+      mockNamespaces.teams = {
+        'team-1': { name: 'One', ownerId: 'u1', isActive: true },
+        'team-2': { name: 'Two', ownerId: 'u1', isActive: true }
+      };
+      mockNamespaces.user_notifications = {
+        n1: { userId: 'u1', message: 'Hi' },
+        n2: { message: 'No recipient' }
+      };
+      await storage.teams.put({ id: 'team-2', name: 'Kept', ownerId: 'u1', isActive: true, createdAt: '', updatedAt: '' });
+
+      const results = await migration.migrateNamespacesToStorage();
+
+      expect(results.find(result => result.namespace === 'teams')).toMatchObject({ migrated: 1, existing: 1, skipped: 0 });
+      expect(results.find(result => result.namespace === 'user_notifications')).toMatchObject({ migrated: 1, existing: 0, skipped: 1 });
+      expect((await storage.teams.get('team-2'))?.name).toBe('Kept');
+      expect(await storage.notifications.get('n2')).toBeNull();
+    });
+
+    it('should replace existing records when overwrite is set', async () => {
+      mockNamespaces.teams = { 'team-1': { name: 'From Pinecone', ownerId: 'u1', isActive: true } };
+      await storage.teams.put({ id: 'team-1', name: 'Kept', ownerId: 'u1', isActive: true, createdAt: '', updatedAt: '' });
+
+      const results = await migration.migrateNamespacesToStorage({ overwrite: true });
+
+      expect(results.find(result => result.namespace === 'teams')).toMatchObject({ migrated: 1, existing: 0 });
+      expect((await storage.teams.get('team-1'))?.name).toBe('From Pinecone');
+    });
+
+    it('should store applications under their own id rather than the Pinecone id', async () => {
+      mockNamespaces.applications = { 'application-a1': { applicationData: '{"id":"a1","projectId":"p1"}' } };
+
+      await migration.migrateNamespacesToStorage();
+
+      expect(await storage.applications.get('a1')).toEqual({ id: 'a1', projectId: 'p1' });
+      expect(await storage.applications.get('application-a1')).toBeNull();
+    });
+
+    it('should page through namespaces larger than one page', async () => {
+      mockNamespaces.team_members = Object.fromEntries(
+        Array.from({ length: 250 }, (_, i) => [`member-${i}`, { teamId: 'team-1', userId: `u${i}`, email: `u${i}@example.com` }])
+      );
+
+      const results = await migration.migrateNamespacesToStorage();
+
+      expect(results.find(result => result.namespace === 'team_members')).toMatchObject({ migrated: 250 });
+      expect(await storage.teamMembers.list({ teamId: 'team-1' })).toHaveLength(250);
+    });
+
+    it('should be safe to run again', async () => {
+      mockNamespaces.teams = { 'team-1': { name: 'One', ownerId: 'u1', isActive: true } };
+
+      await migration.migrateNamespacesToStorage();
+      const results = await migration.migrateNamespacesToStorage();
+
+      expect(results.find(result => result.namespace === 'teams')).toMatchObject({ migrated: 0, existing: 1 });
+    });
+  });
+});
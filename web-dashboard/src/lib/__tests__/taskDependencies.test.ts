@@ -0,0 +1,117 @@
+import { analyzeTaskDependencies } from '../taskDependencies';
+
+const tasks = (...lines: string[]) => lines.join('\n');
+
+describe('analyzeTaskDependencies', () => {
+  const plan = tasks(
+    '# Implementation Plan',
+    '- [x] 1. Set up the project',
+    '- [ ] 2. Build the data model',
+    '  - _Depends: 1_',
+    '- [ ] 3. Build the API',
+    '  - _Depends: 2_',
+    '  - [ ] 3.1 Add the endpoints',
+    '  - [ ] 3.2 Add authentication',
+    '    - _Depends: 3.1_',
+    '- [ ] 4. Write the docs',
+    '  - _Depends: 1_',
+    '- [ ] 5. Release',
+    '  - _Depends: 3, 4_'
+  );
+
+  it('should resolve dependencies into edges and dependents', () => {
+    const graph = analyzeTaskDependencies(plan);
+    const node = (id: string) => graph.nodes.find(candidate => candidate.id === id)!;
+
+    expect(graph.issues).toEqual([]);
+    expect(node('5').dependencies).toEqual(['3', '4']);
+    expect(node('1').dependents).toEqual(['2', '4']);
+    expect(node('3.1').parentId).toBe('3');
+    expect(graph.edges).toContainEqual({ from: '3.1', to: '3.2', critical: false });
+  });
+
+  it('should list unblocked tasks and what the rest are waiting for', () => {
+    const graph = analyzeTaskDependencies(plan);
+    const node = (id: string) => graph.nodes.find(candidate => candidate.id === id)!;
+
+    expect(graph.unblocked).toEqual(['2', '4']);
+    expect(node('1').status).toBe('completed');
+    expect(node('5').blockedBy).toEqual(['3', '4']);
+    // Subtasks also wait for their parent's dependencies
+    expect(node('3.1')).toMatchObject({ status: 'blocked', blockedBy: ['2'] });
+    expect(node('3.2').blockedBy.sort()).toEqual(['2', '3.1']);
+  });
+
+  it('should find the longest chain of remaining work as the critical path', () => {
+    const graph = analyzeTaskDependencies(plan);
+
+    expect(graph.criticalPath).toEqual(['2', '3', '5']);
+    expect(graph.edges.filter(edge => edge.critical)).toEqual([
+      { from: '2', to: '3', critical: true },
+      { from: '3', to: '5', critical: true }
+    ]);
+    expect(graph.nodes.filter(node => node.onCriticalPath).map(node => node.id)).toEqual(['2', '3', '5']);
+  });
+
+  it('should give each task the depth of its longest dependency chain', () => {
+    const depths = Object.fromEntries(analyzeTaskDependencies(plan).nodes.map(node => [node.id, node.depth]));
+
+    expect(depths).toMatchObject({ 1: 0, 2: 1, 3: 2, 4: 1, 5: 3 });
+  });
+
+  it('should report cycles and block the tasks in them', () => {
+    const graph = analyzeTaskDependencies(tasks(
+      '- [ ] 1. Start',
+      '- [ ] 2. Ping',
+      '  - _Depends: 3_',
+      '- [ ] 3. Pong',
+      '  - _Depends: 2_',
+      '- [ ] 4. After',
+      '  - _Depends: 3_'
+    ));
+
+    expect(graph.issues).toEqual([{
+      type: 'cycle',
+      taskId: '2',
+      message: 'Tasks 2 → 3 → 2 depend on each other in a cycle',
+      relatedTaskIds: ['2', '3']
+    }]);
+    expect(graph.nodes.filter(node => node.inCycle).map(node => node.id)).toEqual(['2', '3']);
+    expect(graph.unblocked).toEqual(['1']);
+    expect(graph.criticalPath).not.toContain('2');
+  });
+
+  it('should report references to missing tasks and self-dependencies without making edges', () => {
+    const graph = analyzeTaskDependencies(tasks(
+      '- [ ] 1. Start',
+      '  - _Depends: 1_',
+      '- [ ] 2. Next',
+      '  - _Depends: 1, 7.3_'
+    ));
+
+    expect(graph.issues).toEqual([
+      { type: 'self-dependency', taskId: '1', message: 'Task 1 depends on itself', relatedTaskIds: [] },
+      { type: 'missing-task', taskId: '2', message: 'Task 2 depends on task 7.3, which does not exist', relatedTaskIds: ['7.3'] }
+    ]);
+    expect(graph.edges).toEqual([{ from: '1', to: '2', critical: true }]);
+  });
+
+  it('should report duplicate task numbers', () => {
+    const graph = analyzeTaskDependencies(tasks('- [ ] 1. First', '- [ ] 1. Again'));
+
+    expect(graph.issues.map(issue => issue.type)).toEqual(['duplicate-number']);
+    expect(graph.nodes).toHaveLength(1);
+  });
+
+  it('should accept "None" and trailing dots in dependency lists', () => {
+    const graph = analyzeTaskDependencies(tasks(
+      '- [ ] 1. Start',
+      '  - _Depends: None_',
+      '- [ ] 2. Next',
+      '  - _Depends on: task 1._'
+    ));
+
+    expect(graph.issues).toEqual([]);
+    expect(graph.edges).toEqual([{ from: '1', to: '2', critical: true }]);
+  });
+});
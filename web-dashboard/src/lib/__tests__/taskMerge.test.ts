@@ -0,0 +1,123 @@
+import { mergeTasksMarkdown } from '../taskMerge';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('mergeTasksMarkdown', () => {
+  const base = lines(
+    '# Implementation Plan',
+    '',
+    '- [ ] 1. Set up the project',
+    '  - Create the repository',
+    '  - _Requirements: 1.1_',
+    '',
+    '- [ ] 2. Build the API',
+    '  - Add the REST endpoints',
+    '',
+    '- [ ] 3. Write the docs'
+  );
+
+  it('should combine edits to different tasks', () => {
+    const local = base.replace('Create the repository', 'Create the monorepo');
+    const remote = base.replace('Add the REST endpoints', 'Add the GraphQL endpoints');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome).toMatchObject({ mode: 'semantic', success: true, taskConflicts: [] });
+    expect(outcome.mergedContent).toBe(
+      base.replace('Create the repository', 'Create the monorepo').replace('Add the REST endpoints', 'Add the GraphQL endpoints')
+    );
+  });
+
+  it('should keep a completion from one side alongside an edit from the other', () => {
+    const local = base.replace('- [ ] 2. Build the API', '- [x] 2. Build the API');
+    const remote = base.replace('Add the REST endpoints', 'Add the REST endpoints and tests');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.mergedCompletions).toEqual(['2']);
+    expect(outcome.mergedContent).toContain('- [x] 2. Build the API\n  - Add the REST endpoints and tests');
+  });
+
+  it('should union completions made on different sides', () => {
+    const local = base.replace('- [ ] 1.', '- [x] 1.');
+    const remote = base.replace('- [ ] 3.', '- [x] 3.');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.mergedCompletions).toEqual(['1', '3']);
+    expect(outcome.mergedContent).toBe(base.replace('- [ ] 1.', '- [x] 1.').replace('- [ ] 3.', '- [x] 3.'));
+  });
+
+  it('should keep an uncheck when the other side left the box alone', () => {
+    const checkedBase = base.replace('- [ ] 1.', '- [x] 1.');
+    const local = base;
+
+    expect(mergeTasksMarkdown(local, checkedBase, checkedBase).mergedContent).toContain('- [ ] 1. Set up the project');
+  });
+
+  it('should let a checked box win without a base', () => {
+    const outcome = mergeTasksMarkdown(base, base.replace('- [ ] 3.', '- [x] 3.'));
+
+    expect(outcome).toMatchObject({ mode: 'semantic', success: true, mergedCompletions: ['3'] });
+    expect(outcome.mergedContent).toContain('- [x] 3. Write the docs');
+  });
+
+  it('should report conflicting edits to the same task with the fields that differ', () => {
+    const local = base.replace('1. Set up the project', '1. Set up the monorepo');
+    const remote = base.replace('1. Set up the project', '1. Bootstrap the project');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.taskConflicts).toEqual([
+      expect.objectContaining({ taskId: '1', fields: ['title'], lineNumber: 3 })
+    ]);
+    expect(outcome.mergedLines.slice(2, 7)).toEqual([
+      '<<<<<<< LOCAL', '- [ ] 1. Set up the monorepo', '=======', '- [ ] 1. Bootstrap the project', '>>>>>>> REMOTE'
+    ]);
+  });
+
+  it('should fall back to a textual merge when tasks were reordered', () => {
+    const reordered = lines(
+      '# Implementation Plan',
+      '',
+      '- [ ] 2. Build the API',
+      '  - Add the REST endpoints',
+      '',
+      '- [ ] 1. Set up the project',
+      '  - Create the repository',
+      '  - _Requirements: 1.1_',
+      '',
+      '- [ ] 3. Write the docs'
+    );
+
+    const outcome = mergeTasksMarkdown(reordered, base.replace('- [ ] 3.', '- [x] 3.'), base);
+
+    expect(outcome.mode).toBe('textual');
+    expect(outcome.fallbackReason).toBe('Task order differs at position 1 (2 local, 1 remote)');
+    expect(outcome.success).toBe(true);
+    expect(outcome.mergedContent).toBe(reordered.replace('- [ ] 3.', '- [x] 3.'));
+  });
+
+  it('should fall back to a textual merge when one side added a task', () => {
+    const local = `${base}\n\n- [ ] 4. Release`;
+    const remote = base.replace('- [ ] 1.', '- [x] 1.');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome).toMatchObject({ mode: 'textual', success: true, fallbackReason: 'Task count differs (4 local, 3 remote)' });
+    expect(outcome.mergedContent).toBe(`${base.replace('- [ ] 1.', '- [x] 1.')}\n\n- [ ] 4. Release`);
+  });
+
+  it('should fall back to a textual merge when one side deleted a task', () => {
+    const local = base.replace('\n\n- [ ] 3. Write the docs', '');
+    const remote = base.replace('- [ ] 1.', '- [x] 1.');
+
+    const outcome = mergeTasksMarkdown(local, remote, base);
+
+    expect(outcome).toMatchObject({ mode: 'textual', success: true, fallbackReason: 'Task count differs (2 local, 3 remote)' });
+    expect(outcome.mergedContent).toBe(local.replace('- [ ] 1.', '- [x] 1.'));
+  });
+});
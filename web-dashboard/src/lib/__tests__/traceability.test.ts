@@ -0,0 +1,121 @@
+import { buildTraceabilityMatrix, parseRequirementsMarkdown } from '../traceability';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('parseRequirementsMarkdown', () => {
+  it('should read requirement ids, titles, user stories and numbered criteria', () => {
+    const requirements = parseRequirementsMarkdown(lines(
+      '# Requirements Document',
+      '',
+      '### Requirement 1: Sign in',
+      '**User Story:** As a user, I want to sign in, so that my work is saved',
+      '#### Acceptance Criteria',
+      '1. WHEN credentials are valid THEN the system SHALL sign the user in',
+      '2. WHEN credentials are invalid THEN the system SHALL show an error',
+      '',
+      '**Requirement 2.1: Export**',
+      '- **Acceptance Criteria**',
+      '  1. The system SHALL export to CSV',
+      '- **Priority:** High',
+      '  3. Not a criterion',
+      '',
+      '## Non-functional requirements',
+      '1. Not part of any requirement'
+    ));
+
+    expect(requirements).toEqual([
+      {
+        id: '1',
+        title: 'Sign in',
+        userStory: 'As a user, I want to sign in, so that my work is saved',
+        criteria: [
+          { id: '1.1', text: 'WHEN credentials are valid THEN the system SHALL sign the user in', line: 6 },
+          { id: '1.2', text: 'WHEN credentials are invalid THEN the system SHALL show an error', line: 7 }
+        ],
+        line: 3
+      },
+      {
+        id: '2.1',
+        title: 'Export',
+        criteria: [{ id: '2.1.1', text: 'The system SHALL export to CSV', line: 11 }],
+        line: 9
+      }
+    ]);
+  });
+});
+
+describe('buildTraceabilityMatrix', () => {
+  const requirements = lines(
+    '### Requirement 1: Sign in',
+    '#### Acceptance Criteria',
+    '1. Valid credentials sign in',
+    '2. Invalid credentials show an error',
+    '### Requirement 2: Export',
+    '#### Acceptance Criteria',
+    '1. Export to CSV',
+    '### Requirement 3: Audit log',
+    '### Requirement 4: Themes'
+  );
+
+  const tasks = lines(
+    '- [x] 1. Build the sign-in form',
+    '  - _Requirements: 1.1, 1.2_',
+    '- [ ] 2. Add error messages',
+    '  - _Requirements: 1.2_',
+    '- [x] 3. Export to CSV',
+    '  - _Requirements: 2_',
+    '- [ ] 4. Polish',
+    '  - _Requirements: 9, 1.7, All_'
+  );
+
+  it('should trace tasks to requirements and their acceptance criteria', () => {
+    const matrix = buildTraceabilityMatrix(requirements, tasks);
+    const trace = (id: string) => matrix.requirements.find(candidate => candidate.requirement.id === id)!;
+
+    expect(trace('1').taskIds).toEqual(['1', '2']);
+    expect(trace('1').criteria.map(criterion => criterion.taskIds)).toEqual([['1'], ['1', '2']]);
+    expect(trace('2').taskIds).toEqual(['3']);
+    expect(trace('2').criteria[0].taskIds).toEqual([]);
+  });
+
+  it('should derive each requirement status from its tasks', () => {
+    const matrix = buildTraceabilityMatrix(requirements, tasks);
+
+    expect(matrix.requirements.map(trace => [trace.requirement.id, trace.status])).toEqual([
+      ['1', 'in-progress'],
+      ['2', 'complete'],
+      ['3', 'untraced'],
+      ['4', 'untraced']
+    ]);
+    expect(matrix.complete).toEqual(['2']);
+  });
+
+  it('should list untraced requirements and the coverage', () => {
+    const matrix = buildTraceabilityMatrix(requirements, tasks);
+
+    expect(matrix.untraced).toEqual(['3', '4']);
+    expect(matrix.coverage).toBe(50);
+  });
+
+  it('should report references to unknown requirements but not broad ones', () => {
+    const matrix = buildTraceabilityMatrix(requirements, tasks);
+
+    expect(matrix.unknownReferences).toEqual([
+      { taskId: '4', taskTitle: 'Polish', reference: '9' },
+      { taskId: '4', taskTitle: 'Polish', reference: '1.7' }
+    ]);
+  });
+
+  it('should prefer a requirement over a criterion with the same id', () => {
+    const matrix = buildTraceabilityMatrix(
+      lines('### Requirement 3', '#### Acceptance Criteria', '1. First', '### Requirement 3.1'),
+      lines('- [ ] 1. Task', '  - _Requirements: 3.1_')
+    );
+
+    expect(matrix.requirements.map(trace => [trace.requirement.id, trace.taskIds])).toEqual([['3', []], ['3.1', ['1']]]);
+  });
+
+  it('should report no coverage without requirements', () => {
+    expect(buildTraceabilityMatrix('', tasks)).toMatchObject({ requirements: [], coverage: 0 });
+  });
+});
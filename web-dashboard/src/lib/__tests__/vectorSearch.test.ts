@@ -6,6 +6,10 @@ import { pineconeOperationsService } from '../pineconeOperationsService';
 jest.mock('../embeddingService');
 jest.mock('../pineconeOperationsService');
 
+const actualEmbeddingService = jest.requireActual<typeof import('../embeddingService')>('../embeddingService');
+const actualPineconeOperationsService =
+  jest.requireActual<typeof import('../pineconeOperationsService')>('../pineconeOperationsService');
+
 describe('Vector Search Implementation', () => {
   const mockProjectId = 'test-project-123';
   const mockAnalysisType = 'technical';
@@ -41,10 +45,15 @@ describe('Vector Search Implementation', () => {
       const mockAnalysisData = { summary: 'Test analysis' };
       const mockFallbackEmbedding = new Array(1024).fill(0.05);
 
-      (embeddingService.generateAnalysisEmbedding as jest.Mock).mockRejectedValue(new Error('API Error'));
+      (embeddingService.generateEmbeddingWithFallback as jest.Mock).mockRejectedValue(new Error('API Error'));
       (embeddingService.generateFallbackEmbedding as jest.Mock).mockReturnValue(mockFallbackEmbedding);
 
-      const result = await embeddingService.generateAnalysisEmbedding(mockAnalysisData, mockAnalysisType);
+      // The module is mocked; run the real method against the mocked embedding calls
+      const result = await actualEmbeddingService.EmbeddingService.prototype.generateAnalysisEmbedding.call(
+        embeddingService,
+        mockAnalysisData,
+        mockAnalysisType
+      );
 
       expect(result).toEqual(mockFallbackEmbedding);
     });
@@ -178,7 +187,8 @@ describe('Vector Search Implementation', () => {
       (embeddingService.generateEmbeddingWithFallback as jest.Mock).mockResolvedValue(mockEmbedding);
       (pineconeOperationsService.query as jest.Mock).mockResolvedValue(mockResults);
 
-      const result = await pineconeOperationsService.searchAnalysisContent(
+      const result = await actualPineconeOperationsService.PineconeOperationsService.prototype.searchAnalysisContent.call(
+        pineconeOperationsService,
         mockQuery,
         mockProjectId,
         ['technical'],
@@ -211,8 +221,10 @@ describe('Vector Search Implementation', () => {
         projectInfo: []
       };
 
-      (analysisVectorService.getAnalysisContext as jest.Mock).mockResolvedValue(mockContext);
-      (analysisVectorService.formatContextForAnalysis as jest.Mock).mockReturnValue('Formatted context');
+      (embeddingService.generateEmbeddingWithFallback as jest.Mock).mockResolvedValue(new Array(1024).fill(0.1));
+      (pineconeOperationsService.searchAnalysisContent as jest.Mock).mockResolvedValue({ matches: [] });
+      (pineconeOperationsService.getRelatedAnalyses as jest.Mock).mockResolvedValue({ matches: [] });
+      (pineconeOperationsService.query as jest.Mock).mockResolvedValue({ matches: [] });
 
       const result = await analysisVectorService.getAnalysisContext(
         mockProjectId,
@@ -0,0 +1,65 @@
+import { sign } from 'jsonwebtoken';
+import { getBearerToken, signVSCodeToken, verifyVSCodeToken, VSCODE_TOKEN_TTL_SECONDS, vscodeTokenUser } from '../vscodeToken';
+
+describe('vscodeToken', () => {
+  const user = { userId: 'user_1', email: 'ada@example.com', name: 'Ada Lovelace' };
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  it('should verify a token it signed and return its claims', () => {
+    const issued = signVSCodeToken(user);
+    const claims = verifyVSCodeToken(issued.token);
+
+    expect(claims).toMatchObject({ ...user, type: 'vscode' });
+    expect(claims!.exp - claims!.iat).toBe(VSCODE_TOKEN_TTL_SECONDS);
+    expect(issued.expiresAt).toBe(new Date(claims!.exp * 1000).toISOString());
+  });
+
+  it('should reject expired tokens', () => {
+    const token = sign({ ...user, type: 'vscode', iat: now() - 120, exp: now() - 60 }, 'test-secret');
+
+    expect(verifyVSCodeToken(token)).toBeNull();
+  });
+
+  it('should reject tokens that are not VS Code tokens', () => {
+    const token = sign({ ...user, type: 'session', iat: now(), exp: now() + 60 }, 'test-secret');
+
+    expect(verifyVSCodeToken(token)).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret and malformed tokens', () => {
+    const token = sign({ ...user, type: 'vscode', iat: now(), exp: now() + 60 }, 'other-secret');
+
+    expect(verifyVSCodeToken(token)).toBeNull();
+    expect(verifyVSCodeToken('not-a-token')).toBeNull();
+  });
+
+  it('should refuse to sign or verify without JWT_SECRET', () => {
+    const { token } = signVSCodeToken(user);
+    delete process.env.JWT_SECRET;
+
+    expect(() => signVSCodeToken(user)).toThrow('JWT_SECRET');
+    expect(() => verifyVSCodeToken(token)).toThrow('JWT_SECRET');
+  });
+
+  it('should read bearer tokens from the authorization header', () => {
+    expect(getBearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(getBearerToken('Basic abc')).toBeNull();
+    expect(getBearerToken(null)).toBeNull();
+  });
+
+  it('should name the token user after the Clerk profile', () => {
+    const clerkUser = { id: 'user_1', emailAddresses: [{ emailAddress: 'ada@example.com' }], firstName: 'Ada', lastName: 'Lovelace', username: 'ada' };
+
+    expect(vscodeTokenUser(clerkUser)).toEqual(user);
+    expect(vscodeTokenUser({ ...clerkUser, lastName: null }).name).toBe('ada');
+    expect(vscodeTokenUser({ ...clerkUser, lastName: null, username: null, emailAddresses: [] })).toEqual({ userId: 'user_1', email: '', name: 'User' });
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  applyTransform,
+  runWorkflow,
+  topologicalOrder,
+  validateWorkflow,
+  WorkflowGraphEdge,
+  WorkflowGraphNode,
+  WorkflowNodeEvent,
+  WorkflowValidationError
+} from '../workflowEngine';
+
+const edge = (source: string, target: string, sourceHandle?: string): WorkflowGraphEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle
+});
+
+describe('validateWorkflow', () => {
+  it('should reject an empty workflow', () => {
+    expect(validateWorkflow([], []).map(issue => issue.code)).toEqual(['empty-workflow']);
+  });
+
+  it('should report cycles, dangling edges, unconnected inputs and missing config', () => {
+    const nodes: WorkflowGraphNode[] = [
+      { id: 'in', type: 'input' },
+      { id: 'a', type: 'process', data: { label: 'Step A' } },
+      { id: 'b', type: 'process', data: { label: 'Step B' } },
+      { id: 'check', type: 'conditional', data: { condition: ' ' } },
+      { id: 'script', type: 'code' }
+    ];
+    const edges = [edge('in', 'a'), edge('a', 'b'), edge('b', 'a'), edge('in', 'gone'), edge('in', 'check')];
+
+    const issues = validateWorkflow(nodes, edges);
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ code: 'dangling-edge', nodeIds: ['in'] }),
+      expect.objectContaining({ code: 'cycle', message: 'Workflow contains a cycle through: Step A, Step B' }),
+      expect.objectContaining({ code: 'unconnected-input', nodeIds: ['script'] }),
+      expect.objectContaining({ code: 'missing-config', nodeIds: ['check'] }),
+      expect.objectContaining({ code: 'missing-config', nodeIds: ['script'] })
+    ]));
+    expect(issues).toHaveLength(5);
+  });
+
+  it('should accept a connected, acyclic graph', () => {
+    expect(validateWorkflow([{ id: 'in', type: 'input' }, { id: 'out', type: 'output' }], [edge('in', 'out')])).toEqual([]);
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('should order nodes after their sources', () => {
+    const nodes = ['out', 'b', 'a', 'in'].map(id => ({ id }));
+    const order = topologicalOrder(nodes, [edge('in', 'a'), edge('in', 'b'), edge('a', 'out'), edge('b', 'out')]);
+
+    expect(order.map(node => node.id)).toEqual(['in', 'a', 'b', 'out']);
+  });
+
+  it('should keep the original order among nodes that are ready together', () => {
+    expect(topologicalOrder(['c', 'a', 'b'].map(id => ({ id })), []).map(node => node.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('applyTransform', () => {
+  const items = [
+    { team: 'api', hours: 3, done: true },
+    { team: 'web', hours: 5, done: false },
+    { team: 'api', hours: 1, done: true }
+  ];
+
+  it('should map, filter and sort arrays', () => {
+    expect(applyTransform('map', items, { fields: { owner: 'team' } })).toEqual([{ owner: 'api' }, { owner: 'web' }, { owner: 'api' }]);
+    expect(applyTransform('filter', items, { field: 'done' })).toHaveLength(2);
+    expect(applyTransform('filter', items, { field: 'team', equals: 'web' })).toEqual([items[1]]);
+    expect((applyTransform('sort', items, { field: 'hours', order: 'desc' }) as typeof items).map(item => item.hours)).toEqual([5, 3, 1]);
+  });
+
+  it('should reduce and aggregate by group', () => {
+    expect(applyTransform('reduce', items, { field: 'hours', operation: 'sum' })).toBe(9);
+    expect(applyTransform('aggregate', items, { field: 'hours', operation: 'avg', groupBy: 'team' })).toEqual({ api: 2, web: 5 });
+  });
+
+  it('should pass non-array input through except for map', () => {
+    expect(applyTransform('sort', { a: 1 }, { field: 'a' })).toEqual({ a: 1 });
+    expect(applyTransform('map', { a: 1, b: 2 }, { fields: { x: 'b' } })).toEqual({ x: 2 });
+  });
+});
+
+describe('runWorkflow', () => {
+  const branching = (condition: string) => {
+    const nodes: WorkflowGraphNode[] = [
+      { id: 'in', type: 'input' },
+      { id: 'check', type: 'conditional', data: { condition } },
+      { id: 'big', type: 'code', data: { code: 'return input.value * 10;' } },
+      { id: 'small', type: 'code', data: { code: 'return input.value + 1;' } },
+      { id: 'bigOut', type: 'output', data: { label: 'Big' } },
+      { id: 'smallOut', type: 'output', data: { label: 'Small' } }
+    ];
+    const edges = [
+      edge('in', 'check'),
+      edge('check', 'big', 'true'),
+      edge('check', 'small', 'false'),
+      edge('big', 'bigOut'),
+      edge('small', 'smallOut')
+    ];
+    return { nodes, edges };
+  };
+
+  it('should only follow the branch the condition picks', async () => {
+    const { nodes, edges } = branching('input.value > 5');
+
+    const high = await runWorkflow(nodes, edges, { input: { value: 7 } });
+    const low = await runWorkflow(nodes, edges, { input: { value: 2 } });
+
+    expect(high.status).toBe('completed');
+    expect(high.outputs).toEqual({ Big: 70 });
+    expect(high.nodeResults.check.branch).toBe('true');
+    expect(high.nodeResults.small.status).toBe('skipped');
+    expect(high.nodeResults.smallOut.status).toBe('skipped');
+
+    expect(low.outputs).toEqual({ Small: 3 });
+    expect(low.nodeResults.check.branch).toBe('false');
+    expect(low.nodeResults.big.status).toBe('skipped');
+  });
+
+  it('should run a node reached from both a taken and an untaken branch', async () => {
+    const { nodes, edges } = branching('true');
+    const merged = [...nodes, { id: 'join', type: 'output', data: { label: 'Join' } }];
+
+    const result = await runWorkflow(merged, [...edges, edge('big', 'join'), edge('small', 'join')], { input: { value: 1 } });
+
+    expect(result.outputs.Join).toBe(10);
+  });
+
+  it('should report node events in order', async () => {
+    const events: WorkflowNodeEvent[] = [];
+    await runWorkflow(
+      [{ id: 'in', type: 'input' }, { id: 'out', type: 'output' }],
+      [edge('in', 'out')],
+      { input: 'hello', onNodeEvent: event => events.push(event) }
+    );
+
+    expect(events.map(event => `${event.nodeId}:${event.status}`)).toEqual(['in:running', 'in:completed', 'out:running', 'out:completed']);
+  });
+
+  it('should stop at the first failing node and skip the rest', async () => {
+    const result = await runWorkflow(
+      [
+        { id: 'in', type: 'input' },
+        { id: 'fail', type: 'code', data: { code: 'console.log("starting"); throw new Error("bad data");' } },
+        { id: 'out', type: 'output' }
+      ],
+      [edge('in', 'fail'), edge('fail', 'out')]
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.nodeResults.fail).toMatchObject({ status: 'failed', error: 'bad data', logs: ['starting'] });
+    expect(result.nodeResults.out.status).toBe('skipped');
+  });
+
+  it('should fail a code node that runs past the timeout', async () => {
+    const result = await runWorkflow(
+      [{ id: 'in', type: 'input' }, { id: 'loop', type: 'code', data: { code: 'while (true) {}' } }],
+      [edge('in', 'loop')],
+      { limits: { timeoutMs: 200, memoryMb: 64 } }
+    );
+
+    expect(result.nodeResults.loop).toMatchObject({ status: 'failed', error: 'Execution timed out after 200ms' });
+  });
+
+  it('should throw before running anything when the graph is invalid', async () => {
+    const onNodeEvent = jest.fn();
+
+    await expect(runWorkflow([{ id: 'out', type: 'output' }], [], { onNodeEvent })).rejects.toBeInstanceOf(WorkflowValidationError);
+    expect(onNodeEvent).not.toHaveBeenCalled();
+  });
+
+  it('should skip every node once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runWorkflow([{ id: 'in', type: 'input' }], [], { signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.nodeResults.in.status).toBe('skipped');
+  });
+});
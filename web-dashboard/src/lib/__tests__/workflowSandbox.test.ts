@@ -0,0 +1,84 @@
+import { runSandboxed, SandboxError } from '../workflowSandbox';
+
+describe('runSandboxed', () => {
+  const scope = { input: { items: [1, 2, 3] }, context: { nodeId: 'code-1' }, params: { factor: 2 } };
+  const expression = (source: string, limits?: { timeoutMs: number; memoryMb: number }) =>
+    runSandboxed(source, 'expression', scope, limits);
+  const fn = (source: string, limits?: { timeoutMs: number; memoryMb: number }) =>
+    runSandboxed(source, 'function', scope, limits);
+
+  it('should evaluate expressions against the input, context and params', async () => {
+    expect((await expression('input.items.length > 2 && context.nodeId === "code-1"')).result).toBe(true);
+    expect((await expression('data.items.map(item => item * params.factor)')).result).toEqual([2, 4, 6]);
+  });
+
+  it('should return a function body result with its console output', async () => {
+    const { result, logs } = await fn('console.log("total", input.items.length); return { sum: input.items.reduce((a, b) => a + b, 0) };');
+
+    expect(result).toEqual({ sum: 6 });
+    expect(logs).toEqual(['total 3']);
+  });
+
+  it('should await snippets that return a promise', async () => {
+    expect((await fn('return Promise.resolve(params.factor * 21);')).result).toBe(42);
+  });
+
+  it('should report errors thrown by the snippet with the logs so far', async () => {
+    const error = await fn('console.log("before"); throw new Error("boom");').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SandboxError);
+    expect(error.message).toBe('boom');
+    expect(error.logs).toEqual(['before']);
+  });
+
+  describe('escapes', () => {
+    it('should not reach the host Function constructor through input objects', async () => {
+      await expect(expression('input.constructor.constructor("return process")()')).rejects.toThrow(/Code generation from strings disallowed/);
+    });
+
+    it('should not reach the Function constructor through functions defined in the snippet', async () => {
+      await expect(expression('(() => {}).constructor("return this")()')).rejects.toThrow(/Code generation from strings disallowed/);
+    });
+
+    it('should not expose process, require or other Node globals', async () => {
+      expect((await expression('[typeof process, typeof require, typeof module, typeof Buffer, typeof setTimeout]')).result)
+        .toEqual(['undefined', 'undefined', 'undefined', 'undefined', 'undefined']);
+    });
+
+    it('should not allow eval', async () => {
+      await expect(expression('eval("1 + 1")')).rejects.toThrow(/Code generation from strings disallowed/);
+    });
+  });
+
+  describe('limits', () => {
+    it('should stop snippets that run past the timeout', async () => {
+      await expect(fn('while (true) {}', { timeoutMs: 200, memoryMb: 64 })).rejects.toThrow('Execution timed out after 200ms');
+    });
+
+    it('should stop snippets that exceed the memory limit', async () => {
+      const source = 'const chunks = []; while (true) { chunks.push(new Array(100000).fill(chunks.length)); }';
+
+      await expect(fn(source, { timeoutMs: 20000, memoryMb: 16 })).rejects.toThrow('Execution exceeded the 16MB memory limit');
+    }, 30000);
+
+    it('should report promises that never settle', async () => {
+      await expect(fn('return new Promise(() => {});')).rejects.toThrow('Execution returned a promise that never settled');
+    });
+
+    it('should reject input that cannot be serialised', async () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      await expect(runSandboxed('input', 'expression', { input: circular, context: {}, params: {} }))
+        .rejects.toThrow('Node input is not JSON-serialisable');
+    });
+
+    it('should stop when cancelled', async () => {
+      const controller = new AbortController();
+      const run = runSandboxed('while (true) {}', 'function', scope, { timeoutMs: 5000, memoryMb: 64 }, controller.signal);
+      controller.abort();
+
+      await expect(run).rejects.toThrow('Execution cancelled');
+    });
+  });
+});
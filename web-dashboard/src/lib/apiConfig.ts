@@ -1,18 +1,42 @@
 import { auth } from '@clerk/nextjs/server';
-import { getPineconeClient, PINECONE_INDEX_NAME } from '@/lib/pinecone';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { decryptApiKey } from '@/lib/secureConfig';
+import { StorageService } from '@/lib/storage';
 
 export interface ApiConfiguration {
   provider: string;
   apiKey: string;
   model: string;
   baseUrl?: string;
-  source: 'user' | 'environment' | 'none';
+  source: 'user' | 'environment' | 'global' | 'none';
+}
+
+/**
+ * Read the dashboard-wide configuration saved through /api/global-api-config
+ */
+async function getGlobalApiConfiguration(): Promise<ApiConfiguration | null> {
+  try {
+    const configPath = path.join(process.cwd(), '.ai-project', 'global-api-config.json');
+    const config = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    if (config.provider && config.apiKey && config.model) {
+      return {
+        provider: config.provider,
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl || undefined,
+        source: 'global'
+      };
+    }
+  } catch {
+    // No global configuration saved
+  }
+  return null;
 }
 
 /**
  * Get the current API configuration for the authenticated user
- * Priority: User personal API key > Environment variables > None
+ * Priority: User personal API key > Environment variables > Global config file > None
  */
 export async function getApiConfiguration(): Promise<ApiConfiguration> {
   const { userId } = await auth();
@@ -23,44 +47,25 @@ export async function getApiConfiguration(): Promise<ApiConfiguration> {
 
   try {
     // First, try to get user's personal API configuration
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-    
-    const queryResponse = await index.namespace('user-api-configs').query({
-      vector: new Array(1024).fill(0.1),
-      topK: 1,
-      filter: { userId: { $eq: userId } },
-      includeMetadata: true
-    });
+    const configData = await StorageService.getInstance().userApiConfigs.findOne({ userId });
 
-    if (queryResponse.matches && queryResponse.matches.length > 0) {
-      const metadata = queryResponse.matches[0].metadata;
-      if (metadata) {
-        const configData = metadata as any;
-        
-        // Decrypt API key if it's encrypted
-        let decryptedApiKey = '';
-        try {
-          if (configData.encryptedApiKey) {
-            decryptedApiKey = decryptApiKey(configData.encryptedApiKey);
-          } else if (configData.apiKey) {
-            // Legacy support for unencrypted keys
-            decryptedApiKey = configData.apiKey;
-          }
-        } catch (error) {
-          console.error('Failed to decrypt user API key:', error);
-          throw new Error('Failed to decrypt API key. Please re-enter your API key.');
-        }
+    if (configData) {
+      let decryptedApiKey = '';
+      try {
+        decryptedApiKey = decryptApiKey(configData.encryptedApiKey);
+      } catch (error) {
+        console.error('Failed to decrypt user API key:', error);
+        throw new Error('Failed to decrypt API key. Please re-enter your API key.');
+      }
 
-        if (configData.provider && decryptedApiKey && configData.model) {
-          return {
-            provider: configData.provider,
-            apiKey: decryptedApiKey,
-            model: configData.model,
-            baseUrl: configData.baseUrl,
-            source: 'user'
-          };
-        }
+      if (configData.provider && decryptedApiKey && configData.model) {
+        return {
+          provider: configData.provider,
+          apiKey: decryptedApiKey,
+          model: configData.model,
+          baseUrl: configData.baseUrl,
+          source: 'user'
+        };
       }
     }
   } catch (error) {
@@ -77,6 +82,12 @@ export async function getApiConfiguration(): Promise<ApiConfiguration> {
     };
   }
 
+  // Fallback to the global configuration file
+  const globalConfig = await getGlobalApiConfiguration();
+  if (globalConfig) {
+    return globalConfig;
+  }
+
   // No configuration found
   return {
     provider: '',
@@ -3,6 +3,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
+import { merge2, merge3, MergeOptions, MergeOutcome } from './diff3';
+import { mergeTasksMarkdown, TaskMergeConflict } from './taskMerge';
 
 export interface FileConflict {
   id: string;
@@ -37,13 +39,24 @@ export interface BackupInfo {
 export interface MergeResult {
   success: boolean;
   mergedContent: string;
+  // One entry per conflicting hunk; contents span all lines of the hunk
   conflicts: Array<{
     lineNumber: number;
     localContent: string;
     remoteContent: string;
     baseContent?: string;
+    baseLineNumber?: number;
   }>;
   warnings: string[];
+  mode?: 'semantic' | 'textual';
+  taskConflicts?: TaskMergeConflict[]; // Only for semantic task merges
+}
+
+// 'tasks' merges tasks.md task by task; 'auto' picks it for files named tasks.md
+export type MergeMode = 'auto' | 'textual' | 'tasks';
+
+export interface ConflictMergeOptions extends MergeOptions {
+  mode?: MergeMode;
 }
 
 /**
@@ -124,7 +137,8 @@ export class ConflictResolutionService extends EventEmitter {
     conflictId: string,
     resolution: 'local' | 'remote' | 'merge' | 'manual',
     manualContent?: string,
-    resolvedBy: string = 'user'
+    resolvedBy: string = 'user',
+    mergeOptions: ConflictMergeOptions = {}
   ): Promise<ConflictResolution> {
     const conflict = this.activeConflicts.get(conflictId);
     if (!conflict) {
@@ -145,7 +159,7 @@ export class ConflictResolutionService extends EventEmitter {
           resolvedContent = conflict.remoteContent;
           break;
         case 'merge':
-          const mergeResult = await this.performThreeWayMerge(conflict);
+          const mergeResult = await this.performThreeWayMerge(conflict, mergeOptions);
           if (!mergeResult.success) {
             throw new Error(`Automatic merge failed: ${mergeResult.warnings.join(', ')}`);
           }
@@ -188,86 +202,29 @@ export class ConflictResolutionService extends EventEmitter {
   }
 
   /**
-   * Perform three-way merge using base, local, and remote content
+   * Perform three-way merge using base, local, and remote content.
+   * Changes are aligned with a Myers diff so only overlapping hunks conflict, and
+   * task checkboxes in markdown are merged independently of the task text.
+   * tasks.md is merged per task unless the textual mode is requested.
    */
-  async performThreeWayMerge(conflict: FileConflict): Promise<MergeResult> {
+  async performThreeWayMerge(conflict: FileConflict, options: ConflictMergeOptions = {}): Promise<MergeResult> {
     const { localContent, remoteContent, baseContent } = conflict;
+    const { mode = 'auto', ...mergeOptions } = options;
+    const useTaskMerge = mode === 'tasks' || (mode === 'auto' && path.basename(conflict.relativePath) === 'tasks.md');
+
+    if (useTaskMerge) {
+      return this.performTaskMerge(conflict, mergeOptions);
+    }
+
+    mergeOptions.taskAware = mergeOptions.taskAware ?? conflict.relativePath.endsWith('.md');
 
     if (!baseContent) {
       // Fallback to two-way merge
-      return this.performTwoWayMerge(localContent, remoteContent);
+      return this.performTwoWayMerge(localContent, remoteContent, mergeOptions);
     }
 
     try {
-      const localLines = localContent.split('\n');
-      const remoteLines = remoteContent.split('\n');
-      const baseLines = baseContent.split('\n');
-
-      const mergedLines: string[] = [];
-      const conflicts: MergeResult['conflicts'] = [];
-      const warnings: string[] = [];
-
-      let localIndex = 0;
-      let remoteIndex = 0;
-      let baseIndex = 0;
-
-      while (localIndex < localLines.length || remoteIndex < remoteLines.length || baseIndex < baseLines.length) {
-        const localLine = localLines[localIndex] || '';
-        const remoteLine = remoteLines[remoteIndex] || '';
-        const baseLine = baseLines[baseIndex] || '';
-
-        // Simple line-by-line comparison
-        if (localLine === remoteLine) {
-          // Both sides have the same content
-          mergedLines.push(localLine);
-          localIndex++;
-          remoteIndex++;
-          baseIndex++;
-        } else if (localLine === baseLine) {
-          // Local unchanged, use remote
-          mergedLines.push(remoteLine);
-          localIndex++;
-          remoteIndex++;
-          baseIndex++;
-        } else if (remoteLine === baseLine) {
-          // Remote unchanged, use local
-          mergedLines.push(localLine);
-          localIndex++;
-          remoteIndex++;
-          baseIndex++;
-        } else {
-          // Conflict detected
-          conflicts.push({
-            lineNumber: mergedLines.length + 1,
-            localContent: localLine,
-            remoteContent: remoteLine,
-            baseContent: baseLine
-          });
-
-          // Add conflict markers
-          mergedLines.push('<<<<<<< LOCAL');
-          mergedLines.push(localLine);
-          mergedLines.push('=======');
-          mergedLines.push(remoteLine);
-          mergedLines.push('>>>>>>> REMOTE');
-
-          localIndex++;
-          remoteIndex++;
-          baseIndex++;
-        }
-      }
-
-      const success = conflicts.length === 0;
-      if (!success) {
-        warnings.push(`${conflicts.length} conflicts detected that require manual resolution`);
-      }
-
-      return {
-        success,
-        mergedContent: mergedLines.join('\n'),
-        conflicts,
-        warnings
-      };
+      return this.toMergeResult(merge3(localContent, baseContent, remoteContent, mergeOptions));
     } catch (error) {
       return {
         success: false,
@@ -279,44 +236,58 @@ export class ConflictResolutionService extends EventEmitter {
   }
 
   /**
-   * Perform simple two-way merge when base content is not available
+   * Perform two-way merge when base content is not available
    */
-  private performTwoWayMerge(localContent: string, remoteContent: string): MergeResult {
-    const localLines = localContent.split('\n');
-    const remoteLines = remoteContent.split('\n');
-    const mergedLines: string[] = [];
-    const conflicts: MergeResult['conflicts'] = [];
-
-    const maxLines = Math.max(localLines.length, remoteLines.length);
-
-    for (let i = 0; i < maxLines; i++) {
-      const localLine = localLines[i] || '';
-      const remoteLine = remoteLines[i] || '';
-
-      if (localLine === remoteLine) {
-        mergedLines.push(localLine);
-      } else {
-        // Conflict detected
-        conflicts.push({
-          lineNumber: i + 1,
-          localContent: localLine,
-          remoteContent: remoteLine
-        });
-
-        // Add conflict markers
-        mergedLines.push('<<<<<<< LOCAL');
-        mergedLines.push(localLine);
-        mergedLines.push('=======');
-        mergedLines.push(remoteLine);
-        mergedLines.push('>>>>>>> REMOTE');
-      }
+  private performTwoWayMerge(localContent: string, remoteContent: string, options: MergeOptions): MergeResult {
+    const result = this.toMergeResult(merge2(localContent, remoteContent, options));
+    if (result.conflicts.length > 0) {
+      result.warnings.push('No base version available; lines added on one side conflict with the other');
+    }
+    return result;
+  }
+
+  /**
+   * Merge tasks.md at the task level, falling back to a textual merge when the
+   * task lists no longer line up
+   */
+  private performTaskMerge(conflict: FileConflict, options: MergeOptions): MergeResult {
+    const outcome = mergeTasksMarkdown(conflict.localContent, conflict.remoteContent, conflict.baseContent, options);
+    const result = this.toMergeResult(outcome);
+
+    if (outcome.fallbackReason) {
+      result.warnings.push(`Task structure differs, merged as text: ${outcome.fallbackReason}`);
+    }
+    if (outcome.mergedCompletions.length > 0) {
+      result.warnings.push(`Merged completion state of tasks ${outcome.mergedCompletions.join(', ')}`);
+    }
+
+    return {
+      ...result,
+      mode: outcome.mode,
+      taskConflicts: outcome.mode === 'semantic' ? outcome.taskConflicts : undefined
+    };
+  }
+
+  private toMergeResult(outcome: MergeOutcome): MergeResult {
+    const warnings: string[] = [];
+    if (!outcome.success) {
+      warnings.push(`${outcome.conflicts.length} conflicts detected that require manual resolution`);
+    }
+    if (outcome.autoMergedTaskLines > 0) {
+      warnings.push(`${outcome.autoMergedTaskLines} task lines merged by checkbox state`);
     }
 
     return {
-      success: conflicts.length === 0,
-      mergedContent: mergedLines.join('\n'),
-      conflicts,
-      warnings: conflicts.length > 0 ? [`${conflicts.length} conflicts require manual resolution`] : []
+      success: outcome.success,
+      mergedContent: outcome.mergedContent,
+      conflicts: outcome.conflicts.map(hunk => ({
+        lineNumber: hunk.lineNumber,
+        localContent: hunk.local.join('\n'),
+        remoteContent: hunk.remote.join('\n'),
+        baseContent: hunk.base?.join('\n'),
+        baseLineNumber: hunk.baseLineNumber
+      })),
+      warnings
     };
   }
 
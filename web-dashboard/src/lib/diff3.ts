@@ -0,0 +1,441 @@
+// Line-based diff and three-way merge (diff3) for project documents.
+// Pure functions with no Node dependencies so they can run in the browser as well.
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  type: DiffOperation;
+  line: string;
+  oldLineNumber?: number; // 1-based, absent for inserted lines
+  newLineNumber?: number; // 1-based, absent for deleted lines
+}
+
+// A changed region: old[oldStart, oldEnd) was replaced by new[newStart, newEnd)
+export interface DiffHunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+export type ConflictMarkerStyle = 'git' | 'diff3' | 'none';
+
+export interface MergeOptions {
+  /**
+   * 'git' writes <<<<<<< / ======= / >>>>>>> around conflicting hunks, 'diff3' also
+   * includes the base section (|||||||), 'none' keeps the local side of each conflict.
+   */
+  markers?: ConflictMarkerStyle;
+  labels?: { local?: string; base?: string; remote?: string };
+  /** Merge task list lines (`- [ ] ...`) by checkbox state and text independently */
+  taskAware?: boolean;
+}
+
+export interface MergeConflict {
+  lineNumber: number;     // 1-based line of the conflict in the merged output
+  baseLineNumber?: number; // 1-based line of the conflicting region in the base
+  local: string[];
+  base?: string[];
+  remote: string[];
+}
+
+export interface MergeOutcome {
+  success: boolean;
+  mergedLines: string[];
+  mergedContent: string;
+  conflicts: MergeConflict[];
+  autoMergedTaskLines: number;
+}
+
+// Above this edit distance the diff gives up and reports one replaced block, keeping
+// the O(D²) trace memory bounded for files that were rewritten wholesale
+const MAX_EDIT_DISTANCE = 2000;
+
+const TASK_LINE_PATTERN = /^(\s*[-*+]\s+\[)([ xX-])(\]\s?)(.*)$/;
+
+/**
+ * Split text into lines, treating \r\n and \n alike
+ */
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Myers O(ND) diff returning the changed hunks between two line arrays.
+ * Common prefix and suffix are trimmed first since documents usually change locally.
+ */
+export function diffHunks(oldLines: string[], newLines: string[]): DiffHunk[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+
+  const matches = myersMatches(a, b);
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  // Matches are in increasing order; everything between two matches is one hunk
+  for (const [matchOld, matchNew] of [...matches, [a.length, b.length] as [number, number]]) {
+    if (matchOld > oldIndex || matchNew > newIndex) {
+      hunks.push({
+        oldStart: prefix + oldIndex,
+        oldEnd: prefix + matchOld,
+        newStart: prefix + newIndex,
+        newEnd: prefix + matchNew
+      });
+    }
+    oldIndex = matchOld + 1;
+    newIndex = matchNew + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * Full line-by-line diff, suitable for rendering a unified or side-by-side view
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  const pushEqualUntil = (oldEnd: number) => {
+    while (oldIndex < oldEnd) {
+      result.push({ type: 'equal', line: oldLines[oldIndex], oldLineNumber: oldIndex + 1, newLineNumber: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    }
+  };
+
+  for (const hunk of diffHunks(oldLines, newLines)) {
+    pushEqualUntil(hunk.oldStart);
+    for (; oldIndex < hunk.oldEnd; oldIndex++) {
+      result.push({ type: 'delete', line: oldLines[oldIndex], oldLineNumber: oldIndex + 1 });
+    }
+    for (; newIndex < hunk.newEnd; newIndex++) {
+      result.push({ type: 'insert', line: newLines[newIndex], newLineNumber: newIndex + 1 });
+    }
+  }
+  pushEqualUntil(oldLines.length);
+
+  return result;
+}
+
+/**
+ * Three-way merge of local and remote edits against their common base.
+ * Non-overlapping changes from either side are combined; overlapping hunks that
+ * differ become conflicts.
+ */
+export function merge3(local: string, base: string, remote: string, options: MergeOptions = {}): MergeOutcome {
+  const localLines = splitLines(local);
+  const baseLines = splitLines(base);
+  const remoteLines = splitLines(remote);
+
+  type SideHunk = DiffHunk & { side: 'local' | 'remote' };
+  const hunks: SideHunk[] = [
+    ...diffHunks(baseLines, localLines).map(hunk => ({ ...hunk, side: 'local' as const })),
+    ...diffHunks(baseLines, remoteLines).map(hunk => ({ ...hunk, side: 'remote' as const }))
+  ].sort((x, y) => x.oldStart - y.oldStart || x.oldEnd - y.oldEnd);
+
+  const builder = new MergeBuilder(options);
+  let baseIndex = 0;
+
+  while (hunks.length > 0) {
+    const group = [hunks.shift() as SideHunk];
+    const regionStart = group[0].oldStart;
+    let regionEnd = group[0].oldEnd;
+
+    // Pull in every hunk touching the region. Insertions at the region boundary are
+    // included because their order relative to the other side's edit is ambiguous.
+    while (
+      hunks.length > 0 &&
+      (hunks[0].oldStart < regionEnd ||
+        (hunks[0].oldStart === regionEnd && (hunks[0].oldStart === hunks[0].oldEnd || regionStart === regionEnd)))
+    ) {
+      const next = hunks.shift() as SideHunk;
+      regionEnd = Math.max(regionEnd, next.oldEnd);
+      group.push(next);
+    }
+
+    builder.pushStable(baseLines.slice(baseIndex, regionStart));
+
+    const sideLines = (side: 'local' | 'remote', lines: string[]): string[] => {
+      const sideHunks = group.filter(hunk => hunk.side === side);
+      if (sideHunks.length === 0) {
+        return baseLines.slice(regionStart, regionEnd);
+      }
+      const first = sideHunks[0];
+      const last = sideHunks[sideHunks.length - 1];
+      return lines.slice(
+        first.newStart - (first.oldStart - regionStart),
+        last.newEnd + (regionEnd - last.oldEnd)
+      );
+    };
+
+    const regionBase = baseLines.slice(regionStart, regionEnd);
+    const regionLocal = sideLines('local', localLines);
+    const regionRemote = sideLines('remote', remoteLines);
+
+    if (!group.some(hunk => hunk.side === 'remote')) {
+      builder.pushStable(regionLocal);
+    } else if (!group.some(hunk => hunk.side === 'local')) {
+      builder.pushStable(regionRemote);
+    } else {
+      builder.pushRegion(regionLocal, regionRemote, regionBase, regionStart + 1);
+    }
+
+    baseIndex = regionEnd;
+  }
+
+  builder.pushStable(baseLines.slice(baseIndex));
+  return builder.finish();
+}
+
+/**
+ * Merge without a common ancestor. Lines present on only one side cannot be told
+ * apart from deletions on the other, so every differing hunk is a conflict unless
+ * task-aware merging can reconcile it (checked boxes win, since without a base an
+ * unchecked box is indistinguishable from one nobody has touched yet).
+ */
+export function merge2(local: string, remote: string, options: MergeOptions = {}): MergeOutcome {
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const builder = new MergeBuilder(options);
+  let localIndex = 0;
+
+  for (const hunk of diffHunks(localLines, remoteLines)) {
+    builder.pushStable(localLines.slice(localIndex, hunk.oldStart));
+    builder.pushRegion(
+      localLines.slice(hunk.oldStart, hunk.oldEnd),
+      remoteLines.slice(hunk.newStart, hunk.newEnd)
+    );
+    localIndex = hunk.oldEnd;
+  }
+
+  builder.pushStable(localLines.slice(localIndex));
+  return builder.finish();
+}
+
+/**
+ * Accumulates merged output, resolving or marking conflicting regions
+ */
+class MergeBuilder {
+  private lines: string[] = [];
+  private conflicts: MergeConflict[] = [];
+  private autoMergedTaskLines = 0;
+
+  constructor(private options: MergeOptions) {}
+
+  pushStable(lines: string[]): void {
+    this.lines.push(...lines);
+  }
+
+  pushRegion(local: string[], remote: string[], base?: string[], baseLineNumber?: number): void {
+    if (arraysEqual(local, remote)) {
+      this.lines.push(...local);
+      return;
+    }
+
+    if (this.options.taskAware) {
+      const merged = mergeTaskLines(local, remote, base);
+      if (merged) {
+        this.lines.push(...merged);
+        this.autoMergedTaskLines += merged.length;
+        return;
+      }
+    }
+
+    this.conflicts.push({
+      lineNumber: this.lines.length + 1,
+      baseLineNumber,
+      local,
+      base,
+      remote
+    });
+
+    const markers = this.options.markers || 'git';
+    if (markers === 'none') {
+      this.lines.push(...local);
+      return;
+    }
+
+    const labels = {
+      local: 'LOCAL',
+      base: 'BASE',
+      remote: 'REMOTE',
+      ...this.options.labels
+    };
+
+    this.lines.push(`<<<<<<< ${labels.local}`, ...local);
+    if (markers === 'diff3' && base) {
+      this.lines.push(`||||||| ${labels.base}`, ...base);
+    }
+    this.lines.push('=======', ...remote, `>>>>>>> ${labels.remote}`);
+  }
+
+  finish(): MergeOutcome {
+    return {
+      success: this.conflicts.length === 0,
+      mergedLines: this.lines,
+      mergedContent: this.lines.join('\n'),
+      conflicts: this.conflicts,
+      autoMergedTaskLines: this.autoMergedTaskLines
+    };
+  }
+}
+
+/**
+ * Reconcile regions made of the same task lines where the sides changed checkbox
+ * state and text independently. Returns null when the lines don't line up.
+ */
+function mergeTaskLines(local: string[], remote: string[], base?: string[]): string[] | null {
+  if (local.length !== remote.length || (base && base.length !== local.length)) {
+    return null;
+  }
+
+  const merged: string[] = [];
+
+  for (let i = 0; i < local.length; i++) {
+    const localTask = parseTaskLine(local[i]);
+    const remoteTask = parseTaskLine(remote[i]);
+    const baseTask = base ? parseTaskLine(base[i]) : null;
+
+    if (!localTask || !remoteTask || (base && !baseTask)) {
+      if (local[i] === remote[i]) {
+        merged.push(local[i]);
+        continue;
+      }
+      return null;
+    }
+
+    let state: string | null;
+    let text: string | null;
+
+    if (baseTask) {
+      state = pickChanged(baseTask.state, localTask.state, remoteTask.state);
+      text = pickChanged(baseTask.text, localTask.text, remoteTask.text);
+    } else {
+      // Without a base, a checked box is assumed to be the newer state
+      state = localTask.state === remoteTask.state
+        ? localTask.state
+        : (localTask.state !== ' ' ? localTask.state : remoteTask.state);
+      text = localTask.text === remoteTask.text ? localTask.text : null;
+    }
+
+    if (state === null || text === null) {
+      return null;
+    }
+
+    const source = localTask.state === state ? localTask : remoteTask;
+    merged.push(`${source.prefix}${state}${source.suffix}${text}`);
+  }
+
+  return merged;
+}
+
+interface TaskLineParts {
+  prefix: string;
+  state: string;
+  suffix: string;
+  text: string;
+}
+
+function parseTaskLine(line: string): TaskLineParts | null {
+  const match = line.match(TASK_LINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { prefix: match[1], state: match[2].toLowerCase(), suffix: match[3], text: match[4] };
+}
+
+// Standard three-way rule for a single value: whichever side changed it wins
+function pickChanged(base: string, local: string, remote: string): string | null {
+  if (local === remote) return local;
+  if (local === base) return remote;
+  if (remote === base) return local;
+  return null;
+}
+
+function arraysEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Myers shortest edit script, returned as the list of matched [oldIndex, newIndex]
+ * pairs in increasing order
+ */
+function myersMatches(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    // Only diagonals -d-1..d+1 are read when backtracking from step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [];
+  }
+
+  // Walk the trace backwards, collecting the diagonal (matching) moves
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const base = d + 1; // index of diagonal 0 in the trimmed snapshot
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[base + k - 1] < previous[base + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : previous[base + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return matches.reverse();
+}
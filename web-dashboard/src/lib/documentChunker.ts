@@ -0,0 +1,193 @@
+// Splits project documents into heading-scoped chunks for search and embedding
+import * as crypto from 'crypto';
+
+export interface DocumentChunk {
+  id: string; // `${document}#${hash}`
+  hash: string; // Hash of the embedded text, so an unchanged chunk keeps its id across edits
+  document: string; // 'requirements', 'design', 'tasks' or 'context/<file name>'
+  documentTitle: string;
+  headings: string[]; // Heading path from the top of the document, outermost first
+  text: string;
+  overlap: string; // End of the previous chunk, embedded along with this one for context
+}
+
+// The spec documents every project has, and the titles their chunks are embedded under
+export const SPEC_DOCUMENTS: Array<{ key: 'requirements' | 'design' | 'tasks'; title: string }> = [
+  { key: 'requirements', title: 'Requirements' },
+  { key: 'design', title: 'Design' },
+  { key: 'tasks', title: 'Tasks' }
+];
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// A top-level checklist item ("- [ ] 2. Build the API"); its indented sub-items belong to it
+const TASK_PATTERN = /^[-*+]\s+\[[ xX]\]/;
+const MAX_CHUNK_LENGTH = 1500;
+const OVERLAP_LENGTH = 200;
+
+interface Section {
+  headings: string[];
+  lines: string[];
+}
+
+interface Block {
+  text: string;
+  isTask: boolean;
+}
+
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [];
+  const headingStack: string[] = [];
+  let current: Section = { headings: [], lines: [] };
+  let inFence = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (!heading) {
+      current.lines.push(line);
+      continue;
+    }
+
+    sections.push(current);
+    const level = heading[1].length;
+    headingStack.splice(level - 1);
+    // Skipped levels (# then ###) leave no gaps in the path
+    headingStack.push(heading[2]);
+    current = { headings: headingStack.filter(Boolean), lines: [] };
+  }
+
+  sections.push(current);
+  return sections;
+}
+
+/**
+ * Paragraphs, plus each top-level task with everything indented under it. Blank lines
+ * inside code fences and inside a task don't end the block.
+ */
+function splitBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let current: Block = { text: '', isTask: false };
+  let inFence = false;
+
+  const flush = () => {
+    const text = current.text.trim();
+    if (text) {
+      blocks.push({ text, isTask: current.isTask });
+    }
+    current = { text: '', isTask: false };
+  };
+  const append = (line: string) => {
+    current.text = current.text ? `${current.text}\n${line}` : line;
+  };
+
+  for (const line of lines) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && TASK_PATTERN.test(line)) {
+      flush();
+      current.isTask = true;
+      append(line);
+      continue;
+    }
+
+    if (current.isTask && !inFence && line.trim() && !/^\s/.test(line)) {
+      flush();
+    }
+
+    if (!line.trim() && !inFence && !current.isTask) {
+      flush();
+      continue;
+    }
+
+    append(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+// Packs paragraphs into pieces of at most MAX_CHUNK_LENGTH; each task is a piece of its own
+// and a block longer than the limit stays whole
+function packBlocks(blocks: Block[]): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+
+  for (const block of blocks) {
+    if (piece && (block.isTask || piece.length + block.text.length + 2 > MAX_CHUNK_LENGTH)) {
+      pieces.push(piece);
+      piece = '';
+    }
+
+    if (block.isTask) {
+      pieces.push(block.text);
+    } else {
+      piece = piece ? `${piece}\n\n${block.text}` : block.text;
+    }
+  }
+
+  if (piece) {
+    pieces.push(piece);
+  }
+  return pieces;
+}
+
+// The last OVERLAP_LENGTH characters of text, starting at a word boundary
+function tail(text: string): string {
+  if (text.length <= OVERLAP_LENGTH) {
+    return text;
+  }
+  const start = text.length - OVERLAP_LENGTH;
+  const space = text.indexOf(' ', start);
+  return text.slice(space === -1 ? start : space + 1);
+}
+
+/**
+ * The text a chunk is embedded as: where it sits in the document, the end of the chunk
+ * before it, then the chunk itself
+ */
+export function chunkEmbeddingText(chunk: Pick<DocumentChunk, 'documentTitle' | 'headings' | 'overlap' | 'text'>): string {
+  return [
+    [chunk.documentTitle, ...chunk.headings].join(' › '),
+    chunk.overlap,
+    chunk.text
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * One chunk per markdown section (text under a heading, up to the next heading) and per
+ * top-level task, with long sections split between paragraphs. Headings inside code fences
+ * are ignored.
+ *
+ * Chunk ids hash the chunk's embedded text, so editing one section changes the ids of that
+ * chunk and the one after it (through the overlap) and no others.
+ */
+export function chunkDocument(document: string, documentTitle: string, content: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const seen = new Map<string, number>();
+  let previous = '';
+
+  for (const section of splitSections(content)) {
+    for (const text of packBlocks(splitBlocks(section.lines))) {
+      const chunk = { documentTitle, headings: section.headings, overlap: previous ? tail(previous) : '', text };
+      let hash = crypto.createHash('sha256').update(`${document}\0${chunkEmbeddingText(chunk)}`).digest('hex').slice(0, 16);
+
+      // Repeated identical sections still need distinct ids
+      const count = (seen.get(hash) || 0) + 1;
+      seen.set(hash, count);
+      if (count > 1) {
+        hash = `${hash}-${count}`;
+      }
+
+      chunks.push({ id: `${document}#${hash}`, hash, document, ...chunk });
+      previous = text;
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,148 @@
+// Content-addressed version history for project documents
+import path from 'path';
+import { SupabaseService, DocumentVersion, DocumentVersionSource } from './supabase';
+import { hashContent } from './localHistory';
+
+export type { DocumentVersion, DocumentVersionSource };
+export { hashContent };
+
+export interface DocumentSnapshot extends DocumentVersion {
+  content: string;
+}
+
+export interface RecordSnapshotInput {
+  projectId: string;
+  document: string;
+  content: string;
+  author: string;
+  authorName?: string;
+  source: DocumentVersionSource;
+  message?: string;
+  // Content the save replaced; recorded first when the document has no history yet
+  previousContent?: string;
+}
+
+export type SpecDocuments = Partial<Record<'requirements' | 'design' | 'tasks', string>>;
+
+export const HISTORY_SOURCES: DocumentVersionSource[] = ['dashboard', 'vscode', 'ai-generation', 'restore', 'import'];
+
+/**
+ * History key for a context document, e.g. "context/api-notes.md"
+ */
+export function contextDocumentKey(fileName: string): string {
+  return `context/${path.basename(fileName)}`;
+}
+
+/**
+ * Records every save of a project document in Supabase. Snapshots are stored once
+ * per content hash and versions point at them, so history is cheap to keep in full.
+ */
+export class DocumentHistoryService {
+  private static instance: DocumentHistoryService;
+
+  static getInstance(): DocumentHistoryService {
+    if (!DocumentHistoryService.instance) {
+      DocumentHistoryService.instance = new DocumentHistoryService();
+    }
+    return DocumentHistoryService.instance;
+  }
+
+  /**
+   * Record a saved document. Returns null when the content matches the latest
+   * version or history could not be written - saving the document itself must
+   * never fail because of history.
+   */
+  async recordSnapshot(input: RecordSnapshotInput): Promise<DocumentVersion | null> {
+    try {
+      const supabase = SupabaseService.getInstance();
+      const [latest] = await supabase.getDocumentVersions(input.projectId, input.document, 1);
+      let parentHash = latest?.content_hash ?? null;
+
+      // Keep what was there before history started, so the first save can be undone
+      if (!latest && input.previousContent && input.previousContent !== input.content) {
+        const baseline = await this.writeVersion(input, input.previousContent, null, 'import', 'Content before history was recorded');
+        parentHash = baseline.content_hash;
+      }
+
+      const contentHash = hashContent(input.content);
+      if (contentHash === parentHash) {
+        return null;
+      }
+
+      const version = await this.writeVersion(input, input.content, parentHash, input.source, input.message);
+      console.log(`💾 Recorded ${input.document} version ${contentHash.substring(0, 8)} for project ${input.projectId} (${input.source})`);
+      return version;
+    } catch (error) {
+      console.error(`⚠️ Failed to record ${input.document} history for project ${input.projectId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record requirements, design and tasks written together, e.g. by AI generation
+   */
+  async recordSpecs(
+    projectId: string,
+    specs: SpecDocuments,
+    meta: Pick<RecordSnapshotInput, 'author' | 'authorName' | 'source' | 'message'>,
+    previous: SpecDocuments = {}
+  ): Promise<void> {
+    for (const document of ['requirements', 'design', 'tasks'] as const) {
+      const content = specs[document];
+      if (typeof content !== 'string') {
+        continue;
+      }
+      const previousContent = previous[document];
+      await this.recordSnapshot({
+        projectId,
+        document,
+        content,
+        ...meta,
+        previousContent: previousContent && !previousContent.startsWith('[CHUNKED:') ? previousContent : undefined
+      });
+    }
+  }
+
+  async getHistory(projectId: string, document?: string, limit = 50): Promise<DocumentVersion[]> {
+    return SupabaseService.getInstance().getDocumentVersions(projectId, document, limit);
+  }
+
+  async getSnapshot(projectId: string, versionId: string): Promise<DocumentSnapshot | null> {
+    const supabase = SupabaseService.getInstance();
+    const version = await supabase.getDocumentVersion(projectId, versionId);
+    if (!version) {
+      return null;
+    }
+
+    const content = await supabase.getDocumentBlob(version.content_hash);
+    if (content === null) {
+      throw new Error(`Snapshot content missing for ${version.content_hash}`);
+    }
+
+    return { ...version, content };
+  }
+
+  private async writeVersion(
+    input: RecordSnapshotInput,
+    content: string,
+    parentHash: string | null,
+    source: DocumentVersionSource,
+    message?: string
+  ): Promise<DocumentVersion> {
+    const supabase = SupabaseService.getInstance();
+    const contentHash = hashContent(content);
+
+    await supabase.saveDocumentBlob(contentHash, content);
+    return supabase.createDocumentVersion({
+      project_id: input.projectId,
+      document: input.document,
+      content_hash: contentHash,
+      parent_hash: parentHash,
+      author: input.author,
+      author_name: input.authorName ?? null,
+      source,
+      message: message ?? null,
+      size: Buffer.byteLength(content, 'utf-8')
+    });
+  }
+}
@@ -0,0 +1,119 @@
+// Embedding models the EmbeddingService can run on
+import * as crypto from 'crypto';
+
+/**
+ * A model that turns text into vectors. The id names the model (and its version) so
+ * vectors from different models are never compared or cached together.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Google's text-embedding-004 (768 dimensions) over the Gemini API
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'gemini:text-embedding-004';
+
+  constructor(private apiKey: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(async text => {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'models/text-embedding-004',
+          content: {
+            parts: [{ text }]
+          }
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gemini embedding API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.embedding.values as number[];
+    }));
+  }
+}
+
+/**
+ * A sentence-transformer run on the CPU with ONNX Runtime. The model is downloaded from the
+ * Hugging Face hub on first use and cached locally; after that no network is needed.
+ */
+export class OnnxEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private extractor: Promise<(texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): unknown }>> | null = null;
+
+  constructor(private model: string) {
+    this.id = `onnx:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.extractor) {
+      this.extractor = import('@huggingface/transformers').then(async ({ pipeline }) => {
+        console.log(`📦 Loading local embedding model ${this.model}`);
+        const extractor = await pipeline('feature-extraction', this.model, { dtype: 'q8' });
+        return (batch: string[], options: { pooling: 'mean'; normalize: boolean }) => extractor(batch, options);
+      });
+      // A failed load (e.g. no network for the first download) is retried on the next call
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+
+    const extract = await this.extractor;
+    const output = await extract(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
+
+/**
+ * Feature hashing over words and word pairs: no model, no network, and the same text always
+ * gives the same vector. Texts sharing vocabulary land close together, which is enough for
+ * tests and for keyword-like search when nothing better is available.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'hashing-v1';
+
+  constructor(private dimensions: number) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const digest = crypto.createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      // The sign bit keeps unrelated features from piling up in the same direction
+      vector[bucket] += (digest[4] & 1) === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+/**
+ * Pads with zeros or truncates to the configured dimension. Padding leaves cosine
+ * similarity unchanged; truncation is only meaningful for models trained for it.
+ */
+export function fitDimensions(values: number[], dimensions: number): number[] {
+  if (values.length === dimensions) {
+    return values;
+  }
+  return values.length > dimensions
+    ? values.slice(0, dimensions)
+    : [...values, ...new Array(dimensions - values.length).fill(0)];
+}
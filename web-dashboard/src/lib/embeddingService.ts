@@ -1,4 +1,12 @@
+import * as crypto from 'crypto';
 import { PineconeUtils } from './pineconeUtils';
+import {
+  EmbeddingProvider,
+  fitDimensions,
+  GeminiEmbeddingProvider,
+  HashingEmbeddingProvider,
+  OnnxEmbeddingProvider
+} from './embeddingProviders';
 
 // Embedding cache to avoid regenerating embeddings for the same text
 interface EmbeddingCache {
@@ -9,6 +17,13 @@ interface EmbeddingCache {
   };
 }
 
+/**
+ * Embeddings from the configured model. EMBEDDING_PROVIDER picks it: 'gemini' (needs
+ * GOOGLE_AI_API_KEY), 'onnx' (a local sentence-transformer, EMBEDDING_MODEL, default
+ * Xenova/all-MiniLM-L6-v2) or 'hashing' (deterministic, offline). Without it, Gemini is used
+ * when its key is set and hashing otherwise. Every vector is fitted to EMBEDDING_DIMENSIONS
+ * (default 1024), which has to match the vector store.
+ */
 export class EmbeddingService {
   private static instance: EmbeddingService;
   private cache: EmbeddingCache = {};
@@ -16,7 +31,22 @@ export class EmbeddingService {
   private readonly MAX_CACHE_SIZE = 1000; // Maximum number of cached embeddings
   private readonly BATCH_SIZE = 10; // Batch size for embedding generation
 
-  private constructor() {}
+  readonly dimensions: number;
+  private provider: EmbeddingProvider;
+  private fallbackProvider: HashingEmbeddingProvider;
+  // Which model produced a vector, when it wasn't the configured one (fallback vectors)
+  private vectorModels = new WeakMap<number[], string>();
+
+  private constructor() {
+    this.dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '1024', 10);
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Invalid EMBEDDING_DIMENSIONS "${process.env.EMBEDDING_DIMENSIONS}"`);
+    }
+
+    this.provider = EmbeddingService.createProvider(this.dimensions);
+    this.fallbackProvider = new HashingEmbeddingProvider(this.dimensions);
+    console.log(`🧮 Embedding model: ${this.modelId}`);
+  }
 
   static getInstance(): EmbeddingService {
     if (!EmbeddingService.instance) {
@@ -25,18 +55,62 @@ export class EmbeddingService {
     return EmbeddingService.instance;
   }
 
+  private static createProvider(dimensions: number): EmbeddingProvider {
+    const configured = process.env.EMBEDDING_PROVIDER;
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+
+    switch (configured || (apiKey ? 'gemini' : 'hashing')) {
+      case 'gemini':
+        if (!apiKey) {
+          throw new Error('GOOGLE_AI_API_KEY environment variable is required for Gemini embeddings');
+        }
+        return new GeminiEmbeddingProvider(apiKey);
+      case 'onnx':
+        return new OnnxEmbeddingProvider(process.env.EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2');
+      case 'hashing':
+        return new HashingEmbeddingProvider(dimensions);
+      default:
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${configured}" - use "gemini", "onnx" or "hashing"`);
+    }
+  }
+
+  /**
+   * Identity of the configured model and dimension. Stored vectors record it, so a model
+   * change can be detected and the vectors re-embedded.
+   */
+  get modelId(): string {
+    return `${this.provider.id}:${this.dimensions}`;
+  }
+
   /**
-   * Generate a cache key for the given text
+   * The model behind a vector this service returned
+   */
+  modelOf(vector: number[]): string {
+    return this.vectorModels.get(vector) || this.modelId;
+  }
+
+  /**
+   * Generate a cache key for the given text. The model is part of the key, so a vector
+   * cached for one model is never returned for another.
    */
   private generateCacheKey(text: string): string {
-    // Use a simple hash for the cache key
-    let hash = 0;
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(36);
+    return crypto.createHash('sha256').update(`${this.modelId}\n${text}`).digest('hex');
+  }
+
+  /**
+   * Run the model on texts, fitted to the configured dimension
+   */
+  private async embedTexts(texts: string[]): Promise<number[][]> {
+    const embeddings = await PineconeUtils.executeWithRetry(
+      () => this.provider.embed(texts),
+      {
+        operationType: 'embedding',
+        maxRetries: 3,
+        timeout: 120000, // 2 minutes for embedding generation
+        baseDelay: 2000 // 2 seconds base delay for embedding operations
+      }
+    );
+    return embeddings.map(embedding => fitDimensions(embedding, this.dimensions));
   }
 
   /**
@@ -93,50 +167,7 @@ export class EmbeddingService {
 
     console.log('🔄 Generating new embedding for text length:', text.length);
 
-    const embedding = await PineconeUtils.executeWithRetry(
-      async () => {
-        // Use Gemini for embeddings with enhanced timeout
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${process.env.GOOGLE_AI_API_KEY}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'models/text-embedding-004',
-            content: {
-              parts: [{ text }]
-            }
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Gemini embedding API error: ${response.status} ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const geminiEmbedding = data.embedding.values;
-        
-        // Pad Gemini's 768-dimensional embedding to 1024 dimensions to match Pinecone index
-        if (geminiEmbedding.length < 1024) {
-          const paddedEmbedding = [...geminiEmbedding];
-          while (paddedEmbedding.length < 1024) {
-            paddedEmbedding.push(0);
-          }
-          return paddedEmbedding;
-        } else if (geminiEmbedding.length > 1024) {
-          // Truncate if somehow longer than expected
-          return geminiEmbedding.slice(0, 1024);
-        }
-        
-        return geminiEmbedding;
-      },
-      {
-        operationType: 'embedding',
-        maxRetries: 3,
-        timeout: 120000, // 2 minutes for embedding generation
-        baseDelay: 2000 // 2 seconds base delay for embedding operations
-      }
-    );
+    const [embedding] = await this.embedTexts([text]);
 
     // Cache the result
     if (useCache) {
@@ -192,9 +223,7 @@ export class EmbeddingService {
         const batchIndices = uncachedIndices.slice(i, i + this.BATCH_SIZE);
         
         batchOperations.push(async () => {
-          const batchEmbeddings = await Promise.all(
-            batch.map(text => this.generateEmbedding(text, false)) // Don't use cache for batch generation
-          );
+          const batchEmbeddings = await this.embedTexts(batch);
           
           // Cache the results
           if (useCache) {
@@ -237,11 +266,11 @@ export class EmbeddingService {
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; hitRate: number; oldestEntry: number; newestEntry: number } {
+  getCacheStats(): { model: string; size: number; hitRate: number; oldestEntry: number; newestEntry: number } {
     const entries = Object.values(this.cache);
-    const now = Date.now();
     
     return {
+      model: this.modelId,
       size: entries.length,
       hitRate: 0, // This would need to be tracked separately
       oldestEntry: entries.length > 0 ? Math.min(...entries.map(e => e.timestamp)) : 0,
@@ -258,21 +287,14 @@ export class EmbeddingService {
   }
 
   /**
-   * Generate fallback embedding for error cases
+   * Generate fallback embedding for error cases. It comes from the offline hashing model,
+   * and is recorded as such so it gets re-embedded once the configured model is reachable.
    */
   generateFallbackEmbedding(text: string): number[] {
     console.warn('⚠️ Using fallback embedding generation');
-    
-    const hash = text.split('').reduce((a, b) => {
-      a = ((a << 5) - a) + b.charCodeAt(0);
-      return a & a;
-    }, 0);
-
-    // Create a 1024-dimensional vector to match Pinecone index
-    const vector = new Array(1024).fill(0);
-    for (let i = 0; i < 1024; i++) {
-      vector[i] = Math.sin(hash + i) * 0.1;
-    }
+
+    const vector = this.fallbackProvider.embedOne(text);
+    this.vectorModels.set(vector, `${this.fallbackProvider.id}:${this.dimensions}`);
     return vector;
   }
 
@@ -0,0 +1,73 @@
+// Client for the streaming enhanced specs route, shared by the project creation wizards
+import { readEventStream } from './eventStream';
+import type { LlmUsage } from './llmClient';
+
+export interface EnhancedSpecsResult {
+  success: boolean;
+  message: string;
+  specs: {
+    requirements: string;
+    design: string;
+    tasks: string;
+  };
+  tokenUsage: LlmUsage;
+}
+
+export type EnhancedSpecsSection = 'requirements' | 'design' | 'tasks';
+
+// Headers the model writes each section under, latest first
+const SECTION_MARKERS: Array<[string, EnhancedSpecsSection]> = [
+  ['## TASKS', 'tasks'],
+  ['## DESIGN', 'design'],
+  ['## REQUIREMENTS', 'requirements']
+];
+
+/**
+ * Generate and save a project's requirements, design and tasks. `onSection` is called as
+ * the model starts writing each section, so callers can show progress during the minute
+ * or so generation takes.
+ */
+export async function generateEnhancedSpecs(
+  projectId: string,
+  body: { enhancementData: unknown; projectProfile: unknown },
+  onSection?: (section: EnhancedSpecsSection) => void
+): Promise<EnhancedSpecsResult> {
+  const response = await fetch(`/api/projects/${projectId}/generate-enhanced-specs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred' }));
+    throw new Error(errorData.error || `HTTP ${response.status}: Failed to generate enhanced specifications`);
+  }
+
+  let result: EnhancedSpecsResult | null = null;
+  let streamError: string | null = null;
+  let output = '';
+  let section: EnhancedSpecsSection | undefined;
+
+  await readEventStream<EnhancedSpecsResult>(response, (event, data) => {
+    if (event === 'delta') {
+      output += data.text;
+      const current = SECTION_MARKERS.find(([marker]) => output.includes(marker))?.[1];
+      if (current && current !== section) {
+        section = current;
+        onSection?.(current);
+      }
+    } else if (event === 'done') {
+      result = data;
+    } else if (event === 'error') {
+      streamError = data.error;
+    }
+  });
+
+  if (!result) {
+    throw new Error(streamError || 'Failed to generate enhanced specifications');
+  }
+  return result;
+}
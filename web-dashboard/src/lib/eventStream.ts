@@ -0,0 +1,140 @@
+/**
+ * Server-sent event helpers shared by streaming API routes and the components
+ * that consume them.
+ *
+ * Routes stream when the client sends `Accept: text/event-stream` and otherwise
+ * keep returning plain JSON. A stream carries these events:
+ * - `delta`  { text } — the next chunk of model output
+ * - `status` { message } — progress notes between model calls
+ * - `done`   the same payload the JSON response would have returned
+ * - `error`  { error }
+ */
+
+export type EventStreamSend = (event: string, data: unknown) => void;
+
+/**
+ * Whether the caller asked for a streamed response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Build an SSE response around `run`. The signal handed to `run` aborts when the
+ * client disconnects or cancels, so it can be passed straight to llmClient.stream.
+ */
+export function createEventStreamResponse(
+  request: Request,
+  run: (send: EventStreamSend, signal: AbortSignal) => Promise<void>
+): Response {
+  const abortController = new AbortController();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  request.signal?.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: EventStreamSend = (event, data) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, abortController.signal);
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('❌ Streaming route failed:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Arguments `readEventStream` hands to its callback: the event name and its payload.
+ * `TDone` is the route's result; `TExtra` adds route-specific events such as
+ * `['node', WorkflowNodeEvent]`.
+ */
+export type EventStreamArgs<TDone, TExtra extends [string, unknown] = never> =
+  | ['delta', { text: string }]
+  | ['status', { message: string }]
+  | ['done', TDone]
+  | ['error', { error: string }]
+  | TExtra;
+
+/**
+ * Read a server-sent event body, calling `onEvent` with each event's name and raw data
+ * (its `data:` lines joined). Used for our own routes and for provider streams in
+ * llmClient. Resolves when the stream ends; rejects with an AbortError if the fetch
+ * signal is aborted.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent(event, dataLines.join('\n'));
+      }
+    }
+  }
+}
+
+/**
+ * Read one of our streaming routes, calling `onEvent` with every event and its parsed
+ * payload
+ */
+export async function readEventStream<TDone, TExtra extends [string, unknown] = never>(
+  response: Response,
+  onEvent: (...args: EventStreamArgs<TDone, TExtra>) => void
+): Promise<void> {
+  await readServerSentEvents(response, (event, data) => {
+    onEvent(...([event, JSON.parse(data)] as EventStreamArgs<TDone, TExtra>));
+  });
+}
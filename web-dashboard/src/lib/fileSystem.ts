@@ -2,6 +2,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { ProjectConfiguration, ProjectStructure, ValidationResult } from '../types';
+import { LocalHistoryStore } from './localHistory';
+import type { DocumentVersionSource } from './supabase';
 
 export class FileSystemError extends Error {
   constructor(message: string, public code: string, public path?: string) {
@@ -36,17 +38,29 @@ export class FileSystemManager {
   }
 
   /**
-   * Safely writes a markdown file with error handling and backup
+   * Safely writes a markdown file with error handling, recording the saved content
+   * in the .ai-project/.history snapshot store
    */
-  static async writeMarkdownFile(filePath: string, content: string, createBackup: boolean = true): Promise<void> {
+  static async writeMarkdownFile(
+    filePath: string,
+    content: string,
+    recordHistory: boolean = true,
+    historyMeta: { source: DocumentVersionSource; author?: string; message?: string } = { source: 'dashboard' }
+  ): Promise<void> {
     try {
       await this.validateFileAccess(path.dirname(filePath), 'write');
       await this.checkDiskSpace(path.dirname(filePath));
 
-      // Create backup if file exists and backup is requested
-      if (createBackup && await this.fileExists(filePath)) {
-        const backupPath = `${filePath}.backup.${Date.now()}`;
-        await fs.copyFile(filePath, backupPath);
+      const history = recordHistory ? this.getHistoryStore(filePath) : null;
+      const historyName = history ? this.getHistoryFileName(filePath) : '';
+
+      // Snapshot the existing content first if this file has no history yet
+      if (history && await this.fileExists(filePath) && (await history.list(historyName)).length === 0) {
+        const previousContent = await fs.readFile(filePath, 'utf-8');
+        await history.record(historyName, previousContent, {
+          source: 'import',
+          message: 'Content before history was recorded'
+        });
       }
 
       // Write to temporary file first, then rename for atomic operation
@@ -54,6 +68,10 @@ export class FileSystemManager {
       await fs.writeFile(tempPath, content, 'utf-8');
       await fs.rename(tempPath, filePath);
 
+      if (history) {
+        await history.record(historyName, content, historyMeta);
+      }
+
     } catch (error) {
       if (error instanceof Error) {
         throw new FileSystemError(
@@ -645,6 +663,33 @@ interface DataModel {
 
   // Utility methods for file system operations
 
+  /**
+   * History store of the .ai-project directory containing a file
+   */
+  private static getHistoryStore(filePath: string): LocalHistoryStore {
+    return new LocalHistoryStore(this.findAiProjectDir(filePath));
+  }
+
+  /**
+   * Name a file is tracked under in history, relative to its .ai-project directory
+   */
+  private static getHistoryFileName(filePath: string): string {
+    return path.relative(this.findAiProjectDir(filePath), filePath);
+  }
+
+  private static findAiProjectDir(filePath: string): string {
+    let dir = path.dirname(filePath);
+    while (path.basename(dir) !== this.AI_PROJECT_DIR) {
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        // Not inside an .ai-project directory; keep history next to the file
+        return path.dirname(filePath);
+      }
+      dir = parent;
+    }
+    return dir;
+  }
+
   /**
    * Checks if a file exists
    */
@@ -0,0 +1,412 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { matchesFilter, vectorNorm } from './vectorFilter';
+import type { MetadataFilter, VectorMatch, VectorMetadata, VectorQuery, VectorRecord, VectorStore } from './vectorStore';
+
+const M = 16; // Links per node on upper layers
+const M0 = M * 2; // Links per node on the bottom layer
+const LEVEL_MULTIPLIER = 1 / Math.log(M);
+const EF_CONSTRUCTION = 100;
+const EF_SEARCH = 64;
+// Below this many candidates an exact scan is as fast as the graph and never misses
+const EXACT_SEARCH_LIMIT = 2000;
+const FILE_VERSION = 1;
+// Changes within this window are written together instead of one file write each
+const SAVE_DELAY_MS = 1000;
+
+interface HnswNode {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+  unit: number[]; // values scaled to length 1, so similarity is a dot product
+  level: number;
+  links: number[][]; // Neighbour node indexes per layer
+  deleted: boolean;
+}
+
+interface Scored {
+  node: number;
+  similarity: number;
+}
+
+interface NamespaceFile {
+  version: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<Omit<HnswNode, 'unit'>>;
+}
+
+function toUnit(values: number[]): number[] {
+  const norm = vectorNorm(values);
+  return norm === 0 ? values.map(() => 0) : values.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Keeps list sorted by similarity, highest first
+function insertSorted(list: Scored[], item: Scored): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].similarity >= item.similarity) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, item);
+}
+
+/**
+ * One namespace: a hierarchical navigable small world graph over its vectors. Deleted and
+ * replaced vectors stay in the graph as tombstones so it remains connected, and the graph
+ * is rebuilt once tombstones outnumber live vectors.
+ */
+class HnswNamespace {
+  nodes: HnswNode[] = [];
+  ids = new Map<string, number>();
+  entryPoint = -1;
+  maxLevel = -1;
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  get tombstones(): number {
+    return this.nodes.length - this.ids.size;
+  }
+
+  static fromFile(file: NamespaceFile): HnswNamespace {
+    if (file.version !== FILE_VERSION) {
+      throw new Error(`Unsupported vector store file version: ${file.version}`);
+    }
+
+    const namespace = new HnswNamespace();
+    namespace.entryPoint = file.entryPoint;
+    namespace.maxLevel = file.maxLevel;
+    namespace.nodes = file.nodes.map(node => ({ ...node, unit: toUnit(node.values) }));
+    namespace.nodes.forEach((node, index) => {
+      if (!node.deleted) {
+        namespace.ids.set(node.id, index);
+      }
+    });
+    return namespace;
+  }
+
+  toFile(): NamespaceFile {
+    return {
+      version: FILE_VERSION,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map(({ id, values, metadata, level, links, deleted }) => ({ id, values, metadata, level, links, deleted }))
+    };
+  }
+
+  upsert(record: VectorRecord): void {
+    this.remove(record.id);
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * LEVEL_MULTIPLIER);
+    const index = this.nodes.length;
+    const node: HnswNode = {
+      id: record.id,
+      values: record.values,
+      metadata: record.metadata,
+      unit: toUnit(record.values),
+      level,
+      links: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+    this.nodes.push(node);
+    this.ids.set(record.id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(node.unit, [entry], 1, layer)[0].node;
+    }
+
+    let entryPoints = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.unit, entryPoints, EF_CONSTRUCTION, layer);
+      const maxLinks = layer === 0 ? M0 : M;
+      node.links[layer] = candidates.slice(0, M).map(candidate => candidate.node);
+
+      for (const neighbour of node.links[layer]) {
+        const links = this.nodes[neighbour].links[layer];
+        links.push(index);
+        if (links.length > maxLinks) {
+          this.nodes[neighbour].links[layer] = this.closest(this.nodes[neighbour].unit, links, maxLinks);
+        }
+      }
+      entryPoints = candidates.map(candidate => candidate.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): boolean {
+    const index = this.ids.get(id);
+    if (index === undefined) {
+      return false;
+    }
+    const node = this.nodes[index];
+    node.deleted = true;
+    node.metadata = undefined;
+    this.ids.delete(id);
+    return true;
+  }
+
+  get(id: string): HnswNode | undefined {
+    const index = this.ids.get(id);
+    return index === undefined ? undefined : this.nodes[index];
+  }
+
+  liveNodes(): HnswNode[] {
+    return Array.from(this.ids.values(), index => this.nodes[index]);
+  }
+
+  /**
+   * Approximate nearest live nodes passing accept, best first
+   */
+  search(unit: number[], ef: number, accept: (node: HnswNode) => boolean): Scored[] {
+    if (this.entryPoint === -1) {
+      return [];
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(unit, [entry], 1, layer)[0].node;
+    }
+    return this.searchLayer(unit, [entry], ef, 0)
+      .filter(candidate => !this.nodes[candidate.node].deleted && accept(this.nodes[candidate.node]));
+  }
+
+  /**
+   * Rebuilds the graph from the live nodes, dropping tombstones
+   */
+  compact(): HnswNamespace {
+    const compacted = new HnswNamespace();
+    for (const node of this.liveNodes()) {
+      compacted.upsert({ id: node.id, values: node.values, metadata: node.metadata });
+    }
+    return compacted;
+  }
+
+  private searchLayer(unit: number[], entryPoints: number[], ef: number, layer: number): Scored[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates: Scored[] = [];
+    const results: Scored[] = [];
+    for (const node of entryPoints) {
+      const scored = { node, similarity: dot(unit, this.nodes[node].unit) };
+      insertSorted(candidates, scored);
+      insertSorted(results, scored);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.similarity < results[results.length - 1].similarity) {
+        break;
+      }
+
+      for (const neighbour of this.nodes[current.node].links[layer] || []) {
+        if (visited.has(neighbour)) {
+          continue;
+        }
+        visited.add(neighbour);
+
+        const similarity = dot(unit, this.nodes[neighbour].unit);
+        if (results.length < ef || similarity > results[results.length - 1].similarity) {
+          insertSorted(candidates, { node: neighbour, similarity });
+          insertSorted(results, { node: neighbour, similarity });
+          results.splice(ef);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private closest(unit: number[], nodes: number[], count: number): number[] {
+    return nodes
+      .map(node => ({ node, similarity: dot(unit, this.nodes[node].unit) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, count)
+      .map(scored => scored.node);
+  }
+}
+
+/**
+ * In-process store for self-hosting and tests. Each namespace is an HNSW graph; small or
+ * narrowly filtered searches are exact scans instead. With a directory, every namespace is
+ * saved there as a JSON file (graph included) and loaded on first use; without one, records
+ * only live in memory. Changed namespaces are written at most once per SAVE_DELAY_MS, and
+ * any still pending when the process runs out of work, or on flush().
+ */
+export class HnswVectorStore implements VectorStore {
+  readonly name = 'hnsw';
+  private namespaces = new Map<string, HnswNamespace>();
+  private unsaved = new Set<string>();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private directory?: string) {
+    if (directory) {
+      mkdirSync(directory, { recursive: true });
+      process.on('beforeExit', () => this.flush());
+    }
+  }
+
+  /**
+   * Writes every namespace changed since the last save
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    for (const name of this.unsaved) {
+      const filePath = this.filePath(name);
+      const namespace = this.namespaces.get(name);
+      if (filePath && namespace) {
+        // Written to a temporary file first so a crash never leaves a half-written namespace
+        const temporaryPath = `${filePath}.tmp`;
+        writeFileSync(temporaryPath, JSON.stringify(namespace.toFile()));
+        renameSync(temporaryPath, filePath);
+      }
+    }
+    this.unsaved.clear();
+  }
+
+  async query(query: VectorQuery): Promise<{ matches: VectorMatch[] }> {
+    const { vector, topK, filter, includeMetadata = true, includeValues = false } = query;
+    const namespace = this.namespace(query.namespace);
+    const toMatch = (node: HnswNode, score: number): VectorMatch => ({
+      id: node.id,
+      score,
+      values: includeValues ? node.values : undefined,
+      metadata: includeMetadata ? node.metadata : undefined
+    });
+
+    const unit = toUnit(vector);
+    const accept = (node: HnswNode) => matchesFilter(node.metadata, filter);
+
+    // A zero vector ranks nothing, so it lists filter matches by metadata alone
+    if (unit.every(value => value === 0)) {
+      return { matches: namespace.liveNodes().filter(accept).slice(0, topK).map(node => toMatch(node, 0)) };
+    }
+
+    const candidates = filter ? namespace.liveNodes().filter(accept) : namespace.liveNodes();
+    if (candidates.length <= Math.max(EXACT_SEARCH_LIMIT, topK)) {
+      return {
+        matches: candidates
+          .map(node => ({ node, similarity: dot(unit, node.unit) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, topK)
+          .map(({ node, similarity }) => toMatch(node, similarity))
+      };
+    }
+
+    // Filtered-out nodes still take result slots inside the graph search, so widen it
+    // until enough matches survive
+    let ef = Math.max(EF_SEARCH, topK);
+    let results = namespace.search(unit, ef, accept);
+    while (results.length < topK && ef < namespace.nodes.length) {
+      ef *= 4;
+      results = namespace.search(unit, ef, accept);
+    }
+
+    return {
+      matches: results.slice(0, topK).map(result => toMatch(namespace.nodes[result.node], result.similarity))
+    };
+  }
+
+  async upsert(records: VectorRecord[], namespaceName?: string): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const namespace = this.namespace(namespaceName);
+    for (const record of records) {
+      namespace.upsert(record);
+    }
+    this.markChanged(namespaceName, namespace);
+  }
+
+  async fetch(ids: string[], namespaceName?: string): Promise<{ records: Record<string, VectorRecord> }> {
+    const namespace = this.namespace(namespaceName);
+    const records: Record<string, VectorRecord> = {};
+    for (const id of ids) {
+      const node = namespace.get(id);
+      if (node) {
+        records[id] = { id, values: node.values, metadata: node.metadata };
+      }
+    }
+    return { records };
+  }
+
+  async deleteMany(ids: string[], namespaceName?: string): Promise<void> {
+    const namespace = this.namespace(namespaceName);
+    const removed = ids.filter(id => namespace.remove(id));
+    if (removed.length > 0) {
+      this.markChanged(namespaceName, namespace);
+    }
+  }
+
+  async deleteByFilter(filter: MetadataFilter, namespaceName?: string): Promise<void> {
+    const namespace = this.namespace(namespaceName);
+    const ids = namespace.liveNodes().filter(node => matchesFilter(node.metadata, filter)).map(node => node.id);
+    await this.deleteMany(ids, namespaceName);
+  }
+
+  private namespace(name = ''): HnswNamespace {
+    let namespace = this.namespaces.get(name);
+    if (!namespace) {
+      const filePath = this.filePath(name);
+      namespace = filePath && existsSync(filePath)
+        ? HnswNamespace.fromFile(JSON.parse(readFileSync(filePath, 'utf8')))
+        : new HnswNamespace();
+      this.namespaces.set(name, namespace);
+    }
+    return namespace;
+  }
+
+  private markChanged(name = '', namespace: HnswNamespace): void {
+    if (namespace.tombstones > Math.max(namespace.size, 100)) {
+      namespace = namespace.compact();
+      this.namespaces.set(name, namespace);
+    }
+
+    if (!this.directory) {
+      return;
+    }
+
+    this.unsaved.add(name);
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+      // A pending save must not keep the process alive; beforeExit writes it instead
+      this.saveTimer.unref();
+    }
+  }
+
+  private filePath(name: string): string | undefined {
+    return this.directory
+      ? path.join(this.directory, name ? `namespace-${encodeURIComponent(name)}.json` : 'default.json')
+      : undefined;
+  }
+}
@@ -0,0 +1,225 @@
+// Hybrid keyword + vector search over a project's documents
+import { chunkDocument, DocumentChunk, SPEC_DOCUMENTS } from './documentChunker';
+import { contextDocumentKey, hashContent } from './documentHistory';
+import { embeddingService } from './embeddingService';
+import { Bm25Index, buildSnippet, reciprocalRankFusion } from './keywordSearch';
+import { pineconeOperationsService } from './pineconeOperationsService';
+import { ProjectService } from './projectService';
+import type { VectorMatch } from './vectorStore';
+
+export interface HybridSearchResult {
+  id: string; // Chunk id
+  document: string; // 'requirements', 'design', 'tasks' or 'context/<file name>'
+  documentTitle: string;
+  headings: string[]; // Heading path of the matching section, outermost first
+  snippet: string;
+  highlights: Array<[number, number]>; // [start, end) offsets into snippet
+  score: number; // Fused rank score; only meaningful for ordering
+  keywordRank?: number;
+  vectorRank?: number;
+}
+
+interface SearchDocument {
+  key: string;
+  title: string;
+  vectorId: string;
+  content: string;
+}
+
+interface ProjectIndex {
+  fingerprint: string;
+  chunks: Map<string, DocumentChunk>;
+  chunksByDocument: Map<string, DocumentChunk[]>;
+  documentsByVectorId: Map<string, string>;
+  bm25: Bm25Index;
+}
+
+// Candidates taken from each retriever before fusion
+const CANDIDATES = 50;
+const MAX_CACHED_PROJECTS = 20;
+
+/**
+ * Combines BM25 over heading-scoped chunks of the requirements, design, tasks and context
+ * documents with the vector store's similarity ranking, fused by reciprocal rank. Keywords
+ * catch exact identifiers (requirement numbers, API names, error codes) that embeddings
+ * blur; vectors catch paraphrases that share no words with the query.
+ */
+export class HybridSearchService {
+  private static instance: HybridSearchService;
+  private indexes = new Map<string, ProjectIndex>();
+
+  static getInstance(): HybridSearchService {
+    if (!HybridSearchService.instance) {
+      HybridSearchService.instance = new HybridSearchService();
+    }
+    return HybridSearchService.instance;
+  }
+
+  /**
+   * Search a project's documents. ownerId is the project owner, whose copy of the project
+   * holds the documents; callers check the requesting user's access first.
+   */
+  async search(projectId: string, ownerId: string, query: string, topK = 10): Promise<HybridSearchResult[]> {
+    const text = query.trim();
+    if (!text) {
+      return [];
+    }
+
+    const [index, vectorMatches] = await Promise.all([
+      this.getIndex(projectId, ownerId),
+      this.vectorSearch(projectId, text)
+    ]);
+
+    const keywordRanking = new Map(index.bm25.search(text, CANDIDATES).map((match, i) => [match.id, i + 1]));
+    const vectorRanking = this.rankChunksByVector(index, vectorMatches, keywordRanking);
+
+    return reciprocalRankFusion([keywordRanking, vectorRanking])
+      .slice(0, topK)
+      .map(({ id, score }) => {
+        const chunk = index.chunks.get(id)!;
+        const snippet = buildSnippet(chunk.text, text);
+        return {
+          id,
+          document: chunk.document,
+          documentTitle: chunk.documentTitle,
+          headings: chunk.headings,
+          snippet: snippet.text,
+          highlights: snippet.highlights,
+          score,
+          keywordRank: keywordRanking.get(id),
+          vectorRank: vectorRanking.get(id)
+        };
+      });
+  }
+
+  // A failing vector store degrades search to keywords only rather than failing it
+  private async vectorSearch(projectId: string, query: string): Promise<VectorMatch[]> {
+    try {
+      const embedding = await embeddingService.generateEmbeddingWithFallback(query);
+      const response = await pineconeOperationsService.query(embedding, {
+        topK: CANDIDATES,
+        filter: { projectId: { $eq: projectId } },
+        includeMetadata: true
+      });
+      return response.matches || [];
+    } catch (error) {
+      console.warn('⚠️ Vector search failed, using keyword results only:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Vector matches are chunks when their metadata carries a chunkId, otherwise whole
+   * documents. A whole-document match can't say which section matched, so its rank goes to
+   * the sections the keywords found in it, or to its first section if there are none.
+   */
+  private rankChunksByVector(
+    index: ProjectIndex,
+    matches: VectorMatch[],
+    keywordRanking: Map<string, number>
+  ): Map<string, number> {
+    const ranking = new Map<string, number>();
+    let rank = 0;
+
+    for (const match of matches) {
+      const chunkId = match.metadata?.chunkId;
+      let chunkIds: string[] = [];
+
+      if (typeof chunkId === 'string' && index.chunks.has(chunkId)) {
+        chunkIds = [chunkId];
+      } else {
+        const document = index.documentsByVectorId.get(match.id);
+        const chunks = document ? index.chunksByDocument.get(document) || [] : [];
+        const keywordChunks = chunks.filter(chunk => keywordRanking.has(chunk.id)).map(chunk => chunk.id);
+        chunkIds = keywordChunks.length > 0 ? keywordChunks : chunks.slice(0, 1).map(chunk => chunk.id);
+      }
+
+      const unranked = chunkIds.filter(id => !ranking.has(id));
+      if (unranked.length > 0) {
+        rank++;
+        unranked.forEach(id => ranking.set(id, rank));
+      }
+    }
+
+    return ranking;
+  }
+
+  private async getIndex(projectId: string, ownerId: string): Promise<ProjectIndex> {
+    const documents = await this.loadDocuments(projectId, ownerId);
+    const fingerprint = hashContent(documents.map(document => `${document.key}\0${document.content}`).join('\0'));
+
+    const cached = this.indexes.get(projectId);
+    if (cached && cached.fingerprint === fingerprint) {
+      return cached;
+    }
+
+    const chunks = new Map<string, DocumentChunk>();
+    const chunksByDocument = new Map<string, DocumentChunk[]>();
+    const documentsByVectorId = new Map<string, string>();
+
+    for (const document of documents) {
+      const documentChunks = chunkDocument(document.key, document.title, document.content);
+      documentChunks.forEach(chunk => chunks.set(chunk.id, chunk));
+      chunksByDocument.set(document.key, documentChunks);
+      documentsByVectorId.set(document.vectorId, document.key);
+    }
+
+    const bm25 = new Bm25Index([...chunks.values()].map(chunk => ({
+      id: chunk.id,
+      text: `${chunk.headings.join('\n')}\n${chunk.text}`
+    })));
+
+    const index = { fingerprint, chunks, chunksByDocument, documentsByVectorId, bm25 };
+    this.indexes.delete(projectId);
+    this.indexes.set(projectId, index);
+    if (this.indexes.size > MAX_CACHED_PROJECTS) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+
+    console.log(`🔎 Indexed ${bm25.size} chunks from ${documents.length} documents for project ${projectId}`);
+    return index;
+  }
+
+  private async loadDocuments(projectId: string, ownerId: string): Promise<SearchDocument[]> {
+    const projectService = ProjectService.getInstance();
+    const project = await projectService.getProject(ownerId, projectId);
+    const documents: SearchDocument[] = [];
+
+    if (project) {
+      const contents = await Promise.all(SPEC_DOCUMENTS.map(({ key }) =>
+        projectService.resolveDocumentContent(project[key] || '')
+      ));
+      // vectorId is the whole-document vector projects had before documents were embedded in chunks
+      SPEC_DOCUMENTS.forEach(({ key, title }, i) => {
+        documents.push({ key, title, vectorId: `${key}:${projectId}`, content: contents[i] });
+      });
+    }
+
+    // Context documents live only in the vector store, as metadata
+    const contextResponse = await pineconeOperationsService.query(
+      new Array(embeddingService.dimensions).fill(0),
+      {
+        filter: {
+          projectId: { $eq: projectId },
+          type: { $eq: 'context' }
+        },
+        topK: 100,
+        includeMetadata: true
+      }
+    );
+
+    for (const match of (contextResponse.matches || []) as VectorMatch[]) {
+      const metadata = match.metadata || {};
+      const title = typeof metadata.title === 'string' ? metadata.title : 'Untitled Document';
+      const filename = typeof metadata.filename === 'string' ? metadata.filename : `${title}.md`;
+      documents.push({
+        key: contextDocumentKey(filename),
+        title,
+        vectorId: match.id,
+        content: typeof metadata.content === 'string' ? metadata.content : ''
+      });
+    }
+
+    return documents;
+  }
+}
@@ -0,0 +1,208 @@
+// BM25 keyword ranking, rank fusion and snippet highlighting for project search
+
+// A word, or an identifier whose parts are joined by . _ - / : # (REQ-1.2, ERR_TIMEOUT, api/v1)
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[._\-/:#][\p{L}\p{N}]+)*/gu;
+const PART_SEPARATOR = /[._\-/:#]/;
+const CAMEL_BOUNDARY = /(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of',
+  'on', 'or', 'that', 'the', 'this', 'to', 'was', 'will', 'with'
+]);
+
+/**
+ * Lower-cased search terms. Identifiers are kept whole so "REQ-1.2" only matches that
+ * requirement, and are also split into their parts (req, 1, 2; getUserById gives get, user,
+ * by, id) so partial queries still find them.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const [match] of text.matchAll(TOKEN_PATTERN)) {
+    const token = match.toLowerCase();
+    const parts = match
+      .split(PART_SEPARATOR)
+      .flatMap(part => part.split(CAMEL_BOUNDARY))
+      .map(part => part.toLowerCase());
+
+    if (parts.length === 1) {
+      if (!STOP_WORDS.has(token)) {
+        tokens.push(token);
+      }
+      continue;
+    }
+
+    tokens.push(token, ...parts.filter(part => !STOP_WORDS.has(part)));
+  }
+
+  return tokens;
+}
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * Okapi BM25 over an in-memory set of texts. Built once per set of documents and queried
+ * many times; rebuilding is cheap enough to do whenever a document changes.
+ */
+export class Bm25Index {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  private termFrequencies = new Map<string, Map<string, number>>(); // term -> id -> count
+  private lengths = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(entries: Array<{ id: string; text: string }>) {
+    for (const { id, text } of entries) {
+      const tokens = tokenize(text);
+      this.lengths.set(id, tokens.length);
+
+      for (const token of tokens) {
+        let postings = this.termFrequencies.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.termFrequencies.set(token, postings);
+        }
+        postings.set(id, (postings.get(id) || 0) + 1);
+      }
+    }
+
+    const totalLength = [...this.lengths.values()].reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.lengths.size > 0 ? totalLength / this.lengths.size : 0;
+  }
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  search(query: string, limit: number): KeywordMatch[] {
+    const scores = new Map<string, number>();
+    const count = this.lengths.size;
+
+    for (const term of new Set(tokenize(query))) {
+      const postings = this.termFrequencies.get(term);
+      if (!postings) {
+        continue;
+      }
+
+      // The +1 keeps terms found in most documents from scoring negative
+      const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+
+      for (const [id, frequency] of postings) {
+        const lengthRatio = (this.lengths.get(id) || 0) / (this.averageLength || 1);
+        const weight = (frequency * (Bm25Index.K1 + 1)) /
+          (frequency + Bm25Index.K1 * (1 - Bm25Index.B + Bm25Index.B * lengthRatio));
+        scores.set(id, (scores.get(id) || 0) + idf * weight);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Reciprocal rank fusion: each ranking adds 1 / (k + rank) for the ids it contains, ranks
+ * starting at 1. Only ranks are used, so BM25 and cosine scores never need to be put on a
+ * common scale. Ids may share a rank, e.g. every chunk of a document matched as a whole.
+ */
+export function reciprocalRankFusion(rankings: Array<Map<string, number>>, k = 60): KeywordMatch[] {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    for (const [id, rank] of ranking) {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + rank));
+    }
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export interface Snippet {
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) offsets into text
+}
+
+const SNIPPET_LENGTH = 240;
+const SNIPPET_LEAD = 60; // Context kept before the first highlighted term
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A window of the text around the densest cluster of query terms, with the term
+ * occurrences inside it marked. Falls back to the start of the text when nothing matches.
+ */
+export function buildSnippet(text: string, query: string): Snippet {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  const terms = [...new Set(tokenize(query))].filter(term => term.length > 1 || /\d/.test(term));
+
+  const occurrences: Array<{ start: number; end: number; term: string }> = [];
+  for (const term of terms) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+    for (const match of flattened.matchAll(pattern)) {
+      occurrences.push({ start: match.index, end: match.index + match[0].length, term });
+    }
+  }
+  occurrences.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Anchor the window on the occurrence whose neighbourhood covers the most distinct terms
+  let windowStart = 0;
+  let bestCoverage = 0;
+  for (const anchor of occurrences) {
+    const start = Math.max(0, anchor.start - SNIPPET_LEAD);
+    const covered = new Set(occurrences
+      .filter(occurrence => occurrence.start >= start && occurrence.end <= start + SNIPPET_LENGTH)
+      .map(occurrence => occurrence.term));
+    if (covered.size > bestCoverage) {
+      bestCoverage = covered.size;
+      windowStart = start;
+    }
+  }
+
+  // Don't start or end mid-word
+  if (windowStart > 0 && flattened[windowStart - 1] !== ' ') {
+    const space = flattened.indexOf(' ', windowStart);
+    const firstMatch = occurrences.find(occurrence => occurrence.start >= windowStart);
+    if (space !== -1 && (!firstMatch || space < firstMatch.start)) {
+      windowStart = space + 1;
+    }
+  }
+  let windowEnd = Math.min(flattened.length, windowStart + SNIPPET_LENGTH);
+  if (windowEnd < flattened.length) {
+    const space = flattened.lastIndexOf(' ', windowEnd);
+    if (space > windowStart + SNIPPET_LENGTH / 2) {
+      windowEnd = space;
+    }
+  }
+
+  const prefix = windowStart > 0 ? '… ' : '';
+  const suffix = windowEnd < flattened.length ? ' …' : '';
+  const snippetText = `${prefix}${flattened.slice(windowStart, windowEnd)}${suffix}`;
+
+  // Overlapping occurrences (REQ-1.2 and its part "req") are merged into one highlight
+  const highlights: Array<[number, number]> = [];
+  for (const occurrence of occurrences) {
+    if (occurrence.start < windowStart || occurrence.end > windowEnd) {
+      continue;
+    }
+    const start = occurrence.start - windowStart + prefix.length;
+    const end = occurrence.end - windowStart + prefix.length;
+    const last = highlights[highlights.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      highlights.push([start, end]);
+    }
+  }
+
+  return { text: snippetText, highlights };
+}
@@ -0,0 +1,544 @@
+import { auth } from '@clerk/nextjs/server';
+import { getApiConfiguration, ApiConfiguration } from './apiConfig';
+import { TokenTrackingService } from './tokenTrackingService';
+import { readServerSentEvents } from './eventStream';
+
+/**
+ * Provider-agnostic LLM client.
+ *
+ * Routes describe what they want generated (prompt, limits, temperature) and the
+ * client dispatches to the adapter for the provider in the caller's
+ * ApiConfiguration, so a user's personal provider/model/baseUrl is honored
+ * everywhere. Token usage reported by each adapter is funnelled into
+ * TokenTrackingService.trackTokenUsage in one place.
+ *
+ * stream() has the same contract as generate() but reports text deltas as they
+ * arrive. Aborting its signal stops the upstream request, and only the tokens
+ * consumed up to that point are recorded.
+ */
+
+export type LlmProvider = 'google' | 'openai' | 'anthropic' | 'custom';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  prompt?: string;
+  messages?: LlmMessage[];
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimated: boolean; // True when the provider did not report usage and we fell back to ~4 chars/token
+}
+
+export interface LlmResponse {
+  content: string;
+  usage: LlmUsage;
+  provider: string;
+  model: string;
+  responseTime: number;
+}
+
+export interface LlmTrackingOptions {
+  projectId: string;
+  analysisType: string;
+  userId?: string;
+}
+
+export interface LlmGenerateOptions {
+  config?: ApiConfiguration; // Defaults to getApiConfiguration() for the signed-in user
+  tracking?: LlmTrackingOptions;
+  signal?: AbortSignal;
+}
+
+export interface LlmStreamOptions extends LlmGenerateOptions {
+  onDelta: (text: string) => void;
+}
+
+export class LlmConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigurationError';
+  }
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    public provider: string,
+    public status: number | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export class LlmCancelledError extends Error {
+  constructor(message: string = 'Generation cancelled') {
+    super(message);
+    this.name = 'LlmCancelledError';
+  }
+}
+
+interface AdapterResult {
+  content: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+interface LlmAdapter {
+  generate(config: ApiConfiguration, request: LlmRequest, signal?: AbortSignal): Promise<AdapterResult>;
+  stream(config: ApiConfiguration, request: LlmRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<AdapterResult>;
+}
+
+const DEFAULT_MAX_TOKENS = 4000;
+const DEFAULT_TEMPERATURE = 0.3;
+
+/**
+ * Normalise prompt/messages into a single message list
+ */
+function toMessages(request: LlmRequest): LlmMessage[] {
+  const messages: LlmMessage[] = [];
+  if (request.systemPrompt) {
+    messages.push({ role: 'system', content: request.systemPrompt });
+  }
+  if (request.messages) {
+    messages.push(...request.messages);
+  }
+  if (request.prompt) {
+    messages.push({ role: 'user', content: request.prompt });
+  }
+  if (messages.length === 0) {
+    throw new Error('LLM request requires a prompt or messages');
+  }
+  return messages;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const data = JSON.parse(text);
+    return data.error?.message || data.message || text || response.statusText;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+class GeminiAdapter implements LlmAdapter {
+  private buildBody(request: LlmRequest) {
+    const messages = toMessages(request);
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      }));
+
+    return JSON.stringify({
+      contents,
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {})
+      }
+    });
+  }
+
+  async generate(config: ApiConfiguration, request: LlmRequest, signal?: AbortSignal): Promise<AdapterResult> {
+    const baseUrl = stripTrailingSlash(config.baseUrl || 'https://generativelanguage.googleapis.com');
+    const response = await fetch(`${baseUrl}/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: this.buildBody(request),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError('google', response.status, `Gemini API error: ${response.status} - ${await readError(response)}`);
+    }
+
+    const result = await response.json();
+    const parts = result.candidates?.[0]?.content?.parts;
+    if (!parts || parts.length === 0) {
+      throw new LlmProviderError('google', response.status, 'Invalid response format from Gemini API');
+    }
+
+    return {
+      content: parts.map((part: { text?: string }) => part.text || '').join(''),
+      inputTokens: result.usageMetadata?.promptTokenCount,
+      outputTokens: result.usageMetadata?.candidatesTokenCount
+    };
+  }
+
+  async stream(config: ApiConfiguration, request: LlmRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<AdapterResult> {
+    const baseUrl = stripTrailingSlash(config.baseUrl || 'https://generativelanguage.googleapis.com');
+    const response = await fetch(`${baseUrl}/v1beta/models/${config.model}:streamGenerateContent?alt=sse&key=${config.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: this.buildBody(request),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError('google', response.status, `Gemini API error: ${response.status} - ${await readError(response)}`);
+    }
+
+    let content = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    await readServerSentEvents(response, (_event, data) => {
+      const chunk = JSON.parse(data);
+      const text = (chunk.candidates?.[0]?.content?.parts || [])
+        .map((part: { text?: string }) => part.text || '')
+        .join('');
+      if (text) {
+        content += text;
+        onDelta(text);
+      }
+      // Each chunk carries cumulative usage, so the last one wins
+      if (chunk.usageMetadata) {
+        inputTokens = chunk.usageMetadata.promptTokenCount;
+        outputTokens = chunk.usageMetadata.candidatesTokenCount;
+      }
+    });
+
+    return { content, inputTokens, outputTokens };
+  }
+}
+
+/**
+ * Handles OpenAI and any OpenAI-compatible endpoint (LM Studio, Ollama, vLLM, ...)
+ * reachable through the configured baseUrl.
+ */
+class OpenAICompatibleAdapter implements LlmAdapter {
+  private async post(config: ApiConfiguration, request: LlmRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    if (config.provider === 'custom' && !config.baseUrl) {
+      throw new LlmConfigurationError('Base URL is required for custom providers');
+    }
+
+    const baseUrl = stripTrailingSlash(config.baseUrl || 'https://api.openai.com/v1');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toMessages(request),
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError(config.provider, response.status, `OpenAI API error: ${response.status} - ${await readError(response)}`);
+    }
+    return response;
+  }
+
+  async generate(config: ApiConfiguration, request: LlmRequest, signal?: AbortSignal): Promise<AdapterResult> {
+    const response = await this.post(config, request, false, signal);
+    const result = await response.json();
+    const content = result.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmProviderError(config.provider, response.status, 'Invalid response format from OpenAI-compatible API');
+    }
+
+    return {
+      content,
+      inputTokens: result.usage?.prompt_tokens,
+      outputTokens: result.usage?.completion_tokens
+    };
+  }
+
+  async stream(config: ApiConfiguration, request: LlmRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<AdapterResult> {
+    const response = await this.post(config, request, true, signal);
+
+    let content = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    await readServerSentEvents(response, (_event, data) => {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        content += text;
+        onDelta(text);
+      }
+      if (chunk.usage) {
+        inputTokens = chunk.usage.prompt_tokens;
+        outputTokens = chunk.usage.completion_tokens;
+      }
+    });
+
+    return { content, inputTokens, outputTokens };
+  }
+}
+
+class AnthropicAdapter implements LlmAdapter {
+  private async post(config: ApiConfiguration, request: LlmRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const messages = toMessages(request);
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const baseUrl = stripTrailingSlash(config.baseUrl || 'https://api.anthropic.com');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        ...(system ? { system } : {}),
+        messages: messages.filter(m => m.role !== 'system'),
+        ...(stream ? { stream: true } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError('anthropic', response.status, `Anthropic API error: ${response.status} - ${await readError(response)}`);
+    }
+    return response;
+  }
+
+  async generate(config: ApiConfiguration, request: LlmRequest, signal?: AbortSignal): Promise<AdapterResult> {
+    const response = await this.post(config, request, false, signal);
+    const result = await response.json();
+    const blocks = result.content;
+    if (!Array.isArray(blocks)) {
+      throw new LlmProviderError('anthropic', response.status, 'Invalid response format from Anthropic API');
+    }
+
+    return {
+      content: blocks
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join(''),
+      inputTokens: result.usage?.input_tokens,
+      outputTokens: result.usage?.output_tokens
+    };
+  }
+
+  async stream(config: ApiConfiguration, request: LlmRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<AdapterResult> {
+    const response = await this.post(config, request, true, signal);
+
+    let content = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    await readServerSentEvents(response, (_event, data) => {
+      const event = JSON.parse(data);
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens;
+      } else if (event.type === 'error') {
+        throw new LlmProviderError('anthropic', undefined, `Anthropic API error: ${event.error?.message || 'stream error'}`);
+      }
+    });
+
+    return { content, inputTokens, outputTokens };
+  }
+}
+
+// TokenTrackingService prices usage by these keys
+const PRICING_KEYS: Record<string, string> = {
+  google: 'google-gemini',
+  openai: 'openai-gpt4',
+  anthropic: 'anthropic-claude',
+  custom: 'openai-gpt4'
+};
+
+export class LlmClient {
+  private static instance: LlmClient;
+  private adapters: Record<LlmProvider, LlmAdapter>;
+
+  private constructor() {
+    const openAICompatible = new OpenAICompatibleAdapter();
+    this.adapters = {
+      google: new GeminiAdapter(),
+      openai: openAICompatible,
+      custom: openAICompatible,
+      anthropic: new AnthropicAdapter()
+    };
+  }
+
+  static getInstance(): LlmClient {
+    if (!LlmClient.instance) {
+      LlmClient.instance = new LlmClient();
+    }
+    return LlmClient.instance;
+  }
+
+  /**
+   * Resolve the configuration for the current user, failing if none is set up
+   */
+  async resolveConfiguration(config?: ApiConfiguration): Promise<ApiConfiguration> {
+    const resolved = config || await getApiConfiguration();
+    if (resolved.source === 'none' || !resolved.provider) {
+      throw new LlmConfigurationError('No AI configuration found. Please set GOOGLE_AI_API_KEY environment variable or configure your personal API key in profile settings.');
+    }
+    return resolved;
+  }
+
+  /**
+   * Check whether a provider id has an adapter
+   */
+  isSupportedProvider(provider: string): provider is LlmProvider {
+    return provider in this.adapters;
+  }
+
+  /**
+   * Generate a completion with whichever provider the configuration names
+   */
+  async generate(request: LlmRequest, options: LlmGenerateOptions = {}): Promise<LlmResponse> {
+    const config = await this.resolveConfiguration(options.config);
+    if (!this.isSupportedProvider(config.provider)) {
+      throw new LlmConfigurationError(`Unsupported AI provider: ${config.provider}`);
+    }
+
+    const startTime = Date.now();
+    const result = await this.adapters[config.provider].generate(config, request, options.signal);
+    const responseTime = Date.now() - startTime;
+
+    const usage = this.buildUsage(request, result);
+    const response: LlmResponse = {
+      content: result.content,
+      usage,
+      provider: config.provider,
+      model: config.model,
+      responseTime
+    };
+
+    if (options.tracking) {
+      await this.trackUsage(response, options.tracking);
+    }
+
+    return response;
+  }
+
+  /**
+   * Generate a completion, reporting text deltas as the provider produces them.
+   * If options.signal aborts mid-stream the partial output is billed (estimated
+   * from what was received) and LlmCancelledError is thrown.
+   */
+  async stream(request: LlmRequest, options: LlmStreamOptions): Promise<LlmResponse> {
+    const config = await this.resolveConfiguration(options.config);
+    if (!this.isSupportedProvider(config.provider)) {
+      throw new LlmConfigurationError(`Unsupported AI provider: ${config.provider}`);
+    }
+
+    const startTime = Date.now();
+    let received = '';
+    let result: AdapterResult;
+    try {
+      result = await this.adapters[config.provider].stream(config, request, text => {
+        received += text;
+        options.onDelta(text);
+      }, options.signal);
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+
+      const partial: LlmResponse = {
+        content: received,
+        usage: this.buildUsage(request, { content: received }),
+        provider: config.provider,
+        model: config.model,
+        responseTime: Date.now() - startTime
+      };
+      console.log(`⏹️ Generation cancelled after ${partial.usage.outputTokens} output tokens`);
+      if (options.tracking) {
+        await this.trackUsage(partial, options.tracking, false, 'Cancelled by client');
+      }
+      throw new LlmCancelledError();
+    }
+
+    const response: LlmResponse = {
+      content: result.content,
+      usage: this.buildUsage(request, result),
+      provider: config.provider,
+      model: config.model,
+      responseTime: Date.now() - startTime
+    };
+
+    if (options.tracking) {
+      await this.trackUsage(response, options.tracking);
+    }
+
+    return response;
+  }
+
+  private buildUsage(request: LlmRequest, result: AdapterResult): LlmUsage {
+    const estimated = result.inputTokens === undefined || result.outputTokens === undefined;
+    const promptLength = toMessages(request).reduce((sum, m) => sum + m.content.length, 0);
+    const inputTokens = result.inputTokens ?? Math.ceil(promptLength / 4);
+    const outputTokens = result.outputTokens ?? Math.ceil(result.content.length / 4);
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      estimated
+    };
+  }
+
+  private async trackUsage(
+    response: LlmResponse,
+    tracking: LlmTrackingOptions,
+    success: boolean = true,
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      const userId = tracking.userId || (await auth()).userId || undefined;
+      await TokenTrackingService.getInstance().trackTokenUsage(
+        tracking.projectId,
+        response.usage.inputTokens,
+        response.usage.outputTokens,
+        tracking.analysisType,
+        userId,
+        PRICING_KEYS[response.provider] || 'google-gemini',
+        response.model,
+        response.responseTime,
+        success,
+        errorMessage
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to track token usage:', error);
+    }
+  }
+}
+
+export const llmClient = LlmClient.getInstance();
@@ -0,0 +1,96 @@
+// Content-addressed snapshot store for .ai-project directories on disk
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DocumentVersionSource } from './supabase';
+
+/**
+ * SHA-256 of the document text, used as the snapshot's address
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+export interface LocalHistoryEntry {
+  hash: string;
+  parentHash: string | null;
+  source: DocumentVersionSource;
+  author?: string;
+  message?: string;
+  size: number;
+  timestamp: string;
+}
+
+/**
+ * Filesystem counterpart for .ai-project directories: objects/<hash> holds each
+ * distinct content once and <file>.log.jsonl lists the versions of one file.
+ */
+export class LocalHistoryStore {
+  private historyDir: string;
+
+  constructor(aiProjectDir: string) {
+    this.historyDir = path.join(aiProjectDir, '.history');
+  }
+
+  async record(
+    fileName: string,
+    content: string,
+    meta: { source: DocumentVersionSource; author?: string; message?: string }
+  ): Promise<LocalHistoryEntry | null> {
+    const entries = await this.list(fileName);
+    const parentHash = entries.length > 0 ? entries[entries.length - 1].hash : null;
+    const hash = hashContent(content);
+
+    if (hash === parentHash) {
+      return null;
+    }
+
+    const objectPath = path.join(this.historyDir, 'objects', hash);
+    await fs.mkdir(path.dirname(objectPath), { recursive: true });
+    await fs.writeFile(objectPath, content, { encoding: 'utf-8', flag: 'wx' }).catch((error: NodeJS.ErrnoException) => {
+      // Same hash means same content, so an existing object is already correct
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    });
+
+    const entry: LocalHistoryEntry = {
+      hash,
+      parentHash,
+      source: meta.source,
+      author: meta.author,
+      message: meta.message,
+      size: Buffer.byteLength(content, 'utf-8'),
+      timestamp: new Date().toISOString()
+    };
+    await fs.appendFile(this.logPath(fileName), JSON.stringify(entry) + '\n', 'utf-8');
+
+    return entry;
+  }
+
+  /**
+   * Versions of a file, oldest first
+   */
+  async list(fileName: string): Promise<LocalHistoryEntry[]> {
+    try {
+      const log = await fs.readFile(this.logPath(fileName), 'utf-8');
+      return log
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as LocalHistoryEntry);
+    } catch {
+      return [];
+    }
+  }
+
+  async read(hash: string): Promise<string> {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new Error(`Invalid snapshot hash: ${hash}`);
+    }
+    return fs.readFile(path.join(this.historyDir, 'objects', hash), 'utf-8');
+  }
+
+  private logPath(fileName: string): string {
+    return path.join(this.historyDir, `${fileName.replace(/[\\/]/g, '__')}.log.jsonl`);
+  }
+}
@@ -0,0 +1,162 @@
+import { Pool } from 'pg';
+import type { MetadataFilter, VectorMatch, VectorQuery, VectorRecord, VectorStore } from './vectorStore';
+
+const COMPARISONS: Record<string, string> = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' };
+
+/**
+ * Translates a Pinecone-style filter into SQL over the metadata column, pushing values onto
+ * params. Field names are bound as parameters too, never spliced into the SQL. jsonb
+ * containment (@>) gives Pinecone's equality: a scalar contains an equal scalar and an
+ * array contains each of its elements.
+ */
+export function filterToSql(filter: MetadataFilter, params: unknown[]): string {
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const clauses = Object.entries(filter).map(([key, condition]) => {
+    if (key === '$and' || key === '$or') {
+      const parts = (condition as MetadataFilter[]).map(clause => filterToSql(clause, params));
+      return parts.length > 0 ? `(${parts.join(key === '$and' ? ' AND ' : ' OR ')})` : 'TRUE';
+    }
+
+    const field = `metadata -> ${param(key)}::text`;
+    const contains = (value: unknown) => `COALESCE(${field} @> ${param(JSON.stringify(value))}::jsonb, FALSE)`;
+    const operators = typeof condition === 'object' && condition !== null && !Array.isArray(condition)
+      ? Object.entries(condition as Record<string, unknown>)
+      : [['$eq', condition] as [string, unknown]];
+
+    return operators.map(([operator, expected]) => {
+      switch (operator) {
+        case '$eq':
+          return contains(expected);
+        case '$ne':
+          return `NOT ${contains(expected)}`;
+        case '$in':
+          return `(${(expected as unknown[]).map(contains).join(' OR ') || 'FALSE'})`;
+        case '$nin':
+          return `NOT (${(expected as unknown[]).map(contains).join(' OR ') || 'FALSE'})`;
+        case '$exists':
+          return `(${field} IS ${expected ? 'NOT ' : ''}NULL)`;
+        default:
+          if (!COMPARISONS[operator]) {
+            throw new Error(`Unsupported filter operator: ${operator}`);
+          }
+          return `(CASE WHEN jsonb_typeof(${field}) = 'number' THEN (${field})::numeric END) ${COMPARISONS[operator]} ${param(expected)}`;
+      }
+    }).join(' AND ');
+  });
+
+  return clauses.length > 0 ? clauses.join(' AND ') : 'TRUE';
+}
+
+function toVectorLiteral(values: number[]): string {
+  return `[${values.join(',')}]`;
+}
+
+function fromVectorLiteral(literal: string): number[] {
+  return JSON.parse(literal);
+}
+
+/**
+ * Postgres with the pgvector extension, using the vector_records table from
+ * supabase-schema.sql. Works against Supabase or any Postgres with pgvector installed.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector';
+  private pool: Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 5 });
+  }
+
+  async query(query: VectorQuery): Promise<{ matches: VectorMatch[] }> {
+    const { vector, topK, filter, includeMetadata = true, includeValues = false, namespace = '' } = query;
+    const params: unknown[] = [namespace, topK];
+    const where = filter ? filterToSql(filter, params) : 'TRUE';
+
+    // <=> is cosine distance, so similarity is 1 minus it. A zero vector has no distance to
+    // anything, so it is not ordered by at all - that way the HNSW index, which only returns
+    // its nearest candidates before the filter runs, can't cut a metadata listing short
+    let score = '0';
+    let order = 'created_at';
+    if (vector.some(value => value !== 0)) {
+      params.push(toVectorLiteral(vector));
+      const distance = `embedding <=> $${params.length}::vector`;
+      score = `1 - (${distance})`;
+      // The index only serves a bare distance ordering, and keeps its ef_search (40 by
+      // default) nearest candidates before filtering, so a filtered search could return
+      // fewer than topK rows or none. Ordering by an expression sorts the filtered rows exactly.
+      order = where === 'TRUE' ? distance : `(${distance}) + 0`;
+    }
+
+    const { rows } = await this.pool.query(
+      `SELECT id, metadata, embedding::text AS embedding, ${score} AS score
+       FROM vector_records
+       WHERE namespace = $1 AND ${where}
+       ORDER BY ${order}
+       LIMIT $2`,
+      params
+    );
+
+    return {
+      matches: rows.map(row => ({
+        id: row.id,
+        score: Number.isFinite(Number(row.score)) ? Number(row.score) : 0,
+        values: includeValues ? fromVectorLiteral(row.embedding) : undefined,
+        metadata: includeMetadata ? row.metadata : undefined
+      }))
+    };
+  }
+
+  async upsert(records: VectorRecord[], namespace = ''): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const params: unknown[] = [namespace];
+    const rows = records.map(record => {
+      params.push(record.id, toVectorLiteral(record.values), JSON.stringify(record.metadata || {}));
+      const n = params.length;
+      return `($1, $${n - 2}, $${n - 1}::vector, $${n}::jsonb)`;
+    });
+
+    await this.pool.query(
+      `INSERT INTO vector_records (namespace, id, embedding, metadata)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (namespace, id) DO UPDATE
+       SET embedding = EXCLUDED.embedding, metadata = EXCLUDED.metadata, updated_at = NOW()`,
+      params
+    );
+  }
+
+  async fetch(ids: string[], namespace = ''): Promise<{ records: Record<string, VectorRecord> }> {
+    if (ids.length === 0) {
+      return { records: {} };
+    }
+
+    const { rows } = await this.pool.query(
+      'SELECT id, metadata, embedding::text AS embedding FROM vector_records WHERE namespace = $1 AND id = ANY($2)',
+      [namespace, ids]
+    );
+
+    const records: Record<string, VectorRecord> = {};
+    for (const row of rows) {
+      records[row.id] = { id: row.id, values: fromVectorLiteral(row.embedding), metadata: row.metadata };
+    }
+    return { records };
+  }
+
+  async deleteMany(ids: string[], namespace = ''): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.pool.query('DELETE FROM vector_records WHERE namespace = $1 AND id = ANY($2)', [namespace, ids]);
+  }
+
+  async deleteByFilter(filter: MetadataFilter, namespace = ''): Promise<void> {
+    const params: unknown[] = [namespace];
+    await this.pool.query(`DELETE FROM vector_records WHERE namespace = $1 AND ${filterToSql(filter, params)}`, params);
+  }
+}
@@ -1,5 +1,6 @@
 // Client-side service for Pinecone operations
 // This uses API routes to avoid browser-side Pinecone imports
+import type { HybridSearchResult } from './hybridSearch';
 
 export interface SyncStatus {
   isOnline: boolean;
@@ -15,11 +16,7 @@ export interface SyncResult {
   syncedItems?: number;
 }
 
-export interface SearchResult {
-  id: string;
-  score: number;
-  metadata: Record<string, any>;
-}
+export type SearchResult = HybridSearchResult;
 
 class PineconeClientService {
   async getSyncStatus(projectId: string): Promise<SyncStatus> {
@@ -101,7 +98,8 @@ class PineconeClientService {
         throw new Error('Failed to search documents');
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.results || [];
     } catch (error) {
       console.error('Failed to search documents:', error);
       return [];
@@ -146,7 +144,8 @@ class PineconeClientService {
         throw new Error('Failed to get similar documents');
       }
 
-      return await response.json();
+      const data = await response.json();
+      return data.results || [];
     } catch (error) {
       console.error('Failed to get similar documents:', error);
       return [];
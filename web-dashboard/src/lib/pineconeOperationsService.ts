@@ -1,6 +1,6 @@
-import { getPineconeClient, PINECONE_INDEX_NAME, PINECONE_NAMESPACE_PROJECTS } from './pinecone';
 import { PineconeUtils } from './pineconeUtils';
 import { embeddingService } from './embeddingService';
+import { getVectorStore } from './vectorStore';
 
 export interface VectorOperation {
   id: string;
@@ -19,12 +19,22 @@ export interface QueryOptions {
 export interface UpsertOptions {
   namespace?: string;
   batchSize?: number;
+  keepEmbeddingModel?: boolean; // Write the vectors' metadata as given, without recording the current model
 }
 
+// Metadata field recording which embedding model produced a vector
+export const EMBEDDING_MODEL_FIELD = 'embeddingModel';
+// Metadata field recording the model a vector couldn't be re-embedded with, for lack of text
+const REEMBED_SKIPPED_FIELD = 'reembedSkippedModel';
+// Passes in a row that may find only vectors already handled before re-embedding gives up
+const REEMBED_MAX_WAITS = 5;
+
+/**
+ * Vector operations with retries and batching, on whichever store getVectorStore() returns
+ * (Pinecone, pgvector or the local HNSW store)
+ */
 export class PineconeOperationsService {
   private static instance: PineconeOperationsService;
-  private pinecone = getPineconeClient();
-  private index = this.pinecone.index(PINECONE_INDEX_NAME);
 
   private constructor() {}
 
@@ -35,11 +45,9 @@ export class PineconeOperationsService {
     return PineconeOperationsService.instance;
   }
 
-  /**
-   * Get the appropriate namespace for operations
-   */
-  private getNamespace(namespace?: string) {
-    return namespace ? this.index.namespace(namespace) : this.index;
+  // Looked up on each use so a store set with setVectorStore() takes effect
+  private get store() {
+    return getVectorStore();
   }
 
   /**
@@ -59,14 +67,13 @@ export class PineconeOperationsService {
 
     return PineconeUtils.executeWithRetry(
       async () => {
-        const targetIndex = this.getNamespace(namespace);
-        
-        const queryResponse = await targetIndex.query({
+        const queryResponse = await this.store.query({
           vector,
           topK,
           filter,
           includeMetadata,
-          includeValues
+          includeValues,
+          namespace
         });
 
         return queryResponse;
@@ -86,27 +93,30 @@ export class PineconeOperationsService {
     vectors: VectorOperation[],
     options: UpsertOptions = {}
   ): Promise<any> {
-    const { namespace, batchSize = 100 } = options;
+    const { namespace, batchSize = 100, keepEmbeddingModel = false } = options;
 
     if (vectors.length === 0) {
       return { upsertedCount: 0 };
     }
 
+    const stamped = keepEmbeddingModel ? vectors : vectors.map(vector => ({
+      ...vector,
+      metadata: { ...vector.metadata, [EMBEDDING_MODEL_FIELD]: embeddingService.modelOf(vector.values) }
+    }));
+
     // Split into batches if necessary
     const batches = [];
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      batches.push(vectors.slice(i, i + batchSize));
+    for (let i = 0; i < stamped.length; i += batchSize) {
+      batches.push(stamped.slice(i, i + batchSize));
     }
 
     console.log(`🔄 Upserting ${vectors.length} vectors in ${batches.length} batches`);
 
     const batchOperations = batches.map((batch, index) => 
       async () => {
-        const targetIndex = this.getNamespace(namespace);
-        
-        const upsertResponse = await targetIndex.upsert(batch);
+        await this.store.upsert(batch, namespace);
         console.log(`✅ Batch ${index + 1}/${batches.length} completed (${batch.length} vectors)`);
-        return upsertResponse;
+        return batch.length;
       }
     );
 
@@ -135,11 +145,9 @@ export class PineconeOperationsService {
 
     return PineconeUtils.executeWithRetry(
       async () => {
-        const targetIndex = this.getNamespace(namespace);
-        
-        const deleteResponse = await targetIndex.deleteMany(ids);
+        await this.store.deleteMany(ids, namespace);
         console.log(`🗑️ Deleted ${ids.length} vectors`);
-        return deleteResponse;
+        return { deletedCount: ids.length };
       },
       {
         operationType: 'delete',
@@ -154,19 +162,15 @@ export class PineconeOperationsService {
    */
   async fetch(
     ids: string[],
-    namespace?: string,
-    includeMetadata: boolean = true,
-    includeValues: boolean = true
+    namespace?: string
   ): Promise<any> {
     if (ids.length === 0) {
-      return { vectors: {} };
+      return { records: {} };
     }
 
     return PineconeUtils.executeWithRetry(
       async () => {
-        const targetIndex = this.getNamespace(namespace);
-        
-        const fetchResponse = await targetIndex.fetch(ids);
+        const fetchResponse = await this.store.fetch(ids, namespace);
         
         return fetchResponse;
       },
@@ -307,7 +311,7 @@ export class PineconeOperationsService {
     includeValues: boolean = true
   ): Promise<any[]> {
     const queryResponse = await this.query(
-      new Array(1024).fill(0), // Dummy vector for filtering
+      new Array(embeddingService.dimensions).fill(0), // Dummy vector for filtering
       {
         topK: 1000, // Large number to get all project vectors
         filter: { projectId: { $eq: projectId } },
@@ -340,6 +344,90 @@ export class PineconeOperationsService {
     return this.delete(vectorIds, namespace);
   }
 
+  /**
+   * Re-embed vectors written by another embedding model, or before the model was recorded,
+   * using the text kept in their metadata. Vectors without any text keep their values and
+   * are marked as skipped for the current model, so later passes and runs pass over them.
+   */
+  async reembedStaleVectors(namespace?: string): Promise<{ reembedded: number; skipped: number }> {
+    const modelId = embeddingService.modelId;
+    const seen = new Set<string>();
+    let reembedded = 0;
+    let skipped = 0;
+    let waits = 0;
+
+    console.log(`🔄 Re-embedding vectors from other models with ${modelId}${namespace ? ` in ${namespace}` : ''}`);
+
+    // Every vector a pass returns is either re-embedded or marked as skipped, and both stop
+    // it matching the filter, so the loop ends when the filter matches nothing
+    while (true) {
+      const { matches } = await this.query(new Array(embeddingService.dimensions).fill(0), {
+        topK: 1000,
+        filter: {
+          $and: [
+            {
+              $or: [
+                { [EMBEDDING_MODEL_FIELD]: { $ne: modelId } },
+                { [EMBEDDING_MODEL_FIELD]: { $exists: false } }
+              ]
+            },
+            { [REEMBED_SKIPPED_FIELD]: { $ne: modelId } }
+          ]
+        },
+        includeMetadata: true,
+        includeValues: true,
+        namespace
+      });
+
+      if (matches.length === 0) {
+        break;
+      }
+
+      // Pinecone is eventually consistent, so the last pass's writes may not show in queries yet
+      const stale = (matches as Array<{ id: string; values: number[]; metadata?: Record<string, any> }>)
+        .filter(match => !seen.has(match.id));
+      if (stale.length === 0) {
+        if (++waits > REEMBED_MAX_WAITS) {
+          console.warn(`⚠️ Stopped re-embedding: ${matches.length} vectors still match after they were handled`);
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000 * waits));
+        continue;
+      }
+      waits = 0;
+
+      const items: Array<{ id: string; text: string; metadata: Record<string, any> }> = [];
+      const untouched: VectorOperation[] = [];
+      for (const match of stale) {
+        seen.add(match.id);
+        const metadata = match.metadata || {};
+        const text = metadata.text || [metadata.title, metadata.content].filter(Boolean).join('\n\n');
+        if (text) {
+          items.push({ id: match.id, text, metadata });
+        } else {
+          untouched.push({ id: match.id, values: match.values, metadata: { ...metadata, [REEMBED_SKIPPED_FIELD]: modelId } });
+        }
+      }
+
+      if (untouched.length > 0) {
+        await this.upsert(untouched, { namespace, keepEmbeddingModel: true });
+        skipped += untouched.length;
+      }
+
+      if (items.length > 0) {
+        const embeddings = await embeddingService.generateEmbeddingsBatch(items.map(item => item.text));
+        await this.upsert(
+          items.map((item, index) => ({ id: item.id, values: embeddings[index], metadata: item.metadata })),
+          { namespace }
+        );
+        reembedded += items.length;
+      }
+    }
+
+    console.log(`✅ Re-embedded ${reembedded} vectors (${skipped} without text skipped)`);
+    return { reembedded, skipped };
+  }
+
   /**
    * Health check for the service
    */
@@ -348,7 +436,7 @@ export class PineconeOperationsService {
       const startTime = Date.now();
       
       // Test basic connectivity
-      await this.query(new Array(1024).fill(0), {
+      await this.query(new Array(embeddingService.dimensions).fill(0), {
         topK: 1,
         includeMetadata: false,
         includeValues: false
@@ -369,6 +457,7 @@ export class PineconeOperationsService {
    */
   getMetrics() {
     return {
+      vectorStore: this.store.name,
       pinecone: PineconeUtils.getMetrics(),
       embedding: embeddingService.getCacheStats()
     };
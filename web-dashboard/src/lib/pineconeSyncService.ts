@@ -1,12 +1,10 @@
-import { 
-  getPineconeClient,
-  PINECONE_INDEX_NAME,
-  PINECONE_NAMESPACE_PROJECTS
-} from './pinecone';
+import { PINECONE_NAMESPACE_PROJECTS } from './pinecone';
 import { ProjectService } from './projectService';
 import { embeddingService } from './embeddingService';
-import { pineconeOperationsService } from './pineconeOperationsService';
+import { EMBEDDING_MODEL_FIELD, pineconeOperationsService } from './pineconeOperationsService';
+import { chunkDocument, chunkEmbeddingText, SPEC_DOCUMENTS } from './documentChunker';
 import { PineconeUtils } from './pineconeUtils';
+import { getVectorStore } from './vectorStore';
 import * as crypto from 'crypto';
 
 // Helper functions that were missing
@@ -18,19 +16,9 @@ function extractIdFromVectorId(vectorId: string): string {
   return vectorId.split(':')[1] || vectorId;
 }
 
-function getPineconeIndex() {
-  const pinecone = getPineconeClient();
-  return pinecone.index(PINECONE_INDEX_NAME);
-}
-
-// Use the optimized embedding service
+// Use the optimized embedding service; it falls back to the offline model on errors
 async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    return await embeddingService.generateEmbedding(text);
-  } catch (error) {
-    console.error('Failed to generate embedding:', error);
-    return embeddingService.generateFallbackEmbedding(text);
-  }
+  return embeddingService.generateEmbeddingWithFallback(text);
 }
 
 export interface SyncStatus {
@@ -114,12 +102,11 @@ class PineconeSyncService {
     try {
       console.log(`📊 Syncing project metadata for ${projectId}`);
       
-      const index = getPineconeIndex();
       const embedding = await generateEmbedding(localData.description || 'Project description');
       
       const vectorId = `project:${projectId}`;
       
-      await index.namespace(PINECONE_NAMESPACE_PROJECTS).upsert([
+      await pineconeOperationsService.upsert([
         {
           id: vectorId,
           values: embedding,
@@ -135,7 +122,7 @@ class PineconeSyncService {
             ...localData
           }
         }
-      ]);
+      ], { namespace: PINECONE_NAMESPACE_PROJECTS });
       
       console.log(`✅ Project metadata synced: ${vectorId}`);
     } catch (error) {
@@ -147,82 +134,20 @@ class PineconeSyncService {
     try {
       console.log(`📄 Syncing project documents for ${projectId}`);
       
-      const index = getPineconeIndex();
       let syncedItems = 0;
       
-      // Sync requirements document
-      if (localData.requirements && localData.requirements.trim()) {
-        const reqEmbedding = await generateEmbedding(localData.requirements);
-        const reqVectorId = `requirements:${projectId}`;
-        
-        await index.upsert([
-          {
-            id: reqVectorId,
-            values: reqEmbedding,
-            metadata: {
-              projectId,
-              type: 'requirements',
-              title: 'Requirements Document',
-              content: localData.requirements,
-              documentType: 'requirements',
-              lastModified: localData.lastModified || new Date().toISOString()
-            }
-          }
-        ]);
-        
-        console.log(`✅ Requirements synced: ${reqVectorId}`);
-        syncedItems++;
-      }
-      
-      // Sync design document
-      if (localData.design && localData.design.trim()) {
-        const designEmbedding = await generateEmbedding(localData.design);
-        const designVectorId = `design:${projectId}`;
-        
-        await index.upsert([
-          {
-            id: designVectorId,
-            values: designEmbedding,
-            metadata: {
-              projectId,
-              type: 'design',
-              title: 'Design Document',
-              content: localData.design,
-              documentType: 'design',
-              lastModified: localData.lastModified || new Date().toISOString()
-            }
-          }
-        ]);
-        
-        console.log(`✅ Design synced: ${designVectorId}`);
-        syncedItems++;
-      }
-      
-      // Sync tasks document
-      if (localData.tasks && localData.tasks.trim()) {
-        const tasksEmbedding = await generateEmbedding(localData.tasks);
-        const tasksVectorId = `tasks:${projectId}`;
-        
-        await index.upsert([
-          {
-            id: tasksVectorId,
-            values: tasksEmbedding,
-            metadata: {
-              projectId,
-              type: 'tasks',
-              title: 'Tasks Document',
-              content: localData.tasks,
-              documentType: 'tasks',
-              lastModified: localData.lastModified || new Date().toISOString()
-            }
-          }
-        ]);
-        
-        console.log(`✅ Tasks synced: ${tasksVectorId}`);
-        syncedItems++;
+      // Documents missing from localData are left alone; an empty one has its chunks removed
+      for (const { key } of SPEC_DOCUMENTS) {
+        if (typeof localData[key] !== 'string') {
+          continue;
+        }
+
+        const content = await ProjectService.getInstance().resolveDocumentContent(localData[key]);
+        const result = await this.syncDocumentChunks(projectId, key, content, localData.lastModified);
+        syncedItems += result.embedded;
       }
       
-      console.log(`📄 Project documents sync completed: ${syncedItems} documents synced`);
+      console.log(`📄 Project documents sync completed: ${syncedItems} chunks embedded`);
       return { syncedItems };
     } catch (error) {
       console.error(`❌ Failed to sync project documents:`, error);
@@ -230,16 +155,81 @@ class PineconeSyncService {
     }
   }
 
+  /**
+   * Embed a spec document as heading-scoped chunks, incrementally. Chunk ids are content
+   * hashes, so a chunk already stored with the current embedding model is left as it is;
+   * only new or edited chunks are embedded, and stored chunks no longer in the document
+   * (including the whole-document vector older syncs wrote) are deleted.
+   */
+  private async syncDocumentChunks(
+    projectId: string,
+    documentType: 'requirements' | 'design' | 'tasks',
+    content: string,
+    lastModified?: string
+  ): Promise<{ embedded: number; unchanged: number; deleted: number }> {
+    const spec = SPEC_DOCUMENTS.find(document => document.key === documentType)!;
+    const chunks = chunkDocument(documentType, spec.title, content);
+    const chunksByVectorId = new Map(chunks.map(chunk => [`${documentType}:${projectId}:${chunk.hash}`, chunk]));
+
+    const { matches } = await pineconeOperationsService.query(new Array(embeddingService.dimensions).fill(0), {
+      topK: 1000,
+      filter: {
+        projectId: { $eq: projectId },
+        type: { $eq: documentType }
+      },
+      includeMetadata: true
+    });
+    const storedModels = new Map<string, unknown>(
+      (matches as Array<{ id: string; metadata?: Record<string, any> }>).map(match => [match.id, match.metadata?.[EMBEDDING_MODEL_FIELD]])
+    );
+
+    const modelId = embeddingService.modelId;
+    const changed = [...chunksByVectorId].filter(([id]) => storedModels.get(id) !== modelId);
+    const removed = [...storedModels.keys()].filter(id => !chunksByVectorId.has(id));
+
+    if (changed.length > 0) {
+      const texts = changed.map(([, chunk]) => chunkEmbeddingText(chunk));
+      let embeddings: number[][];
+      try {
+        embeddings = await embeddingService.generateEmbeddingsBatch(texts);
+      } catch (error) {
+        console.error('Failed to generate chunk embeddings, using fallback:', error);
+        embeddings = texts.map(text => embeddingService.generateFallbackEmbedding(text));
+      }
+
+      await pineconeOperationsService.upsert(changed.map(([id, chunk], i) => ({
+        id,
+        values: embeddings[i],
+        metadata: {
+          projectId,
+          type: documentType,
+          title: `${spec.title} Document`,
+          documentType,
+          chunkId: chunk.id,
+          headings: chunk.headings.join(' › '),
+          content: chunk.text,
+          text: texts[i],
+          lastModified: lastModified || new Date().toISOString()
+        }
+      })));
+    }
+
+    await pineconeOperationsService.delete(removed);
+
+    const unchanged = chunks.length - changed.length;
+    console.log(`✅ ${spec.title} synced: ${changed.length} chunks embedded, ${unchanged} unchanged, ${removed.length} removed`);
+    return { embedded: changed.length, unchanged, deleted: removed.length };
+  }
+
   private async syncProgressData(projectId: string, localData: any): Promise<{ syncedItems: number }> {
     try {
       console.log(`📈 Syncing progress data for ${projectId}`);
       
       if (localData.progress) {
-        const index = getPineconeIndex();
         const progressEmbedding = await generateEmbedding(JSON.stringify(localData.progress));
         const progressVectorId = `progress:${projectId}`;
         
-        await index.upsert([
+        await pineconeOperationsService.upsert([
           {
             id: progressVectorId,
             values: progressEmbedding,
@@ -270,7 +260,6 @@ class PineconeSyncService {
       console.log(`📚 Syncing context documents for ${projectId}`);
       
       if (localData.contextDocuments && Array.isArray(localData.contextDocuments)) {
-        const index = getPineconeIndex();
         let syncedItems = 0;
         
         for (const doc of localData.contextDocuments) {
@@ -278,7 +267,7 @@ class PineconeSyncService {
             const docEmbedding = await generateEmbedding(doc.content);
             const docVectorId = `context:${projectId}:${doc.id || Date.now()}`;
             
-            await index.upsert([
+            await pineconeOperationsService.upsert([
               {
                 id: docVectorId,
                 values: docEmbedding,
@@ -318,12 +307,13 @@ class PineconeSyncService {
       const projectService = ProjectService.getInstance();
       
       // We need to get the userId from somewhere - for now, let's try to get it from the project metadata
-      const index = getPineconeIndex();
-      const projectQuery = await index.namespace(PINECONE_NAMESPACE_PROJECTS).query({
-        vector: new Array(1024).fill(0),
+      const store = getVectorStore();
+      const projectQuery = await store.query({
+        vector: new Array(embeddingService.dimensions).fill(0),
         filter: { projectId: projectId },
         topK: 1,
         includeMetadata: true,
+        namespace: PINECONE_NAMESPACE_PROJECTS
       });
 
       let userId: string | null = null;
@@ -370,14 +360,15 @@ class PineconeSyncService {
       documents.tasks = project.tasks || '';
 
       // Get context documents
-      const contextQuery = await index.namespace(PINECONE_NAMESPACE_PROJECTS).query({
-        vector: new Array(1024).fill(0),
+      const contextQuery = await store.query({
+        vector: new Array(embeddingService.dimensions).fill(0),
         filter: { 
           projectId: projectId,
           documentType: 'context'
         },
         topK: 100,
         includeMetadata: true,
+        namespace: PINECONE_NAMESPACE_PROJECTS
       });
 
       const contextDocs = contextQuery.matches?.map(match => ({
@@ -462,10 +453,24 @@ class PineconeSyncService {
     }
   }
 
-  // New method to embed a single main document (requirements, design, tasks)
+  // Embed a single main document (requirements, design, tasks); only its changed chunks are re-embedded
   async embedSingleMainDocument(projectId: string, documentType: string, content: string): Promise<{ success: boolean; message: string }> {
-    // Temporarily do nothing to avoid build errors
-    return { success: true, message: 'Embedding service temporarily disabled' };
+    const spec = SPEC_DOCUMENTS.find(document => document.key === documentType);
+    if (!spec) {
+      return { success: false, message: `Unknown document type: ${documentType}` };
+    }
+
+    try {
+      const resolved = await ProjectService.getInstance().resolveDocumentContent(content);
+      const { embedded, unchanged, deleted } = await this.syncDocumentChunks(projectId, spec.key, resolved);
+      return {
+        success: true,
+        message: `Embedded ${embedded} changed chunks of the ${documentType} document (${unchanged} unchanged, ${deleted} removed)`
+      };
+    } catch (error) {
+      console.error(`❌ Failed to embed ${documentType} document:`, error);
+      return { success: false, message: `Failed to embed ${documentType} document: ${error}` };
+    }
   }
 
   async searchContextDocuments(projectId: string, query: string, topK: number = 5): Promise<SearchResult[]> {
@@ -502,11 +507,8 @@ class PineconeSyncService {
     try {
       console.log('📄 Getting context document from Pinecone:', documentId);
 
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(process.env.NEXT_PUBLIC_PINECONE_INDEX_NAME || 'roki');
-
       // Fetch the specific document by ID
-      const fetchResponse = await index.fetch([documentId]);
+      const fetchResponse = await getVectorStore().fetch([documentId]);
 
       if (!fetchResponse.records || !fetchResponse.records[documentId]) {
         return { 
@@ -560,9 +562,6 @@ class PineconeSyncService {
     try {
       console.log('🔄 Updating context document in Pinecone:', documentId);
 
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(process.env.NEXT_PUBLIC_PINECONE_INDEX_NAME || 'roki');
-
       // Generate new embedding for the updated content
       const textToEmbed = `${updatedDocument.title}\n\n${updatedDocument.content}`;
       console.log('📝 Generating new embedding for updated document, text length:', textToEmbed.length);
@@ -583,8 +582,8 @@ class PineconeSyncService {
         url: updatedDocument.url || undefined
       };
 
-      // Update the document in Pinecone using upsert
-      await index.upsert([{
+      // Update the document in the vector store using upsert
+      await pineconeOperationsService.upsert([{
         id: documentId,
         values: embedding,
         metadata: metadata
@@ -609,11 +608,8 @@ class PineconeSyncService {
     try {
       console.log('🗑️ Deleting context document from Pinecone:', documentId);
 
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(process.env.NEXT_PUBLIC_PINECONE_INDEX_NAME || 'roki');
-
       // Delete the specific document by ID
-      await index.deleteOne(documentId);
+      await getVectorStore().deleteMany([documentId]);
 
       console.log('✅ Successfully deleted context document from Pinecone:', documentId);
       return { 
@@ -634,11 +630,8 @@ class PineconeSyncService {
     try {
       console.log('🗑️ Deleting all context documents for project:', projectId);
 
-      const pinecone = getPineconeClient();
-      const index = pinecone.index(process.env.NEXT_PUBLIC_PINECONE_INDEX_NAME || 'roki');
-
       // Delete all context documents for this project using filter
-      await index.deleteMany({
+      await getVectorStore().deleteByFilter({
         projectId: { $eq: projectId },
         type: { $eq: 'context' }
       });
@@ -134,10 +134,11 @@ export class PineconeUtils {
     const startTime = Date.now();
 
     while (retryCount < maxRetries) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
       try {
         // Create timeout promise with operation-specific timeout
         const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error(`Pinecone ${operationType} operation timed out after ${operationTimeout}ms`)), operationTimeout);
+          timer = setTimeout(() => reject(new Error(`Pinecone ${operationType} operation timed out after ${operationTimeout}ms`)), operationTimeout);
         });
 
         // Execute operation with timeout
@@ -162,6 +163,9 @@ export class PineconeUtils {
           console.log(`Retrying ${operationType} operation in ${Math.round(delay)}ms...`);
           await new Promise(resolve => setTimeout(resolve, delay));
         }
+      } finally {
+        // A pending timer would keep the process alive for the full timeout after every call
+        clearTimeout(timer);
       }
     }
 
@@ -0,0 +1,63 @@
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import { getPineconeClient, PINECONE_INDEX_NAME } from './pinecone';
+import type { MetadataFilter, VectorMatch, VectorQuery, VectorRecord, VectorStore } from './vectorStore';
+
+/**
+ * The hosted Pinecone index. Pinecone evaluates filters itself, so the semantics here are the
+ * reference the other stores follow.
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private index = getPineconeClient().index(PINECONE_INDEX_NAME);
+
+  private target(namespace?: string) {
+    return namespace ? this.index.namespace(namespace) : this.index;
+  }
+
+  async query(query: VectorQuery): Promise<{ matches: VectorMatch[] }> {
+    const { namespace, ...request } = query;
+    const response = await this.target(namespace).query({ ...request, filter: request.filter || undefined });
+    return {
+      matches: (response.matches || []).map(match => ({
+        id: match.id,
+        score: match.score ?? 0,
+        values: match.values && match.values.length > 0 ? match.values : undefined,
+        metadata: match.metadata
+      }))
+    };
+  }
+
+  async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await this.target(namespace).upsert(records.map(record => ({
+      id: record.id,
+      values: record.values,
+      metadata: record.metadata as RecordMetadata | undefined
+    })));
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<{ records: Record<string, VectorRecord> }> {
+    if (ids.length === 0) {
+      return { records: {} };
+    }
+    const response = await this.target(namespace).fetch(ids);
+    const records: Record<string, VectorRecord> = {};
+    for (const [id, record] of Object.entries(response.records || {})) {
+      records[id] = { id, values: record.values || [], metadata: record.metadata };
+    }
+    return { records };
+  }
+
+  async deleteMany(ids: string[], namespace?: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.target(namespace).deleteMany(ids);
+  }
+
+  async deleteByFilter(filter: MetadataFilter, namespace?: string): Promise<void> {
+    await this.target(namespace).deleteMany(filter);
+  }
+}
@@ -0,0 +1,84 @@
+import { ProjectService } from './projectService';
+import { StorageService } from './storage';
+import { TeamRole } from '@/types/shared';
+
+export type ProjectAccessRole = TeamRole | 'public';
+
+export interface ProjectAccess {
+  projectId: string;
+  ownerId: string;
+  role: ProjectAccessRole;
+  canRead: boolean;
+  canWrite: boolean;
+}
+
+// Roles that may change project data such as workflows; viewers and public visitors only read
+const WRITE_ROLES: ProjectAccessRole[] = ['owner', 'admin', 'editor'];
+
+/**
+ * Work out what the given user may do with a project.
+ *
+ * Access is granted, strongest first, to the owner, to users the project has been
+ * shared with (accepted invitations), to members of teams the project belongs to,
+ * and finally read-only to everyone if the project is public.
+ * Returns null when the project does not exist or the user cannot see it.
+ */
+export async function resolveProjectAccess(
+  projectId: string,
+  userId: string,
+  userEmail?: string
+): Promise<ProjectAccess | null> {
+  const project = await findProjectOwnership(projectId);
+  if (!project) {
+    return null;
+  }
+
+  const grant = (role: ProjectAccessRole): ProjectAccess => ({
+    projectId,
+    ownerId: project.ownerId,
+    role,
+    canRead: true,
+    canWrite: WRITE_ROLES.includes(role)
+  });
+
+  if (project.ownerId === userId) {
+    return grant('owner');
+  }
+
+  const storage = StorageService.getInstance();
+
+  if (userEmail) {
+    try {
+      const sharing = (await storage.projectShares.list({ projectId, sharedWithEmail: userEmail }))
+        .find(share => share.status === 'accepted' || share.status === 'active');
+      if (sharing) {
+        return grant(sharing.role || 'viewer');
+      }
+    } catch (error) {
+      console.error('⚠️ Failed to check project sharing:', error);
+    }
+  }
+
+  try {
+    const teamIds = new Set((await storage.teamProjects.list({ projectId })).map(teamProject => teamProject.teamId));
+
+    if (teamIds.size > 0) {
+      const roles = (await storage.teamMembers.list({ userId }))
+        .filter(member => teamIds.has(member.teamId) && member.status === 'active')
+        .map(member => member.role);
+
+      if (roles.length > 0) {
+        return grant(roles.find(role => WRITE_ROLES.includes(role)) || roles[0]);
+      }
+    }
+  } catch (error) {
+    console.error('⚠️ Failed to check team membership:', error);
+  }
+
+  return project.isPublic ? grant('public') : null;
+}
+
+async function findProjectOwnership(projectId: string): Promise<{ ownerId: string; isPublic: boolean } | null> {
+  const project = await ProjectService.getInstance().findProject(projectId);
+  return project ? { ownerId: project.userId, isPublic: project.isPublic || false } : null;
+}
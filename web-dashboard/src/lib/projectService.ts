@@ -15,6 +15,63 @@ export interface UserProject extends ProjectConfiguration {
   userId: string;
 }
 
+// Convert a Supabase project row to the UserProject format
+function toUserProject(project: SupabaseProject): UserProject {
+  return {
+    projectId: project.id,
+    userId: project.user_id,
+    name: project.name,
+    description: project.description,
+    template: project.template,
+    customTemplate: project.custom_template,
+    industry: project.industry,
+    customIndustry: project.custom_industry,
+    businessModel: project.business_model,
+    aiModel: project.ai_model,
+    technologyStack: project.technology_stack,
+    regulatoryCompliance: project.regulatory_compliance,
+    isPublic: project.is_public,
+    requirements: project.requirements,
+    design: project.design,
+    tasks: project.tasks,
+    progress: project.progress,
+    contextPreferences: project.context_preferences,
+    tokenTracking: project.token_tracking,
+    analysisData: project.analysis_data,
+    createdAt: project.created_at,
+    lastModified: project.updated_at
+  };
+}
+
+/**
+ * The project a vector store project record describes. Records synced from Supabase keep
+ * the row in projectData; older ones keep the project itself.
+ */
+function projectFromMetadata(metadata: Record<string, unknown>): UserProject {
+  let data: Record<string, any> = {};
+  try {
+    data = JSON.parse(String(metadata.projectData || '{}'));
+  } catch (error) {
+    console.error('Failed to parse project data:', error);
+  }
+
+  if (typeof data.user_id === 'string') {
+    return toUserProject(data as SupabaseProject);
+  }
+
+  return {
+    ...data,
+    projectId: String(metadata.projectId),
+    userId: String(metadata.userId),
+    name: String(metadata.name || data.name || 'Untitled Project'),
+    description: String(metadata.description || data.description || ''),
+    template: String(metadata.template || data.template || ''),
+    isPublic: Boolean(metadata.isPublic),
+    createdAt: String(metadata.createdAt || data.createdAt || ''),
+    lastModified: String(metadata.lastModified || data.lastModified || '')
+  } as UserProject;
+}
+
 export class ProjectService {
   private static instance: ProjectService;
   private supabaseService: SupabaseService;
@@ -275,33 +332,7 @@ export class ProjectService {
       const supabaseProject = await this.supabaseService.getProject(projectId, userId);
       
       if (supabaseProject) {
-        // Convert Supabase project to UserProject format
-        const userProject: UserProject = {
-          projectId: supabaseProject.id,
-          userId: supabaseProject.user_id,
-          name: supabaseProject.name,
-          description: supabaseProject.description,
-          template: supabaseProject.template,
-          customTemplate: supabaseProject.custom_template,
-          industry: supabaseProject.industry,
-          customIndustry: supabaseProject.custom_industry,
-          businessModel: supabaseProject.business_model,
-          aiModel: supabaseProject.ai_model,
-          technologyStack: supabaseProject.technology_stack,
-          regulatoryCompliance: supabaseProject.regulatory_compliance,
-          isPublic: supabaseProject.is_public,
-          requirements: supabaseProject.requirements,
-          design: supabaseProject.design,
-          tasks: supabaseProject.tasks,
-          progress: supabaseProject.progress,
-          contextPreferences: supabaseProject.context_preferences,
-          tokenTracking: supabaseProject.token_tracking,
-          analysisData: supabaseProject.analysis_data,
-          createdAt: supabaseProject.created_at,
-          lastModified: supabaseProject.updated_at
-        };
-        
-        return userProject;
+        return toUserProject(supabaseProject);
       }
     } catch (error) {
       console.error('Failed to get project from Supabase:', error);
@@ -311,6 +342,40 @@ export class ProjectService {
     return this.getProjectFromPinecone(userId, projectId);
   }
 
+  /**
+   * Look a project up by id without checking who is asking; callers check access first.
+   * Projects live in Supabase, with older ones only in the vector store, where their record
+   * is fetched by id rather than searched for.
+   */
+  async findProject(projectId: string): Promise<UserProject | null> {
+    try {
+      const project = await this.supabaseService.getProject(projectId);
+      if (project) {
+        return toUserProject(project);
+      }
+    } catch (error) {
+      console.error('⚠️ Failed to load project from Supabase, trying Pinecone:', error);
+    }
+
+    const index = getPineconeClient().index(PINECONE_INDEX_NAME);
+    const vectorId = createVectorId('user-project', projectId);
+    const fetchResponse = await index.namespace(PINECONE_NAMESPACE_PROJECTS).fetch([vectorId]);
+    const metadata = fetchResponse.records?.[vectorId]?.metadata;
+
+    return metadata ? projectFromMetadata(metadata) : null;
+  }
+
+  // Projects that no longer exist are left out
+  async findProjects(projectIds: string[]): Promise<UserProject[]> {
+    const projects = await Promise.all([...new Set(projectIds)].map(projectId => this.findProject(projectId)));
+    return projects.filter((project): project is UserProject => project !== null);
+  }
+
+  // Every project the user owns, most recently updated first
+  async getOwnedProjects(userId: string): Promise<UserProject[]> {
+    return (await this.supabaseService.getUserProjects(userId)).map(toUserProject);
+  }
+
   private async getProjectFromPinecone(userId: string, projectId: string): Promise<UserProject | null> {
     const pinecone = getPineconeClient();
     const index = pinecone.index(PINECONE_INDEX_NAME);
@@ -338,6 +403,27 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Large documents are stored separately and referenced as [CHUNKED:id]; returns
+   * the full content, or the content unchanged when it isn't a reference
+   */
+  async resolveDocumentContent(content: string): Promise<string> {
+    const chunkId = content.match(/^\[CHUNKED:(.+?)\]/)?.[1];
+    if (!chunkId) {
+      return content;
+    }
+
+    const pinecone = getPineconeClient();
+    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const chunkResponse = await index.namespace('project_documents').fetch([chunkId]);
+    const chunkContent = chunkResponse.records?.[chunkId]?.metadata?.content;
+
+    if (typeof chunkContent !== 'string') {
+      throw new Error(`Chunked document not found: ${chunkId}`);
+    }
+    return chunkContent;
+  }
+
   async updateProject(userId: string, projectId: string, updates: Partial<UserProject>): Promise<boolean> {
     try {
       // Get existing project to verify ownership
@@ -0,0 +1,397 @@
+// Repository layer for application records that used to be stored as Pinecone metadata
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { Application, ApplicationQuestion } from '@/types/applications';
+import type { ProjectNotification, TeamRole, UserNotificationPreferences } from '@/types/shared';
+
+export interface UserApiConfigRecord {
+  id: string; // user-config-<userId>
+  userId: string;
+  provider: string;
+  model: string;
+  baseUrl?: string;
+  encryptedApiKey: string;
+  updatedAt: string;
+}
+
+export interface BlogPostRecord {
+  id: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  authorId: string;
+  authorName: string;
+  projectId: string;
+  projectName: string;
+  tags: string[];
+  fundingStatus: string;
+  resourceNeeded: string;
+  publishedAt: string;
+  createdAt: string;
+  updatedAt: string;
+  readTime: number;
+  views: number;
+}
+
+// Dates in the records below are ISO strings
+
+export interface TeamRecord {
+  id: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TeamMemberRecord {
+  id: string;
+  teamId: string;
+  userId: string; // Empty until a member added by email signs in and joins
+  email: string;
+  role: TeamRole;
+  status: 'pending' | 'active' | 'inactive';
+  invitedBy: string;
+  invitedAt: string;
+  joinedAt: string;
+  updatedAt?: string;
+}
+
+export interface TeamInvitationRecord {
+  id: string;
+  teamId: string;
+  email: string;
+  role: TeamRole;
+  invitedBy: string;
+  invitedAt: string;
+  expiresAt: string;
+  status: 'pending' | 'accepted' | 'expired' | 'declined';
+  token: string;
+  respondedAt?: string;
+  teamMemberId?: string; // Set once an accepted invitation has made its member
+}
+
+export interface TeamProjectRecord {
+  id: string; // `${teamId}_${projectId}`
+  teamId: string;
+  projectId: string;
+  addedBy: string;
+  addedAt: string;
+  projectRole: TeamRole;
+}
+
+export interface ProjectShareRecord {
+  id: string;
+  projectId: string;
+  sharedWithEmail: string;
+  role: TeamRole;
+  sharedBy: string;
+  sharedByEmail?: string;
+  sharedAt: string;
+  expiresAt?: string;
+  status: 'pending' | 'accepted' | 'declined' | 'active' | 'revoked';
+  respondedAt?: string;
+}
+
+export interface NotificationRecord extends Omit<ProjectNotification, 'timestamp'> {
+  userId: string;
+  timestamp: string;
+  readAt?: string;
+}
+
+export interface NotificationPreferencesRecord extends Omit<UserNotificationPreferences, 'lastDigestSent'> {
+  id: string; // preferences_<userId>
+  lastDigestSent?: string;
+  updatedAt: string;
+}
+
+export interface StorageCollections {
+  userApiConfigs: UserApiConfigRecord;
+  blogPosts: BlogPostRecord;
+  teams: TeamRecord;
+  teamMembers: TeamMemberRecord;
+  teamInvitations: TeamInvitationRecord;
+  teamProjects: TeamProjectRecord;
+  projectShares: ProjectShareRecord;
+  applications: Application;
+  applicationQuestions: ApplicationQuestion;
+  notifications: NotificationRecord;
+  notificationPreferences: NotificationPreferencesRecord;
+}
+
+export type CollectionName = keyof StorageCollections;
+
+export const COLLECTION_NAMES: CollectionName[] = [
+  'userApiConfigs',
+  'blogPosts',
+  'teams',
+  'teamMembers',
+  'teamInvitations',
+  'teamProjects',
+  'projectShares',
+  'applications',
+  'applicationQuestions',
+  'notifications',
+  'notificationPreferences'
+];
+
+type StoredRecord = { id: string } & Record<string, unknown>;
+
+// Equality on top-level fields; every field has to match
+export type RecordFilter<T> = Partial<Pick<T, { [K in keyof T]: T[K] extends string | number | boolean | undefined ? K : never }[keyof T]>>;
+
+/**
+ * Where records are kept. Backends store each record as a JSON document keyed by
+ * collection and id, and return every match - there is no result cap.
+ */
+export interface StorageBackend {
+  readonly name: 'sqlite' | 'supabase';
+  get(collection: CollectionName, id: string): Promise<StoredRecord | null>;
+  list(collection: CollectionName, filter: Record<string, unknown>): Promise<StoredRecord[]>;
+  put(collection: CollectionName, record: StoredRecord): Promise<void>;
+  delete(collection: CollectionName, id: string): Promise<boolean>;
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function assertFilterFields(filter: Record<string, unknown>): void {
+  for (const field of Object.keys(filter)) {
+    if (!FIELD_NAME_PATTERN.test(field)) {
+      throw new Error(`Invalid filter field: ${field}`);
+    }
+  }
+}
+
+/**
+ * Single-file database for local development and self-hosting
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS app_records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        PRIMARY KEY (collection, id)
+      )
+    `);
+  }
+
+  async get(collection: CollectionName, id: string): Promise<StoredRecord | null> {
+    const row = this.db
+      .prepare('SELECT data FROM app_records WHERE collection = ? AND id = ?')
+      .get(collection, id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async list(collection: CollectionName, filter: Record<string, unknown>): Promise<StoredRecord[]> {
+    assertFilterFields(filter);
+    const fields = Object.keys(filter);
+    const conditions = fields.map(field => `json_extract(data, '$.${field}') = ?`);
+    // json_extract returns booleans as 1/0
+    const values = fields.map(field => (typeof filter[field] === 'boolean' ? Number(filter[field]) : filter[field]));
+
+    const rows = this.db
+      .prepare(`SELECT data FROM app_records WHERE ${['collection = ?', ...conditions].join(' AND ')} ORDER BY created_at`)
+      .all(collection, ...values) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async put(collection: CollectionName, record: StoredRecord): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO app_records (collection, id, data) VALUES (?, ?, ?)
+        ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      `)
+      .run(collection, record.id, JSON.stringify(record));
+  }
+
+  async delete(collection: CollectionName, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM app_records WHERE collection = ? AND id = ?').run(collection, id);
+    return result.changes > 0;
+  }
+}
+
+/**
+ * The app_records table in Supabase (see supabase-schema.sql), through the service client.
+ * The table has row level security and no policies, so only the service role can use it.
+ */
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly name = 'supabase';
+
+  // Imported lazily: the Supabase module throws when its environment is not configured
+  private async client() {
+    const { supabaseService } = await import('./supabase');
+    return supabaseService;
+  }
+
+  async get(collection: CollectionName, id: string): Promise<StoredRecord | null> {
+    const { data, error } = await (await this.client())
+      .from('app_records')
+      .select('data')
+      .eq('collection', collection)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching record:', error);
+      throw new Error(`Failed to fetch ${collection} record: ${error.message}`);
+    }
+
+    return data?.data ?? null;
+  }
+
+  async list(collection: CollectionName, filter: Record<string, unknown>): Promise<StoredRecord[]> {
+    assertFilterFields(filter);
+    let query = (await this.client())
+      .from('app_records')
+      .select('data')
+      .eq('collection', collection);
+
+    if (Object.keys(filter).length > 0) {
+      query = query.contains('data', filter);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing records:', error);
+      throw new Error(`Failed to list ${collection} records: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.data);
+  }
+
+  async put(collection: CollectionName, record: StoredRecord): Promise<void> {
+    const { error } = await (await this.client())
+      .from('app_records')
+      .upsert({ collection, id: record.id, data: record, updated_at: new Date().toISOString() }, { onConflict: 'collection,id' });
+
+    if (error) {
+      console.error('Error saving record:', error);
+      throw new Error(`Failed to save ${collection} record: ${error.message}`);
+    }
+  }
+
+  async delete(collection: CollectionName, id: string): Promise<boolean> {
+    const { data, error } = await (await this.client())
+      .from('app_records')
+      .delete()
+      .eq('collection', collection)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting record:', error);
+      throw new Error(`Failed to delete ${collection} record: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+export class Repository<T extends { id: string }> {
+  constructor(private backend: StorageBackend, private collection: CollectionName) {}
+
+  async get(id: string): Promise<T | null> {
+    return (await this.backend.get(this.collection, id)) as T | null;
+  }
+
+  async list(filter: RecordFilter<T> = {}): Promise<T[]> {
+    return (await this.backend.list(this.collection, filter as Record<string, unknown>)) as T[];
+  }
+
+  async findOne(filter: RecordFilter<T>): Promise<T | null> {
+    const [record] = await this.list(filter);
+    return record ?? null;
+  }
+
+  async put(record: T): Promise<T> {
+    await this.backend.put(this.collection, record as unknown as StoredRecord);
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.backend.delete(this.collection, id);
+  }
+}
+
+/**
+ * Typed repositories over the configured backend. STORAGE_BACKEND picks it explicitly
+ * ('sqlite' or 'supabase'); otherwise Supabase is used when it is configured and a SQLite
+ * file (STORAGE_SQLITE_PATH, default .ai-project/storage.db) when it is not. The Supabase
+ * backend needs SUPABASE_SERVICE_ROLE_KEY and refuses to start without it.
+ */
+export class StorageService {
+  private static instance: StorageService;
+
+  readonly userApiConfigs: Repository<UserApiConfigRecord>;
+  readonly blogPosts: Repository<BlogPostRecord>;
+  readonly teams: Repository<TeamRecord>;
+  readonly teamMembers: Repository<TeamMemberRecord>;
+  readonly teamInvitations: Repository<TeamInvitationRecord>;
+  readonly teamProjects: Repository<TeamProjectRecord>;
+  readonly projectShares: Repository<ProjectShareRecord>;
+  readonly applications: Repository<Application>;
+  readonly applicationQuestions: Repository<ApplicationQuestion>;
+  readonly notifications: Repository<NotificationRecord>;
+  readonly notificationPreferences: Repository<NotificationPreferencesRecord>;
+
+  private constructor(readonly backend: StorageBackend) {
+    this.userApiConfigs = this.repository('userApiConfigs');
+    this.blogPosts = this.repository('blogPosts');
+    this.teams = this.repository('teams');
+    this.teamMembers = this.repository('teamMembers');
+    this.teamInvitations = this.repository('teamInvitations');
+    this.teamProjects = this.repository('teamProjects');
+    this.projectShares = this.repository('projectShares');
+    this.applications = this.repository('applications');
+    this.applicationQuestions = this.repository('applicationQuestions');
+    this.notifications = this.repository('notifications');
+    this.notificationPreferences = this.repository('notificationPreferences');
+  }
+
+  static getInstance(): StorageService {
+    if (!StorageService.instance) {
+      StorageService.instance = new StorageService(StorageService.createBackend());
+      console.log(`🗄️ Storage backend: ${StorageService.instance.backend.name}`);
+    }
+    return StorageService.instance;
+  }
+
+  repository<K extends CollectionName>(collection: K): Repository<StorageCollections[K]> {
+    return new Repository<StorageCollections[K]>(this.backend, collection);
+  }
+
+  private static createBackend(): StorageBackend {
+    const configured = process.env.STORAGE_BACKEND;
+    if (configured && configured !== 'sqlite' && configured !== 'supabase') {
+      throw new Error(`Unknown STORAGE_BACKEND "${configured}" - use "sqlite" or "supabase"`);
+    }
+
+    const useSupabase = configured
+      ? configured === 'supabase'
+      : Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY);
+
+    if (useSupabase) {
+      // With the anon key every app_records query would be denied by row level security
+      if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('SUPABASE_SERVICE_ROLE_KEY is required for the Supabase storage backend');
+      }
+      return new SupabaseStorageBackend();
+    }
+
+    const filePath = process.env.STORAGE_SQLITE_PATH || path.join(process.cwd(), '.ai-project', 'storage.db');
+    return new SqliteStorageBackend(filePath);
+  }
+}
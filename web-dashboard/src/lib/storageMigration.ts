@@ -0,0 +1,289 @@
+// Moves application records out of Pinecone namespaces into the storage layer
+import type { Application, ApplicationQuestion } from '@/types/applications';
+import type { TeamRole } from '@/types/shared';
+import { getPineconeClient, PINECONE_INDEX_NAME } from './pinecone';
+import { encryptApiKey } from './secureConfig';
+import {
+  BlogPostRecord,
+  CollectionName,
+  NotificationPreferencesRecord,
+  NotificationRecord,
+  ProjectShareRecord,
+  StorageCollections,
+  StorageService,
+  TeamInvitationRecord,
+  TeamMemberRecord,
+  TeamProjectRecord,
+  TeamRecord,
+  UserApiConfigRecord
+} from './storage';
+
+type Metadata = Record<string, unknown>;
+
+interface NamespaceMigration {
+  namespace: string;
+  collection: CollectionName;
+  // Returns null for records that do not belong in the collection. The record's id may
+  // differ from the Pinecone id (applications drop their 'application-' prefix)
+  toRecord(id: string, metadata: Metadata): StorageCollections[CollectionName] | null;
+}
+
+export interface NamespaceMigrationResult {
+  namespace: string;
+  collection: CollectionName;
+  migrated: number;
+  existing: number; // Already in storage and left alone
+  skipped: number;
+}
+
+const PAGE_SIZE = 100;
+
+function text(value: unknown, fallback = ''): string {
+  return value === undefined || value === null ? fallback : String(value);
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+// JSON stored as a metadata string, or null when missing or malformed
+function parseJson<T>(value: unknown): T | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function userApiConfigFromMetadata(id: string, metadata: Metadata): UserApiConfigRecord | null {
+  // The namespace also holds subscription records, which stay where they are for now
+  if (!id.startsWith('user-config-') || metadata.type === 'user_subscription' || !metadata.userId) {
+    return null;
+  }
+
+  // Legacy configs kept the key in plain text
+  const encryptedApiKey = metadata.encryptedApiKey
+    ? text(metadata.encryptedApiKey)
+    : metadata.apiKey ? encryptApiKey(text(metadata.apiKey)) : '';
+  if (!encryptedApiKey) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: text(metadata.userId),
+    provider: text(metadata.provider),
+    model: text(metadata.model),
+    baseUrl: metadata.baseUrl ? text(metadata.baseUrl) : undefined,
+    encryptedApiKey,
+    updatedAt: text(metadata.timestamp, new Date().toISOString())
+  };
+}
+
+function blogPostFromMetadata(id: string, metadata: Metadata): BlogPostRecord {
+  let tags: string[] = [];
+  try {
+    tags = metadata.tags ? JSON.parse(text(metadata.tags)) : [];
+  } catch {
+    // Malformed tags are dropped
+  }
+
+  return {
+    id,
+    title: text(metadata.title),
+    content: text(metadata.content),
+    excerpt: text(metadata.excerpt),
+    authorId: text(metadata.authorId),
+    authorName: text(metadata.authorName),
+    projectId: text(metadata.projectId),
+    projectName: text(metadata.projectName),
+    tags,
+    fundingStatus: text(metadata.fundingStatus, 'N/A'),
+    resourceNeeded: text(metadata.resourceNeeded, 'N/A'),
+    publishedAt: text(metadata.publishedAt),
+    createdAt: text(metadata.createdAt),
+    updatedAt: text(metadata.updatedAt),
+    readTime: Number(metadata.readTime) || 0,
+    views: parseInt(text(metadata.views, '0')) || 0
+  };
+}
+
+function teamFromMetadata(id: string, metadata: Metadata): TeamRecord {
+  return {
+    id,
+    name: text(metadata.name),
+    description: optionalText(metadata.description),
+    ownerId: text(metadata.ownerId),
+    isActive: Boolean(metadata.isActive),
+    createdAt: text(metadata.createdAt),
+    updatedAt: text(metadata.updatedAt)
+  };
+}
+
+function teamMemberFromMetadata(id: string, metadata: Metadata): TeamMemberRecord {
+  return {
+    id,
+    teamId: text(metadata.teamId),
+    userId: text(metadata.userId),
+    email: text(metadata.email),
+    role: text(metadata.role, 'viewer') as TeamRole,
+    status: text(metadata.status, 'pending') as TeamMemberRecord['status'],
+    invitedBy: text(metadata.invitedBy),
+    invitedAt: text(metadata.invitedAt),
+    joinedAt: text(metadata.joinedAt),
+    updatedAt: optionalText(metadata.updatedAt)
+  };
+}
+
+function teamInvitationFromMetadata(id: string, metadata: Metadata): TeamInvitationRecord {
+  return {
+    id,
+    teamId: text(metadata.teamId),
+    email: text(metadata.email),
+    role: text(metadata.role, 'viewer') as TeamRole,
+    invitedBy: text(metadata.invitedBy),
+    invitedAt: text(metadata.invitedAt),
+    expiresAt: text(metadata.expiresAt),
+    status: text(metadata.status, 'pending') as TeamInvitationRecord['status'],
+    token: text(metadata.token),
+    respondedAt: optionalText(metadata.respondedAt),
+    teamMemberId: optionalText(metadata.teamMemberId)
+  };
+}
+
+function teamProjectFromMetadata(id: string, metadata: Metadata): TeamProjectRecord {
+  return {
+    id,
+    teamId: text(metadata.teamId),
+    projectId: text(metadata.projectId),
+    addedBy: text(metadata.addedBy),
+    addedAt: text(metadata.addedAt),
+    projectRole: text(metadata.projectRole, 'viewer') as TeamRole
+  };
+}
+
+function projectShareFromMetadata(id: string, metadata: Metadata): ProjectShareRecord {
+  return {
+    id,
+    projectId: text(metadata.projectId),
+    sharedWithEmail: text(metadata.sharedWithEmail),
+    role: text(metadata.role, 'viewer') as TeamRole,
+    sharedBy: text(metadata.sharedBy),
+    sharedByEmail: optionalText(metadata.sharedByEmail),
+    sharedAt: text(metadata.sharedAt),
+    expiresAt: optionalText(metadata.expiresAt),
+    status: text(metadata.status, 'pending') as ProjectShareRecord['status'],
+    respondedAt: optionalText(metadata.respondedAt)
+  };
+}
+
+// The application itself is JSON in applicationData; the other fields only drove queries
+function applicationFromMetadata(id: string, metadata: Metadata): Application | null {
+  const application = parseJson<Application>(metadata.applicationData);
+  return application?.id ? application : null;
+}
+
+function applicationQuestionFromMetadata(id: string, metadata: Metadata): ApplicationQuestion | null {
+  const question = parseJson<ApplicationQuestion>(metadata.questionData);
+  return question?.id ? question : null;
+}
+
+function notificationFromMetadata(id: string, metadata: Metadata): NotificationRecord | null {
+  if (!metadata.userId) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: text(metadata.userId),
+    projectId: text(metadata.projectId),
+    projectName: text(metadata.projectName),
+    type: text(metadata.type) as NotificationRecord['type'],
+    message: text(metadata.message),
+    timestamp: text(metadata.timestamp, new Date().toISOString()),
+    isRead: Boolean(metadata.isRead),
+    metadata: parseJson<NotificationRecord['metadata']>(metadata.metadata) || undefined,
+    readAt: optionalText(metadata.readAt)
+  };
+}
+
+function notificationPreferencesFromMetadata(id: string, metadata: Metadata): NotificationPreferencesRecord | null {
+  if (!metadata.userId) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: text(metadata.userId),
+    emailNotifications: Boolean(metadata.emailNotifications),
+    projectUpdates: Boolean(metadata.projectUpdates),
+    taskCompletions: Boolean(metadata.taskCompletions),
+    teamChanges: Boolean(metadata.teamChanges),
+    projectSharing: Boolean(metadata.projectSharing),
+    digestFrequency: text(metadata.digestFrequency, 'daily') as NotificationPreferencesRecord['digestFrequency'],
+    lastDigestSent: optionalText(metadata.lastDigestSent),
+    updatedAt: text(metadata.updatedAt, new Date().toISOString())
+  };
+}
+
+export const NAMESPACE_MIGRATIONS: NamespaceMigration[] = [
+  { namespace: 'user-api-configs', collection: 'userApiConfigs', toRecord: userApiConfigFromMetadata },
+  { namespace: 'blog-posts', collection: 'blogPosts', toRecord: blogPostFromMetadata },
+  { namespace: 'teams', collection: 'teams', toRecord: teamFromMetadata },
+  { namespace: 'team_members', collection: 'teamMembers', toRecord: teamMemberFromMetadata },
+  { namespace: 'team_invitations', collection: 'teamInvitations', toRecord: teamInvitationFromMetadata },
+  { namespace: 'team_projects', collection: 'teamProjects', toRecord: teamProjectFromMetadata },
+  { namespace: 'project_sharing', collection: 'projectShares', toRecord: projectShareFromMetadata },
+  { namespace: 'applications', collection: 'applications', toRecord: applicationFromMetadata },
+  { namespace: 'application-questions', collection: 'applicationQuestions', toRecord: applicationQuestionFromMetadata },
+  { namespace: 'user_notifications', collection: 'notifications', toRecord: notificationFromMetadata },
+  { namespace: 'user_notification_preferences', collection: 'notificationPreferences', toRecord: notificationPreferencesFromMetadata }
+];
+
+/**
+ * Copies every record of the migrated namespaces into storage. Records are listed by ID
+ * page by page rather than queried, so nothing is cut off by topK. Records already in
+ * storage are kept unless overwrite is set, so the migration can be re-run safely.
+ */
+export async function migrateNamespacesToStorage(options: { overwrite?: boolean } = {}): Promise<NamespaceMigrationResult[]> {
+  const index = getPineconeClient().index(PINECONE_INDEX_NAME);
+  const storage = StorageService.getInstance();
+  const results: NamespaceMigrationResult[] = [];
+
+  for (const migration of NAMESPACE_MIGRATIONS) {
+    const namespace = index.namespace(migration.namespace);
+    const repository = storage.repository(migration.collection);
+    const result: NamespaceMigrationResult = { namespace: migration.namespace, collection: migration.collection, migrated: 0, existing: 0, skipped: 0 };
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await namespace.listPaginated({ limit: PAGE_SIZE, paginationToken });
+      const ids = (page.vectors || []).map(vector => vector.id).filter((id): id is string => Boolean(id));
+
+      if (ids.length > 0) {
+        const { records } = await namespace.fetch(ids);
+        for (const id of ids) {
+          const record = records[id] ? migration.toRecord(id, records[id].metadata || {}) : null;
+          if (!record) {
+            result.skipped++;
+          } else if (!options.overwrite && await repository.get(record.id)) {
+            result.existing++;
+          } else {
+            await repository.put(record);
+            result.migrated++;
+          }
+        }
+      }
+
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    console.log(`🗄️ Migrated ${result.migrated} records from ${migration.namespace} to ${migration.collection} (${result.existing} existing, ${result.skipped} skipped)`);
+    results.push(result);
+  }
+
+  return results;
+}
@@ -8,12 +8,17 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
+// Server-side tables such as app_records have row level security and no policies, so the
+// anon key can't stand in for the service key: every query would quietly return nothing
+if (!supabaseServiceKey) {
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY environment variable');
+}
+
 // Client for client-side operations (with RLS)
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // Service client for server-side operations (bypasses RLS)
-// Fallback to anon key if service key is not available
-export const supabaseService = createClient(supabaseUrl, supabaseServiceKey || supabaseAnonKey, {
+export const supabaseService = createClient(supabaseUrl, supabaseServiceKey, {
   auth: {
     autoRefreshToken: false,
     persistSession: false
@@ -68,6 +73,45 @@ export interface ProjectRequirement {
   updated_at: string;
 }
 
+export interface ProjectWorkflow {
+  id: string;
+  project_id: string;
+  version: number;
+  nodes: any[];
+  edges: any[];
+  message?: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export type ProjectWorkflowSummary = Omit<ProjectWorkflow, 'nodes' | 'edges'>;
+
+export interface WorkflowResult {
+  id: string;
+  project_id: string;
+  execution_id: string;
+  workflow_version?: number | null;
+  results: any;
+  created_by: string;
+  created_at: string;
+}
+
+export type DocumentVersionSource = 'dashboard' | 'vscode' | 'ai-generation' | 'restore' | 'import';
+
+export interface DocumentVersion {
+  id: string;
+  project_id: string;
+  document: string;
+  content_hash: string;
+  parent_hash?: string | null;
+  author: string;
+  author_name?: string | null;
+  source: DocumentVersionSource;
+  message?: string | null;
+  size: number;
+  created_at: string;
+}
+
 export interface Opportunity {
   id: string;
   opportunity_name: string;
@@ -333,6 +377,194 @@ export class SupabaseService {
     }
   }
 
+  // Workflow operations
+  async saveWorkflowVersion(
+    workflowData: Pick<ProjectWorkflow, 'project_id' | 'nodes' | 'edges' | 'message' | 'created_by'>
+  ): Promise<ProjectWorkflow> {
+    // Versions are unique per project, so retry if someone else saved the same number first
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const latest = await this.getWorkflow(workflowData.project_id);
+      const { data, error } = await supabaseService
+        .from('project_workflows')
+        .insert([{
+          ...workflowData,
+          version: (latest?.version || 0) + 1,
+          created_at: new Date().toISOString()
+        }])
+        .select()
+        .single();
+
+      if (!error) {
+        return data;
+      }
+
+      if (error.code !== '23505') {
+        console.error('Error saving workflow:', error);
+        throw new Error(`Failed to save workflow: ${error.message}`);
+      }
+    }
+
+    throw new Error('Failed to save workflow: too many concurrent saves');
+  }
+
+  async getWorkflow(projectId: string, version?: number): Promise<ProjectWorkflow | null> {
+    let query = supabaseService
+      .from('project_workflows')
+      .select('*')
+      .eq('project_id', projectId);
+
+    query = version !== undefined
+      ? query.eq('version', version)
+      : query.order('version', { ascending: false }).limit(1);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('Error fetching workflow:', error);
+      throw new Error(`Failed to fetch workflow: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getWorkflowVersions(projectId: string): Promise<ProjectWorkflowSummary[]> {
+    const { data, error } = await supabaseService
+      .from('project_workflows')
+      .select('id, project_id, version, message, created_by, created_at')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching workflow versions:', error);
+      throw new Error(`Failed to fetch workflow versions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async saveWorkflowResult(resultData: Omit<WorkflowResult, 'id' | 'created_at'>): Promise<WorkflowResult> {
+    const { data, error } = await supabaseService
+      .from('workflow_results')
+      .upsert([{
+        ...resultData,
+        created_at: new Date().toISOString()
+      }], { onConflict: 'project_id,execution_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving workflow result:', error);
+      throw new Error(`Failed to save workflow result: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getWorkflowResults(projectId: string, limit = 20): Promise<WorkflowResult[]> {
+    const { data, error } = await supabaseService
+      .from('workflow_results')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching workflow results:', error);
+      throw new Error(`Failed to fetch workflow results: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Document history operations
+  async saveDocumentBlob(hash: string, content: string): Promise<void> {
+    // Content-addressed: an existing blob with this hash already holds the same content
+    const { error } = await supabaseService
+      .from('document_blobs')
+      .upsert([{
+        hash,
+        content,
+        size: Buffer.byteLength(content, 'utf-8'),
+        created_at: new Date().toISOString()
+      }], { onConflict: 'hash', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error saving document blob:', error);
+      throw new Error(`Failed to save document blob: ${error.message}`);
+    }
+  }
+
+  async getDocumentBlob(hash: string): Promise<string | null> {
+    const { data, error } = await supabaseService
+      .from('document_blobs')
+      .select('content')
+      .eq('hash', hash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching document blob:', error);
+      throw new Error(`Failed to fetch document blob: ${error.message}`);
+    }
+
+    return data?.content ?? null;
+  }
+
+  async createDocumentVersion(versionData: Omit<DocumentVersion, 'id' | 'created_at'>): Promise<DocumentVersion> {
+    const { data, error } = await supabaseService
+      .from('document_versions')
+      .insert([{
+        ...versionData,
+        created_at: new Date().toISOString()
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating document version:', error);
+      throw new Error(`Failed to create document version: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getDocumentVersions(projectId: string, document?: string, limit = 50): Promise<DocumentVersion[]> {
+    let query = supabaseService
+      .from('document_versions')
+      .select('*')
+      .eq('project_id', projectId);
+
+    if (document) {
+      query = query.eq('document', document);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching document versions:', error);
+      throw new Error(`Failed to fetch document versions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDocumentVersion(projectId: string, versionId: string): Promise<DocumentVersion | null> {
+    const { data, error } = await supabaseService
+      .from('document_versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', versionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching document version:', error);
+      throw new Error(`Failed to fetch document version: ${error.message}`);
+    }
+
+    return data;
+  }
+
   // Opportunity operations
   async createOpportunity(opportunityData: Omit<Opportunity, 'id' | 'created_at' | 'updated_at'>): Promise<Opportunity> {
     const { data, error } = await supabaseService
@@ -0,0 +1,314 @@
+// Dependency graph over tasks.md: validation, critical path and unblocked tasks
+import { TaskParser, ParsedTask } from './taskParser';
+
+export type TaskGraphStatus = 'completed' | 'unblocked' | 'blocked';
+
+export type DependencyIssueType = 'missing-task' | 'self-dependency' | 'cycle' | 'duplicate-number';
+
+export interface DependencyIssue {
+  type: DependencyIssueType;
+  taskId: string;
+  message: string;
+  relatedTaskIds: string[];
+}
+
+export interface TaskGraphNode {
+  id: string; // Task number, e.g. "2.1"
+  title: string;
+  level: number;
+  isCompleted: boolean;
+  parentId?: string;
+  dependencies: string[]; // Declared dependencies that exist in the document
+  dependents: string[];
+  status: TaskGraphStatus;
+  blockedBy: string[]; // Incomplete tasks this one waits for, including its parent's dependencies
+  depth: number; // Longest chain of dependencies before this task, used for layout
+  inCycle: boolean;
+  onCriticalPath: boolean;
+}
+
+export interface TaskGraphEdge {
+  from: string; // The dependency
+  to: string; // The task that depends on it
+  critical: boolean;
+}
+
+export interface TaskDependencyGraph {
+  nodes: TaskGraphNode[];
+  edges: TaskGraphEdge[];
+  issues: DependencyIssue[];
+  /** Longest chain of remaining work, first task to last */
+  criticalPath: string[];
+  /** Incomplete tasks whose dependencies are all done, in document order */
+  unblocked: string[];
+}
+
+/**
+ * Build the dependency graph for parsed tasks. Tasks are keyed by their number, so
+ * `_Depends: 2.1, 3_` refers to tasks "2.1" and "3". A subtask also waits for
+ * whatever its parent depends on.
+ */
+export function buildDependencyGraph(tasks: ParsedTask[]): TaskDependencyGraph {
+  const issues: DependencyIssue[] = [];
+  const nodes = new Map<string, TaskGraphNode>();
+  const declared = new Map<string, string[]>();
+
+  // Parent ids come from the parser, which gives top-level tasks positional ids
+  const numberById = new Map(tasks.map(task => [task.id, TaskParser.getTaskNumber(task)]));
+
+  for (const task of tasks) {
+    const id = TaskParser.getTaskNumber(task);
+    if (nodes.has(id)) {
+      issues.push({
+        type: 'duplicate-number',
+        taskId: id,
+        message: `Task number ${id} is used more than once; dependencies refer to the first one`,
+        relatedTaskIds: []
+      });
+      continue;
+    }
+
+    nodes.set(id, {
+      id,
+      title: TaskParser.getTaskTitle(task),
+      level: task.level,
+      isCompleted: task.isCompleted,
+      parentId: task.parentId ? numberById.get(task.parentId) : undefined,
+      dependencies: [],
+      dependents: [],
+      status: 'blocked',
+      blockedBy: [],
+      depth: 0,
+      inCycle: false,
+      onCriticalPath: false
+    });
+    declared.set(id, task.dependencies || []);
+  }
+
+  // Resolve declared dependencies, dropping the ones that can't be edges
+  for (const [id, references] of declared) {
+    const node = nodes.get(id)!;
+    for (const reference of new Set(references)) {
+      if (reference === id) {
+        issues.push({
+          type: 'self-dependency',
+          taskId: id,
+          message: `Task ${id} depends on itself`,
+          relatedTaskIds: []
+        });
+      } else if (!nodes.has(reference)) {
+        issues.push({
+          type: 'missing-task',
+          taskId: id,
+          message: `Task ${id} depends on task ${reference}, which does not exist`,
+          relatedTaskIds: [reference]
+        });
+      } else {
+        node.dependencies.push(reference);
+        nodes.get(reference)!.dependents.push(id);
+      }
+    }
+  }
+
+  const components = findCycles(nodes);
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) => {
+    const members = component.map(id => nodes.get(id)!);
+    members.forEach(member => {
+      member.inCycle = true;
+      componentOf.set(member.id, index);
+    });
+    issues.push({
+      type: 'cycle',
+      taskId: component[0],
+      message: `Tasks ${component.join(' → ')} → ${component[0]} depend on each other in a cycle`,
+      relatedTaskIds: component
+    });
+  });
+
+  // Edges inside a cycle are ignored for ordering, which leaves the rest acyclic
+  const isOrderingEdge = (from: string, to: string) =>
+    !componentOf.has(from) || componentOf.get(from) !== componentOf.get(to);
+
+  const order = topologicalOrder(nodes, isOrderingEdge);
+
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    node.depth = node.dependencies
+      .filter(dependency => isOrderingEdge(dependency, id))
+      .reduce((depth, dependency) => Math.max(depth, nodes.get(dependency)!.depth + 1), 0);
+  }
+
+  // Status, with parent dependencies inherited by subtasks
+  for (const node of nodes.values()) {
+    if (node.isCompleted) {
+      node.status = 'completed';
+      continue;
+    }
+    const waitingFor = new Set<string>();
+    for (let current: TaskGraphNode | undefined = node; current; current = current.parentId ? nodes.get(current.parentId) : undefined) {
+      current.dependencies
+        .filter(dependency => !nodes.get(dependency)!.isCompleted)
+        .forEach(dependency => waitingFor.add(dependency));
+    }
+    node.blockedBy = Array.from(waitingFor);
+    node.status = node.blockedBy.length === 0 && !node.inCycle ? 'unblocked' : 'blocked';
+  }
+
+  const criticalPath = findCriticalPath(nodes, order);
+  criticalPath.forEach(id => {
+    nodes.get(id)!.onCriticalPath = true;
+  });
+  const criticalEdges = new Set(criticalPath.slice(1).map((id, index) => `${criticalPath[index]}->${id}`));
+
+  const edges: TaskGraphEdge[] = [];
+  for (const node of nodes.values()) {
+    for (const dependency of node.dependencies) {
+      edges.push({ from: dependency, to: node.id, critical: criticalEdges.has(`${dependency}->${node.id}`) });
+    }
+  }
+
+  const graphNodes = Array.from(nodes.values());
+  return {
+    nodes: graphNodes,
+    edges,
+    issues,
+    criticalPath,
+    unblocked: graphNodes.filter(node => node.status === 'unblocked').map(node => node.id)
+  };
+}
+
+/**
+ * Parse tasks.md content and build its dependency graph
+ */
+export function analyzeTaskDependencies(content: string): TaskDependencyGraph {
+  return buildDependencyGraph(TaskParser.parseTasksMarkdown(content).tasks);
+}
+
+/**
+ * Validation only: cycles, self-dependencies, duplicate numbers and missing tasks
+ */
+export function validateTaskDependencies(tasks: ParsedTask[]): DependencyIssue[] {
+  return buildDependencyGraph(tasks).issues;
+}
+
+/**
+ * Strongly connected components with more than one task (Tarjan), each listed
+ * in document order
+ */
+function findCycles(nodes: Map<string, TaskGraphNode>): string[][] {
+  const position = new Map(Array.from(nodes.keys()).map((id, index) => [id, index]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dependency of nodes.get(id)!.dependencies) {
+      if (!index.has(dependency)) {
+        visit(dependency);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dependency)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1) {
+        cycles.push(component.sort((a, b) => position.get(a)! - position.get(b)!));
+      }
+    }
+  };
+
+  for (const id of nodes.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Kahn's algorithm over the edges accepted by the filter, ties broken by document order
+ */
+function topologicalOrder(
+  nodes: Map<string, TaskGraphNode>,
+  isOrderingEdge: (from: string, to: string) => boolean
+): string[] {
+  const remaining = new Map<string, number>();
+  for (const node of nodes.values()) {
+    remaining.set(node.id, node.dependencies.filter(dependency => isOrderingEdge(dependency, node.id)).length);
+  }
+
+  const order: string[] = [];
+  const ready = Array.from(nodes.keys()).filter(id => remaining.get(id) === 0);
+  const position = new Map(Array.from(nodes.keys()).map((id, index) => [id, index]));
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependent of nodes.get(id)!.dependents) {
+      if (!isOrderingEdge(id, dependent)) continue;
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) {
+        ready.push(dependent);
+        ready.sort((a, b) => position.get(a)! - position.get(b)!);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Longest chain of incomplete tasks. Completed tasks no longer hold anything up and
+ * tasks in a cycle can't be scheduled, so both are left out.
+ */
+function findCriticalPath(nodes: Map<string, TaskGraphNode>, order: string[]): string[] {
+  const length = new Map<string, number>();
+  const previous = new Map<string, string>();
+  let end: string | null = null;
+
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    if (node.isCompleted || node.inCycle) continue;
+
+    let best = 0;
+    for (const dependency of node.dependencies) {
+      const dependencyLength = length.get(dependency);
+      if (dependencyLength !== undefined && dependencyLength > best) {
+        best = dependencyLength;
+        previous.set(id, dependency);
+      }
+    }
+
+    length.set(id, best + 1);
+    if (end === null || best + 1 > length.get(end)!) {
+      end = id;
+    }
+  }
+
+  const path: string[] = [];
+  for (let current = end; current; current = previous.get(current) ?? null) {
+    path.unshift(current);
+  }
+  return path;
+}
@@ -0,0 +1,242 @@
+// Semantic merge for tasks.md: merges task by task instead of line by line
+import { TaskParser, ParsedTask } from './taskParser';
+import { merge2, merge3, MergeConflict, MergeOptions, MergeOutcome } from './diff3';
+
+export type TaskField = 'title' | 'details' | 'requirements' | 'dependencies' | 'text';
+
+export interface TaskMergeConflict {
+  taskId: string;
+  title: string;
+  fields: TaskField[];
+  lineNumber: number; // 1-based line of the task in the merged output
+  localContent: string;
+  remoteContent: string;
+  baseContent?: string;
+}
+
+export interface TaskMergeOutcome extends MergeOutcome {
+  mode: 'semantic' | 'textual';
+  taskConflicts: TaskMergeConflict[];
+  /** Tasks whose completion differed between the sides and was merged */
+  mergedCompletions: string[];
+  /** Why the semantic merge fell back to a textual one */
+  fallbackReason?: string;
+}
+
+// A task line plus everything up to the next task line (details, requirements, headings)
+interface TaskBlock {
+  key: string;
+  task: ParsedTask;
+  lines: string[];
+}
+
+interface TaskDocument {
+  preamble: string[];
+  blocks: TaskBlock[];
+}
+
+// Same shape TaskParser recognises as a task line
+const TASK_LINE_PATTERN = /^(\s*)-\s*\[([ x])\]\s*(.+)$/;
+
+/**
+ * Merge two versions of tasks.md at the task level. Completions are unioned,
+ * concurrent edits to the same task are reported per task, and task order and
+ * numbering are kept. When the two sides no longer have the same tasks in the same
+ * order, falls back to a textual diff3 merge.
+ */
+export function mergeTasksMarkdown(
+  local: string,
+  remote: string,
+  base?: string,
+  options: MergeOptions = {}
+): TaskMergeOutcome {
+  const localDoc = splitTaskDocument(local);
+  const remoteDoc = splitTaskDocument(remote);
+  const baseDoc = base !== undefined ? splitTaskDocument(base) : null;
+
+  const divergence = findStructuralDivergence(localDoc, remoteDoc);
+  if (divergence) {
+    return textualFallback(local, remote, base, options, divergence);
+  }
+
+  const baseBlocks = new Map<string, TaskBlock>();
+  for (const block of baseDoc?.blocks || []) {
+    // Unnumbered tasks are only matched by position, which the base can't be trusted for
+    if (!isPositionalKey(block.key)) {
+      baseBlocks.set(block.key, block);
+    }
+  }
+
+  const mergedLines: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  const taskConflicts: TaskMergeConflict[] = [];
+  const mergedCompletions: string[] = [];
+  let autoMergedTaskLines = 0;
+
+  const appendMerge = (outcome: MergeOutcome) => {
+    for (const conflict of outcome.conflicts) {
+      conflicts.push({ ...conflict, lineNumber: conflict.lineNumber + mergedLines.length });
+    }
+    autoMergedTaskLines += outcome.autoMergedTaskLines;
+    mergedLines.push(...outcome.mergedLines);
+  };
+
+  appendMerge(mergeSection(localDoc.preamble, remoteDoc.preamble, baseDoc?.preamble, options));
+
+  for (let i = 0; i < localDoc.blocks.length; i++) {
+    const localBlock = localDoc.blocks[i];
+    const remoteBlock = remoteDoc.blocks[i];
+    const baseBlock = baseBlocks.get(localBlock.key);
+
+    const completed = mergeCompletion(
+      localBlock.task.isCompleted,
+      remoteBlock.task.isCompleted,
+      baseBlock?.task.isCompleted
+    );
+    if (localBlock.task.isCompleted !== remoteBlock.task.isCompleted) {
+      mergedCompletions.push(localBlock.key);
+    }
+
+    // With the checkbox settled, whatever still differs is a real edit to the task
+    const localLines = withCompletion(localBlock.lines, completed);
+    const remoteLines = withCompletion(remoteBlock.lines, completed);
+    const baseLines = baseBlock ? withCompletion(baseBlock.lines, completed) : undefined;
+
+    const lineNumber = mergedLines.length + 1;
+    const outcome = mergeSection(localLines, remoteLines, baseLines, options);
+
+    if (!outcome.success) {
+      taskConflicts.push({
+        taskId: localBlock.key,
+        title: localBlock.task.title,
+        fields: changedFields(localBlock.task, remoteBlock.task),
+        lineNumber,
+        localContent: localLines.join('\n'),
+        remoteContent: remoteLines.join('\n'),
+        baseContent: baseLines?.join('\n')
+      });
+    }
+
+    appendMerge(outcome);
+  }
+
+  return {
+    mode: 'semantic',
+    success: conflicts.length === 0,
+    mergedLines,
+    mergedContent: mergedLines.join('\n'),
+    conflicts,
+    autoMergedTaskLines,
+    taskConflicts,
+    mergedCompletions
+  };
+}
+
+/**
+ * Split tasks.md into the text before the first task and one block per task,
+ * pairing each block with TaskParser's view of that task
+ */
+function splitTaskDocument(content: string): TaskDocument {
+  const { tasks } = TaskParser.parseTasksMarkdown(content);
+  const lines = content.split('\n');
+  const preamble: string[] = [];
+  const blocks: TaskBlock[] = [];
+
+  for (const line of lines) {
+    // Headings are skipped by the parser, so a line that looks like a task there isn't one
+    if (!line.startsWith('#') && TASK_LINE_PATTERN.test(line)) {
+      const task = tasks[blocks.length];
+      blocks.push({ key: TaskParser.getTaskNumber(task), task, lines: [line] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  return { preamble, blocks };
+}
+
+/**
+ * Semantic merging needs both sides to list the same tasks in the same order
+ */
+function findStructuralDivergence(local: TaskDocument, remote: TaskDocument): string | null {
+  if (local.blocks.length !== remote.blocks.length) {
+    return `Task count differs (${local.blocks.length} local, ${remote.blocks.length} remote)`;
+  }
+
+  const seen = new Set<string>();
+  for (let i = 0; i < local.blocks.length; i++) {
+    const localBlock = local.blocks[i];
+    const remoteBlock = remote.blocks[i];
+
+    if (localBlock.key !== remoteBlock.key) {
+      return `Task order differs at position ${i + 1} (${localBlock.key} local, ${remoteBlock.key} remote)`;
+    }
+    if (localBlock.task.level !== remoteBlock.task.level) {
+      return `Task ${localBlock.key} was moved to a different level`;
+    }
+    if (seen.has(localBlock.key)) {
+      return `Task number ${localBlock.key} is used more than once`;
+    }
+    seen.add(localBlock.key);
+  }
+
+  return null;
+}
+
+function isPositionalKey(key: string): boolean {
+  return key.startsWith('task-');
+}
+
+function textualFallback(
+  local: string,
+  remote: string,
+  base: string | undefined,
+  options: MergeOptions,
+  reason: string
+): TaskMergeOutcome {
+  const outcome = base !== undefined
+    ? merge3(local, base, remote, { taskAware: true, ...options })
+    : merge2(local, remote, { taskAware: true, ...options });
+
+  return {
+    ...outcome,
+    mode: 'textual',
+    taskConflicts: [],
+    mergedCompletions: [],
+    fallbackReason: reason
+  };
+}
+
+function mergeSection(local: string[], remote: string[], base: string[] | undefined, options: MergeOptions): MergeOutcome {
+  const sectionOptions = { ...options, taskAware: false };
+  return base
+    ? merge3(local.join('\n'), base.join('\n'), remote.join('\n'), sectionOptions)
+    : merge2(local.join('\n'), remote.join('\n'), sectionOptions);
+}
+
+/**
+ * Completions are unioned; an uncheck only survives when the base shows the other
+ * side left the box as it was
+ */
+function mergeCompletion(local: boolean, remote: boolean, base?: boolean): boolean {
+  if (local === remote) return local;
+  if (base === true) return false;
+  return true;
+}
+
+function withCompletion(lines: string[], completed: boolean): string[] {
+  const [taskLine, ...rest] = lines;
+  return [taskLine.replace(/\[[ x]\]/, completed ? '[x]' : '[ ]'), ...rest];
+}
+
+function changedFields(local: ParsedTask, remote: ParsedTask): TaskField[] {
+  const fields: TaskField[] = [];
+  if (local.title !== remote.title) fields.push('title');
+  if ((local.details || []).join('\n') !== (remote.details || []).join('\n')) fields.push('details');
+  if ((local.requirements || []).join(',') !== (remote.requirements || []).join(',')) fields.push('requirements');
+  if ((local.dependencies || []).join(',') !== (remote.dependencies || []).join(',')) fields.push('dependencies');
+  // Edits the parser doesn't model, such as notes or headings inside the block
+  return fields.length > 0 ? fields : ['text'];
+}
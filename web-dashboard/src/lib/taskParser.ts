@@ -9,6 +9,7 @@ export interface ParsedTask {
   isSubtask: boolean;
   parentId?: string;
   requirements?: string[];
+  dependencies?: string[]; // Task numbers from a `_Depends: 2.1, 3_` or `_Dependencies: ..._` line
   details?: string[];
 }
 
@@ -23,6 +24,7 @@ export class TaskParser {
   private static readonly TASK_REGEX = /^(\s*)-\s*\[([ x])\]\s*(.+)$/gm;
   private static readonly SUBTASK_REGEX = /^(\s*)-\s*\[([ x])\]\s*(\d+\.\d+)\s+(.+)$/gm;
   private static readonly REQUIREMENTS_REGEX = /_Requirements:\s*([^_]+)_/;
+  private static readonly DEPENDS_REGEX = /_(?:Depends(?:\s+on)?|Dependencies):\s*([^_]+)_/i;
   private static readonly DETAILS_REGEX = /^\s*-\s+(.+)$/gm;
 
   /**
@@ -73,6 +75,7 @@ export class TaskParser {
 
         // Extract requirements and details from following lines
         const requirements: string[] = [];
+        const dependencies: string[] = [];
         const details: string[] = [];
         
         // Look ahead for requirements and details
@@ -89,10 +92,16 @@ export class TaskParser {
           if (reqMatch) {
             requirements.push(...reqMatch[1].split(',').map(r => r.trim()));
           }
+
+          // Extract dependencies on other tasks
+          const dependsMatch = nextLine.match(TaskParser.DEPENDS_REGEX);
+          if (dependsMatch) {
+            dependencies.push(...TaskParser.parseTaskReferences(dependsMatch[1]));
+          }
           
           // Extract details (bullet points)
           const detailMatch = nextLine.match(/^\s*-\s+(.+)$/);
-          if (detailMatch && !nextLine.includes('_Requirements:')) {
+          if (detailMatch && !reqMatch && !dependsMatch) {
             details.push(detailMatch[1]);
           }
         }
@@ -105,6 +114,7 @@ export class TaskParser {
           isSubtask,
           parentId: currentParentId,
           requirements: requirements.length > 0 ? requirements : undefined,
+          dependencies: dependencies.length > 0 ? dependencies : undefined,
           details: details.length > 0 ? details : undefined
         };
 
@@ -125,6 +135,36 @@ export class TaskParser {
     };
   }
 
+  /**
+   * The number a task is referred to by, e.g. "2.1". Top-level "1. Title" tasks get a
+   * positional task-N id from the parser, so their number is taken from the title.
+   */
+  static getTaskNumber(task: ParsedTask): string {
+    if (!task.id.startsWith('task-')) {
+      return task.id;
+    }
+    const numberMatch = task.title.match(/^(\d+(?:\.\d+)*)\.?\s/);
+    return numberMatch ? numberMatch[1] : task.id;
+  }
+
+  /**
+   * Task title without the "1." prefix top-level tasks keep from the parser
+   */
+  static getTaskTitle(task: ParsedTask): string {
+    return task.id.startsWith('task-') ? task.title.replace(/^\d+(?:\.\d+)*\.?\s+/, '') : task.title;
+  }
+
+  /**
+   * Splits a comma separated list of task numbers such as "2.1, 3., task 4".
+   * "None" means the task has no dependencies.
+   */
+  static parseTaskReferences(value: string): string[] {
+    return value
+      .split(',')
+      .map(ref => ref.trim().replace(/^task\s+/i, '').replace(/\.$/, ''))
+      .filter(ref => ref.length > 0 && !/^(none|n\/a|-)$/i.test(ref));
+  }
+
   /**
    * Updates task completion status in markdown content
    */
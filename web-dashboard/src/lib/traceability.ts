@@ -0,0 +1,206 @@
+// Requirements-to-tasks traceability: which tasks implement which requirements
+import { TaskParser, ParsedTask } from './taskParser';
+
+export interface AcceptanceCriterion {
+  id: string; // Requirement id plus criterion number, e.g. "1.2"
+  text: string;
+  line: number; // 1-based line in requirements.md
+}
+
+export interface ParsedRequirement {
+  id: string; // "1" for "### Requirement 1", "3.1.1" for "**Requirement 3.1.1: Title**"
+  title?: string;
+  userStory?: string;
+  criteria: AcceptanceCriterion[];
+  line: number;
+}
+
+export type RequirementTraceStatus = 'untraced' | 'not-started' | 'in-progress' | 'complete';
+
+export interface TracedTask {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+}
+
+export interface CriterionTrace {
+  criterion: AcceptanceCriterion;
+  taskIds: string[];
+}
+
+export interface RequirementTrace {
+  requirement: ParsedRequirement;
+  /** Tasks referencing the requirement itself or any of its criteria */
+  taskIds: string[];
+  criteria: CriterionTrace[];
+  status: RequirementTraceStatus;
+}
+
+export interface UnknownRequirementReference {
+  taskId: string;
+  taskTitle: string;
+  reference: string;
+}
+
+export interface TraceabilityMatrix {
+  requirements: RequirementTrace[];
+  tasks: TracedTask[];
+  /** Requirements no task references */
+  untraced: string[];
+  /** Requirements whose tasks are all complete */
+  complete: string[];
+  unknownReferences: UnknownRequirementReference[];
+  /** Share of requirements with at least one task, 0-100 */
+  coverage: number;
+}
+
+// "### Requirement 2", "### Requirement 2: Title" or "**Requirement 3.1.1: Title**"
+const HEADING_REQUIREMENT = /^#{2,4}\s+Requirement\s+(\d+(?:\.\d+)*)\s*(?:[:\-–]\s*(.+))?$/i;
+const BOLD_REQUIREMENT = /^\s*[-*]?\s*\*\*Requirement\s+(\d+(?:\.\d+)*)\s*(?:[:\-–]\s*([^*]+))?\*\*/i;
+const USER_STORY = /\*\*User Story:?\*\*:?\s*(.+)$/i;
+const CRITERIA_HEADING = /^(?:#{2,5}\s+|\s*[-*]?\s*\*\*)Acceptance Criteria/i;
+const NUMBERED_ITEM = /^\s*(\d+)\.\s+(.+)$/;
+
+// References that don't name a single requirement, used by generated specs
+const BROAD_REFERENCES = new Set(['all']);
+
+/**
+ * Parse requirement ids, user stories and numbered acceptance criteria from
+ * requirements.md. Criteria are numbered within their requirement, so criterion 2
+ * of requirement 1 is "1.2" - the form tasks use in `_Requirements: 1.2_`.
+ */
+export function parseRequirementsMarkdown(content: string): ParsedRequirement[] {
+  const requirements: ParsedRequirement[] = [];
+  const lines = content.split('\n');
+  let current: ParsedRequirement | null = null;
+  let inCriteria = false;
+
+  lines.forEach((line, index) => {
+    const headingMatch = line.match(HEADING_REQUIREMENT) || line.match(BOLD_REQUIREMENT);
+    if (headingMatch) {
+      current = {
+        id: headingMatch[1],
+        title: headingMatch[2]?.trim() || undefined,
+        criteria: [],
+        line: index + 1
+      };
+      requirements.push(current);
+      inCriteria = false;
+      return;
+    }
+
+    if (!current) return;
+
+    // Any other heading at requirement level or above ends the requirement
+    if (/^#{1,3}\s/.test(line) && !CRITERIA_HEADING.test(line)) {
+      current = null;
+      inCriteria = false;
+      return;
+    }
+
+    const storyMatch = line.match(USER_STORY);
+    if (storyMatch) {
+      current.userStory = storyMatch[1].trim();
+      return;
+    }
+
+    if (CRITERIA_HEADING.test(line)) {
+      inCriteria = true;
+      return;
+    }
+
+    const itemMatch = inCriteria ? line.match(NUMBERED_ITEM) : null;
+    if (itemMatch) {
+      current.criteria.push({
+        id: `${current.id}.${itemMatch[1]}`,
+        text: itemMatch[2].trim(),
+        line: index + 1
+      });
+    } else if (inCriteria && /^\s*[-*]\s*\*\*/.test(line)) {
+      // "- **Priority:** High" and similar fields close the criteria list
+      inCriteria = false;
+    }
+  });
+
+  return requirements;
+}
+
+/**
+ * Match task `_Requirements:_` references against requirements.md. A reference may
+ * name a requirement ("2") or one of its acceptance criteria ("2.3").
+ */
+export function buildTraceabilityMatrix(requirementsContent: string, tasksContent: string): TraceabilityMatrix {
+  const requirements = parseRequirementsMarkdown(requirementsContent);
+  const { tasks } = TaskParser.parseTasksMarkdown(tasksContent);
+  return traceRequirements(requirements, tasks);
+}
+
+export function traceRequirements(requirements: ParsedRequirement[], tasks: ParsedTask[]): TraceabilityMatrix {
+  const requirementTasks = new Map<string, Set<string>>();
+  const criterionTasks = new Map<string, Set<string>>();
+  const criterionOwner = new Map<string, string>();
+
+  for (const requirement of requirements) {
+    requirementTasks.set(requirement.id, new Set());
+    for (const criterion of requirement.criteria) {
+      criterionTasks.set(criterion.id, new Set());
+      criterionOwner.set(criterion.id, requirement.id);
+    }
+  }
+
+  const tracedTasks: TracedTask[] = [];
+  const unknownReferences: UnknownRequirementReference[] = [];
+
+  for (const task of tasks) {
+    const taskId = TaskParser.getTaskNumber(task);
+    const title = TaskParser.getTaskTitle(task);
+    tracedTasks.push({ id: taskId, title, isCompleted: task.isCompleted });
+
+    for (const reference of new Set(task.requirements || [])) {
+      if (!reference || BROAD_REFERENCES.has(reference.toLowerCase())) continue;
+
+      // Requirement ids are checked first; "3.1" can be a requirement in numbered specs
+      if (requirementTasks.has(reference)) {
+        requirementTasks.get(reference)!.add(taskId);
+      } else if (criterionTasks.has(reference)) {
+        criterionTasks.get(reference)!.add(taskId);
+        requirementTasks.get(criterionOwner.get(reference)!)!.add(taskId);
+      } else {
+        unknownReferences.push({ taskId, taskTitle: title, reference });
+      }
+    }
+  }
+
+  const completion = new Map(tracedTasks.map(task => [task.id, task.isCompleted]));
+
+  const traces: RequirementTrace[] = requirements.map(requirement => {
+    const taskIds = Array.from(requirementTasks.get(requirement.id)!);
+    const done = taskIds.filter(id => completion.get(id)).length;
+
+    let status: RequirementTraceStatus = 'untraced';
+    if (taskIds.length > 0) {
+      status = done === taskIds.length ? 'complete' : done > 0 ? 'in-progress' : 'not-started';
+    }
+
+    return {
+      requirement,
+      taskIds,
+      criteria: requirement.criteria.map(criterion => ({
+        criterion,
+        taskIds: Array.from(criterionTasks.get(criterion.id)!)
+      })),
+      status
+    };
+  });
+
+  const untraced = traces.filter(trace => trace.status === 'untraced').map(trace => trace.requirement.id);
+
+  return {
+    requirements: traces,
+    tasks: tracedTasks,
+    untraced,
+    complete: traces.filter(trace => trace.status === 'complete').map(trace => trace.requirement.id),
+    unknownReferences,
+    coverage: traces.length > 0 ? Math.round(((traces.length - untraced.length) / traces.length) * 100) : 0
+  };
+}
@@ -0,0 +1,97 @@
+// Metadata filter evaluation and similarity for the stores that don't run on Pinecone
+import type { MetadataFilter, VectorMetadata } from './vectorStore';
+
+const COMPARISON_OPERATORS = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists'];
+
+function isOperatorObject(condition: unknown): condition is Record<string, unknown> {
+  return typeof condition === 'object' && condition !== null && !Array.isArray(condition)
+    && Object.keys(condition).every(key => key.startsWith('$'));
+}
+
+function equals(value: unknown, expected: unknown): boolean {
+  return Array.isArray(value) ? value.some(element => element === expected) : value === expected;
+}
+
+function compare(value: unknown, operator: string, expected: unknown): boolean {
+  if (typeof value !== 'number' || typeof expected !== 'number') {
+    return false;
+  }
+  switch (operator) {
+    case '$gt': return value > expected;
+    case '$gte': return value >= expected;
+    case '$lt': return value < expected;
+    default: return value <= expected;
+  }
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    return equals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, expected]) => {
+    switch (operator) {
+      case '$eq':
+        return equals(value, expected);
+      case '$ne':
+        return !equals(value, expected);
+      case '$in':
+        return Array.isArray(expected) && expected.some(option => equals(value, option));
+      case '$nin':
+        return !Array.isArray(expected) || !expected.some(option => equals(value, option));
+      case '$exists':
+        return (value !== undefined) === Boolean(expected);
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        return compare(value, operator, expected);
+      default:
+        throw new Error(`Unsupported filter operator: ${operator} (supported: ${COMPARISON_OPERATORS.join(', ')})`);
+    }
+  });
+}
+
+/**
+ * Whether metadata passes a Pinecone-style filter. Fields missing from the metadata
+ * match $ne and $nin and nothing else.
+ */
+export function matchesFilter(metadata: VectorMetadata | undefined, filter: MetadataFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(clause => matchesFilter(metadata, clause));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(clause => matchesFilter(metadata, clause));
+    }
+    return matchesCondition(metadata?.[key], condition);
+  });
+}
+
+export function vectorNorm(vector: number[]): number {
+  let sum = 0;
+  for (const value of vector) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Cosine similarity; 0 when either vector is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[], normA = vectorNorm(a), normB = vectorNorm(b)): number {
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot / (normA * normB);
+}
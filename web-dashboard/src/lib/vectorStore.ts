@@ -0,0 +1,102 @@
+// Vector storage behind the search and sync services, so Pinecone can be swapped for a
+// self-hosted store
+import path from 'path';
+import { HnswVectorStore } from './hnswVectorStore';
+import { PgVectorStore } from './pgVectorStore';
+import { PineconeVectorStore } from './pineconeVectorStore';
+
+export type MetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, MetadataValue>;
+
+/**
+ * Pinecone's metadata filter language: { field: value } or { field: { $op: value } },
+ * combined with $and / $or. Supported operators are $eq, $ne, $gt, $gte, $lt, $lte, $in,
+ * $nin and $exists. For list-of-strings fields, $eq and $in match when any element matches.
+ */
+export type MetadataFilter = Record<string, unknown>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+  namespace?: string;
+}
+
+/**
+ * Records live in namespaces; leaving the namespace out means the default one, as with a
+ * Pinecone index. Scores are cosine similarity, higher is closer. A query with an all-zero
+ * vector has no direction, so it returns filter matches in no particular order. Most routes
+ * list records by metadata with a constant dummy vector (`new Array(1024).fill(0.1)`)
+ * instead; that returns the same filter matches, up to topK, but ordered by a similarity
+ * that means nothing.
+ */
+export interface VectorStore {
+  readonly name: 'pinecone' | 'pgvector' | 'hnsw';
+  query(query: VectorQuery): Promise<{ matches: VectorMatch[] }>;
+  upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+  fetch(ids: string[], namespace?: string): Promise<{ records: Record<string, VectorRecord> }>;
+  deleteMany(ids: string[], namespace?: string): Promise<void>;
+  deleteByFilter(filter: MetadataFilter, namespace?: string): Promise<void>;
+}
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * The configured store. VECTOR_STORE picks it explicitly ('pinecone', 'pgvector' or 'hnsw');
+ * otherwise Pinecone is used when an API key is set and the local HNSW store when it is not.
+ * The HNSW store keeps its records under VECTOR_STORE_PATH (default .ai-project/vectors), or
+ * only in memory when VECTOR_STORE_PATH is set to 'memory'.
+ */
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    vectorStore = createVectorStore();
+    console.log(`🧭 Vector store: ${vectorStore.name}`);
+  }
+  return vectorStore;
+}
+
+/**
+ * Replaces the configured store, e.g. with an in-memory one in tests
+ */
+export function setVectorStore(store: VectorStore): void {
+  vectorStore = store;
+}
+
+function createVectorStore(): VectorStore {
+  const configured = process.env.VECTOR_STORE;
+  if (configured && !['pinecone', 'pgvector', 'hnsw'].includes(configured)) {
+    throw new Error(`Unknown VECTOR_STORE "${configured}" - use "pinecone", "pgvector" or "hnsw"`);
+  }
+
+  const name = configured || (process.env.NEXT_PUBLIC_PINECONE_API_KEY || process.env.PINECONE_API_KEY ? 'pinecone' : 'hnsw');
+
+  if (name === 'pinecone') {
+    return new PineconeVectorStore();
+  }
+
+  if (name === 'pgvector') {
+    const connectionString = process.env.PGVECTOR_DATABASE_URL || process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('PGVECTOR_DATABASE_URL or DATABASE_URL environment variable is required for the pgvector store');
+    }
+    return new PgVectorStore(connectionString);
+  }
+
+  const storePath = process.env.VECTOR_STORE_PATH || path.join(process.cwd(), '.ai-project', 'vectors');
+  return new HnswVectorStore(storePath === 'memory' ? undefined : storePath);
+}
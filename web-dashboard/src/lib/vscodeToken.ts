@@ -0,0 +1,99 @@
+// Bearer tokens issued to the VS Code extension
+import { sign, verify } from 'jsonwebtoken';
+
+export const VSCODE_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Read on use rather than at import so builds without the secret still succeed
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is required for VS Code tokens');
+  }
+  return secret;
+}
+
+export interface VSCodeTokenUser {
+  userId: string;
+  email: string;
+  name: string;
+}
+
+export interface VSCodeTokenClaims extends VSCodeTokenUser {
+  type: 'vscode';
+  exp: number;
+  iat: number;
+}
+
+export interface IssuedVSCodeToken extends VSCodeTokenUser {
+  token: string;
+  expiresIn: string;
+  expiresAt: string; // ISO timestamp, so the extension can refresh ahead of expiry
+}
+
+// The parts of a Clerk user a token is issued for
+interface ClerkUserIdentity {
+  id: string;
+  emailAddresses: Array<{ emailAddress: string }>;
+  firstName: string | null;
+  lastName: string | null;
+  username: string | null;
+}
+
+export function vscodeTokenUser(user: ClerkUserIdentity): VSCodeTokenUser {
+  return {
+    userId: user.id,
+    email: user.emailAddresses[0]?.emailAddress || '',
+    name: user.firstName && user.lastName
+      ? `${user.firstName} ${user.lastName}`
+      : user.username || 'User'
+  };
+}
+
+export function signVSCodeToken(user: VSCodeTokenUser): IssuedVSCodeToken {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: VSCodeTokenClaims = {
+    userId: user.userId,
+    email: user.email,
+    name: user.name || 'User',
+    type: 'vscode',
+    exp: now + VSCODE_TOKEN_TTL_SECONDS,
+    iat: now
+  };
+
+  return {
+    token: sign(claims, jwtSecret()),
+    expiresIn: '30 days',
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    userId: claims.userId,
+    email: claims.email,
+    name: claims.name
+  };
+}
+
+/**
+ * Returns the token's claims, or null when it is invalid, expired or not a VS Code token.
+ * Throws when JWT_SECRET is not set, so a misconfigured server fails instead of rejecting
+ * every token.
+ */
+export function verifyVSCodeToken(token: string): VSCodeTokenClaims | null {
+  const secret = jwtSecret();
+  try {
+    const decoded = verify(token, secret) as VSCodeTokenClaims;
+    if (decoded.type !== 'vscode') {
+      return null;
+    }
+    if (decoded.exp && decoded.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+export function getBearerToken(authHeader: string | null): string | null {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7);
+}
@@ -0,0 +1,415 @@
+import { runSandboxed, SandboxError, SandboxLimits, DEFAULT_SANDBOX_LIMITS } from './workflowSandbox';
+
+/**
+ * Executes WorkflowBuilder graphs.
+ *
+ * Nodes run in topological order. Each node receives the outputs of its upstream
+ * nodes (a single value for one incoming edge, an array for several) and produces
+ * one output. Executable node types:
+ * - input       — emits the run input, or its configured `parameters`
+ * - process     — applies `transformType` (map / filter / sort / reduce / aggregate)
+ * - conditional — evaluates `condition` and only follows the matching true/false edges
+ * - code        — runs the `code` snippet in a sandboxed worker
+ * - output      — collects its input into the run outputs
+ * Business nodes (team, client, supplier, ...) pass their input through unchanged.
+ *
+ * A node whose incoming edges were all on untaken branches is skipped, as is
+ * everything downstream of it. The first failing node stops the run.
+ */
+
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export interface WorkflowGraphNode {
+  id: string;
+  type?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface WorkflowGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+}
+
+export interface WorkflowValidationIssue {
+  code: 'empty-workflow' | 'dangling-edge' | 'cycle' | 'unconnected-input' | 'missing-config';
+  message: string;
+  nodeIds: string[];
+}
+
+export interface WorkflowNodeEvent {
+  nodeId: string;
+  status: WorkflowNodeStatus;
+  output?: unknown;
+  error?: string;
+  logs?: string[];
+  branch?: 'true' | 'false';
+  durationMs?: number;
+}
+
+export interface WorkflowRunResult {
+  executionId: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  nodeResults: Record<string, WorkflowNodeEvent>;
+  outputs: Record<string, unknown>;
+}
+
+export interface WorkflowRunOptions {
+  projectId?: string;
+  input?: unknown;
+  limits?: SandboxLimits;
+  signal?: AbortSignal;
+  onNodeEvent?: (event: WorkflowNodeEvent) => void;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(public issues: WorkflowValidationIssue[]) {
+    super(issues.map(issue => issue.message).join('; '));
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+// Node types that consume data and therefore need at least one incoming edge
+const INPUT_REQUIRED_TYPES = ['process', 'conditional', 'code', 'output'];
+
+function nodeName(node: WorkflowGraphNode): string {
+  return (node.data?.label as string) || node.id;
+}
+
+/**
+ * Check a graph can be run: every edge points at existing nodes, there are no
+ * cycles, every data-consuming node has an input, and conditional/code nodes
+ * are configured.
+ */
+export function validateWorkflow(nodes: WorkflowGraphNode[], edges: WorkflowGraphEdge[]): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+
+  if (nodes.length === 0) {
+    return [{ code: 'empty-workflow', message: 'Workflow has no nodes', nodeIds: [] }];
+  }
+
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const validEdges = edges.filter(edge => {
+    if (nodeById.has(edge.source) && nodeById.has(edge.target)) return true;
+    issues.push({
+      code: 'dangling-edge',
+      message: `Connection ${edge.id} points to a node that no longer exists`,
+      nodeIds: [edge.source, edge.target].filter(id => nodeById.has(id))
+    });
+    return false;
+  });
+
+  const cycleNodes = findCycleNodes(nodes, validEdges);
+  if (cycleNodes.length > 0) {
+    issues.push({
+      code: 'cycle',
+      message: `Workflow contains a cycle through: ${cycleNodes.map(id => nodeName(nodeById.get(id)!)).join(', ')}`,
+      nodeIds: cycleNodes
+    });
+  }
+
+  const targets = new Set(validEdges.map(edge => edge.target));
+  for (const node of nodes) {
+    if (INPUT_REQUIRED_TYPES.includes(node.type || '') && !targets.has(node.id)) {
+      issues.push({
+        code: 'unconnected-input',
+        message: `"${nodeName(node)}" has no incoming connection`,
+        nodeIds: [node.id]
+      });
+    }
+
+    if (node.type === 'conditional' && !String(node.data?.condition || '').trim()) {
+      issues.push({
+        code: 'missing-config',
+        message: `Conditional "${nodeName(node)}" has no condition`,
+        nodeIds: [node.id]
+      });
+    }
+
+    if (node.type === 'code' && !String(node.data?.code || '').trim()) {
+      issues.push({
+        code: 'missing-config',
+        message: `Code node "${nodeName(node)}" has no code`,
+        nodeIds: [node.id]
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Nodes that lie on a cycle (or between two cycles). Trims nodes without
+ * incoming edges, then nodes without outgoing edges; whatever remains cannot be
+ * ordered.
+ */
+function findCycleNodes(nodes: WorkflowGraphNode[], edges: WorkflowGraphEdge[]): string[] {
+  const remaining = new Set(nodes.map(node => node.id));
+
+  const trim = (direction: 'incoming' | 'outgoing') => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const id of remaining) {
+        const hasEdge = edges.some(edge =>
+          remaining.has(edge.source) && remaining.has(edge.target) &&
+          (direction === 'incoming' ? edge.target : edge.source) === id
+        );
+        if (!hasEdge) {
+          remaining.delete(id);
+          changed = true;
+        }
+      }
+    }
+  };
+
+  trim('incoming');
+  trim('outgoing');
+  return Array.from(remaining);
+}
+
+/**
+ * Topological order of the graph (Kahn's algorithm, keeping the original node
+ * order among ready nodes). Assumes the graph has been validated.
+ */
+export function topologicalOrder(nodes: WorkflowGraphNode[], edges: WorkflowGraphEdge[]): WorkflowGraphNode[] {
+  const inDegree = new Map(nodes.map(node => [node.id, 0]));
+  for (const edge of edges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+  }
+
+  const ready = nodes.filter(node => inDegree.get(node.id) === 0);
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const order: WorkflowGraphNode[] = [];
+
+  while (ready.length > 0) {
+    const node = ready.shift()!;
+    order.push(node);
+    for (const edge of edges) {
+      if (edge.source !== node.id) continue;
+      const degree = inDegree.get(edge.target)! - 1;
+      inDegree.set(edge.target, degree);
+      if (degree === 0) {
+        ready.push(nodeById.get(edge.target)!);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Validate and run a workflow, reporting every node transition through
+ * `onNodeEvent`. Throws WorkflowValidationError before running anything if the
+ * graph is invalid.
+ */
+export async function runWorkflow(
+  nodes: WorkflowGraphNode[],
+  edges: WorkflowGraphEdge[],
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult> {
+  const issues = validateWorkflow(nodes, edges);
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues);
+  }
+
+  const executionId = `exec_${Date.now()}`;
+  const startedAt = new Date();
+  const limits = options.limits || DEFAULT_SANDBOX_LIMITS;
+  const nodeResults: Record<string, WorkflowNodeEvent> = {};
+  const outputs: Record<string, unknown> = {};
+  const nodeOutputs = new Map<string, unknown>();
+  const takenBranches = new Map<string, 'true' | 'false'>();
+  let status: WorkflowRunResult['status'] = 'completed';
+
+  const report = (event: WorkflowNodeEvent) => {
+    nodeResults[event.nodeId] = event;
+    options.onNodeEvent?.(event);
+  };
+
+  const isEdgeActive = (edge: WorkflowGraphEdge): boolean => {
+    if (nodeResults[edge.source]?.status !== 'completed') return false;
+    const branch = takenBranches.get(edge.source);
+    return !branch || (edge.sourceHandle || 'true') === branch;
+  };
+
+  for (const node of topologicalOrder(nodes, edges)) {
+    if (status !== 'completed') {
+      report({ nodeId: node.id, status: 'skipped' });
+      continue;
+    }
+
+    if (options.signal?.aborted) {
+      status = 'cancelled';
+      report({ nodeId: node.id, status: 'skipped' });
+      continue;
+    }
+
+    const incoming = edges.filter(edge => edge.target === node.id);
+    const activeIncoming = incoming.filter(isEdgeActive);
+
+    if (incoming.length > 0 && activeIncoming.length === 0) {
+      report({ nodeId: node.id, status: 'skipped' });
+      continue;
+    }
+
+    const upstream = activeIncoming.map(edge => nodeOutputs.get(edge.source));
+    const input = upstream.length === 0 ? undefined : upstream.length === 1 ? upstream[0] : upstream;
+    const context = {
+      executionId,
+      projectId: options.projectId,
+      nodeId: node.id,
+      label: nodeName(node)
+    };
+
+    report({ nodeId: node.id, status: 'running' });
+    const nodeStarted = Date.now();
+
+    try {
+      const { output, logs, branch } = await executeNode(node, input, options.input, context, limits, options.signal);
+      nodeOutputs.set(node.id, output);
+      if (branch) {
+        takenBranches.set(node.id, branch);
+      }
+      if (node.type === 'output') {
+        outputs[nodeName(node)] = output;
+      }
+      report({ nodeId: node.id, status: 'completed', output, logs, branch, durationMs: Date.now() - nodeStarted });
+    } catch (error) {
+      status = options.signal?.aborted ? 'cancelled' : 'failed';
+      report({
+        nodeId: node.id,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logs: error instanceof SandboxError ? error.logs : undefined,
+        durationMs: Date.now() - nodeStarted
+      });
+    }
+  }
+
+  const finishedAt = new Date();
+  return {
+    executionId,
+    status,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    nodeResults,
+    outputs
+  };
+}
+
+async function executeNode(
+  node: WorkflowGraphNode,
+  input: unknown,
+  runInput: unknown,
+  context: Record<string, unknown>,
+  limits: SandboxLimits,
+  signal?: AbortSignal
+): Promise<{ output: unknown; logs?: string[]; branch?: 'true' | 'false' }> {
+  const data = node.data || {};
+  const params = (data.parameters as Record<string, unknown>) || {};
+
+  switch (node.type) {
+    case 'input':
+      return { output: runInput !== undefined ? runInput : (data.parameters ?? null) };
+
+    case 'process':
+      return { output: applyTransform(String(data.transformType || data.processType || 'map'), input, params) };
+
+    case 'conditional': {
+      const { result, logs } = await runSandboxed(String(data.condition), 'expression', { input, context, params }, limits, signal);
+      // The condition's input flows through unchanged to whichever branch is taken
+      return { output: input, logs, branch: result ? 'true' : 'false' };
+    }
+
+    case 'code': {
+      const { result, logs } = await runSandboxed(String(data.code), 'function', { input, context, params }, limits, signal);
+      return { output: result, logs };
+    }
+
+    default:
+      return { output: input ?? null };
+  }
+}
+
+/**
+ * Built-in process transforms. Parameters:
+ * - map:       { fields: { newKey: 'sourceKey' } } — pick and rename fields
+ * - filter:    { field, equals? } — keep items whose field equals the value (or is truthy)
+ * - sort:      { field, order: 'asc' | 'desc' }
+ * - reduce:    { field, operation: 'sum' | 'count' | 'avg' | 'min' | 'max' }
+ * - aggregate: reduce applied per { groupBy } value
+ * Non-array input passes through, except `map`, which also applies to a single object.
+ */
+export function applyTransform(transformType: string, input: unknown, params: Record<string, unknown>): unknown {
+  const field = params.field as string | undefined;
+  const fields = params.fields as Record<string, string> | undefined;
+  const pick = (item: unknown) => {
+    if (!fields || !item || typeof item !== 'object') return item;
+    return Object.fromEntries(Object.entries(fields).map(([key, source]) => [key, (item as Record<string, unknown>)[source]]));
+  };
+  const valueOf = (item: unknown) => (field && item && typeof item === 'object' ? (item as Record<string, unknown>)[field] : item);
+
+  if (!Array.isArray(input)) {
+    return transformType === 'map' ? pick(input) : input;
+  }
+
+  switch (transformType) {
+    case 'map':
+      return input.map(pick);
+
+    case 'filter':
+      return input.filter(item => ('equals' in params ? valueOf(item) === params.equals : Boolean(valueOf(item))));
+
+    case 'sort': {
+      const direction = params.order === 'desc' ? -1 : 1;
+      return [...input].sort((a, b) => {
+        const left = valueOf(a) as string | number;
+        const right = valueOf(b) as string | number;
+        return left < right ? -direction : left > right ? direction : 0;
+      });
+    }
+
+    case 'reduce':
+      return reduceValues(input.map(valueOf), String(params.operation || 'count'));
+
+    case 'aggregate': {
+      const groupBy = params.groupBy as string | undefined;
+      if (!groupBy) {
+        return reduceValues(input.map(valueOf), String(params.operation || 'count'));
+      }
+      const groups = new Map<string, unknown[]>();
+      for (const item of input) {
+        const key = String(item && typeof item === 'object' ? (item as Record<string, unknown>)[groupBy] : item);
+        groups.set(key, [...(groups.get(key) || []), valueOf(item)]);
+      }
+      return Object.fromEntries(
+        Array.from(groups.entries()).map(([key, values]) => [key, reduceValues(values, String(params.operation || 'count'))])
+      );
+    }
+
+    default:
+      return input;
+  }
+}
+
+function reduceValues(values: unknown[], operation: string): number {
+  const numbers = values.map(Number).filter(value => !Number.isNaN(value));
+  switch (operation) {
+    case 'sum':
+      return numbers.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return numbers.length > 0 ? numbers.reduce((total, value) => total + value, 0) / numbers.length : 0;
+    case 'min':
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    case 'max':
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    default:
+      return values.length;
+  }
+}
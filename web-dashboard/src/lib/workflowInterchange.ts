@@ -0,0 +1,495 @@
+import type { Node, Edge } from '@xyflow/react';
+
+/**
+ * Conversion between WorkflowBuilder graphs and external formats.
+ *
+ * BPMN 2.0 mapping:
+ * - input → startEvent, output → endEvent, process → task,
+ *   code → scriptTask, conditional → exclusiveGateway
+ * - business nodes (supplier, stakeholder, regulator, client, team) → black-box
+ *   participants of a collaboration, with their connections as message flows
+ * - connections between process nodes → sequence flows; the true branch of a
+ *   conditional carries the condition, the false branch is the gateway default
+ *
+ * Exports include BPMNDI shapes so modelers render the diagram, plus `aipm:*`
+ * attributes holding the original node ids, types, data and canvas positions so
+ * our own files round-trip without loss. Imports of foreign BPMN fall back to
+ * BPMNDI positions, then to an automatic layered layout.
+ */
+
+export class WorkflowInterchangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowInterchangeError';
+  }
+}
+
+export const BUSINESS_NODE_TYPES = ['supplier', 'stakeholder', 'regulator', 'client', 'team'];
+
+const BPMN_NAMESPACES = {
+  bpmn: 'http://www.omg.org/spec/BPMN/20100524/MODEL',
+  bpmndi: 'http://www.omg.org/spec/BPMN/20100524/DI',
+  dc: 'http://www.omg.org/spec/DD/20100524/DC',
+  di: 'http://www.omg.org/spec/DD/20100524/DI',
+  xsi: 'http://www.w3.org/2001/XMLSchema-instance',
+  aipm: 'urn:ai-project-manager:workflow',
+};
+
+const BPMN_ELEMENT_BY_TYPE: Record<string, string> = {
+  input: 'startEvent',
+  output: 'endEvent',
+  process: 'task',
+  code: 'scriptTask',
+  conditional: 'exclusiveGateway',
+};
+
+const SHAPE_SIZE: Record<string, { width: number; height: number }> = {
+  startEvent: { width: 36, height: 36 },
+  endEvent: { width: 36, height: 36 },
+  exclusiveGateway: { width: 50, height: 50 },
+  task: { width: 100, height: 80 },
+  scriptTask: { width: 100, height: 80 },
+  participant: { width: 300, height: 100 },
+};
+
+// Data fields carried by BPMN itself rather than the aipm:data attribute
+const NATIVE_DATA_FIELDS = ['label', 'description', 'executionStatus', 'executionMessage'];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXmlId(prefix: string, id: string): string {
+  return `${prefix}_${id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function nodeLabel(node: Node): string {
+  return (node.data?.label as string) || node.id;
+}
+
+function extraData(node: Node): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(node.data || {}).filter(([key]) => !NATIVE_DATA_FIELDS.includes(key)));
+}
+
+/**
+ * Serialise a React Flow graph as a BPMN 2.0 document
+ */
+export function exportToBpmn(nodes: Node[], edges: Edge[], processName = 'Workflow'): string {
+  const xmlIds = new Map<string, string>();
+  const processNodes = nodes.filter(node => !BUSINESS_NODE_TYPES.includes(node.type || ''));
+  const participantNodes = nodes.filter(node => BUSINESS_NODE_TYPES.includes(node.type || ''));
+
+  for (const node of processNodes) xmlIds.set(node.id, toXmlId('Node', node.id));
+  for (const node of participantNodes) xmlIds.set(node.id, toXmlId('Participant', node.id));
+
+  const isProcessNode = (id: string) => processNodes.some(node => node.id === id);
+  const validEdges = edges.filter(edge => xmlIds.has(edge.source) && xmlIds.has(edge.target));
+  const sequenceFlows = validEdges.filter(edge => isProcessNode(edge.source) && isProcessNode(edge.target));
+  const messageFlows = validEdges.filter(edge => !(isProcessNode(edge.source) && isProcessNode(edge.target)));
+  const flowId = (edge: Edge) => toXmlId('Flow', edge.id);
+
+  const commonAttributes = (node: Node) => {
+    const data = extraData(node);
+    return [
+      `aipm:id="${escapeXml(node.id)}"`,
+      `aipm:type="${escapeXml(node.type || 'process')}"`,
+      `aipm:x="${Math.round(node.position.x)}"`,
+      `aipm:y="${Math.round(node.position.y)}"`,
+      Object.keys(data).length > 0 ? `aipm:data="${escapeXml(JSON.stringify(data))}"` : '',
+    ].filter(Boolean).join(' ');
+  };
+  const documentation = (node: Node, indent: string) => node.data?.description
+    ? `${indent}<bpmn:documentation>${escapeXml(String(node.data.description))}</bpmn:documentation>\n`
+    : '';
+
+  const edgeAttributes = (edge: Edge) => [
+    `id="${flowId(edge)}"`,
+    `sourceRef="${xmlIds.get(edge.source)}"`,
+    `targetRef="${xmlIds.get(edge.target)}"`,
+    `aipm:id="${escapeXml(edge.id)}"`,
+    typeof edge.label === 'string' && edge.label ? `name="${escapeXml(edge.label)}"` : '',
+    edge.sourceHandle ? `aipm:sourceHandle="${escapeXml(edge.sourceHandle)}"` : '',
+    edge.targetHandle ? `aipm:targetHandle="${escapeXml(edge.targetHandle)}"` : '',
+  ].filter(Boolean).join(' ');
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<bpmn:definitions';
+  for (const [prefix, uri] of Object.entries(BPMN_NAMESPACES)) {
+    xml += ` xmlns:${prefix}="${uri}"`;
+  }
+  xml += ' id="Definitions_1" targetNamespace="urn:ai-project-manager:workflow" exporter="AI Project Manager" exporterVersion="1.0">\n';
+
+  // Collaboration: the workflow itself plus one black-box participant per business node
+  xml += '  <bpmn:collaboration id="Collaboration_1">\n';
+  xml += `    <bpmn:participant id="Participant_Process" name="${escapeXml(processName)}" processRef="Process_1" />\n`;
+  for (const node of participantNodes) {
+    xml += `    <bpmn:participant id="${xmlIds.get(node.id)}" name="${escapeXml(nodeLabel(node))}" ${commonAttributes(node)}>\n`;
+    xml += documentation(node, '      ');
+    xml += '    </bpmn:participant>\n';
+  }
+  for (const edge of messageFlows) {
+    xml += `    <bpmn:messageFlow ${edgeAttributes(edge)} />\n`;
+  }
+  xml += '  </bpmn:collaboration>\n';
+
+  xml += `  <bpmn:process id="Process_1" name="${escapeXml(processName)}" isExecutable="false">\n`;
+  for (const node of processNodes) {
+    const element = BPMN_ELEMENT_BY_TYPE[node.type || ''] || 'task';
+    const outgoingFalse = sequenceFlows.filter(edge => edge.source === node.id && edge.sourceHandle === 'false');
+    const defaultFlow = element === 'exclusiveGateway' && outgoingFalse.length === 1 ? ` default="${flowId(outgoingFalse[0])}"` : '';
+    const scriptFormat = element === 'scriptTask' ? ' scriptFormat="javascript"' : '';
+
+    xml += `    <bpmn:${element} id="${xmlIds.get(node.id)}" name="${escapeXml(nodeLabel(node))}"${defaultFlow}${scriptFormat} ${commonAttributes(node)}>\n`;
+    xml += documentation(node, '      ');
+    for (const edge of sequenceFlows.filter(edge => edge.target === node.id)) {
+      xml += `      <bpmn:incoming>${flowId(edge)}</bpmn:incoming>\n`;
+    }
+    for (const edge of sequenceFlows.filter(edge => edge.source === node.id)) {
+      xml += `      <bpmn:outgoing>${flowId(edge)}</bpmn:outgoing>\n`;
+    }
+    if (element === 'scriptTask' && node.data?.code) {
+      xml += `      <bpmn:script>${escapeXml(String(node.data.code))}</bpmn:script>\n`;
+    }
+    xml += `    </bpmn:${element}>\n`;
+  }
+  for (const edge of sequenceFlows) {
+    const source = nodes.find(node => node.id === edge.source)!;
+    const condition = source.type === 'conditional' && edge.sourceHandle !== 'false' ? String(source.data?.condition || '') : '';
+    if (condition) {
+      xml += `    <bpmn:sequenceFlow ${edgeAttributes(edge)}>\n`;
+      xml += `      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(condition)}</bpmn:conditionExpression>\n`;
+      xml += '    </bpmn:sequenceFlow>\n';
+    } else {
+      xml += `    <bpmn:sequenceFlow ${edgeAttributes(edge)} />\n`;
+    }
+  }
+  xml += '  </bpmn:process>\n';
+
+  xml += buildDiagramInterchange(processNodes, participantNodes, sequenceFlows, messageFlows, xmlIds, flowId);
+  xml += '</bpmn:definitions>\n';
+  return xml;
+}
+
+function buildDiagramInterchange(
+  processNodes: Node[],
+  participantNodes: Node[],
+  sequenceFlows: Edge[],
+  messageFlows: Edge[],
+  xmlIds: Map<string, string>,
+  flowId: (edge: Edge) => string
+): string {
+  const bounds = new Map<string, { x: number; y: number; width: number; height: number }>();
+
+  for (const node of processNodes) {
+    const size = SHAPE_SIZE[BPMN_ELEMENT_BY_TYPE[node.type || ''] || 'task'];
+    bounds.set(node.id, { x: Math.round(node.position.x), y: Math.round(node.position.y), ...size });
+  }
+
+  // The process pool wraps its nodes; participant pools are stacked underneath it
+  const all = Array.from(bounds.values());
+  const padding = 60;
+  const pool = all.length > 0
+    ? {
+        x: Math.min(...all.map(b => b.x)) - padding,
+        y: Math.min(...all.map(b => b.y)) - padding,
+        width: Math.max(...all.map(b => b.x + b.width)) - Math.min(...all.map(b => b.x)) + padding * 2,
+        height: Math.max(...all.map(b => b.y + b.height)) - Math.min(...all.map(b => b.y)) + padding * 2,
+      }
+    : { x: 0, y: 0, width: 600, height: 250 };
+
+  participantNodes.forEach((node, index) => {
+    bounds.set(node.id, {
+      x: pool.x,
+      y: pool.y + pool.height + 40 + index * (SHAPE_SIZE.participant.height + 20),
+      width: Math.max(pool.width, SHAPE_SIZE.participant.width),
+      height: SHAPE_SIZE.participant.height,
+    });
+  });
+
+  const shape = (id: string, b: { x: number; y: number; width: number; height: number }, extra = '') =>
+    `      <bpmndi:BPMNShape id="${id}_di" bpmnElement="${id}"${extra}>\n` +
+    `        <dc:Bounds x="${b.x}" y="${b.y}" width="${b.width}" height="${b.height}" />\n` +
+    '      </bpmndi:BPMNShape>\n';
+
+  let xml = '  <bpmndi:BPMNDiagram id="BPMNDiagram_1">\n';
+  xml += '    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="Collaboration_1">\n';
+  xml += shape('Participant_Process', pool, ' isHorizontal="true"');
+  for (const node of [...processNodes, ...participantNodes]) {
+    const isParticipant = participantNodes.includes(node);
+    xml += shape(xmlIds.get(node.id)!, bounds.get(node.id)!, isParticipant ? ' isHorizontal="true"' : '');
+  }
+  for (const edge of [...sequenceFlows, ...messageFlows]) {
+    const source = bounds.get(edge.source)!;
+    const target = bounds.get(edge.target)!;
+    xml += `      <bpmndi:BPMNEdge id="${flowId(edge)}_di" bpmnElement="${flowId(edge)}">\n`;
+    xml += `        <di:waypoint x="${source.x + source.width}" y="${source.y + source.height / 2}" />\n`;
+    xml += `        <di:waypoint x="${target.x}" y="${target.y + target.height / 2}" />\n`;
+    xml += '      </bpmndi:BPMNEdge>\n';
+  }
+  xml += '    </bpmndi:BPMNPlane>\n';
+  xml += '  </bpmndi:BPMNDiagram>\n';
+  return xml;
+}
+
+// Namespace prefixes vary between modelers, so match elements on their local name
+function localName(element: Element): string {
+  return (element.localName || element.tagName).split(':').pop()!;
+}
+
+function childElements(element: Element, name?: string): Element[] {
+  return Array.from(element.children).filter(child => !name || localName(child) === name);
+}
+
+function descendants(root: Document | Element, name: string): Element[] {
+  const found: Element[] = [];
+  const walk = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      if (localName(child) === name) found.push(child);
+      walk(child);
+    }
+  };
+  const start = 'documentElement' in root ? root.documentElement : root;
+  if (start) {
+    if (localName(start) === name) found.push(start);
+    walk(start);
+  }
+  return found;
+}
+
+function bpmnNodeType(element: Element): string | null {
+  const name = localName(element);
+  if (name === 'startEvent') return 'input';
+  if (name === 'endEvent') return 'output';
+  if (name === 'scriptTask') return 'code';
+  if (['exclusiveGateway', 'inclusiveGateway', 'eventBasedGateway'].includes(name)) return 'conditional';
+  if (/Task$/.test(name) || ['task', 'subProcess', 'callActivity', 'parallelGateway', 'complexGateway'].includes(name)) return 'process';
+  if (/Event$/.test(name)) return 'process';
+  return null;
+}
+
+/**
+ * Parse a BPMN 2.0 document into React Flow nodes and edges. Must run where
+ * DOMParser is available (the browser).
+ */
+export function importFromBpmn(xml: string): { nodes: Node[]; edges: Edge[] } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const definitions = doc.documentElement;
+
+  if (!definitions || localName(definitions) !== 'definitions' || descendants(doc, 'parsererror').length > 0) {
+    throw new WorkflowInterchangeError('The file is not a valid BPMN 2.0 document');
+  }
+
+  const diagramBounds = new Map<string, { x: number; y: number }>();
+  for (const shape of descendants(doc, 'BPMNShape')) {
+    const boundsElement = childElements(shape, 'Bounds')[0];
+    const elementId = shape.getAttribute('bpmnElement');
+    if (boundsElement && elementId) {
+      diagramBounds.set(elementId, {
+        x: parseFloat(boundsElement.getAttribute('x') || '0'),
+        y: parseFloat(boundsElement.getAttribute('y') || '0'),
+      });
+    }
+  }
+
+  const nodes: Node[] = [];
+  const nodeIdByXmlId = new Map<string, string>();
+  const positioned = new Set<string>();
+
+  const addNode = (element: Element, type: string) => {
+    const xmlId = element.getAttribute('id') || `element_${nodes.length}`;
+    const id = element.getAttribute('aipm:id') || xmlId;
+    let data: Record<string, unknown> = {};
+    try {
+      data = JSON.parse(element.getAttribute('aipm:data') || '{}');
+    } catch {
+      // Ignore malformed extension data and keep the native fields
+    }
+
+    const documentationElement = childElements(element, 'documentation')[0];
+    const scriptElement = childElements(element, 'script')[0];
+    data.label = element.getAttribute('name') || data.label || localName(element);
+    if (documentationElement?.textContent) data.description = documentationElement.textContent;
+    if (type === 'code' && !data.code && scriptElement?.textContent) data.code = scriptElement.textContent;
+
+    const aipmX = element.getAttribute('aipm:x');
+    const aipmY = element.getAttribute('aipm:y');
+    const position = aipmX !== null && aipmY !== null
+      ? { x: parseFloat(aipmX), y: parseFloat(aipmY) }
+      : diagramBounds.get(xmlId);
+    if (position) positioned.add(id);
+
+    nodes.push({ id, type: element.getAttribute('aipm:type') || type, position: position || { x: 0, y: 0 }, data });
+    nodeIdByXmlId.set(xmlId, id);
+  };
+
+  // Black-box participants are the business nodes; participants with a process are just pools
+  for (const participant of descendants(doc, 'participant')) {
+    if (!participant.getAttribute('processRef')) {
+      addNode(participant, 'stakeholder');
+    }
+  }
+
+  const processes = descendants(doc, 'process');
+  for (const process of processes) {
+    for (const element of childElements(process)) {
+      const type = bpmnNodeType(element);
+      if (type) addNode(element, type);
+    }
+
+    // Lanes carry the team responsible for their nodes
+    for (const lane of descendants(process, 'lane')) {
+      if (lane.getAttribute('name')) addNode(lane, 'team');
+    }
+  }
+
+  const edges: Edge[] = [];
+  const defaultFlows = new Set(
+    descendants(doc, 'exclusiveGateway')
+      .concat(descendants(doc, 'inclusiveGateway'))
+      .map(gateway => gateway.getAttribute('default'))
+      .filter((id): id is string => Boolean(id))
+  );
+
+  for (const flow of [...descendants(doc, 'sequenceFlow'), ...descendants(doc, 'messageFlow')]) {
+    const source = nodeIdByXmlId.get(flow.getAttribute('sourceRef') || '');
+    const target = nodeIdByXmlId.get(flow.getAttribute('targetRef') || '');
+    if (!source || !target) continue;
+
+    const xmlId = flow.getAttribute('id') || `flow_${edges.length}`;
+    const name = flow.getAttribute('name') || undefined;
+    const conditionText = childElements(flow, 'conditionExpression')[0]?.textContent?.trim();
+    let sourceHandle = flow.getAttribute('aipm:sourceHandle');
+
+    const sourceNode = nodes.find(node => node.id === source)!;
+    if (!sourceHandle && sourceNode.type === 'conditional') {
+      const looksNegative = defaultFlows.has(xmlId) || /^(no|false|else|otherwise)$/i.test(name || '');
+      sourceHandle = looksNegative ? 'false' : 'true';
+    }
+    if (sourceNode.type === 'conditional' && conditionText && !sourceNode.data.condition) {
+      sourceNode.data.condition = conditionText;
+    }
+
+    edges.push({
+      id: flow.getAttribute('aipm:id') || xmlId,
+      source,
+      target,
+      type: 'custom',
+      ...(sourceHandle ? { sourceHandle } : {}),
+      ...(flow.getAttribute('aipm:targetHandle') ? { targetHandle: flow.getAttribute('aipm:targetHandle') } : {}),
+      ...(name ? { label: name } : {}),
+    });
+  }
+
+  if (nodes.length === 0) {
+    throw new WorkflowInterchangeError('The BPMN file contains no process elements');
+  }
+
+  return {
+    nodes: positioned.size === nodes.length ? nodes : autoLayout(nodes, edges),
+    edges,
+  };
+}
+
+/**
+ * Layered left-to-right layout: each node goes in the column after its deepest
+ * predecessor (back edges of cycles are ignored), stacked vertically within the column.
+ */
+export function autoLayout(nodes: Node[], edges: Edge[]): Node[] {
+  const outgoing = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  for (const edge of edges) outgoing.get(edge.source)?.push(edge.target);
+
+  // Drop edges that close a cycle so the longest-path pass terminates
+  const forwardEdges: Array<[string, string]> = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const target of outgoing.get(id) || []) {
+      if (state.get(target) === 'visiting') continue;
+      forwardEdges.push([id, target]);
+      if (!state.has(target)) visit(target);
+    }
+    state.set(id, 'done');
+  };
+  for (const node of nodes) if (!state.has(node.id)) visit(node.id);
+
+  const level = new Map<string, number>(nodes.map(node => [node.id, 0]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [source, target] of forwardEdges) {
+      if (level.get(target)! < level.get(source)! + 1) {
+        level.set(target, level.get(source)! + 1);
+        changed = true;
+      }
+    }
+  }
+
+  const rows = new Map<number, number>();
+  return nodes.map(node => {
+    const column = level.get(node.id)!;
+    const row = rows.get(column) || 0;
+    rows.set(column, row + 1);
+    return { ...node, position: { x: 80 + column * 260, y: 80 + row * 140 } };
+  });
+}
+
+function mermaidId(id: string): string {
+  return `n_${id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/\n/g, ' ')}"`;
+}
+
+/**
+ * Render the graph as a Mermaid flowchart. Business nodes are grouped into one
+ * subgraph per kind so they read as participants next to the process.
+ */
+export function exportToMermaid(nodes: Node[], edges: Edge[]): string {
+  const shape = (node: Node) => {
+    const label = mermaidText(nodeLabel(node));
+    switch (node.type) {
+      case 'input':
+      case 'output':
+        return `([${label}])`;
+      case 'conditional':
+        return `{${label}}`;
+      case 'code':
+        return `[[${label}]]`;
+      default:
+        return BUSINESS_NODE_TYPES.includes(node.type || '') ? `{{${label}}}` : `[${label}]`;
+    }
+  };
+
+  const lines = ['flowchart LR'];
+  for (const node of nodes.filter(node => !BUSINESS_NODE_TYPES.includes(node.type || ''))) {
+    lines.push(`  ${mermaidId(node.id)}${shape(node)}`);
+  }
+
+  for (const type of BUSINESS_NODE_TYPES) {
+    const group = nodes.filter(node => node.type === type);
+    if (group.length === 0) continue;
+    lines.push(`  subgraph ${type}_participants[${mermaidText(`${type.charAt(0).toUpperCase()}${type.slice(1)}s`)}]`);
+    for (const node of group) {
+      lines.push(`    ${mermaidId(node.id)}${shape(node)}`);
+    }
+    lines.push('  end');
+  }
+
+  const nodeIds = new Set(nodes.map(node => node.id));
+  for (const edge of edges) {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) continue;
+    const source = nodes.find(node => node.id === edge.source)!;
+    const label = source.type === 'conditional' && edge.sourceHandle
+      ? (edge.sourceHandle === 'false' ? 'No' : 'Yes')
+      : typeof edge.label === 'string' ? edge.label : '';
+    lines.push(`  ${mermaidId(edge.source)} -->${label ? `|${mermaidText(label)}|` : ''} ${mermaidId(edge.target)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
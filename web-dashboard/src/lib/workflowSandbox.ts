@@ -0,0 +1,167 @@
+import { Worker } from 'worker_threads';
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+export interface SandboxResult {
+  result: unknown;
+  logs: string[];
+}
+
+export class SandboxError extends Error {
+  constructor(message: string, public logs: string[] = []) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 2000,
+  memoryMb: 64
+};
+
+/**
+ * Runs inside the worker. User code is evaluated in a fresh vm context whose
+ * global has no prototype and whose inputs are parsed from a JSON string inside
+ * that context, so no host object (and therefore no host Function constructor)
+ * is reachable from the snippet. Results leave the context as a JSON string.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false }
+});
+context.__payload = workerData.payload;
+
+const body = workerData.mode === 'expression'
+  ? 'return (' + workerData.source + '\\n);'
+  : workerData.source;
+
+const script = [
+  '"use strict";',
+  'const __logs = [];',
+  'const __format = (value) => typeof value === "string" ? value : JSON.stringify(value);',
+  'const console = {',
+  '  log: (...args) => { __logs.push(args.map(__format).join(" ")); },',
+  '  warn: (...args) => { __logs.push(args.map(__format).join(" ")); },',
+  '  error: (...args) => { __logs.push(args.map(__format).join(" ")); }',
+  '};',
+  'const { input, context, params } = JSON.parse(__payload);',
+  'const data = input;',
+  'const __finish = (value) => JSON.stringify({ result: value === undefined ? null : value, logs: __logs });',
+  'const __fail = (error) => { throw new Error(JSON.stringify({ message: String(error && error.message || error), logs: __logs })); };',
+  'let __value;',
+  'try {',
+  '  __value = (function (input, data, context, params) {',
+  body,
+  '  })(input, data, context, params);',
+  '} catch (error) { __fail(error); }',
+  '(__value && typeof __value.then === "function") ? __value.then(__finish, __fail) : __finish(__value);'
+].join('\\n');
+
+Promise.resolve()
+  .then(() => vm.runInContext(script, context, { timeout: workerData.timeoutMs }))
+  .then((output) => parentPort.postMessage({ ok: true, output }))
+  .catch((error) => {
+    let message = error && error.message ? error.message : String(error);
+    let logs = [];
+    try {
+      const parsed = JSON.parse(message);
+      message = parsed.message;
+      logs = parsed.logs;
+    } catch {}
+    parentPort.postMessage({ ok: false, error: message, logs });
+  });
+`;
+
+/**
+ * Evaluate a user-supplied JavaScript snippet in a worker thread with a wall-clock
+ * timeout and a heap limit. `mode: 'expression'` evaluates a single expression
+ * (ConditionalNode conditions), `mode: 'function'` runs a function body whose
+ * `return` value is the result (CodeNode snippets). The snippet sees `input`
+ * (aliased as `data`), `context` and `params`, all as plain JSON values.
+ *
+ * The worker gets an empty environment, so secrets in process.env are never
+ * visible to workflow code.
+ */
+export function runSandboxed(
+  source: string,
+  mode: 'expression' | 'function',
+  scope: { input: unknown; context: unknown; params: unknown },
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS,
+  signal?: AbortSignal
+): Promise<SandboxResult> {
+  return new Promise((resolve, reject) => {
+    let payload: string;
+    try {
+      payload = JSON.stringify(scope);
+    } catch {
+      reject(new SandboxError('Node input is not JSON-serialisable'));
+      return;
+    }
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: { source, mode, payload, timeoutMs: limits.timeoutMs },
+      resourceLimits: {
+        maxOldGenerationSizeMb: limits.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(limits.memoryMb / 4)),
+        stackSizeMb: 4
+      }
+    });
+
+    let settled = false;
+    const finish = (error: SandboxError | null, result?: SandboxResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      void worker.terminate();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    // Covers async snippets, which the vm timeout does not
+    const timer = setTimeout(() => {
+      finish(new SandboxError(`Execution timed out after ${limits.timeoutMs}ms`));
+    }, limits.timeoutMs + 250);
+
+    const onAbort = () => finish(new SandboxError('Execution cancelled'));
+    signal?.addEventListener('abort', onAbort);
+
+    worker.on('message', (message: { ok: boolean; output?: string; error?: string; logs?: string[] }) => {
+      if (!message.ok) {
+        const error = message.error?.includes('Script execution timed out')
+          ? `Execution timed out after ${limits.timeoutMs}ms`
+          : message.error || 'Execution failed';
+        finish(new SandboxError(error, message.logs || []));
+        return;
+      }
+
+      const output = JSON.parse(message.output || '{"result":null,"logs":[]}');
+      finish(null, { result: output.result, logs: output.logs });
+    });
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      const message = error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? `Execution exceeded the ${limits.memoryMb}MB memory limit`
+        : error.message;
+      finish(new SandboxError(message));
+    });
+
+    // A clean exit before any message means the snippet returned a promise that never settled
+    worker.on('exit', (code) => {
+      finish(new SandboxError(code === 0
+        ? 'Execution returned a promise that never settled'
+        : `Execution stopped unexpectedly (exit code ${code})`));
+    });
+  });
+}
@@ -11,6 +11,7 @@ export interface ActivityItem {
   title: string;
   completedAt: Date;
   completedBy: 'manual' | 'auto-detection';
+  timeSpent?: number; // Seconds of focused work tracked in VS Code
 }
 
 export interface Milestone {
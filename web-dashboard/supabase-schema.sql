@@ -243,6 +243,109 @@ DROP POLICY IF EXISTS "Users can delete opportunities they created" ON opportuni
 CREATE POLICY "Users can delete opportunities they created" ON opportunities
   FOR DELETE USING (auth.uid()::text = created_by);
 
+-- Create project_workflows table (one row per saved version of a project's workflow diagram)
+-- project_id is not a foreign key because older projects only exist in Pinecone
+CREATE TABLE IF NOT EXISTS project_workflows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  nodes JSONB NOT NULL DEFAULT '[]',
+  edges JSONB NOT NULL DEFAULT '[]',
+  message TEXT,
+  created_by TEXT NOT NULL, -- User ID of whoever saved this version
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, version)
+);
+
+-- Create workflow_results table
+CREATE TABLE IF NOT EXISTS workflow_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id TEXT NOT NULL,
+  execution_id TEXT NOT NULL,
+  workflow_version INTEGER,
+  results JSONB NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, execution_id)
+);
+
+-- Create indexes for workflows
+CREATE INDEX IF NOT EXISTS idx_project_workflows_project_id ON project_workflows(project_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_results_project_id ON workflow_results(project_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_results_created_at ON workflow_results(created_at);
+
+-- Enable Row Level Security for workflows
+-- No policies are defined: only the service client (used by the API routes, which check
+-- owner/share/team permissions) can read or write these tables
+ALTER TABLE project_workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_results ENABLE ROW LEVEL SECURITY;
+
+-- Create document history tables
+-- Snapshot content is stored once per SHA-256 hash; versions reference it, so saving the
+-- same text again (or restoring an old version) doesn't duplicate the document
+CREATE TABLE IF NOT EXISTS document_blobs (
+  hash TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id TEXT NOT NULL,
+  document TEXT NOT NULL, -- 'requirements', 'design', 'tasks' or 'context/<file name>'
+  content_hash TEXT NOT NULL REFERENCES document_blobs(hash),
+  parent_hash TEXT,
+  author TEXT NOT NULL,
+  author_name TEXT,
+  source TEXT NOT NULL CHECK (source IN ('dashboard', 'vscode', 'ai-generation', 'restore', 'import')),
+  message TEXT,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_project_document ON document_versions(project_id, document, created_at DESC);
+
+ALTER TABLE document_blobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create app_records table (storage layer for records that used to live in Pinecone metadata)
+-- One JSON document per record, keyed by collection (see StorageCollections in src/lib/storage.ts) and id
+CREATE TABLE IF NOT EXISTS app_records (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (collection, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_records_data ON app_records USING GIN (data);
+
+-- No policies on purpose: anon and authenticated clients are denied every row, and only the
+-- service role (SUPABASE_SERVICE_ROLE_KEY, which bypasses RLS) reads or writes app_records
+ALTER TABLE app_records ENABLE ROW LEVEL SECURITY;
+
+-- Create vector_records table (the pgvector store, used when VECTOR_STORE=pgvector)
+-- namespace '' is the default namespace; the dimension must match the embedding model
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS vector_records (
+  namespace TEXT NOT NULL DEFAULT '',
+  id TEXT NOT NULL,
+  embedding vector(1024) NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (namespace, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_records_embedding ON vector_records USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_vector_records_metadata ON vector_records USING GIN (metadata);
+
+-- Only the vector store's own database connection reads or writes vector_records
+ALTER TABLE vector_records ENABLE ROW LEVEL SECURITY;
+
 -- Create triggers to automatically update updated_at
 DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
 CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON projects